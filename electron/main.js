@@ -1,6 +1,7 @@
-const { app, BrowserWindow, session, ipcMain } = require('electron');
+const { app, BrowserWindow, session, ipcMain, dialog } = require('electron');
 const path = require('path');
 const fs = require('fs');
+const os = require('os');
 const http = require('http');
 const { autoUpdater } = require('electron-updater');
 
@@ -165,6 +166,41 @@ ipcMain.handle('set-theme-icon', (_event, theme) => {
   }
 });
 
+// Render a self-contained HTML document (e.g. the tech pack) to A4 PDF and let the user pick where to save it.
+// The document paginates itself, so margins are zero and the CSS page size wins.
+// It goes through a temp file – embedded images easily exceed the 2 MB limit of data: URLs.
+ipcMain.handle('export-pdf', async (event, html, fileName) => {
+  const parent = BrowserWindow.fromWebContents(event.sender);
+  const pdfWin = new BrowserWindow({
+    show: false,
+    webPreferences: { contextIsolation: true, nodeIntegration: false, javascript: false },
+  });
+  const htmlPath = path.join(os.tmpdir(), `nokturo-pdf-${Date.now()}-${Math.random().toString(36).slice(2)}.html`);
+  try {
+    fs.writeFileSync(htmlPath, html, 'utf8');
+    await pdfWin.loadFile(htmlPath);
+    const pdf = await pdfWin.webContents.printToPDF({
+      pageSize: 'A4',
+      printBackground: true,
+      preferCSSPageSize: true,
+      margins: { marginType: 'none' },
+    });
+    const { canceled, filePath } = await dialog.showSaveDialog(parent, {
+      defaultPath: fileName,
+      filters: [{ name: 'PDF', extensions: ['pdf'] }],
+    });
+    if (canceled || !filePath) return { status: 'canceled' };
+    fs.writeFileSync(filePath, pdf);
+    return { status: 'ok', path: filePath };
+  } catch (err) {
+    console.error('[Nokturo] PDF export failed:', err);
+    return { status: 'error', message: err?.message };
+  } finally {
+    pdfWin.destroy();
+    fs.rm(htmlPath, { force: true }, () => {});
+  }
+});
+
 let staticServer = null;
 let appUrl = 'http://127.0.0.1:5173';
 
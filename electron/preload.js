@@ -18,6 +18,9 @@ contextBridge.exposeInMainWorld('electronAPI', {
     return () => ipcRenderer.removeListener('update-status', handler);
   },
 
+  // ── PDF export (rendered in the main process) ─────────────
+  exportPdf: (html, fileName) => ipcRenderer.invoke('export-pdf', html, fileName),
+
   // ── Theme icon ─────────────────────────────────────────────
   setThemeIcon: (theme) => ipcRenderer.invoke('set-theme-icon', theme),
 });
@@ -6,6 +6,7 @@ import { useAuthStore } from './stores/authStore';
 import { useSleepModeStore } from './stores/sleepModeStore';
 import { useThemeStore } from './stores/themeStore';
 import { useToastStore } from './stores/toastStore';
+import { useWorkspaceStore } from './stores/workspaceStore';
 import { SleepMode } from './components/SleepMode';
 import i18n, { LANGUAGE_KEY } from './i18n';
 import { safeGetStorage } from './lib/storage';
@@ -258,6 +259,11 @@ export default function App() {
     };
   }, [setUser, setAuthLoading, setInitialized]);
 
+  // Workspace settings (base currency) once a user is signed in
+  useEffect(() => {
+    if (user?.id) void useWorkspaceStore.getState().fetchSettings();
+  }, [user?.id]);
+
   // NOTE: Aggressive session health checks and window focus handlers were removed.
   // Supabase autoRefreshToken handles token lifecycle automatically.
   // The removed checks caused false session-expired triggers on alt-tab.
@@ -4,11 +4,13 @@ import { useTranslation } from 'react-i18next';
 import { MaterialIcon } from './icons/MaterialIcon';
 import { DeleteIcon } from './icons/DeleteIcon';
 import { DuplicateIcon } from './icons/DuplicateIcon';
-import { convertToCzk } from '../lib/currency';
+import { convertCurrency, formatInBase, isBaseConversionApproximate, useBaseCurrency } from '../lib/currency';
 import type { AccountingOrder } from './AccountingSlideOver';
 import { MODAL_HEADING_CLASS } from '../lib/inputStyles';
 import type { NotionSelectOption } from './NotionSelect';
 import { useDropdownPosition } from '../hooks/useDropdownPosition';
+import { OrderStockReceipts } from './StockMovements';
+import { OrderItemsBreakdown } from './AccountingOrderItems';
 
 const TAG_BADGE_CLASSES: Record<string, string> = {
   gray: 'bg-nokturo-500 text-white',
@@ -43,10 +45,9 @@ function formatDate(d: string | null): string {
   }
 }
 
-function formatValueInCzk(v: number | null, currency: string = 'EUR'): string {
+function formatValueInBase(v: number | null, currency: string = 'EUR', date?: string | null): string {
   if (v == null) return '—';
-  const czk = convertToCzk(v, currency || 'EUR');
-  return new Intl.NumberFormat('cs-CZ', { minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(czk) + ' Kč';
+  return formatInBase(v, currency || 'EUR', date);
 }
 
 export function AccountingDetailSlideOver({
@@ -59,6 +60,7 @@ export function AccountingDetailSlideOver({
   onDelete,
 }: AccountingDetailSlideOverProps) {
   const { t } = useTranslation();
+  const baseCurrency = useBaseCurrency();
   const [menuOpen, setMenuOpen] = useState(false);
   const menuTriggerRef = useRef<HTMLButtonElement>(null);
   const menuPosition = useDropdownPosition({
@@ -188,10 +190,29 @@ export function AccountingDetailSlideOver({
               {t('accounting.orderValue')}
             </label>
             <p className="text-base font-medium text-white">
-              {formatValueInCzk(order.order_value, order.order_currency || 'EUR')}
+              {formatValueInBase(order.order_value, order.order_currency || 'EUR', order.order_date ?? order.created_at)}
             </p>
+            {order.order_value != null && (order.order_currency || 'EUR') !== baseCurrency && (
+              <p className="text-xs text-nokturo-400 mt-1">
+                {order.order_value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}{' '}
+                {order.order_currency || 'EUR'} ·{' '}
+                {t(
+                  isBaseConversionApproximate(order.order_currency || 'EUR', order.order_date ?? order.created_at)
+                    ? 'exchangeRates.rateApproximate'
+                    : 'exchangeRates.rateUsed',
+                  {
+                    currency: order.order_currency || 'EUR',
+                    rate: convertCurrency(1, order.order_currency || 'EUR', baseCurrency, order.order_date ?? order.created_at).toFixed(3),
+                    base: baseCurrency,
+                  }
+                )}
+              </p>
+            )}
           </div>
 
+          {/* Line items breakdown */}
+          <OrderItemsBreakdown items={order.accounting_order_items ?? []} currency={order.order_currency || 'EUR'} />
+
           {/* Order date */}
           <div>
             <label className="block text-[14px] font-normal text-nokturo-400 mb-2 opacity-70">
@@ -223,7 +244,7 @@ export function AccountingDetailSlideOver({
                     {t('accounting.monthlyPayment')}
                   </label>
                   <p className="text-base font-medium text-white">
-                    {formatValueInCzk(order.monthly_value, order.order_currency || 'EUR')}
+                    {formatValueInBase(order.monthly_value, order.order_currency || 'EUR')}
                   </p>
                 </div>
               )}
@@ -233,13 +254,16 @@ export function AccountingDetailSlideOver({
                     {t('accounting.yearlyPayment')}
                   </label>
                   <p className="text-base font-medium text-white">
-                    {formatValueInCzk(order.yearly_value, order.order_currency || 'EUR')}
+                    {formatValueInBase(order.yearly_value, order.order_currency || 'EUR')}
                   </p>
                 </div>
               )}
             </div>
           )}
 
+          {/* Stock receipts (inventory ledger) */}
+          <OrderStockReceipts orderId={order.id} canBook={order.order_status === 'delivered'} />
+
           {/* E-shop link */}
           {order.eshop_link && (
             <>
@@ -0,0 +1,357 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { supabase } from '../lib/supabase';
+import { useAuthStore } from '../stores/authStore';
+import { MaterialIcon } from './icons/MaterialIcon';
+import { SimpleDropdown } from './SimpleDropdown';
+import { INPUT_CLASS } from '../lib/inputStyles';
+import { convertCurrency } from '../lib/currency';
+import type { StockItemRef } from '../lib/stockLedger';
+import {
+  VAT_RATES,
+  lineNet,
+  orderTotals,
+  parseDraft,
+  fetchPurchasePrices,
+  type AccountingOrderItem,
+  type OrderItemDraft,
+  type PurchasePrice,
+} from '../lib/accountingItems';
+
+const fmtMoney = (n: number) => n.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+interface CatalogItem {
+  ref: string;
+  label: string;
+  name: string;
+  unit: string;
+  price_per_unit: number;
+  currency: string;
+}
+
+export const newOrderItemDraft = (): OrderItemDraft => ({
+  key: crypto.randomUUID(),
+  id: null,
+  ref: '',
+  description: '',
+  unit: 'pcs',
+  quantity: '1',
+  unit_price: '',
+  vat_rate: '21',
+});
+
+// ── Editor (AccountingSlideOver) ─────────────────────────────
+
+interface OrderItemsEditorProps {
+  items: OrderItemDraft[];
+  onChange: (items: OrderItemDraft[]) => void;
+  currency: string;
+}
+
+export function OrderItemsEditor({ items, onChange, currency }: OrderItemsEditorProps) {
+  const { t } = useTranslation();
+  const [catalog, setCatalog] = useState<CatalogItem[]>([]);
+
+  useEffect(() => {
+    Promise.all([
+      supabase.from('materials').select('id, name, unit, price_per_unit, currency').order('name'),
+      supabase.from('components').select('id, name, price_per_unit, currency').order('name'),
+    ]).then(([mats, comps]) => {
+      setCatalog([
+        ...((mats.data as { id: string; name: string; unit: string; price_per_unit: number; currency: string }[]) || []).map((m) => ({
+          ref: `material:${m.id}`,
+          label: m.name,
+          name: m.name,
+          unit: m.unit,
+          price_per_unit: m.price_per_unit,
+          currency: m.currency,
+        })),
+        ...((comps.data as { id: string; name: string; price_per_unit: number; currency: string }[]) || []).map((c) => ({
+          ref: `component:${c.id}`,
+          label: `${c.name} · ${t('stock.component')}`,
+          name: c.name,
+          unit: 'pcs',
+          price_per_unit: c.price_per_unit,
+          currency: c.currency,
+        })),
+      ]);
+    });
+  }, [t]);
+
+  const update = (key: string, patch: Partial<OrderItemDraft>) => {
+    onChange(items.map((i) => (i.key === key ? { ...i, ...patch } : i)));
+  };
+
+  // Picking a library item fills in name, unit and its list price (in the order currency)
+  const pickRef = (key: string, ref: string) => {
+    const entry = catalog.find((c) => c.ref === ref);
+    if (!entry) {
+      update(key, { ref: '' });
+      return;
+    }
+    const price = convertCurrency(entry.price_per_unit || 0, entry.currency || 'EUR', currency);
+    update(key, {
+      ref,
+      description: entry.name,
+      unit: entry.unit,
+      unit_price: String(Math.round(price * 100) / 100),
+    });
+  };
+
+  const totals = orderTotals(items.filter((i) => i.description.trim()).map(parseDraft));
+  const labelClass = 'block text-xs text-nokturo-500 mb-1';
+
+  return (
+    <div className="space-y-2">
+      {items.map((item) => (
+        <div key={item.key} className="rounded-lg bg-nokturo-100/60 dark:bg-white/5 p-3 space-y-2">
+          <div className="flex items-center gap-2">
+            <div className="flex-1 min-w-0">
+              <SimpleDropdown
+                value={item.ref}
+                onChange={(v) => pickRef(item.key, v)}
+                options={[
+                  { value: '', label: t('accounting.items.freeText') },
+                  ...catalog.map(({ ref, label }) => ({ value: ref, label })),
+                ]}
+              />
+            </div>
+            <button
+              type="button"
+              onClick={() => onChange(items.filter((i) => i.key !== item.key))}
+              className="p-1.5 text-nokturo-500 hover:text-red-fg hover:bg-red rounded transition-colors shrink-0"
+              title={t('common.delete')}
+            >
+              <MaterialIcon name="close" size={16} className="shrink-0" />
+            </button>
+          </div>
+          {!item.ref && (
+            <input
+              type="text"
+              value={item.description}
+              onChange={(e) => update(item.key, { description: e.target.value })}
+              placeholder={t('accounting.items.descriptionPlaceholder')}
+              className={INPUT_CLASS}
+            />
+          )}
+          <div className="grid grid-cols-[1fr_1fr_88px] gap-2">
+            <div>
+              <label className={labelClass}>{t('accounting.items.quantity')} ({item.unit})</label>
+              <input
+                type="number"
+                step="0.001"
+                min="0"
+                value={item.quantity}
+                onChange={(e) => update(item.key, { quantity: e.target.value })}
+                className={INPUT_CLASS}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>{t('accounting.items.unitPrice')}</label>
+              <input
+                type="number"
+                step="0.01"
+                min="0"
+                value={item.unit_price}
+                onChange={(e) => update(item.key, { unit_price: e.target.value })}
+                className={INPUT_CLASS}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>{t('accounting.items.vat')}</label>
+              <SimpleDropdown
+                value={item.vat_rate}
+                onChange={(v) => update(item.key, { vat_rate: v })}
+                options={[
+                  ...VAT_RATES.map((r) => ({ value: String(r), label: `${r} %` })),
+                  ...(VAT_RATES.some((r) => String(r) === item.vat_rate) ? [] : [{ value: item.vat_rate, label: `${item.vat_rate} %` }]),
+                ]}
+                compact
+              />
+            </div>
+          </div>
+        </div>
+      ))}
+
+      <button
+        type="button"
+        onClick={() => onChange([...items, newOrderItemDraft()])}
+        className="inline-flex items-center gap-1 text-sm text-nokturo-600 dark:text-nokturo-400 hover:text-nokturo-900 dark:hover:text-nokturo-100 transition-colors"
+      >
+        <MaterialIcon name="add" size={16} className="shrink-0" />
+        {t('accounting.items.addLine')}
+      </button>
+
+      {items.length > 0 && (
+        <div className="text-sm text-nokturo-700 dark:text-nokturo-300 space-y-0.5 pt-1">
+          <div className="flex justify-between">
+            <span>{t('accounting.items.net')}</span>
+            <span className="tabular-nums">{fmtMoney(totals.net)} {currency}</span>
+          </div>
+          <div className="flex justify-between">
+            <span>{t('accounting.items.vat')}</span>
+            <span className="tabular-nums">{fmtMoney(totals.vat)} {currency}</span>
+          </div>
+          <div className="flex justify-between font-medium text-nokturo-900 dark:text-nokturo-100">
+            <span>{t('accounting.items.gross')}</span>
+            <span className="tabular-nums">{fmtMoney(totals.gross)} {currency}</span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ── Breakdown (AccountingDetailSlideOver) ────────────────────
+
+interface OrderItemsBreakdownProps {
+  items: AccountingOrderItem[];
+  currency: string;
+}
+
+export function OrderItemsBreakdown({ items, currency }: OrderItemsBreakdownProps) {
+  const { t } = useTranslation();
+  if (items.length === 0) return null;
+
+  const sorted = [...items].sort((a, b) => a.sort_order - b.sort_order);
+  const totals = orderTotals(sorted);
+
+  return (
+    <div>
+      <label className="block text-[14px] font-normal text-nokturo-400 mb-2 opacity-70">
+        {t('accounting.items.title')}
+      </label>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-xs text-nokturo-400 text-left">
+            <th className="py-1.5 pr-2 font-medium">{t('accounting.items.item')}</th>
+            <th className="py-1.5 px-2 font-medium text-right">{t('accounting.items.quantity')}</th>
+            <th className="py-1.5 px-2 font-medium text-right">{t('accounting.items.unitPrice')}</th>
+            <th className="py-1.5 px-2 font-medium text-right">{t('accounting.items.vat')}</th>
+            <th className="py-1.5 pl-2 font-medium text-right">{t('accounting.items.net')}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {sorted.map((item) => (
+            <tr key={item.id} className="border-t border-nokturo-700">
+              <td className="py-1.5 pr-2 text-white">
+                {item.description}
+                {item.component_id && <span className="text-nokturo-400 ml-1">· {t('stock.component')}</span>}
+              </td>
+              <td className="py-1.5 px-2 text-right tabular-nums text-nokturo-300 whitespace-nowrap">
+                {Number(item.quantity)} {item.unit}
+              </td>
+              <td className="py-1.5 px-2 text-right tabular-nums text-nokturo-300">{fmtMoney(Number(item.unit_price))}</td>
+              <td className="py-1.5 px-2 text-right tabular-nums text-nokturo-400">{Number(item.vat_rate)} %</td>
+              <td className="py-1.5 pl-2 text-right tabular-nums text-white">{fmtMoney(lineNet(item))}</td>
+            </tr>
+          ))}
+        </tbody>
+        <tfoot className="text-nokturo-300">
+          <tr className="border-t border-nokturo-600">
+            <td className="pt-2 pr-2" colSpan={4}>{t('accounting.items.net')}</td>
+            <td className="pt-2 pl-2 text-right tabular-nums">{fmtMoney(totals.net)} {currency}</td>
+          </tr>
+          <tr>
+            <td className="pr-2" colSpan={4}>{t('accounting.items.vat')}</td>
+            <td className="pl-2 text-right tabular-nums">{fmtMoney(totals.vat)} {currency}</td>
+          </tr>
+          <tr className="font-medium text-white">
+            <td className="pr-2" colSpan={4}>{t('accounting.items.gross')}</td>
+            <td className="pl-2 text-right tabular-nums">{fmtMoney(totals.gross)} {currency}</td>
+          </tr>
+        </tfoot>
+      </table>
+    </div>
+  );
+}
+
+// ── Purchase price history (MaterialDetailSlideOver) ─────────
+
+interface PurchasePriceHistoryProps {
+  item: StockItemRef;
+  unitLabel: string;
+}
+
+export function PurchasePriceHistory({ item, unitLabel }: PurchasePriceHistoryProps) {
+  const { t } = useTranslation();
+  const user = useAuthStore((s) => s.user);
+  const [prices, setPrices] = useState<PurchasePrice[] | null>(null);
+
+  const { kind, id } = item;
+
+  useEffect(() => {
+    let cancelled = false;
+    setPrices(null);
+    fetchPurchasePrices({ kind, id } as StockItemRef).then((rows) => {
+      if (!cancelled) setPrices(rows);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [kind, id]);
+
+  if (prices === null) {
+    return (
+      <div className="flex items-center justify-center py-10">
+        <MaterialIcon name="progress_activity" size={20} className="text-nokturo-500 animate-spin shrink-0" />
+      </div>
+    );
+  }
+
+  if (prices.length === 0) {
+    return <p className="text-sm text-nokturo-500 py-6 text-center">{t('accounting.items.noPurchases')}</p>;
+  }
+
+  const formatDate = (d: string | null) =>
+    d
+      ? new Date(d).toLocaleDateString(user?.language === 'cs' ? 'cs-CZ' : 'en-US', { day: 'numeric', month: 'short', year: 'numeric' })
+      : '—';
+
+  // Quantity-weighted average per currency
+  const byCurrency = new Map<string, { qty: number; value: number }>();
+  for (const p of prices) {
+    const acc = byCurrency.get(p.currency) ?? { qty: 0, value: 0 };
+    byCurrency.set(p.currency, { qty: acc.qty + p.quantity, value: acc.value + p.quantity * p.unit_price });
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm text-nokturo-700 dark:text-nokturo-300">
+        {[...byCurrency.entries()].map(([cur, acc]) => (
+          <span key={cur}>
+            {t('accounting.items.averagePrice')}:{' '}
+            <span className="font-medium text-nokturo-900 dark:text-nokturo-100 tabular-nums">
+              {acc.qty > 0 ? fmtMoney(acc.value / acc.qty) : '—'} {cur}/{unitLabel}
+            </span>
+          </span>
+        ))}
+      </div>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-xs text-nokturo-500 text-left">
+            <th className="py-1.5 pr-2 font-medium">{t('accounting.orderDate')}</th>
+            <th className="py-1.5 px-2 font-medium">{t('accounting.supplier')}</th>
+            <th className="py-1.5 px-2 font-medium text-right">{t('accounting.items.quantity')}</th>
+            <th className="py-1.5 pl-2 font-medium text-right">{t('accounting.items.unitPrice')}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {prices.map((p) => (
+            <tr key={p.id} className="border-t border-nokturo-200 dark:border-nokturo-700">
+              <td className="py-1.5 pr-2 text-nokturo-900 dark:text-nokturo-100 whitespace-nowrap">
+                {formatDate(p.order_date)}
+                {p.order_number && <span className="block text-xs text-nokturo-500">{p.order_number}</span>}
+              </td>
+              <td className="py-1.5 px-2 text-nokturo-700 dark:text-nokturo-300 truncate max-w-[140px]">{p.supplier_name ?? '—'}</td>
+              <td className="py-1.5 px-2 text-right tabular-nums text-nokturo-700 dark:text-nokturo-300">{p.quantity}</td>
+              <td className="py-1.5 pl-2 text-right tabular-nums text-nokturo-900 dark:text-nokturo-100 whitespace-nowrap">
+                {fmtMoney(p.unit_price)} {p.currency}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 import { useTranslation } from 'react-i18next';
 import { MaterialIcon } from './icons/MaterialIcon';
-import { convertToCzk } from '../lib/currency';
+import { formatInBase } from '../lib/currency';
 import type { AccountingOrder } from './AccountingSlideOver';
 
 const TAG_BADGE_CLASSES: Record<string, string> = {
@@ -17,10 +17,9 @@ const ORDER_STATUS_COLORS: Record<string, string> = {
   returned: 'red',
 };
 
-function formatValueInCzk(v: number | null, currency: string = 'EUR'): string {
+function formatValueInBase(v: number | null, currency: string = 'EUR', date?: string | null): string {
   if (v == null) return '';
-  const czk = convertToCzk(v, currency || 'EUR');
-  return new Intl.NumberFormat('cs-CZ', { minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(czk) + ' Kč';
+  return formatInBase(v, currency || 'EUR', date);
 }
 
 interface AccountingOrderRowProps {
@@ -74,7 +73,7 @@ export function AccountingOrderRow({ order, index, onClick }: AccountingOrderRow
         </span>
       </td>
       <td className="py-2.5 pl-6 pr-6 align-middle text-right whitespace-nowrap text-sm text-nokturo-900 dark:text-nokturo-100">
-        {formatValueInCzk(order.order_value, order.order_currency || 'EUR')}
+        {formatValueInBase(order.order_value, order.order_currency || 'EUR', order.order_date ?? order.created_at)}
       </td>
     </tr>
   );
@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import { useTranslation } from 'react-i18next';
 import { supabase } from '../lib/supabase';
+import { CURRENCIES } from '../lib/currency';
 import { useAuthStore, getUserIdForDb } from '../stores/authStore';
 import { MaterialIcon } from './icons/MaterialIcon';
 import { DeleteIcon } from './icons/DeleteIcon';
@@ -10,6 +11,15 @@ import {
 } from './NotionSelect';
 import { SimpleDropdown } from './SimpleDropdown';
 import { INPUT_CLASS, MODAL_HEADING_CLASS } from '../lib/inputStyles';
+import { OrderItemsEditor } from './AccountingOrderItems';
+import {
+  draftFromItem,
+  orderTotals,
+  parseDraft,
+  saveOrderItems,
+  type AccountingOrderItem,
+  type OrderItemDraft,
+} from '../lib/accountingItems';
 
 // ── Types ────────────────────────────────────────────────────
 export interface AccountingOrder {
@@ -33,6 +43,8 @@ export interface AccountingOrder {
   created_by: string | null;
   created_at: string;
   updated_at: string;
+  /** Line items; when present, order_value is their gross total */
+  accounting_order_items?: AccountingOrderItem[];
 }
 
 interface FormData {
@@ -54,7 +66,6 @@ interface FormData {
   note: string;
 }
 
-const CURRENCY_OPTIONS = ['EUR', 'CZK', 'USD'] as const;
 
 const YEAR_OPTIONS = [2023, 2024, 2025, 2026] as const;
 const MONTH_NUMBERS = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12] as const;
@@ -126,6 +137,7 @@ export function AccountingSlideOver({
   const [invoiceFile, setInvoiceFile] = useState<File | null>(null);
   const [existingInvoiceUrl, setExistingInvoiceUrl] = useState<string | null>(null);
   const [suppliers, setSuppliers] = useState<{ id: string; name: string; website: string | null }[]>([]);
+  const [items, setItems] = useState<OrderItemDraft[]>([]);
 
   useEffect(() => {
     if (open) {
@@ -174,6 +186,12 @@ export function AccountingSlideOver({
       });
       setExistingInvoiceUrl(order.invoice_pdf_url);
       setInvoiceFile(null);
+      // A duplicate (no id yet) copies the lines as new rows
+      setItems(
+        [...(order.accounting_order_items ?? [])]
+          .sort((a, b) => a.sort_order - b.sort_order)
+          .map((i) => draftFromItem(i, !!order.id))
+      );
     } else {
       const now = new Date();
       setForm({
@@ -186,10 +204,14 @@ export function AccountingSlideOver({
       });
       setExistingInvoiceUrl(null);
       setInvoiceFile(null);
+      setItems([]);
     }
     setError('');
   }, [order, open, categories]);
 
+  const activeItems = items.filter((i) => i.description.trim());
+  const itemsGross = orderTotals(activeItems.map(parseDraft)).gross;
+
   const handleChange = (field: keyof FormData, value: string | number | boolean) => {
     setForm((prev) => {
       const next = { ...prev, [field]: value };
@@ -259,7 +281,7 @@ export function AccountingSlideOver({
         supplier_id: form.supplier_id?.trim() || null,
         eshop_link: form.eshop_link?.trim() || null,
         order_number: form.order_number?.trim() || null,
-        order_value: form.order_value ? parseFloat(form.order_value) : null,
+        order_value: activeItems.length > 0 ? itemsGross : form.order_value ? parseFloat(form.order_value) : null,
         order_currency: form.order_currency,
         monthly_payment: form.monthly_payment,
         monthly_value: form.monthly_payment && form.monthly_value ? parseFloat(form.monthly_value) : null,
@@ -275,6 +297,15 @@ export function AccountingSlideOver({
         created_by: order?.id ? order.created_by : getUserIdForDb(),
       };
 
+      // Items first when editing: removing the last item resets order_value, the order row then stores the entered value
+      if (order?.id) {
+        const itemsErr = await saveOrderItems(order.id, items);
+        if (itemsErr) {
+          setError(itemsErr);
+          return;
+        }
+      }
+
       const result = order?.id
         ? await supabase.from('accounting_orders').update(record).eq('id', order.id).select()
         : await supabase.from('accounting_orders').insert(record).select();
@@ -288,6 +319,14 @@ export function AccountingSlideOver({
         return;
       }
 
+      if (!order?.id) {
+        const itemsErr = await saveOrderItems(result.data[0].id, items);
+        if (itemsErr) {
+          setError(itemsErr);
+          return;
+        }
+      }
+
       onSaved();
     } finally {
       setSaving(false);
@@ -403,21 +442,31 @@ export function AccountingSlideOver({
                   type="number"
                   step="0.01"
                   min="0"
-                  value={form.order_value}
+                  value={activeItems.length > 0 ? String(itemsGross) : form.order_value}
                   onChange={(e) => handleChange('order_value', e.target.value)}
-                  className={`${inputClass} flex-1`}
+                  readOnly={activeItems.length > 0}
+                  className={`${inputClass} flex-1 ${activeItems.length > 0 ? 'opacity-60 cursor-not-allowed' : ''}`}
                 />
                 <div className="shrink-0 min-w-[72px]">
                   <SimpleDropdown
                     value={form.order_currency}
                     onChange={(v) => handleChange('order_currency', v)}
-                    options={CURRENCY_OPTIONS.map((c) => ({ value: c, label: c }))}
+                    options={CURRENCIES.map((c) => ({ value: c, label: c }))}
                     compact
                   />
                 </div>
               </div>
             </div>
 
+            {/* Line items (order value is computed from them) */}
+            <div>
+              <label className="block text-sm text-nokturo-700 dark:text-nokturo-400 mb-1.5">{t('accounting.items.title')}</label>
+              {activeItems.length > 0 && (
+                <p className="text-xs text-nokturo-500 mb-2">{t('accounting.items.valueComputed')}</p>
+              )}
+              <OrderItemsEditor items={items} onChange={setItems} currency={form.order_currency} />
+            </div>
+
             {/* Monthly payment switch */}
             <div>
               <label className="flex items-center gap-2 cursor-pointer">
@@ -0,0 +1,152 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { supabase } from '../lib/supabase';
+import { MaterialIcon } from './icons/MaterialIcon';
+import { INPUT_CLASS, MODAL_HEADING_CLASS } from '../lib/inputStyles';
+import { unitSku } from '../lib/productVariants';
+import { barcodesCsv, downloadBarcode, downloadBlob, ean13DataUrl, type BarcodeExportRow } from '../lib/barcodes';
+
+interface BarcodesSlideOverProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+interface BarcodeRow {
+  id: string;
+  ean: string;
+  size: string | null;
+  product: { id: string; name: string; sku: string | null } | null;
+  variant: { id: string; name: string; sku_suffix: string | null } | null;
+}
+
+/**
+ * Every assigned EAN-13 with its product, variant, size and SKU. Label designs print them
+ * through their barcode element; single codes download as SVG / PNG and the list exports as CSV.
+ */
+export function BarcodesSlideOver({ open, onClose }: BarcodesSlideOverProps) {
+  const { t } = useTranslation();
+  const [rows, setRows] = useState<BarcodeRow[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [search, setSearch] = useState('');
+
+  useEffect(() => {
+    if (!open) return;
+    setLoading(true);
+    supabase
+      .from('product_barcodes')
+      .select('id, ean, size, product:products (id, name, sku), variant:product_variants (id, name, sku_suffix)')
+      .order('ean')
+      .then(({ data }) => {
+        setRows((data ?? []) as unknown as BarcodeRow[]);
+        setLoading(false);
+      });
+  }, [open]);
+
+  if (!open) return null;
+
+  const exportRows: (BarcodeExportRow & { id: string })[] = rows.map((r) => ({
+    id: r.id,
+    product: r.product?.name ?? '—',
+    variant: r.variant?.name ?? null,
+    size: r.size,
+    sku: unitSku(r.product?.sku, r.variant, r.size),
+    ean: r.ean,
+  }));
+  const q = search.trim().toLowerCase();
+  const filtered = q
+    ? exportRows.filter((r) => [r.product, r.variant, r.size, r.sku, r.ean].some((v) => v?.toLowerCase().includes(q)))
+    : exportRows;
+
+  const handleExport = () => {
+    const csv = barcodesCsv(filtered, [
+      t('products.name'),
+      t('products.variants.variant'),
+      t('products.barcodes.size'),
+      t('products.sku'),
+      'EAN',
+    ]);
+    downloadBlob(new Blob([csv], { type: 'text/csv;charset=utf-8' }), 'barcodes.csv');
+  };
+
+  return (
+    <>
+      <div className="fixed inset-0 z-40 bg-overlay backdrop-blur-sm" onClick={onClose} />
+      <div className="fixed inset-y-0 right-0 z-50 w-full sm:max-w-lg bg-nokturo-900 shadow-2xl flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-nokturo-200 dark:border-nokturo-600 shrink-0">
+          <h3 className={MODAL_HEADING_CLASS}>{t('products.barcodes.title')}</h3>
+          <button
+            onClick={onClose}
+            className="p-1.5 text-nokturo-500 dark:text-nokturo-400 hover:text-nokturo-900 dark:hover:text-nokturo-100 transition-colors rounded-lg hover:bg-nokturo-100 dark:hover:bg-nokturo-700"
+          >
+            <MaterialIcon name="close" size={20} className="shrink-0" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-4">
+          <p className="text-sm text-nokturo-600 dark:text-nokturo-400">{t('products.barcodes.libraryHint')}</p>
+          <div className="flex items-center gap-3">
+            <input
+              type="search"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder={t('common.search')}
+              className={INPUT_CLASS}
+            />
+            {filtered.length > 0 && (
+              <button
+                type="button"
+                onClick={handleExport}
+                className="inline-flex items-center gap-1 text-sm text-nokturo-600 dark:text-nokturo-400 hover:text-nokturo-900 dark:hover:text-nokturo-100 transition-colors shrink-0"
+              >
+                <MaterialIcon name="download" size={16} className="shrink-0" />
+                {t('products.barcodes.exportCsv')}
+              </button>
+            )}
+          </div>
+
+          {loading ? (
+            <div className="flex items-center justify-center py-10">
+              <MaterialIcon name="progress_activity" size={24} className="text-nokturo-500 animate-spin shrink-0" />
+            </div>
+          ) : filtered.length === 0 ? (
+            <p className="text-sm text-nokturo-500 dark:text-nokturo-400 py-6 text-center">{t('products.barcodes.empty')}</p>
+          ) : (
+            <div className="space-y-2">
+              {filtered.map((r) => (
+                <div key={r.id} className="flex items-center gap-3 rounded-lg p-3 bg-nokturo-100/60 dark:bg-white/5">
+                  <div className="min-w-0 flex-1">
+                    <p className="text-sm text-nokturo-900 dark:text-nokturo-100 truncate">
+                      {[r.product, r.variant, r.size].filter(Boolean).join(' · ')}
+                    </p>
+                    {r.sku && (
+                      <span className="inline-block mt-1 text-[11px] font-mono px-1.5 py-0.5 rounded bg-nokturo-200/60 dark:bg-nokturo-700/60 text-nokturo-700 dark:text-nokturo-300">
+                        {r.sku}
+                      </span>
+                    )}
+                  </div>
+                  <img src={ean13DataUrl(r.ean)} alt={r.ean} draggable className="h-12 rounded bg-white shrink-0 cursor-grab" />
+                  <div className="flex flex-col gap-0.5 shrink-0">
+                    <button
+                      type="button"
+                      onClick={() => downloadBarcode(r.ean, 'svg')}
+                      className="text-[11px] text-nokturo-600 dark:text-nokturo-400 hover:text-nokturo-900 dark:hover:text-nokturo-100 transition-colors"
+                    >
+                      SVG
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => downloadBarcode(r.ean, 'png')}
+                      className="text-[11px] text-nokturo-600 dark:text-nokturo-400 hover:text-nokturo-900 dark:hover:text-nokturo-100 transition-colors"
+                    >
+                      PNG
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,416 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useTranslation } from 'react-i18next';
+import { supabase } from '../lib/supabase';
+import { useAuthStore, getUserIdForDb } from '../stores/authStore';
+import { canDeleteAnything, hasPermission } from '../lib/rbac';
+import { MaterialIcon } from './icons/MaterialIcon';
+import { DeleteIcon } from './icons/DeleteIcon';
+import { SimpleDropdown } from './SimpleDropdown';
+import { INPUT_CLASS, SECONDARY_BUTTON_CLASS, TEXTAREA_CLASS } from '../lib/inputStyles';
+import {
+  CERTIFICATE_KINDS,
+  certificateLabel,
+  certificateStatus,
+  fetchCertificates,
+  removeCertificateFile,
+  uploadCertificateFile,
+  type Certificate,
+  type CertificateKind,
+  type CertificateOwnerRef,
+  type CertificateStatus,
+} from '../lib/certificates';
+import { useCertificateUrls } from '../hooks/useCertificateUrls';
+
+const STATUS_CLASSES: Record<CertificateStatus, string> = {
+  valid: 'bg-green text-green-fg',
+  expiring: 'bg-orange text-orange-fg',
+  expired: 'bg-red text-red-fg',
+};
+
+interface CertificateForm {
+  kind: CertificateKind;
+  name: string;
+  certificate_number: string;
+  issuer: string;
+  scope: string;
+  issued_at: string;
+  expires_at: string;
+  notes: string;
+}
+
+const EMPTY_FORM: CertificateForm = {
+  kind: 'gots',
+  name: '',
+  certificate_number: '',
+  issuer: '',
+  scope: '',
+  issued_at: '',
+  expires_at: '',
+  notes: '',
+};
+
+interface CertificatesProps {
+  owner: CertificateOwnerRef;
+  /** Called after a certificate was added, changed or removed */
+  onChanged?: (certificates: Certificate[]) => void;
+}
+
+// ── Certificate list + add/edit form ─────────────────────────
+export function Certificates({ owner, onChanged }: CertificatesProps) {
+  const { t } = useTranslation();
+  const user = useAuthStore((s) => s.user);
+  const role = user?.role ?? 'client';
+  const canWrite = hasPermission(role, owner.kind === 'material' ? 'production.materials' : 'business.suppliers', 'write');
+  const canDelete = canDeleteAnything(role);
+
+  const [certificates, setCertificates] = useState<Certificate[]>([]);
+  const fileUrls = useCertificateUrls(certificates);
+  const [loading, setLoading] = useState(true);
+  const [formOpen, setFormOpen] = useState(false);
+  const [editing, setEditing] = useState<Certificate | null>(null);
+  const [form, setForm] = useState<CertificateForm>(EMPTY_FORM);
+  const [file, setFile] = useState<File | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const onChangedRef = useRef(onChanged);
+  onChangedRef.current = onChanged;
+
+  const { kind: ownerKind, id: ownerId } = owner;
+  const column = ownerKind === 'material' ? 'material_id' : 'supplier_id';
+
+  const load = useCallback(async () => {
+    const list = await fetchCertificates({ kind: ownerKind, id: ownerId } as CertificateOwnerRef);
+    setCertificates(list);
+    setLoading(false);
+    return list;
+  }, [ownerKind, ownerId]);
+
+  useEffect(() => {
+    setLoading(true);
+    load();
+    const channel = supabase
+      .channel(`certificates-${ownerId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'certificates', filter: `${column}=eq.${ownerId}` },
+        () => load(),
+      )
+      .subscribe();
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [load, column, ownerId]);
+
+  const update = (patch: Partial<CertificateForm>) => setForm((prev) => ({ ...prev, ...patch }));
+
+  const openForm = (cert: Certificate | null) => {
+    setEditing(cert);
+    setForm(
+      cert
+        ? {
+            kind: cert.kind,
+            name: cert.name ?? '',
+            certificate_number: cert.certificate_number ?? '',
+            issuer: cert.issuer ?? '',
+            scope: cert.scope ?? '',
+            issued_at: cert.issued_at ?? '',
+            expires_at: cert.expires_at ?? '',
+            notes: cert.notes ?? '',
+          }
+        : EMPTY_FORM,
+    );
+    setFile(null);
+    setError('');
+    setFormOpen(true);
+  };
+
+  const closeForm = () => {
+    setFormOpen(false);
+    setEditing(null);
+    setFile(null);
+    setError('');
+  };
+
+  const handleSubmit = async () => {
+    if ((form.kind === 'other' || form.kind === 'test_report') && !form.name.trim()) {
+      setError(t('certificates.nameRequired'));
+      return;
+    }
+    if (form.issued_at && form.expires_at && form.expires_at < form.issued_at) {
+      setError(t('certificates.expiryBeforeIssue'));
+      return;
+    }
+    setSaving(true);
+    setError('');
+    try {
+      let filePath = editing?.file_path ?? null;
+      let fileName = editing?.file_name ?? null;
+      if (file) {
+        filePath = await uploadCertificateFile(owner, file);
+        fileName = file.name;
+        if (editing?.file_path) await removeCertificateFile(editing.file_path);
+      }
+      const record = {
+        kind: form.kind,
+        name: form.name.trim() || null,
+        certificate_number: form.certificate_number.trim() || null,
+        issuer: form.issuer.trim() || null,
+        scope: form.scope.trim() || null,
+        issued_at: form.issued_at || null,
+        expires_at: form.expires_at || null,
+        notes: form.notes.trim() || null,
+        file_path: filePath,
+        file_name: fileName,
+        // A new expiry date (renewal) re-arms the reminders
+        ...(editing && editing.expires_at !== (form.expires_at || null) ? { expiry_reminder: null } : {}),
+      };
+      const { error: e } = editing
+        ? await supabase.from('certificates').update(record).eq('id', editing.id)
+        : await supabase.from('certificates').insert({
+            ...record,
+            supplier_id: owner.kind === 'supplier' ? owner.id : null,
+            material_id: owner.kind === 'material' ? owner.id : null,
+            created_by: getUserIdForDb(),
+          });
+      if (e) throw new Error(e.message);
+      closeForm();
+      onChangedRef.current?.(await load());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('certificates.saveFailed'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (cert: Certificate) => {
+    const { error: e } = await supabase.from('certificates').delete().eq('id', cert.id);
+    if (e) return;
+    await removeCertificateFile(cert.file_path);
+    onChangedRef.current?.(await load());
+  };
+
+  const fmtDate = (d: string) =>
+    new Date(`${d}T00:00:00`).toLocaleDateString(user?.language === 'cs' ? 'cs-CZ' : 'en-US', {
+      day: 'numeric',
+      month: 'short',
+      year: 'numeric',
+    });
+
+  const labelClass = 'block text-sm text-nokturo-700 dark:text-nokturo-400 mb-1.5';
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-[14px] text-nokturo-700 dark:text-nokturo-400 opacity-70">{t('certificates.title')}</p>
+        {canWrite && !formOpen && (
+          <button type="button" onClick={() => openForm(null)} className={SECONDARY_BUTTON_CLASS}>
+            <MaterialIcon name="add" size={16} className="shrink-0" />
+            {t('certificates.add')}
+          </button>
+        )}
+      </div>
+
+      {/* Add / edit form */}
+      {formOpen && (
+        <div className="space-y-3 rounded-lg bg-nokturo-100/60 dark:bg-nokturo-800/60 p-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelClass}>{t('certificates.kind')}</label>
+              <SimpleDropdown
+                value={form.kind}
+                onChange={(v) => update({ kind: v as CertificateKind })}
+                options={CERTIFICATE_KINDS.map((k) => ({ value: k, label: t(`certificates.kinds.${k}`) }))}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>
+                {t('certificates.name')}
+                {(form.kind === 'other' || form.kind === 'test_report') && ' *'}
+              </label>
+              <input
+                type="text"
+                value={form.name}
+                onChange={(e) => update({ name: e.target.value })}
+                placeholder={t('certificates.namePlaceholder')}
+                className={INPUT_CLASS}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>{t('certificates.number')}</label>
+              <input
+                type="text"
+                value={form.certificate_number}
+                onChange={(e) => update({ certificate_number: e.target.value })}
+                className={INPUT_CLASS}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>{t('certificates.issuer')}</label>
+              <input
+                type="text"
+                value={form.issuer}
+                onChange={(e) => update({ issuer: e.target.value })}
+                placeholder={t('certificates.issuerPlaceholder')}
+                className={INPUT_CLASS}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>{t('certificates.issuedAt')}</label>
+              <input
+                type="date"
+                value={form.issued_at}
+                onChange={(e) => update({ issued_at: e.target.value })}
+                className={INPUT_CLASS}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>{t('certificates.expiresAt')}</label>
+              <input
+                type="date"
+                value={form.expires_at}
+                onChange={(e) => update({ expires_at: e.target.value })}
+                className={INPUT_CLASS}
+              />
+            </div>
+          </div>
+          <div>
+            <label className={labelClass}>{t('certificates.scope')}</label>
+            <textarea
+              rows={2}
+              value={form.scope}
+              onChange={(e) => update({ scope: e.target.value })}
+              placeholder={t('certificates.scopePlaceholder')}
+              className={TEXTAREA_CLASS}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>{t('certificates.file')}</label>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/pdf,image/jpeg,image/png,image/webp"
+              className="hidden"
+              onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+            />
+            <button type="button" onClick={() => fileInputRef.current?.click()} className={SECONDARY_BUTTON_CLASS}>
+              <MaterialIcon name="upload_file" size={16} className="shrink-0" />
+              <span className="truncate max-w-[240px]">
+                {file?.name ?? editing?.file_name ?? t('certificates.chooseFile')}
+              </span>
+            </button>
+          </div>
+          <div>
+            <label className={labelClass}>{t('certificates.notes')}</label>
+            <input
+              type="text"
+              value={form.notes}
+              onChange={(e) => update({ notes: e.target.value })}
+              className={INPUT_CLASS}
+            />
+          </div>
+          {error && (
+            <div className="text-red dark:text-red-fg text-sm bg-red/10 dark:bg-red/20 rounded-lg px-3 py-2">{error}</div>
+          )}
+          <div className="flex items-center justify-end gap-3">
+            <button
+              type="button"
+              onClick={closeForm}
+              className="px-4 py-2 text-sm text-nokturo-600 dark:text-nokturo-400 hover:text-nokturo-900 dark:hover:text-nokturo-100 transition-colors"
+            >
+              {t('common.cancel')}
+            </button>
+            <button
+              type="button"
+              onClick={handleSubmit}
+              disabled={saving}
+              className="px-5 py-2 text-sm bg-nokturo-900 dark:bg-white dark:text-nokturo-900 text-white font-medium rounded-lg hover:bg-nokturo-800 dark:hover:bg-nokturo-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+            >
+              {saving && <MaterialIcon name="progress_activity" size={16} className="animate-spin shrink-0" />}
+              {t('common.save')}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* List */}
+      {loading ? (
+        <div className="flex justify-center py-6">
+          <MaterialIcon name="progress_activity" size={20} className="text-nokturo-500 animate-spin shrink-0" />
+        </div>
+      ) : certificates.length === 0 ? (
+        <p className="text-sm text-nokturo-500 py-4 text-center">{t('certificates.none')}</p>
+      ) : (
+        <ul className="divide-y divide-nokturo-200 dark:divide-nokturo-700">
+          {certificates.map((c) => {
+            const status = certificateStatus(c);
+            return (
+              <li key={c.id} className="py-2.5 flex items-start justify-between gap-3">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-nokturo-900 dark:text-nokturo-100 flex items-center gap-2 flex-wrap">
+                    {certificateLabel(c)}
+                    {c.certificate_number && (
+                      <span className="font-normal font-mono text-xs text-nokturo-500">{c.certificate_number}</span>
+                    )}
+                    <span className={`text-[10px] px-1.5 py-0.5 rounded font-medium ${STATUS_CLASSES[status]}`}>
+                      {t(`certificates.status.${status}`)}
+                    </span>
+                  </p>
+                  {c.scope && (
+                    <p className="text-sm text-nokturo-700 dark:text-nokturo-300 break-words whitespace-pre-wrap">{c.scope}</p>
+                  )}
+                  <p className="text-xs text-nokturo-500 mt-0.5">
+                    {[
+                      c.issuer,
+                      c.issued_at ? `${t('certificates.issuedAt')}: ${fmtDate(c.issued_at)}` : null,
+                      c.expires_at ? `${t('certificates.expiresAt')}: ${fmtDate(c.expires_at)}` : t('certificates.noExpiry'),
+                    ]
+                      .filter(Boolean)
+                      .join(' · ')}
+                  </p>
+                  {c.notes && <p className="text-xs text-nokturo-500 mt-0.5">{c.notes}</p>}
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  {c.file_path && fileUrls[c.file_path] && (
+                    <a
+                      href={fileUrls[c.file_path]}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="p-1.5 text-nokturo-500 dark:text-nokturo-400 hover:text-nokturo-900 dark:hover:text-nokturo-100 transition-colors"
+                      title={c.file_name ?? t('certificates.openFile')}
+                      aria-label={t('certificates.openFile')}
+                    >
+                      <MaterialIcon name="description" size={16} className="shrink-0" />
+                    </a>
+                  )}
+                  {canWrite && (
+                    <button
+                      type="button"
+                      onClick={() => openForm(c)}
+                      className="p-1.5 text-nokturo-500 dark:text-nokturo-400 hover:text-nokturo-900 dark:hover:text-nokturo-100 transition-colors"
+                      title={t('common.edit')}
+                      aria-label={t('common.edit')}
+                    >
+                      <MaterialIcon name="edit" size={16} className="shrink-0" />
+                    </button>
+                  )}
+                  {canDelete && (
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(c)}
+                      className="p-1.5 text-nokturo-500 dark:text-nokturo-400 hover:text-red transition-colors"
+                      title={t('common.delete')}
+                      aria-label={t('common.delete')}
+                    >
+                      <DeleteIcon className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,297 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { MaterialIcon } from './icons/MaterialIcon';
+import { DefaultAvatar } from './DefaultAvatar';
+import { useToastStore } from '../stores/toastStore';
+import { INPUT_CLASS, PRIMARY_BUTTON_CLASS } from '../lib/inputStyles';
+import { profileDisplayName } from '../lib/comments';
+import type { CommentProfileOption } from '../hooks/useComments';
+import {
+  addChatRoomMembers,
+  createChatRoom,
+  removeChatRoomMember,
+  type ChatRoom,
+} from '../lib/chat';
+
+// ── Shared ────────────────────────────────────────────────────
+function Dialog({ title, onClose, children, footer }: {
+  title: string;
+  onClose: () => void;
+  children: React.ReactNode;
+  footer?: React.ReactNode;
+}) {
+  return (
+    <div
+      className="fixed inset-0 z-[10000] flex items-center justify-center bg-page/60 backdrop-blur-sm p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white dark:bg-nokturo-800 rounded-xl shadow-xl max-w-md w-full max-h-[80vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-4 py-3 shrink-0">
+          <h4 className="text-heading-5 font-medium text-nokturo-900 dark:text-nokturo-100 truncate">{title}</h4>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-2 text-nokturo-500 hover:text-nokturo-700 dark:hover:text-nokturo-300 rounded-lg hover:bg-nokturo-100 dark:hover:bg-nokturo-700"
+          >
+            <MaterialIcon name="close" size={20} className="shrink-0" />
+          </button>
+        </div>
+        <div className="flex-1 min-h-0 overflow-y-auto px-4 pb-4 space-y-3">{children}</div>
+        {footer && (
+          <div className="flex items-center justify-end gap-3 px-4 py-3 bg-nokturo-50 dark:bg-nokturo-900/50 rounded-b-xl shrink-0">
+            {footer}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function ProfileAvatar({ profile }: { profile: CommentProfileOption }) {
+  return profile.avatar_url ? (
+    <img src={profile.avatar_url} alt="" className="avatar-round w-7 h-7 object-cover shrink-0" />
+  ) : (
+    <DefaultAvatar size={28} className="avatar-round overflow-hidden shrink-0" />
+  );
+}
+
+/** Searchable profile list; rows are toggles (multi) or plain buttons (single) */
+function ProfilePicker({ profiles, selected, onPick, multi }: {
+  profiles: CommentProfileOption[];
+  selected?: string[];
+  onPick: (profile: CommentProfileOption) => void;
+  multi: boolean;
+}) {
+  const { t } = useTranslation();
+  const [query, setQuery] = useState('');
+  const q = query.trim().toLowerCase();
+  const shown = q ? profiles.filter((p) => profileDisplayName(p).toLowerCase().includes(q)) : profiles;
+
+  return (
+    <div className="space-y-2">
+      <input
+        type="text"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder={t('chat.searchPeople')}
+        className={INPUT_CLASS}
+        autoFocus={!multi}
+      />
+      <div className="max-h-64 overflow-y-auto -mx-1">
+        {shown.length === 0 ? (
+          <p className="px-1 py-3 text-sm text-nokturo-500">{t('chat.noPeopleFound')}</p>
+        ) : (
+          shown.map((p) => {
+            const checked = !!selected?.includes(p.id);
+            return (
+              <button
+                key={p.id}
+                type="button"
+                onClick={() => onPick(p)}
+                className="w-full flex items-center gap-2 px-2 py-1.5 rounded-md text-left text-sm text-nokturo-700 dark:text-nokturo-200 hover:bg-nokturo-50 dark:hover:bg-nokturo-700"
+              >
+                <ProfileAvatar profile={p} />
+                <span className="flex-1 truncate">{profileDisplayName(p)}</span>
+                {multi && (
+                  <MaterialIcon
+                    name={checked ? 'check_box' : 'check_box_outline_blank'}
+                    size={18}
+                    className={`shrink-0 ${checked ? 'text-nokturo-900 dark:text-white' : 'text-nokturo-400'}`}
+                  />
+                )}
+              </button>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+}
+
+// ── New channel (founders) ────────────────────────────────────
+interface NewChannelDialogProps {
+  /** Everyone except the current user */
+  profiles: CommentProfileOption[];
+  onClose: () => void;
+  onCreated: (room: ChatRoom) => void;
+}
+
+export function NewChannelDialog({ profiles, onClose, onCreated }: NewChannelDialogProps) {
+  const { t } = useTranslation();
+  const addToast = useToastStore((s) => s.addToast);
+  const [name, setName] = useState('');
+  const [isPrivate, setIsPrivate] = useState(false);
+  const [memberIds, setMemberIds] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const handleCreate = async () => {
+    if (!name.trim()) return;
+    setSaving(true);
+    try {
+      onCreated(await createChatRoom({ name: name.trim(), isPrivate, memberIds }));
+    } catch (e) {
+      addToast((e as Error).message, 'error');
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog
+      title={t('chat.newChannel')}
+      onClose={onClose}
+      footer={
+        <>
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm text-nokturo-600 dark:text-nokturo-400 hover:text-nokturo-800 dark:hover:text-nokturo-200"
+          >
+            {t('common.cancel')}
+          </button>
+          <button type="button" onClick={handleCreate} disabled={!name.trim() || saving} className={PRIMARY_BUTTON_CLASS}>
+            {saving && <MaterialIcon name="progress_activity" size={16} className="animate-spin shrink-0" />}
+            {t('chat.createChannel')}
+          </button>
+        </>
+      }
+    >
+      <div>
+        <label className="block text-sm text-nokturo-700 dark:text-nokturo-400 mb-1.5">{t('chat.channelName')}</label>
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+          className={INPUT_CLASS}
+          autoFocus
+        />
+      </div>
+      <label className="flex items-start gap-2 text-sm text-nokturo-700 dark:text-nokturo-300 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={isPrivate}
+          onChange={(e) => setIsPrivate(e.target.checked)}
+          className="w-4 h-4 mt-0.5 rounded-[4px] border-nokturo-300 text-nokturo-900 focus:ring-nokturo-500"
+        />
+        <span>
+          {t('chat.privateChannel')}
+          <span className="block text-xs text-nokturo-500">{t('chat.privateChannelHint')}</span>
+        </span>
+      </label>
+      <div>
+        <p className="text-sm text-nokturo-700 dark:text-nokturo-400 mb-0.5">{t('chat.invite')}</p>
+        <p className="text-xs text-nokturo-500 mb-2">{t('chat.inviteHint')}</p>
+        <ProfilePicker
+          profiles={profiles}
+          selected={memberIds}
+          multi
+          onPick={(p) =>
+            setMemberIds((prev) => (prev.includes(p.id) ? prev.filter((id) => id !== p.id) : [...prev, p.id]))
+          }
+        />
+      </div>
+    </Dialog>
+  );
+}
+
+// ── Direct message ────────────────────────────────────────────
+interface DirectMessageDialogProps {
+  /** Everyone except the current user */
+  profiles: CommentProfileOption[];
+  onClose: () => void;
+  onPick: (userId: string) => void;
+}
+
+export function DirectMessageDialog({ profiles, onClose, onPick }: DirectMessageDialogProps) {
+  const { t } = useTranslation();
+  return (
+    <Dialog title={t('chat.newDirectMessage')} onClose={onClose}>
+      <ProfilePicker profiles={profiles} multi={false} onPick={(p) => onPick(p.id)} />
+    </Dialog>
+  );
+}
+
+// ── Members ───────────────────────────────────────────────────
+interface ChatMembersDialogProps {
+  room: ChatRoom;
+  /** All profiles */
+  profiles: CommentProfileOption[];
+  /** Founders invite and remove members */
+  canManage: boolean;
+  onClose: () => void;
+  onChange: () => void;
+}
+
+export function ChatMembersDialog({ room, profiles, canManage, onClose, onChange }: ChatMembersDialogProps) {
+  const { t } = useTranslation();
+  const addToast = useToastStore((s) => s.addToast);
+  const [adding, setAdding] = useState(false);
+  const memberIds = (room.members ?? []).map((m) => m.user_id);
+  const members = profiles.filter((p) => memberIds.includes(p.id));
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      await action();
+      onChange();
+    } catch (e) {
+      addToast((e as Error).message, 'error');
+    }
+  };
+
+  return (
+    <Dialog title={t('chat.members')} onClose={onClose}>
+      <p className="text-xs text-nokturo-500">
+        {room.is_private || room.kind === 'direct' ? t('chat.membersPrivateHint') : t('chat.membersOpenHint')}
+      </p>
+      {adding ? (
+        <ProfilePicker
+          profiles={profiles.filter((p) => !memberIds.includes(p.id))}
+          multi={false}
+          onPick={(p) => {
+            setAdding(false);
+            run(() => addChatRoomMembers(room.id, [p.id]));
+          }}
+        />
+      ) : (
+        <>
+          {members.length === 0 ? (
+            <p className="py-3 text-sm text-nokturo-500">{t('chat.noMembers')}</p>
+          ) : (
+            <div className="-mx-1">
+              {members.map((p) => (
+                <div key={p.id} className="flex items-center gap-2 px-2 py-1.5 text-sm text-nokturo-700 dark:text-nokturo-200">
+                  <ProfileAvatar profile={p} />
+                  <span className="flex-1 truncate">{profileDisplayName(p)}</span>
+                  {canManage && room.kind !== 'direct' && (
+                    <button
+                      type="button"
+                      onClick={() => run(() => removeChatRoomMember(room.id, p.id))}
+                      className="p-1 rounded text-nokturo-400 hover:text-red-fg hover:bg-red"
+                      title={t('chat.removeMember')}
+                      aria-label={t('chat.removeMember')}
+                    >
+                      <MaterialIcon name="person_remove" size={16} className="shrink-0" />
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+          {canManage && room.kind !== 'direct' && (
+            <button
+              type="button"
+              onClick={() => setAdding(true)}
+              className="inline-flex items-center gap-1 text-sm text-nokturo-600 dark:text-nokturo-300 hover:text-nokturo-900 dark:hover:text-white"
+            >
+              <MaterialIcon name="person_add" size={16} className="shrink-0" />
+              {t('chat.inviteMember')}
+            </button>
+          )}
+        </>
+      )}
+    </Dialog>
+  );
+}
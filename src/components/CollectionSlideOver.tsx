@@ -0,0 +1,343 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { supabase } from '../lib/supabase';
+import { getUserIdForDb } from '../stores/authStore';
+import { MaterialIcon } from './icons/MaterialIcon';
+import { DeleteIcon } from './icons/DeleteIcon';
+import { SimpleDropdown } from './SimpleDropdown';
+import { INPUT_CLASS, TEXTAREA_CLASS, MODAL_HEADING_CLASS } from '../lib/inputStyles';
+import { CURRENCIES } from '../lib/currency';
+import { useWorkspaceStore } from '../stores/workspaceStore';
+import type { CategoryTarget, Collection, CollectionDrop } from '../lib/collections';
+
+interface FormData {
+  name: string;
+  code: string;
+  description: string;
+  budget: string;
+  budget_currency: string;
+  archived: boolean;
+}
+
+interface TargetDraft {
+  styles: string;
+  target_price: string;
+}
+
+interface CollectionSlideOverProps {
+  open: boolean;
+  collection: Collection | null;
+  /** product_categories names, in their sort order */
+  categories: string[];
+  onClose: () => void;
+  onSaved: (id: string) => void;
+  onDelete?: (id: string) => void;
+}
+
+export function CollectionSlideOver({ open, collection, categories, onClose, onSaved, onDelete }: CollectionSlideOverProps) {
+  const { t } = useTranslation();
+  const baseCurrency = useWorkspaceStore((s) => s.baseCurrency);
+
+  const [form, setForm] = useState<FormData>({
+    name: '',
+    code: '',
+    description: '',
+    budget: '',
+    budget_currency: baseCurrency,
+    archived: false,
+  });
+  const [drops, setDrops] = useState<CollectionDrop[]>([]);
+  const [targets, setTargets] = useState<Record<string, TargetDraft>>({});
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    setForm({
+      name: collection?.name ?? '',
+      code: collection?.code ?? '',
+      description: collection?.description ?? '',
+      budget: collection?.budget != null ? String(collection.budget) : '',
+      budget_currency: collection?.budget_currency ?? baseCurrency,
+      archived: collection?.archived ?? false,
+    });
+    setDrops(collection?.drops ?? []);
+    setTargets(
+      Object.fromEntries(
+        Object.entries(collection?.category_targets ?? {}).map(([category, target]) => [
+          category,
+          { styles: target.styles ? String(target.styles) : '', target_price: target.target_price != null ? String(target.target_price) : '' },
+        ])
+      )
+    );
+    setError('');
+  }, [collection, open, baseCurrency]);
+
+  const handleChange = (field: keyof FormData, value: string | boolean) => {
+    setForm((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const updateDrop = (index: number, patch: Partial<CollectionDrop>) =>
+    setDrops((prev) => prev.map((d, i) => (i === index ? { ...d, ...patch } : d)));
+
+  const updateTarget = (category: string, patch: Partial<TargetDraft>) =>
+    setTargets((prev) => ({
+      ...prev,
+      [category]: { ...(prev[category] ?? { styles: '', target_price: '' }), ...patch },
+    }));
+
+  // Categories with a saved target keep it even when the category was removed since
+  const targetCategories = [...categories, ...Object.keys(targets).filter((c) => !categories.includes(c))];
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    if (!form.name.trim()) {
+      setError(t('collections.nameRequired'));
+      return;
+    }
+
+    const categoryTargets: Record<string, CategoryTarget> = {};
+    for (const [category, draft] of Object.entries(targets)) {
+      const styles = parseInt(draft.styles, 10) || 0;
+      const price = parseFloat(draft.target_price);
+      if (styles > 0 || !isNaN(price)) {
+        categoryTargets[category] = { styles, target_price: isNaN(price) ? null : price };
+      }
+    }
+
+    setSaving(true);
+    try {
+      const record = {
+        name: form.name.trim(),
+        code: form.code.trim().toUpperCase() || null,
+        description: form.description.trim() || null,
+        drops: drops
+          .filter((d) => d.name.trim() || d.date)
+          .map((d) => ({ name: d.name.trim(), date: d.date }))
+          .sort((a, b) => (a.date || '').localeCompare(b.date || '')),
+        budget: form.budget ? parseFloat(form.budget) : null,
+        budget_currency: form.budget_currency,
+        category_targets: categoryTargets,
+        archived: form.archived,
+        created_by: collection?.id ? collection.created_by : getUserIdForDb(),
+      };
+
+      const result = collection?.id
+        ? await supabase.from('collections').update(record).eq('id', collection.id).select().single()
+        : await supabase.from('collections').insert(record).select().single();
+
+      if (result.error || !result.data) {
+        setError(result.error?.message ?? t('collections.saveFailed'));
+        return;
+      }
+      onSaved((result.data as Collection).id);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!open) return null;
+
+  const inputClass = INPUT_CLASS;
+  const labelClass = 'block text-sm text-nokturo-700 dark:text-nokturo-400 mb-1.5';
+  const translated = (key: string, fallback: string) => (t(key) !== key ? t(key) : fallback);
+
+  return (
+    <>
+      <div className="fixed inset-0 z-40 bg-overlay backdrop-blur-sm" onClick={onClose} />
+      <div className="fixed inset-y-0 right-0 z-50 w-full sm:max-w-lg bg-nokturo-900 shadow-2xl flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-nokturo-200 dark:border-nokturo-600 shrink-0">
+          <h3 className={MODAL_HEADING_CLASS}>
+            {collection?.id ? t('collections.edit') : t('collections.add')}
+          </h3>
+          <div className="flex items-center gap-1">
+            {collection?.id && onDelete && (
+              <button
+                type="button"
+                onClick={() => {
+                  onDelete(collection.id);
+                  onClose();
+                }}
+                className="dropdown-menu-item-destructive p-1.5 text-nokturo-500 dark:text-nokturo-400 hover:bg-red hover:text-red-fg transition-colors rounded-lg"
+                title={t('common.delete')}
+              >
+                <DeleteIcon className="w-5 h-5" />
+              </button>
+            )}
+            <button onClick={onClose} className="p-1.5 text-nokturo-500 dark:text-nokturo-400 hover:text-nokturo-900 dark:hover:text-nokturo-100 transition-colors rounded-lg hover:bg-nokturo-100 dark:hover:bg-nokturo-700">
+              <MaterialIcon name="close" size={20} className="shrink-0" />
+            </button>
+          </div>
+        </div>
+
+        <form onSubmit={handleSubmit} noValidate className="flex flex-1 flex-col min-h-0 overflow-hidden">
+          <div className="flex-1 overflow-y-auto px-6 py-4 space-y-4">
+            <div className="grid grid-cols-[2fr_1fr] gap-3">
+              <div>
+                <label className={labelClass}>{t('collections.name')} *</label>
+                <input
+                  type="text"
+                  value={form.name}
+                  onChange={(e) => handleChange('name', e.target.value)}
+                  placeholder={t('collections.namePlaceholder')}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className={labelClass}>{t('collections.code')}</label>
+                <input
+                  type="text"
+                  value={form.code}
+                  onChange={(e) => handleChange('code', e.target.value)}
+                  placeholder="AW26"
+                  className={`${inputClass} font-mono uppercase`}
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className={labelClass}>{t('common.description')}</label>
+              <textarea
+                value={form.description}
+                onChange={(e) => handleChange('description', e.target.value)}
+                rows={2}
+                className={`${TEXTAREA_CLASS} resize-none`}
+              />
+            </div>
+
+            {/* Drops */}
+            <div>
+              <label className={labelClass}>{t('collections.drops')}</label>
+              <div className="space-y-2">
+                {drops.map((drop, i) => (
+                  <div key={i} className="flex items-center gap-2">
+                    <input
+                      type="text"
+                      value={drop.name}
+                      onChange={(e) => updateDrop(i, { name: e.target.value })}
+                      placeholder={t('collections.dropPlaceholder', { number: i + 1 })}
+                      className={inputClass}
+                    />
+                    <input
+                      type="date"
+                      value={drop.date}
+                      onChange={(e) => updateDrop(i, { date: e.target.value })}
+                      className={`${inputClass} !w-44 shrink-0`}
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setDrops((prev) => prev.filter((_, j) => j !== i))}
+                      className="p-1.5 text-nokturo-500 hover:text-red-fg hover:bg-red rounded transition-colors shrink-0"
+                      title={t('common.delete')}
+                    >
+                      <DeleteIcon className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+              <button
+                type="button"
+                onClick={() => setDrops((prev) => [...prev, { name: '', date: '' }])}
+                className="mt-2 inline-flex items-center gap-1 text-sm text-nokturo-600 dark:text-nokturo-400 hover:text-nokturo-900 dark:hover:text-nokturo-100 transition-colors"
+              >
+                <MaterialIcon name="add" size={16} className="shrink-0" />
+                {t('collections.addDrop')}
+              </button>
+            </div>
+
+            {/* Budget */}
+            <div>
+              <label className={labelClass}>{t('collections.budget')}</label>
+              <div className="flex items-center gap-2">
+                <input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={form.budget}
+                  onChange={(e) => handleChange('budget', e.target.value)}
+                  className={inputClass}
+                />
+                <SimpleDropdown
+                  value={form.budget_currency}
+                  onChange={(v) => handleChange('budget_currency', v)}
+                  options={CURRENCIES.map((c) => ({ value: c, label: c }))}
+                  compact
+                  className="w-28 shrink-0"
+                />
+              </div>
+            </div>
+
+            {/* Targets per category */}
+            <div>
+              <label className={labelClass}>{t('collections.targets')}</label>
+              <p className="text-xs text-nokturo-500 dark:text-nokturo-400 mb-2">
+                {t('collections.targetsHint', { currency: form.budget_currency })}
+              </p>
+              <div className="space-y-2">
+                <div className="grid grid-cols-[1fr_6rem_8rem] gap-2 text-xs text-nokturo-500">
+                  <span />
+                  <span>{t('collections.styles')}</span>
+                  <span>{t('collections.targetPrice')}</span>
+                </div>
+                {targetCategories.map((category) => (
+                  <div key={category} className="grid grid-cols-[1fr_6rem_8rem] gap-2 items-center">
+                    <span className="text-sm text-nokturo-900 dark:text-nokturo-100 truncate">
+                      {translated(`products.categories.${category}`, category)}
+                    </span>
+                    <input
+                      type="number"
+                      min={0}
+                      value={targets[category]?.styles ?? ''}
+                      onChange={(e) => updateTarget(category, { styles: e.target.value })}
+                      className={inputClass}
+                    />
+                    <input
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      value={targets[category]?.target_price ?? ''}
+                      onChange={(e) => updateTarget(category, { target_price: e.target.value })}
+                      className={inputClass}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {collection?.id && (
+              <label className="flex items-center gap-2 text-sm text-nokturo-700 dark:text-nokturo-300">
+                <input type="checkbox" checked={form.archived} onChange={(e) => handleChange('archived', e.target.checked)} />
+                {t('collections.archived')}
+              </label>
+            )}
+          </div>
+
+          <div className="relative z-10 flex flex-col gap-3 px-6 py-4 shrink-0 mt-auto bg-elevated">
+            {error && (
+              <div className="text-red dark:text-red-fg text-sm bg-red/10 dark:bg-red/20 rounded-lg px-3 py-2 shrink-0">
+                {error}
+              </div>
+            )}
+            <div className="flex items-center justify-end gap-3">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-sm text-nokturo-600 dark:text-nokturo-400 hover:text-nokturo-900 dark:hover:text-nokturo-100 transition-colors"
+              >
+                {t('common.cancel')}
+              </button>
+              <button
+                type="submit"
+                disabled={saving}
+                className="px-5 py-2 text-sm bg-nokturo-900 dark:bg-white dark:text-nokturo-900 text-white font-medium rounded-lg hover:bg-nokturo-800 dark:hover:bg-nokturo-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+              >
+                {saving && <MaterialIcon name="progress_activity" size={16} className="animate-spin shrink-0" />}
+                {t('common.save')}
+              </button>
+            </div>
+          </div>
+        </form>
+      </div>
+    </>
+  );
+}
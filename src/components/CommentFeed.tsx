@@ -1,74 +1,97 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { createPortal } from 'react-dom';
 import { useTranslation } from 'react-i18next';
-import { supabase } from '../lib/supabase';
-import { useAuthStore, getUserIdForDb } from '../stores/authStore';
-import { hasPermission, canDeleteAnything } from '../lib/rbac';
+import { useAuthStore } from '../stores/authStore';
+import { canDeleteAnything } from '../lib/rbac';
 import { MaterialIcon } from './icons/MaterialIcon';
 import { SendArrowIcon } from './icons/SendArrowIcon';
 import { DefaultAvatar } from './DefaultAvatar';
 import { renderContentWithMentions } from '../lib/renderMentions';
 import { INPUT_CLASS } from '../lib/inputStyles';
 import { DeleteConfirmModal } from './DeleteConfirmModal';
+import { CommentReactions } from './CommentReactions';
+import { CommentReviewControls, HideResolvedToggle } from './CommentReviewControls';
 import { useMentionSuggestions, MentionDropdown } from './MentionSuggestions';
 import type { MentionProfile } from './MentionSuggestions';
-import { sendMentionNotifications, getGalleryNotificationLink, parseMentionsFromText } from '../lib/sendMentionNotifications';
+import { sendMentionNotifications, parseMentionsFromText } from '../lib/sendMentionNotifications';
 import { useToastStore } from '../stores/toastStore';
 import { useDropdownPosition } from '../hooks/useDropdownPosition';
-
-// ── Types ─────────────────────────────────────────────────────
-interface ProductGalleryComment {
-  id: string;
-  product_id: string;
-  gallery_type: string;
-  image_index: number;
-  author_id: string;
-  content: string;
-  tagged_user_ids: string[];
-  created_at: string;
-  profile?: {
-    full_name?: string;
-    first_name?: string;
-    last_name?: string;
-    avatar_url: string | null;
-  };
-}
-
-interface ProfileOption {
-  id: string;
-  first_name: string | null;
-  last_name: string | null;
-  full_name: string | null;
-}
-
-interface ProductGalleryCommentsProps {
-  productId: string;
-  galleryType: 'design' | 'moodboard' | 'labels';
-  imageIndex: number;
+import { useComments, useCommentProfiles, useMentionableProfiles } from '../hooks/useComments';
+import {
+  commentAuthorName,
+  deleteComment,
+  editComment,
+  markCommentsRead,
+  postComment,
+  resolveCommentAuthorId,
+  type Comment,
+  type CommentScope,
+  type ImageAnchor,
+} from '../lib/comments';
+
+interface CommentFeedProps {
+  scope: CommentScope;
+  canComment: boolean;
+  /** Notification sent to @mentioned users */
+  mentionType: 'moodboard_tag' | 'gallery_tag' | 'text_tag';
+  notificationLink: string;
+  /** Called after a comment was posted (e.g. to notify the task creator) */
+  onPosted?: (comment: Comment, authorId: string) => void;
+  /** 'lightbox' = next to an image, 'panel' = fills a slide-over with its own padding */
+  variant?: 'lightbox' | 'panel';
+  /** Separator above the feed (image caption shown above it) */
   hasCaptionAbove?: boolean;
+  /** Empty-state text; nothing is shown when omitted */
+  emptyText?: string;
+  emptyHint?: string;
+  /** Design review: comments can be resolved, marked blocking and assigned */
+  reviewable?: boolean;
+  /** Reports the loaded comments (e.g. to draw image pins) */
+  onCommentsChange?: (comments: Comment[]) => void;
+  /** Pin number per pin thread root – enables pin threads (replies are then shown per thread) */
+  pinNumbers?: Record<string, number>;
+  /** Pin thread shown instead of the whole feed; new comments become its replies */
+  activeThreadId?: string | null;
+  onActiveThreadChange?: (id: string | null) => void;
+  /** Pin drawn on the image – the next comment starts its thread */
+  postAnchor?: ImageAnchor | null;
+  onCancelPostAnchor?: () => void;
 }
 
-// ── Component ─────────────────────────────────────────────────
-export function ProductGalleryComments({
-  productId,
-  galleryType,
-  imageIndex,
+/**
+ * Flat chat-style comment feed (image lightboxes, moodboard items, tasks).
+ * Replying @mentions the author in the shared input instead of opening a nested thread.
+ */
+export function CommentFeed({
+  scope,
+  canComment,
+  mentionType,
+  notificationLink,
+  onPosted,
+  variant = 'lightbox',
   hasCaptionAbove = false,
-}: ProductGalleryCommentsProps) {
+  emptyText,
+  emptyHint,
+  reviewable = false,
+  onCommentsChange,
+  pinNumbers,
+  activeThreadId = null,
+  onActiveThreadChange,
+  postAnchor = null,
+  onCancelPostAnchor,
+}: CommentFeedProps) {
   const { t } = useTranslation();
   const addToast = useToastStore((s) => s.addToast);
   const user = useAuthStore((s) => s.user);
-  const canComment =
-    user?.role &&
-    (hasPermission(user.role, 'production.products', 'comment') ||
-      hasPermission(user.role, 'production.sampling', 'comment'));
   const canDelete = user?.role ? canDeleteAnything(user.role) : false;
 
-  const [comments, setComments] = useState<ProductGalleryComment[]>([]);
-  const [loading, setLoading] = useState(true);
+  const { comments, setComments, loading, addComment, toggleReaction } = useComments(scope);
+  const profiles = useMentionableProfiles();
+  const allProfiles = useCommentProfiles();
+  const [hideResolved, setHideResolved] = useState(false);
+
   const [newComment, setNewComment] = useState('');
   const [taggedUsers, setTaggedUsers] = useState<string[]>([]);
-  const [profiles, setProfiles] = useState<ProfileOption[]>([]);
   const [sending, setSending] = useState(false);
   const [deleteTarget, setDeleteTarget] = useState<string | null>(null);
   const [postError, setPostError] = useState<string | null>(null);
@@ -78,6 +101,7 @@ export function ProductGalleryComments({
   const [currentAuthorId, setCurrentAuthorId] = useState<string | null>(null);
   const [commentMenuOpen, setCommentMenuOpen] = useState<string | null>(null);
   const inputRef = useRef<HTMLInputElement>(null);
+  const bottomRef = useRef<HTMLDivElement>(null);
   const activeMenuTriggerRef = useRef<HTMLButtonElement | null>(null);
   const menuPosition = useDropdownPosition({
     open: !!commentMenuOpen,
@@ -91,126 +115,39 @@ export function ProductGalleryComments({
   const mention = useMentionSuggestions(newComment, profiles as MentionProfile[]);
 
   const handleMentionSelect = useCallback((profile: MentionProfile) => {
-    const newValue = mention.applyMention(profile);
-    setNewComment(newValue);
-    if (!taggedUsers.includes(profile.id)) {
-      setTaggedUsers((prev) => {
-        const next = [...prev, profile.id];
-        if (import.meta.env.DEV) console.log('[ProductGalleryComments] handleMentionSelect: added', { profileId: profile.id, taggedUsersAfter: next });
-        return next;
-      });
-    }
+    setNewComment(mention.applyMention(profile));
+    setTaggedUsers((prev) => (prev.includes(profile.id) ? prev : [...prev, profile.id]));
     mention.closeDropdown();
-  }, [mention, taggedUsers]);
-
-  const fetchProfiles = useCallback(async () => {
-    const { data } = await supabase
-      .from('profiles')
-      .select('id, first_name, last_name, full_name, avatar_url')
-      .neq('id', user?.id ?? '');
-    setProfiles((data || []) as ProfileOption[]);
-  }, [user?.id]);
-
-  const fetchComments = useCallback(async () => {
-    setLoading(true);
-    const { data, error } = await supabase
-      .from('product_gallery_comments')
-      .select(
-        '*, profile:profiles!product_gallery_comments_author_id_fkey(full_name, first_name, last_name, avatar_url)'
-      )
-      .eq('product_id', productId)
-      .eq('gallery_type', galleryType)
-      .eq('image_index', imageIndex)
-      .order('created_at', { ascending: true });
-    setComments((error ? [] : data || []) as ProductGalleryComment[]);
-    setLoading(false);
-  }, [productId, galleryType, imageIndex]);
+  }, [mention]);
 
+  // isOwn check also works for the dev bypass user (posts as the first profile)
   useEffect(() => {
-    fetchComments();
-  }, [fetchComments]);
+    resolveCommentAuthorId().then(setCurrentAuthorId);
+  }, [user?.id]);
 
+  // Opening the feed counts as reading the entity's comments
   useEffect(() => {
-    fetchProfiles();
-  }, [fetchProfiles]);
+    markCommentsRead(scope.target);
+  }, [scope.target.type, scope.target.id]);
 
-  // ── Realtime subscription ─────────────────────────────────────
   useEffect(() => {
-    const channel = supabase
-      .channel(`gallery-comments-${productId}-${galleryType}-${imageIndex}`)
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'product_gallery_comments',
-          filter: `product_id=eq.${productId}`,
-        },
-        async (payload) => {
-          if (payload.eventType === 'INSERT') {
-            const row = payload.new as ProductGalleryComment;
-            // Only include comments for this specific gallery image
-            if (row.gallery_type !== galleryType || row.image_index !== imageIndex) return;
-            const { data: profile } = await supabase
-              .from('profiles')
-              .select('full_name, first_name, last_name, avatar_url')
-              .eq('id', row.author_id)
-              .single();
-            const enriched: ProductGalleryComment = { ...row, profile: profile || { avatar_url: null } };
-            setComments((prev) => (prev.some((c) => c.id === enriched.id) ? prev : [...prev, enriched]));
-          } else if (payload.eventType === 'DELETE') {
-            const oldRow = payload.old as { id: string };
-            setComments((prev) => prev.filter((c) => c.id !== oldRow.id));
-          } else if (payload.eventType === 'UPDATE') {
-            const updated = payload.new as ProductGalleryComment;
-            if (updated.gallery_type !== galleryType || updated.image_index !== imageIndex) return;
-            // Preserve profile from existing comment – real-time payload has no joined data
-            setComments((prev) => prev.map((c) => (c.id === updated.id ? { ...c, ...updated, profile: c.profile } : c)));
-          }
-        }
-      )
-      .subscribe();
-
-    return () => {
-      supabase.removeChannel(channel);
-    };
-  }, [productId, galleryType, imageIndex]);
+    if (variant === 'panel') bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [comments.length, variant]);
 
   useEffect(() => {
-    const run = async () => {
-      let id = getUserIdForDb();
-      if (!id && user?.id === 'dev-user') {
-        const { data, error } = await supabase
-          .from('profiles')
-          .select('id')
-          .limit(1)
-          .single();
-        if (!error && data) id = data.id;
-      }
-      setCurrentAuthorId(id);
-    };
-    run();
-  }, [user?.id]);
+    onCommentsChange?.(comments as Comment[]);
+  }, [comments]);
 
   const handlePost = async () => {
     const content = newComment.trim();
     if (!content || !user) return;
 
     const taggedUsersSnapshot = [...taggedUsers];
-    if (import.meta.env.DEV) console.log('[ProductGalleryComments] handlePost SUBMIT – taggedUsers at submit', { taggedUsersSnapshot });
-
+    const threadParentId = activeThreadId && comments.some((c) => c.id === activeThreadId) ? activeThreadId : null;
     setPostError(null);
     setSending(true);
 
-    let authorId = getUserIdForDb();
-    if (!authorId && user?.id === 'dev-user') {
-      const { data: firstProfile } = await supabase
-        .from('profiles')
-        .select('id')
-        .limit(1)
-        .single();
-      authorId = firstProfile?.id ?? null;
-    }
+    const authorId = await resolveCommentAuthorId();
     if (!authorId) {
       setPostError(t('comments.loginRequired'));
       setSending(false);
@@ -218,135 +155,95 @@ export function ProductGalleryComments({
     }
     setCurrentAuthorId(authorId);
 
-    const { data: comment, error: commentErr } = await supabase
-      .from('product_gallery_comments')
-      .insert({
-        product_id: productId,
-        gallery_type: galleryType,
-        image_index: imageIndex,
-        author_id: authorId,
+    let inserted: Comment;
+    try {
+      inserted = await postComment({
+        scope,
+        authorId,
         content,
-        tagged_user_ids: taggedUsersSnapshot.length > 0 ? taggedUsersSnapshot : [],
-      })
-      .select('id')
-      .single();
-
-    if (commentErr) {
-      setPostError(commentErr.message || t('comments.postFailed'));
+        taggedUserIds: taggedUsersSnapshot,
+        ...(threadParentId
+          ? { parentId: threadParentId }
+          : postAnchor && { anchor: postAnchor, anchorType: 'image' as const }),
+      });
+    } catch (e) {
+      setPostError((e as Error).message || t('comments.postFailed'));
       setSending(false);
       return;
     }
+    addComment(inserted);
+    setNewComment('');
+    setTaggedUsers([]);
 
-    if (comment) {
-      const newCommentRow: ProductGalleryComment = {
-        id: comment.id,
-        product_id: productId,
-        gallery_type: galleryType,
-        image_index: imageIndex,
-        author_id: authorId,
+    if (import.meta.env.DEV && taggedUsersSnapshot.length === 0 && parseMentionsFromText(content).length) {
+      console.log('[CommentFeed] PARSER: mentions in text but taggedUsers empty', { content: content.slice(0, 100) });
+    }
+    if (taggedUsersSnapshot.length > 0) {
+      await sendMentionNotifications({
+        taggedUserIds: taggedUsersSnapshot,
+        authorId,
+        authorName: [user.firstName, user.lastName].filter(Boolean).join(' ') || user.name,
         content,
-        tagged_user_ids: taggedUsersSnapshot,
-        created_at: new Date().toISOString(),
-        profile: {
-          first_name: user.firstName ?? undefined,
-          last_name: user.lastName ?? undefined,
-          full_name: [user.firstName, user.lastName].filter(Boolean).join(' ') || user.name,
-          avatar_url: user.avatarUrl ?? null,
-        },
-      };
-      setComments((prev) => (prev.some((c) => c.id === newCommentRow.id) ? prev : [...prev, newCommentRow]));
-      setNewComment('');
-
-      // Create notifications for tagged users
-      if (import.meta.env.DEV && taggedUsersSnapshot.length === 0) {
-        const parsedNames = parseMentionsFromText(content);
-        if (parsedNames.length) {
-          console.log('[ProductGalleryComments] PARSER: mentions in text but taggedUsers empty', { content: content.slice(0, 100), parsedMentionNames: parsedNames });
-        }
-      }
-      if (taggedUsersSnapshot.length > 0) {
-        if (import.meta.env.DEV) console.log('[ProductGalleryComments] calling sendMentionNotifications', { taggedUsersSnapshot });
-        const authorName = [user.firstName, user.lastName].filter(Boolean).join(' ') || user.name;
-        await sendMentionNotifications({
-          taggedUserIds: taggedUsersSnapshot,
-          authorId,
-          authorName,
-          content,
-          type: 'gallery_tag',
-          link: getGalleryNotificationLink(productId),
-        });
-      }
-      setTaggedUsers([]);
+        type: mentionType,
+        link: notificationLink,
+        moodboardItemId: scope.target.type === 'moodboard_item' ? scope.target.id : undefined,
+        commentId: inserted.id,
+      });
     }
+    onPosted?.(inserted, authorId);
     setSending(false);
   };
 
   const handleDelete = async (id: string) => {
-    const { error } = await supabase.from('product_gallery_comments').delete().eq('id', id);
-    if (error) {
-      addToast(error.message || t('common.error'), 'error');
+    try {
+      await deleteComment(id);
+    } catch (e) {
+      addToast((e as Error).message, 'error');
       return;
     }
-    setComments((prev) => prev.filter((c) => c.id !== id));
+    setComments((prev) => prev.filter((c) => c.id !== id && c.parent_id !== id));
     setDeleteTarget(null);
   };
 
-  const startEdit = (comment: ProductGalleryComment) => {
-    setEditingId(comment.id);
-    setEditContent(comment.content);
-  };
-
   const cancelEdit = () => {
     setEditingId(null);
     setEditContent('');
   };
 
   const handleSaveEdit = async () => {
-    if (!editingId || !editContent.trim()) return;
+    const content = editContent.trim();
+    if (!editingId || !content) return;
     setEditSaving(true);
-    const { error } = await supabase
-      .from('product_gallery_comments')
-      .update({ content: editContent.trim() })
-      .eq('id', editingId);
-    if (!error) {
-      setComments((prev) =>
-        prev.map((c) =>
-          c.id === editingId ? { ...c, content: editContent.trim() } : c
-        )
-      );
+    try {
+      const editedAt = await editComment(editingId, content);
+      setComments((prev) => prev.map((c) => (c.id === editingId ? { ...c, content, edited_at: editedAt } : c)));
       cancelEdit();
+    } catch (e) {
+      addToast((e as Error).message, 'error');
     }
     setEditSaving(false);
   };
 
-  const handleReplyTo = (comment: ProductGalleryComment) => {
-    const authorName =
-      [comment.profile?.first_name, comment.profile?.last_name].filter(Boolean).join(' ') ||
-      comment.profile?.full_name ||
-      'Unknown';
-    if (!taggedUsers.includes(comment.author_id)) {
-      setTaggedUsers((prev) => [...prev, comment.author_id]);
-    }
+  const handleReplyTo = (comment: Comment) => {
+    const authorName = commentAuthorName(comment);
+    setTaggedUsers((prev) => (prev.includes(comment.author_id) ? prev : [...prev, comment.author_id]));
     setNewComment((prev) => (prev.trim() ? `${prev} @${authorName} ` : `@${authorName} `));
     setTimeout(() => inputRef.current?.focus(), 0);
   };
 
-  const renderComment = (comment: ProductGalleryComment) => {
-    const name =
-      [comment.profile?.first_name, comment.profile?.last_name]
-        .filter(Boolean)
-        .join(' ') ||
-      comment.profile?.full_name ||
-      'Unknown';
+  const replyCount = (id: string) => comments.filter((c) => c.parent_id === id).length;
+
+  const renderComment = (comment: Comment) => {
+    const name = commentAuthorName(comment);
     const isOwn =
       comment.author_id === user?.id ||
-      (user?.id === 'dev-user' && currentAuthorId && comment.author_id === currentAuthorId);
+      (user?.id === 'dev-user' && !!currentAuthorId && comment.author_id === currentAuthorId);
     const isEditing = editingId === comment.id;
 
     return (
       <div
         key={comment.id}
-        className={`group flex flex-col py-2 px-2 rounded-[12px] min-w-0 ${isOwn ? 'ml-6 bg-nokturo-100 dark:bg-white/20 text-nokturo-900 dark:text-white' : 'mr-6 bg-nokturo-50 dark:bg-white/10 text-nokturo-700 dark:text-white'}`}
+        className={`group flex flex-col py-2 px-2 rounded-[12px] min-w-0 ${reviewable && comment.resolved_at ? 'opacity-60' : ''} ${isOwn ? 'ml-6 bg-nokturo-100 dark:bg-white/20 text-nokturo-900 dark:text-white' : 'mr-6 bg-nokturo-50 dark:bg-white/10 text-nokturo-700 dark:text-white'}`}
       >
         {isEditing ? (
           <div className="flex flex-col gap-2 -mx-2 px-3 py-2">
@@ -382,13 +279,51 @@ export function ProductGalleryComments({
         ) : (
           <>
             <div className="-mx-2 px-3 pt-1 pb-2">
+              {pinNumbers?.[comment.id] !== undefined && !activeThreadId && (
+                <button
+                  type="button"
+                  onClick={() => onActiveThreadChange?.(comment.id)}
+                  className="inline-flex items-center gap-1 mb-1 text-[10px] font-medium opacity-80 hover:opacity-100"
+                >
+                  <span className="size-4 rounded-full bg-nokturo-900 text-white dark:bg-white dark:text-nokturo-900 flex items-center justify-center">
+                    {pinNumbers[comment.id]}
+                  </span>
+                  {replyCount(comment.id) > 0
+                    ? t('comments.replyCount', { count: replyCount(comment.id) })
+                    : t('comments.openPinThread')}
+                </button>
+              )}
               <p className="text-sm break-words text-inherit">
                 {renderContentWithMentions(
                   comment.content,
-                  !!isOwn,
+                  isOwn,
                   [user?.firstName, user?.lastName].filter(Boolean).join(' ') || user?.name || ''
                 )}
               </p>
+              <CommentReactions
+                reactions={comment.reactions}
+                onToggle={(emoji) => toggleReaction(comment.id, emoji)}
+                readOnly={!canComment}
+              />
+              {pinNumbers && !comment.parent_id && !activeThreadId && pinNumbers[comment.id] === undefined && replyCount(comment.id) > 0 && (
+                <button
+                  type="button"
+                  onClick={() => onActiveThreadChange?.(comment.id)}
+                  className="mt-1 text-[10px] underline underline-offset-2 opacity-80 hover:opacity-100"
+                >
+                  {t('comments.replyCount', { count: replyCount(comment.id) })}
+                </button>
+              )}
+              {reviewable && !comment.parent_id && (
+                <CommentReviewControls
+                  thread={comment}
+                  profiles={allProfiles}
+                  canReview={canComment}
+                  onChange={(review) =>
+                    setComments((prev) => prev.map((c) => (c.id === comment.id ? { ...c, ...review } : c)))
+                  }
+                />
+              )}
             </div>
             <div className="flex justify-between items-center mt-4 min-w-0 gap-2">
               <div className="flex gap-2 items-center min-w-0 flex-1">
@@ -406,11 +341,12 @@ export function ProductGalleryComments({
                       hour: '2-digit',
                       minute: '2-digit',
                     })}
+                    {comment.edited_at && ` · ${t('comments.edited')}`}
                   </span>
                 </div>
               </div>
               <div className="flex items-center gap-1 shrink-0">
-                {isOwn && (
+                {(isOwn || canDelete) && (
                   <div className="relative">
                     <button
                       type="button"
@@ -440,7 +376,7 @@ export function ProductGalleryComments({
                           {isOwn && (
                             <button
                               type="button"
-                              onClick={() => { startEdit(comment); setCommentMenuOpen(null); }}
+                              onClick={() => { setEditingId(comment.id); setEditContent(comment.content); setCommentMenuOpen(null); }}
                               className="w-full px-3 py-1.5 text-left text-xs text-nokturo-700 dark:text-nokturo-200 hover:bg-nokturo-50 dark:hover:bg-nokturo-600"
                             >
                               {t('common.edit')}
@@ -459,7 +395,7 @@ export function ProductGalleryComments({
                     )}
                   </div>
                 )}
-                {canComment && (
+                {canComment && !isOwn && (
                   <button
                     type="button"
                     onClick={(e) => {
@@ -479,24 +415,83 @@ export function ProductGalleryComments({
     );
   };
 
+  const isPanel = variant === 'panel';
+  const resolvedCount = reviewable ? comments.filter((c) => c.resolved_at).length : 0;
+  const activeThread = activeThreadId ? comments.find((c) => c.id === activeThreadId) : undefined;
+  // With pin threads the overview lists thread roots only; an open thread lists its root and replies
+  const threadComments = !pinNumbers
+    ? comments
+    : activeThread
+      ? comments.filter((c) => c.id === activeThread.id || c.parent_id === activeThread.id)
+      : comments.filter((c) => !c.parent_id);
+  const shownComments =
+    reviewable && hideResolved && !activeThread ? threadComments.filter((c) => !c.resolved_at) : threadComments;
+
   return (
     <section
       className={`flex-1 flex flex-col min-h-0 ${hasCaptionAbove ? 'mt-4 pt-4 border-t border-nokturo-200 dark:border-nokturo-700' : ''}`}
     >
-      <div className="flex-1 overflow-y-auto min-h-0">
+      <div className={`flex-1 overflow-y-auto overflow-x-hidden scrollbar-hide min-h-0 ${isPanel ? 'px-4 py-3' : ''}`}>
+        {activeThread && (
+          <div className={`flex items-center justify-between gap-2 ${isPanel ? '' : 'pt-4'}`}>
+            <button
+              type="button"
+              onClick={() => onActiveThreadChange?.(null)}
+              className="inline-flex items-center gap-1 text-xs text-nokturo-500 hover:text-nokturo-700 dark:text-nokturo-400 dark:hover:text-nokturo-200"
+            >
+              <MaterialIcon name="arrow_back" size={14} className="shrink-0" />
+              {t('comments.allComments')}
+            </button>
+            {pinNumbers?.[activeThread.id] !== undefined && (
+              <span className="text-xs font-medium text-nokturo-700 dark:text-nokturo-200">
+                {t('comments.pinNumber', { number: pinNumbers[activeThread.id] })}
+              </span>
+            )}
+          </div>
+        )}
+        {reviewable && !activeThread && comments.length > 0 && (
+          <div className={`flex justify-end ${isPanel ? '' : 'pt-4'}`}>
+            <HideResolvedToggle hideResolved={hideResolved} onChange={setHideResolved} resolvedCount={resolvedCount} />
+          </div>
+        )}
         {loading ? (
           <div className="flex justify-center py-6">
             <MaterialIcon name="progress_activity" size={20} className="text-nokturo-500 dark:text-nokturo-400 animate-spin shrink-0" />
           </div>
-        ) : comments.length === 0 ? null : (
-          <div className="space-y-2 pt-4 mb-4">
-            {comments.map(renderComment)}
+        ) : comments.length === 0 ? (
+          emptyText ? (
+            <div className="text-center py-10">
+              <p className="text-nokturo-600 text-xs">{emptyText}</p>
+              {emptyHint && <p className="text-nokturo-500 text-[10px] mt-0.5">{emptyHint}</p>}
+            </div>
+          ) : null
+        ) : (
+          <div className={`space-y-2 ${isPanel ? '' : 'pt-4 mb-4'}`}>
+            {shownComments.map(renderComment)}
+            <div ref={bottomRef} />
           </div>
         )}
       </div>
 
       {canComment && (
-        <div className="flex flex-col gap-2 shrink-0 pt-3">
+        <div className={`flex flex-col gap-2 shrink-0 ${isPanel ? 'px-4 py-3 bg-page/20 dark:bg-white/5' : 'pt-3'}`}>
+          {postAnchor && !activeThread && (
+            <div className="flex items-center justify-between gap-2 text-xs text-nokturo-600 dark:text-nokturo-300">
+              <span className="inline-flex items-center gap-1">
+                <MaterialIcon name="add_location_alt" size={14} className="shrink-0" />
+                {postAnchor.w ? t('comments.newRegionHint') : t('comments.newPinHint')}
+              </span>
+              {onCancelPostAnchor && (
+                <button
+                  type="button"
+                  onClick={onCancelPostAnchor}
+                  className="text-nokturo-500 hover:text-nokturo-700 dark:text-nokturo-400 dark:hover:text-nokturo-200"
+                >
+                  {t('common.cancel')}
+                </button>
+              )}
+            </div>
+          )}
           <div className="relative flex gap-2">
             <div className="flex-1 relative">
               {mention.active && (
@@ -524,7 +519,7 @@ export function ProductGalleryComments({
                     handlePost();
                   }
                 }}
-                placeholder={t('comments.placeholder')}
+                placeholder={activeThreadId ? t('comments.replyPlaceholder') : t('comments.placeholder')}
                 className={INPUT_CLASS}
               />
             </div>
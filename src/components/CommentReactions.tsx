@@ -0,0 +1,89 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { MaterialIcon } from './icons/MaterialIcon';
+import { getUserIdForDb } from '../stores/authStore';
+import { COMMENT_REACTION_EMOJIS, groupReactions, type CommentReaction } from '../lib/comments';
+
+interface CommentReactionsProps {
+  /** Comment or chat message reactions */
+  reactions?: Pick<CommentReaction, 'user_id' | 'emoji'>[];
+  onToggle: (emoji: string) => void;
+  /** Hide the add button (e.g. for roles that cannot comment) */
+  readOnly?: boolean;
+}
+
+/** Reaction chips under a comment plus a small emoji picker */
+export function CommentReactions({ reactions, onToggle, readOnly = false }: CommentReactionsProps) {
+  const { t } = useTranslation();
+  const [pickerOpen, setPickerOpen] = useState(false);
+  const userId = getUserIdForDb();
+  const groups = groupReactions(reactions);
+
+  if (readOnly && groups.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-1 mt-1">
+      {groups.map(({ emoji, userIds }) => {
+        const mine = !!userId && userIds.includes(userId);
+        return (
+          <button
+            key={emoji}
+            type="button"
+            disabled={readOnly}
+            onClick={(e) => {
+              e.stopPropagation();
+              onToggle(emoji);
+            }}
+            className={`inline-flex items-center gap-1 px-1.5 py-0.5 rounded-full text-xs transition-colors disabled:cursor-default ${
+              mine
+                ? 'bg-nokturo-900 text-white dark:bg-white dark:text-nokturo-900'
+                : 'bg-nokturo-200/60 dark:bg-white/10 text-nokturo-700 dark:text-nokturo-200'
+            }`}
+          >
+            <span>{emoji}</span>
+            <span>{userIds.length}</span>
+          </button>
+        );
+      })}
+      {!readOnly && (
+        <div className="relative">
+          <button
+            type="button"
+            onClick={(e) => {
+              e.stopPropagation();
+              setPickerOpen((o) => !o);
+            }}
+            className="p-0.5 rounded text-nokturo-400 hover:text-nokturo-700 dark:text-nokturo-500 dark:hover:text-nokturo-200 transition-colors"
+            title={t('comments.addReaction')}
+            aria-label={t('comments.addReaction')}
+          >
+            <MaterialIcon name="add_reaction" size={14} className="shrink-0" />
+          </button>
+          {pickerOpen && (
+            <>
+              <div className="fixed inset-0 z-10" onClick={(e) => { e.stopPropagation(); setPickerOpen(false); }} />
+              <div
+                className="absolute left-0 bottom-full mb-1 z-20 flex gap-0.5 bg-white dark:bg-nokturo-700 rounded-lg shadow-lg p-1"
+                onClick={(e) => e.stopPropagation()}
+              >
+                {COMMENT_REACTION_EMOJIS.map((emoji) => (
+                  <button
+                    key={emoji}
+                    type="button"
+                    onClick={() => {
+                      onToggle(emoji);
+                      setPickerOpen(false);
+                    }}
+                    className="w-7 h-7 flex items-center justify-center rounded hover:bg-nokturo-100 dark:hover:bg-nokturo-600 text-base"
+                  >
+                    {emoji}
+                  </button>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
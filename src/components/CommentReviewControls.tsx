@@ -0,0 +1,143 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { MaterialIcon } from './icons/MaterialIcon';
+import { useToastStore } from '../stores/toastStore';
+import type { CommentProfileOption } from '../hooks/useComments';
+import {
+  profileDisplayName,
+  updateCommentReview,
+  type Comment,
+  type CommentReview,
+  type CommentReviewPatch,
+} from '../lib/comments';
+
+interface CommentReviewControlsProps {
+  /** Thread root */
+  thread: Pick<Comment<unknown>, 'id' | 'resolved_at' | 'resolved_by' | 'is_blocking' | 'assignee_id'>;
+  /** All profiles – assignee options and resolver names */
+  profiles: CommentProfileOption[];
+  canReview: boolean;
+  onChange: (review: CommentReview) => void;
+}
+
+/** Review state of a thread (resolved / blocking / assignee) with resolve, reopen and triage actions */
+export function CommentReviewControls({ thread, profiles, canReview, onChange }: CommentReviewControlsProps) {
+  const { t } = useTranslation();
+  const addToast = useToastStore((s) => s.addToast);
+  const [saving, setSaving] = useState(false);
+
+  const resolved = !!thread.resolved_at;
+  const nameOf = (id: string | null) => profileDisplayName(profiles.find((p) => p.id === id));
+
+  const update = async (patch: CommentReviewPatch) => {
+    setSaving(true);
+    try {
+      onChange(await updateCommentReview(thread.id, patch));
+    } catch (e) {
+      addToast((e as Error).message, 'error');
+    }
+    setSaving(false);
+  };
+
+  if (!canReview && !resolved && !thread.is_blocking && !thread.assignee_id) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5 mt-1 text-[10px]" onClick={(e) => e.stopPropagation()}>
+      {resolved ? (
+        <span className="inline-flex items-center gap-1 text-green dark:text-green-fg">
+          <MaterialIcon name="check_circle" size={12} className="shrink-0" />
+          {t('comments.resolvedBy', {
+            name: nameOf(thread.resolved_by),
+            date: new Date(thread.resolved_at!).toLocaleDateString([], { month: 'short', day: 'numeric' }),
+          })}
+        </span>
+      ) : (
+        <>
+          {thread.is_blocking && (
+            <span className="inline-flex items-center gap-0.5 px-1.5 py-0.5 rounded-full bg-red text-red-fg font-medium">
+              <MaterialIcon name="block" size={10} className="shrink-0" />
+              {t('comments.blocking')}
+            </span>
+          )}
+          {thread.assignee_id && !canReview && (
+            <span className="inline-flex items-center gap-0.5 opacity-80">
+              <MaterialIcon name="assignment_ind" size={12} className="shrink-0" />
+              {nameOf(thread.assignee_id)}
+            </span>
+          )}
+        </>
+      )}
+
+      {canReview && (
+        <>
+          {!resolved && (
+            <>
+              <label className="inline-flex items-center gap-0.5 opacity-80">
+                <MaterialIcon name="assignment_ind" size={12} className="shrink-0" />
+                <select
+                  value={thread.assignee_id ?? ''}
+                  onChange={(e) => update({ assignee_id: e.target.value || null })}
+                  disabled={saving}
+                  aria-label={t('comments.assignee')}
+                  className="bg-transparent text-[10px] text-inherit border-none p-0 pr-4 focus:ring-0 cursor-pointer"
+                >
+                  <option value="">{t('comments.unassigned')}</option>
+                  {profiles.map((p) => (
+                    <option key={p.id} value={p.id}>
+                      {profileDisplayName(p)}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <button
+                type="button"
+                onClick={() => update({ is_blocking: !thread.is_blocking })}
+                disabled={saving}
+                className="px-1.5 py-0.5 rounded opacity-80 hover:opacity-100 hover:bg-nokturo-100 dark:hover:bg-white/10 disabled:opacity-50"
+              >
+                {thread.is_blocking ? t('comments.unmarkBlocking') : t('comments.markBlocking')}
+              </button>
+            </>
+          )}
+          <button
+            type="button"
+            onClick={() => update({ resolved: !resolved })}
+            disabled={saving}
+            className="inline-flex items-center gap-0.5 px-1.5 py-0.5 rounded opacity-80 hover:opacity-100 hover:bg-nokturo-100 dark:hover:bg-white/10 disabled:opacity-50"
+          >
+            <MaterialIcon name={resolved ? 'replay' : 'task_alt'} size={12} className="shrink-0" />
+            {resolved ? t('comments.reopen') : t('comments.resolve')}
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
+
+interface HideResolvedToggleProps {
+  hideResolved: boolean;
+  onChange: (hide: boolean) => void;
+  /** Number of resolved threads, shown next to the label */
+  resolvedCount: number;
+}
+
+/** Filter switch that hides resolved threads */
+export function HideResolvedToggle({ hideResolved, onChange, resolvedCount }: HideResolvedToggleProps) {
+  const { t } = useTranslation();
+  return (
+    <button
+      type="button"
+      onClick={() => onChange(!hideResolved)}
+      aria-pressed={hideResolved}
+      className={`inline-flex items-center gap-1 px-2 py-1 rounded-[6px] text-xs transition-colors ${
+        hideResolved
+          ? 'bg-nokturo-900 text-white dark:bg-white dark:text-nokturo-900'
+          : 'text-nokturo-500 hover:text-nokturo-700 dark:hover:text-nokturo-300 hover:bg-nokturo-100 dark:hover:bg-white/10'
+      }`}
+    >
+      <MaterialIcon name={hideResolved ? 'visibility_off' : 'visibility'} size={14} className="shrink-0" />
+      {t('comments.hideResolved')}
+      {resolvedCount > 0 && <span className="opacity-70">({resolvedCount})</span>}
+    </button>
+  );
+}
@@ -4,9 +4,8 @@
  */
 import { useState, useCallback, useEffect, useLayoutEffect, useRef } from 'react';
 import { useTranslation } from 'react-i18next';
-import { supabase } from '../lib/supabase';
-import { useAuthStore, getUserIdForDb } from '../stores/authStore';
-import { hasPermission, canDeleteAnything } from '../lib/rbac';
+import { useAuthStore } from '../stores/authStore';
+import { canDeleteAnything } from '../lib/rbac';
 import type { RichTextBlock } from './RichTextBlockEditor';
 import { getAspectClass, lastSignificantBlock } from './RichTextBlockEditor';
 import { extractTags, type HeadingFontFamily } from './RichTextBlockViewer';
@@ -21,33 +20,24 @@ import { INPUT_CLASS } from '../lib/inputStyles';
 import { useMentionSuggestions, MentionDropdown } from './MentionSuggestions';
 import type { MentionProfile } from './MentionSuggestions';
 import { sendMentionNotifications, parseMentionsFromText } from '../lib/sendMentionNotifications';
+import { CommentReactions } from './CommentReactions';
+import { CommentReviewControls, HideResolvedToggle } from './CommentReviewControls';
+import { useComments, useCommentProfiles, useMentionableProfiles, type CommentProfileOption } from '../hooks/useComments';
+import {
+  canCommentOn,
+  commentAuthorName,
+  deleteComment,
+  editComment,
+  postComment,
+  resolveCommentAuthorId,
+  visibleThreads,
+  type Comment,
+  type CommentReview,
+  type TextAnchor,
+} from '../lib/comments';
 
 // ── Types ─────────────────────────────────────────────────────
-export interface TextComment {
-  id: string;
-  product_id: string;
-  author_id: string;
-  parent_id: string | null;
-  content: string;
-  block_id: string;
-  selected_text: string;
-  start_offset: number | null;
-  end_offset: number | null;
-  created_at: string;
-  profile?: {
-    full_name?: string;
-    first_name?: string;
-    last_name?: string;
-    avatar_url: string | null;
-  };
-}
-
-interface ProfileOption {
-  id: string;
-  first_name: string | null;
-  last_name: string | null;
-  full_name: string | null;
-}
+export type TextComment = Comment<TextAnchor>;
 
 interface CommentableRichTextViewerProps {
   blocks: RichTextBlock[];
@@ -73,12 +63,12 @@ interface CommentableRichTextViewerProps {
 
 // ── Helper: wrap text with multiple highlights (each comment independent) ─────
 function highlightTextMultiple(text: string, comments: TextComment[]): React.ReactNode {
-  const segments: { start: number; end: number; commentId: string }[] = [];
+  const segments: { start: number; end: number; commentId: string; resolved: boolean }[] = [];
   for (const c of comments) {
-    const sel = c.selected_text;
+    const sel = c.anchor.selected_text;
     if (!sel || !text.includes(sel)) continue;
     const idx = text.indexOf(sel);
-    segments.push({ start: idx, end: idx + sel.length, commentId: c.id });
+    segments.push({ start: idx, end: idx + sel.length, commentId: c.id, resolved: !!c.resolved_at });
   }
   segments.sort((a, b) => a.start - b.start);
   // Filter overlaps: keep first, skip overlapping
@@ -96,7 +86,9 @@ function highlightTextMultiple(text: string, comments: TextComment[]): React.Rea
       <mark
         key={seg.commentId}
         data-comment-id={seg.commentId}
-        className="bg-[#FFDD00]/50 rounded px-0 cursor-pointer hover:bg-[#FFDD00]/65 text-black dark:text-white transition-colors"
+        className={`rounded px-0 cursor-pointer text-black dark:text-white transition-colors ${
+          seg.resolved ? 'bg-nokturo-300/40 hover:bg-nokturo-300/60' : 'bg-[#FFDD00]/50 hover:bg-[#FFDD00]/65'
+        }`}
       >
         {text.slice(seg.start, seg.end)}
       </mark>
@@ -242,11 +234,11 @@ function CommentableBlockView({
     } else {
       // Replace from end to start to avoid position shifting
       const toReplace = blockComments
-        .filter((c) => c.selected_text && html.includes(c.selected_text))
-        .map((c) => ({ comment: c, idx: html.indexOf(c.selected_text!) }))
+        .filter((c) => c.anchor.selected_text && html.includes(c.anchor.selected_text))
+        .map((c) => ({ comment: c, idx: html.indexOf(c.anchor.selected_text) }))
         .sort((a, b) => b.idx - a.idx);
       for (const { comment } of toReplace) {
-        const escaped = comment.selected_text!.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        const escaped = comment.anchor.selected_text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
         html = html.replace(new RegExp(escaped), (match) =>
           `<mark data-comment-id="${comment.id}" class="bg-[#FFDD00]/50 rounded px-0 cursor-pointer hover:bg-[#FFDD00]/65 text-black dark:text-white">${match}</mark>`
         );
@@ -413,16 +405,15 @@ function CommentableBlockView({
 export function CommentableRichTextViewer({ blocks, productId, shortDescription, className = '', showToc = true, tocTitle, sections, sectionTocItems, renderTocExternally, onTocItems, headingFont = 'body' }: CommentableRichTextViewerProps) {
   const { t } = useTranslation();
   const user = useAuthStore((s) => s.user);
-  const canComment = user?.role ? (
-    hasPermission(user.role, 'production.products', 'comment') ||
-    hasPermission(user.role, 'production.sampling', 'comment')
-  ) : false;
+  const canComment = canCommentOn(user?.role, 'product');
   const canDelete = user?.role ? canDeleteAnything(user.role) : false;
   const containerRef = useRef<HTMLDivElement>(null);
   const skipNextBackdropClickRef = useRef(false);
 
-  const [comments, setComments] = useState<TextComment[]>([]);
-  const [loading, setLoading] = useState(true);
+  const { comments, setComments, loading, addComment, toggleReaction } = useComments<TextAnchor>({
+    target: { type: 'product', id: productId },
+    anchorType: 'text',
+  });
   const [selectionState, setSelectionState] = useState<{
     blockId: string;
     selectedText: string;
@@ -439,21 +430,11 @@ export function CommentableRichTextViewer({ blocks, productId, shortDescription,
   const [viewportSize, setViewportSize] = useState(() => ({ w: window.innerWidth, h: window.innerHeight }));
   const [currentAuthorId, setCurrentAuthorId] = useState<string | null>(null);
   const [displayParentOverrides, setDisplayParentOverrides] = useState<Record<string, string>>({});
-  const [profiles, setProfiles] = useState<ProfileOption[]>([]);
+  const profiles = useMentionableProfiles();
+  const allProfiles = useCommentProfiles();
+  const [hideResolved, setHideResolved] = useState(false);
   const [taggedUsers, setTaggedUsers] = useState<string[]>([]);
 
-  const fetchProfiles = useCallback(async () => {
-    const { data } = await supabase
-      .from('profiles')
-      .select('id, first_name, last_name, full_name, avatar_url')
-      .neq('id', user?.id ?? '');
-    setProfiles((data || []) as ProfileOption[]);
-  }, [user?.id]);
-
-  useEffect(() => {
-    fetchProfiles();
-  }, [fetchProfiles]);
-
   useEffect(() => {
     const onResize = () => setViewportSize({ w: window.innerWidth, h: window.innerHeight });
     window.addEventListener('resize', onResize);
@@ -491,68 +472,9 @@ export function CommentableRichTextViewer({ blocks, productId, shortDescription,
       setCurrentAuthorId(null);
       return;
     }
-    if (user.id !== 'dev-user') {
-      setCurrentAuthorId(user.id);
-      return;
-    }
-    supabase.from('profiles').select('id').limit(1).single().then(({ data, error }) => {
-      if (!error) setCurrentAuthorId(data?.id ?? null);
-    });
+    resolveCommentAuthorId().then(setCurrentAuthorId);
   }, [user?.id]);
 
-  const fetchComments = useCallback(async () => {
-    const { data } = await supabase
-      .from('product_text_comments')
-      .select('*, profile:profiles!product_text_comments_author_id_fkey(full_name, first_name, last_name, avatar_url)')
-      .eq('product_id', productId)
-      .order('created_at', { ascending: true });
-    setComments((data || []) as TextComment[]);
-  }, [productId]);
-
-  useEffect(() => {
-    setLoading(true);
-    fetchComments().finally(() => setLoading(false));
-  }, [fetchComments]);
-
-  // ── Realtime subscription ─────────────────────────────────────
-  useEffect(() => {
-    const channel = supabase
-      .channel(`text-comments-${productId}`)
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'product_text_comments',
-          filter: `product_id=eq.${productId}`,
-        },
-        async (payload) => {
-          if (payload.eventType === 'INSERT') {
-            const row = payload.new as TextComment;
-            const { data: profile } = await supabase
-              .from('profiles')
-              .select('full_name, first_name, last_name, avatar_url')
-              .eq('id', row.author_id)
-              .single();
-            const enriched: TextComment = { ...row, profile: profile || { avatar_url: null } };
-            setComments((prev) => (prev.some((c) => c.id === enriched.id) ? prev : [...prev, enriched]));
-          } else if (payload.eventType === 'DELETE') {
-            const oldRow = payload.old as { id: string };
-            setComments((prev) => prev.filter((c) => c.id !== oldRow.id && c.parent_id !== oldRow.id));
-          } else if (payload.eventType === 'UPDATE') {
-            const updated = payload.new as TextComment;
-            // Preserve profile from existing comment – real-time payload has no joined data
-            setComments((prev) => prev.map((c) => (c.id === updated.id ? { ...c, ...updated, profile: c.profile } : c)));
-          }
-        }
-      )
-      .subscribe();
-
-    return () => {
-      supabase.removeChannel(channel);
-    };
-  }, [productId]);
-
   // Position popover relative to container so it scrolls with content (not fixed)
   useLayoutEffect(() => {
     if (!selectionState || !containerRef.current) return;
@@ -715,15 +637,7 @@ export function CommentableRichTextViewer({ blocks, productId, shortDescription,
 
   const handleAddComment = useCallback(async () => {
     setAddError(null);
-    let authorId = getUserIdForDb();
-    if (!authorId && user?.id === 'dev-user') {
-      const { data: firstProfile } = await supabase
-        .from('profiles')
-        .select('id')
-        .limit(1)
-        .single();
-      authorId = firstProfile?.id ?? null;
-    }
+    const authorId = await resolveCommentAuthorId();
     if (!user || !authorId || !selectionState || !commentInput.trim()) {
       if (!user || !authorId) setAddError(t('comments.loginRequired'));
       return;
@@ -733,20 +647,22 @@ export function CommentableRichTextViewer({ blocks, productId, shortDescription,
     if (import.meta.env.DEV) console.log('[CommentableRichTextViewer] handleAddComment SUBMIT – taggedUsers at submit', { taggedUsersSnapshot });
 
     setSending(true);
-    const { data, error } = await supabase
-      .from('product_text_comments')
-      .insert({
-        product_id: productId,
-        author_id: authorId,
-        block_id: selectionState.blockId,
-        selected_text: selectionState.selectedText,
+    let data: TextComment | null = null;
+    let error: Error | null = null;
+    try {
+      data = await postComment<TextAnchor>({
+        scope: { target: { type: 'product', id: productId }, anchorType: 'text' },
+        authorId,
         content: commentInput.trim(),
-      })
-      .select('*, profile:profiles!product_text_comments_author_id_fkey(full_name, first_name, last_name, avatar_url)')
-      .single();
+        taggedUserIds: taggedUsersSnapshot,
+        anchor: { block_id: selectionState.blockId, selected_text: selectionState.selectedText, start_offset: null, end_offset: null },
+      });
+    } catch (e) {
+      error = e as Error;
+    }
     setSending(false);
     if (!error && data) {
-      setComments((prev) => [...prev, data as TextComment]);
+      addComment(data);
 
       // Create notifications for tagged users
       if (import.meta.env.DEV && taggedUsersSnapshot.length === 0) {
@@ -765,6 +681,7 @@ export function CommentableRichTextViewer({ blocks, productId, shortDescription,
           content: commentInput.trim(),
           type: 'text_tag',
           link: `/production/sampling/${productId}`,
+          commentId: data.id,
         });
       }
 
@@ -780,15 +697,7 @@ export function CommentableRichTextViewer({ blocks, productId, shortDescription,
   }, [user, productId, selectionState, commentInput, taggedUsers]);
 
   const handleReply = useCallback(async (parentId: string, displayParentContent?: string) => {
-    let authorId = getUserIdForDb();
-    if (!authorId && user?.id === 'dev-user') {
-      const { data: firstProfile } = await supabase
-        .from('profiles')
-        .select('id')
-        .limit(1)
-        .single();
-      authorId = firstProfile?.id ?? null;
-    }
+    const authorId = await resolveCommentAuthorId();
     if (!user || !authorId || !replyContent.trim()) return;
     setSending(true);
     try {
@@ -797,20 +706,15 @@ export function CommentableRichTextViewer({ blocks, productId, shortDescription,
         setSending(false);
         return;
       }
-      const { data, error } = await supabase
-        .from('product_text_comments')
-        .insert({
-          product_id: productId,
-          author_id: authorId,
-          parent_id: parentId,
-          block_id: parent.block_id,
-          selected_text: parent.selected_text,
-          content: replyContent.trim(),
-        })
-        .select('*, profile:profiles!product_text_comments_author_id_fkey(full_name, first_name, last_name, avatar_url)')
-        .single();
-      if (!error && data) {
-        setComments((prev) => [...prev, data as TextComment]);
+      const data = await postComment<TextAnchor>({
+        scope: { target: { type: 'product', id: productId }, anchorType: 'text' },
+        authorId,
+        content: replyContent.trim(),
+        parentId,
+        anchor: parent.anchor,
+      }).catch(() => null);
+      if (data) {
+        addComment(data);
         if (displayParentContent) {
           setDisplayParentOverrides((prev) => ({ ...prev, [data.id]: displayParentContent }));
         }
@@ -824,18 +728,18 @@ export function CommentableRichTextViewer({ blocks, productId, shortDescription,
 
   const handleEditComment = useCallback(async (id: string, newContent: string) => {
     if (!newContent.trim()) return;
-    const { error } = await supabase
-      .from('product_text_comments')
-      .update({ content: newContent.trim() })
-      .eq('id', id);
-    if (!error) {
-      setComments((prev) => prev.map((c) => c.id === id ? { ...c, content: newContent.trim() } : c));
+    try {
+      const editedAt = await editComment(id, newContent.trim());
+      setComments((prev) => prev.map((c) => c.id === id ? { ...c, content: newContent.trim(), edited_at: editedAt } : c));
+    } catch (error) {
+      console.error('Edit comment failed:', error);
     }
-  }, []);
+  }, [setComments]);
 
   const handleDelete = useCallback(async (id: string) => {
-    const { error } = await supabase.from('product_text_comments').delete().eq('id', id);
-    if (error) {
+    try {
+      await deleteComment(id);
+    } catch (error) {
       console.error('Delete comment failed:', error);
       return;
     }
@@ -885,11 +789,12 @@ export function CommentableRichTextViewer({ blocks, productId, shortDescription,
   const commentableBlocks = blocks.filter(
     (b) => b.type === 'heading' || b.type === 'quote' || b.type === 'paragraph'
   );
-  const blockCommentsMap = comments.reduce<Record<string, TextComment[]>>((acc, c) => {
-    if (!acc[c.block_id]) acc[c.block_id] = [];
-    if (!c.parent_id) acc[c.block_id].push(c);
+  const blockCommentsMap = visibleThreads(comments, hideResolved).reduce<Record<string, TextComment[]>>((acc, c) => {
+    if (!acc[c.anchor.block_id]) acc[c.anchor.block_id] = [];
+    acc[c.anchor.block_id].push(c);
     return acc;
   }, {});
+  const resolvedCount = comments.filter((c) => !c.parent_id && c.resolved_at).length;
 
   const shortDescriptionBlockId = 'short_description';
   const shortDescriptionComments = blockCommentsMap[shortDescriptionBlockId] || [];
@@ -933,6 +838,11 @@ export function CommentableRichTextViewer({ blocks, productId, shortDescription,
 
   const content = (
     <article className="font-body select-text commentable-select text-nokturo-900 dark:text-nokturo-100">
+        {resolvedCount > 0 && (
+          <div className="flex justify-end mb-2 select-none">
+            <HideResolvedToggle hideResolved={hideResolved} onChange={setHideResolved} resolvedCount={resolvedCount} />
+          </div>
+        )}
         {shortDescriptionDisplay && (
           <p
             className="text-[20px] font-medium text-nokturo-900 dark:text-nokturo-100 mb-12"
@@ -1048,6 +958,12 @@ export function CommentableRichTextViewer({ blocks, productId, shortDescription,
           onReply={handleReply}
           onDelete={handleDelete}
           onEdit={handleEditComment}
+          onReact={toggleReaction}
+          reviewProfiles={allProfiles}
+          canReview={canComment}
+          onReviewChange={(id, review) =>
+            setComments((prev) => prev.map((c) => (c.id === id ? { ...c, ...review } : c)))
+          }
           onClose={() => {
             setActiveThreadId(null);
             setThreadPopoverPosition(null);
@@ -1078,6 +994,10 @@ function CommentThreadPopover({
   onReply,
   onDelete,
   onEdit,
+  onReact,
+  reviewProfiles,
+  canReview,
+  onReviewChange,
   onClose,
   skipNextBackdropClickRef,
   anchorPosition,
@@ -1098,6 +1018,10 @@ function CommentThreadPopover({
   onReply: (id: string, displayParentContent?: string) => void;
   onDelete: (id: string) => void;
   onEdit: (id: string, newContent: string) => void;
+  onReact: (id: string, emoji: string) => void;
+  reviewProfiles: CommentProfileOption[];
+  canReview: boolean;
+  onReviewChange: (id: string, review: CommentReview) => void;
   onClose: () => void;
   skipNextBackdropClickRef?: React.MutableRefObject<boolean>;
   anchorPosition: { top?: number; bottom?: number; left: number } | null;
@@ -1127,10 +1051,7 @@ function CommentThreadPopover({
   }, [replyMention, setReplyContent]);
 
   const renderComment = (c: TextComment, allComments: TextComment[]) => {
-    const name =
-      [c.profile?.first_name, c.profile?.last_name].filter(Boolean).join(' ') ||
-      c.profile?.full_name ||
-      'Unknown';
+    const name = commentAuthorName(c);
     const isOwn = currentAuthorId === c.author_id;
     const canAct = isOwn; // only own comments can be edited/deleted
     const parent = c.parent_id ? allComments.find((x) => x.id === c.parent_id) : null;
@@ -1186,9 +1107,12 @@ function CommentThreadPopover({
               </div>
             </div>
           ) : (
-            <p className="text-sm font-normal break-words text-inherit">
-              {renderContentWithMentions(c.content, isOwn, currentUserDisplayName)}
-            </p>
+            <>
+              <p className="text-sm font-normal break-words text-inherit">
+                {renderContentWithMentions(c.content, isOwn, currentUserDisplayName)}
+              </p>
+              <CommentReactions reactions={c.reactions} onToggle={(emoji) => onReact(c.id, emoji)} />
+            </>
           )}
         </div>
         <div className="flex justify-between items-center mt-4 min-w-0 gap-2">
@@ -1207,6 +1131,7 @@ function CommentThreadPopover({
                   hour: '2-digit',
                   minute: '2-digit',
                 })}
+                {c.edited_at && ` · ${t('comments.edited')}`}
               </span>
             </div>
           </div>
@@ -1324,11 +1249,19 @@ function CommentThreadPopover({
         onClick={(e) => e.stopPropagation()}
       >
         <div className="flex items-center justify-between mb-2 shrink-0">
-          <span className="text-xs text-nokturo-500 dark:text-nokturo-400 truncate">"{rootComment.selected_text}"</span>
+          <span className="text-xs text-nokturo-500 dark:text-nokturo-400 truncate">"{rootComment.anchor.selected_text}"</span>
           <button onClick={onClose} className="text-nokturo-500 hover:text-nokturo-700 dark:text-nokturo-400 dark:hover:text-nokturo-200 text-2xl p-2 -m-2 leading-none flex items-center justify-center size-8">
             ×
           </button>
         </div>
+        <div className="shrink-0 text-nokturo-600 dark:text-nokturo-300">
+          <CommentReviewControls
+            thread={rootComment}
+            profiles={reviewProfiles}
+            canReview={canReview}
+            onChange={(review) => onReviewChange(rootComment.id, review)}
+          />
+        </div>
         <div className="min-h-0 flex-1 overflow-y-auto overflow-x-hidden space-y-2 pt-4 mb-4">
           {[...threadComments]
             .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime())
@@ -11,6 +11,8 @@ import {
 } from './NotionSelect';
 import { SelectField } from './SelectField';
 import { INPUT_CLASS, MODAL_HEADING_CLASS } from '../lib/inputStyles';
+import { bookStockCorrection } from '../lib/stockLedger';
+import { StockMovements } from './StockMovements';
 
 // ── Types shared with ComponentsPage ─────────────────────────
 export interface Component {
@@ -20,6 +22,8 @@ export interface Component {
   supplier_id: string | null;
   type: string;
   stock_qty: number;
+  reorder_point: number | null;
+  reorder_qty: number | null;
   price_per_unit: number;
   currency: string;
   image_url: string | null;
@@ -35,6 +39,8 @@ interface FormData {
   description: string;
   type: string;
   stock_qty: string;
+  reorder_point: string;
+  reorder_qty: string;
   price_per_unit: string;
   currency: string;
   supplier_id: string;
@@ -45,6 +51,8 @@ const emptyForm: FormData = {
   description: '',
   type: '',
   stock_qty: '0',
+  reorder_point: '',
+  reorder_qty: '',
   price_per_unit: '0',
   currency: 'EUR',
   supplier_id: '',
@@ -106,6 +114,8 @@ export function ComponentSlideOver({
         description: component.description || '',
         type: component.type || '',
         stock_qty: component.stock_qty.toString(),
+        reorder_point: component.reorder_point?.toString() ?? '',
+        reorder_qty: component.reorder_qty?.toString() ?? '',
         price_per_unit: component.price_per_unit.toString(),
         currency,
         supplier_id: component.supplier_id || '',
@@ -192,9 +202,10 @@ export function ComponentSlideOver({
       name: form.name,
       description: form.description || null,
       type: form.type,
-      stock_qty: parseFloat(form.stock_qty) || 0,
       price_per_unit: parseFloat(form.price_per_unit) || 0,
       currency: form.currency,
+      reorder_point: form.reorder_point.trim() ? parseFloat(form.reorder_point) : null,
+      reorder_qty: form.reorder_qty.trim() ? parseFloat(form.reorder_qty) : null,
       image_url: imageUrl,
       parameters: {},
       supplier_id: form.supplier_id || null,
@@ -202,16 +213,28 @@ export function ComponentSlideOver({
     };
 
     const result = component
-      ? await supabase.from('components').update(record).eq('id', component.id)
-      : await supabase.from('components').insert(record);
-
-    setSaving(false);
+      ? await supabase.from('components').update(record).eq('id', component.id).select('id').single()
+      : await supabase.from('components').insert(record).select('id').single();
 
     if (result.error) {
+      setSaving(false);
       setError(result.error.message);
       return;
     }
 
+    // On-hand quantity is derived from the ledger – book the difference as an adjustment
+    const stockErr = await bookStockCorrection(
+      { kind: 'component', id: result.data.id },
+      component?.stock_qty ?? 0,
+      parseFloat(form.stock_qty) || 0,
+      component ? t('stock.formCorrection') : t('stock.openingBalance'),
+    );
+    setSaving(false);
+    if (stockErr) {
+      setError(stockErr);
+      return;
+    }
+
     onSaved();
   };
 
@@ -371,6 +394,37 @@ export function ComponentSlideOver({
             />
           </div>
 
+          {/* ── Reorder point + quantity ─────────────────── */}
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm text-nokturo-700 dark:text-nokturo-400 mb-1.5">
+                {t('reorder.reorderPoint')}
+              </label>
+              <input
+                type="number"
+                step="1"
+                min="0"
+                value={form.reorder_point}
+                onChange={(e) => handleChange('reorder_point', e.target.value)}
+                placeholder={t('reorder.notTracked')}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-nokturo-700 dark:text-nokturo-400 mb-1.5">
+                {t('reorder.reorderQty')}
+              </label>
+              <input
+                type="number"
+                step="1"
+                min="0"
+                value={form.reorder_qty}
+                onChange={(e) => handleChange('reorder_qty', e.target.value)}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
           {/* ── Price + Currency ─────────────────────────── */}
           <div className="grid grid-cols-2 gap-3">
             <div>
@@ -402,6 +456,19 @@ export function ComponentSlideOver({
             </div>
           </div>
 
+          {/* ── Stock movements (ledger) ─────────────────── */}
+          {component && (
+            <div className="pt-2 border-t border-nokturo-200 dark:border-nokturo-600">
+              <label className="block text-sm text-nokturo-700 dark:text-nokturo-400 mb-3">
+                {t('stock.movementHistory')}
+              </label>
+              <StockMovements
+                item={{ kind: 'component', id: component.id }}
+                unitLabel={t('components.pcs')}
+              />
+            </div>
+          )}
+
           {/* ── Error banner ─────────────────────────────── */}
           {error && (
             <div className="text-red dark:text-red-fg text-sm bg-red/10 dark:bg-red/20 rounded-lg px-4 py-2.5">
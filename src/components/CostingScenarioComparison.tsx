@@ -0,0 +1,125 @@
+import { Fragment } from 'react';
+import { useTranslation } from 'react-i18next';
+import { MaterialIcon } from './icons/MaterialIcon';
+import type { ScenarioComparisonRow, ScenarioFigures } from '../lib/costingScenarios';
+
+interface CostingScenarioComparisonProps {
+  rows: ScenarioComparisonRow[];
+  /** Currency all figures are in (base currency, or the one the snapshot was taken in) */
+  currency: string;
+}
+
+const average = (rows: ScenarioComparisonRow[], pick: (r: ScenarioComparisonRow) => number) =>
+  rows.length > 0 ? rows.reduce((sum, r) => sum + pick(r), 0) / rows.length : 0;
+
+/** Side-by-side current vs scenario costing with deltas; margin deltas are in percentage points */
+export function CostingScenarioComparison({ rows, currency }: CostingScenarioComparisonProps) {
+  const { t } = useTranslation();
+
+  const fmt = (val: number) => `${val.toFixed(2)} ${currency}`;
+  const fmtDelta = (val: number, unit: string) =>
+    `${val > 0 ? '+' : ''}${val.toFixed(unit === 'pp' ? 1 : 2)} ${unit}`;
+  // Higher costs are bad, higher prices/margins are good
+  const deltaClass = (val: number, higherIsBetter: boolean) =>
+    Math.abs(val) < 0.005
+      ? 'text-nokturo-500'
+      : (val > 0) === higherIsBetter
+        ? 'text-green-fg'
+        : 'text-red-fg';
+
+  const avgMarginDelta = average(rows, (r) => r.scenario.margin - r.current.margin);
+  const avgCogsDelta = average(rows, (r) => r.scenario.totalCOGS - r.current.totalCOGS);
+  const changed = rows.filter(
+    (r) => Math.abs(r.scenario.totalCOGS - r.current.totalCOGS) >= 0.005 || Math.abs(r.scenario.retailPrice - r.current.retailPrice) >= 0.005
+  ).length;
+
+  const columns: { key: keyof ScenarioFigures; label: string; higherIsBetter: boolean; pct?: boolean }[] = [
+    { key: 'totalCOGS', label: t('costing.totalCOGS'), higherIsBetter: false },
+    { key: 'retailPrice', label: t('costing.retailPrice'), higherIsBetter: true },
+    { key: 'profitPerUnit', label: t('costing.profitPerUnit'), higherIsBetter: true },
+    { key: 'margin', label: t('costing.scenarios.margin'), higherIsBetter: true, pct: true },
+  ];
+
+  if (rows.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center py-20 text-center">
+        <MaterialIcon name="trending_up" size={48} className="text-nokturo-400 mb-4 shrink-0" />
+        <p className="text-nokturo-600 font-medium">{t('costing.noProducts')}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <div className="bg-white rounded-lg p-4">
+          <p className="text-nokturo-500 text-xs uppercase tracking-wider mb-1">{t('costing.scenarios.avgMarginDelta')}</p>
+          <p className={`text-2xl font-medium ${deltaClass(avgMarginDelta, true)}`}>{fmtDelta(avgMarginDelta, 'pp')}</p>
+        </div>
+        <div className="bg-white rounded-lg p-4">
+          <p className="text-nokturo-500 text-xs uppercase tracking-wider mb-1">{t('costing.scenarios.avgCogsDelta')}</p>
+          <p className={`text-2xl font-medium ${deltaClass(avgCogsDelta, false)}`}>{fmtDelta(avgCogsDelta, currency)}</p>
+        </div>
+        <div className="bg-white rounded-lg p-4">
+          <p className="text-nokturo-500 text-xs uppercase tracking-wider mb-1">{t('costing.scenarios.productsAffected')}</p>
+          <p className="text-2xl font-medium text-nokturo-900">
+            {changed} / {rows.length}
+          </p>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto rounded-lg bg-white">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="bg-nokturo-50">
+              <th rowSpan={2} className="text-left px-4 py-3 text-nokturo-600 font-medium align-bottom">
+                {t('costing.product')}
+              </th>
+              {columns.map((c) => (
+                <th key={c.key} colSpan={2} className="text-center px-4 pt-3 pb-1 text-nokturo-600 font-medium">
+                  {c.label}
+                </th>
+              ))}
+            </tr>
+            <tr className="bg-nokturo-50 text-xs">
+              {columns.map((c) => (
+                <Fragment key={c.key}>
+                  <th className="text-right px-4 pb-2 text-nokturo-500 font-normal">{t('costing.scenarios.current')}</th>
+                  <th className="text-right px-4 pb-2 text-nokturo-500 font-normal">{t('costing.scenarios.scenario')}</th>
+                </Fragment>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr key={row.product_id} className="hover:bg-nokturo-50 transition-colors">
+                <td className="px-4 py-3">
+                  <p className="text-nokturo-900 font-medium">{row.name}</p>
+                  <p className="text-nokturo-500 text-xs">{row.sku || '—'}</p>
+                </td>
+                {columns.map((c) => {
+                  const delta = row.scenario[c.key] - row.current[c.key];
+                  return (
+                    <Fragment key={c.key}>
+                      <td className="text-right px-4 py-3 text-nokturo-700 tabular-nums">
+                        {c.pct ? `${row.current[c.key].toFixed(1)}%` : fmt(row.current[c.key])}
+                      </td>
+                      <td className="text-right px-4 py-3 tabular-nums">
+                        <span className="block text-nokturo-900 font-medium">
+                          {c.pct ? `${row.scenario[c.key].toFixed(1)}%` : fmt(row.scenario[c.key])}
+                        </span>
+                        <span className={`block text-xs ${deltaClass(delta, c.higherIsBetter)}`}>
+                          {fmtDelta(delta, c.pct ? 'pp' : currency)}
+                        </span>
+                      </td>
+                    </Fragment>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,379 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { supabase } from '../lib/supabase';
+import { getUserIdForDb } from '../stores/authStore';
+import { MaterialIcon } from './icons/MaterialIcon';
+import { SimpleDropdown } from './SimpleDropdown';
+import { INPUT_CLASS, TEXTAREA_CLASS, MODAL_HEADING_CLASS } from '../lib/inputStyles';
+import { CURRENCIES, rateOn } from '../lib/currency';
+import type { ProductWithMaterials } from './ProductSlideOver';
+import {
+  normalizeOverrides,
+  type CostingScenario,
+  type CostOverride,
+  type ScenarioOverrides,
+} from '../lib/costingScenarios';
+
+const OVERRIDE_FIELDS = ['labor_cost', 'overhead_cost', 'markup_multiplier', 'material_price_pct'] as const;
+
+type OverrideForm = Record<(typeof OVERRIDE_FIELDS)[number], string>;
+
+interface ProductOverrideRow extends OverrideForm {
+  key: string;
+  product_id: string;
+}
+
+interface MaterialPriceRow {
+  key: string;
+  material_id: string;
+  price: string;
+}
+
+interface CostingScenarioSlideOverProps {
+  open: boolean;
+  /** null = new scenario */
+  scenario: CostingScenario | null;
+  products: ProductWithMaterials[];
+  canDelete: boolean;
+  onClose: () => void;
+  onSaved: (scenario: CostingScenario) => void;
+  onDelete: (id: string) => void;
+}
+
+const EMPTY_FORM: OverrideForm = { labor_cost: '', overhead_cost: '', markup_multiplier: '', material_price_pct: '' };
+
+const toForm = (o: CostOverride | undefined): OverrideForm =>
+  Object.fromEntries(OVERRIDE_FIELDS.map((f) => [f, o?.[f] != null ? String(o[f]) : ''])) as OverrideForm;
+
+/** Empty inputs mean "no override" and are left out of the stored JSON */
+const fromForm = (form: OverrideForm): CostOverride =>
+  Object.fromEntries(
+    OVERRIDE_FIELDS.filter((f) => form[f].trim() !== '' && !isNaN(Number(form[f]))).map((f) => [f, Number(form[f])])
+  );
+
+export function CostingScenarioSlideOver({
+  open,
+  scenario,
+  products,
+  canDelete,
+  onClose,
+  onSaved,
+  onDelete,
+}: CostingScenarioSlideOverProps) {
+  const { t } = useTranslation();
+
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [global, setGlobal] = useState<OverrideForm>(EMPTY_FORM);
+  const [productRows, setProductRows] = useState<ProductOverrideRow[]>([]);
+  const [materialRows, setMaterialRows] = useState<MaterialPriceRow[]>([]);
+  const [fxRates, setFxRates] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!open) return;
+    const overrides = normalizeOverrides(scenario?.overrides);
+    setName(scenario?.name ?? '');
+    setDescription(scenario?.description ?? '');
+    setGlobal(toForm(overrides.global));
+    setProductRows(
+      Object.entries(overrides.products).map(([product_id, o]) => ({ key: crypto.randomUUID(), product_id, ...toForm(o) }))
+    );
+    setMaterialRows(
+      Object.entries(overrides.material_prices).map(([material_id, price]) => ({
+        key: crypto.randomUUID(),
+        material_id,
+        price: String(price),
+      }))
+    );
+    setFxRates(Object.fromEntries(Object.entries(overrides.fx_rates).map(([c, r]) => [c, String(r)])));
+    setError('');
+  }, [open, scenario]);
+
+  // Materials used in any BOM – only those can affect the costing
+  const materials = useMemo(() => {
+    const byId = new Map<string, { id: string; name: string; price_per_unit: number; currency: string; unit: string }>();
+    for (const p of products) {
+      for (const pm of p.product_materials ?? []) {
+        if (pm.material) byId.set(pm.material.id, pm.material);
+      }
+    }
+    return [...byId.values()].sort((a, b) => a.name.localeCompare(b.name));
+  }, [products]);
+
+  if (!open) return null;
+
+  const updateProductRow = (key: string, patch: Partial<ProductOverrideRow>) =>
+    setProductRows((prev) => prev.map((r) => (r.key === key ? { ...r, ...patch } : r)));
+  const updateMaterialRow = (key: string, patch: Partial<MaterialPriceRow>) =>
+    setMaterialRows((prev) => prev.map((r) => (r.key === key ? { ...r, ...patch } : r)));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+      setError(t('costing.scenarios.nameRequired'));
+      return;
+    }
+
+    const overrides: ScenarioOverrides = {
+      global: fromForm(global),
+      products: Object.fromEntries(
+        productRows
+          .filter((r) => r.product_id)
+          .map((r) => [r.product_id, fromForm(r)] as const)
+          .filter(([, o]) => Object.keys(o).length > 0)
+      ),
+      material_prices: Object.fromEntries(
+        materialRows
+          .filter((r) => r.material_id && r.price.trim() !== '' && !isNaN(Number(r.price)))
+          .map((r) => [r.material_id, Number(r.price)])
+      ),
+      fx_rates: Object.fromEntries(
+        Object.entries(fxRates)
+          .filter(([, v]) => v.trim() !== '' && Number(v) > 0)
+          .map(([c, v]) => [c, Number(v)])
+      ),
+    };
+
+    setSaving(true);
+    setError('');
+    const payload = { name: name.trim(), description: description.trim() || null, overrides };
+    const { data, error: saveErr } = scenario
+      ? await supabase.from('costing_scenarios').update(payload).eq('id', scenario.id).select().single()
+      : await supabase
+          .from('costing_scenarios')
+          .insert({ ...payload, created_by: getUserIdForDb() })
+          .select()
+          .single();
+    setSaving(false);
+    if (saveErr) {
+      setError(saveErr.message);
+      return;
+    }
+    onSaved(data as CostingScenario);
+  };
+
+  const labelClass = 'block text-sm text-nokturo-700 dark:text-nokturo-400 mb-1.5';
+  const fieldLabel = (f: (typeof OVERRIDE_FIELDS)[number]) => t(`costing.scenarios.fields.${f}`);
+  const addButtonClass =
+    'mt-2 inline-flex items-center gap-1 text-sm text-nokturo-600 dark:text-nokturo-400 hover:text-nokturo-900 dark:hover:text-nokturo-100 transition-colors';
+  const removeButtonClass = 'p-1.5 text-nokturo-500 hover:text-red-fg hover:bg-red rounded transition-colors shrink-0';
+
+  const overrideInputs = (form: OverrideForm, onChange: (patch: Partial<OverrideForm>) => void) => (
+    <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+      {OVERRIDE_FIELDS.map((f) => (
+        <div key={f}>
+          <span className="block text-xs text-nokturo-500 mb-1">{fieldLabel(f)}</span>
+          <input
+            type="number"
+            step="any"
+            value={form[f]}
+            onChange={(e) => onChange({ [f]: e.target.value })}
+            placeholder="—"
+            className={INPUT_CLASS}
+          />
+        </div>
+      ))}
+    </div>
+  );
+
+  return (
+    <>
+      <div className="fixed inset-0 z-40 bg-overlay backdrop-blur-sm" onClick={onClose} />
+      <div className="fixed inset-y-0 right-0 z-50 w-full sm:max-w-2xl bg-nokturo-900 shadow-2xl flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-nokturo-200 dark:border-nokturo-600 shrink-0">
+          <h3 className={MODAL_HEADING_CLASS}>
+            {scenario ? t('costing.scenarios.edit') : t('costing.scenarios.new')}
+          </h3>
+          <button
+            onClick={onClose}
+            className="p-1.5 text-nokturo-500 dark:text-nokturo-400 hover:text-nokturo-900 dark:hover:text-nokturo-100 transition-colors rounded-lg hover:bg-nokturo-100 dark:hover:bg-nokturo-700"
+          >
+            <MaterialIcon name="close" size={20} className="shrink-0" />
+          </button>
+        </div>
+
+        <form
+          id="costing-scenario-form"
+          onSubmit={handleSubmit}
+          noValidate
+          className="flex flex-1 flex-col min-h-0 overflow-hidden"
+        >
+          <div className="flex-1 overflow-y-auto px-6 py-4 space-y-5">
+            <div>
+              <label className={labelClass}>{t('costing.scenarios.name')} *</label>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder={t('costing.scenarios.namePlaceholder')}
+                className={INPUT_CLASS}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>{t('costing.scenarios.description')}</label>
+              <textarea
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                rows={2}
+                className={TEXTAREA_CLASS}
+              />
+            </div>
+
+            {/* Global overrides */}
+            <div>
+              <label className={labelClass}>{t('costing.scenarios.global')}</label>
+              {overrideInputs(global, (patch) => setGlobal((prev) => ({ ...prev, ...patch })))}
+              <p className="text-xs text-nokturo-500 mt-1.5">{t('costing.scenarios.globalHint')}</p>
+            </div>
+
+            {/* Exchange rates */}
+            <div>
+              <label className={labelClass}>{t('costing.scenarios.fxRates')}</label>
+              <div className="grid grid-cols-2 sm:grid-cols-5 gap-2">
+                {CURRENCIES.filter((c) => c !== 'CZK').map((c) => (
+                  <div key={c}>
+                    <span className="block text-xs text-nokturo-500 mb-1">1 {c} = CZK</span>
+                    <input
+                      type="number"
+                      step="any"
+                      min="0"
+                      value={fxRates[c] ?? ''}
+                      onChange={(e) => setFxRates((prev) => ({ ...prev, [c]: e.target.value }))}
+                      placeholder={rateOn(c).toFixed(3)}
+                      className={INPUT_CLASS}
+                    />
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-nokturo-500 mt-1.5">{t('costing.scenarios.fxHint')}</p>
+            </div>
+
+            {/* Material prices */}
+            <div>
+              <label className={labelClass}>{t('costing.scenarios.materialPrices')}</label>
+              <div className="space-y-2">
+                {materialRows.map((row) => {
+                  const material = materials.find((m) => m.id === row.material_id);
+                  return (
+                    <div key={row.key} className="flex items-center gap-2">
+                      <div className="flex-1 min-w-0">
+                        <SimpleDropdown
+                          value={row.material_id}
+                          onChange={(v) => updateMaterialRow(row.key, { material_id: v })}
+                          options={[
+                            { value: '', label: t('costing.scenarios.selectMaterial') },
+                            ...materials.map((m) => ({ value: m.id, label: m.name })),
+                          ]}
+                        />
+                      </div>
+                      <input
+                        type="number"
+                        step="any"
+                        min="0"
+                        value={row.price}
+                        onChange={(e) => updateMaterialRow(row.key, { price: e.target.value })}
+                        placeholder={material ? String(material.price_per_unit) : '—'}
+                        className={`${INPUT_CLASS} !w-28 shrink-0`}
+                      />
+                      <span className="text-xs text-nokturo-500 w-16 shrink-0">
+                        {material ? `${material.currency}/${material.unit}` : ''}
+                      </span>
+                      <button
+                        type="button"
+                        onClick={() => setMaterialRows((prev) => prev.filter((r) => r.key !== row.key))}
+                        className={removeButtonClass}
+                        title={t('common.delete')}
+                      >
+                        <MaterialIcon name="close" size={16} className="shrink-0" />
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+              <button
+                type="button"
+                onClick={() => setMaterialRows((prev) => [...prev, { key: crypto.randomUUID(), material_id: '', price: '' }])}
+                className={addButtonClass}
+              >
+                <MaterialIcon name="add" size={16} className="shrink-0" />
+                {t('costing.scenarios.addMaterialPrice')}
+              </button>
+            </div>
+
+            {/* Per-product overrides */}
+            <div>
+              <label className={labelClass}>{t('costing.scenarios.productOverrides')}</label>
+              <div className="space-y-3">
+                {productRows.map((row) => (
+                  <div key={row.key} className="rounded-lg p-3 bg-nokturo-100/60 dark:bg-white/5 space-y-2">
+                    <div className="flex items-center gap-2">
+                      <div className="flex-1 min-w-0">
+                        <SimpleDropdown
+                          value={row.product_id}
+                          onChange={(v) => updateProductRow(row.key, { product_id: v })}
+                          options={[
+                            { value: '', label: t('productionOrders.selectProduct') },
+                            ...products.map((p) => ({ value: p.id, label: p.sku ? `${p.name} (${p.sku})` : p.name })),
+                          ]}
+                        />
+                      </div>
+                      <button
+                        type="button"
+                        onClick={() => setProductRows((prev) => prev.filter((r) => r.key !== row.key))}
+                        className={removeButtonClass}
+                        title={t('common.delete')}
+                      >
+                        <MaterialIcon name="close" size={16} className="shrink-0" />
+                      </button>
+                    </div>
+                    {overrideInputs(row, (patch) => updateProductRow(row.key, patch))}
+                  </div>
+                ))}
+              </div>
+              <button
+                type="button"
+                onClick={() =>
+                  setProductRows((prev) => [...prev, { key: crypto.randomUUID(), product_id: '', ...EMPTY_FORM }])
+                }
+                className={addButtonClass}
+              >
+                <MaterialIcon name="add" size={16} className="shrink-0" />
+                {t('costing.scenarios.addProductOverride')}
+              </button>
+            </div>
+          </div>
+
+          <div className="relative z-10 flex flex-col gap-3 px-6 py-4 shrink-0 mt-auto bg-elevated">
+            {error && (
+              <div className="text-red dark:text-red-fg text-sm bg-red/10 dark:bg-red/20 rounded-lg px-3 py-2 shrink-0">{error}</div>
+            )}
+            <div className="flex items-center justify-end gap-3">
+              {scenario && canDelete && (
+                <button
+                  type="button"
+                  onClick={() => onDelete(scenario.id)}
+                  className="mr-auto px-3 py-2 text-sm text-nokturo-600 dark:text-nokturo-400 hover:text-red transition-colors"
+                >
+                  {t('common.delete')}
+                </button>
+              )}
+              <button type="button" onClick={onClose} className="px-4 py-2 text-sm text-nokturo-600 dark:text-nokturo-400 hover:text-nokturo-900 dark:hover:text-nokturo-100 transition-colors">
+                {t('common.cancel')}
+              </button>
+              <button
+                type="submit"
+                disabled={saving}
+                className="px-5 py-2 text-sm bg-nokturo-900 dark:bg-white dark:text-nokturo-900 text-white font-medium rounded-lg hover:bg-nokturo-800 dark:hover:bg-nokturo-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+              >
+                {saving && <MaterialIcon name="progress_activity" size={16} className="animate-spin shrink-0" />}
+                {t('common.save')}
+              </button>
+            </div>
+          </div>
+        </form>
+      </div>
+    </>
+  );
+}
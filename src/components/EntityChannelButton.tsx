@@ -0,0 +1,48 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useNavigate } from 'react-router-dom';
+import { MaterialIcon } from './icons/MaterialIcon';
+import { useAuthStore } from '../stores/authStore';
+import { useToastStore } from '../stores/toastStore';
+import { CHAT_TEAM_ROLES, openEntityChatRoom, type ChatEntityType } from '../lib/chat';
+
+interface EntityChannelButtonProps {
+  entityType: ChatEntityType;
+  entityId: string;
+  className?: string;
+}
+
+/** Opens the chat channel of a product or production order (created on first use) */
+export function EntityChannelButton({ entityType, entityId, className = '' }: EntityChannelButtonProps) {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const role = useAuthStore((s) => s.user?.role);
+  const addToast = useToastStore((s) => s.addToast);
+  const [opening, setOpening] = useState(false);
+
+  if (!role || !CHAT_TEAM_ROLES.includes(role)) return null;
+
+  const handleOpen = async () => {
+    setOpening(true);
+    try {
+      const roomId = await openEntityChatRoom(entityType, entityId);
+      navigate(`/communication/chat?room=${roomId}`);
+    } catch (e) {
+      addToast((e as Error).message, 'error');
+      setOpening(false);
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleOpen}
+      disabled={opening}
+      className={`p-1.5 text-nokturo-500 dark:text-nokturo-400 hover:text-nokturo-900 dark:hover:text-nokturo-100 transition-colors rounded-lg hover:bg-nokturo-100 dark:hover:bg-nokturo-700 disabled:opacity-50 ${className}`}
+      title={t('chat.openChannel')}
+      aria-label={t('chat.openChannel')}
+    >
+      <MaterialIcon name={opening ? 'progress_activity' : 'forum'} size={20} className={`shrink-0 ${opening ? 'animate-spin' : ''}`} />
+    </button>
+  );
+}
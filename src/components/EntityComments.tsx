@@ -1,218 +1,121 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { useTranslation } from 'react-i18next';
-import { supabase } from '../lib/supabase';
-import { useAuthStore, getUserIdForDb } from '../stores/authStore';
-import { hasPermission, canDeleteAnything } from '../lib/rbac';
+import { useAuthStore } from '../stores/authStore';
+import { canDeleteAnything } from '../lib/rbac';
 import { MaterialIcon } from './icons/MaterialIcon';
 import { SendArrowIcon } from './icons/SendArrowIcon';
 import { DefaultAvatar } from './DefaultAvatar';
 import { renderContentWithMentions } from '../lib/renderMentions';
 import { INPUT_CLASS } from '../lib/inputStyles';
 import { DeleteConfirmModal } from './DeleteConfirmModal';
+import { CommentReactions } from './CommentReactions';
+import { CommentReviewControls, HideResolvedToggle } from './CommentReviewControls';
 import { useMentionSuggestions, MentionDropdown } from './MentionSuggestions';
 import type { MentionProfile } from './MentionSuggestions';
 import { sendMentionNotifications, parseMentionsFromText } from '../lib/sendMentionNotifications';
+import { useComments, useCommentProfiles, useMentionableProfiles } from '../hooks/useComments';
+import {
+  commentAuthorName,
+  deleteComment,
+  editComment,
+  markCommentsRead,
+  postComment,
+  resolveCommentAuthorId,
+  visibleThreads,
+  type Comment,
+  type CommentTarget,
+} from '../lib/comments';
 import { useToastStore } from '../stores/toastStore';
 
-interface ProfileOption {
-  id: string;
-  first_name: string | null;
-  last_name: string | null;
-  full_name: string | null;
+interface EntityCommentsProps {
+  target: CommentTarget;
+  /** Section heading; omitted when the surrounding page already has one */
+  title?: string;
+  canComment: boolean;
+  /** Link in mention notifications */
+  notificationLink: string;
+  /** Empty-state hint, defaults to comments.beFirstEntity */
+  emptyHint?: string;
+  /** Design review: threads can be resolved, marked blocking and assigned */
+  reviewable?: boolean;
 }
 
-// ── Types ─────────────────────────────────────────────────────
-interface Comment {
-  id: string;
-  product_id: string;
-  author_id: string;
-  parent_id: string | null;
-  content: string;
-  created_at: string;
-  updated_at: string;
-  profile?: {
-    full_name?: string;
-    first_name?: string;
-    last_name?: string;
-    avatar_url: string | null;
-  };
-}
-
-interface ProductCommentsProps {
-  productId: string;
-}
-
-// ── Component ─────────────────────────────────────────────────
-export function ProductComments({ productId }: ProductCommentsProps) {
+/** Threaded discussion of a whole entity (un-anchored comments) with replies, reactions and @mentions */
+export function EntityComments({ target, title, canComment, notificationLink, emptyHint, reviewable = false }: EntityCommentsProps) {
   const { t } = useTranslation();
   const user = useAuthStore((s) => s.user);
   const addToast = useToastStore((s) => s.addToast);
-  const canComment = user?.role ? (
-    hasPermission(user.role, 'production.products', 'comment') ||
-    hasPermission(user.role, 'production.sampling', 'comment')
-  ) : false;
   const canDelete = user?.role ? canDeleteAnything(user.role) : false;
 
-  const [comments, setComments] = useState<Comment[]>([]);
-  const [loading, setLoading] = useState(true);
+  const { comments, setComments, loading, addComment, toggleReaction } = useComments<null>({ target, anchorType: null });
+  const profiles = useMentionableProfiles();
+  const allProfiles = useCommentProfiles();
+  const [hideResolved, setHideResolved] = useState(false);
+
   const [newComment, setNewComment] = useState('');
   const [replyTo, setReplyTo] = useState<string | null>(null);
   const [replyContent, setReplyContent] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editContent, setEditContent] = useState('');
   const [sending, setSending] = useState(false);
   const [deleteTarget, setDeleteTarget] = useState<string | null>(null);
   const [commentMenuOpen, setCommentMenuOpen] = useState<string | null>(null);
-  const [profiles, setProfiles] = useState<ProfileOption[]>([]);
   const [taggedUsers, setTaggedUsers] = useState<string[]>([]);
 
   const mention = useMentionSuggestions(newComment, profiles as MentionProfile[]);
   const replyMention = useMentionSuggestions(replyContent, profiles as MentionProfile[]);
 
+  // Opening the discussion counts as reading it
+  useEffect(() => {
+    markCommentsRead(target);
+  }, [target.type, target.id]);
+
   const handleMentionSelect = useCallback((profile: MentionProfile) => {
-    const newValue = mention.applyMention(profile);
-    setNewComment(newValue);
-    if (!taggedUsers.includes(profile.id)) {
-      setTaggedUsers((prev) => {
-        const next = [...prev, profile.id];
-        if (import.meta.env.DEV) console.log('[ProductComments] handleMentionSelect: added', { profileId: profile.id, taggedUsersAfter: next });
-        return next;
-      });
-    }
+    setNewComment(mention.applyMention(profile));
+    setTaggedUsers((prev) => (prev.includes(profile.id) ? prev : [...prev, profile.id]));
     mention.closeDropdown();
-  }, [mention, taggedUsers]);
+  }, [mention]);
 
   const handleReplyMentionSelect = useCallback((profile: MentionProfile) => {
-    const newValue = replyMention.applyMention(profile);
-    setReplyContent(newValue);
-    if (!taggedUsers.includes(profile.id)) {
-      setTaggedUsers((prev) => {
-        const next = [...prev, profile.id];
-        if (import.meta.env.DEV) console.log('[ProductComments] handleReplyMentionSelect: added', { profileId: profile.id, taggedUsersAfter: next });
-        return next;
-      });
-    }
+    setReplyContent(replyMention.applyMention(profile));
+    setTaggedUsers((prev) => (prev.includes(profile.id) ? prev : [...prev, profile.id]));
     replyMention.closeDropdown();
-  }, [replyMention, taggedUsers]);
-
-  const fetchProfiles = useCallback(async () => {
-    const { data } = await supabase
-      .from('profiles')
-      .select('id, first_name, last_name, full_name, avatar_url')
-      .neq('id', user?.id ?? '');
-    setProfiles((data || []) as ProfileOption[]);
-  }, [user?.id]);
-
-  useEffect(() => {
-    fetchProfiles();
-  }, [fetchProfiles]);
-
-  // Close comment menu on outside click
-  useEffect(() => {
-    if (!commentMenuOpen) return;
-    const handle = () => setCommentMenuOpen(null);
-    document.addEventListener('click', handle);
-    return () => document.removeEventListener('click', handle);
-  }, [commentMenuOpen]);
-
-  // ── Fetch comments ──────────────────────────────────────────
-  const fetchComments = useCallback(async () => {
-    setLoading(true);
-
-    const { data } = await supabase
-      .from('product_comments')
-      .select('*, profile:profiles!product_comments_author_id_fkey(full_name, first_name, last_name, avatar_url)')
-      .eq('product_id', productId)
-      .order('created_at', { ascending: true });
-
-    setComments((data || []) as Comment[]);
-    setLoading(false);
-  }, [productId]);
-
-  useEffect(() => {
-    fetchComments();
-  }, [fetchComments]);
-
-  // ── Realtime subscription ─────────────────────────────────────
-  const channelRef = useRef<ReturnType<typeof supabase.channel> | null>(null);
-  useEffect(() => {
-    if (channelRef.current) {
-      supabase.removeChannel(channelRef.current);
-    }
-
-    const channel = supabase
-      .channel(`product-comments-${productId}`)
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'product_comments',
-          filter: `product_id=eq.${productId}`,
-        },
-        async (payload) => {
-          if (payload.eventType === 'INSERT') {
-            const row = payload.new as Comment;
-            const { data: profile } = await supabase
-              .from('profiles')
-              .select('full_name, first_name, last_name, avatar_url')
-              .eq('id', row.author_id)
-              .single();
-            const enriched: Comment = { ...row, profile: profile || { avatar_url: null } };
-            setComments((prev) => (prev.some((c) => c.id === enriched.id) ? prev : [...prev, enriched]));
-          } else if (payload.eventType === 'DELETE') {
-            const oldRow = payload.old as { id: string };
-            setComments((prev) => prev.filter((c) => c.id !== oldRow.id && c.parent_id !== oldRow.id));
-          } else if (payload.eventType === 'UPDATE') {
-            const updated = payload.new as Comment;
-            // Preserve profile from existing comment – real-time payload has no joined data
-            setComments((prev) => prev.map((c) => (c.id === updated.id ? { ...c, ...updated, profile: c.profile } : c)));
-          }
-        }
-      )
-      .subscribe();
-
-    channelRef.current = channel;
-
-    return () => {
-      supabase.removeChannel(channel);
-    };
-  }, [productId]);
+  }, [replyMention]);
 
   // ── Post comment ────────────────────────────────────────────
   const handlePost = async (parentId: string | null = null) => {
-    const content = parentId ? replyContent : newComment;
-    const authorId = getUserIdForDb();
-    if (!content.trim() || !user || !authorId) return;
+    const content = (parentId ? replyContent : newComment).trim();
+    if (!content || !user) return;
+    const authorId = await resolveCommentAuthorId();
+    if (!authorId) {
+      addToast(t('comments.loginRequired'), 'error');
+      return;
+    }
 
     const taggedUsersSnapshot = [...taggedUsers];
-    if (import.meta.env.DEV) console.log('[ProductComments] handlePost SUBMIT – taggedUsers at submit', { taggedUsersSnapshot });
-
     setSending(true);
+    try {
+      const inserted = await postComment<null>({
+        scope: { target, anchorType: null },
+        authorId,
+        content,
+        parentId,
+        taggedUserIds: taggedUsersSnapshot,
+      });
+      addComment(inserted);
 
-    const { error } = await supabase.from('product_comments').insert({
-      product_id: productId,
-      author_id: authorId,
-      parent_id: parentId,
-      content: content.trim(),
-    });
-
-    if (!error) {
-      // Create notifications for tagged users
-      if (import.meta.env.DEV && taggedUsersSnapshot.length === 0) {
-        const parsedNames = parseMentionsFromText(content.trim());
-        if (parsedNames.length) {
-          console.log('[ProductComments] PARSER: mentions in text but taggedUsers empty', { content: content.trim().slice(0, 100), parsedMentionNames: parsedNames });
-        }
+      if (import.meta.env.DEV && taggedUsersSnapshot.length === 0 && parseMentionsFromText(content).length) {
+        console.log('[EntityComments] PARSER: mentions in text but taggedUsers empty', { content: content.slice(0, 100) });
       }
       if (taggedUsersSnapshot.length > 0) {
-        if (import.meta.env.DEV) console.log('[ProductComments] calling sendMentionNotifications', { taggedUsersSnapshot });
-        const authorName = [user.firstName, user.lastName].filter(Boolean).join(' ') || user.name;
         await sendMentionNotifications({
           taggedUserIds: taggedUsersSnapshot,
           authorId,
-          authorName,
-          content: content.trim(),
-          type: 'product_tag',
-          link: `/communication/comments?product=${productId}`,
+          authorName: [user.firstName, user.lastName].filter(Boolean).join(' ') || user.name,
+          content,
+          type: target.type === 'product' ? 'product_tag' : 'comment_tag',
+          link: notificationLink,
+          commentId: inserted.id,
         });
       }
 
@@ -223,16 +126,31 @@ export function ProductComments({ productId }: ProductCommentsProps) {
         setNewComment('');
       }
       setTaggedUsers([]);
-      fetchComments();
+    } catch (e) {
+      addToast((e as Error).message || t('comments.postFailed'), 'error');
     }
     setSending(false);
   };
 
-  // ── Delete comment ──────────────────────────────────────────
+  // ── Edit / delete ───────────────────────────────────────────
+  const handleSaveEdit = async () => {
+    const content = editContent.trim();
+    if (!editingId || !content) return;
+    try {
+      const editedAt = await editComment(editingId, content);
+      setComments((prev) => prev.map((c) => (c.id === editingId ? { ...c, content, edited_at: editedAt } : c)));
+      setEditingId(null);
+      setEditContent('');
+    } catch (e) {
+      addToast((e as Error).message, 'error');
+    }
+  };
+
   const handleDelete = async (id: string) => {
-    const { error } = await supabase.from('product_comments').delete().eq('id', id);
-    if (error) {
-      addToast(error.message || t('common.error'), 'error');
+    try {
+      await deleteComment(id);
+    } catch (e) {
+      addToast((e as Error).message, 'error');
       return;
     }
     setComments((prev) => prev.filter((c) => c.id !== id && c.parent_id !== id));
@@ -240,25 +158,19 @@ export function ProductComments({ productId }: ProductCommentsProps) {
   };
 
   // ── Build threaded tree ─────────────────────────────────────
-  const rootComments = comments.filter((c) => !c.parent_id);
-  const getReplies = (parentId: string) =>
-    comments.filter((c) => c.parent_id === parentId);
+  const rootComments = visibleThreads(comments, reviewable && hideResolved);
+  const resolvedCount = reviewable ? comments.filter((c) => !c.parent_id && c.resolved_at).length : 0;
+  const getReplies = (parentId: string) => comments.filter((c) => c.parent_id === parentId);
 
   // ── Render a single comment ─────────────────────────────────
-  const renderComment = (comment: Comment, isReply = false) => {
-    const name =
-      [comment.profile?.first_name, comment.profile?.last_name]
-        .filter(Boolean)
-        .join(' ') ||
-      comment.profile?.full_name ||
-      'Unknown';
+  const renderComment = (comment: Comment<null>, isReply = false) => {
+    const name = commentAuthorName(comment);
     const isOwn = comment.author_id === user?.id;
     const replies = getReplies(comment.id);
 
     return (
-      <div key={comment.id} className={isReply ? 'ml-8' : ''}>
+      <div key={comment.id} className={`${isReply ? 'ml-8' : ''} ${!isReply && reviewable && comment.resolved_at ? 'opacity-60' : ''}`}>
         <div className="flex items-start gap-3 py-2 group">
-          {/* Avatar */}
           {comment.profile?.avatar_url ? (
             <img
               src={comment.profile.avatar_url}
@@ -271,7 +183,6 @@ export function ProductComments({ productId }: ProductCommentsProps) {
             </div>
           )}
 
-          {/* Content */}
           <div className="flex-1 min-w-0">
             <div className="flex items-baseline gap-2">
               <span className="text-sm font-medium text-nokturo-700 dark:text-nokturo-300">{name}</span>
@@ -282,19 +193,65 @@ export function ProductComments({ productId }: ProductCommentsProps) {
                   hour: '2-digit',
                   minute: '2-digit',
                 })}
+                {comment.edited_at && ` · ${t('comments.edited')}`}
               </span>
             </div>
-            <p className="text-sm text-nokturo-600 dark:text-nokturo-400 leading-relaxed mt-0.5 break-words">
-              {renderContentWithMentions(
-                comment.content,
-                isOwn,
-                [user?.firstName, user?.lastName].filter(Boolean).join(' ') || user?.name || ''
-              )}
-            </p>
+            {editingId === comment.id ? (
+              <div className="flex items-end gap-2 mt-1">
+                <input
+                  type="text"
+                  value={editContent}
+                  onChange={(e) => setEditContent(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') {
+                      e.preventDefault();
+                      handleSaveEdit();
+                    }
+                    if (e.key === 'Escape') setEditingId(null);
+                  }}
+                  className={INPUT_CLASS}
+                  autoFocus
+                />
+                <button
+                  type="button"
+                  onClick={handleSaveEdit}
+                  disabled={!editContent.trim()}
+                  className="p-1.5 text-nokturo-600 dark:text-nokturo-300 hover:text-nokturo-900 dark:hover:text-white disabled:opacity-50"
+                  aria-label={t('common.save')}
+                >
+                  <MaterialIcon name="check" size={16} className="shrink-0" />
+                </button>
+              </div>
+            ) : (
+              <p className="text-sm text-nokturo-600 dark:text-nokturo-400 leading-relaxed mt-0.5 break-words">
+                {renderContentWithMentions(
+                  comment.content,
+                  isOwn,
+                  [user?.firstName, user?.lastName].filter(Boolean).join(' ') || user?.name || ''
+                )}
+              </p>
+            )}
+
+            <CommentReactions
+              reactions={comment.reactions}
+              onToggle={(emoji) => toggleReaction(comment.id, emoji)}
+              readOnly={!canComment}
+            />
+
+            {reviewable && !isReply && (
+              <CommentReviewControls
+                thread={comment}
+                profiles={allProfiles}
+                canReview={canComment}
+                onChange={(review) =>
+                  setComments((prev) => prev.map((c) => (c.id === comment.id ? { ...c, ...review } : c)))
+                }
+              />
+            )}
 
             {/* Actions */}
             <div className="flex items-center gap-2 mt-1 opacity-0 group-hover:opacity-100 transition-opacity">
-              {isOwn && (
+              {(isOwn || canDelete) && (
                 <div className="relative">
                   <button
                     type="button"
@@ -310,6 +267,15 @@ export function ProductComments({ productId }: ProductCommentsProps) {
                     <>
                       <div className="fixed inset-0 z-10" onClick={(e) => { e.stopPropagation(); setCommentMenuOpen(null); }} />
                       <div className="absolute left-0 top-full mt-1 bg-white dark:bg-nokturo-700 rounded-lg shadow-lg py-1 min-w-[100px] z-20" onClick={(e) => e.stopPropagation()}>
+                        {isOwn && (
+                          <button
+                            type="button"
+                            onClick={() => { setEditingId(comment.id); setEditContent(comment.content); setCommentMenuOpen(null); }}
+                            className="w-full px-3 py-1.5 text-left text-xs text-nokturo-700 dark:text-nokturo-200 hover:bg-nokturo-50 dark:hover:bg-nokturo-600"
+                          >
+                            {t('common.edit')}
+                          </button>
+                        )}
                         <button
                           type="button"
                           onClick={() => { setDeleteTarget(comment.id); setCommentMenuOpen(null); }}
@@ -322,20 +288,17 @@ export function ProductComments({ productId }: ProductCommentsProps) {
                   )}
                 </div>
               )}
-              {!isReply && (
+              {!isReply && canComment && (
                 <button
+                  type="button"
                   onClick={() => {
                     if (replyTo === comment.id) {
                       setReplyTo(null);
                       setReplyContent('');
                       setTaggedUsers([]);
                     } else {
-                      const authorName =
-                        [comment.profile?.first_name, comment.profile?.last_name].filter(Boolean).join(' ') ||
-                        comment.profile?.full_name ||
-                        'Unknown';
                       setReplyTo(comment.id);
-                      setReplyContent(`@${authorName} `);
+                      setReplyContent(`@${name} `);
                       setTaggedUsers([comment.author_id]);
                     }
                   }}
@@ -376,11 +339,12 @@ export function ProductComments({ productId }: ProductCommentsProps) {
                       }
                     }}
                     placeholder={t('comments.replyPlaceholder')}
-                    className={`${INPUT_CLASS}`}
+                    className={INPUT_CLASS}
                     autoFocus
                   />
                 </div>
                 <button
+                  type="button"
                   onClick={() => handlePost(comment.id)}
                   disabled={!replyContent.trim() || sending}
                   className="p-1.5 bg-white dark:bg-nokturo-700 text-nokturo-900 dark:text-nokturo-100 rounded hover:bg-nokturo-50 dark:hover:bg-nokturo-600 transition-colors disabled:opacity-50"
@@ -401,9 +365,18 @@ export function ProductComments({ productId }: ProductCommentsProps) {
   // ── Render ──────────────────────────────────────────────────
   return (
     <section>
-      <h4 className="text-heading-5 font-extralight text-nokturo-500 uppercase tracking-wider mb-3">
-        {t('comments.productComments')}
-      </h4>
+      {(title || resolvedCount > 0) && (
+        <div className="flex items-center justify-between gap-2 mb-3">
+          {title && (
+            <h4 className="text-heading-5 font-extralight text-nokturo-500 uppercase tracking-wider">
+              {title}
+            </h4>
+          )}
+          {resolvedCount > 0 && (
+            <HideResolvedToggle hideResolved={hideResolved} onChange={setHideResolved} resolvedCount={resolvedCount} />
+          )}
+        </div>
+      )}
 
       <div className="bg-white dark:bg-nokturo-800 border border-nokturo-200 dark:border-nokturo-700 rounded-lg p-4">
         {loading ? (
@@ -414,7 +387,7 @@ export function ProductComments({ productId }: ProductCommentsProps) {
           <div className="text-center py-6">
             <MaterialIcon name="chat_bubble" size={32} className="text-nokturo-600 mx-auto mb-2 shrink-0" />
             <p className="text-nokturo-500 text-sm">{t('comments.noComments')}</p>
-            <p className="text-nokturo-500 text-xs mt-0.5">{t('comments.beFirst')}</p>
+            <p className="text-nokturo-500 text-xs mt-0.5">{emptyHint ?? t('comments.beFirstEntity')}</p>
           </div>
         ) : (
           <div className="space-y-1 mb-4 max-h-72 overflow-y-auto">
@@ -451,10 +424,11 @@ export function ProductComments({ productId }: ProductCommentsProps) {
                 }
               }}
               placeholder={t('comments.placeholder')}
-              className={`${INPUT_CLASS}`}
+              className={INPUT_CLASS}
             />
           </div>
           <button
+            type="button"
             onClick={() => handlePost(null)}
             disabled={!newComment.trim() || sending}
             className="p-2 bg-white dark:bg-nokturo-700 text-nokturo-900 dark:text-nokturo-100 rounded-lg hover:bg-nokturo-50 dark:hover:bg-nokturo-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed shrink-0"
@@ -469,7 +443,6 @@ export function ProductComments({ productId }: ProductCommentsProps) {
         )}
       </div>
 
-      {/* Delete confirmation */}
       {deleteTarget && (
         <DeleteConfirmModal
           onCancel={() => setDeleteTarget(null)}
@@ -0,0 +1,167 @@
+import { useState, useEffect, useRef } from 'react';
+import { useTranslation } from 'react-i18next';
+import { MaterialIcon } from './icons/MaterialIcon';
+import { INPUT_CLASS, MODAL_HEADING_CLASS } from '../lib/inputStyles';
+import {
+  CURRENCIES,
+  loadRateHistory,
+  parseRatesCsv,
+  rateOn,
+  storeRates,
+  type ExchangeRateRow,
+} from '../lib/currency';
+
+interface ExchangeRatesSlideOverProps {
+  open: boolean;
+  onClose: () => void;
+  /** Called after a CSV import was stored */
+  onImported: (count: number) => void;
+}
+
+export function ExchangeRatesSlideOver({ open, onClose, onImported }: ExchangeRatesSlideOverProps) {
+  const { t } = useTranslation();
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const [date, setDate] = useState(() => new Date().toISOString().slice(0, 10));
+  const [loadingDate, setLoadingDate] = useState(false);
+  const [parsed, setParsed] = useState<{ fileName: string; rows: ExchangeRateRow[]; errors: number[] } | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!open) return;
+    setParsed(null);
+    setError('');
+  }, [open]);
+
+  useEffect(() => {
+    if (!open || !date) return;
+    let cancelled = false;
+    setLoadingDate(true);
+    loadRateHistory(date).finally(() => {
+      if (!cancelled) setLoadingDate(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, date]);
+
+  if (!open) return null;
+
+  const handleFile = async (file: File) => {
+    setError('');
+    const text = await file.text();
+    setParsed({ fileName: file.name, ...parseRatesCsv(text) });
+  };
+
+  const handleImport = async () => {
+    if (!parsed || parsed.rows.length === 0) return;
+    setSaving(true);
+    setError('');
+    const err = await storeRates(parsed.rows, 'import');
+    setSaving(false);
+    if (err) {
+      setError(err);
+      return;
+    }
+    onImported(parsed.rows.length);
+  };
+
+  const labelClass = 'block text-sm text-nokturo-700 dark:text-nokturo-400 mb-1.5';
+
+  return (
+    <>
+      <div className="fixed inset-0 z-40 bg-overlay backdrop-blur-sm" onClick={onClose} />
+      <div className="fixed inset-y-0 right-0 z-50 w-full sm:max-w-lg bg-nokturo-900 shadow-2xl flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-nokturo-200 dark:border-nokturo-600 shrink-0">
+          <h3 className={MODAL_HEADING_CLASS}>{t('exchangeRates.title')}</h3>
+          <button
+            onClick={onClose}
+            className="p-1.5 text-nokturo-500 dark:text-nokturo-400 hover:text-nokturo-900 dark:hover:text-nokturo-100 transition-colors rounded-lg hover:bg-nokturo-100 dark:hover:bg-nokturo-700"
+          >
+            <MaterialIcon name="close" size={20} className="shrink-0" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-6">
+          {/* Rates valid on a date */}
+          <div>
+            <label className={labelClass}>{t('exchangeRates.ratesOn')}</label>
+            <input type="date" value={date} onChange={(e) => setDate(e.target.value)} className={INPUT_CLASS} />
+            <table className="w-full text-sm mt-3">
+              <tbody>
+                {CURRENCIES.filter((c) => c !== 'CZK').map((c) => (
+                  <tr key={c} className="border-t border-nokturo-700">
+                    <td className="py-1.5 text-nokturo-300">1 {c}</td>
+                    <td className="py-1.5 text-right tabular-nums text-white">
+                      {loadingDate ? '…' : `${rateOn(c, date).toFixed(3)} CZK`}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="text-xs text-nokturo-500 mt-2">{t('exchangeRates.ratesHint')}</p>
+          </div>
+
+          {/* CSV import */}
+          <div>
+            <label className={labelClass}>{t('exchangeRates.import')}</label>
+            <p className="text-xs text-nokturo-500 mb-2">{t('exchangeRates.importHint')}</p>
+            <input
+              ref={fileRef}
+              type="file"
+              accept=".csv,.txt,text/csv"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleFile(file);
+                e.target.value = '';
+              }}
+            />
+            <button
+              type="button"
+              onClick={() => fileRef.current?.click()}
+              className="inline-flex items-center gap-2 px-3 py-2 text-sm text-nokturo-200 bg-white/10 hover:bg-white/15 rounded-[6px] transition-colors"
+            >
+              <MaterialIcon name="upload_file" size={16} className="shrink-0" />
+              {t('exchangeRates.chooseFile')}
+            </button>
+            {parsed && (
+              <div className="mt-3 text-sm space-y-1">
+                <p className="text-nokturo-300">
+                  {parsed.fileName}: {t('exchangeRates.rowsParsed', { count: parsed.rows.length })}
+                </p>
+                {parsed.errors.length > 0 && (
+                  <p className="text-red-fg">
+                    {t('exchangeRates.rowsSkipped', { lines: parsed.errors.slice(0, 10).join(', ') })}
+                    {parsed.errors.length > 10 && ' …'}
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="relative z-10 flex flex-col gap-3 px-6 py-4 shrink-0 mt-auto bg-elevated">
+          {error && (
+            <div className="text-red dark:text-red-fg text-sm bg-red/10 dark:bg-red/20 rounded-lg px-3 py-2 shrink-0">{error}</div>
+          )}
+          <div className="flex items-center justify-end gap-3">
+            <button type="button" onClick={onClose} className="px-4 py-2 text-sm text-nokturo-600 dark:text-nokturo-400 hover:text-nokturo-900 dark:hover:text-nokturo-100 transition-colors">
+              {t('common.cancel')}
+            </button>
+            <button
+              type="button"
+              onClick={handleImport}
+              disabled={saving || !parsed || parsed.rows.length === 0}
+              className="px-5 py-2 text-sm bg-nokturo-900 dark:bg-white dark:text-nokturo-900 text-white font-medium rounded-lg hover:bg-nokturo-800 dark:hover:bg-nokturo-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+            >
+              {saving && <MaterialIcon name="progress_activity" size={16} className="animate-spin shrink-0" />}
+              {t('exchangeRates.importRows', { count: parsed?.rows.length ?? 0 })}
+            </button>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,159 @@
+import { useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { MaterialIcon } from './icons/MaterialIcon';
+import type { ImagePin, NumberedPin } from '../lib/comments';
+
+/** Drags shorter than this (percent of the image) place a point instead of a region */
+const MIN_REGION = 1.5;
+
+const round = (n: number) => Math.round(n * 10) / 10;
+const clamp = (n: number) => Math.min(100, Math.max(0, n));
+
+interface ImagePinLayerProps {
+  pins: NumberedPin[];
+  activePinId: string | null;
+  onSelectPin: (commentId: string | null) => void;
+  /** Shows the "add pin" toggle */
+  canPin: boolean;
+  placing: boolean;
+  onPlacingChange: (placing: boolean) => void;
+  /** Pin drawn but not yet commented */
+  pending: ImagePin | null;
+  onPlace: (pin: ImagePin) => void;
+}
+
+/**
+ * Numbered pins and regions over an image. Must sit inside a `relative` wrapper that has
+ * exactly the size of the rendered image – positions are percentages of that box.
+ */
+export function ImagePinLayer({
+  pins,
+  activePinId,
+  onSelectPin,
+  canPin,
+  placing,
+  onPlacingChange,
+  pending,
+  onPlace,
+}: ImagePinLayerProps) {
+  const { t } = useTranslation();
+  const layerRef = useRef<HTMLDivElement>(null);
+  const [drag, setDrag] = useState<{ x0: number; y0: number; x1: number; y1: number } | null>(null);
+
+  const toPercent = (e: React.PointerEvent) => {
+    const rect = layerRef.current!.getBoundingClientRect();
+    return {
+      x: clamp(((e.clientX - rect.left) / rect.width) * 100),
+      y: clamp(((e.clientY - rect.top) / rect.height) * 100),
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (!placing) return;
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const { x, y } = toPercent(e);
+    setDrag({ x0: x, y0: y, x1: x, y1: y });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!drag) return;
+    const { x, y } = toPercent(e);
+    setDrag({ ...drag, x1: x, y1: y });
+  };
+
+  const handlePointerUp = () => {
+    if (!drag) return;
+    const w = Math.abs(drag.x1 - drag.x0);
+    const h = Math.abs(drag.y1 - drag.y0);
+    onPlace(
+      w < MIN_REGION && h < MIN_REGION
+        ? { x: round(drag.x0), y: round(drag.y0) }
+        : { x: round(Math.min(drag.x0, drag.x1)), y: round(Math.min(drag.y0, drag.y1)), w: round(w), h: round(h) }
+    );
+    setDrag(null);
+  };
+
+  const draft: ImagePin | null = drag
+    ? {
+        x: Math.min(drag.x0, drag.x1),
+        y: Math.min(drag.y0, drag.y1),
+        w: Math.abs(drag.x1 - drag.x0),
+        h: Math.abs(drag.y1 - drag.y0),
+      }
+    : pending;
+
+  const renderRegion = (pin: ImagePin, className: string) =>
+    pin.w && pin.h ? (
+      <div
+        className={`absolute rounded-sm pointer-events-none ${className}`}
+        style={{ left: `${pin.x}%`, top: `${pin.y}%`, width: `${pin.w}%`, height: `${pin.h}%` }}
+      />
+    ) : null;
+
+  return (
+    <div
+      ref={layerRef}
+      className={`absolute inset-0 select-none ${placing ? 'cursor-crosshair' : 'pointer-events-none'}`}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onClick={(e) => e.stopPropagation()}
+    >
+      {pins.map((pin) => {
+        const active = pin.commentId === activePinId;
+        return (
+          <div key={pin.commentId} className={pin.resolved && !active ? 'opacity-50' : ''}>
+            {renderRegion(pin, active ? 'border-2 border-[#FFDD00] bg-[#FFDD00]/15' : 'border-2 border-white/90 shadow-[0_0_0_1px_rgba(0,0,0,0.4)]')}
+            <button
+              type="button"
+              onClick={(e) => {
+                e.stopPropagation();
+                onSelectPin(active ? null : pin.commentId);
+              }}
+              className={`absolute -translate-x-1/2 -translate-y-1/2 size-6 rounded-full text-[11px] font-semibold flex items-center justify-center shadow pointer-events-auto transition-transform hover:scale-110 ${
+                active ? 'bg-[#FFDD00] text-black scale-110' : 'bg-nokturo-900 text-white ring-2 ring-white'
+              }`}
+              style={{ left: `${pin.x}%`, top: `${pin.y}%` }}
+              aria-label={t('comments.pinNumber', { number: pin.number })}
+            >
+              {pin.number}
+            </button>
+          </div>
+        );
+      })}
+
+      {draft && (
+        <>
+          {renderRegion(draft, 'border-2 border-dashed border-[#FFDD00] bg-[#FFDD00]/10')}
+          {!drag && (
+            <div
+              className="absolute -translate-x-1/2 -translate-y-1/2 size-6 rounded-full bg-[#FFDD00] text-black flex items-center justify-center shadow pointer-events-none"
+              style={{ left: `${draft.x}%`, top: `${draft.y}%` }}
+            >
+              <MaterialIcon name="add" size={14} className="shrink-0" />
+            </div>
+          )}
+        </>
+      )}
+
+      {canPin && (
+        <button
+          type="button"
+          onPointerDown={(e) => e.stopPropagation()}
+          onClick={(e) => {
+            e.stopPropagation();
+            onPlacingChange(!placing);
+          }}
+          className={`absolute bottom-2 right-2 inline-flex items-center gap-1 h-8 px-2.5 rounded-[6px] text-xs font-medium shadow pointer-events-auto transition-colors ${
+            placing ? 'bg-[#FFDD00] text-black' : 'bg-nokturo-900/80 text-white hover:bg-nokturo-900'
+          }`}
+          title={placing ? t('comments.pinHint') : undefined}
+        >
+          <MaterialIcon name={placing ? 'close' : 'add_location_alt'} size={14} className="shrink-0" />
+          {placing ? t('common.cancel') : t('comments.addPin')}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+import { ean13DataUrl, SAMPLE_EAN, type LabelBarcodeArea } from '../lib/barcodes';
+
+interface LabelArtworkProps {
+  designUrl: string | null;
+  widthMm: number;
+  heightMm: number;
+  barcodeArea: LabelBarcodeArea;
+  /** EAN printed in the barcode area – defaults to a sample code */
+  ean?: string;
+  className?: string;
+}
+
+/** Label design at its real proportions with the barcode element placed in its area */
+export function LabelArtwork({ designUrl, widthMm, heightMm, barcodeArea, ean = SAMPLE_EAN, className = '' }: LabelArtworkProps) {
+  const pct = (mm: number, of: number) => `${(mm / of) * 100}%`;
+  return (
+    <div
+      className={`relative bg-white overflow-hidden ${className}`}
+      style={{ aspectRatio: `${widthMm} / ${heightMm}` }}
+    >
+      {designUrl && <img src={designUrl} alt="" className="absolute inset-0 w-full h-full object-fill" />}
+      <img
+        src={ean13DataUrl(ean)}
+        alt={ean}
+        className="absolute object-fill"
+        style={{
+          left: pct(barcodeArea.x_mm, widthMm),
+          top: pct(barcodeArea.y_mm, heightMm),
+          width: pct(barcodeArea.width_mm, widthMm),
+          height: pct(barcodeArea.height_mm, heightMm),
+        }}
+      />
+    </div>
+  );
+}
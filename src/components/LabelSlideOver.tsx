@@ -14,6 +14,11 @@ import {
 import { INPUT_CLASS, MODAL_HEADING_CLASS } from '../lib/inputStyles';
 import { useIsMobile } from '../hooks/useIsMobile';
 import { useDropdownPosition } from '../hooks/useDropdownPosition';
+import { EntityComments } from './EntityComments';
+import { canCommentOn } from '../lib/comments';
+import { defaultBarcodeArea, downloadBlob, labelArtworkPng, SAMPLE_EAN, type LabelBarcodeArea } from '../lib/barcodes';
+import { LabelArtwork } from './LabelArtwork';
+import { SelectField } from './SelectField';
 
 // ── Types shared with LabelsPage ─────────────────────────
 export interface Label {
@@ -23,6 +28,7 @@ export interface Label {
   height_mm: number | null;
   width_mm: number | null;
   design_url: string | null;
+  barcode_area: LabelBarcodeArea | null;
   material_id: string | null;
   created_by: string | null;
   created_at: string;
@@ -44,6 +50,21 @@ const emptyForm: FormData = {
   width_mm: '',
 };
 
+/** Assigned EAN of a unit whose product uses the label */
+interface UnitBarcode {
+  ean: string;
+  size: string | null;
+  product: { name: string } | null;
+  variant: { name: string } | null;
+}
+
+const BARCODE_AREA_FIELDS: { key: keyof LabelBarcodeArea; labelKey: string }[] = [
+  { key: 'x_mm', labelKey: 'labels.barcodeX' },
+  { key: 'y_mm', labelKey: 'labels.barcodeY' },
+  { key: 'width_mm', labelKey: 'labels.barcodeWidth' },
+  { key: 'height_mm', labelKey: 'labels.barcodeHeight' },
+];
+
 // ── Props ────────────────────────────────────────────────────
 interface LabelSlideOverProps {
   open: boolean;
@@ -70,12 +91,16 @@ export function LabelSlideOver({
   onDuplicate,
 }: LabelSlideOverProps) {
   const { t } = useTranslation();
+  const role = useAuthStore((s) => s.user?.role);
   const isMobile = useIsMobile();
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const [form, setForm] = useState<FormData>(emptyForm);
   const [designFile, setDesignFile] = useState<File | null>(null);
   const [designPreview, setDesignPreview] = useState<string | null>(null);
+  const [barcodeArea, setBarcodeArea] = useState<LabelBarcodeArea | null>(null);
+  const [unitBarcodes, setUnitBarcodes] = useState<UnitBarcode[]>([]);
+  const [previewEan, setPreviewEan] = useState(SAMPLE_EAN);
   const [saving, setSaving] = useState(false);
   const [uploading, setUploading] = useState(false);
   const [error, setError] = useState('');
@@ -98,6 +123,7 @@ export function LabelSlideOver({
         width_mm: label.width_mm != null ? label.width_mm.toString() : '',
       });
       setDesignPreview(label.design_url || null);
+      setBarcodeArea(label.barcode_area ?? null);
     } else {
       const defaultTyp = typOptions[0]?.name ?? '';
       setForm({
@@ -105,11 +131,40 @@ export function LabelSlideOver({
         typ: defaultTyp,
       });
       setDesignPreview(null);
+      setBarcodeArea(null);
     }
     setDesignFile(null);
+    setPreviewEan(SAMPLE_EAN);
     setError('');
   }, [label, open, typOptions]);
 
+  // EANs of the units whose product (or variant) uses this label – previewed in the barcode area
+  useEffect(() => {
+    setUnitBarcodes([]);
+    if (!open || !label?.id) return;
+    let cancelled = false;
+    (async () => {
+      const { data: links } = await supabase.from('product_labels').select('product_id, variant_id').eq('label_id', label.id);
+      const productIds = [...new Set((links ?? []).map((l) => l.product_id as string))];
+      if (productIds.length === 0) return;
+      const { data } = await supabase
+        .from('product_barcodes')
+        .select('ean, size, product_id, variant_id, product:products (name), variant:product_variants (name)')
+        .in('product_id', productIds)
+        .order('ean');
+      if (cancelled) return;
+      const rows = (data ?? []) as unknown as (UnitBarcode & { product_id: string; variant_id: string | null })[];
+      setUnitBarcodes(
+        rows.filter((r) =>
+          (links ?? []).some((l) => l.product_id === r.product_id && (!l.variant_id || l.variant_id === r.variant_id))
+        )
+      );
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [label?.id, open]);
+
   const handleChange = (field: keyof FormData, value: string) => {
     setForm((prev) => ({ ...prev, [field]: value }));
   };
@@ -121,6 +176,22 @@ export function LabelSlideOver({
     setDesignPreview(URL.createObjectURL(file));
   };
 
+  const labelWidth = parseFloat(form.width_mm) || 0;
+  const labelHeight = parseFloat(form.height_mm) || 0;
+
+  const setBarcodeField = (key: keyof LabelBarcodeArea, value: string) => {
+    setBarcodeArea((prev) => (prev ? { ...prev, [key]: Math.max(0, parseFloat(value) || 0) } : prev));
+  };
+
+  const handleDownloadArtwork = async () => {
+    if (!barcodeArea) return;
+    const blob = await labelArtworkPng(
+      { design_url: designPreview, width_mm: labelWidth, height_mm: labelHeight, barcode_area: barcodeArea },
+      previewEan
+    );
+    if (blob) downloadBlob(blob, `${form.name || 'label'}-${previewEan}.png`);
+  };
+
   const uploadDesign = async (file: File): Promise<string | null> => {
     setUploading(true);
     const ext = file.name.split('.').pop();
@@ -179,6 +250,7 @@ export function LabelSlideOver({
       height_mm: form.height_mm ? parseFloat(form.height_mm) : null,
       width_mm: form.width_mm ? parseFloat(form.width_mm) : null,
       design_url: designUrl,
+      barcode_area: barcodeArea,
       material_id: null,
       created_by: label ? label.created_by : getUserIdForDb(),
     };
@@ -418,11 +490,99 @@ export function LabelSlideOver({
             />
           </div>
 
+          {/* ── Barcode element (EAN-13 of the unit) ─────────── */}
+          <div>
+            <div className="flex items-center justify-between mb-1.5">
+              <label className="block text-sm text-nokturo-700 dark:text-nokturo-400">{t('labels.barcode')}</label>
+              {barcodeArea ? (
+                <button
+                  type="button"
+                  onClick={() => setBarcodeArea(null)}
+                  className="text-xs text-nokturo-600 dark:text-nokturo-400 hover:text-nokturo-900 dark:hover:text-nokturo-100 transition-colors"
+                >
+                  {t('labels.removeBarcode')}
+                </button>
+              ) : (
+                <button
+                  type="button"
+                  disabled={!labelWidth || !labelHeight}
+                  onClick={() => setBarcodeArea(defaultBarcodeArea(labelWidth, labelHeight))}
+                  className="inline-flex items-center gap-1 text-xs text-nokturo-600 dark:text-nokturo-400 hover:text-nokturo-900 dark:hover:text-nokturo-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <MaterialIcon name="barcode" size={14} className="shrink-0" />
+                  {t('labels.addBarcode')}
+                </button>
+              )}
+            </div>
+            {!barcodeArea && (!labelWidth || !labelHeight) && (
+              <p className="text-xs text-nokturo-500 dark:text-nokturo-400">{t('labels.barcodeNeedsSize')}</p>
+            )}
+            {barcodeArea && labelWidth > 0 && labelHeight > 0 && (
+              <div className="space-y-3">
+                <div className="grid grid-cols-4 gap-2">
+                  {BARCODE_AREA_FIELDS.map((f) => (
+                    <div key={f.key}>
+                      <label className="block text-xs text-nokturo-500 dark:text-nokturo-400 mb-1">{t(f.labelKey)}</label>
+                      <input
+                        type="number"
+                        step="0.1"
+                        min="0"
+                        value={barcodeArea[f.key]}
+                        onChange={(e) => setBarcodeField(f.key, e.target.value)}
+                        className={inputClass}
+                      />
+                    </div>
+                  ))}
+                </div>
+                <div className="mx-auto" style={{ maxWidth: (320 * labelWidth) / labelHeight }}>
+                  <LabelArtwork
+                    designUrl={designPreview}
+                    widthMm={labelWidth}
+                    heightMm={labelHeight}
+                    barcodeArea={barcodeArea}
+                    ean={previewEan}
+                    className="w-full rounded-lg"
+                  />
+                </div>
+                <div className="flex items-center gap-3">
+                  <SelectField value={previewEan} onChange={(e) => setPreviewEan(e.target.value)}>
+                    <option value={SAMPLE_EAN}>{t('labels.sampleBarcode')}</option>
+                    {unitBarcodes.map((u) => (
+                      <option key={u.ean} value={u.ean}>
+                        {[u.product?.name, u.variant?.name, u.size, u.ean].filter(Boolean).join(' · ')}
+                      </option>
+                    ))}
+                  </SelectField>
+                  <button
+                    type="button"
+                    onClick={handleDownloadArtwork}
+                    className="inline-flex items-center gap-1 text-sm text-nokturo-600 dark:text-nokturo-400 hover:text-nokturo-900 dark:hover:text-nokturo-100 transition-colors shrink-0"
+                  >
+                    <MaterialIcon name="download" size={16} className="shrink-0" />
+                    PNG
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+
           {error && (
             <div className="text-red dark:text-red-fg text-sm bg-red/10 dark:bg-red/20 rounded-lg px-4 py-2.5 font-mono whitespace-pre-wrap break-words">
               {error}
             </div>
           )}
+
+          {label?.id && (
+            <>
+              <hr className="border-nokturo-200 dark:border-nokturo-600" />
+              <EntityComments
+                target={{ type: 'label', id: label.id }}
+                title={t('comments.title')}
+                canComment={canCommentOn(role, 'label')}
+                notificationLink={`/production/labels?label=${label.id}`}
+              />
+            </>
+          )}
         </form>
 
         <div className="flex items-center justify-end gap-3 px-6 py-4 border-t border-nokturo-200 dark:border-nokturo-600 shrink-0">
@@ -10,6 +10,14 @@ import { MODAL_HEADING_CLASS } from '../lib/inputStyles';
 import type { Material } from './MaterialSlideOver';
 import { useIsMobile } from '../hooks/useIsMobile';
 import { useDropdownPosition } from '../hooks/useDropdownPosition';
+import { StockMovements } from './StockMovements';
+import { PurchasePriceHistory } from './AccountingOrderItems';
+import { isLowStock } from '../lib/reorder';
+import { Certificates } from './Certificates';
+import { EntityComments } from './EntityComments';
+import { canCommentOn } from '../lib/comments';
+import { useAuthStore } from '../stores/authStore';
+import { certificateLabel, fetchCertificates, validCertificates, type Certificate } from '../lib/certificates';
 
 interface Supplier {
   id: string;
@@ -21,6 +29,8 @@ interface ProductSummary {
   name: string;
 }
 
+type DetailTab = 'details' | 'movements' | 'purchases' | 'certificates' | 'comments';
+
 interface MaterialDetailSlideOverProps {
   open: boolean;
   material: Material | null;
@@ -29,6 +39,8 @@ interface MaterialDetailSlideOverProps {
   onDuplicate?: (material: Material) => void;
   onDelete?: (id: string) => void;
   canDelete?: boolean;
+  /** Called after a stock movement was booked (stock_qty changed) */
+  onStockChanged?: () => void;
 }
 
 export function MaterialDetailSlideOver({
@@ -39,12 +51,16 @@ export function MaterialDetailSlideOver({
   onDuplicate,
   onDelete,
   canDelete = false,
+  onStockChanged,
 }: MaterialDetailSlideOverProps) {
   const { t } = useTranslation();
   const isMobile = useIsMobile();
+  const role = useAuthStore((s) => s.user?.role);
   const [supplier, setSupplier] = useState<Supplier | null>(null);
   const [targetedProducts, setTargetedProducts] = useState<ProductSummary[]>([]);
+  const [certificates, setCertificates] = useState<Certificate[]>([]);
   const [menuOpen, setMenuOpen] = useState(false);
+  const [tab, setTab] = useState<DetailTab>('details');
   const menuTriggerRef = useRef<HTMLButtonElement>(null);
   const menuPosition = useDropdownPosition({
     open: menuOpen,
@@ -55,6 +71,10 @@ export function MaterialDetailSlideOver({
     offset: 4,
   });
 
+  useEffect(() => {
+    if (open) setTab('details');
+  }, [open, material?.id]);
+
   useEffect(() => {
     if (!open || !material) return;
 
@@ -80,6 +100,8 @@ export function MaterialDetailSlideOver({
       } else {
         setTargetedProducts([]);
       }
+
+      setCertificates(await fetchCertificates({ kind: 'material', id: material.id }));
     };
 
     loadRelated();
@@ -87,6 +109,8 @@ export function MaterialDetailSlideOver({
 
   if (!open || !material) return null;
 
+  const validCerts = validCertificates(certificates);
+
   const compRows = material.parameters?.composition_rows as { pct: number; fiber: string }[] | undefined;
   const compositionDisplay =
     compRows && compRows.length > 0
@@ -110,9 +134,23 @@ export function MaterialDetailSlideOver({
       <div className="fixed inset-y-0 right-0 z-50 w-full sm:max-w-lg bg-nokturo-900 shadow-2xl flex flex-col">
         {/* Header */}
         <div className="flex items-center justify-between px-6 py-4 border-b border-nokturo-200 dark:border-nokturo-600 shrink-0">
-          <h3 className={MODAL_HEADING_CLASS}>
-            {material.name}
-          </h3>
+          <div className="flex items-center gap-2 min-w-0">
+            <h3 className={MODAL_HEADING_CLASS}>
+              {material.name}
+            </h3>
+            {/* Compliance badge – at least one certificate in force */}
+            {validCerts.length > 0 && (
+              <button
+                type="button"
+                onClick={() => setTab('certificates')}
+                title={validCerts.map((c) => certificateLabel(c)).join(', ')}
+                className="inline-flex items-center gap-1 shrink-0 text-[11px] font-medium px-2 py-0.5 rounded-[6px] bg-green text-green-fg"
+              >
+                <MaterialIcon name="verified" size={14} className="shrink-0" />
+                {t('certificates.certified')}
+              </button>
+            )}
+          </div>
           <div className="flex items-center gap-2">
             {!isMobile && (
               <div className="relative">
@@ -176,7 +214,55 @@ export function MaterialDetailSlideOver({
           </div>
         </div>
 
-        {/* Scrollable content */}
+        {/* Tabs */}
+        <div className="flex gap-1 px-6 border-b border-nokturo-200 dark:border-nokturo-600 shrink-0">
+          {(['details', 'movements', 'purchases', 'certificates', 'comments'] as DetailTab[]).map((key) => (
+            <button
+              key={key}
+              onClick={() => setTab(key)}
+              className={`px-4 py-2.5 text-sm font-medium transition-colors relative ${
+                tab === key
+                  ? 'text-nokturo-900 dark:text-nokturo-100'
+                  : 'text-nokturo-600 dark:text-nokturo-400 hover:text-nokturo-700 dark:hover:text-nokturo-300'
+              }`}
+            >
+              {key === 'certificates' ? t('certificates.title') : key === 'comments' ? t('comments.title') : t(`stock.tabs.${key}`)}
+              {tab === key && (
+                <span className="absolute bottom-0 left-0 right-0 h-0.5 bg-nokturo-900 dark:bg-nokturo-100 rounded-full" />
+              )}
+            </button>
+          ))}
+        </div>
+
+        {tab === 'comments' ? (
+          <div className="flex-1 overflow-y-auto px-6 py-6">
+            <EntityComments
+              target={{ type: 'material', id: material.id }}
+              canComment={canCommentOn(role, 'material')}
+              notificationLink={`/production/materials?material=${material.id}`}
+            />
+          </div>
+        ) : tab === 'certificates' ? (
+          <div className="flex-1 overflow-y-auto px-6 py-6">
+            <Certificates owner={{ kind: 'material', id: material.id }} onChanged={setCertificates} />
+          </div>
+        ) : tab === 'purchases' ? (
+          <div className="flex-1 overflow-y-auto px-6 py-6">
+            <PurchasePriceHistory
+              item={{ kind: 'material', id: material.id }}
+              unitLabel={t(`materials.units.${material.unit}`)}
+            />
+          </div>
+        ) : tab === 'movements' ? (
+          <div className="flex-1 overflow-y-auto px-6 py-6">
+            <StockMovements
+              item={{ kind: 'material', id: material.id }}
+              unitLabel={t(`materials.units.${material.unit}`)}
+              onChanged={onStockChanged}
+            />
+          </div>
+        ) : (
+        /* Scrollable content */
         <div className="flex-1 overflow-y-auto px-6 py-6 space-y-6">
           {/* Image */}
           <div>
@@ -266,9 +352,15 @@ export function MaterialDetailSlideOver({
               <label className="block text-[14px] font-normal text-nokturo-700 dark:text-nokturo-400 mb-2 opacity-70">
                 {t('materials.stockQty')}
               </label>
-              <p className="text-base font-medium text-nokturo-900 dark:text-nokturo-100">
+              <p className={`text-base font-medium ${isLowStock(material) ? 'text-red' : 'text-nokturo-900 dark:text-nokturo-100'}`}>
                 {fmtStock(material.stock_qty, material.unit)}
               </p>
+              {material.reorder_point != null && (
+                <p className="text-xs text-nokturo-500 mt-1">
+                  {t('reorder.reorderPoint')}: {fmtStock(Number(material.reorder_point), material.unit)}
+                  {material.reorder_qty != null && ` · ${t('reorder.reorderQty')}: ${fmtStock(Number(material.reorder_qty), material.unit)}`}
+                </p>
+              )}
             </div>
             <div>
               <label className="block text-[14px] font-normal text-nokturo-700 dark:text-nokturo-400 mb-2 opacity-70">
@@ -333,6 +425,7 @@ export function MaterialDetailSlideOver({
           )}
 
         </div>
+        )}
       </div>
     </>
   );
@@ -11,6 +11,7 @@ import { FilterChevronIcon } from './FilterSelect';
 import type { Supplier } from './SupplierSlideOver';
 import { CURRENCIES } from '../lib/currency';
 import { INPUT_CLASS, MODAL_HEADING_CLASS } from '../lib/inputStyles';
+import { bookStockCorrection } from '../lib/stockLedger';
 
 // ── Types shared with MaterialsPage ──────────────────────────
 export interface Material {
@@ -20,6 +21,8 @@ export interface Material {
   supplier_id: string | null;
   unit: 'm' | 'pcs' | 'kg' | 'yard';
   stock_qty: number;
+  reorder_point: number | null;
+  reorder_qty: number | null;
   price_per_unit: number;
   currency: string;
   color: string | null;
@@ -60,6 +63,8 @@ interface FormData {
   description: string;
   unit: string;
   stock_qty: string;
+  reorder_point: string;
+  reorder_qty: string;
   price_per_unit: string;
   currency: string;
   color: string;
@@ -75,6 +80,8 @@ const emptyForm: FormData = {
   description: '',
   unit: 'm',
   stock_qty: '0',
+  reorder_point: '',
+  reorder_qty: '',
   price_per_unit: '0',
   currency: 'EUR',
   color: '',
@@ -211,6 +218,8 @@ export function MaterialSlideOver({
         description: material.description || '',
         unit: material.unit,
         stock_qty: material.stock_qty.toString(),
+        reorder_point: material.reorder_point?.toString() ?? '',
+        reorder_qty: material.reorder_qty?.toString() ?? '',
         price_per_unit: material.price_per_unit.toString(),
         currency,
         color: material.color || '',
@@ -423,9 +432,10 @@ export function MaterialSlideOver({
       name: form.name,
       description: form.description || null,
       unit: form.unit,
-      stock_qty: parseFloat(form.stock_qty) || 0,
       price_per_unit: parseFloat(form.price_per_unit) || 0,
       currency: form.currency,
+      reorder_point: form.reorder_point.trim() ? parseFloat(form.reorder_point) : null,
+      reorder_qty: form.reorder_qty.trim() ? parseFloat(form.reorder_qty) : null,
       color: form.color || null,
       composition: compositionDisplay,
       width_cm: form.width_cm ? parseFloat(form.width_cm) : null,
@@ -447,14 +457,26 @@ export function MaterialSlideOver({
     };
 
     const result = material
-      ? await supabase.from('materials').update(record).eq('id', material.id)
-      : await supabase.from('materials').insert(record);
+      ? await supabase.from('materials').update(record).eq('id', material.id).select('id').single()
+      : await supabase.from('materials').insert(record).select('id').single();
 
     if (result.error) {
       setError(result.error.message);
       return;
     }
 
+    // On-hand quantity is derived from the ledger – book the difference as an adjustment
+    const stockErr = await bookStockCorrection(
+      { kind: 'material', id: result.data.id },
+      material?.stock_qty ?? 0,
+      parseFloat(form.stock_qty) || 0,
+      material ? t('stock.formCorrection') : t('stock.openingBalance'),
+    );
+    if (stockErr) {
+      setError(stockErr);
+      return;
+    }
+
     onSaved();
     } catch (err) {
       const msg = err instanceof Error ? err.message : String(err);
@@ -839,6 +861,37 @@ export function MaterialSlideOver({
             </div>
           </div>
 
+          {/* ── Reorder point + quantity ─────────────────── */}
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm text-nokturo-700 dark:text-nokturo-400 mb-1.5">
+                {t('reorder.reorderPoint')}
+              </label>
+              <input
+                type="number"
+                step="0.01"
+                min="0"
+                value={form.reorder_point}
+                onChange={(e) => handleChange('reorder_point', e.target.value)}
+                placeholder={t('reorder.notTracked')}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-nokturo-700 dark:text-nokturo-400 mb-1.5">
+                {t('reorder.reorderQty')}
+              </label>
+              <input
+                type="number"
+                step="0.01"
+                min="0"
+                value={form.reorder_qty}
+                onChange={(e) => handleChange('reorder_qty', e.target.value)}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
           {/* ── Price + Currency ─────────────────────────── */}
           <div className="grid grid-cols-2 gap-3">
             <div>
@@ -0,0 +1,358 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Link } from 'react-router-dom';
+import { supabase } from '../lib/supabase';
+import { useAuthStore, getUserIdForDb } from '../stores/authStore';
+import { MaterialIcon } from './icons/MaterialIcon';
+import { INPUT_CLASS, TEXTAREA_CLASS, MODAL_HEADING_CLASS } from '../lib/inputStyles';
+import { createNotification } from './NotificationCenter';
+import type { TaskProfile } from './TaskSlideOver';
+import type { ScheduledMilestone } from '../lib/criticalPath';
+
+interface FormData {
+  due_date: string;
+  done: boolean;
+  completed_at: string;
+  notes: string;
+  create_task: boolean;
+  task_title: string;
+  assignee_ids: string[];
+}
+
+interface MilestoneSlideOverProps {
+  open: boolean;
+  product: { id: string; name: string } | null;
+  milestone: ScheduledMilestone | null;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+/**
+ * One critical-path milestone of a product: manual date (empty = derived from lead times),
+ * completion, notes, and a task with assignees spawned from it.
+ */
+export function MilestoneSlideOver({ open, product, milestone, onClose, onSaved }: MilestoneSlideOverProps) {
+  const { t } = useTranslation();
+  const user = useAuthStore((s) => s.user);
+  const isFounder = user?.role === 'founder';
+
+  const [form, setForm] = useState<FormData>({
+    due_date: '',
+    done: false,
+    completed_at: '',
+    notes: '',
+    create_task: false,
+    task_title: '',
+    assignee_ids: [],
+  });
+  const [profiles, setProfiles] = useState<TaskProfile[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!open || !isFounder) return;
+    supabase
+      .from('profiles')
+      .select('id, first_name, last_name, full_name, avatar_url, role')
+      .neq('role', 'founder')
+      .order('first_name')
+      .then(({ data }) => setProfiles((data as TaskProfile[]) || []));
+  }, [open, isFounder]);
+
+  useEffect(() => {
+    if (!milestone) return;
+    const row = milestone.row;
+    setForm({
+      due_date: row?.due_date ?? '',
+      done: !!row?.completed_at,
+      completed_at: row?.completed_at ?? '',
+      notes: row?.notes ?? '',
+      create_task: false,
+      task_title: product ? `${product.name} – ${t(`criticalPath.milestones.${milestone.milestone}`)}` : '',
+      assignee_ids: [],
+    });
+    setError('');
+  }, [milestone, product, open, t]);
+
+  const handleChange = <K extends keyof FormData>(field: K, value: FormData[K]) => {
+    setForm((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const toggleAssignee = (profileId: string) =>
+    setForm((prev) => ({
+      ...prev,
+      assignee_ids: prev.assignee_ids.includes(profileId)
+        ? prev.assignee_ids.filter((id) => id !== profileId)
+        : [...prev.assignee_ids, profileId],
+    }));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!product || !milestone) return;
+    setError('');
+    if (form.create_task && !form.task_title.trim()) {
+      setError(t('tasks.titleRequired'));
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { data: saved, error: saveErr } = await supabase
+        .from('product_milestones')
+        .upsert(
+          {
+            product_id: product.id,
+            milestone: milestone.milestone,
+            due_date: form.due_date || null,
+            completed_at: form.done ? form.completed_at || new Date().toISOString().slice(0, 10) : null,
+            notes: form.notes.trim() || null,
+            created_by: milestone.row?.created_by ?? getUserIdForDb(),
+          },
+          { onConflict: 'product_id,milestone' }
+        )
+        .select('id')
+        .single();
+      if (saveErr || !saved) {
+        setError(saveErr?.message ?? t('criticalPath.saveFailed'));
+        return;
+      }
+
+      if (form.create_task) {
+        const deadline = form.due_date || milestone.date;
+        const { data: task, error: taskErr } = await supabase
+          .from('tasks')
+          .insert({
+            title: form.task_title.trim(),
+            description: form.notes.trim() || null,
+            deadline,
+            status: 'active',
+            created_by: getUserIdForDb(),
+          })
+          .select('id')
+          .single();
+        if (taskErr || !task) {
+          setError(taskErr?.message ?? t('criticalPath.saveFailed'));
+          return;
+        }
+
+        const assigneeIds =
+          isFounder && form.assignee_ids.length > 0
+            ? form.assignee_ids
+            : ([getUserIdForDb()].filter(Boolean) as string[]);
+        if (assigneeIds.length > 0) {
+          const { error: assignErr } = await supabase
+            .from('task_assignees')
+            .insert(assigneeIds.map((uid) => ({ task_id: task.id, user_id: uid })));
+          if (assignErr) {
+            setError(assignErr.message);
+            return;
+          }
+        }
+        const currentUserId = getUserIdForDb();
+        for (const uid of assigneeIds) {
+          if (uid !== currentUserId) {
+            await createNotification(uid, 'task_assigned', form.task_title.trim(), null, task.id);
+          }
+        }
+
+        const { error: linkErr } = await supabase
+          .from('product_milestones')
+          .update({ task_id: task.id })
+          .eq('id', saved.id);
+        if (linkErr) {
+          setError(linkErr.message);
+          return;
+        }
+      }
+
+      onSaved();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!open || !product || !milestone) return null;
+
+  const inputClass = INPUT_CLASS;
+  const labelClass = 'block text-sm text-nokturo-700 dark:text-nokturo-400 mb-1.5';
+  const profileName = (p: TaskProfile) => [p.first_name, p.last_name].filter(Boolean).join(' ') || p.full_name || '?';
+
+  return (
+    <>
+      <div className="fixed inset-0 z-40 bg-overlay backdrop-blur-sm" onClick={onClose} />
+      <div className="fixed inset-y-0 right-0 z-50 w-full sm:max-w-lg bg-nokturo-900 shadow-2xl flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-nokturo-200 dark:border-nokturo-600 shrink-0">
+          <div className="min-w-0">
+            <h3 className={MODAL_HEADING_CLASS}>{t(`criticalPath.milestones.${milestone.milestone}`)}</h3>
+            <p className="text-sm text-nokturo-500 dark:text-nokturo-400 truncate">{product.name}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1.5 text-nokturo-500 dark:text-nokturo-400 hover:text-nokturo-900 dark:hover:text-nokturo-100 transition-colors rounded-lg hover:bg-nokturo-100 dark:hover:bg-nokturo-700"
+          >
+            <MaterialIcon name="close" size={20} className="shrink-0" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="flex flex-1 flex-col min-h-0 overflow-hidden">
+          <div className="flex-1 overflow-y-auto px-6 py-4 space-y-4">
+            {/* Date */}
+            <div>
+              <label className={labelClass}>{t('criticalPath.date')}</label>
+              <div className="flex items-center gap-2">
+                <input
+                  type="date"
+                  value={form.due_date}
+                  onChange={(e) => handleChange('due_date', e.target.value)}
+                  className={inputClass}
+                />
+                {form.due_date && (
+                  <button
+                    type="button"
+                    onClick={() => handleChange('due_date', '')}
+                    className="text-sm text-nokturo-600 dark:text-nokturo-400 hover:text-nokturo-900 dark:hover:text-nokturo-100 transition-colors shrink-0"
+                  >
+                    {t('criticalPath.useDerived')}
+                  </button>
+                )}
+              </div>
+              <p className="text-xs text-nokturo-500 dark:text-nokturo-400 mt-1">
+                {milestone.derived && milestone.date
+                  ? t('criticalPath.derivedHint', { date: milestone.date })
+                  : t('criticalPath.manualHint')}
+              </p>
+            </div>
+
+            {/* Completion */}
+            <div>
+              <label className="inline-flex items-center gap-2 text-sm text-nokturo-700 dark:text-nokturo-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={form.done}
+                  onChange={(e) => handleChange('done', e.target.checked)}
+                  className="rounded"
+                />
+                {t('criticalPath.markDone')}
+              </label>
+              {form.done && (
+                <input
+                  type="date"
+                  value={form.completed_at}
+                  onChange={(e) => handleChange('completed_at', e.target.value)}
+                  className={`${inputClass} mt-2`}
+                />
+              )}
+              {!form.done && milestone.done && (
+                <p className="text-xs text-nokturo-500 dark:text-nokturo-400 mt-1">{t('criticalPath.detectedDone')}</p>
+              )}
+            </div>
+
+            {/* Notes */}
+            <div>
+              <label className={labelClass}>{t('criticalPath.notes')}</label>
+              <textarea
+                value={form.notes}
+                onChange={(e) => handleChange('notes', e.target.value)}
+                rows={3}
+                className={`${TEXTAREA_CLASS} resize-none`}
+              />
+            </div>
+
+            {/* Task */}
+            <div>
+              <label className={labelClass}>{t('criticalPath.task')}</label>
+              {milestone.row?.task_id ? (
+                <Link
+                  to={`/tasks?task=${milestone.row.task_id}`}
+                  className="inline-flex items-center gap-1.5 text-sm text-nokturo-700 dark:text-nokturo-300 hover:text-nokturo-900 dark:hover:text-nokturo-100 transition-colors"
+                >
+                  <MaterialIcon name="task_alt" size={16} className="shrink-0" />
+                  {t('criticalPath.openTask')}
+                </Link>
+              ) : (
+                <>
+                  <label className="inline-flex items-center gap-2 text-sm text-nokturo-700 dark:text-nokturo-300 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={form.create_task}
+                      onChange={(e) => handleChange('create_task', e.target.checked)}
+                      className="rounded"
+                    />
+                    {t('criticalPath.createTask')}
+                  </label>
+                  {form.create_task && (
+                    <div className="mt-3 space-y-3">
+                      <input
+                        type="text"
+                        value={form.task_title}
+                        onChange={(e) => handleChange('task_title', e.target.value)}
+                        placeholder={t('tasks.titlePlaceholder')}
+                        className={inputClass}
+                      />
+                      {isFounder && (
+                        <div className="flex flex-wrap gap-x-6 gap-y-2">
+                          {profiles.map((p) => {
+                            const selected = form.assignee_ids.includes(p.id);
+                            return (
+                              <button
+                                key={p.id}
+                                type="button"
+                                onClick={() => toggleAssignee(p.id)}
+                                className={`inline-flex items-center gap-1.5 text-sm transition-colors ${
+                                  selected ? 'text-white opacity-100' : 'text-nokturo-400 opacity-50'
+                                }`}
+                              >
+                                {p.avatar_url ? (
+                                  <img src={p.avatar_url} alt="" className="avatar-round w-5 h-5 object-cover" />
+                                ) : (
+                                  <span className="avatar-round w-5 h-5 bg-nokturo-400 dark:bg-nokturo-500 flex items-center justify-center text-[10px] text-white font-medium">
+                                    {(p.first_name?.[0] || p.full_name?.[0] || '?').toUpperCase()}
+                                  </span>
+                                )}
+                                {profileName(p)}
+                              </button>
+                            );
+                          })}
+                          {profiles.length === 0 && (
+                            <span className="text-sm text-nokturo-400 dark:text-nokturo-500">
+                              {t('tasks.assigneesPlaceholder')}
+                            </span>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          </div>
+
+          <div className="relative z-10 flex flex-col gap-3 px-6 py-4 shrink-0 mt-auto bg-elevated">
+            {error && (
+              <div className="text-red dark:text-red-fg text-sm bg-red/10 dark:bg-red/20 rounded-lg px-3 py-2 shrink-0">
+                {error}
+              </div>
+            )}
+            <div className="flex items-center justify-end gap-3">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-sm text-nokturo-600 dark:text-nokturo-400 hover:text-nokturo-900 dark:hover:text-nokturo-100 transition-colors"
+              >
+                {t('common.cancel')}
+              </button>
+              <button
+                type="submit"
+                disabled={saving}
+                className="px-5 py-2 text-sm bg-nokturo-900 dark:bg-white dark:text-nokturo-900 text-white font-medium rounded-lg hover:bg-nokturo-800 dark:hover:bg-nokturo-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+              >
+                {saving && <MaterialIcon name="progress_activity" size={16} className="animate-spin shrink-0" />}
+                {t('common.save')}
+              </button>
+            </div>
+          </div>
+        </form>
+      </div>
+    </>
+  );
+}
@@ -1,590 +0,0 @@
-import { useState, useEffect, useCallback, useRef, useLayoutEffect } from 'react';
-import { createPortal } from 'react-dom';
-import { useTranslation } from 'react-i18next';
-import { supabase } from '../lib/supabase';
-import { useAuthStore, getUserIdForDb } from '../stores/authStore';
-import { useToastStore } from '../stores/toastStore';
-import { hasPermission, canDeleteAnything } from '../lib/rbac';
-import { MaterialIcon } from './icons/MaterialIcon';
-import { DefaultAvatar } from './DefaultAvatar';
-import { renderContentWithMentions } from '../lib/renderMentions';
-import { INPUT_CLASS } from '../lib/inputStyles';
-import { DeleteConfirmModal } from './DeleteConfirmModal';
-import { useMentionSuggestions, MentionDropdown } from './MentionSuggestions';
-import type { MentionProfile } from './MentionSuggestions';
-import { sendMentionNotifications, parseMentionsFromText } from '../lib/sendMentionNotifications';
-
-// ── Types ─────────────────────────────────────────────────────
-interface MoodboardComment {
-  id: string;
-  moodboard_item_id: string;
-  author_id: string;
-  content: string;
-  tagged_user_ids: string[];
-  created_at: string;
-  profile?: {
-    full_name?: string;
-    first_name?: string;
-    last_name?: string;
-    avatar_url: string | null;
-  };
-}
-
-interface ProfileOption {
-  id: string;
-  first_name: string | null;
-  last_name: string | null;
-  full_name: string | null;
-}
-
-interface MoodboardCommentsProps {
-  moodboardItemId: string;
-  hasHeaderAbove?: boolean;
-}
-
-// ── Component ─────────────────────────────────────────────────
-export function MoodboardComments({ moodboardItemId, hasHeaderAbove = true }: MoodboardCommentsProps) {
-  const { t } = useTranslation();
-  const user = useAuthStore((s) => s.user);
-  const canComment = user?.role ? hasPermission(user.role, 'prototyping.moodboard', 'comment') : false;
-  const canDelete = user?.role ? canDeleteAnything(user.role) : false;
-
-  const [comments, setComments] = useState<MoodboardComment[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [newComment, setNewComment] = useState('');
-  const [taggedUsers, setTaggedUsers] = useState<string[]>([]);
-  const [profiles, setProfiles] = useState<ProfileOption[]>([]);
-  const [sending, setSending] = useState(false);
-  const [deleteTarget, setDeleteTarget] = useState<string | null>(null);
-  const [postError, setPostError] = useState<string | null>(null);
-  const [editingId, setEditingId] = useState<string | null>(null);
-  const [editContent, setEditContent] = useState('');
-  const [editSaving, setEditSaving] = useState(false);
-  const [currentAuthorId, setCurrentAuthorId] = useState<string | null>(null);
-  const [commentMenuOpen, setCommentMenuOpen] = useState<string | null>(null);
-  const [menuPosition, setMenuPosition] = useState<{ top: number; left: number } | null>(null);
-  const inputRef = useRef<HTMLInputElement>(null);
-  const menuTriggerRef = useRef<HTMLButtonElement | null>(null);
-  const addToast = useToastStore((s) => s.addToast);
-
-  // Position comment menu for portal (avoids overflow clipping and stacking behind input)
-  useLayoutEffect(() => {
-    if (!commentMenuOpen || !menuTriggerRef.current) {
-      setMenuPosition(null);
-      return;
-    }
-    const rect = menuTriggerRef.current.getBoundingClientRect();
-    const DROPDOWN_WIDTH = 100;
-    const DROPDOWN_HEIGHT = 92;
-    const PADDING = 12;
-    const vw = window.innerWidth;
-    const vh = window.innerHeight;
-    const left = Math.max(PADDING, Math.min(rect.right - DROPDOWN_WIDTH, vw - PADDING - DROPDOWN_WIDTH));
-    let top = rect.bottom + 4;
-    if (top + DROPDOWN_HEIGHT > vh - PADDING) {
-      top = Math.max(PADDING, rect.top - 4 - DROPDOWN_HEIGHT);
-    }
-    setMenuPosition({
-      top,
-      left,
-    });
-  }, [commentMenuOpen]);
-
-  const mention = useMentionSuggestions(newComment, profiles as MentionProfile[]);
-
-  const handleMentionSelect = useCallback((profile: MentionProfile) => {
-    const newValue = mention.applyMention(profile);
-    setNewComment(newValue);
-    if (!taggedUsers.includes(profile.id)) {
-      setTaggedUsers((prev) => {
-        const next = [...prev, profile.id];
-        if (import.meta.env.DEV) {
-          console.log('[MoodboardComments] handleMentionSelect: added to taggedUsers', { profileId: profile.id, profileName: [profile.first_name, profile.last_name].filter(Boolean).join(' ') || profile.full_name, taggedUsersBefore: prev, taggedUsersAfter: next });
-        }
-        return next;
-      });
-    }
-    mention.closeDropdown();
-  }, [mention, taggedUsers]);
-
-  // Close comment menu on outside click
-  useEffect(() => {
-    if (!commentMenuOpen) return;
-    const handle = () => setCommentMenuOpen(null);
-    document.addEventListener('click', handle);
-    return () => document.removeEventListener('click', handle);
-  }, [commentMenuOpen]);
-
-  // ── Fetch profiles for tagging ───────────────────────────────
-  const fetchProfiles = useCallback(async () => {
-    const { data } = await supabase
-      .from('profiles')
-      .select('id, first_name, last_name, full_name, avatar_url')
-      .neq('id', user?.id ?? '');
-    setProfiles((data || []) as ProfileOption[]);
-  }, [user?.id]);
-
-  // ── Fetch comments ──────────────────────────────────────────
-  const fetchComments = useCallback(async () => {
-    setLoading(true);
-    const { data, error } = await supabase
-      .from('moodboard_comments')
-      .select(
-        '*, profile:profiles!moodboard_comments_author_id_fkey(full_name, first_name, last_name, avatar_url)'
-      )
-      .eq('moodboard_item_id', moodboardItemId)
-      .order('created_at', { ascending: true });
-    setComments((error ? [] : data || []) as MoodboardComment[]);
-    setLoading(false);
-  }, [moodboardItemId]);
-
-  useEffect(() => {
-    fetchComments();
-  }, [fetchComments]);
-
-  useEffect(() => {
-    fetchProfiles();
-  }, [fetchProfiles]);
-
-  // ── Realtime subscription ─────────────────────────────────────
-  useEffect(() => {
-    const channel = supabase
-      .channel(`moodboard-comments-${moodboardItemId}`)
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'moodboard_comments',
-          filter: `moodboard_item_id=eq.${moodboardItemId}`,
-        },
-        async (payload) => {
-          if (payload.eventType === 'INSERT') {
-            const row = payload.new as MoodboardComment;
-            const { data: profile } = await supabase
-              .from('profiles')
-              .select('full_name, first_name, last_name, avatar_url')
-              .eq('id', row.author_id)
-              .single();
-            const enriched: MoodboardComment = { ...row, profile: profile || { avatar_url: null } };
-            setComments((prev) => (prev.some((c) => c.id === enriched.id) ? prev : [...prev, enriched]));
-          } else if (payload.eventType === 'DELETE') {
-            const oldRow = payload.old as { id: string };
-            setComments((prev) => prev.filter((c) => c.id !== oldRow.id));
-          } else if (payload.eventType === 'UPDATE') {
-            const updated = payload.new as MoodboardComment;
-            // Preserve profile from existing comment – real-time payload has no joined data
-            setComments((prev) => prev.map((c) => (c.id === updated.id ? { ...c, ...updated, profile: c.profile } : c)));
-          }
-        }
-      )
-      .subscribe();
-
-    return () => {
-      supabase.removeChannel(channel);
-    };
-  }, [moodboardItemId]);
-
-  // Set currentAuthorId on load (for isOwn check in dev mode)
-  useEffect(() => {
-    const run = async () => {
-      let id = getUserIdForDb();
-      if (!id && user?.id === 'dev-user') {
-        const { data, error } = await supabase
-          .from('profiles')
-          .select('id')
-          .limit(1)
-          .single();
-        if (!error && data) id = data.id;
-      }
-      setCurrentAuthorId(id);
-    };
-    run();
-  }, [user?.id]);
-
-  // ── Post comment (with optional tags) – optimistic update ───────
-  const handlePost = async () => {
-    const content = newComment.trim();
-    if (!content || !user) return;
-
-    // Capture at submit time – if INVOKED shows [], state was cleared before this
-    const taggedUsersSnapshot = [...taggedUsers];
-    if (import.meta.env.DEV) {
-      console.log('[MoodboardComments] handlePost SUBMIT – taggedUsers at submit time', { taggedUsersSnapshot, length: taggedUsersSnapshot.length });
-    }
-
-    setPostError(null);
-    setSending(true);
-
-    let authorId = getUserIdForDb();
-    // Dev bypass: getUserIdForDb returns null for dev-user – use first profile as fallback
-    if (!authorId && user?.id === 'dev-user') {
-      const { data: firstProfile } = await supabase
-        .from('profiles')
-        .select('id')
-        .limit(1)
-        .single();
-      authorId = firstProfile?.id ?? null;
-    }
-    if (!authorId) {
-      setPostError(t('comments.loginRequired'));
-      setSending(false);
-      return;
-    }
-    setCurrentAuthorId(authorId);
-
-    const tempId = 'temp-' + Date.now();
-    const optimisticRow: MoodboardComment = {
-      id: tempId,
-      moodboard_item_id: moodboardItemId,
-      author_id: authorId,
-      content,
-      tagged_user_ids: taggedUsersSnapshot,
-      created_at: new Date().toISOString(),
-      profile: {
-        first_name: user.firstName ?? undefined,
-        last_name: user.lastName ?? undefined,
-        full_name: [user.firstName, user.lastName].filter(Boolean).join(' ') || user.name,
-        avatar_url: user.avatarUrl ?? null,
-      },
-    };
-    setComments((prev) => [...prev, optimisticRow]);
-    setNewComment('');
-    setTaggedUsers([]);
-
-    const { data: comment, error: commentErr } = await supabase
-      .from('moodboard_comments')
-      .insert({
-        moodboard_item_id: moodboardItemId,
-        author_id: authorId,
-        content,
-        tagged_user_ids: taggedUsersSnapshot.length > 0 ? taggedUsersSnapshot : [],
-      })
-      .select('id')
-      .single();
-
-    if (commentErr) {
-      setComments((prev) => prev.filter((c) => c.id !== tempId));
-      setPostError(commentErr.message || t('comments.postFailed'));
-      addToast(commentErr.message || t('comments.postFailed'), 'error');
-      setSending(false);
-      return;
-    }
-
-    if (comment) {
-      setComments((prev) => {
-        const withoutRealtimeDuplicate = prev.filter((c) => c.id !== comment.id);
-        return withoutRealtimeDuplicate.map((c) =>
-          c.id === tempId ? { ...c, id: comment.id } : c
-        );
-      });
-      addToast(t('comments.posted'), 'success');
-
-      // Create notifications for tagged users (use snapshot – immune to setTaggedUsers([]) above)
-      if (import.meta.env.DEV && taggedUsersSnapshot.length === 0) {
-        const parsedNames = parseMentionsFromText(content);
-        if (parsedNames.length) {
-          console.log('[MoodboardComments] PARSER: mentions in text but taggedUsers empty – user may have typed @ without selecting from dropdown', { content: content.slice(0, 100), parsedMentionNames: parsedNames });
-        }
-      }
-      if (taggedUsersSnapshot.length > 0) {
-        if (import.meta.env.DEV) {
-          console.log('[MoodboardComments] calling sendMentionNotifications with snapshot', { taggedUsersSnapshot });
-        }
-        const authorName = [user.firstName, user.lastName].filter(Boolean).join(' ') || user.name;
-        await sendMentionNotifications({
-          taggedUserIds: taggedUsersSnapshot,
-          authorId,
-          authorName,
-          content,
-          type: 'moodboard_tag',
-          link: `/prototyping/moodboard?item=${moodboardItemId}`,
-          moodboardItemId,
-          commentId: comment.id,
-        });
-      }
-    }
-    setSending(false);
-  };
-
-  // ── Delete comment ──────────────────────────────────────────
-  const handleDelete = async (id: string) => {
-    await supabase.from('moodboard_comments').delete().eq('id', id);
-    setComments((prev) => prev.filter((c) => c.id !== id));
-    setDeleteTarget(null);
-  };
-
-  // ── Edit comment ────────────────────────────────────────────
-  const startEdit = (comment: MoodboardComment) => {
-    setEditingId(comment.id);
-    setEditContent(comment.content);
-  };
-
-  const cancelEdit = () => {
-    setEditingId(null);
-    setEditContent('');
-  };
-
-  const handleSaveEdit = async () => {
-    if (!editingId || !editContent.trim()) return;
-    setEditSaving(true);
-    const { error } = await supabase
-      .from('moodboard_comments')
-      .update({ content: editContent.trim() })
-      .eq('id', editingId);
-    if (!error) {
-      setComments((prev) =>
-        prev.map((c) =>
-          c.id === editingId ? { ...c, content: editContent.trim() } : c
-        )
-      );
-      cancelEdit();
-    }
-    setEditSaving(false);
-  };
-
-  const handleReplyTo = (comment: MoodboardComment) => {
-    const authorName =
-      [comment.profile?.first_name, comment.profile?.last_name].filter(Boolean).join(' ') ||
-      comment.profile?.full_name ||
-      'Unknown';
-    if (!taggedUsers.includes(comment.author_id)) {
-      setTaggedUsers((prev) => [...prev, comment.author_id]);
-    }
-    setNewComment((prev) => (prev.trim() ? `${prev} @${authorName} ` : `@${authorName} `));
-    setTimeout(() => inputRef.current?.focus(), 0);
-  };
-
-  const renderComment = (comment: MoodboardComment) => {
-    const name =
-      [comment.profile?.first_name, comment.profile?.last_name]
-        .filter(Boolean)
-        .join(' ') ||
-      comment.profile?.full_name ||
-      'Unknown';
-    const isOwn =
-      comment.author_id === user?.id ||
-      (user?.id === 'dev-user' && currentAuthorId && comment.author_id === currentAuthorId);
-    const isEditing = editingId === comment.id;
-
-    return (
-      <div
-        key={comment.id}
-        className={`group flex flex-col py-2 px-2 rounded-[12px] min-w-0 animate-fade-in-item ${isOwn ? 'ml-6 bg-nokturo-100 text-nokturo-900 dark:bg-white/20 dark:text-white' : 'mr-6 bg-nokturo-200/80 text-nokturo-900 dark:bg-white/10 dark:text-white'}`}
-      >
-        {isEditing ? (
-          <div className="flex flex-col gap-2 -mx-2 px-3 py-2">
-            <input
-              type="text"
-              value={editContent}
-              onChange={(e) => setEditContent(e.target.value)}
-              onKeyDown={(e) => {
-                if (e.key === 'Enter') handleSaveEdit();
-                if (e.key === 'Escape') cancelEdit();
-              }}
-              className={INPUT_CLASS}
-              autoFocus
-            />
-            <div className="flex gap-2">
-              <button
-                onClick={handleSaveEdit}
-                disabled={!editContent.trim() || editSaving}
-                className="flex items-center gap-1 text-xs text-nokturo-600 dark:text-nokturo-400 hover:text-nokturo-800 dark:hover:text-nokturo-200 disabled:opacity-50"
-              >
-                <MaterialIcon name="check" size={12} className="shrink-0" />
-                {t('common.save')}
-              </button>
-              <button
-                onClick={cancelEdit}
-                className="flex items-center gap-1 text-xs text-nokturo-500 dark:text-nokturo-400 hover:text-nokturo-700 dark:hover:text-nokturo-300"
-              >
-                <MaterialIcon name="close" size={12} className="shrink-0" />
-                {t('common.cancel')}
-              </button>
-            </div>
-          </div>
-        ) : (
-          <>
-            <div className="-mx-2 px-3 pt-1 pb-2">
-              <p className="text-sm font-light break-words pr-0 text-inherit opacity-80">
-                {renderContentWithMentions(
-                  comment.content,
-                  !!isOwn,
-                  [user?.firstName, user?.lastName].filter(Boolean).join(' ') || user?.name || ''
-                )}
-              </p>
-            </div>
-            <div className="flex justify-between items-center mt-4 min-w-0 gap-2">
-              <div className="flex gap-2 items-center min-w-0 flex-1">
-                {comment.profile?.avatar_url ? (
-                  <img src={comment.profile.avatar_url} alt="" className="avatar-round w-7 h-7 object-cover shrink-0" />
-                ) : (
-                  <DefaultAvatar size={28} className="avatar-round overflow-hidden shrink-0" />
-                )}
-                <div className="flex flex-col min-w-0">
-                  <span className="text-sm font-medium truncate text-inherit">{name}</span>
-                  <span className="text-[10px] opacity-80 text-inherit">
-                    {new Date(comment.created_at).toLocaleString([], {
-                      month: 'short',
-                      day: 'numeric',
-                      hour: '2-digit',
-                      minute: '2-digit',
-                    })}
-                  </span>
-                </div>
-              </div>
-              <div className="flex items-center gap-1 shrink-0">
-                {isOwn && (
-                  <div className="relative">
-                    <button
-                      type="button"
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        if (commentMenuOpen === comment.id) {
-                          setCommentMenuOpen(null);
-                        } else {
-                          menuTriggerRef.current = e.currentTarget;
-                          setCommentMenuOpen(comment.id);
-                        }
-                      }}
-                      className={`p-1 rounded text-nokturo-500 hover:text-nokturo-900 dark:text-white/60 dark:hover:text-white/90 hover:bg-nokturo-100 dark:hover:bg-white/10 transition-all ${commentMenuOpen === comment.id ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}`}
-                    >
-                      <MaterialIcon name="more_horiz" size={16} className="shrink-0" />
-                    </button>
-                  </div>
-                )}
-                {canComment && !isOwn && (
-                  <button
-                    type="button"
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      handleReplyTo(comment);
-                    }}
-                    className="shrink-0 px-2 py-1 rounded-[4px] text-xs border-none text-nokturo-800 hover:text-nokturo-900 dark:text-white/90 dark:hover:text-white bg-nokturo-200/80 dark:bg-white/10"
-                  >
-                    {t('comments.reply')}
-                  </button>
-                )}
-              </div>
-            </div>
-          </>
-        )}
-      </div>
-    );
-  };
-
-  return (
-    <section className="flex-1 flex flex-col min-h-0 w-full pt-0 px-0">
-      <div className="flex-1 overflow-y-auto scrollbar-hide min-h-0">
-        {loading ? (
-          <div className="space-y-3 py-4">
-            {[1, 2, 3].map((i) => (
-              <div key={i} className="flex gap-3 animate-pulse">
-                <div className="avatar-round w-7 h-7 bg-nokturo-200/60 dark:bg-nokturo-700/60 shrink-0" />
-                <div className="flex-1 space-y-2">
-                  <div className="h-3 bg-nokturo-200/60 dark:bg-nokturo-700/60 rounded w-3/4" />
-                  <div className="h-3 bg-nokturo-200/60 dark:bg-nokturo-700/60 rounded w-1/2" />
-                </div>
-              </div>
-            ))}
-          </div>
-        ) : comments.length === 0 ? null : (
-          <div className="space-y-4 mb-4 mr-4 ml-4 mt-4">
-            {comments.map(renderComment)}
-          </div>
-        )}
-      </div>
-
-      {/* New comment input with tag picker - fixed at bottom (only if role can comment) */}
-      {canComment && (
-      <div className="flex flex-col gap-2 shrink-0 pt-0">
-        <div className="relative flex gap-2 p-3 bg-nokturo-100 dark:bg-white/5">
-          <div className="flex-1 relative">
-            {mention.active && (
-              <MentionDropdown
-                profiles={mention.filtered}
-                selectedIdx={mention.selectedIdx}
-                onSelect={handleMentionSelect}
-              />
-            )}
-            <input
-              ref={inputRef}
-              type="text"
-              value={newComment}
-              onChange={(e) => setNewComment(e.target.value)}
-              onKeyDown={(e) => {
-                const result = mention.handleKeyDown(e);
-                if (result === 'select') {
-                  const p = mention.getSelectedProfile();
-                  if (p) handleMentionSelect(p);
-                  return;
-                }
-                if (result) return;
-                if (e.key === 'Enter' && !e.shiftKey) {
-                  e.preventDefault();
-                  handlePost();
-                }
-              }}
-              placeholder={t('comments.placeholder')}
-              className={INPUT_CLASS}
-            />
-          </div>
-          <button
-            onClick={handlePost}
-            disabled={!newComment.trim() || sending}
-            className="px-4 flex items-center justify-center h-11 bg-[#ffffff] text-nokturo-900 rounded-lg hover:bg-[#f5f5f5] transition-all duration-150 hover:opacity-90 active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed shrink-0 text-sm font-medium"
-          >
-            {sending ? <MaterialIcon name="progress_activity" size={16} className="animate-spin shrink-0" /> : t('chat.send')}
-          </button>
-        </div>
-        {postError && (
-          <p className="text-xs text-red-fg">{postError}</p>
-        )}
-      </div>
-      )}
-
-      {/* Comment menu dropdown – portaled to avoid overflow clipping and stacking behind input */}
-      {commentMenuOpen && menuPosition && (() => {
-        const comment = comments.find((c) => c.id === commentMenuOpen);
-        if (!comment) return null;
-        return createPortal(
-          <>
-            <div
-              className="fixed inset-0 z-[55]"
-              onClick={() => setCommentMenuOpen(null)}
-              aria-hidden
-            />
-            <div
-              className="fixed z-[56] bg-white dark:bg-nokturo-700 rounded-[8px] p-1 min-w-[100px] shadow-lg overflow-hidden"
-              style={{ top: menuPosition.top, left: menuPosition.left }}
-              onClick={(e) => e.stopPropagation()}
-            >
-              <button
-                type="button"
-                onClick={() => { startEdit(comment); setCommentMenuOpen(null); }}
-                className="w-full flex flex-col justify-center items-center p-1 text-left text-xs text-nokturo-700 dark:text-nokturo-200 hover:bg-nokturo-50 dark:hover:bg-nokturo-600 rounded-[4px]"
-              >
-                {t('common.edit')}
-              </button>
-              <button
-                type="button"
-                onClick={() => { setDeleteTarget(comment.id); setCommentMenuOpen(null); }}
-                className="dropdown-menu-item-destructive w-full flex flex-col justify-center items-center p-1 text-xs text-nokturo-700 dark:text-nokturo-200 hover:bg-red hover:text-red-fg rounded-[4px]"
-              >
-                {t('common.delete')}
-              </button>
-            </div>
-          </>,
-          document.body
-        );
-      })()}
-
-      {deleteTarget && (
-        <DeleteConfirmModal
-          onCancel={() => setDeleteTarget(null)}
-          onConfirm={() => handleDelete(deleteTarget)}
-        />
-      )}
-    </section>
-  );
-}
@@ -3,6 +3,7 @@ import { useTranslation } from 'react-i18next';
 import { useNavigate } from 'react-router-dom';
 import { supabase } from '../lib/supabase';
 import { useAuthStore, getUserIdForDb } from '../stores/authStore';
+import { checkCertificateExpiry } from '../lib/certificates';
 
 export interface Notification {
   id: string;
@@ -98,6 +99,7 @@ export function useNotifications() {
   useEffect(() => {
     if (!userId) return;
     checkDeadlineReminders(userId);
+    checkCertificateExpiry();
   }, [userId]);
 
   const markRead = async (id: string) => {
@@ -0,0 +1,162 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useNavigate } from 'react-router-dom';
+import { MaterialIcon } from './icons/MaterialIcon';
+import { useCommentProfiles } from '../hooks/useComments';
+import {
+  commentAuthorName,
+  fetchOpenProductThreads,
+  profileDisplayName,
+  type Comment,
+  type ImageAnchor,
+  type TextAnchor,
+} from '../lib/comments';
+
+type GroupBy = 'product' | 'assignee';
+
+interface OpenReviewThreadsProps {
+  products: { id: string; name: string; sku: string | null }[];
+  /** Opens the product's general discussion; anchored threads open the product page instead */
+  onOpenProduct: (productId: string) => void;
+}
+
+/** Unresolved review threads across all products, grouped by product or assignee */
+export function OpenReviewThreads({ products, onOpenProduct }: OpenReviewThreadsProps) {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const profiles = useCommentProfiles();
+
+  const [threads, setThreads] = useState<Comment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [groupBy, setGroupBy] = useState<GroupBy>('product');
+
+  useEffect(() => {
+    fetchOpenProductThreads().then((rows) => {
+      setThreads(rows);
+      setLoading(false);
+    });
+  }, []);
+
+  const productById = new Map(products.map((p) => [p.id, p]));
+  const groups = new Map<string, Comment[]>();
+  for (const thread of threads) {
+    const key = groupBy === 'product' ? thread.entity_id : thread.assignee_id ?? '';
+    groups.set(key, [...(groups.get(key) ?? []), thread]);
+  }
+  const groupLabel = (key: string) =>
+    groupBy === 'product'
+      ? productById.get(key)?.name ?? t('comments.unknownProduct')
+      : key
+        ? profileDisplayName(profiles.find((p) => p.id === key))
+        : t('comments.unassigned');
+  // Blocking-heavy groups first, unassigned last
+  const sortedGroups = [...groups.entries()].sort(([ka, a], [kb, b]) => {
+    if (groupBy === 'assignee' && (!ka || !kb)) return ka ? -1 : 1;
+    const blocking = (list: Comment[]) => list.filter((c) => c.is_blocking).length;
+    return blocking(b) - blocking(a) || groupLabel(ka).localeCompare(groupLabel(kb));
+  });
+
+  const anchorLabel = (thread: Comment) => {
+    if (thread.anchor_type === 'text') return `"${(thread.anchor as TextAnchor).selected_text}"`;
+    if (thread.anchor_type === 'image') {
+      const anchor = thread.anchor as ImageAnchor;
+      return t('comments.imageAnchor', { gallery: t(`comments.galleries.${anchor.gallery}`), index: anchor.index + 1 });
+    }
+    return t('comments.generalThread');
+  };
+
+  const openThread = (thread: Comment) => {
+    if (thread.anchor_type) navigate(`/production/products/${thread.entity_id}`);
+    else onOpenProduct(thread.entity_id);
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between gap-3 mb-4">
+        <div>
+          <h3 className="text-heading-4 font-extralight text-white">{t('comments.openThreads')}</h3>
+          {!loading && (
+            <p className="text-sm text-nokturo-400 mt-0.5">
+              {t('comments.openThreadsSummary', {
+                count: threads.length,
+                blocking: threads.filter((c) => c.is_blocking).length,
+              })}
+            </p>
+          )}
+        </div>
+        <div className="flex items-center gap-1 bg-nokturo-800 rounded-[6px] p-0.5 shrink-0">
+          {(['product', 'assignee'] as const).map((g) => (
+            <button
+              key={g}
+              type="button"
+              onClick={() => setGroupBy(g)}
+              className={`px-2.5 py-1 text-xs rounded-[4px] transition-colors ${
+                groupBy === g ? 'bg-nokturo-600 text-white' : 'text-nokturo-400 hover:text-nokturo-200'
+              }`}
+            >
+              {g === 'product' ? t('comments.groupByProduct') : t('comments.groupByAssignee')}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-8">
+          <MaterialIcon name="progress_activity" size={20} className="text-nokturo-400 animate-spin shrink-0" />
+        </div>
+      ) : threads.length === 0 ? (
+        <div className="flex flex-col items-center justify-center text-center py-16">
+          <MaterialIcon name="task_alt" size={48} className="text-nokturo-600 mb-4 shrink-0" />
+          <p className="text-nokturo-400 text-sm">{t('comments.noOpenThreads')}</p>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {sortedGroups.map(([key, list]) => (
+            <section key={key || 'unassigned'}>
+              <div className="flex items-center gap-2 mb-2">
+                <MaterialIcon
+                  name={groupBy === 'product' ? 'inventory_2' : 'assignment_ind'}
+                  size={16}
+                  className="shrink-0 text-nokturo-500"
+                />
+                <h4 className="text-sm font-medium text-nokturo-200 truncate">{groupLabel(key)}</h4>
+                <span className="text-xs text-nokturo-500">{list.length}</span>
+              </div>
+              <div className="bg-nokturo-800 rounded-lg divide-y divide-nokturo-700">
+                {list.map((thread) => (
+                  <button
+                    key={thread.id}
+                    type="button"
+                    onClick={() => openThread(thread)}
+                    className="w-full flex items-start gap-3 px-4 py-3 text-left hover:bg-nokturo-700/40 transition-colors"
+                  >
+                    <div className="flex-1 min-w-0">
+                      <p className="text-xs text-nokturo-500 truncate">
+                        {groupBy === 'assignee' && `${productById.get(thread.entity_id)?.name ?? t('comments.unknownProduct')} · `}
+                        {anchorLabel(thread)}
+                      </p>
+                      <p className="text-sm text-nokturo-200 line-clamp-2 break-words mt-0.5">{thread.content}</p>
+                      <p className="text-[10px] text-nokturo-500 mt-1">
+                        {commentAuthorName(thread)} ·{' '}
+                        {new Date(thread.created_at).toLocaleDateString([], { month: 'short', day: 'numeric' })}
+                        {groupBy === 'product' && thread.assignee_id && (
+                          <> · {profileDisplayName(profiles.find((p) => p.id === thread.assignee_id))}</>
+                        )}
+                      </p>
+                    </div>
+                    {thread.is_blocking && (
+                      <span className="inline-flex items-center gap-0.5 px-1.5 py-0.5 rounded-full bg-red text-red-fg text-[10px] font-medium shrink-0">
+                        <MaterialIcon name="block" size={10} className="shrink-0" />
+                        {t('comments.blocking')}
+                      </span>
+                    )}
+                  </button>
+                ))}
+              </div>
+            </section>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+import { useTranslation } from 'react-i18next';
+import { MaterialIcon } from './icons/MaterialIcon';
+import { INPUT_CLASS } from '../lib/inputStyles';
+import { nextPomCode, type PointOfMeasure } from '../lib/pointsOfMeasure';
+
+interface PointsOfMeasureEditorProps {
+  value: PointOfMeasure[];
+  onChange: (poms: PointOfMeasure[]) => void;
+  /** Product size run – one spec input per size */
+  sizeRun: string[];
+}
+
+const SIZE_INPUT_CLASS =
+  'w-14 h-8 bg-nokturo-200/60 dark:bg-nokturo-700/60 rounded-[6px] px-1.5 text-sm text-right text-nokturo-900 dark:text-nokturo-100 placeholder-nokturo-400 focus:outline-none focus:ring-2 focus:ring-nokturo-500';
+
+/** Measurement chart editor (points of measure × size run) – used in ProductSlideOver */
+export function PointsOfMeasureEditor({ value, onChange, sizeRun }: PointsOfMeasureEditorProps) {
+  const { t } = useTranslation();
+
+  const update = (id: string, patch: Partial<PointOfMeasure>) =>
+    onChange(value.map((p) => (p.id === id ? { ...p, ...patch } : p)));
+
+  const move = (idx: number, dir: -1 | 1) => {
+    const target = idx + dir;
+    if (target < 0 || target >= value.length) return;
+    const next = [...value];
+    [next[idx], next[target]] = [next[target], next[idx]];
+    onChange(next);
+  };
+
+  const setSizeValue = (pom: PointOfMeasure, size: string, raw: string) => {
+    const values = { ...pom.values };
+    if (raw === '' || isNaN(Number(raw))) delete values[size];
+    else values[size] = Number(raw);
+    update(pom.id, { values });
+  };
+
+  return (
+    <div className="space-y-2">
+      {value.map((pom, idx) => (
+        <div key={pom.id} className="rounded-lg p-3 bg-nokturo-100/60 dark:bg-white/5 space-y-2">
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              value={pom.code}
+              onChange={(e) => update(pom.id, { code: e.target.value })}
+              placeholder={t('products.pom.code')}
+              className={`${INPUT_CLASS} !w-16 shrink-0`}
+            />
+            <input
+              type="text"
+              value={pom.name}
+              onChange={(e) => update(pom.id, { name: e.target.value })}
+              placeholder={t('products.pom.namePlaceholder')}
+              className={`${INPUT_CLASS} flex-1 min-w-0`}
+            />
+            <label className="flex items-center gap-1 shrink-0 text-sm text-nokturo-500 dark:text-nokturo-400">
+              ±
+              <input
+                type="number"
+                step="0.1"
+                min="0"
+                value={pom.tolerance ?? ''}
+                onChange={(e) =>
+                  update(pom.id, { tolerance: e.target.value === '' ? null : Math.max(0, parseFloat(e.target.value) || 0) })
+                }
+                title={t('products.pom.tolerance')}
+                className={SIZE_INPUT_CLASS}
+              />
+            </label>
+            <div className="flex flex-col shrink-0">
+              <button
+                type="button"
+                onClick={() => move(idx, -1)}
+                disabled={idx === 0}
+                className="text-nokturo-500 hover:text-nokturo-900 dark:hover:text-nokturo-100 disabled:opacity-30 transition-colors"
+              >
+                <MaterialIcon name="keyboard_arrow_up" size={16} className="shrink-0" />
+              </button>
+              <button
+                type="button"
+                onClick={() => move(idx, 1)}
+                disabled={idx === value.length - 1}
+                className="text-nokturo-500 hover:text-nokturo-900 dark:hover:text-nokturo-100 disabled:opacity-30 transition-colors"
+              >
+                <MaterialIcon name="keyboard_arrow_down" size={16} className="shrink-0" />
+              </button>
+            </div>
+            <button
+              type="button"
+              onClick={() => onChange(value.filter((p) => p.id !== pom.id))}
+              className="p-1.5 text-nokturo-500 hover:text-red-fg hover:bg-red rounded transition-colors shrink-0"
+              title={t('common.delete')}
+            >
+              <MaterialIcon name="close" size={16} className="shrink-0" />
+            </button>
+          </div>
+
+          {sizeRun.length > 0 && (
+            <div className="flex flex-wrap gap-1.5">
+              {sizeRun.map((size) => (
+                <label key={size} className="flex flex-col items-center gap-0.5">
+                  <span className="text-[10px] text-nokturo-500 dark:text-nokturo-400">{size}</span>
+                  <input
+                    type="number"
+                    step="0.1"
+                    value={pom.values[size] ?? ''}
+                    onChange={(e) => setSizeValue(pom, size, e.target.value)}
+                    className={SIZE_INPUT_CLASS}
+                  />
+                </label>
+              ))}
+            </div>
+          )}
+
+          <input
+            type="text"
+            value={pom.how_to_measure ?? ''}
+            onChange={(e) => update(pom.id, { how_to_measure: e.target.value || undefined })}
+            placeholder={t('products.pom.howToMeasurePlaceholder')}
+            className={INPUT_CLASS}
+          />
+        </div>
+      ))}
+
+      <button
+        type="button"
+        onClick={() =>
+          onChange([
+            ...value,
+            { id: crypto.randomUUID(), code: nextPomCode(value), name: '', values: {}, tolerance: null },
+          ])
+        }
+        className="inline-flex items-center gap-1 text-sm text-nokturo-600 dark:text-nokturo-400 hover:text-nokturo-900 dark:hover:text-nokturo-100 transition-colors"
+      >
+        <MaterialIcon name="add" size={16} className="shrink-0" />
+        {t('products.pom.add')}
+      </button>
+      {sizeRun.length === 0 && (
+        <p className="text-xs text-nokturo-500 dark:text-nokturo-400">{t('products.pom.noSizeRunHint')}</p>
+      )}
+    </div>
+  );
+}
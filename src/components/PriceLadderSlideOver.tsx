@@ -0,0 +1,236 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { supabase } from '../lib/supabase';
+import { MaterialIcon } from './icons/MaterialIcon';
+import { INPUT_CLASS, MODAL_HEADING_CLASS } from '../lib/inputStyles';
+import type { CostingRow } from '../lib/costing';
+import { recordProductVersion } from '../lib/productVersions';
+import {
+  computePriceLadder,
+  saveProductPrices,
+  type ProductPrice,
+  type SalesMarket,
+} from '../lib/priceLadder';
+
+interface PriceLadderSlideOverProps {
+  open: boolean;
+  row: CostingRow | null;
+  wholesaleMarkup: number;
+  markets: SalesMarket[];
+  /** Fixed prices of this product */
+  prices: ProductPrice[];
+  canWrite: boolean;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+type FixedForm = Record<string, { wholesale: string; retail: string }>;
+
+const parseOptional = (v: string) => (v.trim() === '' || isNaN(Number(v)) ? null : Number(v));
+
+export function PriceLadderSlideOver({
+  open,
+  row,
+  wholesaleMarkup,
+  markets,
+  prices,
+  canWrite,
+  onClose,
+  onSaved,
+}: PriceLadderSlideOverProps) {
+  const { t } = useTranslation();
+
+  const [markup, setMarkup] = useState('');
+  const [fixed, setFixed] = useState<FixedForm>({});
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!open) return;
+    setMarkup(String(wholesaleMarkup));
+    setFixed(
+      Object.fromEntries(
+        markets.map((m) => {
+          const p = prices.find((x) => x.market_id === m.id);
+          return [
+            m.id,
+            {
+              wholesale: p?.wholesale_price != null ? String(p.wholesale_price) : '',
+              retail: p?.retail_price != null ? String(p.retail_price) : '',
+            },
+          ];
+        })
+      )
+    );
+    setError('');
+  }, [open, wholesaleMarkup, markets, prices]);
+
+  if (!open || !row) return null;
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError('');
+    const { error: productErr } = await supabase
+      .from('products')
+      .update({ wholesale_markup: parseFloat(markup) || 1 })
+      .eq('id', row.id);
+    const err =
+      productErr?.message ??
+      (await saveProductPrices(
+        row.id,
+        markets.map((m) => ({
+          market_id: m.id,
+          wholesale_price: parseOptional(fixed[m.id]?.wholesale ?? ''),
+          retail_price: parseOptional(fixed[m.id]?.retail ?? ''),
+        }))
+      ));
+    setSaving(false);
+    if (err) {
+      setError(err);
+      return;
+    }
+    await recordProductVersion(row.id);
+    onSaved();
+  };
+
+  const fmt = (n: number, currency: string) => `${n.toFixed(2)} ${currency}`;
+  const labelClass = 'block text-sm text-nokturo-700 dark:text-nokturo-400 mb-1.5';
+
+  return (
+    <>
+      <div className="fixed inset-0 z-40 bg-overlay backdrop-blur-sm" onClick={onClose} />
+      <div className="fixed inset-y-0 right-0 z-50 w-full sm:max-w-lg bg-nokturo-900 shadow-2xl flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-nokturo-200 dark:border-nokturo-600 shrink-0">
+          <div className="min-w-0">
+            <h3 className={MODAL_HEADING_CLASS}>{t('priceLadder.title')}</h3>
+            <p className="text-xs text-nokturo-500 truncate">{row.name}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1.5 text-nokturo-500 dark:text-nokturo-400 hover:text-nokturo-900 dark:hover:text-nokturo-100 transition-colors rounded-lg hover:bg-nokturo-100 dark:hover:bg-nokturo-700"
+          >
+            <MaterialIcon name="close" size={20} className="shrink-0" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-5">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelClass}>{t('costing.totalCOGS')}</label>
+              <p className="text-sm text-nokturo-900 dark:text-nokturo-100 py-2">{fmt(row.totalCOGS, row.currency)}</p>
+            </div>
+            <div>
+              <label className={labelClass}>{t('priceLadder.wholesaleMarkup')}</label>
+              <input
+                type="number"
+                step="0.1"
+                min="1"
+                value={markup}
+                onChange={(e) => setMarkup(e.target.value)}
+                disabled={!canWrite}
+                className={INPUT_CLASS}
+              />
+            </div>
+          </div>
+
+          {markets.length === 0 && <p className="text-sm text-nokturo-500">{t('priceLadder.noMarkets')}</p>}
+
+          {markets.map((market) => {
+            const form = fixed[market.id] ?? { wholesale: '', retail: '' };
+            const ladder = computePriceLadder(row, parseFloat(markup) || 0, market, {
+              wholesale_price: parseOptional(form.wholesale),
+              retail_price: parseOptional(form.retail),
+            });
+            const computed = computePriceLadder(row, parseFloat(markup) || 0, market, {
+              wholesale_price: parseOptional(form.wholesale),
+              retail_price: null,
+            });
+            const c = market.currency;
+            return (
+              <div key={market.id} className="rounded-lg p-3 bg-nokturo-100/60 dark:bg-white/5 space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm font-medium text-nokturo-900 dark:text-nokturo-100">{market.name}</span>
+                  <span className="text-xs text-nokturo-500">
+                    {c} · {t('priceLadder.vatPct', { rate: market.vat_rate })}
+                  </span>
+                </div>
+                <table className="w-full text-xs">
+                  <tbody>
+                    {[
+                      { label: t('priceLadder.cost'), value: ladder.cost, margin: null },
+                      { label: t('priceLadder.wholesale'), value: ladder.wholesale, margin: ladder.wholesaleMargin },
+                      { label: t('priceLadder.retailNet'), value: ladder.retailNet, margin: ladder.retailerMargin },
+                      { label: t('priceLadder.vat'), value: ladder.vat, margin: null },
+                      { label: t('priceLadder.retailGross'), value: ladder.retailGross, margin: ladder.directMargin },
+                    ].map((step) => (
+                      <tr key={step.label} className="border-t border-nokturo-200 dark:border-nokturo-700">
+                        <td className="py-1.5 pr-2 text-nokturo-600 dark:text-nokturo-400">{step.label}</td>
+                        <td className="py-1.5 px-2 text-right tabular-nums text-nokturo-900 dark:text-nokturo-100">
+                          {fmt(step.value, c)}
+                        </td>
+                        <td className="py-1.5 pl-2 text-right tabular-nums text-nokturo-500 w-20">
+                          {step.margin != null ? `${step.margin.toFixed(1)}%` : ''}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <span className="block text-xs text-nokturo-500 mb-1">{t('priceLadder.fixedWholesale')}</span>
+                    <input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={form.wholesale}
+                      onChange={(e) => setFixed((prev) => ({ ...prev, [market.id]: { ...form, wholesale: e.target.value } }))}
+                      placeholder={computed.wholesale.toFixed(2)}
+                      disabled={!canWrite}
+                      className={INPUT_CLASS}
+                    />
+                  </div>
+                  <div>
+                    <span className="block text-xs text-nokturo-500 mb-1">{t('priceLadder.fixedRetail')}</span>
+                    <input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={form.retail}
+                      onChange={(e) => setFixed((prev) => ({ ...prev, [market.id]: { ...form, retail: e.target.value } }))}
+                      placeholder={computed.retailGross.toFixed(2)}
+                      disabled={!canWrite}
+                      className={INPUT_CLASS}
+                    />
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+          <p className="text-xs text-nokturo-500">{t('priceLadder.marginsHint')}</p>
+        </div>
+
+        <div className="relative z-10 flex flex-col gap-3 px-6 py-4 shrink-0 mt-auto bg-elevated">
+          {error && (
+            <div className="text-red dark:text-red-fg text-sm bg-red/10 dark:bg-red/20 rounded-lg px-3 py-2 shrink-0">{error}</div>
+          )}
+          <div className="flex items-center justify-end gap-3">
+            <button type="button" onClick={onClose} className="px-4 py-2 text-sm text-nokturo-600 dark:text-nokturo-400 hover:text-nokturo-900 dark:hover:text-nokturo-100 transition-colors">
+              {canWrite ? t('common.cancel') : t('common.close')}
+            </button>
+            {canWrite && (
+              <button
+                type="button"
+                onClick={handleSave}
+                disabled={saving}
+                className="px-5 py-2 text-sm bg-nokturo-900 dark:bg-white dark:text-nokturo-900 text-white font-medium rounded-lg hover:bg-nokturo-800 dark:hover:bg-nokturo-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+              >
+                {saving && <MaterialIcon name="progress_activity" size={16} className="animate-spin shrink-0" />}
+                {t('common.save')}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
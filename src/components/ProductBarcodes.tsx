@@ -0,0 +1,136 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { supabase } from '../lib/supabase';
+import { MaterialIcon } from './icons/MaterialIcon';
+import type { ProductWithMaterials } from './ProductSlideOver';
+import {
+  assignMissingBarcodes,
+  barcodeUnits,
+  barcodesCsv,
+  downloadBarcode,
+  downloadBlob,
+  ean13DataUrl,
+  type ProductBarcode,
+} from '../lib/barcodes';
+
+interface ProductBarcodesProps {
+  product: ProductWithMaterials;
+  canWrite: boolean;
+  onChange: (barcodes: ProductBarcode[]) => void;
+}
+
+/** Sellable units of a product (variant × size) with their SKUs and EAN-13 barcodes */
+export function ProductBarcodes({ product, canWrite, onChange }: ProductBarcodesProps) {
+  const { t } = useTranslation();
+  const [assigning, setAssigning] = useState(false);
+  const [error, setError] = useState('');
+
+  const units = barcodeUnits(product, product.product_variants, product.product_barcodes);
+  const missing = units.filter((u) => !u.ean).length;
+
+  const handleAssign = async () => {
+    setError('');
+    setAssigning(true);
+    const err = await assignMissingBarcodes(product.id, units);
+    if (err) setError(err);
+    const { data } = await supabase
+      .from('product_barcodes')
+      .select('id, product_id, variant_id, size, ean')
+      .eq('product_id', product.id);
+    if (data) onChange(data as ProductBarcode[]);
+    setAssigning(false);
+  };
+
+  const handleExport = () => {
+    const csv = barcodesCsv(
+      units
+        .filter((u) => u.ean)
+        .map((u) => ({ product: product.name, variant: u.variant?.name ?? null, size: u.size, sku: u.sku, ean: u.ean! })),
+      [t('products.name'), t('products.variants.variant'), t('products.barcodes.size'), t('products.sku'), 'EAN']
+    );
+    downloadBlob(new Blob([csv], { type: 'text/csv;charset=utf-8' }), `${product.sku || product.name}-barcodes.csv`);
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-4 mb-3">
+        {canWrite && missing > 0 && (
+          <button
+            type="button"
+            onClick={handleAssign}
+            disabled={assigning}
+            className="inline-flex items-center gap-1 text-sm text-nokturo-600 dark:text-nokturo-400 hover:text-nokturo-900 dark:hover:text-nokturo-100 transition-colors disabled:opacity-50"
+          >
+            <MaterialIcon
+              name={assigning ? 'progress_activity' : 'barcode'}
+              size={16}
+              className={`shrink-0 ${assigning ? 'animate-spin' : ''}`}
+            />
+            {t('products.barcodes.assign', { count: missing })}
+          </button>
+        )}
+        {units.some((u) => u.ean) && (
+          <button
+            type="button"
+            onClick={handleExport}
+            className="inline-flex items-center gap-1 text-sm text-nokturo-600 dark:text-nokturo-400 hover:text-nokturo-900 dark:hover:text-nokturo-100 transition-colors"
+          >
+            <MaterialIcon name="download" size={16} className="shrink-0" />
+            {t('products.barcodes.exportCsv')}
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-3 text-red dark:text-red-fg text-sm bg-red/10 dark:bg-red/20 rounded-lg px-3 py-2">{error}</div>
+      )}
+
+      <div className="space-y-2">
+        {units.map((u) => (
+          <div
+            key={`${u.variant?.id ?? ''}|${u.size ?? ''}`}
+            className="flex items-center gap-4 p-3 bg-nokturo-50 dark:bg-nokturo-800 min-w-0"
+            style={{ borderRadius: '8px' }}
+          >
+            <div className="min-w-0 flex-1">
+              <p className="text-sm text-nokturo-900 dark:text-nokturo-100 truncate">
+                {[u.variant?.name, u.size].filter(Boolean).join(' · ') || product.name}
+              </p>
+              <div className="flex flex-wrap items-center gap-1.5 mt-1">
+                {u.sku && (
+                  <span className="text-[11px] font-mono px-1.5 py-0.5 rounded bg-nokturo-200/60 dark:bg-nokturo-700/60 text-nokturo-700 dark:text-nokturo-300">
+                    {u.sku}
+                  </span>
+                )}
+                <span className="text-xs font-mono text-nokturo-600 dark:text-nokturo-400">
+                  {u.ean ?? t('products.barcodes.none')}
+                </span>
+              </div>
+            </div>
+            {u.ean && (
+              <>
+                <img src={ean13DataUrl(u.ean)} alt={u.ean} className="h-12 rounded bg-white shrink-0" />
+                <div className="flex flex-col gap-0.5 shrink-0">
+                  <button
+                    type="button"
+                    onClick={() => downloadBarcode(u.ean!, 'svg')}
+                    className="text-[11px] text-nokturo-600 dark:text-nokturo-400 hover:text-nokturo-900 dark:hover:text-nokturo-100 transition-colors"
+                  >
+                    SVG
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => downloadBarcode(u.ean!, 'png')}
+                    className="text-[11px] text-nokturo-600 dark:text-nokturo-400 hover:text-nokturo-900 dark:hover:text-nokturo-100 transition-colors"
+                  >
+                    PNG
+                  </button>
+                </div>
+              </>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@ import { useNavigate } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import { MaterialIcon } from './icons/MaterialIcon';
 import type { ProductWithMaterials } from './ProductSlideOver';
+import { sortVariants } from '../lib/productVariants';
 
 // ── Status badge colours (shared with product pages) ─────────────
 const STATUS_COLORS: Record<string, string> = {
@@ -12,6 +13,9 @@ const STATUS_COLORS: Record<string, string> = {
   archived: 'bg-nokturo-500 text-white',
 };
 
+/** Colorway dots shown on the card; the rest is summarised as +N */
+const MAX_SWATCHES = 6;
+
 export interface ProductCardProps {
   product: ProductWithMaterials;
   /** URL to navigate on click (e.g. `/production/products/${id}` or `/production/sampling/${id}`) */
@@ -21,8 +25,7 @@ export interface ProductCardProps {
 }
 
 /**
- * Shared product card component – used by ProductsPage and SamplingPage.
- * Changes here apply to both pages (like Webflow symbols).
+ * Shared product card component – used by ProductsPage.
  */
 export function ProductCard({ product, to, showReadyBadge = false }: ProductCardProps) {
   const { t } = useTranslation();
@@ -30,6 +33,7 @@ export function ProductCard({ product, to, showReadyBadge = false }: ProductCard
 
   const tp = product.tech_pack as { preview_photo_url?: string; design_gallery?: { url: string }[] } | undefined;
   const previewImage = tp?.preview_photo_url ?? tp?.design_gallery?.[0]?.url;
+  const variants = sortVariants(product.product_variants);
 
   return (
     <div className="group relative bg-nokturo-50 dark:bg-nokturo-800 transition-all" style={{ borderRadius: '8px', overflow: 'hidden' }}>
@@ -84,6 +88,22 @@ export function ProductCard({ product, to, showReadyBadge = false }: ProductCard
               {product.sku}
             </p>
           )}
+          {variants.length > 0 && (
+            <div className="flex items-center gap-1 mt-2" title={variants.map((v) => v.name).join(', ')}>
+              {variants.slice(0, MAX_SWATCHES).map((v) => (
+                <span
+                  key={v.id}
+                  className="avatar-round w-4 h-4 shrink-0 overflow-hidden bg-nokturo-300 dark:bg-nokturo-600 ring-1 ring-nokturo-200 dark:ring-nokturo-700"
+                  style={{ backgroundColor: v.swatch_url ? undefined : v.color_code ?? undefined }}
+                >
+                  {v.swatch_url && <img src={v.swatch_url} alt="" className="w-full h-full object-cover" />}
+                </span>
+              ))}
+              {variants.length > MAX_SWATCHES && (
+                <span className="text-[11px] text-nokturo-500 dark:text-nokturo-400">+{variants.length - MAX_SWATCHES}</span>
+              )}
+            </div>
+          )}
         </div>
       </button>
     </div>
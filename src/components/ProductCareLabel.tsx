@@ -0,0 +1,201 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { supabase } from '../lib/supabase';
+import { MaterialIcon } from './icons/MaterialIcon';
+import type { ProductWithMaterials } from './ProductSlideOver';
+import { downloadBlob } from '../lib/barcodes';
+import { recordProductVersion } from '../lib/productVersions';
+import {
+  CARE_LABEL_LANGUAGES,
+  CARE_LABEL_LANGUAGE_NAMES,
+  CARE_SYMBOLS,
+  CARE_SYMBOL_GROUPS,
+  careLabelLanguages,
+  careLabelSvg,
+  careSymbolDataUrl,
+  computeFibreContent,
+  fibreContentText,
+  type CareLabelLanguage,
+  type CareLabelSettings,
+  type CareSymbolGroup,
+} from '../lib/careLabel';
+
+interface ProductCareLabelProps {
+  product: ProductWithMaterials;
+  canWrite: boolean;
+  onChange: (settings: CareLabelSettings) => void;
+}
+
+/** Generated fibre content per label language and the ISO 3758 care symbols of a product */
+export function ProductCareLabel({ product, canWrite, onChange }: ProductCareLabelProps) {
+  const { t } = useTranslation();
+  const [error, setError] = useState('');
+  const [copied, setCopied] = useState<CareLabelLanguage | null>(null);
+
+  const settings = product.care_label ?? {};
+  const languages = careLabelLanguages(settings);
+  const content = computeFibreContent(product);
+  const careLabel = (product.product_labels ?? []).find((pl) => !pl.variant_id && pl.label?.typ === 'care')?.label ?? null;
+
+  const save = async (next: CareLabelSettings) => {
+    setError('');
+    onChange(next);
+    const { error: e } = await supabase.from('products').update({ care_label: next }).eq('id', product.id);
+    if (e) setError(t('careLabel.saveFailed'));
+    else await recordProductVersion(product.id);
+  };
+
+  const toggleLanguage = (lang: CareLabelLanguage) => {
+    const next = languages.includes(lang) ? languages.filter((l) => l !== lang) : [...languages, lang];
+    if (next.length === 0) return;
+    save({ ...settings, languages: CARE_LABEL_LANGUAGES.filter((l) => next.includes(l)) });
+  };
+
+  const toggleSymbol = (group: CareSymbolGroup, code: string) => {
+    const symbols = { ...(settings.symbols ?? {}) };
+    if (symbols[group] === code) delete symbols[group];
+    else symbols[group] = code;
+    save({ ...settings, symbols });
+  };
+
+  const handleCopy = async (lang: CareLabelLanguage) => {
+    await navigator.clipboard.writeText(fibreContentText(content, lang));
+    setCopied(lang);
+    setTimeout(() => setCopied(null), 1500);
+  };
+
+  const handleDownload = () => {
+    const svg = careLabelSvg(content, settings, careLabel ?? undefined);
+    downloadBlob(new Blob([svg], { type: 'image/svg+xml' }), `${product.sku || product.name}-care-label.svg`);
+  };
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="text-red dark:text-red-fg text-sm bg-red/10 dark:bg-red/20 rounded-lg px-3 py-2">{error}</div>
+      )}
+
+      {/* Attached physical care label */}
+      <div className="flex flex-wrap items-center gap-4">
+        <p className="text-sm text-nokturo-600 dark:text-nokturo-400 flex-1 min-w-0">
+          {careLabel
+            ? t('careLabel.attached', {
+                name: careLabel.name,
+                size:
+                  careLabel.width_mm != null && careLabel.height_mm != null
+                    ? `${careLabel.height_mm} × ${careLabel.width_mm} mm`
+                    : '—',
+              })
+            : t('careLabel.noCareLabel')}
+        </p>
+        {content.sections.length > 0 && (
+          <button
+            type="button"
+            onClick={handleDownload}
+            className="inline-flex items-center gap-1 text-sm text-nokturo-600 dark:text-nokturo-400 hover:text-nokturo-900 dark:hover:text-nokturo-100 transition-colors"
+          >
+            <MaterialIcon name="download" size={16} className="shrink-0" />
+            {t('careLabel.downloadArtwork')}
+          </button>
+        )}
+      </div>
+
+      {/* Fibre content */}
+      <div>
+        <div className="flex flex-wrap items-center gap-1.5 mb-3">
+          <span className="text-xs text-nokturo-500 dark:text-nokturo-400 mr-1">{t('careLabel.languages')}</span>
+          {CARE_LABEL_LANGUAGES.map((lang) => {
+            const active = languages.includes(lang);
+            return (
+              <button
+                key={lang}
+                type="button"
+                disabled={!canWrite}
+                onClick={() => toggleLanguage(lang)}
+                title={CARE_LABEL_LANGUAGE_NAMES[lang]}
+                className={`px-2 py-0.5 text-xs uppercase rounded-full transition-colors disabled:cursor-default ${
+                  active
+                    ? 'bg-nokturo-900 text-white dark:bg-white dark:text-nokturo-900'
+                    : 'bg-nokturo-200/60 dark:bg-nokturo-700/60 text-nokturo-600 dark:text-nokturo-400 hover:text-nokturo-900 dark:hover:text-nokturo-100'
+                }`}
+              >
+                {lang}
+              </button>
+            );
+          })}
+        </div>
+
+        {content.sections.length === 0 ? (
+          <p className="text-sm text-nokturo-500 dark:text-nokturo-400">{t('careLabel.noComposition')}</p>
+        ) : (
+          <div className="space-y-2">
+            {languages.map((lang) => (
+              <div
+                key={lang}
+                className="flex items-start gap-4 p-3 bg-nokturo-50 dark:bg-nokturo-800 min-w-0"
+                style={{ borderRadius: '8px' }}
+              >
+                <span className="text-[11px] font-mono uppercase px-1.5 py-0.5 rounded bg-nokturo-200/60 dark:bg-nokturo-700/60 text-nokturo-700 dark:text-nokturo-300 shrink-0">
+                  {lang}
+                </span>
+                <p className="text-sm text-nokturo-900 dark:text-nokturo-100 whitespace-pre-line flex-1 min-w-0">
+                  {fibreContentText(content, lang)}
+                </p>
+                <button
+                  type="button"
+                  onClick={() => handleCopy(lang)}
+                  className="shrink-0 p-1 text-nokturo-500 dark:text-nokturo-400 hover:text-nokturo-900 dark:hover:text-nokturo-100 transition-colors"
+                  title={t('careLabel.copy')}
+                  aria-label={t('careLabel.copy')}
+                >
+                  <MaterialIcon name={copied === lang ? 'check' : 'content_copy'} size={16} className="shrink-0" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+        {content.missingComposition.length > 0 && (
+          <p className="text-xs text-orange mt-2">
+            {t('careLabel.missingComposition', { names: content.missingComposition.join(', ') })}
+          </p>
+        )}
+      </div>
+
+      {/* Care symbols – one per group, click the selected one again to clear it */}
+      <div className="space-y-3">
+        {CARE_SYMBOL_GROUPS.map((group) => (
+          <div key={group}>
+            <p className="text-xs text-nokturo-500 dark:text-nokturo-400 mb-1.5">{t(`careLabel.groups.${group}`)}</p>
+            <div className="flex flex-wrap gap-1.5">
+              {Object.keys(CARE_SYMBOLS[group]).map((code) => {
+                const selected = settings.symbols?.[group] === code;
+                if (!canWrite && !selected) return null;
+                return (
+                  <button
+                    key={code}
+                    type="button"
+                    disabled={!canWrite}
+                    onClick={() => toggleSymbol(group, code)}
+                    title={t(`careLabel.symbols.${code}`)}
+                    aria-label={t(`careLabel.symbols.${code}`)}
+                    aria-pressed={selected}
+                    className={`w-11 h-12 p-1 rounded-lg bg-white transition-all disabled:cursor-default ${
+                      selected
+                        ? 'ring-2 ring-nokturo-900 dark:ring-nokturo-100'
+                        : 'opacity-40 hover:opacity-100'
+                    }`}
+                  >
+                    <img src={careSymbolDataUrl(code)} alt="" className="w-full h-full" />
+                  </button>
+                );
+              })}
+              {!canWrite && !settings.symbols?.[group] && (
+                <span className="text-sm text-nokturo-500 dark:text-nokturo-400">—</span>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,326 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useTranslation } from 'react-i18next';
+import { supabase } from '../lib/supabase';
+import { MaterialIcon } from './icons/MaterialIcon';
+import { SimpleDropdown } from './SimpleDropdown';
+import { INPUT_CLASS, MODAL_HEADING_CLASS } from '../lib/inputStyles';
+import { profileDisplayName } from './MentionSuggestions';
+import { exportTechPackPdf } from '../lib/techPackPdf';
+import {
+  PRODUCT_VERSION_SELECT,
+  diffSnapshots,
+  nextRevision,
+  restoreProductVersion,
+  snapshotToProduct,
+  type ProductVersion,
+  type VersionChange,
+} from '../lib/productVersions';
+import type { ProductWithMaterials } from './ProductSlideOver';
+
+interface ProductHistorySlideOverProps {
+  open: boolean;
+  product: ProductWithMaterials;
+  canWrite: boolean;
+  onClose: () => void;
+  /** Called after a version was restored – the page refetches the product */
+  onRestored: () => void;
+}
+
+/** Version timeline of a product with field-level diffs, restore and issuing of tech-pack revisions */
+export function ProductHistorySlideOver({ open, product, canWrite, onClose, onRestored }: ProductHistorySlideOverProps) {
+  const { t, i18n } = useTranslation();
+  const [versions, setVersions] = useState<ProductVersion[]>([]);
+  const [suppliers, setSuppliers] = useState<{ id: string; name: string }[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [issuing, setIssuing] = useState<{ versionId: string; supplierId: string; note: string } | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const locale = i18n.language === 'cs' ? 'cs-CZ' : 'en-US';
+
+  const fetchVersions = useCallback(async () => {
+    const { data } = await supabase
+      .from('product_versions')
+      .select(PRODUCT_VERSION_SELECT)
+      .eq('product_id', product.id)
+      .order('version_number', { ascending: false });
+    setVersions((data as unknown as ProductVersion[]) || []);
+    setLoading(false);
+  }, [product.id]);
+
+  useEffect(() => {
+    if (!open) return;
+    setLoading(true);
+    setError('');
+    setIssuing(null);
+    fetchVersions();
+    supabase
+      .from('suppliers')
+      .select('id, name')
+      .order('name')
+      .then(({ data }) => setSuppliers((data as { id: string; name: string }[]) || []));
+  }, [open, fetchVersions]);
+
+  useEffect(() => {
+    if (!open) return;
+    const channel = supabase
+      .channel(`product-versions-${product.id}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'product_versions', filter: `product_id=eq.${product.id}` },
+        () => fetchVersions()
+      )
+      .subscribe();
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [open, product.id, fetchVersions]);
+
+  if (!open) return null;
+
+  const formatDateTime = (d: string) =>
+    new Date(d).toLocaleString(locale, { day: 'numeric', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+  const handleRestore = async (version: ProductVersion) => {
+    if (!window.confirm(t('products.history.restoreConfirm', { version: version.version_number }))) return;
+    setBusy(version.id);
+    setError('');
+    try {
+      await restoreProductVersion(version);
+      onRestored();
+      fetchVersions();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleIssue = async () => {
+    if (!issuing) return;
+    setBusy(issuing.versionId);
+    setError('');
+    const { error: issueErr } = await supabase
+      .from('product_versions')
+      .update({
+        revision: nextRevision(versions),
+        issued_at: new Date().toISOString(),
+        issued_to: issuing.supplierId || null,
+        issue_note: issuing.note.trim() || null,
+      })
+      .eq('id', issuing.versionId);
+    setBusy(null);
+    if (issueErr) {
+      setError(issueErr.message);
+      return;
+    }
+    setIssuing(null);
+    fetchVersions();
+  };
+
+  const handleExport = async (version: ProductVersion) => {
+    setBusy(version.id);
+    setError('');
+    try {
+      await exportTechPackPdf(snapshotToProduct(version, product), {
+        t,
+        locale,
+        revision: version.revision,
+        date: version.issued_at ? new Date(version.issued_at) : undefined,
+      });
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const renderChange = (c: VersionChange, idx: number) => (
+    <li key={idx} className="text-sm">
+      <span className="text-nokturo-500 dark:text-nokturo-400">{t(c.labelKey, c.labelParams)}: </span>
+      {c.kind === 'added' ? (
+        <span className="text-green-fg">+ {c.after}</span>
+      ) : c.kind === 'removed' ? (
+        <span className="text-red-fg line-through">{c.before}</span>
+      ) : (
+        <>
+          <span className="text-nokturo-500 line-through">{c.before}</span>
+          <span className="text-nokturo-500"> → </span>
+          <span className="text-nokturo-900 dark:text-nokturo-100">{c.after}</span>
+        </>
+      )}
+    </li>
+  );
+
+  return (
+    <>
+      <div className="fixed inset-0 z-40 bg-overlay backdrop-blur-sm" onClick={onClose} />
+      <div className="fixed inset-y-0 right-0 z-50 w-full sm:max-w-lg bg-nokturo-900 shadow-2xl flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-nokturo-200 dark:border-nokturo-600 shrink-0">
+          <h3 className={MODAL_HEADING_CLASS}>{t('products.history.title')}</h3>
+          <button
+            onClick={onClose}
+            className="p-1.5 text-nokturo-500 dark:text-nokturo-400 hover:text-nokturo-900 dark:hover:text-nokturo-100 transition-colors rounded-lg hover:bg-nokturo-100 dark:hover:bg-nokturo-700"
+          >
+            <MaterialIcon name="close" size={20} className="shrink-0" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mx-6 mt-4 text-red dark:text-red-fg text-sm bg-red/10 dark:bg-red/20 rounded-lg px-3 py-2 shrink-0">{error}</div>
+        )}
+
+        <div className="flex-1 overflow-y-auto px-6 py-4">
+          {loading ? (
+            <div className="flex items-center justify-center py-16">
+              <MaterialIcon name="progress_activity" size={24} className="animate-spin text-nokturo-500 shrink-0" />
+            </div>
+          ) : versions.length === 0 ? (
+            <p className="text-sm text-nokturo-500 dark:text-nokturo-400 py-8 text-center">{t('products.history.empty')}</p>
+          ) : (
+            <ol className="relative border-l border-nokturo-300 dark:border-nokturo-600 ml-1.5 space-y-5">
+              {versions.map((version, idx) => {
+                const older = versions[idx + 1] ?? null;
+                const changes = diffSnapshots(older?.snapshot ?? null, version.snapshot);
+                const isLatest = idx === 0;
+                const isOpen = expanded === version.id || (expanded == null && isLatest);
+                return (
+                  <li key={version.id} className="pl-5 relative">
+                    <span
+                      className={`absolute -left-[5px] top-1.5 size-2.5 rounded-full ${
+                        version.issued_at ? 'bg-green' : 'bg-nokturo-400 dark:bg-nokturo-500'
+                      }`}
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setExpanded(isOpen ? '' : version.id)}
+                      className="w-full text-left"
+                    >
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <span className="text-sm font-medium text-nokturo-900 dark:text-nokturo-100">
+                          {t('products.history.version', { number: version.version_number })}
+                        </span>
+                        {version.revision && (
+                          <span className="text-xs px-2 py-0.5 font-medium rounded-[4px] bg-green text-green-fg">
+                            {t('products.techPack.pdf.revisionLabel', { revision: version.revision })}
+                          </span>
+                        )}
+                        {isLatest && (
+                          <span className="text-xs text-nokturo-500 dark:text-nokturo-400">{t('products.history.current')}</span>
+                        )}
+                      </div>
+                      <p className="text-xs text-nokturo-500 dark:text-nokturo-400 mt-0.5">
+                        {formatDateTime(version.updated_at)}
+                        {version.author && ` · ${profileDisplayName({ id: '', ...version.author })}`}
+                        {!isOpen && changes.length > 0 && ` · ${t('products.history.changes', { count: changes.length })}`}
+                      </p>
+                    </button>
+
+                    {version.issued_at && (
+                      <p className="text-xs text-nokturo-600 dark:text-nokturo-300 mt-1">
+                        {t('products.history.issuedInfo', {
+                          date: formatDateTime(version.issued_at),
+                          supplier: version.supplier?.name ?? '—',
+                        })}
+                        {version.issue_note && ` – ${version.issue_note}`}
+                      </p>
+                    )}
+
+                    {isOpen && (
+                      <div className="mt-2 space-y-3">
+                        {changes.length > 0 ? (
+                          <ul className="space-y-1 rounded-lg p-3 bg-nokturo-100/60 dark:bg-white/5">{changes.map(renderChange)}</ul>
+                        ) : (
+                          <p className="text-xs text-nokturo-500 dark:text-nokturo-400">
+                            {older ? t('products.history.noChanges') : t('products.history.initial')}
+                          </p>
+                        )}
+
+                        {issuing?.versionId === version.id ? (
+                          <div className="rounded-lg p-3 bg-nokturo-100/60 dark:bg-white/5 space-y-2">
+                            <p className="text-sm text-nokturo-900 dark:text-nokturo-100">
+                              {t('products.history.issueAs', { revision: nextRevision(versions) })}
+                            </p>
+                            <SimpleDropdown
+                              value={issuing.supplierId}
+                              onChange={(v) => setIssuing({ ...issuing, supplierId: v })}
+                              options={[
+                                { value: '', label: t('products.history.noFactory') },
+                                ...suppliers.map((s) => ({ value: s.id, label: s.name })),
+                              ]}
+                            />
+                            <input
+                              type="text"
+                              value={issuing.note}
+                              onChange={(e) => setIssuing({ ...issuing, note: e.target.value })}
+                              placeholder={t('products.history.issueNotePlaceholder')}
+                              className={INPUT_CLASS}
+                            />
+                            <div className="flex justify-end gap-2">
+                              <button
+                                type="button"
+                                onClick={() => setIssuing(null)}
+                                className="px-3 py-1.5 text-sm text-nokturo-600 dark:text-nokturo-400 hover:text-nokturo-900 dark:hover:text-nokturo-100 transition-colors"
+                              >
+                                {t('common.cancel')}
+                              </button>
+                              <button
+                                type="button"
+                                onClick={handleIssue}
+                                disabled={busy === version.id}
+                                className="px-4 py-1.5 text-sm bg-nokturo-900 dark:bg-white dark:text-nokturo-900 text-white font-medium rounded-lg hover:bg-nokturo-800 dark:hover:bg-nokturo-100 transition-colors disabled:opacity-50 flex items-center gap-2"
+                              >
+                                {busy === version.id && <MaterialIcon name="progress_activity" size={14} className="animate-spin shrink-0" />}
+                                {t('products.history.issue')}
+                              </button>
+                            </div>
+                          </div>
+                        ) : (
+                          <div className="flex flex-wrap gap-3">
+                            {canWrite && !isLatest && (
+                              <button
+                                type="button"
+                                onClick={() => handleRestore(version)}
+                                disabled={busy != null}
+                                className="inline-flex items-center gap-1 text-sm text-nokturo-600 dark:text-nokturo-400 hover:text-nokturo-900 dark:hover:text-nokturo-100 transition-colors disabled:opacity-50"
+                              >
+                                <MaterialIcon name="history" size={16} className="shrink-0" />
+                                {t('products.history.restore')}
+                              </button>
+                            )}
+                            {canWrite && isLatest && !version.issued_at && (
+                              <button
+                                type="button"
+                                onClick={() => setIssuing({ versionId: version.id, supplierId: '', note: '' })}
+                                className="inline-flex items-center gap-1 text-sm text-nokturo-600 dark:text-nokturo-400 hover:text-nokturo-900 dark:hover:text-nokturo-100 transition-colors"
+                              >
+                                <MaterialIcon name="verified" size={16} className="shrink-0" />
+                                {t('products.history.issueAs', { revision: nextRevision(versions) })}
+                              </button>
+                            )}
+                            {version.issued_at && (
+                              <button
+                                type="button"
+                                onClick={() => handleExport(version)}
+                                disabled={busy != null}
+                                className="inline-flex items-center gap-1 text-sm text-nokturo-600 dark:text-nokturo-400 hover:text-nokturo-900 dark:hover:text-nokturo-100 transition-colors disabled:opacity-50"
+                              >
+                                <MaterialIcon name="picture_as_pdf" size={16} className="shrink-0" />
+                                {t('products.techPack.exportPdf')}
+                              </button>
+                            )}
+                          </div>
+                        )}
+                      </div>
+                    )}
+                  </li>
+                );
+              })}
+            </ol>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
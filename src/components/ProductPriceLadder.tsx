@@ -0,0 +1,98 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { supabase } from '../lib/supabase';
+import { useExchangeRates } from '../lib/currency';
+import { computeCostingRow } from '../lib/costing';
+import {
+  computePriceLadder,
+  fetchSalesMarkets,
+  type ProductPrice,
+  type SalesMarket,
+} from '../lib/priceLadder';
+import type { ProductWithMaterials } from './ProductSlideOver';
+import { resolveVariantBom } from '../lib/productVariants';
+
+interface ProductPriceLadderProps {
+  product: ProductWithMaterials;
+}
+
+/** Read-only price ladder per sales market – used in the tech pack */
+export function ProductPriceLadder({ product }: ProductPriceLadderProps) {
+  const { t } = useTranslation();
+  const { baseCurrency } = useExchangeRates();
+  const [markets, setMarkets] = useState<SalesMarket[]>([]);
+  const [prices, setPrices] = useState<ProductPrice[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([
+      fetchSalesMarkets(),
+      supabase.from('product_prices').select('*').eq('product_id', product.id),
+    ]).then(([m, p]) => {
+      if (cancelled) return;
+      setMarkets(m);
+      setPrices((p.data as ProductPrice[]) || []);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [product.id]);
+
+  if (markets.length === 0) return null;
+
+  const row = computeCostingRow(resolveVariantBom(product, null), baseCurrency);
+  const ladders = markets.map((m) =>
+    computePriceLadder(row, product.wholesale_markup ?? 2, m, prices.find((p) => p.market_id === m.id))
+  );
+  const fmt = (n: number) => n.toFixed(2);
+
+  return (
+    <section>
+      <h4 className="text-heading-5 font-extralight text-nokturo-400 uppercase tracking-wider mb-3">
+        {t('priceLadder.title')}
+      </h4>
+
+      <div className="bg-nokturo-900 border border-nokturo-700 rounded-lg overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-nokturo-700 text-nokturo-400">
+                <th className="text-left px-4 py-2.5 font-medium">{t('priceLadder.market')}</th>
+                <th className="text-right px-3 py-2.5 font-medium">{t('priceLadder.cost')}</th>
+                <th className="text-right px-3 py-2.5 font-medium">{t('priceLadder.wholesale')}</th>
+                <th className="text-right px-3 py-2.5 font-medium">{t('priceLadder.retailNet')}</th>
+                <th className="text-right px-4 py-2.5 font-medium">{t('priceLadder.retailGross')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {ladders.map((l) => (
+                <tr key={l.market.id} className="border-b border-nokturo-700/50 last:border-b-0">
+                  <td className="px-4 py-2.5 text-white">
+                    {l.market.name}
+                    <span className="block text-nokturo-500 text-xs">
+                      {l.market.currency} · {t('priceLadder.vatPct', { rate: l.market.vat_rate })}
+                    </span>
+                  </td>
+                  <td className="px-3 py-2.5 text-right text-nokturo-300">{fmt(l.cost)}</td>
+                  <td className="px-3 py-2.5 text-right text-nokturo-200">
+                    {fmt(l.wholesale)}
+                    <span className="block text-nokturo-500 text-xs">{l.wholesaleMargin.toFixed(1)}%</span>
+                  </td>
+                  <td className="px-3 py-2.5 text-right text-nokturo-200">
+                    {fmt(l.retailNet)}
+                    <span className="block text-nokturo-500 text-xs">{l.retailerMargin.toFixed(1)}%</span>
+                  </td>
+                  <td className="px-4 py-2.5 text-right text-white font-medium">
+                    {fmt(l.retailGross)} {l.market.currency}
+                    <span className="block text-nokturo-500 text-xs font-normal">{l.directMargin.toFixed(1)}%</span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <p className="border-t border-nokturo-600 px-4 py-2.5 text-xs text-nokturo-500">{t('priceLadder.marginsHint')}</p>
+      </div>
+    </section>
+  );
+}
@@ -10,16 +10,36 @@ import { SelectField } from './SelectField';
 import { RichTextBlockEditor, isBlockEmpty } from './RichTextBlockEditor';
 import type { Material } from './MaterialSlideOver';
 import type { Label } from './LabelSlideOver';
+import type { Component } from './ComponentSlideOver';
 import type { NotionSelectOption } from './NotionSelect';
 
 type MaterialWithSupplier = Material & { supplier?: { name: string } | null };
 import type { RichTextBlock } from './RichTextBlockEditor';
 import { ToastContainer } from './Toast';
 import type { ToastData } from './Toast';
-import { useExchangeRates, convertToCzk } from '../lib/currency';
+import { useExchangeRates, formatPriceWithBase, CURRENCIES } from '../lib/currency';
+import { SIZE_RUN_PRESETS, parseSizeRun, type SizeValues } from '../lib/sizeRun';
+import type { PointOfMeasure } from '../lib/pointsOfMeasure';
+import type { CareLabelSettings } from '../lib/careLabel';
+import { PointsOfMeasureEditor } from './PointsOfMeasureEditor';
+import { recordProductVersion } from '../lib/productVersions';
+import { duplicateSkus, generateSkus, sortVariants, type ProductVariant } from '../lib/productVariants';
+import {
+  ComponentLinkRow,
+  ProductVariantsEditor,
+  type BaseComponentLink,
+  type VariantComponentLink,
+  type VariantDraft,
+} from './ProductVariantsEditor';
+import type { ProductBarcode } from '../lib/barcodes';
+import { buildProductSku, fetchNextSkuNumber, fillColorwaySuffixes } from '../lib/sku';
+import { useWorkspaceStore } from '../stores/workspaceStore';
+import { collectionSeasonCode, useCollections } from '../lib/collections';
 import { UploadImageIcon } from './icons/UploadImageIcon';
 import { MoodboardIcon } from './icons/MoodboardIcon';
 import { INPUT_CLASS, MODAL_HEADING_CLASS } from '../lib/inputStyles';
+import { canDeleteAnything } from '../lib/rbac';
+import { fetchOpenBlockingCount } from '../lib/comments';
 
 // ── Constants ─────────────────────────────────────────────────
 // Notion-style tag colors (same as MoodboardPage)
@@ -65,16 +85,31 @@ export interface Product {
   description: string | null;
   description_blocks?: RichTextBlock[] | null;
   category: string | null;
-  season: string | null;
+  collection_id?: string | null;
+  /** Running number within the workspace SKU scheme */
+  sku_number?: number | null;
   status: string;
   labor_cost: number;
   overhead_cost: number;
+  /** Currency of labor_cost and overhead_cost */
+  labor_overhead_currency: string;
   markup_multiplier: number;
+  /** COGS → wholesale price multiplier (price ladder) */
+  wholesale_markup?: number;
   tech_pack: ProductTechPack;
   images: string[];
+  /** Ordered size run (e.g. 34–44 or XS–XL) */
+  size_run?: string[];
+  /** Planned units per size – weights for the average cost */
+  size_ratio?: SizeValues;
   hidden?: boolean;
   ready_for_sampling?: boolean;
+  /** Set when a founder marked it ready for sampling despite open blocking comments */
+  sampling_override_at?: string | null;
+  sampling_override_by?: string | null;
   priority?: boolean;
+  /** Care symbols and label languages for the generated care label */
+  care_label?: CareLabelSettings | null;
   created_by: string | null;
   created_at: string;
   updated_at: string;
@@ -89,6 +124,8 @@ export interface ProductTechPack {
   interlining?: string;
   waistband?: string;
   seam_allowance?: string;
+  /** Measurement chart – per-size specs the samples are checked against */
+  points_of_measure?: PointOfMeasure[];
   [key: string]: unknown;
 }
 
@@ -98,21 +135,39 @@ export interface ProductMaterialRow {
   consumption_amount: number;
   notes: string | null;
   role?: MaterialRole;
-  variant?: string | null;
+  /** Variant override (null = base BOM) */
+  variant_id?: string | null;
+  /** Grading: consumption per size (falls back to consumption_amount) */
+  consumption_by_size?: SizeValues | null;
   material: Material;
 }
 
+export interface ProductComponentRow {
+  id: string;
+  component_id: string;
+  quantity: number;
+  notes: string | null;
+  /** Grading: quantity per size (falls back to quantity) */
+  quantity_by_size?: SizeValues | null;
+  variant_id?: string | null;
+  component: Component;
+}
+
 export interface ProductLabelRow {
   id: string;
   label_id: string;
   placement: string[];
   notes: string | null;
+  variant_id?: string | null;
   label: Label;
 }
 
 export interface ProductWithMaterials extends Product {
   product_materials: ProductMaterialRow[];
   product_labels?: ProductLabelRow[];
+  product_components?: ProductComponentRow[];
+  product_variants?: ProductVariant[];
+  product_barcodes?: ProductBarcode[];
 }
 
 // ── Local link model for labels (with placement) ─────────────────
@@ -120,6 +175,8 @@ interface LinkedLabel {
   label_id: string;
   label: Label;
   placement: string[];
+  /** Variant override (null = base) */
+  variant_id?: string | null;
 }
 
 // ── Local link model (for the form) ──────────────────────────
@@ -128,7 +185,9 @@ interface LinkedMaterial {
   material: Material;
   consumption_amount: number;
   role: MaterialRole;
-  variant?: string;
+  /** Variant override (null = base) */
+  variant_id?: string | null;
+  consumption_by_size?: SizeValues;
 }
 
 interface GalleryImage {
@@ -147,6 +206,8 @@ interface MoodboardUploadImage {
 interface FormData {
   name: string;
   sku: string;
+  sku_number: string;
+  collection_id: string;
   category: string;
   status: string;
   hidden: boolean;
@@ -155,6 +216,7 @@ interface FormData {
   short_description: string;
   labor_cost: string;
   overhead_cost: string;
+  labor_overhead_currency: string;
   markup_multiplier: string;
   threads: string;
   interlining: string;
@@ -165,6 +227,8 @@ interface FormData {
 const emptyForm: FormData = {
   name: '',
   sku: '',
+  sku_number: '',
+  collection_id: '',
   category: 'coats',
   status: 'concept',
   hidden: false,
@@ -173,6 +237,7 @@ const emptyForm: FormData = {
   short_description: '',
   labor_cost: '0',
   overhead_cost: '0',
+  labor_overhead_currency: 'CZK',
   markup_multiplier: '2.5',
   threads: '',
   interlining: '',
@@ -189,6 +254,12 @@ interface ProductDraft {
   descriptionBlocks: RichTextBlock[];
   linkedMaterials: LinkedMaterial[];
   linkedLabels?: LinkedLabel[];
+  variants?: VariantDraft[];
+  baseComponents?: BaseComponentLink[];
+  variantComponents?: VariantComponentLink[];
+  sizeRun?: string[];
+  sizeRatio?: SizeValues;
+  pointsOfMeasure?: PointOfMeasure[];
   previewPhotoUrl: string | null;
   designGallery: GalleryImage[];
   moodboardGallery: GalleryImage[];
@@ -248,7 +319,7 @@ interface ProductSlideOverProps {
   /** Dynamic categories from product_categories table */
   categories: NotionSelectOption[];
   onCategoriesChange?: (options: NotionSelectOption[]) => void;
-  /** Only founder can delete. Hides remove material, delete version, etc. */
+  /** Only founder can delete. Hides remove material, delete variant, etc. */
   canDelete?: boolean;
 }
 
@@ -256,13 +327,15 @@ interface ProductSlideOverProps {
 function MaterialSection({
   title,
   role,
-  version,
+  variantId,
   materials,
   availableMaterials,
   linkedIdsInSection,
   onAdd,
   onRemove,
   onUpdateConsumption,
+  onUpdateSizeConsumption,
+  sizeRun = [],
   pickerOpen,
   setPickerOpen,
   search,
@@ -274,13 +347,17 @@ function MaterialSection({
 }: {
   title: string;
   role: MaterialRole;
-  version: string;
+  /** null = base BOM */
+  variantId: string | null;
   materials: LinkedMaterial[];
   availableMaterials: MaterialWithSupplier[];
   linkedIdsInSection: Set<string>;
-  onAdd: (mat: Material, version: string) => void;
-  onRemove: (materialId: string, version: string, role: MaterialRole) => void;
-  onUpdateConsumption: (materialId: string, amount: number, version: string, role: MaterialRole) => void;
+  onAdd: (mat: Material, variantId: string | null) => void;
+  onRemove: (materialId: string, variantId: string | null, role: MaterialRole) => void;
+  onUpdateConsumption: (materialId: string, amount: number, variantId: string | null, role: MaterialRole) => void;
+  onUpdateSizeConsumption?: (materialId: string, size: string, amount: number | null, variantId: string | null, role: MaterialRole) => void;
+  /** When set, each row shows a grading line with consumption per size */
+  sizeRun?: string[];
   pickerOpen: boolean;
   setPickerOpen: (v: boolean) => void;
   search: string;
@@ -322,9 +399,10 @@ function MaterialSection({
       <div className="space-y-2 mb-2">
         {materials.map((lm) => (
           <div
-            key={`${lm.material_id}-${lm.variant ?? ''}`}
-            className="flex items-center gap-2 bg-nokturo-50 dark:bg-nokturo-700/50 rounded-lg p-2"
+            key={`${lm.material_id}-${lm.variant_id ?? ''}`}
+            className="bg-nokturo-50 dark:bg-nokturo-700/50 rounded-lg p-2"
           >
+          <div className="flex items-center gap-2">
             <div className="w-8 h-8 shrink-0 rounded-lg overflow-hidden bg-nokturo-100 dark:bg-nokturo-600">
               {lm.material.image_url ? (
                 <img
@@ -356,7 +434,7 @@ function MaterialSection({
                 min="0"
                 value={lm.consumption_amount}
                 onChange={(e) =>
-                  onUpdateConsumption(lm.material_id, parseFloat(e.target.value) || 0, version, role)
+                  onUpdateConsumption(lm.material_id, parseFloat(e.target.value) || 0, variantId, role)
                 }
                 className="w-14 h-7 bg-transparent rounded-[6px] px-1.5 py-0.5 text-sm text-right text-nokturo-900 dark:text-nokturo-100 focus:outline-none focus:ring-2 focus:ring-nokturo-500"
               />
@@ -365,7 +443,7 @@ function MaterialSection({
             {canDelete && (
               <button
                 type="button"
-                onClick={() => onRemove(lm.material_id, version, role)}
+                onClick={() => onRemove(lm.material_id, variantId, role)}
                 className="p-1 text-nokturo-500 hover:text-red-fg shrink-0"
                 title={t('products.materials.remove')}
               >
@@ -373,6 +451,34 @@ function MaterialSection({
               </button>
             )}
           </div>
+          {sizeRun.length > 0 && onUpdateSizeConsumption && (
+            <div className="flex flex-wrap items-end gap-1.5 mt-2 pl-10">
+              {sizeRun.map((size) => (
+                <label key={size} className="flex flex-col items-center gap-0.5">
+                  <span className="text-[10px] text-nokturo-500 dark:text-nokturo-400">{size}</span>
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={lm.consumption_by_size?.[size] ?? ''}
+                    placeholder={String(lm.consumption_amount)}
+                    onChange={(e) =>
+                      onUpdateSizeConsumption(
+                        lm.material_id,
+                        size,
+                        e.target.value === '' ? null : parseFloat(e.target.value) || 0,
+                        variantId,
+                        role
+                      )
+                    }
+                    className="w-14 h-7 bg-nokturo-200/60 dark:bg-nokturo-600/60 rounded-[6px] px-1.5 py-0.5 text-xs text-right text-nokturo-900 dark:text-nokturo-100 placeholder-nokturo-400 focus:outline-none focus:ring-2 focus:ring-nokturo-500"
+                    title={`${t('products.sizeRun.gradedConsumption')} – ${size}`}
+                  />
+                </label>
+              ))}
+            </div>
+          )}
+          </div>
         ))}
       </div>
       <div ref={pickerRef} className="relative">
@@ -400,7 +506,7 @@ function MaterialSection({
                     key={mat.id}
                     type="button"
                     onClick={() => {
-                      onAdd(mat, version);
+                      onAdd(mat, variantId);
                       setPickerOpen(false);
                       setSearch('');
                     }}
@@ -423,9 +529,9 @@ function MaterialSection({
                       <p className="text-sm font-medium text-nokturo-900 dark:text-nokturo-100 truncate">{mat.name}</p>
                       <p className="text-xs text-nokturo-500 dark:text-nokturo-400 mt-0.5">
                         {mat.price_per_unit} {mat.currency}/{mat.unit}
-                        {mat.currency !== 'CZK' && ['EUR', 'USD'].includes(mat.currency) && (
+                        {formatPriceWithBase(mat.price_per_unit, mat.currency).base && (
                           <span className="text-nokturo-400">
-                            {' '}≈ {convertToCzk(mat.price_per_unit, mat.currency).toFixed(2)} CZK
+                            {' '}≈ {formatPriceWithBase(mat.price_per_unit, mat.currency).base}
                           </span>
                         )}
                       </p>
@@ -464,6 +570,13 @@ export function ProductSlideOver({
   const [descriptionBlocks, setDescriptionBlocks] = useState<RichTextBlock[]>([]);
   const [linkedMaterials, setLinkedMaterials] = useState<LinkedMaterial[]>([]);
   const [linkedLabels, setLinkedLabels] = useState<LinkedLabel[]>([]);
+  const [variants, setVariants] = useState<VariantDraft[]>([]);
+  const [baseComponents, setBaseComponents] = useState<BaseComponentLink[]>([]);
+  const [variantComponents, setVariantComponents] = useState<VariantComponentLink[]>([]);
+  const [sizeRun, setSizeRun] = useState<string[]>([]);
+  const [sizeRunInput, setSizeRunInput] = useState('');
+  const [sizeRatio, setSizeRatio] = useState<SizeValues>({});
+  const [pointsOfMeasure, setPointsOfMeasure] = useState<PointOfMeasure[]>([]);
   const [availableLabels, setAvailableLabels] = useState<Label[]>([]);
   const [labelTypes, setLabelTypes] = useState<{ id: string; name: string }[]>([]);
   const [placementOptions, setPlacementOptions] = useState<NotionSelectOption[]>([]);
@@ -473,10 +586,18 @@ export function ProductSlideOver({
   const [designGallery, setDesignGallery] = useState<GalleryImage[]>([]);
   const [moodboardGallery, setMoodboardGallery] = useState<GalleryImage[]>([]);
   const [availableMaterials, setAvailableMaterials] = useState<MaterialWithSupplier[]>([]);
+  const [availableComponents, setAvailableComponents] = useState<Component[]>([]);
   const [materialSearch, setMaterialSearch] = useState<Record<string, string>>({});
   const [showPicker, setShowPicker] = useState<Record<string, boolean>>({});
   const [saving, setSaving] = useState(false);
+  const [generatingSku, setGeneratingSku] = useState(false);
+  const collections = useCollections(true);
   const [error, setError] = useState('');
+  const role = useAuthStore((s) => s.user?.role);
+  const canOverrideBlocking = role ? canDeleteAnything(role) : false;
+  /** Open blocking comments found when trying to mark the product ready for sampling */
+  const [samplingBlockers, setSamplingBlockers] = useState(0);
+  const [samplingOverride, setSamplingOverride] = useState(false);
   const [toasts, setToasts] = useState<ToastData[]>([]);
   const [galleryDragFrom, setGalleryDragFrom] = useState<{ gallery: 'design' | 'moodboard'; index: number } | null>(
     null
@@ -539,11 +660,16 @@ export function ProductSlideOver({
 
     if (!justOpened && !switchedProduct) return;
 
+    setSamplingBlockers(0);
+    setSamplingOverride(false);
+
     if (product) {
       const tp = (product.tech_pack || {}) as ProductTechPack;
       setForm({
         name: product.name,
         sku: product.sku || '',
+        sku_number: product.sku_number?.toString() ?? '',
+        collection_id: product.collection_id ?? '',
         category: product.category || 'coats',
         status: product.status,
         hidden: product.hidden ?? false,
@@ -552,6 +678,7 @@ export function ProductSlideOver({
         short_description: (product as Product).short_description ?? '',
         labor_cost: (product.labor_cost ?? 0).toString(),
         overhead_cost: (product.overhead_cost ?? 0).toString(),
+        labor_overhead_currency: product.labor_overhead_currency || 'CZK',
         markup_multiplier: (product.markup_multiplier ?? 2.5).toString(),
         threads: tp.threads ?? '',
         interlining: tp.interlining ?? '',
@@ -570,17 +697,53 @@ export function ProductSlideOver({
         material: p.material,
         consumption_amount: p.consumption_amount,
         role: (p.role || 'main') as MaterialRole,
-        variant: p.variant ?? '1',
+        variant_id: p.variant_id ?? null,
+        consumption_by_size: p.consumption_by_size ?? {},
       }));
       setLinkedMaterials(all);
+      setSizeRun(product.size_run ?? []);
+      setSizeRunInput((product.size_run ?? []).join(', '));
+      setSizeRatio(product.size_ratio ?? {});
+      setPointsOfMeasure(tp.points_of_measure ?? []);
       const pl = product.product_labels || [];
       setLinkedLabels(
         pl.map((p) => ({
           label_id: p.label_id,
           label: p.label,
           placement: p.placement || [],
+          variant_id: p.variant_id ?? null,
         }))
       );
+      setVariants(
+        sortVariants(product.product_variants).map((v) => ({
+          id: v.id,
+          name: v.name,
+          color_code: v.color_code,
+          swatch_url: v.swatch_url,
+          sku_suffix: v.sku_suffix,
+        }))
+      );
+      setBaseComponents(
+        (product.product_components || [])
+          .filter((pc) => !pc.variant_id)
+          .map((pc) => ({
+            component_id: pc.component_id,
+            component: pc.component,
+            quantity: pc.quantity,
+            quantity_by_size: pc.quantity_by_size ?? {},
+          }))
+      );
+      setVariantComponents(
+        (product.product_components || [])
+          .filter((pc) => pc.variant_id)
+          .map((pc) => ({
+            component_id: pc.component_id,
+            component: pc.component,
+            quantity: pc.quantity,
+            quantity_by_size: pc.quantity_by_size ?? {},
+            variant_id: pc.variant_id as string,
+          }))
+      );
       setPreviewPhotoUrl(tp.preview_photo_url ?? null);
       setDesignGallery(tp.design_gallery || []);
       setMoodboardGallery(
@@ -597,10 +760,17 @@ export function ProductSlideOver({
         setDescriptionBlocks(draft.descriptionBlocks || []);
         const draftMats = (draft.linkedMaterials || []).map((lm) => ({
           ...lm,
-          variant: lm.variant ?? '1',
+          variant_id: lm.variant_id ?? null,
         }));
         setLinkedMaterials(draftMats);
         setLinkedLabels((draft as ProductDraft & { linkedLabels?: LinkedLabel[] }).linkedLabels ?? []);
+        setVariants(draft.variants ?? []);
+        setBaseComponents(draft.baseComponents ?? []);
+        setVariantComponents(draft.variantComponents ?? []);
+        setSizeRun(draft.sizeRun ?? []);
+        setSizeRunInput((draft.sizeRun ?? []).join(', '));
+        setSizeRatio(draft.sizeRatio ?? {});
+        setPointsOfMeasure(draft.pointsOfMeasure ?? []);
         setPreviewPhotoUrl(draft.previewPhotoUrl ?? null);
         setDesignGallery(draft.designGallery || []);
         setMoodboardGallery(draft.moodboardGallery || []);
@@ -612,6 +782,13 @@ export function ProductSlideOver({
         setDescriptionBlocks([]);
         setLinkedMaterials([]);
         setLinkedLabels([]);
+        setVariants([]);
+        setBaseComponents([]);
+        setVariantComponents([]);
+        setSizeRun([]);
+        setSizeRunInput('');
+        setSizeRatio({});
+        setPointsOfMeasure([]);
         setPreviewPhotoUrl(null);
         setDesignGallery([]);
         setMoodboardGallery([]);
@@ -621,7 +798,6 @@ export function ProductSlideOver({
     setShowPicker({});
     setLabelPickerType(null);
     setLabelSearch('');
-    setExtraVersions(new Set());
     setReplaceTarget(null);
     setError('');
     setLastSavedAt(null);
@@ -634,6 +810,11 @@ export function ProductSlideOver({
         .select('*, supplier:suppliers(name)')
         .order('name')
         .then(({ data }) => data && setAvailableMaterials(data as MaterialWithSupplier[]));
+      supabase
+        .from('components')
+        .select('*')
+        .order('name')
+        .then(({ data }) => data && setAvailableComponents(data as Component[]));
       supabase
         .from('labels')
         .select('*, material:materials(*)')
@@ -732,6 +913,31 @@ export function ProductSlideOver({
   const handleChange = (field: keyof FormData, value: string | boolean) =>
     setForm((prev) => ({ ...prev, [field]: value }));
 
+  /** Product SKU from the workspace scheme; keeps an already assigned running number */
+  const handleGenerateSku = async () => {
+    const scheme = useWorkspaceStore.getState().skuScheme;
+    setGeneratingSku(true);
+    const number = scheme.segments.includes('number')
+      ? form.sku_number
+        ? parseInt(form.sku_number, 10)
+        : await fetchNextSkuNumber()
+      : null;
+    const { data: category } = await supabase
+      .from('product_categories')
+      .select('sku_code')
+      .eq('name', form.category)
+      .maybeSingle();
+    const collection = collections.find((c) => c.id === form.collection_id);
+    const sku = buildProductSku(
+      scheme,
+      { season: collectionSeasonCode(collection), category: form.category, number },
+      { [form.category]: (category?.sku_code as string | null | undefined) ?? null }
+    );
+    setForm((prev) => ({ ...prev, sku, sku_number: number != null ? String(number) : prev.sku_number }));
+    setVariants((prev) => fillColorwaySuffixes(prev));
+    setGeneratingSku(false);
+  };
+
   const filteredMoodboardPickerItems =
     moodboardCategoryFilter.length === 0
       ? moodboardPickerItems
@@ -739,99 +945,106 @@ export function ProductSlideOver({
           item.categories.some((c) => moodboardCategoryFilter.includes(c))
         );
 
-  const derivedVersions = (() => {
-    const vs = new Set(linkedMaterials.map((lm) => lm.variant ?? '1').filter(Boolean));
-    if (vs.size === 0) return ['1'];
-    return Array.from(vs).sort((a, b) => {
-      const na = parseInt(a, 10);
-      const nb = parseInt(b, 10);
-      if (!isNaN(na) && !isNaN(nb)) return na - nb;
-      return String(a).localeCompare(String(b));
-    });
-  })();
-
-  const [extraVersions, setExtraVersions] = useState<Set<string>>(new Set());
-  const versions = (() => {
-    const combined = new Set([...derivedVersions, ...extraVersions]);
-    return Array.from(combined).sort((a, b) => {
-      const na = parseInt(a, 10);
-      const nb = parseInt(b, 10);
-      if (!isNaN(na) && !isNaN(nb)) return na - nb;
-      return String(a).localeCompare(String(b));
-    });
-  })();
-
-  const materialsByVersionAndRole = (version: string, role: MaterialRole) =>
-    linkedMaterials.filter((lm) => (lm.variant ?? '1') === version && lm.role === role);
+  const materialsByVariantAndRole = (variantId: string | null, role: MaterialRole) =>
+    linkedMaterials.filter((lm) => (lm.variant_id ?? null) === variantId && lm.role === role);
 
-  const addMaterial = (mat: Material, role: MaterialRole, version: string) => {
+  const addMaterial = (mat: Material, role: MaterialRole, variantId: string | null) => {
     setLinkedMaterials((prev) => [
       ...prev,
-      { material_id: mat.id, material: mat, consumption_amount: 0, role, variant: version },
+      { material_id: mat.id, material: mat, consumption_amount: 0, role, variant_id: variantId },
     ]);
   };
 
-  const removeMaterial = (materialId: string, version: string, role: MaterialRole) => {
-    setLinkedMaterials((prev) =>
-      prev.filter(
-        (lm) =>
-          !(
-            lm.material_id === materialId &&
-            (lm.variant ?? '1') === version &&
-            lm.role === role
-          )
-      )
-    );
+  const isMaterialLink = (lm: LinkedMaterial, materialId: string, variantId: string | null, role: MaterialRole) =>
+    lm.material_id === materialId && (lm.variant_id ?? null) === variantId && lm.role === role;
+
+  const removeMaterial = (materialId: string, variantId: string | null, role: MaterialRole) => {
+    setLinkedMaterials((prev) => prev.filter((lm) => !isMaterialLink(lm, materialId, variantId, role)));
   };
 
   const updateConsumption = (
     materialId: string,
     amount: number,
-    version: string,
+    variantId: string | null,
     role: MaterialRole
   ) => {
     setLinkedMaterials((prev) =>
       prev.map((lm) =>
-        lm.material_id === materialId &&
-        (lm.variant ?? '1') === version &&
-        lm.role === role
-          ? { ...lm, consumption_amount: amount }
-          : lm
+        isMaterialLink(lm, materialId, variantId, role) ? { ...lm, consumption_amount: amount } : lm
       )
     );
   };
 
-  const addVersion = () => {
-    const next = String(
-      Math.max(1, ...versions.map((v) => parseInt(v, 10)).filter((n) => !isNaN(n)), 0) + 1
+  const updateSizeConsumption = (
+    materialId: string,
+    size: string,
+    amount: number | null,
+    variantId: string | null,
+    role: MaterialRole
+  ) => {
+    setLinkedMaterials((prev) =>
+      prev.map((lm) => {
+        if (!isMaterialLink(lm, materialId, variantId, role)) return lm;
+        const next = { ...(lm.consumption_by_size ?? {}) };
+        if (amount == null) delete next[size];
+        else next[size] = amount;
+        return { ...lm, consumption_by_size: next };
+      })
     );
-    setExtraVersions((prev) => new Set(prev).add(next));
   };
 
-  const removeVersion = (version: string) => {
-    if (version === '1') return;
-    setExtraVersions((prev) => {
-      const next = new Set(prev);
-      next.delete(version);
-      return next;
-    });
-    setLinkedMaterials((prev) => prev.filter((lm) => (lm.variant ?? '1') !== version));
+  const applySizeRun = (sizes: string[]) => {
+    setSizeRun(sizes);
+    setSizeRunInput(sizes.join(', '));
+    // Drop ratio/grading values of sizes no longer in the run
+    setSizeRatio((prev) => Object.fromEntries(Object.entries(prev).filter(([s]) => sizes.includes(s))));
+    setPointsOfMeasure((prev) =>
+      prev.map((pom) => ({
+        ...pom,
+        values: Object.fromEntries(Object.entries(pom.values).filter(([s]) => sizes.includes(s))),
+      }))
+    );
+    setLinkedMaterials((prev) =>
+      prev.map((lm) => ({
+        ...lm,
+        consumption_by_size: Object.fromEntries(
+          Object.entries(lm.consumption_by_size ?? {}).filter(([s]) => sizes.includes(s))
+        ),
+      }))
+    );
+    const pruneQuantities = <T extends BaseComponentLink>(links: T[]) =>
+      links.map((c) => ({
+        ...c,
+        quantity_by_size: Object.fromEntries(Object.entries(c.quantity_by_size ?? {}).filter(([s]) => sizes.includes(s))),
+      }));
+    setBaseComponents(pruneQuantities);
+    setVariantComponents(pruneQuantities);
+  };
+
+  const removeVariant = (variantId: string) => {
+    setVariants((prev) => prev.filter((v) => v.id !== variantId));
+    setLinkedMaterials((prev) => prev.filter((lm) => lm.variant_id !== variantId));
+    setLinkedLabels((prev) => prev.filter((ll) => ll.variant_id !== variantId));
+    setVariantComponents((prev) => prev.filter((vc) => vc.variant_id !== variantId));
   };
 
+  const baseLabels = linkedLabels.filter((ll) => !ll.variant_id);
+  const variantsForSku = variants.map((v, i) => ({ ...v, product_id: product?.id ?? '', sort_order: i }));
+
   const addLabel = (lbl: Label) => {
-    if (linkedLabels.some((ll) => ll.label_id === lbl.id)) return;
-    setLinkedLabels((prev) => [...prev, { label_id: lbl.id, label: lbl, placement: [] }]);
+    if (baseLabels.some((ll) => ll.label_id === lbl.id)) return;
+    setLinkedLabels((prev) => [...prev, { label_id: lbl.id, label: lbl, placement: [], variant_id: null }]);
     setLabelPickerType(null);
     setLabelSearch('');
   };
 
   const removeLabel = (labelId: string) => {
-    setLinkedLabels((prev) => prev.filter((ll) => ll.label_id !== labelId));
+    setLinkedLabels((prev) => prev.filter((ll) => ll.variant_id || ll.label_id !== labelId));
   };
 
   const updateLabelPlacement = (labelId: string, placement: string[]) => {
     setLinkedLabels((prev) =>
-      prev.map((ll) => (ll.label_id === labelId ? { ...ll, placement } : ll))
+      prev.map((ll) => (!ll.variant_id && ll.label_id === labelId ? { ...ll, placement } : ll))
     );
   };
 
@@ -1061,6 +1274,10 @@ export function ProductSlideOver({
       setError(t('products.nameRequired') || 'Product name is required');
       return;
     }
+    if (!options?.autoSave && duplicateSkus(generateSkus(form.sku, variantsForSku, sizeRun)).size > 0) {
+      setError(t('products.variants.duplicateSku'));
+      return;
+    }
     if (!options?.autoSave)     setSaving(true);
 
     const techPack: ProductTechPack = {
@@ -1072,6 +1289,7 @@ export function ProductSlideOver({
       interlining: form.interlining || undefined,
       waistband: form.category === 'trousers' ? (form.waistband || undefined) : undefined,
       seam_allowance: form.category === 'trousers' ? (form.seam_allowance || undefined) : undefined,
+      points_of_measure: options?.autoSave ? pointsOfMeasure : pointsOfMeasure.filter((p) => p.name.trim()),
     };
     const blocksToSave =
       options?.autoSave ? descriptionBlocks : descriptionBlocks.filter((b) => !isBlockEmpty(b));
@@ -1081,16 +1299,22 @@ export function ProductSlideOver({
     const record = {
       name: form.name,
       sku: form.sku || null,
+      sku_number: form.sku_number ? parseInt(form.sku_number, 10) : null,
+      collection_id: form.collection_id || null,
       category: form.category,
       status: form.status,
       hidden: form.hidden,
       ready_for_sampling: form.ready_for_sampling,
+      ...(samplingOverride && form.ready_for_sampling && { sampling_override_at: new Date().toISOString() }),
       priority: form.priority,
       short_description: form.short_description.trim() || null,
       description: descriptionValue,
       labor_cost: parseFloat(form.labor_cost) || 0,
       overhead_cost: parseFloat(form.overhead_cost) || 0,
+      labor_overhead_currency: form.labor_overhead_currency,
       markup_multiplier: parseFloat(form.markup_multiplier) || 2.5,
+      size_run: sizeRun,
+      size_ratio: sizeRatio,
       tech_pack: techPack,
       created_by: product ? product.created_by : getUserIdForDb(),
     };
@@ -1107,6 +1331,36 @@ export function ProductSlideOver({
 
     const productId = (savedProduct as Product).id;
 
+    // Variants first – the BOM links below reference them
+    const { data: existingVariants } = await supabase
+      .from('product_variants')
+      .select('id')
+      .eq('product_id', productId);
+    const removedVariantIds = ((existingVariants as { id: string }[] | null) ?? [])
+      .map((v) => v.id)
+      .filter((id) => !variants.some((v) => v.id === id));
+    if (removedVariantIds.length > 0) {
+      await supabase.from('product_variants').delete().in('id', removedVariantIds);
+    }
+    if (variants.length > 0) {
+      const { error: variantError } = await supabase.from('product_variants').upsert(
+        variants.map((v, i) => ({
+          id: v.id,
+          product_id: productId,
+          name: v.name.trim() || `${t('products.variants.variant')} ${i + 1}`,
+          color_code: v.color_code?.trim() || null,
+          swatch_url: v.swatch_url,
+          sku_suffix: v.sku_suffix?.trim() || null,
+          sort_order: i,
+        }))
+      );
+      if (variantError) {
+        setError(variantError.message);
+        setSaving(false);
+        return;
+      }
+    }
+
     await supabase.from('product_materials').delete().eq('product_id', productId);
 
     const inserts = linkedMaterials.map((lm) => ({
@@ -1115,7 +1369,8 @@ export function ProductSlideOver({
       consumption_amount: lm.consumption_amount,
       notes: null,
       role: lm.role,
-      variant: lm.variant || null,
+      variant_id: lm.variant_id ?? null,
+      consumption_by_size: lm.consumption_by_size ?? {},
     }));
 
     if (inserts.length > 0) {
@@ -1135,6 +1390,7 @@ export function ProductSlideOver({
       label_id: ll.label_id,
       placement: ll.placement,
       notes: null,
+      variant_id: ll.variant_id ?? null,
     }));
     if (labelInserts.length > 0) {
       const { error: labelLinkError } = await supabase
@@ -1147,6 +1403,28 @@ export function ProductSlideOver({
       }
     }
 
+    await supabase.from('product_components').delete().eq('product_id', productId);
+    const componentLinks = [...baseComponents.map((c) => ({ ...c, variant_id: null })), ...variantComponents];
+    if (componentLinks.length > 0) {
+      const { error: componentLinkError } = await supabase.from('product_components').insert(
+        componentLinks.map((c) => ({
+          product_id: productId,
+          component_id: c.component_id,
+          quantity: c.quantity,
+          quantity_by_size: c.quantity_by_size ?? {},
+          notes: null,
+          variant_id: c.variant_id,
+        }))
+      );
+      if (componentLinkError) {
+        setError(componentLinkError.message);
+        setSaving(false);
+        return;
+      }
+    }
+
+    await recordProductVersion(productId);
+
     setSaving(false);
     clearDraftFromStorage();
     if (options?.autoSave) {
@@ -1179,6 +1457,12 @@ export function ProductSlideOver({
     descriptionBlocks,
     linkedMaterials,
     linkedLabels,
+    variants,
+    baseComponents,
+    variantComponents,
+    sizeRun,
+    sizeRatio,
+    pointsOfMeasure,
     previewPhotoUrl,
     designGallery,
     moodboardGallery,
@@ -1194,6 +1478,8 @@ export function ProductSlideOver({
         descriptionBlocks.length > 0 ||
         linkedMaterials.length > 0 ||
         linkedLabels.length > 0 ||
+        variants.length > 0 ||
+        baseComponents.length > 0 ||
         previewPhotoUrl ||
         designGallery.length > 0 ||
         moodboardGallery.length > 0;
@@ -1203,6 +1489,12 @@ export function ProductSlideOver({
           descriptionBlocks,
           linkedMaterials,
           linkedLabels,
+          variants,
+          baseComponents,
+          variantComponents,
+          sizeRun,
+          sizeRatio,
+          pointsOfMeasure,
           previewPhotoUrl,
           designGallery,
           moodboardGallery,
@@ -1211,7 +1503,7 @@ export function ProductSlideOver({
       }
     }, 30_000);
     return () => clearInterval(id);
-  }, [open, product, form, descriptionBlocks, linkedMaterials, previewPhotoUrl, designGallery, moodboardGallery]);
+  }, [open, product, form, descriptionBlocks, linkedMaterials, variants, baseComponents, variantComponents, sizeRun, sizeRatio, pointsOfMeasure, previewPhotoUrl, designGallery, moodboardGallery]);
 
   const handleClose = () => {
     if (!product) {
@@ -1221,6 +1513,8 @@ export function ProductSlideOver({
         descriptionBlocks.length > 0 ||
         linkedMaterials.length > 0 ||
         linkedLabels.length > 0 ||
+        variants.length > 0 ||
+        baseComponents.length > 0 ||
         previewPhotoUrl ||
         designGallery.length > 0 ||
         moodboardGallery.length > 0;
@@ -1230,6 +1524,12 @@ export function ProductSlideOver({
           descriptionBlocks,
           linkedMaterials,
           linkedLabels,
+          variants,
+          baseComponents,
+          variantComponents,
+          sizeRun,
+          sizeRatio,
+          pointsOfMeasure,
           previewPhotoUrl,
           designGallery,
           moodboardGallery,
@@ -1248,6 +1548,60 @@ export function ProductSlideOver({
 
   const inputClass = INPUT_CLASS;
 
+  // Role buttons + material sections of the base BOM (null) or of one variant
+  const renderMaterialSections = (variantId: string | null) => {
+    const pickerKey = (role: MaterialRole) => `${variantId ?? 'base'}_${role}`;
+    const roles: { role: MaterialRole; title: string }[] = [
+      { role: 'main', title: t('products.materials.primaryMaterial') },
+      { role: 'lining', title: t('products.materials.liningMaterial') },
+      { role: 'pocket', title: t('products.materials.pocket') },
+    ];
+    return (
+      <div className="space-y-4">
+        <div className="flex gap-2 w-full">
+          {roles.map(({ role, title }) => (
+            <button
+              key={role}
+              type="button"
+              onClick={() => setShowPicker((p) => ({ ...p, [pickerKey(role)]: !p[pickerKey(role)] }))}
+              className="flex-1 flex items-center justify-center gap-2 text-sm font-medium text-nokturo-700 dark:text-nokturo-300 hover:text-nokturo-900 dark:hover:text-nokturo-100 px-3 py-2 rounded-lg bg-nokturo-100 dark:bg-nokturo-700 hover:bg-nokturo-200/80 dark:hover:bg-nokturo-600 transition-colors"
+            >
+              <MaterialIcon name="add" size={16} className="shrink-0" />
+              {title}
+            </button>
+          ))}
+        </div>
+        {roles.map(({ role, title }) => {
+          const mats = materialsByVariantAndRole(variantId, role);
+          return (
+            <MaterialSection
+              key={role}
+              title={title}
+              role={role}
+              variantId={variantId}
+              materials={mats}
+              availableMaterials={availableMaterials}
+              linkedIdsInSection={new Set(mats.map((m) => m.material_id))}
+              onAdd={(mat, v) => addMaterial(mat, role, v)}
+              onRemove={(id, v, r) => removeMaterial(id, v, r)}
+              onUpdateConsumption={updateConsumption}
+              onUpdateSizeConsumption={updateSizeConsumption}
+              sizeRun={sizeRun}
+              pickerOpen={showPicker[pickerKey(role)] ?? false}
+              setPickerOpen={(v) => setShowPicker((p) => ({ ...p, [pickerKey(role)]: v }))}
+              search={materialSearch[pickerKey(role)] ?? ''}
+              setSearch={(v) => setMaterialSearch((ms) => ({ ...ms, [pickerKey(role)]: v }))}
+              t={t}
+              inputClass={inputClass}
+              canDelete={canDelete}
+              hideHeaderButton
+            />
+          );
+        })}
+      </div>
+    );
+  };
+
   const slideOverContent = (
     <>
       <div className="fixed inset-0 z-[9998] bg-overlay backdrop-blur-sm" onClick={handleClose} />
@@ -1291,16 +1645,49 @@ export function ProductSlideOver({
             />
           </div>
 
-          {/* 2. SKU */}
-          <div>
-            <label className="block text-sm text-nokturo-700 dark:text-nokturo-400 mb-1.5">{t('products.sku')}</label>
-            <input
-              type="text"
-              value={form.sku}
-              onChange={(e) => handleChange('sku', e.target.value)}
-              placeholder="e.g. WOC-001"
-              className={inputClass}
-            />
+          {/* 2. Collection + SKU (generated from the workspace scheme or typed) */}
+          <div className="grid grid-cols-[1fr_2fr] gap-3">
+            <div>
+              <label className="block text-sm text-nokturo-700 dark:text-nokturo-400 mb-1.5">{t('collections.collection')}</label>
+              <SelectField
+                value={form.collection_id}
+                onChange={(e) => handleChange('collection_id', e.target.value)}
+                className={inputClass}
+              >
+                <option value="">—</option>
+                {collections.filter((c) => !c.archived || c.id === form.collection_id).map((c) => (
+                  <option key={c.id} value={c.id}>
+                    {c.name}
+                  </option>
+                ))}
+              </SelectField>
+            </div>
+            <div>
+              <label className="block text-sm text-nokturo-700 dark:text-nokturo-400 mb-1.5">{t('products.sku')}</label>
+              <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={form.sku}
+                  onChange={(e) => handleChange('sku', e.target.value)}
+                  placeholder="e.g. WOC-001"
+                  className={inputClass}
+                />
+                <button
+                  type="button"
+                  onClick={handleGenerateSku}
+                  disabled={generatingSku}
+                  title={t('products.generateSkuHint')}
+                  className="inline-flex items-center gap-1 text-sm text-nokturo-600 dark:text-nokturo-400 hover:text-nokturo-900 dark:hover:text-nokturo-100 transition-colors shrink-0 disabled:opacity-50"
+                >
+                  <MaterialIcon
+                    name={generatingSku ? 'progress_activity' : 'auto_awesome'}
+                    size={16}
+                    className={`shrink-0 ${generatingSku ? 'animate-spin' : ''}`}
+                  />
+                  {t('products.generateSku')}
+                </button>
+              </div>
+            </div>
           </div>
 
           {/* 3. Category */}
@@ -1380,8 +1767,15 @@ export function ProductSlideOver({
               type="button"
               role="switch"
               aria-checked={form.ready_for_sampling}
-              onClick={() => {
+              onClick={async () => {
                 const next = !form.ready_for_sampling;
+                if (!next) setSamplingOverride(false);
+                // Open blocking review comments keep the product out of sampling unless a founder overrides
+                if (next && product && !product.ready_for_sampling && !samplingOverride) {
+                  const blocking = await fetchOpenBlockingCount(product.id);
+                  setSamplingBlockers(blocking);
+                  if (blocking > 0) return;
+                }
                 setForm((prev) => ({
                   ...prev,
                   ready_for_sampling: next,
@@ -1401,6 +1795,25 @@ export function ProductSlideOver({
             </button>
           </div>
 
+          {samplingBlockers > 0 && !form.ready_for_sampling && (
+            <div className="text-sm bg-red/10 dark:bg-red/20 text-red dark:text-red-fg rounded-lg px-4 py-2.5 space-y-2">
+              <p>{t('products.samplingBlocked', { count: samplingBlockers })}</p>
+              {canOverrideBlocking && (
+                <button
+                  type="button"
+                  onClick={() => {
+                    setSamplingOverride(true);
+                    setSamplingBlockers(0);
+                    setForm((prev) => ({ ...prev, ready_for_sampling: true, hidden: false }));
+                  }}
+                  className="text-xs font-medium underline underline-offset-2 hover:opacity-80"
+                >
+                  {t('products.overrideBlocking')}
+                </button>
+              )}
+            </div>
+          )}
+
           {/* Priority (only when ready for sampling) */}
           {form.ready_for_sampling && (
             <div className="flex items-center justify-between">
@@ -1521,149 +1934,121 @@ export function ProductSlideOver({
             </div>
           </div>
 
-          {/* 9. Materials: Primary version materials + Add version */}
-          <div className="pt-4 space-y-4">
-            {versions.map((version) => {
-              const mainMats = materialsByVersionAndRole(version, 'main');
-              const liningMats = materialsByVersionAndRole(version, 'lining');
-              const pocketMats = materialsByVersionAndRole(version, 'pocket');
-              const pickerKey = (role: MaterialRole) => `${version}_${role}`;
-              const versionLabel =
-                version === '1'
-                  ? t('products.materials.primaryVersionMaterials')
-                  : version === '2'
-                    ? t('products.materials.secondaryVersion')
-                    : version === '3'
-                      ? t('products.materials.tertiaryVersion')
-                      : `${t('products.materials.version')} ${version}`;
-              return (
-                <div key={version} className="space-y-4">
-                  <div className="flex items-center justify-between">
-                    <h4 className="text-heading-5 font-extralight text-nokturo-900 dark:text-nokturo-100">
-                      {version === '1' ? t('products.materials.primaryVersion') : versionLabel}
-                    </h4>
-                    {version !== '1' && canDelete && (
-                      <button
-                        type="button"
-                        onClick={() => removeVersion(version)}
-                        className="dropdown-menu-item-destructive text-xs font-medium px-2 py-1 rounded text-nokturo-700 dark:text-nokturo-200 hover:bg-red hover:text-red-fg transition-colors"
-                      >
-                        {t('common.delete')}
-                      </button>
-                    )}
-                  </div>
-                  <div className="flex gap-2 w-full">
-                      <button
-                        type="button"
-                        onClick={() =>
-                          setShowPicker((p) => ({ ...p, [pickerKey('main')]: !p[pickerKey('main')] }))
-                        }
-                        className="flex-1 flex items-center justify-center gap-2 text-sm font-medium text-nokturo-700 dark:text-nokturo-300 hover:text-nokturo-900 dark:hover:text-nokturo-100 px-3 py-2 rounded-lg bg-nokturo-100 dark:bg-nokturo-700 hover:bg-nokturo-200/80 dark:hover:bg-nokturo-600 transition-colors"
-                      >
-                        <MaterialIcon name="add" size={16} className="shrink-0" />
-                        {t('products.materials.primaryMaterial')}
-                      </button>
-                      <button
-                        type="button"
-                        onClick={() =>
-                          setShowPicker((p) => ({ ...p, [pickerKey('lining')]: !p[pickerKey('lining')] }))
-                        }
-                        className="flex-1 flex items-center justify-center gap-2 text-sm font-medium text-nokturo-700 dark:text-nokturo-300 hover:text-nokturo-900 dark:hover:text-nokturo-100 px-3 py-2 rounded-lg bg-nokturo-100 dark:bg-nokturo-700 hover:bg-nokturo-200/80 dark:hover:bg-nokturo-600 transition-colors"
-                      >
-                        <MaterialIcon name="add" size={16} className="shrink-0" />
-                        {t('products.materials.liningMaterial')}
-                      </button>
-                      <button
-                        type="button"
-                        onClick={() =>
-                          setShowPicker((p) => ({ ...p, [pickerKey('pocket')]: !p[pickerKey('pocket')] }))
+          {/* 8b. Size run + planned size ratio (grading per material is shown on each row below) */}
+          <div className="pt-4 space-y-3">
+            <label className="block text-sm font-semibold text-nokturo-900 dark:text-nokturo-100">
+              {t('products.sizeRun.title')}
+            </label>
+            <div className="flex gap-2 flex-wrap">
+              {Object.entries(SIZE_RUN_PRESETS).map(([key, sizes]) => (
+                <button
+                  key={key}
+                  type="button"
+                  onClick={() => applySizeRun(sizes)}
+                  className={`text-sm font-medium px-3 py-2 rounded-lg transition-colors ${
+                    sizeRun.join(',') === sizes.join(',')
+                      ? 'bg-nokturo-200 dark:bg-nokturo-600 text-nokturo-900 dark:text-nokturo-100'
+                      : 'text-nokturo-700 dark:text-nokturo-300 hover:text-nokturo-900 dark:hover:text-nokturo-100 bg-nokturo-100 dark:bg-nokturo-700 hover:bg-nokturo-200/80 dark:hover:bg-nokturo-600'
+                  }`}
+                >
+                  {sizes[0]}–{sizes[sizes.length - 1]}
+                </button>
+              ))}
+              {sizeRun.length > 0 && (
+                <button
+                  type="button"
+                  onClick={() => applySizeRun([])}
+                  className="text-sm px-3 py-2 text-nokturo-600 dark:text-nokturo-400 hover:text-nokturo-900 dark:hover:text-nokturo-100"
+                >
+                  {t('products.sizeRun.clear')}
+                </button>
+              )}
+            </div>
+            <input
+              type="text"
+              value={sizeRunInput}
+              onChange={(e) => setSizeRunInput(e.target.value)}
+              onBlur={() => applySizeRun(parseSizeRun(sizeRunInput))}
+              placeholder={t('products.sizeRun.placeholder')}
+              className={inputClass}
+            />
+            {sizeRun.length > 0 && (
+              <div>
+                <label className="block text-sm text-nokturo-700 dark:text-nokturo-400 mb-1.5">
+                  {t('products.sizeRun.ratio')}
+                </label>
+                <div className="flex flex-wrap gap-1.5">
+                  {sizeRun.map((size) => (
+                    <label key={size} className="flex flex-col items-center gap-0.5">
+                      <span className="text-xs text-nokturo-500 dark:text-nokturo-400">{size}</span>
+                      <input
+                        type="number"
+                        step="1"
+                        min="0"
+                        value={sizeRatio[size] ?? ''}
+                        placeholder="1"
+                        onChange={(e) =>
+                          setSizeRatio((prev) => {
+                            const next = { ...prev };
+                            if (e.target.value === '') delete next[size];
+                            else next[size] = Math.max(0, parseFloat(e.target.value) || 0);
+                            return next;
+                          })
                         }
-                        className="flex-1 flex items-center justify-center gap-2 text-sm font-medium text-nokturo-700 dark:text-nokturo-300 hover:text-nokturo-900 dark:hover:text-nokturo-100 px-3 py-2 rounded-lg bg-nokturo-100 dark:bg-nokturo-700 hover:bg-nokturo-200/80 dark:hover:bg-nokturo-600 transition-colors"
-                      >
-                        <MaterialIcon name="add" size={16} className="shrink-0" />
-                        {t('products.materials.pocket')}
-                      </button>
-                    </div>
-                  <MaterialSection
-                    title={t('products.materials.primaryMaterial')}
-                    role="main"
-                    version={version}
-                    materials={mainMats}
-                    availableMaterials={availableMaterials}
-                    linkedIdsInSection={new Set(mainMats.map((m) => m.material_id))}
-                    onAdd={(mat, v) => addMaterial(mat, 'main', v)}
-                    onRemove={(id, v, r) => removeMaterial(id, v, r)}
-                    onUpdateConsumption={updateConsumption}
-                    pickerOpen={showPicker[pickerKey('main')] ?? false}
-                    setPickerOpen={(v) =>
-                      setShowPicker((p) => ({ ...p, [pickerKey('main')]: v }))
-                    }
-                    search={materialSearch[pickerKey('main')] ?? ''}
-                    setSearch={(v) =>
-                      setMaterialSearch((s) => ({ ...s, [pickerKey('main')]: v }))
-                    }
-                    t={t}
-                    inputClass={inputClass}
-                    canDelete={canDelete}
-                    hideHeaderButton
-                  />
-                  <MaterialSection
-                    title={t('products.materials.liningMaterial')}
-                    role="lining"
-                    version={version}
-                    materials={liningMats}
-                    availableMaterials={availableMaterials}
-                    linkedIdsInSection={new Set(liningMats.map((m) => m.material_id))}
-                    onAdd={(mat, v) => addMaterial(mat, 'lining', v)}
-                    onRemove={(id, v, r) => removeMaterial(id, v, r)}
-                    onUpdateConsumption={updateConsumption}
-                    pickerOpen={showPicker[pickerKey('lining')] ?? false}
-                    setPickerOpen={(v) =>
-                      setShowPicker((p) => ({ ...p, [pickerKey('lining')]: v }))
-                    }
-                    search={materialSearch[pickerKey('lining')] ?? ''}
-                    setSearch={(v) =>
-                      setMaterialSearch((s) => ({ ...s, [pickerKey('lining')]: v }))
-                    }
-                    t={t}
-                    inputClass={inputClass}
-                    canDelete={canDelete}
-                    hideHeaderButton
-                  />
-                  <MaterialSection
-                    title={t('products.materials.pocket')}
-                    role="pocket"
-                    version={version}
-                    materials={pocketMats}
-                    availableMaterials={availableMaterials}
-                    linkedIdsInSection={new Set(pocketMats.map((m) => m.material_id))}
-                    onAdd={(mat, v) => addMaterial(mat, 'pocket', v)}
-                    onRemove={(id, v, r) => removeMaterial(id, v, r)}
-                    onUpdateConsumption={updateConsumption}
-                    pickerOpen={showPicker[pickerKey('pocket')] ?? false}
-                    setPickerOpen={(v) =>
-                      setShowPicker((p) => ({ ...p, [pickerKey('pocket')]: v }))
-                    }
-                    search={materialSearch[pickerKey('pocket')] ?? ''}
-                    setSearch={(v) =>
-                      setMaterialSearch((s) => ({ ...s, [pickerKey('pocket')]: v }))
-                    }
-                    t={t}
-                    inputClass={inputClass}
-                    canDelete={canDelete}
-                    hideHeaderButton
-                  />
+                        className="w-14 h-8 bg-nokturo-200/60 dark:bg-nokturo-700/60 rounded-[6px] px-1.5 text-sm text-right text-nokturo-900 dark:text-nokturo-100 placeholder-nokturo-400 focus:outline-none focus:ring-2 focus:ring-nokturo-500"
+                      />
+                    </label>
+                  ))}
                 </div>
-              );
-            })}
-            <button
-              type="button"
-              onClick={addVersion}
-              className="flex items-center gap-2 text-sm text-nokturo-600 dark:text-nokturo-400 hover:text-nokturo-800 dark:hover:text-nokturo-200"
+                <p className="text-xs text-nokturo-500 dark:text-nokturo-400 mt-1.5">{t('products.sizeRun.gradingHint')}</p>
+              </div>
+            )}
+          </div>
+
+          {/* 8c. Points of measure (measurement chart per size) */}
+          <div className="pt-4 space-y-3">
+            <label className="block text-sm font-semibold text-nokturo-900 dark:text-nokturo-100">
+              {t('products.pom.title')}
+            </label>
+            <PointsOfMeasureEditor value={pointsOfMeasure} onChange={setPointsOfMeasure} sizeRun={sizeRun} />
+          </div>
+
+          {/* 9. Materials: base BOM shared by all variants */}
+          <div className="pt-4 space-y-4">
+            <h4 className="text-heading-5 font-extralight text-nokturo-900 dark:text-nokturo-100">
+              {t('products.variants.baseMaterials')}
+            </h4>
+            {renderMaterialSections(null)}
+          </div>
+
+          {/* 9a. Base components with their graded quantity per size */}
+          <div className="pt-4 space-y-2">
+            <label className="block text-sm font-semibold text-nokturo-900 dark:text-nokturo-100 mb-2">
+              {t('products.variants.baseComponents')}
+            </label>
+            {baseComponents.map((bc) => (
+              <ComponentLinkRow
+                key={bc.component_id}
+                link={bc}
+                sizeRun={sizeRun}
+                onChange={(patch) => setBaseComponents((prev) => prev.map((c) => (c === bc ? { ...c, ...patch } : c)))}
+                onRemove={() => setBaseComponents((prev) => prev.filter((c) => c !== bc))}
+              />
+            ))}
+            <SelectField
+              value=""
+              onChange={(e) => {
+                const comp = availableComponents.find((c) => c.id === e.target.value);
+                if (comp) setBaseComponents((prev) => [...prev, { component_id: comp.id, component: comp, quantity: 1, quantity_by_size: {} }]);
+              }}
             >
-              <MaterialIcon name="add" size={16} className="shrink-0" />
-              {t('products.materials.addVersion')}
-            </button>
+              <option value="">{t('products.variants.addBaseComponent')}</option>
+              {availableComponents
+                .filter((c) => !baseComponents.some((bc) => bc.component_id === c.id))
+                .map((c) => (
+                  <option key={c.id} value={c.id}>{`${c.name} · ${c.type}`}</option>
+                ))}
+            </SelectField>
           </div>
 
           {/* 9b. Labels (with placement when connected) – same layout as materials */}
@@ -1728,7 +2113,7 @@ export function ProductSlideOver({
                   {availableLabels
                     .filter(
                       (l) =>
-                        !linkedLabels.some((ll) => ll.label_id === l.id) &&
+                        !baseLabels.some((ll) => ll.label_id === l.id) &&
                         (labelPickerType === 'all' || (l.typ ?? '') === labelPickerType) &&
                         (labelSearch === '' ||
                           l.name.toLowerCase().includes(labelSearch.toLowerCase()) ||
@@ -1762,7 +2147,7 @@ export function ProductSlideOver({
                     ))}
                   {availableLabels.filter(
                     (l) =>
-                      !linkedLabels.some((ll) => ll.label_id === l.id) &&
+                      !baseLabels.some((ll) => ll.label_id === l.id) &&
                       (labelPickerType === 'all' || (l.typ ?? '') === labelPickerType) &&
                       (labelSearch === '' ||
                         l.name.toLowerCase().includes(labelSearch.toLowerCase()) ||
@@ -1774,7 +2159,7 @@ export function ProductSlideOver({
               </div>
             )}
             <div className="space-y-2">
-              {linkedLabels.map((ll) => (
+              {baseLabels.map((ll) => (
                 <div
                   key={ll.label_id}
                   className="flex flex-col gap-2 bg-nokturo-50 dark:bg-nokturo-700/50 rounded-lg p-3"
@@ -1861,6 +2246,28 @@ export function ProductSlideOver({
             </div>
           </div>
 
+          {/* 9c. Variants (colorways) – each may override materials, components and labels */}
+          <div className="pt-4 space-y-3">
+            <label className="block text-sm font-semibold text-nokturo-900 dark:text-nokturo-100">
+              {t('products.variants.title')}
+            </label>
+            <ProductVariantsEditor
+              variants={variants}
+              onChange={setVariants}
+              onRemove={removeVariant}
+              baseSku={form.sku}
+              sizeRun={sizeRun}
+              labels={linkedLabels}
+              onLabelsChange={setLinkedLabels}
+              availableLabels={availableLabels}
+              components={variantComponents}
+              onComponentsChange={setVariantComponents}
+              renderMaterials={renderMaterialSections}
+              onUploadSwatch={handleUploadImage}
+              canDelete={canDelete}
+            />
+          </div>
+
           {/* 10. Design gallery */}
           <div className="pt-4">
             <label className="block text-sm font-semibold text-nokturo-900 dark:text-nokturo-100 mb-2">
@@ -2103,7 +2510,7 @@ export function ProductSlideOver({
             <h4 className="text-heading-5 font-extralight text-nokturo-900 dark:text-nokturo-100 mb-3">
               {t('products.costing.title')}
             </h4>
-            <div className="grid grid-cols-3 gap-3">
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
               <div>
                 <label className="block text-sm text-nokturo-700 dark:text-nokturo-400 mb-1.5">
                   {t('products.costing.laborCost')}
@@ -2130,6 +2537,20 @@ export function ProductSlideOver({
                   className={inputClass}
                 />
               </div>
+              <div>
+                <label className="block text-sm text-nokturo-700 dark:text-nokturo-400 mb-1.5">
+                  {t('products.costing.laborOverheadCurrency')}
+                </label>
+                <SelectField
+                  value={form.labor_overhead_currency}
+                  onChange={(e) => handleChange('labor_overhead_currency', e.target.value)}
+                  className={inputClass}
+                >
+                  {CURRENCIES.map((c) => (
+                    <option key={c} value={c}>{c}</option>
+                  ))}
+                </SelectField>
+              </div>
               <div>
                 <label className="block text-sm text-nokturo-700 dark:text-nokturo-400 mb-1.5">
                   {t('products.costing.markupMultiplier')}
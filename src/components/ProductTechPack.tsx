@@ -1,11 +1,20 @@
+import { useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import { MaterialIcon } from './icons/MaterialIcon';
-import { useExchangeRates, convertToCzk, CURRENCIES } from '../lib/currency';
+import { useExchangeRates, convertToBase, formatPriceWithBase } from '../lib/currency';
 import type { ProductWithMaterials, ProductTechPack } from './ProductSlideOver';
-import { ProductComments } from './ProductComments';
+import { EntityComments } from './EntityComments';
+import { canCommentOn, fetchGalleryPinNotes } from '../lib/comments';
+import { useAuthStore } from '../stores/authStore';
+import { ProductPriceLadder } from './ProductPriceLadder';
 import { RichTextBlockViewer } from './RichTextBlockViewer';
 import { MODAL_HEADING_CLASS } from '../lib/inputStyles';
 import type { RichTextBlock } from './RichTextBlockEditor';
+import { computeSizeCosts, consumptionForSize, normalizeSizeRatio, weightedAverage } from '../lib/sizeRun';
+import { pomSpecForSize } from '../lib/pointsOfMeasure';
+import { exportTechPackPdf } from '../lib/techPackPdf';
+import { resolveVariantBom } from '../lib/productVariants';
+import { supabase } from '../lib/supabase';
 
 // ── Status badge colours ──────────────────────────────────────
 const STATUS_COLORS: Record<string, string> = {
@@ -29,29 +38,70 @@ export function ProductTechPack({
   product,
   onClose,
 }: ProductTechPackProps) {
-  const { t } = useTranslation();
-  useExchangeRates();
+  const { t, i18n } = useTranslation();
+  const { baseCurrency } = useExchangeRates();
+  const [exporting, setExporting] = useState(false);
+  const [exportError, setExportError] = useState('');
+  const role = useAuthStore((s) => s.user?.role);
 
   if (!open || !product) return null;
 
-  const materials = product.product_materials ?? [];
+  const handleExportPdf = async () => {
+    setExporting(true);
+    setExportError('');
+    try {
+      // the latest version carries a revision only while it is the issued state
+      const { data: latest } = await supabase
+        .from('product_versions')
+        .select('revision')
+        .eq('product_id', product.id)
+        .order('version_number', { ascending: false })
+        .limit(1);
+      await exportTechPackPdf(product, {
+        t,
+        locale: i18n.language === 'cs' ? 'cs-CZ' : 'en-US',
+        revision: (latest as { revision: string | null }[] | null)?.[0]?.revision ?? null,
+        designPins: await fetchGalleryPinNotes(product.id, 'design'),
+      });
+    } catch (err) {
+      setExportError((err as Error).message);
+    } finally {
+      setExporting(false);
+    }
+  };
 
-  // Cost calculation (per material currency) + CZK total when mixed
+  // Costs are shown for the base BOM; variant overrides are costed on the costing page
+  const bom = resolveVariantBom(product, null);
+  const materials = bom.product_materials ?? [];
+
+  // Cost calculation (per material currency) + base currency total when mixed
   const totalCost = materials.reduce(
     (sum, pm) => sum + pm.consumption_amount * (pm.material?.price_per_unit ?? 0),
     0,
   );
   const currency = materials[0]?.material?.currency ?? 'EUR';
-  const totalCostCzk = materials.reduce(
+  const totalCostBase = materials.reduce(
     (sum, pm) => {
       const mat = pm.material;
       const price = mat?.price_per_unit ?? 0;
       const curr = mat?.currency ?? 'EUR';
-      return sum + pm.consumption_amount * convertToCzk(price, curr);
+      return sum + pm.consumption_amount * convertToBase(price, curr);
     },
     0,
   );
 
+  // Size run: graded consumption + BOM cost per size (weighted by planned ratio)
+  const sizeRun = product.size_run ?? [];
+  const sizeCosts = computeSizeCosts(bom, baseCurrency);
+  const sizeWeights = normalizeSizeRatio(sizeRun, product.size_ratio);
+  const weightedCostBase = weightedAverage(
+    Object.fromEntries(sizeCosts.map((sc) => [sc.size, sc.materialCost])),
+    sizeRun,
+    product.size_ratio,
+  );
+  const components = bom.product_components ?? [];
+  const pointsOfMeasure = ((product.tech_pack || {}) as ProductTechPack).points_of_measure ?? [];
+
   return (
     <>
       {/* Backdrop */}
@@ -69,11 +119,16 @@ export function ProductTechPack({
           </h3>
           <div className="flex items-center gap-2">
             <button
-              onClick={() => window.print()}
-              className="p-1.5 text-nokturo-400 hover:text-white transition-colors rounded-lg hover:bg-nokturo-700"
-              title={t('products.techPack.printTechPack')}
+              onClick={handleExportPdf}
+              disabled={exporting}
+              className="p-1.5 text-nokturo-400 hover:text-white transition-colors rounded-lg hover:bg-nokturo-700 disabled:opacity-50"
+              title={t('products.techPack.exportPdf')}
             >
-              <MaterialIcon name="print" size={20} className="shrink-0" />
+              <MaterialIcon
+                name={exporting ? 'progress_activity' : 'picture_as_pdf'}
+                size={20}
+                className={`shrink-0 ${exporting ? 'animate-spin' : ''}`}
+              />
             </button>
             <button
               onClick={onClose}
@@ -84,6 +139,12 @@ export function ProductTechPack({
           </div>
         </div>
 
+        {exportError && (
+          <div className="mx-6 text-red dark:text-red-fg text-sm bg-red/10 dark:bg-red/20 rounded-lg px-3 py-2 shrink-0">
+            {exportError}
+          </div>
+        )}
+
         {/* ── Scrollable content ────────────────────────────── */}
         <div className="flex-1 overflow-y-auto px-6 py-6 space-y-6">
           {/* ── Product information ────────────────────────── */}
@@ -202,7 +263,14 @@ export function ProductTechPack({
           </section>
 
           {/* ── Comments ───────────────────────────────────── */}
-          <ProductComments productId={product.id} />
+          <EntityComments
+            target={{ type: 'product', id: product.id }}
+            reviewable
+            title={t('comments.productComments')}
+            canComment={canCommentOn(role, 'product')}
+            notificationLink={`/communication/comments?product=${product.id}`}
+            emptyHint={t('comments.beFirst')}
+          />
 
           {/* ── Bill of Materials ──────────────────────────── */}
           <section>
@@ -287,24 +355,20 @@ export function ProductTechPack({
                             <td className="px-4 py-2.5 text-right text-nokturo-300">
                               {mat?.price_per_unit} {mat?.currency}/
                               {mat?.unit}
-                              {mat?.currency &&
-                                mat.currency !== 'CZK' &&
-                                CURRENCIES.includes(mat.currency as (typeof CURRENCIES)[number]) && (
-                                  <span className="block text-nokturo-500 text-xs">
-                                    ≈ {convertToCzk(mat?.price_per_unit ?? 0, mat.currency).toFixed(2)} CZK
-                                  </span>
-                                )}
+                              {mat?.currency && formatPriceWithBase(mat.price_per_unit ?? 0, mat.currency).base && (
+                                <span className="block text-nokturo-500 text-xs">
+                                  ≈ {formatPriceWithBase(mat.price_per_unit ?? 0, mat.currency).base}
+                                </span>
+                              )}
                             </td>
 
                             <td className="px-4 py-2.5 text-right text-white font-medium">
                               {lineCost.toFixed(2)} {mat?.currency}
-                              {mat?.currency &&
-                                mat.currency !== 'CZK' &&
-                                CURRENCIES.includes(mat.currency as (typeof CURRENCIES)[number]) && (
-                                  <span className="block text-nokturo-500 text-xs font-normal">
-                                    ≈ {convertToCzk(lineCost, mat.currency).toFixed(2)} CZK
-                                  </span>
-                                )}
+                              {mat?.currency && formatPriceWithBase(lineCost, mat.currency).base && (
+                                <span className="block text-nokturo-500 text-xs font-normal">
+                                  ≈ {formatPriceWithBase(lineCost, mat.currency).base}
+                                </span>
+                              )}
                             </td>
                           </tr>
                         );
@@ -322,9 +386,9 @@ export function ProductTechPack({
                     <span className="text-lg font-medium text-white">
                       {totalCost.toFixed(2)} {currency}
                     </span>
-                    {(currency !== 'CZK' || materials.some((pm) => pm.material?.currency && pm.material.currency !== 'CZK')) && (
+                    {(currency !== baseCurrency || materials.some((pm) => pm.material?.currency && pm.material.currency !== baseCurrency)) && (
                       <span className="block text-nokturo-500 text-sm">
-                        ≈ {totalCostCzk.toFixed(2)} CZK
+                        ≈ {totalCostBase.toFixed(2)} {baseCurrency}
                       </span>
                     )}
                   </div>
@@ -332,6 +396,151 @@ export function ProductTechPack({
               </div>
             )}
           </section>
+
+          {/* ── Size run & grading ─────────────────────────── */}
+          {sizeRun.length > 0 && (
+            <section>
+              <h4 className="text-heading-5 font-extralight text-nokturo-400 uppercase tracking-wider mb-3">
+                {t('products.techPack.sizeGrading')}
+              </h4>
+
+              <div className="bg-nokturo-900 border border-nokturo-700 rounded-lg overflow-hidden">
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b border-nokturo-700 text-nokturo-400">
+                        <th className="text-left px-4 py-2.5 font-medium">
+                          {t('products.techPack.material')}
+                        </th>
+                        {sizeRun.map((size) => (
+                          <th key={size} className="text-right px-3 py-2.5 font-medium">
+                            {size}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {materials.map((pm, idx) => (
+                        <tr key={pm.id ?? idx} className="border-b border-nokturo-700/50">
+                          <td className="px-4 py-2 text-white">
+                            {pm.material?.name ?? '—'}
+                            <span className="text-nokturo-500 text-xs ml-1">{pm.material?.unit}</span>
+                          </td>
+                          {sizeRun.map((size) => (
+                            <td key={size} className="px-3 py-2 text-right text-nokturo-200">
+                              {consumptionForSize(pm.consumption_amount, pm.consumption_by_size, size)}
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                      {components.map((pc) => (
+                        <tr key={pc.id} className="border-b border-nokturo-700/50">
+                          <td className="px-4 py-2 text-white">
+                            {pc.component?.name ?? '—'}
+                          </td>
+                          {sizeRun.map((size) => (
+                            <td key={size} className="px-3 py-2 text-right text-nokturo-200">
+                              {consumptionForSize(pc.quantity, pc.quantity_by_size, size)}
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                      <tr className="border-b border-nokturo-700/50 text-nokturo-400">
+                        <td className="px-4 py-2">{t('products.sizeRun.ratio')}</td>
+                        {sizeRun.map((size) => (
+                          <td key={size} className="px-3 py-2 text-right">
+                            {Math.round((sizeWeights[size] ?? 0) * 100)}%
+                          </td>
+                        ))}
+                      </tr>
+                      <tr>
+                        <td className="px-4 py-2.5 font-medium text-nokturo-300">
+                          {t('products.techPack.costPerSize')}
+                          <span className="text-nokturo-500 text-xs ml-1">{baseCurrency}</span>
+                        </td>
+                        {sizeCosts.map((sc) => (
+                          <td key={sc.size} className="px-3 py-2.5 text-right text-white font-medium">
+                            {sc.materialCost.toFixed(2)}
+                          </td>
+                        ))}
+                      </tr>
+                    </tbody>
+                  </table>
+                </div>
+
+                {/* ── Weighted average row ──────────────────── */}
+                <div className="border-t border-nokturo-600 px-4 py-3 flex items-center justify-between">
+                  <span className="text-sm font-medium text-nokturo-300">
+                    {t('products.techPack.weightedAverageCost')}
+                  </span>
+                  <div className="text-right">
+                    <span className="text-lg font-medium text-white">
+                      {weightedCostBase.toFixed(2)} {baseCurrency}
+                    </span>
+                  </div>
+                </div>
+              </div>
+            </section>
+          )}
+
+          {/* ── Measurement chart (points of measure) ─────── */}
+          {pointsOfMeasure.length > 0 && (
+            <section>
+              <h4 className="text-heading-5 font-extralight text-nokturo-400 uppercase tracking-wider mb-3">
+                {t('products.techPack.measurementChart')}
+              </h4>
+
+              <div className="bg-nokturo-900 border border-nokturo-700 rounded-lg overflow-hidden">
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b border-nokturo-700 text-nokturo-400">
+                        <th className="text-left px-4 py-2.5 font-medium w-12">
+                          {t('products.pom.code')}
+                        </th>
+                        <th className="text-left px-3 py-2.5 font-medium">
+                          {t('products.pom.point')}
+                        </th>
+                        {sizeRun.map((size) => (
+                          <th key={size} className="text-right px-3 py-2.5 font-medium">
+                            {size}
+                          </th>
+                        ))}
+                        <th className="text-right px-4 py-2.5 font-medium">
+                          ± {t('products.pom.tolerance')}
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {pointsOfMeasure.map((pom) => (
+                        <tr key={pom.id} className="border-b border-nokturo-700/50 last:border-0">
+                          <td className="px-4 py-2 text-nokturo-300 font-medium">{pom.code}</td>
+                          <td className="px-3 py-2 text-white">
+                            {pom.name}
+                            {pom.how_to_measure && (
+                              <span className="block text-nokturo-500 text-xs">{pom.how_to_measure}</span>
+                            )}
+                          </td>
+                          {sizeRun.map((size) => (
+                            <td key={size} className="px-3 py-2 text-right text-nokturo-200">
+                              {pomSpecForSize(pom, size) ?? '—'}
+                            </td>
+                          ))}
+                          <td className="px-4 py-2 text-right text-nokturo-300">{pom.tolerance ?? '—'}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                <p className="border-t border-nokturo-600 px-4 py-2.5 text-xs text-nokturo-500">
+                  {t('products.techPack.measurementChartHint')}
+                </p>
+              </div>
+            </section>
+          )}
+
+          {/* ── Price ladder ───────────────────────────────── */}
+          <ProductPriceLadder product={product} />
         </div>
       </div>
     </>
@@ -0,0 +1,384 @@
+import { useEffect, useRef, useState, type ReactNode } from 'react';
+import { useTranslation } from 'react-i18next';
+import { supabase } from '../lib/supabase';
+import { MaterialIcon } from './icons/MaterialIcon';
+import { SelectField } from './SelectField';
+import type { Label } from './LabelSlideOver';
+import type { Component } from './ComponentSlideOver';
+import { INPUT_CLASS } from '../lib/inputStyles';
+import { duplicateSkus, generateSkus, type ProductVariant } from '../lib/productVariants';
+import type { SizeValues } from '../lib/sizeRun';
+
+export type VariantDraft = Pick<ProductVariant, 'id' | 'name' | 'color_code' | 'swatch_url' | 'sku_suffix'>;
+
+export interface VariantLabelLink {
+  label_id: string;
+  label: Label;
+  placement: string[];
+  variant_id?: string | null;
+}
+
+export interface VariantComponentLink {
+  component_id: string;
+  component: Component;
+  quantity: number;
+  /** Graded quantity per size; sizes without a value use `quantity` */
+  quantity_by_size?: SizeValues;
+  variant_id: string;
+}
+
+/** Base component link (shared by all variants) */
+export type BaseComponentLink = Omit<VariantComponentLink, 'variant_id'>;
+
+interface ComponentLinkRowProps {
+  link: BaseComponentLink;
+  sizeRun: string[];
+  onChange: (patch: Partial<BaseComponentLink>) => void;
+  onRemove: () => void;
+}
+
+/** Component with its quantity and, with a size run, the graded quantity per size */
+export function ComponentLinkRow({ link, sizeRun, onChange, onRemove }: ComponentLinkRowProps) {
+  const { t } = useTranslation();
+
+  const setSizeQuantity = (size: string, value: string) => {
+    const next = { ...(link.quantity_by_size ?? {}) };
+    if (value === '') delete next[size];
+    else next[size] = Math.max(0, parseFloat(value) || 0);
+    onChange({ quantity_by_size: next });
+  };
+
+  return (
+    <div className="bg-nokturo-50 dark:bg-nokturo-700/50 rounded-lg p-2">
+      <div className="flex items-center gap-2">
+        <MaterialIcon name="widgets" size={16} className="text-nokturo-400 shrink-0" />
+        <div className="flex-1 min-w-0">
+          <p className="text-sm text-nokturo-900 dark:text-nokturo-100 truncate">{link.component.name}</p>
+          <p className="text-xs text-nokturo-500 dark:text-nokturo-400 truncate">{link.component.type}</p>
+        </div>
+        <input
+          type="number"
+          step="1"
+          min="0"
+          value={link.quantity}
+          onChange={(e) => onChange({ quantity: Math.max(0, parseFloat(e.target.value) || 0) })}
+          className="w-14 h-7 bg-transparent rounded-[6px] px-1.5 py-0.5 text-sm text-right text-nokturo-900 dark:text-nokturo-100 focus:outline-none focus:ring-2 focus:ring-nokturo-500"
+        />
+        <button
+          type="button"
+          onClick={onRemove}
+          className="p-1.5 text-nokturo-500 hover:text-red-fg hover:bg-red rounded transition-colors shrink-0"
+          title={t('products.materials.remove')}
+        >
+          <MaterialIcon name="close" size={14} className="shrink-0" />
+        </button>
+      </div>
+      {sizeRun.length > 0 && (
+        <div className="flex flex-wrap items-end gap-1.5 mt-2 pl-6">
+          {sizeRun.map((size) => (
+            <label key={size} className="flex flex-col items-center gap-0.5">
+              <span className="text-[10px] text-nokturo-500 dark:text-nokturo-400">{size}</span>
+              <input
+                type="number"
+                step="1"
+                min="0"
+                value={link.quantity_by_size?.[size] ?? ''}
+                placeholder={String(link.quantity)}
+                onChange={(e) => setSizeQuantity(size, e.target.value)}
+                className="w-14 h-7 bg-nokturo-200/60 dark:bg-nokturo-600/60 rounded-[6px] px-1.5 py-0.5 text-xs text-right text-nokturo-900 dark:text-nokturo-100 placeholder-nokturo-400 focus:outline-none focus:ring-2 focus:ring-nokturo-500"
+                title={`${t('products.sizeRun.gradedQuantity')} – ${size}`}
+              />
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface ProductVariantsEditorProps {
+  variants: VariantDraft[];
+  onChange: (variants: VariantDraft[]) => void;
+  /** Removes the variant together with its overrides */
+  onRemove: (variantId: string) => void;
+  baseSku: string;
+  sizeRun: string[];
+  /** All label links of the product – base ones (no variant_id) and overrides */
+  labels: VariantLabelLink[];
+  onLabelsChange: (labels: VariantLabelLink[]) => void;
+  availableLabels: Label[];
+  /** Component overrides (base components are edited by ProductSlideOver) */
+  components: VariantComponentLink[];
+  onComponentsChange: (components: VariantComponentLink[]) => void;
+  /** Material overrides – rendered by ProductSlideOver with its material sections */
+  renderMaterials: (variantId: string) => ReactNode;
+  onUploadSwatch: (file: File) => Promise<string>;
+  canDelete?: boolean;
+}
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+/** Colorway editor – name, color code, swatch, SKU suffix and BOM overrides per variant */
+export function ProductVariantsEditor({
+  variants,
+  onChange,
+  onRemove,
+  baseSku,
+  sizeRun,
+  labels,
+  onLabelsChange,
+  availableLabels,
+  components,
+  onComponentsChange,
+  renderMaterials,
+  onUploadSwatch,
+  canDelete = true,
+}: ProductVariantsEditorProps) {
+  const { t } = useTranslation();
+  const [availableComponents, setAvailableComponents] = useState<Component[]>([]);
+  const [uploadingId, setUploadingId] = useState<string | null>(null);
+  const [uploadError, setUploadError] = useState('');
+  const swatchInputRef = useRef<HTMLInputElement>(null);
+  const swatchTargetRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    supabase
+      .from('components')
+      .select('*')
+      .order('name')
+      .then(({ data }) => setAvailableComponents((data as Component[]) || []));
+  }, []);
+
+  const update = (id: string, patch: Partial<VariantDraft>) =>
+    onChange(variants.map((v) => (v.id === id ? { ...v, ...patch } : v)));
+
+  const allSkus = generateSkus(
+    baseSku,
+    variants.map((v, i) => ({ ...v, product_id: '', sort_order: i })),
+    sizeRun
+  );
+  const dupes = duplicateSkus(allSkus);
+
+  const addVariant = () =>
+    onChange([
+      ...variants,
+      { id: crypto.randomUUID(), name: '', color_code: null, swatch_url: null, sku_suffix: null },
+    ]);
+
+  const handleSwatchFile = async (file: File) => {
+    const id = swatchTargetRef.current;
+    if (!id) return;
+    setUploadingId(id);
+    setUploadError('');
+    try {
+      update(id, { swatch_url: await onUploadSwatch(file) });
+    } catch (err) {
+      setUploadError(err instanceof Error ? err.message : String(err));
+    }
+    setUploadingId(null);
+  };
+
+  const addLabel = (variantId: string, labelId: string) => {
+    const lbl = availableLabels.find((l) => l.id === labelId);
+    if (!lbl) return;
+    // Placement follows the base label the override replaces
+    const replaced = labels.find((ll) => !ll.variant_id && ll.label.typ === lbl.typ);
+    onLabelsChange([
+      ...labels,
+      { label_id: lbl.id, label: lbl, placement: replaced?.placement ?? [], variant_id: variantId },
+    ]);
+  };
+
+  const addComponent = (variantId: string, componentId: string) => {
+    const comp = availableComponents.find((c) => c.id === componentId);
+    if (!comp) return;
+    onComponentsChange([
+      ...components,
+      { component_id: comp.id, component: comp, quantity: 1, variant_id: variantId },
+    ]);
+  };
+
+  return (
+    <div className="space-y-3">
+      {variants.map((variant) => {
+        const ownLabels = labels.filter((ll) => ll.variant_id === variant.id);
+        const ownComponents = components.filter((vc) => vc.variant_id === variant.id);
+        const skus = allSkus.filter((s) => s.variant?.id === variant.id);
+        const swatchColor = variant.color_code && HEX_COLOR.test(variant.color_code) ? variant.color_code : undefined;
+        return (
+          <div key={variant.id} className="rounded-lg p-3 bg-nokturo-100/60 dark:bg-white/5 space-y-3">
+            <div className="flex items-center gap-2">
+              <button
+                type="button"
+                onClick={() => {
+                  swatchTargetRef.current = variant.id;
+                  swatchInputRef.current?.click();
+                }}
+                className="w-11 h-11 shrink-0 rounded-lg overflow-hidden bg-nokturo-200 dark:bg-nokturo-700 flex items-center justify-center text-nokturo-500 hover:opacity-90 transition-opacity"
+                style={{ backgroundColor: variant.swatch_url ? undefined : swatchColor }}
+                title={t('products.variants.uploadSwatch')}
+              >
+                {uploadingId === variant.id ? (
+                  <MaterialIcon name="progress_activity" size={18} className="animate-spin shrink-0" />
+                ) : variant.swatch_url ? (
+                  <img src={variant.swatch_url} alt="" className="w-full h-full object-cover" />
+                ) : !swatchColor ? (
+                  <MaterialIcon name="palette" size={18} className="shrink-0" />
+                ) : null}
+              </button>
+              <input
+                type="text"
+                value={variant.name}
+                onChange={(e) => update(variant.id, { name: e.target.value })}
+                placeholder={t('products.variants.namePlaceholder')}
+                className={`${INPUT_CLASS} flex-1 min-w-0`}
+              />
+              {canDelete && (
+                <button
+                  type="button"
+                  onClick={() => onRemove(variant.id)}
+                  className="p-1.5 text-nokturo-500 hover:text-red-fg hover:bg-red rounded transition-colors shrink-0"
+                  title={t('common.delete')}
+                >
+                  <MaterialIcon name="close" size={16} className="shrink-0" />
+                </button>
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="block text-xs text-nokturo-600 dark:text-nokturo-400 mb-1">
+                  {t('products.variants.colorCode')}
+                </label>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="color"
+                    value={swatchColor ?? '#000000'}
+                    onChange={(e) => update(variant.id, { color_code: e.target.value })}
+                    className="w-9 h-9 shrink-0 rounded cursor-pointer bg-transparent"
+                  />
+                  <input
+                    type="text"
+                    value={variant.color_code ?? ''}
+                    onChange={(e) => update(variant.id, { color_code: e.target.value || null })}
+                    placeholder={t('products.variants.colorCodePlaceholder')}
+                    className={`${INPUT_CLASS} min-w-0`}
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="block text-xs text-nokturo-600 dark:text-nokturo-400 mb-1">
+                  {t('products.variants.skuSuffix')}
+                </label>
+                <input
+                  type="text"
+                  value={variant.sku_suffix ?? ''}
+                  onChange={(e) => update(variant.id, { sku_suffix: e.target.value || null })}
+                  placeholder={t('products.variants.skuSuffixPlaceholder')}
+                  className={INPUT_CLASS}
+                />
+              </div>
+            </div>
+
+            {skus.some((s) => s.sku) && (
+              <div className="flex flex-wrap gap-1">
+                {skus.map((s) => (
+                  <span
+                    key={s.sku + (s.size ?? '')}
+                    className={`text-[11px] font-mono px-1.5 py-0.5 rounded ${
+                      dupes.has(s.sku)
+                        ? 'bg-red/10 dark:bg-red/20 text-red dark:text-red-fg'
+                        : 'bg-nokturo-200/60 dark:bg-nokturo-700/60 text-nokturo-700 dark:text-nokturo-300'
+                    }`}
+                  >
+                    {s.sku}
+                  </span>
+                ))}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <p className="text-xs font-medium text-nokturo-600 dark:text-nokturo-400">
+                {t('products.variants.overrides')}
+              </p>
+              {renderMaterials(variant.id)}
+
+              {ownComponents.map((vc) => (
+                <ComponentLinkRow
+                  key={vc.component_id}
+                  link={vc}
+                  sizeRun={sizeRun}
+                  onChange={(patch) => onComponentsChange(components.map((c) => (c === vc ? { ...c, ...patch } : c)))}
+                  onRemove={() => onComponentsChange(components.filter((c) => c !== vc))}
+                />
+              ))}
+
+              {ownLabels.map((ll) => (
+                <div key={ll.label_id} className="flex items-center gap-2 bg-nokturo-50 dark:bg-nokturo-700/50 rounded-lg p-2">
+                  <MaterialIcon name="sell" size={16} className="text-nokturo-400 shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-nokturo-900 dark:text-nokturo-100 truncate">{ll.label.name}</p>
+                    <p className="text-xs text-nokturo-500 dark:text-nokturo-400 truncate">{ll.label.typ}</p>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => onLabelsChange(labels.filter((l) => l !== ll))}
+                    className="p-1.5 text-nokturo-500 hover:text-red-fg hover:bg-red rounded transition-colors shrink-0"
+                    title={t('products.materials.remove')}
+                  >
+                    <MaterialIcon name="close" size={14} className="shrink-0" />
+                  </button>
+                </div>
+              ))}
+
+              <div className="grid grid-cols-2 gap-2">
+                <SelectField value="" onChange={(e) => addComponent(variant.id, e.target.value)}>
+                  <option value="">{t('products.variants.addComponent')}</option>
+                  {availableComponents
+                    .filter((c) => !ownComponents.some((vc) => vc.component_id === c.id))
+                    .map((c) => (
+                      <option key={c.id} value={c.id}>{`${c.name} · ${c.type}`}</option>
+                    ))}
+                </SelectField>
+                <SelectField value="" onChange={(e) => addLabel(variant.id, e.target.value)}>
+                  <option value="">{t('products.variants.addLabel')}</option>
+                  {availableLabels
+                    .filter((l) => !ownLabels.some((ll) => ll.label_id === l.id))
+                    .map((l) => (
+                      <option key={l.id} value={l.id}>{`${l.name} · ${l.typ}`}</option>
+                    ))}
+                </SelectField>
+              </div>
+            </div>
+          </div>
+        );
+      })}
+
+      {uploadError && (
+        <div className="text-red dark:text-red-fg text-sm bg-red/10 dark:bg-red/20 rounded-lg px-3 py-2">{uploadError}</div>
+      )}
+
+      <input
+        ref={swatchInputRef}
+        type="file"
+        accept="image/*"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) handleSwatchFile(file);
+          e.target.value = '';
+        }}
+      />
+
+      <button
+        type="button"
+        onClick={addVariant}
+        className="inline-flex items-center gap-1 text-sm text-nokturo-600 dark:text-nokturo-400 hover:text-nokturo-900 dark:hover:text-nokturo-100 transition-colors"
+      >
+        <MaterialIcon name="add" size={16} className="shrink-0" />
+        {t('products.variants.add')}
+      </button>
+      <p className="text-xs text-nokturo-500 dark:text-nokturo-400">{t('products.variants.overrideHint')}</p>
+    </div>
+  );
+}
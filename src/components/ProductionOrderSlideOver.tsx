@@ -0,0 +1,468 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { supabase } from '../lib/supabase';
+import { getUserIdForDb } from '../stores/authStore';
+import { MaterialIcon } from './icons/MaterialIcon';
+import { DeleteIcon } from './icons/DeleteIcon';
+import { EntityChannelButton } from './EntityChannelButton';
+import { NotionSelect, type NotionSelectOption } from './NotionSelect';
+import { SimpleDropdown } from './SimpleDropdown';
+import { INPUT_CLASS, TEXTAREA_CLASS, MODAL_HEADING_CLASS } from '../lib/inputStyles';
+import type { ProductWithMaterials } from './ProductSlideOver';
+import type { SizeValues } from '../lib/sizeRun';
+import { resolveVariantBom, sortVariants } from '../lib/productVariants';
+import {
+  computeRequirements,
+  totalQuantity,
+  type ProductionOrderStatus,
+} from '../lib/productionOrders';
+
+// ── Types ────────────────────────────────────────────────────
+export interface ProductionOrder {
+  id: string;
+  product_id: string;
+  /** Colorway made in this run; null → base BOM */
+  variant_id: string | null;
+  factory_id: string | null;
+  status: ProductionOrderStatus;
+  quantity: number;
+  quantity_by_size: SizeValues;
+  start_date: string | null;
+  target_date: string | null;
+  notes: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  factory?: { id: string; name: string } | null;
+}
+
+export interface FactoryOption {
+  id: string;
+  name: string;
+  lead_time_days: number | null;
+}
+
+interface FormData {
+  product_id: string;
+  variant_id: string;
+  factory_id: string;
+  status: ProductionOrderStatus;
+  quantity: string;
+  quantity_by_size: Record<string, string>;
+  start_date: string;
+  target_date: string;
+  notes: string;
+}
+
+const emptyForm: FormData = {
+  product_id: '',
+  variant_id: '',
+  factory_id: '',
+  status: 'planned',
+  quantity: '',
+  quantity_by_size: {},
+  start_date: '',
+  target_date: '',
+  notes: '',
+};
+
+export const PRODUCTION_STATUS_OPTIONS: NotionSelectOption[] = [
+  { id: 'po-planned', name: 'planned', color: 'gray', sort_order: 0 },
+  { id: 'po-confirmed', name: 'confirmed', color: 'blue', sort_order: 1 },
+  { id: 'po-in-production', name: 'in_production', color: 'orange', sort_order: 2 },
+  { id: 'po-completed', name: 'completed', color: 'green', sort_order: 3 },
+  { id: 'po-canceled', name: 'canceled', color: 'red', sort_order: 4 },
+];
+
+interface ProductionOrderSlideOverProps {
+  open: boolean;
+  order: ProductionOrder | null;
+  products: ProductWithMaterials[];
+  factories: FactoryOption[];
+  onClose: () => void;
+  onSaved: () => void;
+  onDelete?: (id: string) => void;
+}
+
+export function ProductionOrderSlideOver({
+  open,
+  order,
+  products,
+  factories,
+  onClose,
+  onSaved,
+  onDelete,
+}: ProductionOrderSlideOverProps) {
+  const { t } = useTranslation();
+
+  const [form, setForm] = useState<FormData>(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (order) {
+      setForm({
+        product_id: order.product_id,
+        variant_id: order.variant_id || '',
+        factory_id: order.factory_id || '',
+        status: order.status,
+        quantity: order.quantity ? String(order.quantity) : '',
+        quantity_by_size: Object.fromEntries(
+          Object.entries(order.quantity_by_size || {}).map(([size, qty]) => [size, String(qty)])
+        ),
+        start_date: order.start_date?.slice(0, 10) || '',
+        target_date: order.target_date?.slice(0, 10) || '',
+        notes: order.notes || '',
+      });
+    } else {
+      setForm(emptyForm);
+    }
+    setError('');
+  }, [order, open]);
+
+  const product = products.find((p) => p.id === form.product_id) ?? null;
+  const variants = sortVariants(product?.product_variants);
+  const sizeRun = product?.size_run ?? [];
+
+  const quantityBySize = useMemo<SizeValues>(() => {
+    const out: SizeValues = {};
+    for (const size of sizeRun) {
+      const n = parseInt(form.quantity_by_size[size] ?? '', 10);
+      if (!isNaN(n) && n > 0) out[size] = n;
+    }
+    return out;
+  }, [form.quantity_by_size, sizeRun]);
+
+  const flatQuantity = parseInt(form.quantity, 10) || 0;
+  const units = totalQuantity(sizeRun, quantityBySize, flatQuantity);
+
+  const requirements = useMemo(
+    () =>
+      product
+        ? computeRequirements(resolveVariantBom(product, form.variant_id || null), quantityBySize, flatQuantity)
+        : [],
+    [product, form.variant_id, quantityBySize, flatQuantity]
+  );
+  const shortfallCount = requirements.filter((r) => r.shortfall > 0).length;
+
+  const handleChange = (field: keyof FormData, value: string) => {
+    setForm((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const handleSizeQty = (size: string, value: string) => {
+    setForm((prev) => ({ ...prev, quantity_by_size: { ...prev.quantity_by_size, [size]: value } }));
+  };
+
+  // Suggest a target date from the factory lead time once a start date is known
+  const suggestTargetDate = (factoryId: string, startDate: string) => {
+    const factory = factories.find((f) => f.id === factoryId);
+    if (!factory?.lead_time_days || !startDate) return;
+    const d = new Date(startDate);
+    d.setDate(d.getDate() + factory.lead_time_days);
+    setForm((prev) => (prev.target_date ? prev : { ...prev, target_date: d.toISOString().slice(0, 10) }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (!form.product_id) {
+      setError(t('productionOrders.productRequired'));
+      return;
+    }
+    if (units <= 0) {
+      setError(t('productionOrders.quantityRequired'));
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const record = {
+        product_id: form.product_id,
+        variant_id: form.variant_id || null,
+        factory_id: form.factory_id || null,
+        status: form.status,
+        quantity: units,
+        quantity_by_size: sizeRun.length > 0 ? quantityBySize : {},
+        start_date: form.start_date || null,
+        target_date: form.target_date || null,
+        notes: form.notes.trim() || null,
+        created_by: order?.id ? order.created_by : getUserIdForDb(),
+      };
+
+      const result = order?.id
+        ? await supabase.from('production_orders').update(record).eq('id', order.id).select()
+        : await supabase.from('production_orders').insert(record).select();
+
+      if (result.error) {
+        setError(result.error.message);
+        return;
+      }
+      if (!result.data || result.data.length === 0) {
+        setError(t('productionOrders.saveFailed'));
+        return;
+      }
+
+      onSaved();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!open) return null;
+
+  const inputClass = INPUT_CLASS;
+  const labelClass = 'block text-sm text-nokturo-700 dark:text-nokturo-400 mb-1.5';
+
+  return (
+    <>
+      <div className="fixed inset-0 z-40 bg-overlay backdrop-blur-sm" onClick={onClose} />
+      <div className="fixed inset-y-0 right-0 z-50 w-full sm:max-w-lg bg-nokturo-900 shadow-2xl flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-nokturo-200 dark:border-nokturo-600 shrink-0">
+          <h3 className={MODAL_HEADING_CLASS}>
+            {order?.id ? t('productionOrders.editOrder') : t('productionOrders.addOrder')}
+          </h3>
+          <div className="flex items-center gap-1">
+            {order?.id && <EntityChannelButton entityType="production_order" entityId={order.id} />}
+            {order?.id && onDelete && (
+              <button
+                type="button"
+                onClick={() => {
+                  onDelete(order.id);
+                  onClose();
+                }}
+                className="dropdown-menu-item-destructive p-1.5 text-nokturo-500 dark:text-nokturo-400 hover:bg-red hover:text-red-fg transition-colors rounded-lg"
+                title={t('common.delete')}
+              >
+                <DeleteIcon className="w-5 h-5" />
+              </button>
+            )}
+            <button onClick={onClose} className="p-1.5 text-nokturo-500 dark:text-nokturo-400 hover:text-nokturo-900 dark:hover:text-nokturo-100 transition-colors rounded-lg hover:bg-nokturo-100 dark:hover:bg-nokturo-700">
+              <MaterialIcon name="close" size={20} className="shrink-0" />
+            </button>
+          </div>
+        </div>
+
+        <form
+          id="production-order-form"
+          onSubmit={handleSubmit}
+          noValidate
+          className="flex flex-1 flex-col min-h-0 overflow-hidden"
+        >
+          <div className="flex-1 overflow-y-auto px-6 py-4 space-y-4">
+            {/* Product */}
+            <div>
+              <label className={labelClass}>{t('productionOrders.product')} *</label>
+              <SimpleDropdown
+                value={form.product_id}
+                onChange={(v) => setForm((prev) => ({ ...prev, product_id: v, variant_id: '', quantity_by_size: {} }))}
+                options={[
+                  { value: '', label: t('productionOrders.selectProduct') },
+                  ...products.map((p) => ({ value: p.id, label: p.sku ? `${p.name} (${p.sku})` : p.name })),
+                ]}
+              />
+            </div>
+
+            {/* Variant – the requirement uses the variant's BOM */}
+            {variants.length > 0 && (
+              <div>
+                <label className={labelClass}>{t('productionOrders.variant')}</label>
+                <SimpleDropdown
+                  value={form.variant_id}
+                  onChange={(v) => handleChange('variant_id', v)}
+                  options={[
+                    { value: '', label: t('productionOrders.baseBom') },
+                    ...variants.map((v) => ({ value: v.id, label: v.name })),
+                  ]}
+                />
+              </div>
+            )}
+
+            {/* Status */}
+            <div>
+              <label className={labelClass}>{t('productionOrders.status')}</label>
+              <NotionSelect
+                value={form.status}
+                onChange={(v) => handleChange('status', Array.isArray(v) ? v[0] ?? 'planned' : v)}
+                options={PRODUCTION_STATUS_OPTIONS}
+                optionsI18nKey="productionOrders.statuses"
+              />
+            </div>
+
+            {/* Factory (suppliers with category "factory") */}
+            <div>
+              <label className={labelClass}>{t('productionOrders.factory')}</label>
+              <SimpleDropdown
+                value={form.factory_id}
+                onChange={(v) => {
+                  handleChange('factory_id', v);
+                  suggestTargetDate(v, form.start_date);
+                }}
+                options={[
+                  { value: '', label: t('productionOrders.selectFactory') },
+                  ...factories.map((f) => ({ value: f.id, label: f.name })),
+                ]}
+              />
+              {factories.length === 0 && (
+                <p className="text-xs text-nokturo-500 mt-1">{t('productionOrders.noFactories')}</p>
+              )}
+            </div>
+
+            {/* Quantity – per size when the product has a size run */}
+            <div>
+              <label className={labelClass}>
+                {sizeRun.length > 0 ? t('productionOrders.quantityPerSize') : t('productionOrders.quantity')} *
+              </label>
+              {sizeRun.length > 0 ? (
+                <>
+                  <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+                    {sizeRun.map((size) => (
+                      <label key={size} className="flex items-center gap-2">
+                        <span className="text-xs text-nokturo-500 w-8 shrink-0">{size}</span>
+                        <input
+                          type="number"
+                          min="0"
+                          step="1"
+                          value={form.quantity_by_size[size] ?? ''}
+                          onChange={(e) => handleSizeQty(size, e.target.value)}
+                          placeholder="0"
+                          className={inputClass}
+                        />
+                      </label>
+                    ))}
+                  </div>
+                  <p className="text-xs text-nokturo-500 mt-1.5">
+                    {t('productionOrders.totalUnits')}: {units}
+                  </p>
+                </>
+              ) : (
+                <input
+                  type="number"
+                  min="0"
+                  step="1"
+                  value={form.quantity}
+                  onChange={(e) => handleChange('quantity', e.target.value)}
+                  className={inputClass}
+                />
+              )}
+            </div>
+
+            {/* Dates */}
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className={labelClass}>{t('productionOrders.startDate')}</label>
+                <input
+                  type="date"
+                  value={form.start_date}
+                  onChange={(e) => {
+                    handleChange('start_date', e.target.value);
+                    suggestTargetDate(form.factory_id, e.target.value);
+                  }}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className={labelClass}>{t('productionOrders.targetDate')}</label>
+                <input
+                  type="date"
+                  value={form.target_date}
+                  onChange={(e) => handleChange('target_date', e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            {/* Notes */}
+            <div>
+              <label className={labelClass}>{t('productionOrders.notes')}</label>
+              <textarea
+                value={form.notes}
+                onChange={(e) => handleChange('notes', e.target.value)}
+                rows={3}
+                className={`${TEXTAREA_CLASS} resize-none`}
+              />
+            </div>
+
+            {/* BOM requirement vs. stock */}
+            {product && (
+              <div>
+                <div className="flex items-center justify-between mb-1.5">
+                  <label className="text-sm text-nokturo-700 dark:text-nokturo-400">
+                    {t('productionOrders.requirement')}
+                  </label>
+                  {shortfallCount > 0 && (
+                    <span className="text-xs px-2 py-0.5 rounded-[4px] font-medium bg-red text-red-fg">
+                      {t('productionOrders.shortfallCount', { count: shortfallCount })}
+                    </span>
+                  )}
+                </div>
+                {requirements.length === 0 ? (
+                  <p className="text-xs text-nokturo-500">{t('productionOrders.noBom')}</p>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-xs">
+                      <thead>
+                        <tr className="text-nokturo-500 text-left">
+                          <th className="py-1.5 pr-2 font-medium">{t('productionOrders.item')}</th>
+                          <th className="py-1.5 px-2 font-medium text-right">{t('productionOrders.required')}</th>
+                          <th className="py-1.5 px-2 font-medium text-right">{t('productionOrders.inStock')}</th>
+                          <th className="py-1.5 pl-2 font-medium text-right">{t('productionOrders.shortfall')}</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {requirements.map((r) => (
+                          <tr key={`${r.kind}-${r.id}`} className="border-t border-nokturo-200 dark:border-nokturo-700">
+                            <td className="py-1.5 pr-2 text-nokturo-900 dark:text-nokturo-100">
+                              {r.name}
+                              {r.kind === 'component' && (
+                                <span className="text-nokturo-500 ml-1">· {t('productionOrders.component')}</span>
+                              )}
+                            </td>
+                            <td className="py-1.5 px-2 text-right text-nokturo-700 dark:text-nokturo-300">
+                              {+r.required.toFixed(2)} {r.unit}
+                            </td>
+                            <td className="py-1.5 px-2 text-right text-nokturo-700 dark:text-nokturo-300">
+                              {r.stock} {r.unit}
+                            </td>
+                            <td className={`py-1.5 pl-2 text-right font-medium ${r.shortfall > 0 ? 'text-red' : 'text-nokturo-500'}`}>
+                              {r.shortfall > 0 ? `${+r.shortfall.toFixed(2)} ${r.unit}` : '—'}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+
+          <div className="relative z-10 flex flex-col gap-3 px-6 py-4 shrink-0 mt-auto bg-elevated">
+            {error && (
+              <div className="text-red dark:text-red-fg text-sm bg-red/10 dark:bg-red/20 rounded-lg px-3 py-2 shrink-0">
+                {error}
+              </div>
+            )}
+            <div className="flex items-center justify-end gap-3">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-sm text-nokturo-600 dark:text-nokturo-400 hover:text-nokturo-900 dark:hover:text-nokturo-100 transition-colors"
+              >
+                {t('common.cancel')}
+              </button>
+              <button
+                type="submit"
+                disabled={saving}
+                className="px-5 py-2 text-sm bg-nokturo-900 dark:bg-white dark:text-nokturo-900 text-white font-medium rounded-lg hover:bg-nokturo-800 dark:hover:bg-nokturo-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+              >
+                {saving && <MaterialIcon name="progress_activity" size={16} className="animate-spin shrink-0" />}
+                {t('common.save')}
+              </button>
+            </div>
+          </div>
+        </form>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,421 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { supabase } from '../lib/supabase';
+import { MaterialIcon } from './icons/MaterialIcon';
+import { DeleteIcon } from './icons/DeleteIcon';
+import { SimpleDropdown } from './SimpleDropdown';
+import { INPUT_CLASS, TEXTAREA_CLASS, MODAL_HEADING_CLASS } from '../lib/inputStyles';
+import { CURRENCIES } from '../lib/currency';
+import {
+  approvePurchaseOrder,
+  formatPoNumber,
+  itemsTotal,
+  type PurchaseOrderStatus,
+} from '../lib/purchaseOrders';
+
+// ── Types ────────────────────────────────────────────────────
+export interface PurchaseOrderItem {
+  id: string;
+  purchase_order_id: string;
+  material_id: string | null;
+  component_id: string | null;
+  description: string;
+  unit: string;
+  quantity: number;
+  unit_price: number;
+  sort_order: number;
+}
+
+export interface PurchaseOrder {
+  id: string;
+  po_number: number;
+  supplier_id: string | null;
+  status: PurchaseOrderStatus;
+  currency: string;
+  notes: string | null;
+  accounting_order_id: string | null;
+  approved_at: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  supplier?: { id: string; name: string; email: string | null } | null;
+  purchase_order_items?: PurchaseOrderItem[];
+}
+
+interface ItemRow {
+  id: string | null;
+  material_id: string | null;
+  component_id: string | null;
+  description: string;
+  unit: string;
+  quantity: string;
+  unit_price: string;
+}
+
+interface PurchaseOrderSlideOverProps {
+  open: boolean;
+  order: PurchaseOrder | null;
+  canWrite: boolean;
+  onClose: () => void;
+  onSaved: (message: string) => void;
+  onDelete?: (id: string) => void;
+}
+
+export function PurchaseOrderSlideOver({
+  open,
+  order,
+  canWrite,
+  onClose,
+  onSaved,
+  onDelete,
+}: PurchaseOrderSlideOverProps) {
+  const { t } = useTranslation();
+
+  const [items, setItems] = useState<ItemRow[]>([]);
+  const [currency, setCurrency] = useState('EUR');
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!order) return;
+    setItems(
+      [...(order.purchase_order_items ?? [])]
+        .sort((a, b) => a.sort_order - b.sort_order)
+        .map((i) => ({
+          id: i.id,
+          material_id: i.material_id,
+          component_id: i.component_id,
+          description: i.description,
+          unit: i.unit,
+          quantity: String(Number(i.quantity)),
+          unit_price: String(Number(i.unit_price)),
+        }))
+    );
+    setCurrency(order.currency);
+    setNotes(order.notes || '');
+    setError('');
+  }, [order, open]);
+
+  if (!open || !order) return null;
+
+  const editable = canWrite && order.status === 'draft';
+  const parsedItems = items
+    .map((i) => ({ ...i, qty: parseFloat(i.quantity) || 0, price: parseFloat(i.unit_price) || 0 }))
+    .filter((i) => i.description.trim());
+  const total = itemsTotal(parsedItems.map((i) => ({ quantity: i.qty, unit_price: i.price })));
+
+  const updateItem = (idx: number, patch: Partial<ItemRow>) => {
+    setItems((prev) => prev.map((item, i) => (i === idx ? { ...item, ...patch } : item)));
+  };
+
+  const addFreeLine = () => {
+    setItems((prev) => [
+      ...prev,
+      { id: null, material_id: null, component_id: null, description: '', unit: 'pcs', quantity: '1', unit_price: '0' },
+    ]);
+  };
+
+  /** Persist header + lines; lines removed in the form are deleted. */
+  const saveDraft = async (): Promise<string | null> => {
+    const { error: poErr } = await supabase
+      .from('purchase_orders')
+      .update({ currency, notes: notes.trim() || null })
+      .eq('id', order.id);
+    if (poErr) return poErr.message;
+
+    const keptIds = parsedItems.map((i) => i.id).filter((id): id is string => !!id);
+    const removed = (order.purchase_order_items ?? []).filter((i) => !keptIds.includes(i.id)).map((i) => i.id);
+    if (removed.length > 0) {
+      const { error: delErr } = await supabase.from('purchase_order_items').delete().in('id', removed);
+      if (delErr) return delErr.message;
+    }
+
+    for (const [idx, item] of parsedItems.entries()) {
+      const record = {
+        purchase_order_id: order.id,
+        material_id: item.material_id,
+        component_id: item.component_id,
+        description: item.description.trim(),
+        unit: item.unit,
+        quantity: item.qty,
+        unit_price: item.price,
+        sort_order: idx,
+      };
+      const { error: itemErr } = item.id
+        ? await supabase.from('purchase_order_items').update(record).eq('id', item.id)
+        : await supabase.from('purchase_order_items').insert(record);
+      if (itemErr) return itemErr.message;
+    }
+    return null;
+  };
+
+  const handleSave = async () => {
+    setError('');
+    setSaving(true);
+    try {
+      const err = await saveDraft();
+      if (err) {
+        setError(err);
+        return;
+      }
+      onSaved(t('purchaseOrders.saved'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleApprove = async () => {
+    setError('');
+    if (parsedItems.length === 0 || total <= 0) {
+      setError(t('purchaseOrders.emptyOrder'));
+      return;
+    }
+    setSaving(true);
+    try {
+      const saveErr = await saveDraft();
+      if (saveErr) {
+        setError(saveErr);
+        return;
+      }
+      const err = await approvePurchaseOrder(order.id);
+      if (err) {
+        setError(err);
+        return;
+      }
+      onSaved(t('purchaseOrders.approved'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCancelOrder = async () => {
+    setSaving(true);
+    const { error: err } = await supabase.from('purchase_orders').update({ status: 'canceled' }).eq('id', order.id);
+    setSaving(false);
+    if (err) {
+      setError(err.message);
+      return;
+    }
+    onSaved(t('purchaseOrders.canceledMessage'));
+  };
+
+  const labelClass = 'block text-sm text-nokturo-700 dark:text-nokturo-400 mb-1.5';
+  const fmtMoney = (n: number) => n.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+  return (
+    <>
+      <div className="fixed inset-0 z-40 bg-overlay backdrop-blur-sm" onClick={onClose} />
+      <div className="fixed inset-y-0 right-0 z-50 w-full sm:max-w-2xl bg-nokturo-900 shadow-2xl flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-nokturo-200 dark:border-nokturo-600 shrink-0">
+          <div className="min-w-0">
+            <h3 className={MODAL_HEADING_CLASS}>
+              {formatPoNumber(order.po_number)} · {order.supplier?.name ?? t('purchaseOrders.noSupplier')}
+            </h3>
+            <p className="text-xs text-nokturo-500 mt-0.5">{t(`purchaseOrders.statuses.${order.status}`)}</p>
+          </div>
+          <div className="flex items-center gap-1">
+            {order.status !== 'approved' && onDelete && (
+              <button
+                type="button"
+                onClick={() => {
+                  onDelete(order.id);
+                  onClose();
+                }}
+                className="dropdown-menu-item-destructive p-1.5 text-nokturo-500 dark:text-nokturo-400 hover:bg-red hover:text-red-fg transition-colors rounded-lg"
+                title={t('common.delete')}
+              >
+                <DeleteIcon className="w-5 h-5" />
+              </button>
+            )}
+            <button onClick={onClose} className="p-1.5 text-nokturo-500 dark:text-nokturo-400 hover:text-nokturo-900 dark:hover:text-nokturo-100 transition-colors rounded-lg hover:bg-nokturo-100 dark:hover:bg-nokturo-700">
+              <MaterialIcon name="close" size={20} className="shrink-0" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-4">
+          {order.status === 'approved' && (
+            <div className="flex items-center gap-2 text-sm bg-green/10 dark:bg-green/20 text-green-fg rounded-lg px-3 py-2">
+              <MaterialIcon name="check_circle" size={16} className="shrink-0" />
+              {t('purchaseOrders.bookedInAccounting')}
+            </div>
+          )}
+
+          {/* Currency */}
+          <div className="max-w-[160px]">
+            <label className={labelClass}>{t('purchaseOrders.currency')}</label>
+            {editable ? (
+              <SimpleDropdown
+                value={currency}
+                onChange={setCurrency}
+                options={CURRENCIES.map((c) => ({ value: c, label: c }))}
+              />
+            ) : (
+              <p className="text-sm text-nokturo-900 dark:text-nokturo-100">{currency}</p>
+            )}
+          </div>
+
+          {/* Line items */}
+          <div>
+            <label className={labelClass}>{t('purchaseOrders.lineItems')}</label>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm min-w-[480px]">
+                <thead>
+                  <tr className="text-xs text-nokturo-500 text-left">
+                    <th className="py-1.5 pr-2 font-medium">{t('purchaseOrders.item')}</th>
+                    <th className="py-1.5 px-2 font-medium text-right w-24">{t('purchaseOrders.quantity')}</th>
+                    <th className="py-1.5 px-2 font-medium text-right w-28">{t('purchaseOrders.unitPrice')}</th>
+                    <th className="py-1.5 pl-2 font-medium text-right w-24">{t('purchaseOrders.lineTotal')}</th>
+                    {editable && <th className="w-8" />}
+                  </tr>
+                </thead>
+                <tbody>
+                  {items.map((item, idx) => (
+                    <tr key={item.id ?? `new-${idx}`} className="border-t border-nokturo-200 dark:border-nokturo-700 align-middle">
+                      <td className="py-1.5 pr-2 text-nokturo-900 dark:text-nokturo-100">
+                        {editable && !item.material_id && !item.component_id ? (
+                          <input
+                            value={item.description}
+                            onChange={(e) => updateItem(idx, { description: e.target.value })}
+                            placeholder={t('purchaseOrders.descriptionPlaceholder')}
+                            className={INPUT_CLASS}
+                          />
+                        ) : (
+                          item.description
+                        )}
+                      </td>
+                      <td className="py-1.5 px-2 text-right tabular-nums">
+                        {editable ? (
+                          <input
+                            type="number"
+                            min="0"
+                            step="0.001"
+                            value={item.quantity}
+                            onChange={(e) => updateItem(idx, { quantity: e.target.value })}
+                            className={`${INPUT_CLASS} text-right`}
+                          />
+                        ) : (
+                          <>{Number(item.quantity)} {item.unit}</>
+                        )}
+                      </td>
+                      <td className="py-1.5 px-2 text-right tabular-nums">
+                        {editable ? (
+                          <input
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            value={item.unit_price}
+                            onChange={(e) => updateItem(idx, { unit_price: e.target.value })}
+                            className={`${INPUT_CLASS} text-right`}
+                          />
+                        ) : (
+                          Number(item.unit_price)
+                        )}
+                      </td>
+                      <td className="py-1.5 pl-2 text-right tabular-nums text-nokturo-900 dark:text-nokturo-100">
+                        {fmtMoney((parseFloat(item.quantity) || 0) * (parseFloat(item.unit_price) || 0))}
+                      </td>
+                      {editable && (
+                        <td className="py-1.5 pl-1 text-right">
+                          <button
+                            type="button"
+                            onClick={() => setItems((prev) => prev.filter((_, i) => i !== idx))}
+                            className="p-1 text-nokturo-500 hover:text-red-fg hover:bg-red rounded transition-colors"
+                            title={t('common.delete')}
+                          >
+                            <MaterialIcon name="close" size={14} className="shrink-0" />
+                          </button>
+                        </td>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+                <tfoot>
+                  <tr className="border-t border-nokturo-300 dark:border-nokturo-600 font-medium text-nokturo-900 dark:text-nokturo-100">
+                    <td className="py-2 pr-2" colSpan={3}>{t('purchaseOrders.total')}</td>
+                    <td className="py-2 pl-2 text-right tabular-nums">{fmtMoney(total)} {currency}</td>
+                    {editable && <td />}
+                  </tr>
+                </tfoot>
+              </table>
+            </div>
+            {editable && (
+              <button
+                type="button"
+                onClick={addFreeLine}
+                className="mt-2 inline-flex items-center gap-1 text-sm text-nokturo-600 dark:text-nokturo-400 hover:text-nokturo-900 dark:hover:text-nokturo-100 transition-colors"
+              >
+                <MaterialIcon name="add" size={16} className="shrink-0" />
+                {t('purchaseOrders.addLine')}
+              </button>
+            )}
+          </div>
+
+          {/* Notes */}
+          <div>
+            <label className={labelClass}>{t('purchaseOrders.notes')}</label>
+            {editable ? (
+              <textarea
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                rows={3}
+                className={`${TEXTAREA_CLASS} resize-none`}
+              />
+            ) : (
+              <p className="text-sm text-nokturo-700 dark:text-nokturo-300 whitespace-pre-wrap">{notes || '—'}</p>
+            )}
+          </div>
+        </div>
+
+        <div className="relative z-10 flex flex-col gap-3 px-6 py-4 shrink-0 mt-auto bg-elevated">
+          {error && (
+            <div className="text-red dark:text-red-fg text-sm bg-red/10 dark:bg-red/20 rounded-lg px-3 py-2 shrink-0">
+              {error}
+            </div>
+          )}
+          <div className="flex items-center justify-end gap-3">
+            {editable && (
+              <button
+                type="button"
+                onClick={handleCancelOrder}
+                disabled={saving}
+                className="mr-auto px-3 py-2 text-sm text-nokturo-600 dark:text-nokturo-400 hover:text-red transition-colors disabled:opacity-50"
+              >
+                {t('purchaseOrders.cancelOrder')}
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm text-nokturo-600 dark:text-nokturo-400 hover:text-nokturo-900 dark:hover:text-nokturo-100 transition-colors"
+            >
+              {editable ? t('common.cancel') : t('common.close')}
+            </button>
+            {editable && (
+              <>
+                <button
+                  type="button"
+                  onClick={handleSave}
+                  disabled={saving}
+                  className="px-4 py-2 text-sm bg-nokturo-200 dark:bg-nokturo-700 text-nokturo-900 dark:text-nokturo-100 font-medium rounded-lg hover:bg-nokturo-300 dark:hover:bg-nokturo-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {t('common.save')}
+                </button>
+                <button
+                  type="button"
+                  onClick={handleApprove}
+                  disabled={saving}
+                  className="px-5 py-2 text-sm bg-nokturo-900 dark:bg-white dark:text-nokturo-900 text-white font-medium rounded-lg hover:bg-nokturo-800 dark:hover:bg-nokturo-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+                >
+                  {saving && <MaterialIcon name="progress_activity" size={16} className="animate-spin shrink-0" />}
+                  {t('purchaseOrders.approve')}
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
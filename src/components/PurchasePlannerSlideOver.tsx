@@ -0,0 +1,327 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { MaterialIcon } from './icons/MaterialIcon';
+import { SimpleDropdown } from './SimpleDropdown';
+import { INPUT_CLASS, TEXTAREA_CLASS, MODAL_HEADING_CLASS } from '../lib/inputStyles';
+import type { ProductWithMaterials } from './ProductSlideOver';
+import type { ProductionOrder } from './ProductionOrderSlideOver';
+import { sortVariants } from '../lib/productVariants';
+import {
+  aggregateRequirements,
+  groupShortfallsBySupplier,
+  itemsForGroup,
+  itemsTotal,
+  createDraftPurchaseOrders,
+  type PurchasePlanLine,
+} from '../lib/purchaseOrders';
+
+interface PlanRow {
+  key: string;
+  product_id: string;
+  variant_id: string;
+  quantity: string;
+  quantity_by_size: PurchasePlanLine['quantity_by_size'];
+  production_order_id: string | null;
+}
+
+interface PurchasePlannerSlideOverProps {
+  open: boolean;
+  products: ProductWithMaterials[];
+  /** Planned/confirmed production orders that can be pulled into the plan */
+  productionOrders: ProductionOrder[];
+  suppliers: { id: string; name: string }[];
+  onClose: () => void;
+  /** `skipped` names the shortfall lines without a supplier that were not ordered */
+  onCreated: (count: number, skipped: string[]) => void;
+}
+
+const newRow = (): PlanRow => ({
+  key: crypto.randomUUID(),
+  product_id: '',
+  variant_id: '',
+  quantity: '',
+  quantity_by_size: null,
+  production_order_id: null,
+});
+
+export function PurchasePlannerSlideOver({
+  open,
+  products,
+  productionOrders,
+  suppliers,
+  onClose,
+  onCreated,
+}: PurchasePlannerSlideOverProps) {
+  const { t } = useTranslation();
+
+  const [rows, setRows] = useState<PlanRow[]>([newRow()]);
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!open) return;
+    setRows([newRow()]);
+    setNotes('');
+    setError('');
+  }, [open]);
+
+  const productById = useMemo(() => new Map(products.map((p) => [p.id, p])), [products]);
+  const supplierName = (id: string | null) => suppliers.find((s) => s.id === id)?.name ?? t('purchaseOrders.noSupplier');
+
+  const plan = useMemo<PurchasePlanLine[]>(
+    () =>
+      rows
+        .filter((r) => r.product_id && (parseInt(r.quantity, 10) || 0) > 0)
+        .map((r) => ({
+          product_id: r.product_id,
+          variant_id: r.variant_id || null,
+          quantity: parseInt(r.quantity, 10) || 0,
+          quantity_by_size: r.quantity_by_size,
+          production_order_id: r.production_order_id,
+        })),
+    [rows]
+  );
+
+  const groups = useMemo(
+    () => groupShortfallsBySupplier(aggregateRequirements(plan, productById)),
+    [plan, productById]
+  );
+  const orderable = groups.filter((g) => g.supplier_id);
+  const unassigned = groups.find((g) => !g.supplier_id);
+
+  const updateRow = (key: string, patch: Partial<PlanRow>) => {
+    setRows((prev) => prev.map((r) => (r.key === key ? { ...r, ...patch } : r)));
+  };
+
+  const importProductionOrders = () => {
+    const already = new Set(rows.map((r) => r.production_order_id).filter(Boolean));
+    const imported = productionOrders
+      .filter((o) => !already.has(o.id))
+      .map((o) => ({
+        key: crypto.randomUUID(),
+        product_id: o.product_id,
+        variant_id: o.variant_id ?? '',
+        quantity: String(o.quantity),
+        quantity_by_size: o.quantity_by_size,
+        production_order_id: o.id,
+      }));
+    setRows((prev) => [...prev.filter((r) => r.product_id), ...imported]);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    if (orderable.length === 0) {
+      setError(t('purchaseOrders.nothingToOrder'));
+      return;
+    }
+    setSaving(true);
+    try {
+      const result = await createDraftPurchaseOrders(groups, notes.trim() || null);
+      if (result.error) {
+        setError(result.error);
+        return;
+      }
+      onCreated(result.created, result.skipped.map((l) => l.name));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!open) return null;
+
+  const labelClass = 'block text-sm text-nokturo-700 dark:text-nokturo-400 mb-1.5';
+  const fmtMoney = (n: number) => n.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+  return (
+    <>
+      <div className="fixed inset-0 z-40 bg-overlay backdrop-blur-sm" onClick={onClose} />
+      <div className="fixed inset-y-0 right-0 z-50 w-full sm:max-w-2xl bg-nokturo-900 shadow-2xl flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-nokturo-200 dark:border-nokturo-600 shrink-0">
+          <h3 className={MODAL_HEADING_CLASS}>{t('purchaseOrders.planPurchase')}</h3>
+          <button onClick={onClose} className="p-1.5 text-nokturo-500 dark:text-nokturo-400 hover:text-nokturo-900 dark:hover:text-nokturo-100 transition-colors rounded-lg hover:bg-nokturo-100 dark:hover:bg-nokturo-700">
+            <MaterialIcon name="close" size={20} className="shrink-0" />
+          </button>
+        </div>
+
+        <form
+          id="purchase-planner-form"
+          onSubmit={handleSubmit}
+          noValidate
+          className="flex flex-1 flex-col min-h-0 overflow-hidden"
+        >
+          <div className="flex-1 overflow-y-auto px-6 py-4 space-y-5">
+            {/* Products × quantities */}
+            <div>
+              <div className="flex items-center justify-between mb-1.5">
+                <label className="text-sm text-nokturo-700 dark:text-nokturo-400">{t('purchaseOrders.productsToMake')}</label>
+                {productionOrders.length > 0 && (
+                  <button
+                    type="button"
+                    onClick={importProductionOrders}
+                    className="inline-flex items-center gap-1 text-xs text-nokturo-600 dark:text-nokturo-400 hover:text-nokturo-900 dark:hover:text-nokturo-100 transition-colors"
+                  >
+                    <MaterialIcon name="factory" size={14} className="shrink-0" />
+                    {t('purchaseOrders.importProductionOrders', { count: productionOrders.length })}
+                  </button>
+                )}
+              </div>
+              <div className="space-y-2">
+                {rows.map((row) => {
+                  const variants = sortVariants(productById.get(row.product_id)?.product_variants);
+                  return (
+                    <div key={row.key} className="flex items-center gap-2">
+                      <div className="flex-1 min-w-0">
+                        <SimpleDropdown
+                          value={row.product_id}
+                          onChange={(v) =>
+                            updateRow(row.key, { product_id: v, variant_id: '', quantity_by_size: null, production_order_id: null })
+                          }
+                          options={[
+                            { value: '', label: t('productionOrders.selectProduct') },
+                            ...products.map((p) => ({ value: p.id, label: p.sku ? `${p.name} (${p.sku})` : p.name })),
+                          ]}
+                        />
+                      </div>
+                      {variants.length > 0 && (
+                        <div className="w-36 shrink-0">
+                          <SimpleDropdown
+                            value={row.variant_id}
+                            onChange={(v) => updateRow(row.key, { variant_id: v })}
+                            options={[
+                              { value: '', label: t('productionOrders.baseBom') },
+                              ...variants.map((v) => ({ value: v.id, label: v.name })),
+                            ]}
+                          />
+                        </div>
+                      )}
+                      <input
+                        type="number"
+                        min="0"
+                        step="1"
+                        value={row.quantity}
+                        onChange={(e) => updateRow(row.key, { quantity: e.target.value, quantity_by_size: null })}
+                        placeholder={t('purchaseOrders.units')}
+                        className={`${INPUT_CLASS} !w-24 shrink-0`}
+                      />
+                      <button
+                        type="button"
+                        onClick={() => setRows((prev) => (prev.length > 1 ? prev.filter((r) => r.key !== row.key) : [newRow()]))}
+                        className="p-1.5 text-nokturo-500 hover:text-red-fg hover:bg-red rounded transition-colors shrink-0"
+                        title={t('common.delete')}
+                      >
+                        <MaterialIcon name="close" size={16} className="shrink-0" />
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+              <button
+                type="button"
+                onClick={() => setRows((prev) => [...prev, newRow()])}
+                className="mt-2 inline-flex items-center gap-1 text-sm text-nokturo-600 dark:text-nokturo-400 hover:text-nokturo-900 dark:hover:text-nokturo-100 transition-colors"
+              >
+                <MaterialIcon name="add" size={16} className="shrink-0" />
+                {t('purchaseOrders.addProduct')}
+              </button>
+            </div>
+
+            {/* Draft POs per supplier */}
+            {plan.length > 0 && (
+              <div className="space-y-3">
+                <label className="text-sm text-nokturo-700 dark:text-nokturo-400">
+                  {t('purchaseOrders.draftsPreview', { count: orderable.length })}
+                </label>
+                {groups.length === 0 && (
+                  <p className="text-xs text-nokturo-500">{t('purchaseOrders.stockCovers')}</p>
+                )}
+                {groups.map((group) => {
+                  const items = itemsForGroup(group);
+                  return (
+                    <div
+                      key={group.supplier_id ?? 'none'}
+                      className={`rounded-lg p-3 ${group.supplier_id ? 'bg-nokturo-100/60 dark:bg-white/5' : 'bg-red/10 dark:bg-red/20'}`}
+                    >
+                      <div className="flex items-center justify-between gap-2 mb-1.5">
+                        <span className="text-sm font-medium text-nokturo-900 dark:text-nokturo-100 truncate">
+                          {supplierName(group.supplier_id)}
+                        </span>
+                        {group.supplier_id ? (
+                          <span className="text-sm tabular-nums text-nokturo-700 dark:text-nokturo-300 shrink-0">
+                            {fmtMoney(itemsTotal(items))} {group.currency}
+                          </span>
+                        ) : (
+                          <span className="text-xs text-red shrink-0">{t('purchaseOrders.unassignedHint')}</span>
+                        )}
+                      </div>
+                      <table className="w-full text-xs">
+                        <tbody>
+                          {items.map((item) => (
+                            <tr key={item.material_id ?? item.component_id} className="border-t border-nokturo-200 dark:border-nokturo-700">
+                              <td className="py-1.5 pr-2 text-nokturo-900 dark:text-nokturo-100">{item.description}</td>
+                              <td className="py-1.5 px-2 text-right tabular-nums text-nokturo-700 dark:text-nokturo-300">
+                                {+item.quantity.toFixed(3)} {item.unit}
+                              </td>
+                              <td className="py-1.5 px-2 text-right tabular-nums text-nokturo-500">
+                                × {+item.unit_price.toFixed(4)} {group.currency}
+                              </td>
+                              <td className="py-1.5 pl-2 text-right tabular-nums text-nokturo-900 dark:text-nokturo-100">
+                                {fmtMoney(item.quantity * item.unit_price)}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            {/* Notes (copied to every draft) */}
+            <div>
+              <label className={labelClass}>{t('purchaseOrders.notes')}</label>
+              <textarea
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                rows={2}
+                className={`${TEXTAREA_CLASS} resize-none`}
+              />
+            </div>
+          </div>
+
+          <div className="relative z-10 flex flex-col gap-3 px-6 py-4 shrink-0 mt-auto bg-elevated">
+            {error && (
+              <div className="text-red dark:text-red-fg text-sm bg-red/10 dark:bg-red/20 rounded-lg px-3 py-2 shrink-0">
+                {error}
+              </div>
+            )}
+            {unassigned && (
+              <p className="text-xs text-nokturo-500">
+                {t('purchaseOrders.unassignedCount', { count: unassigned.lines.length })}
+              </p>
+            )}
+            <div className="flex items-center justify-end gap-3">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-sm text-nokturo-600 dark:text-nokturo-400 hover:text-nokturo-900 dark:hover:text-nokturo-100 transition-colors"
+              >
+                {t('common.cancel')}
+              </button>
+              <button
+                type="submit"
+                disabled={saving || orderable.length === 0}
+                className="px-5 py-2 text-sm bg-nokturo-900 dark:bg-white dark:text-nokturo-900 text-white font-medium rounded-lg hover:bg-nokturo-800 dark:hover:bg-nokturo-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+              >
+                {saving && <MaterialIcon name="progress_activity" size={16} className="animate-spin shrink-0" />}
+                {t('purchaseOrders.createDrafts', { count: orderable.length })}
+              </button>
+            </div>
+          </div>
+        </form>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,250 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { supabase } from '../lib/supabase';
+import { MaterialIcon } from './icons/MaterialIcon';
+import { SimpleDropdown } from './SimpleDropdown';
+import { INPUT_CLASS, MODAL_HEADING_CLASS } from '../lib/inputStyles';
+import { CURRENCIES } from '../lib/currency';
+import { roundPrice, type SalesMarket } from '../lib/priceLadder';
+
+interface MarketForm {
+  key: string;
+  /** undefined = not saved yet */
+  id?: string;
+  name: string;
+  currency: string;
+  vat_rate: string;
+  retail_markup: string;
+  rounding_step: string;
+  rounding_ending: string;
+}
+
+interface SalesMarketsSlideOverProps {
+  open: boolean;
+  markets: SalesMarket[];
+  canDelete: boolean;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+const toForm = (m: SalesMarket): MarketForm => ({
+  key: m.id,
+  id: m.id,
+  name: m.name,
+  currency: m.currency,
+  vat_rate: String(m.vat_rate),
+  retail_markup: String(m.retail_markup),
+  rounding_step: String(m.rounding_step),
+  rounding_ending: String(m.rounding_ending),
+});
+
+const newMarket = (): MarketForm => ({
+  key: crypto.randomUUID(),
+  name: '',
+  currency: 'EUR',
+  vat_rate: '21',
+  retail_markup: '2.5',
+  rounding_step: '0',
+  rounding_ending: '0',
+});
+
+export function SalesMarketsSlideOver({ open, markets, canDelete, onClose, onSaved }: SalesMarketsSlideOverProps) {
+  const { t } = useTranslation();
+
+  const [rows, setRows] = useState<MarketForm[]>([]);
+  const [removed, setRemoved] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!open) return;
+    setRows(markets.map(toForm));
+    setRemoved([]);
+    setError('');
+  }, [open, markets]);
+
+  if (!open) return null;
+
+  const updateRow = (key: string, patch: Partial<MarketForm>) =>
+    setRows((prev) => prev.map((r) => (r.key === key ? { ...r, ...patch } : r)));
+
+  const removeRow = (row: MarketForm) => {
+    setRows((prev) => prev.filter((r) => r.key !== row.key));
+    if (row.id) setRemoved((prev) => [...prev, row.id as string]);
+  };
+
+  const handleSave = async () => {
+    if (rows.some((r) => !r.name.trim())) {
+      setError(t('priceLadder.markets.nameRequired'));
+      return;
+    }
+    setSaving(true);
+    setError('');
+    try {
+      if (removed.length > 0) {
+        const { error: delErr } = await supabase.from('sales_markets').delete().in('id', removed);
+        if (delErr) throw delErr;
+      }
+      for (const [idx, row] of rows.entries()) {
+        const payload = {
+          name: row.name.trim(),
+          currency: row.currency,
+          vat_rate: parseFloat(row.vat_rate) || 0,
+          retail_markup: parseFloat(row.retail_markup) || 1,
+          rounding_step: parseFloat(row.rounding_step) || 0,
+          rounding_ending: parseFloat(row.rounding_ending) || 0,
+          sort_order: idx,
+        };
+        const { error: saveErr } = row.id
+          ? await supabase.from('sales_markets').update(payload).eq('id', row.id)
+          : await supabase.from('sales_markets').insert(payload);
+        if (saveErr) throw saveErr;
+      }
+      onSaved();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const labelClass = 'block text-xs text-nokturo-500 mb-1';
+
+  return (
+    <>
+      <div className="fixed inset-0 z-40 bg-overlay backdrop-blur-sm" onClick={onClose} />
+      <div className="fixed inset-y-0 right-0 z-50 w-full sm:max-w-2xl bg-nokturo-900 shadow-2xl flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-nokturo-200 dark:border-nokturo-600 shrink-0">
+          <h3 className={MODAL_HEADING_CLASS}>{t('priceLadder.markets.title')}</h3>
+          <button
+            onClick={onClose}
+            className="p-1.5 text-nokturo-500 dark:text-nokturo-400 hover:text-nokturo-900 dark:hover:text-nokturo-100 transition-colors rounded-lg hover:bg-nokturo-100 dark:hover:bg-nokturo-700"
+          >
+            <MaterialIcon name="close" size={20} className="shrink-0" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-3">
+          <p className="text-xs text-nokturo-500">{t('priceLadder.markets.hint')}</p>
+          {rows.map((row) => {
+            const step = parseFloat(row.rounding_step) || 0;
+            const ending = parseFloat(row.rounding_ending) || 0;
+            return (
+              <div key={row.key} className="rounded-lg p-3 bg-nokturo-100/60 dark:bg-white/5 space-y-2">
+                <div className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    value={row.name}
+                    onChange={(e) => updateRow(row.key, { name: e.target.value })}
+                    placeholder={t('priceLadder.markets.namePlaceholder')}
+                    className={`${INPUT_CLASS} flex-1 min-w-0`}
+                  />
+                  <div className="w-24 shrink-0">
+                    <SimpleDropdown
+                      value={row.currency}
+                      onChange={(v) => updateRow(row.key, { currency: v })}
+                      options={CURRENCIES.map((c) => ({ value: c, label: c }))}
+                    />
+                  </div>
+                  {(canDelete || !row.id) && (
+                    <button
+                      type="button"
+                      onClick={() => removeRow(row)}
+                      className="p-1.5 text-nokturo-500 hover:text-red-fg hover:bg-red rounded transition-colors shrink-0"
+                      title={t('common.delete')}
+                    >
+                      <MaterialIcon name="close" size={16} className="shrink-0" />
+                    </button>
+                  )}
+                </div>
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                  <div>
+                    <span className={labelClass}>{t('priceLadder.markets.vatRate')}</span>
+                    <input
+                      type="number"
+                      step="0.1"
+                      min="0"
+                      value={row.vat_rate}
+                      onChange={(e) => updateRow(row.key, { vat_rate: e.target.value })}
+                      className={INPUT_CLASS}
+                    />
+                  </div>
+                  <div>
+                    <span className={labelClass}>{t('priceLadder.markets.retailMarkup')}</span>
+                    <input
+                      type="number"
+                      step="0.1"
+                      min="0"
+                      value={row.retail_markup}
+                      onChange={(e) => updateRow(row.key, { retail_markup: e.target.value })}
+                      className={INPUT_CLASS}
+                    />
+                  </div>
+                  <div>
+                    <span className={labelClass}>{t('priceLadder.markets.roundingStep')}</span>
+                    <input
+                      type="number"
+                      step="any"
+                      min="0"
+                      value={row.rounding_step}
+                      onChange={(e) => updateRow(row.key, { rounding_step: e.target.value })}
+                      className={INPUT_CLASS}
+                    />
+                  </div>
+                  <div>
+                    <span className={labelClass}>{t('priceLadder.markets.roundingEnding')}</span>
+                    <input
+                      type="number"
+                      step="any"
+                      min="0"
+                      value={row.rounding_ending}
+                      onChange={(e) => updateRow(row.key, { rounding_ending: e.target.value })}
+                      className={INPUT_CLASS}
+                    />
+                  </div>
+                </div>
+                {step > 0 && (
+                  <p className="text-xs text-nokturo-500">
+                    {t('priceLadder.markets.roundingExample', {
+                      from: (step * 12.34).toFixed(2),
+                      to: roundPrice(step * 12.34, step, ending),
+                      currency: row.currency,
+                    })}
+                  </p>
+                )}
+              </div>
+            );
+          })}
+          <button
+            type="button"
+            onClick={() => setRows((prev) => [...prev, newMarket()])}
+            className="inline-flex items-center gap-1 text-sm text-nokturo-600 dark:text-nokturo-400 hover:text-nokturo-900 dark:hover:text-nokturo-100 transition-colors"
+          >
+            <MaterialIcon name="add" size={16} className="shrink-0" />
+            {t('priceLadder.markets.add')}
+          </button>
+        </div>
+
+        <div className="relative z-10 flex flex-col gap-3 px-6 py-4 shrink-0 mt-auto bg-elevated">
+          {error && (
+            <div className="text-red dark:text-red-fg text-sm bg-red/10 dark:bg-red/20 rounded-lg px-3 py-2 shrink-0">{error}</div>
+          )}
+          <div className="flex items-center justify-end gap-3">
+            <button type="button" onClick={onClose} className="px-4 py-2 text-sm text-nokturo-600 dark:text-nokturo-400 hover:text-nokturo-900 dark:hover:text-nokturo-100 transition-colors">
+              {t('common.cancel')}
+            </button>
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={saving}
+              className="px-5 py-2 text-sm bg-nokturo-900 dark:bg-white dark:text-nokturo-900 text-white font-medium rounded-lg hover:bg-nokturo-800 dark:hover:bg-nokturo-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+            >
+              {saving && <MaterialIcon name="progress_activity" size={16} className="animate-spin shrink-0" />}
+              {t('common.save')}
+            </button>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,559 @@
+import { useState, useEffect, useRef } from 'react';
+import { useTranslation } from 'react-i18next';
+import { supabase } from '../lib/supabase';
+import { getUserIdForDb } from '../stores/authStore';
+import { MaterialIcon } from './icons/MaterialIcon';
+import { SimpleDropdown } from './SimpleDropdown';
+import { INPUT_CLASS, TEXTAREA_CLASS, MODAL_HEADING_CLASS } from '../lib/inputStyles';
+import { CURRENCIES } from '../lib/currency';
+import {
+  SAMPLE_STAGES,
+  SAMPLE_VERDICTS,
+  isWithinTolerance,
+  measurementDeviation,
+  nextRoundNumber,
+  uploadSamplePhoto,
+  type SampleMeasurement,
+  type SamplePhoto,
+  type SampleRound,
+  type SampleStage,
+  type SampleVerdict,
+} from '../lib/sampleRounds';
+import { measurementsFromPom, syncMeasurementsWithPom, type PointOfMeasure } from '../lib/pointsOfMeasure';
+
+interface MeasurementRow {
+  key: string;
+  /** Linked chart row – spec and tolerance come from the product's POM chart */
+  pom_id?: string;
+  point: string;
+  spec: string;
+  measured: string;
+  tolerance: string;
+}
+
+interface SampleRoundSlideOverProps {
+  open: boolean;
+  /** null = new round */
+  round: SampleRound | null;
+  productId: string;
+  /** All rounds of the product – used for the next round number and to copy the last spec table */
+  rounds: SampleRound[];
+  suppliers: { id: string; name: string }[];
+  /** Product size run and measurement chart the sample is checked against */
+  sizeRun: string[];
+  pointsOfMeasure: PointOfMeasure[];
+  canDelete: boolean;
+  onClose: () => void;
+  onSaved: (message: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const num = (v: string) => (v.trim() === '' || isNaN(Number(v)) ? null : Number(v));
+const str = (v: number | null | undefined) => (v != null ? String(v) : '');
+
+const toMeasurement = (m: MeasurementRow): SampleMeasurement => ({
+  pom_id: m.pom_id,
+  point: m.point.trim(),
+  spec: num(m.spec),
+  measured: num(m.measured),
+  tolerance: num(m.tolerance),
+});
+
+const toRows = (measurements: SampleMeasurement[]): MeasurementRow[] =>
+  measurements.map((m) => ({
+    key: crypto.randomUUID(),
+    pom_id: m.pom_id,
+    point: m.point,
+    spec: str(m.spec),
+    measured: str(m.measured),
+    tolerance: str(m.tolerance),
+  }));
+
+export function SampleRoundSlideOver({
+  open,
+  round,
+  productId,
+  rounds,
+  suppliers,
+  sizeRun,
+  pointsOfMeasure,
+  canDelete,
+  onClose,
+  onSaved,
+  onDelete,
+}: SampleRoundSlideOverProps) {
+  const { t } = useTranslation();
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const [stage, setStage] = useState<SampleStage>('proto');
+  const [roundNumber, setRoundNumber] = useState('1');
+  const [factoryId, setFactoryId] = useState('');
+  const [sampleSize, setSampleSize] = useState('');
+  const [sentAt, setSentAt] = useState('');
+  const [receivedAt, setReceivedAt] = useState('');
+  const [cost, setCost] = useState('');
+  const [costCurrency, setCostCurrency] = useState('EUR');
+  const [fitDate, setFitDate] = useState('');
+  const [fitNotes, setFitNotes] = useState('');
+  const [photos, setPhotos] = useState<SamplePhoto[]>([]);
+  const [measurements, setMeasurements] = useState<MeasurementRow[]>([]);
+  const [verdict, setVerdict] = useState<SampleVerdict>('pending');
+  const [verdictNotes, setVerdictNotes] = useState('');
+  const [uploading, setUploading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!open) return;
+    const last = rounds[rounds.length - 1];
+    if (round) {
+      setStage(round.stage);
+      setRoundNumber(String(round.round_number));
+      setFactoryId(round.factory_id ?? '');
+      setSampleSize(round.sample_size ?? '');
+      setSentAt(round.sent_at ?? '');
+      setReceivedAt(round.received_at ?? '');
+      setCost(str(round.cost));
+      setCostCurrency(round.cost_currency || 'EUR');
+      setFitDate(round.fit_date ?? '');
+      setFitNotes(round.fit_notes ?? '');
+      setPhotos(round.photos ?? []);
+      setMeasurements(toRows(round.measurements ?? []));
+      setVerdict(round.verdict);
+      setVerdictNotes(round.verdict_notes ?? '');
+    } else {
+      const nextStage = last?.stage ?? 'proto';
+      setStage(nextStage);
+      setRoundNumber(String(nextRoundNumber(rounds, nextStage)));
+      setFactoryId(last?.factory_id ?? '');
+      // samples are usually made in the middle size of the run
+      const size = last?.sample_size ?? sizeRun[Math.floor((sizeRun.length - 1) / 2)] ?? '';
+      setSampleSize(size);
+      setSentAt('');
+      setReceivedAt('');
+      setCost('');
+      setCostCurrency(last?.cost_currency ?? 'EUR');
+      setFitDate('');
+      setFitNotes('');
+      setPhotos([]);
+      // a new round starts from the previous spec table (or the POM chart) with empty measured values
+      setMeasurements(
+        toRows(
+          last?.measurements?.length
+            ? syncMeasurementsWithPom(last.measurements, pointsOfMeasure, size || null).map((m) => ({ ...m, measured: null }))
+            : measurementsFromPom(pointsOfMeasure, size || null)
+        )
+      );
+      setVerdict('pending');
+      setVerdictNotes('');
+    }
+    setError('');
+  }, [open, round, rounds, sizeRun, pointsOfMeasure]);
+
+  if (!open) return null;
+
+  const updateMeasurement = (key: string, patch: Partial<MeasurementRow>) =>
+    setMeasurements((prev) => prev.map((m) => (m.key === key ? { ...m, ...patch } : m)));
+
+  /** Refresh linked rows from the chart for the given size and add chart points that are missing */
+  const applyPom = (size: string) => {
+    setMeasurements((prev) => {
+      const synced = syncMeasurementsWithPom(prev.map(toMeasurement), pointsOfMeasure, size || null);
+      const linked = new Set(prev.map((m) => m.pom_id).filter(Boolean));
+      const missing = measurementsFromPom(pointsOfMeasure, size || null).filter((m) => !linked.has(m.pom_id));
+      return [
+        ...prev.map((row, i) => ({
+          ...row,
+          point: synced[i].point,
+          spec: str(synced[i].spec),
+          tolerance: str(synced[i].tolerance),
+        })),
+        ...toRows(missing),
+      ];
+    });
+  };
+
+  const handleFiles = async (files: FileList) => {
+    setUploading(true);
+    setError('');
+    try {
+      const urls: SamplePhoto[] = [];
+      for (const file of Array.from(files)) {
+        urls.push({ url: await uploadSamplePhoto(file) });
+      }
+      setPhotos((prev) => [...prev, ...urls]);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const n = parseInt(roundNumber, 10);
+    if (!n || n < 1) {
+      setError(t('sampling.rounds.roundNumberRequired'));
+      return;
+    }
+    setSaving(true);
+    setError('');
+    const payload = {
+      product_id: productId,
+      stage,
+      round_number: n,
+      factory_id: factoryId || null,
+      sample_size: sampleSize || null,
+      sent_at: sentAt || null,
+      received_at: receivedAt || null,
+      cost: num(cost),
+      cost_currency: costCurrency,
+      fit_date: fitDate || null,
+      fit_notes: fitNotes.trim() || null,
+      photos,
+      measurements: measurements.filter((m) => m.point.trim()).map(toMeasurement),
+      verdict,
+      verdict_notes: verdictNotes.trim() || null,
+    };
+    const { error: saveErr } = round
+      ? await supabase.from('sample_rounds').update(payload).eq('id', round.id)
+      : await supabase.from('sample_rounds').insert({ ...payload, created_by: getUserIdForDb() });
+    setSaving(false);
+    if (saveErr) {
+      setError(saveErr.code === '23505' ? t('sampling.rounds.duplicateRound') : saveErr.message);
+      return;
+    }
+    onSaved(round ? t('sampling.rounds.saved') : t('sampling.rounds.created'));
+  };
+
+  const labelClass = 'block text-sm text-nokturo-700 dark:text-nokturo-400 mb-1.5';
+
+  return (
+    <>
+      <div className="fixed inset-0 z-40 bg-overlay backdrop-blur-sm" onClick={onClose} />
+      <div className="fixed inset-y-0 right-0 z-50 w-full sm:max-w-2xl bg-nokturo-900 shadow-2xl flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-nokturo-200 dark:border-nokturo-600 shrink-0">
+          <h3 className={MODAL_HEADING_CLASS}>
+            {round ? t('sampling.rounds.edit') : t('sampling.rounds.add')}
+          </h3>
+          <button
+            onClick={onClose}
+            className="p-1.5 text-nokturo-500 dark:text-nokturo-400 hover:text-nokturo-900 dark:hover:text-nokturo-100 transition-colors rounded-lg hover:bg-nokturo-100 dark:hover:bg-nokturo-700"
+          >
+            <MaterialIcon name="close" size={20} className="shrink-0" />
+          </button>
+        </div>
+
+        <form
+          id="sample-round-form"
+          onSubmit={handleSubmit}
+          noValidate
+          className="flex flex-1 flex-col min-h-0 overflow-hidden"
+        >
+          <div className="flex-1 overflow-y-auto px-6 py-4 space-y-5">
+            {/* Stage, round, factory */}
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+              <div>
+                <label className={labelClass}>{t('sampling.rounds.stage')}</label>
+                <SimpleDropdown
+                  value={stage}
+                  onChange={(v) => {
+                    setStage(v as SampleStage);
+                    if (!round) setRoundNumber(String(nextRoundNumber(rounds, v as SampleStage)));
+                  }}
+                  options={SAMPLE_STAGES.map((s) => ({ value: s, label: t(`sampling.stages.${s}`) }))}
+                />
+              </div>
+              <div>
+                <label className={labelClass}>{t('sampling.rounds.roundNumber')}</label>
+                <input
+                  type="number"
+                  min="1"
+                  step="1"
+                  value={roundNumber}
+                  onChange={(e) => setRoundNumber(e.target.value)}
+                  className={INPUT_CLASS}
+                />
+              </div>
+              <div className="col-span-2 sm:col-span-1">
+                <label className={labelClass}>{t('sampling.rounds.factory')}</label>
+                <SimpleDropdown
+                  value={factoryId}
+                  onChange={setFactoryId}
+                  options={[
+                    { value: '', label: t('sampling.rounds.noFactory') },
+                    ...suppliers.map((s) => ({ value: s.id, label: s.name })),
+                  ]}
+                />
+              </div>
+            </div>
+
+            {/* Sample size (picks the spec column of the POM chart) */}
+            {sizeRun.length > 0 && (
+              <div>
+                <label className={labelClass}>{t('sampling.rounds.sampleSize')}</label>
+                <div className="flex items-center gap-3">
+                  <div className="w-40">
+                    <SimpleDropdown
+                      value={sampleSize}
+                      onChange={(v) => {
+                        setSampleSize(v);
+                        applyPom(v);
+                      }}
+                      options={[
+                        { value: '', label: '—' },
+                        ...sizeRun.map((s) => ({ value: s, label: s })),
+                      ]}
+                    />
+                  </div>
+                  {pointsOfMeasure.length > 0 && (
+                    <button
+                      type="button"
+                      onClick={() => applyPom(sampleSize)}
+                      className="inline-flex items-center gap-1 text-sm text-nokturo-600 dark:text-nokturo-400 hover:text-nokturo-900 dark:hover:text-nokturo-100 transition-colors"
+                    >
+                      <MaterialIcon name="straighten" size={16} className="shrink-0" />
+                      {t('sampling.rounds.loadFromChart')}
+                    </button>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {/* Dates & cost */}
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+              <div>
+                <label className={labelClass}>{t('sampling.rounds.sentAt')}</label>
+                <input type="date" value={sentAt} onChange={(e) => setSentAt(e.target.value)} className={INPUT_CLASS} />
+              </div>
+              <div>
+                <label className={labelClass}>{t('sampling.rounds.receivedAt')}</label>
+                <input type="date" value={receivedAt} onChange={(e) => setReceivedAt(e.target.value)} className={INPUT_CLASS} />
+              </div>
+              <div>
+                <label className={labelClass}>{t('sampling.rounds.cost')}</label>
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={cost}
+                  onChange={(e) => setCost(e.target.value)}
+                  className={INPUT_CLASS}
+                />
+              </div>
+              <div>
+                <label className={labelClass}>{t('sampling.rounds.currency')}</label>
+                <SimpleDropdown
+                  value={costCurrency}
+                  onChange={setCostCurrency}
+                  options={CURRENCIES.map((c) => ({ value: c, label: c }))}
+                />
+              </div>
+            </div>
+
+            {/* Fit session */}
+            <div>
+              <label className={labelClass}>{t('sampling.rounds.fitSession')}</label>
+              <input
+                type="date"
+                value={fitDate}
+                onChange={(e) => setFitDate(e.target.value)}
+                className={`${INPUT_CLASS} mb-2 sm:!w-48`}
+              />
+              <textarea
+                value={fitNotes}
+                onChange={(e) => setFitNotes(e.target.value)}
+                rows={4}
+                placeholder={t('sampling.rounds.fitNotesPlaceholder')}
+                className={TEXTAREA_CLASS}
+              />
+            </div>
+
+            {/* Measured vs spec */}
+            <div>
+              <label className={labelClass}>{t('sampling.rounds.measurements')}</label>
+              {measurements.length > 0 && (
+                <table className="w-full text-sm mb-2">
+                  <thead>
+                    <tr className="text-xs text-nokturo-500">
+                      <th className="text-left font-normal pb-1">{t('sampling.rounds.point')}</th>
+                      <th className="text-right font-normal pb-1 px-1 w-20">{t('sampling.rounds.spec')}</th>
+                      <th className="text-right font-normal pb-1 px-1 w-20">± {t('sampling.rounds.tolerance')}</th>
+                      <th className="text-right font-normal pb-1 px-1 w-20">{t('sampling.rounds.measured')}</th>
+                      <th className="text-right font-normal pb-1 px-1 w-16">{t('sampling.rounds.deviation')}</th>
+                      <th className="w-8" />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {measurements.map((m) => {
+                      const parsed = toMeasurement(m);
+                      const dev = measurementDeviation(parsed);
+                      const ok = isWithinTolerance(parsed);
+                      return (
+                        <tr key={m.key}>
+                          <td className="py-0.5 pr-1">
+                            <input
+                              type="text"
+                              value={m.point}
+                              onChange={(e) => updateMeasurement(m.key, { point: e.target.value })}
+                              disabled={!!m.pom_id}
+                              title={m.pom_id ? t('sampling.rounds.fromChart') : undefined}
+                              className={`${INPUT_CLASS} disabled:opacity-70`}
+                            />
+                          </td>
+                          {(['spec', 'tolerance', 'measured'] as const).map((field) => (
+                            <td key={field} className="py-0.5 px-1">
+                              <input
+                                type="number"
+                                step="0.1"
+                                value={m[field]}
+                                onChange={(e) => updateMeasurement(m.key, { [field]: e.target.value })}
+                                disabled={!!m.pom_id && field !== 'measured'}
+                                className={`${INPUT_CLASS} text-right disabled:opacity-70`}
+                              />
+                            </td>
+                          ))}
+                          <td
+                            className={`py-0.5 px-1 text-right tabular-nums text-xs ${
+                              ok == null ? 'text-nokturo-500' : ok ? 'text-green-fg' : 'text-red-fg'
+                            }`}
+                          >
+                            {dev != null ? `${dev > 0 ? '+' : ''}${dev.toFixed(1)}` : '—'}
+                          </td>
+                          <td className="py-0.5 pl-1">
+                            <button
+                              type="button"
+                              onClick={() => setMeasurements((prev) => prev.filter((x) => x.key !== m.key))}
+                              className="p-1.5 text-nokturo-500 hover:text-red-fg hover:bg-red rounded transition-colors shrink-0"
+                              title={t('common.delete')}
+                            >
+                              <MaterialIcon name="close" size={16} className="shrink-0" />
+                            </button>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              )}
+              <button
+                type="button"
+                onClick={() =>
+                  setMeasurements((prev) => [
+                    ...prev,
+                    { key: crypto.randomUUID(), point: '', spec: '', measured: '', tolerance: '' },
+                  ])
+                }
+                className="inline-flex items-center gap-1 text-sm text-nokturo-600 dark:text-nokturo-400 hover:text-nokturo-900 dark:hover:text-nokturo-100 transition-colors"
+              >
+                <MaterialIcon name="add" size={16} className="shrink-0" />
+                {t('sampling.rounds.addMeasurement')}
+              </button>
+              <p className="text-xs text-nokturo-500 mt-1">{t('sampling.rounds.measurementsHint')}</p>
+            </div>
+
+            {/* Photos */}
+            <div>
+              <label className={labelClass}>{t('sampling.rounds.photos')}</label>
+              <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+                {photos.map((photo, idx) => (
+                  <div key={photo.url} className="relative group">
+                    <img src={photo.url} alt={photo.caption ?? ''} className="w-full aspect-square object-cover rounded-lg" />
+                    <button
+                      type="button"
+                      onClick={() => setPhotos((prev) => prev.filter((_, i) => i !== idx))}
+                      className="absolute top-1 right-1 p-1 rounded bg-black/60 text-white opacity-0 group-hover:opacity-100 transition-opacity"
+                      title={t('common.delete')}
+                    >
+                      <MaterialIcon name="close" size={14} className="shrink-0" />
+                    </button>
+                  </div>
+                ))}
+                <button
+                  type="button"
+                  onClick={() => fileRef.current?.click()}
+                  disabled={uploading}
+                  className="aspect-square rounded-lg border border-dashed border-nokturo-400 dark:border-nokturo-600 flex flex-col items-center justify-center gap-1 text-xs text-nokturo-500 hover:text-nokturo-900 dark:hover:text-nokturo-100 transition-colors disabled:opacity-50"
+                >
+                  <MaterialIcon
+                    name={uploading ? 'progress_activity' : 'add_photo_alternate'}
+                    size={20}
+                    className={`shrink-0 ${uploading ? 'animate-spin' : ''}`}
+                  />
+                  {t('sampling.rounds.addPhotos')}
+                </button>
+              </div>
+              <input
+                ref={fileRef}
+                type="file"
+                accept="image/*"
+                multiple
+                className="hidden"
+                onChange={(e) => {
+                  if (e.target.files?.length) handleFiles(e.target.files);
+                  e.target.value = '';
+                }}
+              />
+            </div>
+
+            {/* Verdict */}
+            <div>
+              <label className={labelClass}>{t('sampling.rounds.verdict')}</label>
+              <div className="flex flex-wrap gap-2 mb-2">
+                {SAMPLE_VERDICTS.map((v) => (
+                  <button
+                    key={v}
+                    type="button"
+                    onClick={() => setVerdict(v)}
+                    className={`px-3 py-1.5 text-sm rounded-[6px] transition-colors ${
+                      verdict === v
+                        ? 'bg-nokturo-900 text-white dark:bg-white dark:text-nokturo-900'
+                        : 'bg-nokturo-200/80 dark:bg-white/10 text-nokturo-600 dark:text-nokturo-300 hover:bg-nokturo-300 dark:hover:bg-white/15'
+                    }`}
+                  >
+                    {t(`sampling.verdicts.${v}`)}
+                  </button>
+                ))}
+              </div>
+              <textarea
+                value={verdictNotes}
+                onChange={(e) => setVerdictNotes(e.target.value)}
+                rows={2}
+                placeholder={t('sampling.rounds.verdictNotesPlaceholder')}
+                className={TEXTAREA_CLASS}
+              />
+            </div>
+          </div>
+
+          <div className="relative z-10 flex flex-col gap-3 px-6 py-4 shrink-0 mt-auto bg-elevated">
+            {error && (
+              <div className="text-red dark:text-red-fg text-sm bg-red/10 dark:bg-red/20 rounded-lg px-3 py-2 shrink-0">{error}</div>
+            )}
+            <div className="flex items-center justify-end gap-3">
+              {round && canDelete && (
+                <button
+                  type="button"
+                  onClick={() => onDelete(round.id)}
+                  className="mr-auto px-3 py-2 text-sm text-nokturo-600 dark:text-nokturo-400 hover:text-red transition-colors"
+                >
+                  {t('common.delete')}
+                </button>
+              )}
+              <button type="button" onClick={onClose} className="px-4 py-2 text-sm text-nokturo-600 dark:text-nokturo-400 hover:text-nokturo-900 dark:hover:text-nokturo-100 transition-colors">
+                {t('common.cancel')}
+              </button>
+              <button
+                type="submit"
+                disabled={saving || uploading}
+                className="px-5 py-2 text-sm bg-nokturo-900 dark:bg-white dark:text-nokturo-900 text-white font-medium rounded-lg hover:bg-nokturo-800 dark:hover:bg-nokturo-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+              >
+                {saving && <MaterialIcon name="progress_activity" size={16} className="animate-spin shrink-0" />}
+                {t('common.save')}
+              </button>
+            </div>
+          </div>
+        </form>
+      </div>
+    </>
+  );
+}
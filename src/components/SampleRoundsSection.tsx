@@ -0,0 +1,301 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useTranslation } from 'react-i18next';
+import { supabase } from '../lib/supabase';
+import { useAuthStore } from '../stores/authStore';
+import { canDeleteAnything } from '../lib/rbac';
+import { MaterialIcon } from './icons/MaterialIcon';
+import { ToastContainer, type ToastData } from './Toast';
+import { DeleteConfirmModal } from './DeleteConfirmModal';
+import { SampleRoundSlideOver } from './SampleRoundSlideOver';
+import {
+  SAMPLE_ROUND_SELECT,
+  SAMPLE_STATUS_COLORS,
+  isWithinTolerance,
+  measurementDeviation,
+  sampleRoundStatus,
+  sortRounds,
+  type SampleRound,
+} from '../lib/sampleRounds';
+import type { PointOfMeasure } from '../lib/pointsOfMeasure';
+import type { ProductTechPack } from './ProductSlideOver';
+
+interface SampleRoundsSectionProps {
+  productId: string;
+}
+
+/** Sample rounds of a product (newest first) with fit notes, measurements and verdicts */
+export function SampleRoundsSection({ productId }: SampleRoundsSectionProps) {
+  const { t } = useTranslation();
+  const user = useAuthStore((s) => s.user);
+  const canDelete = canDeleteAnything(user?.role ?? 'client');
+
+  const [rounds, setRounds] = useState<SampleRound[]>([]);
+  const [suppliers, setSuppliers] = useState<{ id: string; name: string }[]>([]);
+  const [sizeRun, setSizeRun] = useState<string[]>([]);
+  const [pointsOfMeasure, setPointsOfMeasure] = useState<PointOfMeasure[]>([]);
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingRound, setEditingRound] = useState<SampleRound | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<string | null>(null);
+  const [toasts, setToasts] = useState<ToastData[]>([]);
+
+  const addToast = useCallback((message: string, type: 'success' | 'error' | 'info' = 'error') => {
+    setToasts((prev) => [...prev, { id: crypto.randomUUID(), message, type }]);
+  }, []);
+  const closeToast = useCallback((id: string) => {
+    setToasts((prev) => prev.filter((t) => t.id !== id));
+  }, []);
+
+  const fetchRounds = useCallback(async () => {
+    const { data } = await supabase.from('sample_rounds').select(SAMPLE_ROUND_SELECT).eq('product_id', productId);
+    setRounds(sortRounds((data as unknown as SampleRound[]) || []));
+  }, [productId]);
+
+  useEffect(() => {
+    fetchRounds();
+    supabase
+      .from('suppliers')
+      .select('id, name')
+      .order('name')
+      .then(({ data }) => setSuppliers((data as { id: string; name: string }[]) || []));
+  }, [fetchRounds]);
+
+  // Size run + POM chart the samples are measured against
+  useEffect(() => {
+    supabase
+      .from('products')
+      .select('size_run, tech_pack')
+      .eq('id', productId)
+      .single()
+      .then(({ data }) => {
+        const p = data as { size_run: string[] | null; tech_pack: ProductTechPack | null } | null;
+        setSizeRun(p?.size_run ?? []);
+        setPointsOfMeasure(p?.tech_pack?.points_of_measure ?? []);
+      });
+  }, [productId, formOpen]);
+
+  useEffect(() => {
+    const channel = supabase
+      .channel(`sample-rounds-${productId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'sample_rounds' },
+        (payload) => {
+          const pid = (payload.new as { product_id?: string })?.product_id ??
+            (payload.old as { product_id?: string })?.product_id;
+          if (pid === productId) fetchRounds();
+        },
+      )
+      .subscribe();
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [productId, fetchRounds]);
+
+  const handleDelete = async (id: string) => {
+    const { error } = await supabase.from('sample_rounds').delete().eq('id', id);
+    if (error) addToast(error.message, 'error');
+    else {
+      setRounds((prev) => prev.filter((r) => r.id !== id));
+      setFormOpen(false);
+    }
+    setDeleteTarget(null);
+  };
+
+  const formatDate = (d: string | null) => {
+    if (!d) return '—';
+    return new Date(d).toLocaleDateString(user?.language === 'cs' ? 'cs-CZ' : 'en-US', {
+      day: 'numeric',
+      month: 'short',
+      year: 'numeric',
+    });
+  };
+
+  const newestFirst = [...rounds].reverse();
+
+  return (
+    <section id="section-sample-rounds" className="mb-12 scroll-mt-6">
+      <ToastContainer toasts={toasts} onClose={closeToast} />
+      <div className="mt-10 border-t border-nokturo-300 dark:border-nokturo-600 mb-6" aria-hidden />
+      <div className="flex items-center justify-between gap-3 mb-4">
+        <h2 className="font-body text-heading-4 font-normal text-nokturo-900 dark:text-nokturo-100">
+          {t('sampling.rounds.title')}
+        </h2>
+        <button
+          type="button"
+          onClick={() => {
+            setEditingRound(null);
+            setFormOpen(true);
+          }}
+          className="inline-flex items-center gap-1 text-sm text-nokturo-600 dark:text-nokturo-400 hover:text-nokturo-900 dark:hover:text-nokturo-100 transition-colors"
+        >
+          <MaterialIcon name="add" size={16} className="shrink-0" />
+          {t('sampling.rounds.add')}
+        </button>
+      </div>
+
+      {newestFirst.length === 0 ? (
+        <p className="text-sm text-nokturo-500 dark:text-nokturo-400">{t('sampling.noRounds')}</p>
+      ) : (
+        <div className="space-y-4">
+          {newestFirst.map((round, idx) => {
+            const status = sampleRoundStatus(round);
+            const checked = round.measurements.filter((m) => isWithinTolerance(m) != null);
+            const outOfTolerance = checked.filter((m) => isWithinTolerance(m) === false);
+            return (
+              <div
+                key={round.id}
+                className={`rounded-lg p-4 bg-nokturo-50 dark:bg-nokturo-800 ${idx === 0 ? '' : 'opacity-80'}`}
+              >
+                <div className="flex flex-wrap items-center gap-2 mb-3">
+                  <h3 className="text-base font-medium text-nokturo-900 dark:text-nokturo-100">
+                    {t(`sampling.stages.${round.stage}`)} {round.round_number}
+                  </h3>
+                  <span className={`text-xs px-2 py-0.5 font-medium rounded-[4px] ${SAMPLE_STATUS_COLORS[status]}`}>
+                    {t(`sampling.statuses.${status}`)}
+                  </span>
+                  {idx === 0 && (
+                    <span className="text-xs text-nokturo-500 dark:text-nokturo-400">{t('sampling.currentRound')}</span>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setEditingRound(round);
+                      setFormOpen(true);
+                    }}
+                    className="ml-auto p-1.5 text-nokturo-500 hover:text-nokturo-900 dark:hover:text-nokturo-100 rounded transition-colors"
+                    title={t('sampling.rounds.edit')}
+                  >
+                    <MaterialIcon name="edit" size={16} className="shrink-0" />
+                  </button>
+                </div>
+
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-x-6 gap-y-2 text-sm mb-3">
+                  <div>
+                    <p className="text-[11px] text-nokturo-500 dark:text-nokturo-400 uppercase tracking-wider">{t('sampling.rounds.factory')}</p>
+                    <p className="text-nokturo-900 dark:text-nokturo-100">
+                      {round.factory?.name ?? '—'}
+                      {round.sample_size && (
+                        <span className="text-nokturo-500 dark:text-nokturo-400"> · {t('sampling.rounds.sizeLabel', { size: round.sample_size })}</span>
+                      )}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-[11px] text-nokturo-500 dark:text-nokturo-400 uppercase tracking-wider">{t('sampling.rounds.sentAt')}</p>
+                    <p className="text-nokturo-900 dark:text-nokturo-100">{formatDate(round.sent_at)}</p>
+                  </div>
+                  <div>
+                    <p className="text-[11px] text-nokturo-500 dark:text-nokturo-400 uppercase tracking-wider">{t('sampling.rounds.receivedAt')}</p>
+                    <p className="text-nokturo-900 dark:text-nokturo-100">{formatDate(round.received_at)}</p>
+                  </div>
+                  <div>
+                    <p className="text-[11px] text-nokturo-500 dark:text-nokturo-400 uppercase tracking-wider">{t('sampling.rounds.cost')}</p>
+                    <p className="text-nokturo-900 dark:text-nokturo-100">
+                      {round.cost != null ? `${Number(round.cost).toFixed(2)} ${round.cost_currency}` : '—'}
+                    </p>
+                  </div>
+                </div>
+
+                {round.fit_notes && (
+                  <div className="mb-3">
+                    <p className="text-[11px] text-nokturo-500 dark:text-nokturo-400 uppercase tracking-wider">
+                      {t('sampling.rounds.fitSession')}
+                      {round.fit_date && ` · ${formatDate(round.fit_date)}`}
+                    </p>
+                    <p className="text-sm text-nokturo-700 dark:text-nokturo-300 whitespace-pre-wrap">{round.fit_notes}</p>
+                  </div>
+                )}
+
+                {round.measurements.length > 0 && (
+                  <div className="mb-3 overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-xs text-nokturo-500 dark:text-nokturo-400">
+                          <th className="text-left font-normal py-1">{t('sampling.rounds.point')}</th>
+                          <th className="text-right font-normal py-1 px-2">{t('sampling.rounds.spec')}</th>
+                          <th className="text-right font-normal py-1 px-2">± {t('sampling.rounds.tolerance')}</th>
+                          <th className="text-right font-normal py-1 px-2">{t('sampling.rounds.measured')}</th>
+                          <th className="text-right font-normal py-1 pl-2">{t('sampling.rounds.deviation')}</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {round.measurements.map((m, i) => {
+                          const dev = measurementDeviation(m);
+                          const ok = isWithinTolerance(m);
+                          return (
+                            <tr key={i} className="border-t border-nokturo-200 dark:border-nokturo-700">
+                              <td className="py-1 text-nokturo-900 dark:text-nokturo-100">{m.point}</td>
+                              <td className="py-1 px-2 text-right tabular-nums text-nokturo-600 dark:text-nokturo-400">{m.spec ?? '—'}</td>
+                              <td className="py-1 px-2 text-right tabular-nums text-nokturo-600 dark:text-nokturo-400">{m.tolerance ?? '—'}</td>
+                              <td className="py-1 px-2 text-right tabular-nums text-nokturo-900 dark:text-nokturo-100">{m.measured ?? '—'}</td>
+                              <td
+                                className={`py-1 pl-2 text-right tabular-nums ${
+                                  ok == null ? 'text-nokturo-500' : ok ? 'text-green-fg' : 'text-red-fg'
+                                }`}
+                              >
+                                {dev != null ? `${dev > 0 ? '+' : ''}${dev.toFixed(1)}` : '—'}
+                              </td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                    {checked.length > 0 && (
+                      <p className={`text-xs mt-1 ${outOfTolerance.length > 0 ? 'text-red-fg' : 'text-green-fg'}`}>
+                        {t('sampling.rounds.toleranceSummary', {
+                          ok: checked.length - outOfTolerance.length,
+                          count: checked.length,
+                        })}
+                      </p>
+                    )}
+                  </div>
+                )}
+
+                {round.photos.length > 0 && (
+                  <div className="grid grid-cols-4 sm:grid-cols-6 gap-2 mb-3">
+                    {round.photos.map((photo) => (
+                      <a key={photo.url} href={photo.url} target="_blank" rel="noopener noreferrer" className="block cursor-zoom-in">
+                        <img src={photo.url} alt={photo.caption ?? ''} className="w-full aspect-square object-cover rounded-lg" />
+                      </a>
+                    ))}
+                  </div>
+                )}
+
+                {round.verdict_notes && (
+                  <p className="text-sm text-nokturo-700 dark:text-nokturo-300">
+                    <span className="text-nokturo-500 dark:text-nokturo-400">{t('sampling.rounds.verdict')}: </span>
+                    {round.verdict_notes}
+                  </p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <SampleRoundSlideOver
+        open={formOpen}
+        round={editingRound}
+        productId={productId}
+        rounds={rounds}
+        suppliers={suppliers}
+        sizeRun={sizeRun}
+        pointsOfMeasure={pointsOfMeasure}
+        canDelete={canDelete}
+        onClose={() => setFormOpen(false)}
+        onSaved={(message) => {
+          setFormOpen(false);
+          fetchRounds();
+          addToast(message, 'success');
+        }}
+        onDelete={(id) => setDeleteTarget(id)}
+      />
+
+      {deleteTarget && (
+        <DeleteConfirmModal
+          onCancel={() => setDeleteTarget(null)}
+          onConfirm={() => handleDelete(deleteTarget)}
+        />
+      )}
+    </section>
+  );
+}
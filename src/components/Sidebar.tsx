@@ -1,8 +1,10 @@
-import { useEffect } from 'react';
+import { Fragment, useEffect } from 'react';
 import { Link, NavLink, useLocation } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import { useAuthStore } from '../stores/authStore';
 import { useSidebarStore } from '../stores/sidebarStore';
+import { useChatUnreadRooms } from '../hooks/useChat';
+import { chatRoomLabel } from '../lib/chat';
 import { canAccessSection, canAccessModule } from '../lib/rbac';
 import type { Module } from '../lib/rbac';
 import { MaterialIcon } from './icons/MaterialIcon';
@@ -51,9 +53,12 @@ const NAV_SECTIONS: NavSection[] = [
     items: [
       { key: 'materials', path: '/production/materials', icon: <MaterialsIcon size={20} className="shrink-0" />, labelKey: 'nav.materialLibrary', rbacModule: 'production.materials' },
       { key: 'components', path: '/production/components', icon: <ComponentsIcon size={20} className="shrink-0" />, labelKey: 'nav.componentsLibrary', rbacModule: 'production.components' },
+      { key: 'reorder', path: '/production/reorder', icon: <MaterialIcon name="production_quantity_limits" size={20} className="shrink-0" />, labelKey: 'nav.toReorder', rbacModule: 'production.materials' },
       { key: 'labels', path: '/production/labels', icon: <LabelsIcon size={20} className="shrink-0" />, labelKey: 'nav.labelsLibrary', rbacModule: 'production.labels' },
       { key: 'products', path: '/production/products', icon: <ProductsIcon size={20} className="shrink-0" />, labelKey: 'nav.products', rbacModule: 'production.products' },
+      { key: 'collections', path: '/production/collections', icon: <MaterialIcon name="collections_bookmark" size={20} className="shrink-0" />, labelKey: 'nav.collections', rbacModule: 'production.products' },
       { key: 'sampling', path: '/production/sampling', icon: <SamplingIcon size={20} className="shrink-0" />, labelKey: 'nav.readyForSampling', rbacModule: 'production.sampling' },
+      { key: 'productionOrders', path: '/production/orders', icon: <MaterialIcon name="factory" size={20} className="shrink-0" />, labelKey: 'nav.productionOrders', rbacModule: 'production.orders' },
     ],
   },
   {
@@ -64,6 +69,15 @@ const NAV_SECTIONS: NavSection[] = [
       { key: 'costing', path: '/business/costing', icon: <MaterialIcon name="calculate" size={20} className="shrink-0" />, labelKey: 'nav.costingCalculator', rbacModule: 'business.costing', hidden: true },
       { key: 'suppliers', path: '/business/suppliers', icon: <SuppliersIcon size={20} className="shrink-0" />, labelKey: 'nav.supplierDirectory', rbacModule: 'business.suppliers' },
       { key: 'accounting', path: '/business/accounting', icon: <AccountingIcon size={20} className="shrink-0" />, labelKey: 'nav.accounting', rbacModule: 'business.accounting' },
+      { key: 'purchaseOrders', path: '/business/purchase-orders', icon: <MaterialIcon name="shopping_cart" size={20} className="shrink-0" />, labelKey: 'nav.purchaseOrders', rbacModule: 'business.purchasing' },
+    ],
+  },
+  {
+    key: 'communication',
+    labelKey: 'nav.communication',
+    rbacSection: 'communication',
+    items: [
+      { key: 'chat', path: '/communication/chat', icon: <MaterialIcon name="forum" size={20} className="shrink-0" />, labelKey: 'nav.internalChat', rbacModule: 'communication.chat' },
     ],
   },
 ];
@@ -94,6 +108,8 @@ export function Sidebar() {
   const collapsed = useSidebarStore((s) => s.collapsed);
   const toggleCollapsed = useSidebarStore((s) => s.toggleCollapsed);
   const toggleMobileSidebar = useSidebarStore((s) => s.toggle);
+  const chatUnread = useChatUnreadRooms(canAccessModule(role, 'communication.chat'));
+  const chatUnreadTotal = chatUnread.reduce((sum, r) => sum + r.unread, 0);
 
   useEffect(() => {
     closeMobileSidebar();
@@ -136,8 +152,8 @@ export function Sidebar() {
           return section.items
             .filter((item) => !item.hidden && canAccessModule(role, item.rbacModule))
             .map((item) => (
+            <Fragment key={item.key}>
             <NavLink
-              key={item.key}
               to={item.path}
               title={collapsed ? t(item.labelKey) : undefined}
               className={({ isActive }) =>
@@ -150,9 +166,29 @@ export function Sidebar() {
                 }`
               }
             >
-              <span className="shrink-0">{item.icon}</span>
+              <span className="shrink-0 relative">
+                {item.icon}
+                {item.key === 'chat' && collapsed && chatUnreadTotal > 0 && (
+                  <span className="absolute -top-0.5 -right-0.5 size-2 rounded-full bg-nokturo-900 dark:bg-white" />
+                )}
+              </span>
               {!collapsed && <span>{t(item.labelKey)}</span>}
             </NavLink>
+            {/* Chat rooms with unread messages */}
+            {item.key === 'chat' && !collapsed &&
+              chatUnread.map((room) => (
+                <Link
+                  key={room.room_id}
+                  to={`/communication/chat?room=${room.room_id}`}
+                  className="flex items-center gap-2 w-full h-8 pl-12 pr-5 text-xs text-nokturo-700 dark:text-white/60 hover:text-nokturo-900 dark:hover:text-white/80 transition-colors whitespace-nowrap overflow-hidden"
+                >
+                  <span className="flex-1 truncate">{chatRoomLabel(room.room_name)}</span>
+                  <span className="min-w-[18px] h-[18px] px-1 rounded-full bg-nokturo-900 dark:bg-white text-white dark:text-nokturo-900 text-[10px] font-medium flex items-center justify-center shrink-0">
+                    {room.unread > 99 ? '99+' : room.unread}
+                  </span>
+                </Link>
+              ))}
+            </Fragment>
           ));
         })}
       </nav>
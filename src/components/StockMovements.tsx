@@ -0,0 +1,496 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useTranslation } from 'react-i18next';
+import { supabase } from '../lib/supabase';
+import { useAuthStore } from '../stores/authStore';
+import { hasPermission } from '../lib/rbac';
+import { MaterialIcon } from './icons/MaterialIcon';
+import { SimpleDropdown } from './SimpleDropdown';
+import { INPUT_CLASS, SECONDARY_BUTTON_CLASS } from '../lib/inputStyles';
+import {
+  MOVEMENT_TYPES,
+  STOCK_MOVEMENT_SELECT,
+  movementAuthorName,
+  recordStockMovements,
+  type MovementType,
+  type StockItemRef,
+  type StockMovement,
+} from '../lib/stockLedger';
+
+interface OrderOption {
+  id: string;
+  label: string;
+}
+
+interface StockMovementsProps {
+  item: StockItemRef;
+  /** Display unit (already translated) */
+  unitLabel: string;
+  /** Called after a movement was booked so the parent can refresh stock_qty */
+  onChanged?: () => void;
+}
+
+// ── Movement history + booking form ──────────────────────────
+export function StockMovements({ item, unitLabel, onChanged }: StockMovementsProps) {
+  const { t } = useTranslation();
+  const user = useAuthStore((s) => s.user);
+  const canWrite = hasPermission(
+    user?.role ?? 'client',
+    item.kind === 'material' ? 'production.materials' : 'production.components',
+    'write',
+  );
+
+  const [movements, setMovements] = useState<StockMovement[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [formOpen, setFormOpen] = useState(false);
+  const [type, setType] = useState<MovementType>('receipt');
+  const [qty, setQty] = useState('');
+  const [reason, setReason] = useState('');
+  const [linkedId, setLinkedId] = useState('');
+  const [accountingOrders, setAccountingOrders] = useState<OrderOption[]>([]);
+  const [productionOrders, setProductionOrders] = useState<OrderOption[]>([]);
+  const [products, setProducts] = useState<OrderOption[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const column = item.kind === 'material' ? 'material_id' : 'component_id';
+
+  const fetchMovements = useCallback(async () => {
+    const { data } = await supabase
+      .from('stock_movements')
+      .select(STOCK_MOVEMENT_SELECT)
+      .eq(column, item.id)
+      .order('created_at', { ascending: false });
+    setMovements((data as StockMovement[]) || []);
+    setLoading(false);
+  }, [column, item.id]);
+
+  useEffect(() => {
+    setLoading(true);
+    fetchMovements();
+    const channel = supabase
+      .channel(`stock-movements-${item.id}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'stock_movements', filter: `${column}=eq.${item.id}` },
+        () => fetchMovements(),
+      )
+      .subscribe();
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [fetchMovements, column, item.id]);
+
+  // Options for linking a movement to its source document
+  useEffect(() => {
+    if (!formOpen) return;
+    supabase
+      .from('accounting_orders')
+      .select('id, order_number, order_date, supplier:suppliers(name)')
+      .order('order_date', { ascending: false })
+      .limit(100)
+      .then(({ data }) =>
+        setAccountingOrders(
+          ((data as unknown as { id: string; order_number: string | null; order_date: string | null; supplier: { name: string } | null }[]) || []).map((o) => ({
+            id: o.id,
+            label: [o.supplier?.name, o.order_number, o.order_date?.slice(0, 10)].filter(Boolean).join(' · ') || o.id.slice(0, 8),
+          })),
+        ),
+      );
+    supabase
+      .from('production_orders')
+      .select('id, quantity, product:products(name)')
+      .in('status', ['confirmed', 'in_production'])
+      .then(({ data }) =>
+        setProductionOrders(
+          ((data as unknown as { id: string; quantity: number; product: { name: string } | null }[]) || []).map((o) => ({
+            id: o.id,
+            label: `${o.product?.name ?? '—'} × ${o.quantity}`,
+          })),
+        ),
+      );
+    supabase
+      .from('products')
+      .select('id, name')
+      .order('name')
+      .then(({ data }) =>
+        setProducts(((data as { id: string; name: string }[]) || []).map((p) => ({ id: p.id, label: p.name }))),
+      );
+  }, [formOpen]);
+
+  const onHand = movements.reduce((sum, m) => sum + Number(m.quantity), 0);
+
+  const resetForm = () => {
+    setType('receipt');
+    setQty('');
+    setReason('');
+    setLinkedId('');
+    setError('');
+  };
+
+  const handleSubmit = async () => {
+    const amount = parseFloat(qty);
+    if (!amount) {
+      setError(t('stock.quantityRequired'));
+      return;
+    }
+    if (type === 'adjustment' && !reason.trim()) {
+      setError(t('stock.reasonRequired'));
+      return;
+    }
+    setSaving(true);
+    const err = await recordStockMovements([
+      {
+        item,
+        type,
+        quantity: amount,
+        reason,
+        accountingOrderId: type === 'receipt' || type === 'return' ? linkedId || null : null,
+        productionOrderId: type === 'consumption_production' ? linkedId || null : null,
+        productId: type === 'consumption_sample' ? linkedId || null : null,
+      },
+    ]);
+    setSaving(false);
+    if (err) {
+      setError(err);
+      return;
+    }
+    resetForm();
+    setFormOpen(false);
+    fetchMovements();
+    onChanged?.();
+  };
+
+  const linkOptions =
+    type === 'receipt' || type === 'return'
+      ? { label: t('stock.accountingOrder'), options: accountingOrders }
+      : type === 'consumption_production'
+        ? { label: t('stock.productionOrder'), options: productionOrders }
+        : type === 'consumption_sample'
+          ? { label: t('stock.product'), options: products }
+          : null;
+
+  const fmtQty = (n: number) => (n % 1 === 0 ? n.toString() : n.toFixed(2));
+  const fmtDate = (d: string) =>
+    new Date(d).toLocaleString(user?.language === 'cs' ? 'cs-CZ' : 'en-US', {
+      day: 'numeric',
+      month: 'short',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+
+  const labelClass = 'block text-sm text-nokturo-700 dark:text-nokturo-400 mb-1.5';
+
+  return (
+    <div className="space-y-4">
+      {/* On hand (derived from ledger) */}
+      <div className="flex items-end justify-between gap-4">
+        <div>
+          <p className="text-[14px] text-nokturo-700 dark:text-nokturo-400 opacity-70 mb-1">{t('stock.onHand')}</p>
+          <p className="text-heading-5 font-medium text-nokturo-900 dark:text-nokturo-100">
+            {fmtQty(onHand)} {unitLabel}
+          </p>
+        </div>
+        {canWrite && !formOpen && (
+          <button
+            type="button"
+            onClick={() => setFormOpen(true)}
+            className={SECONDARY_BUTTON_CLASS}
+          >
+            <MaterialIcon name="add" size={16} className="shrink-0" />
+            {t('stock.recordMovement')}
+          </button>
+        )}
+      </div>
+
+      {/* Booking form */}
+      {formOpen && (
+        <div className="space-y-3 rounded-lg bg-nokturo-100/60 dark:bg-nokturo-800/60 p-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelClass}>{t('stock.type')}</label>
+              <SimpleDropdown
+                value={type}
+                onChange={(v) => {
+                  setType(v as MovementType);
+                  setLinkedId('');
+                }}
+                options={MOVEMENT_TYPES.map((mt) => ({ value: mt, label: t(`stock.types.${mt}`) }))}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>
+                {t('stock.quantity')} ({unitLabel})
+              </label>
+              <input
+                type="number"
+                step="0.01"
+                value={qty}
+                onChange={(e) => setQty(e.target.value)}
+                placeholder={type === 'adjustment' ? '±0' : '0'}
+                className={INPUT_CLASS}
+              />
+            </div>
+          </div>
+          {linkOptions && (
+            <div>
+              <label className={labelClass}>{linkOptions.label}</label>
+              <SimpleDropdown
+                value={linkedId}
+                onChange={setLinkedId}
+                options={[
+                  { value: '', label: t('stock.noLink') },
+                  ...linkOptions.options.map((o) => ({ value: o.id, label: o.label })),
+                ]}
+              />
+            </div>
+          )}
+          <div>
+            <label className={labelClass}>
+              {t('stock.reason')}
+              {type === 'adjustment' && ' *'}
+            </label>
+            <input
+              type="text"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder={t('stock.reasonPlaceholder')}
+              className={INPUT_CLASS}
+            />
+          </div>
+          {error && (
+            <div className="text-red dark:text-red-fg text-sm bg-red/10 dark:bg-red/20 rounded-lg px-3 py-2">
+              {error}
+            </div>
+          )}
+          <div className="flex items-center justify-end gap-3">
+            <button
+              type="button"
+              onClick={() => {
+                resetForm();
+                setFormOpen(false);
+              }}
+              className="px-4 py-2 text-sm text-nokturo-600 dark:text-nokturo-400 hover:text-nokturo-900 dark:hover:text-nokturo-100 transition-colors"
+            >
+              {t('common.cancel')}
+            </button>
+            <button
+              type="button"
+              onClick={handleSubmit}
+              disabled={saving}
+              className="px-5 py-2 text-sm bg-nokturo-900 dark:bg-white dark:text-nokturo-900 text-white font-medium rounded-lg hover:bg-nokturo-800 dark:hover:bg-nokturo-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+            >
+              {saving && <MaterialIcon name="progress_activity" size={16} className="animate-spin shrink-0" />}
+              {t('stock.book')}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* History */}
+      {loading ? (
+        <div className="flex justify-center py-6">
+          <MaterialIcon name="progress_activity" size={20} className="text-nokturo-500 animate-spin shrink-0" />
+        </div>
+      ) : movements.length === 0 ? (
+        <p className="text-sm text-nokturo-500 py-4 text-center">{t('stock.noMovements')}</p>
+      ) : (
+        <ul className="divide-y divide-nokturo-200 dark:divide-nokturo-700">
+          {movements.map((m) => {
+            const q = Number(m.quantity);
+            const link = m.accounting_order
+              ? m.accounting_order.order_number || m.accounting_order.order_date?.slice(0, 10)
+              : m.product?.name;
+            return (
+              <li key={m.id} className="py-2.5 flex items-start justify-between gap-3">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-nokturo-900 dark:text-nokturo-100">
+                    {t(`stock.types.${m.movement_type}`)}
+                    {link && <span className="font-normal text-nokturo-500"> · {link}</span>}
+                  </p>
+                  {m.reason && (
+                    <p className="text-sm text-nokturo-700 dark:text-nokturo-300 break-words">{m.reason}</p>
+                  )}
+                  <p className="text-xs text-nokturo-500 mt-0.5">
+                    {movementAuthorName(m)} · {fmtDate(m.created_at)}
+                  </p>
+                </div>
+                <span
+                  className={`text-sm font-medium tabular-nums whitespace-nowrap ${
+                    q >= 0 ? 'text-green' : 'text-red'
+                  }`}
+                >
+                  {q > 0 ? '+' : ''}
+                  {fmtQty(q)} {unitLabel}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+// ── Receipts booked against an accounting order ─────────────
+interface OrderStockReceiptsProps {
+  orderId: string;
+  /** Only delivered orders can book stock in */
+  canBook: boolean;
+}
+
+interface StockItemOption {
+  value: string;
+  label: string;
+  item: StockItemRef;
+}
+
+export function OrderStockReceipts({ orderId, canBook }: OrderStockReceiptsProps) {
+  const { t } = useTranslation();
+  const user = useAuthStore((s) => s.user);
+  const canWrite = hasPermission(user?.role ?? 'client', 'production.materials', 'write');
+
+  const [receipts, setReceipts] = useState<(StockMovement & { material?: { name: string; unit: string } | null; component?: { name: string } | null })[]>([]);
+  const [formOpen, setFormOpen] = useState(false);
+  const [items, setItems] = useState<StockItemOption[]>([]);
+  const [itemValue, setItemValue] = useState('');
+  const [qty, setQty] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const fetchReceipts = useCallback(async () => {
+    const { data } = await supabase
+      .from('stock_movements')
+      .select('*, material:materials(name, unit), component:components(name)')
+      .eq('accounting_order_id', orderId)
+      .order('created_at', { ascending: false });
+    setReceipts((data as typeof receipts) || []);
+  }, [orderId]);
+
+  useEffect(() => {
+    fetchReceipts();
+  }, [fetchReceipts]);
+
+  useEffect(() => {
+    if (!formOpen) return;
+    Promise.all([
+      supabase.from('materials').select('id, name').order('name'),
+      supabase.from('components').select('id, name').order('name'),
+    ]).then(([mats, comps]) => {
+      setItems([
+        ...((mats.data as { id: string; name: string }[]) || []).map((m) => ({
+          value: `material:${m.id}`,
+          label: m.name,
+          item: { kind: 'material' as const, id: m.id },
+        })),
+        ...((comps.data as { id: string; name: string }[]) || []).map((c) => ({
+          value: `component:${c.id}`,
+          label: `${c.name} · ${t('stock.component')}`,
+          item: { kind: 'component' as const, id: c.id },
+        })),
+      ]);
+    });
+  }, [formOpen, t]);
+
+  const handleBook = async () => {
+    const selected = items.find((i) => i.value === itemValue);
+    const amount = parseFloat(qty);
+    if (!selected || !amount) {
+      setError(t('stock.quantityRequired'));
+      return;
+    }
+    setSaving(true);
+    const err = await recordStockMovements([
+      { item: selected.item, type: 'receipt', quantity: amount, accountingOrderId: orderId },
+    ]);
+    setSaving(false);
+    if (err) {
+      setError(err);
+      return;
+    }
+    setItemValue('');
+    setQty('');
+    setError('');
+    setFormOpen(false);
+    fetchReceipts();
+  };
+
+  if (receipts.length === 0 && !(canBook && canWrite)) return null;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <label className="block text-[14px] font-normal text-nokturo-400 opacity-70">
+          {t('stock.receipts')}
+        </label>
+        {canBook && canWrite && !formOpen && (
+          <button
+            type="button"
+            onClick={() => setFormOpen(true)}
+            className="inline-flex items-center gap-1 text-sm text-nokturo-300 hover:text-white transition-colors"
+          >
+            <MaterialIcon name="add" size={16} className="shrink-0" />
+            {t('stock.bookStockIn')}
+          </button>
+        )}
+      </div>
+
+      {formOpen && (
+        <div className="space-y-3 mb-3">
+          <SimpleDropdown
+            value={itemValue}
+            onChange={setItemValue}
+            options={[{ value: '', label: t('stock.selectItem') }, ...items.map(({ value, label }) => ({ value, label }))]}
+          />
+          <div className="flex gap-2">
+            <input
+              type="number"
+              step="0.01"
+              min="0"
+              value={qty}
+              onChange={(e) => setQty(e.target.value)}
+              placeholder={t('stock.quantity')}
+              className={`${INPUT_CLASS} flex-1`}
+            />
+            <button
+              type="button"
+              onClick={() => {
+                setFormOpen(false);
+                setError('');
+              }}
+              className="px-3 text-sm text-nokturo-400 hover:text-white transition-colors"
+            >
+              {t('common.cancel')}
+            </button>
+            <button
+              type="button"
+              onClick={handleBook}
+              disabled={saving}
+              className="px-4 text-sm bg-white text-nokturo-900 font-medium rounded-lg hover:bg-nokturo-100 transition-colors disabled:opacity-50 flex items-center gap-2"
+            >
+              {saving && <MaterialIcon name="progress_activity" size={16} className="animate-spin shrink-0" />}
+              {t('stock.book')}
+            </button>
+          </div>
+          {error && (
+            <div className="text-red-fg text-sm bg-red/20 rounded-lg px-3 py-2">{error}</div>
+          )}
+        </div>
+      )}
+
+      {receipts.length > 0 && (
+        <ul className="space-y-1">
+          {receipts.map((r) => (
+            <li key={r.id} className="flex items-center justify-between gap-3 text-sm">
+              <span className="text-white truncate">{r.material?.name ?? r.component?.name ?? '—'}</span>
+              <span className="text-nokturo-300 tabular-nums whitespace-nowrap">
+                {Number(r.quantity) > 0 ? '+' : ''}
+                {Number(r.quantity)} {r.material ? t(`materials.units.${r.material.unit}`) : t('components.pcs')}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import { useTranslation } from 'react-i18next';
 import { supabase } from '../lib/supabase';
+import { CURRENCIES } from '../lib/currency';
 import { getUserIdForDb } from '../stores/authStore';
 import { MaterialIcon } from './icons/MaterialIcon';
 import { DeleteIcon } from './icons/DeleteIcon';
@@ -39,7 +40,6 @@ interface FormData {
   payment_method: string;
 }
 
-const CURRENCY_OPTIONS = ['EUR', 'CZK', 'USD'] as const;
 const YEAR_OPTIONS = [2025, 2026, 2027, 2028] as const;
 const MONTH_NUMBERS = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12] as const;
 const DAY_OPTIONS = Array.from({ length: 31 }, (_, i) => i + 1);
@@ -250,7 +250,7 @@ export function SubscriptionSlideOver({
                   <SimpleDropdown
                     value={form.currency}
                     onChange={(v) => handleChange('currency', v)}
-                    options={CURRENCY_OPTIONS.map((c) => ({ value: c, label: c }))}
+                    options={CURRENCIES.map((c) => ({ value: c, label: c }))}
                     compact
                   />
                 </div>
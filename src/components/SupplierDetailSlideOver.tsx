@@ -9,6 +9,10 @@ import { MODAL_HEADING_CLASS } from '../lib/inputStyles';
 import type { NotionSelectOption } from './NotionSelect';
 import { useDropdownPosition } from '../hooks/useDropdownPosition';
 import { useIsMobile } from '../hooks/useIsMobile';
+import { Certificates } from './Certificates';
+import { EntityComments } from './EntityComments';
+import { canCommentOn } from '../lib/comments';
+import { useAuthStore } from '../stores/authStore';
 
 const TAG_BADGE_CLASSES: Record<string, string> = {
   gray: 'bg-nokturo-500 text-white',
@@ -39,6 +43,7 @@ export function SupplierDetailSlideOver({
   onDelete,
 }: SupplierDetailSlideOverProps) {
   const { t } = useTranslation();
+  const role = useAuthStore((s) => s.user?.role);
   const isMobile = useIsMobile();
   const [menuOpen, setMenuOpen] = useState(false);
   const menuTriggerRef = useRef<HTMLButtonElement>(null);
@@ -236,6 +241,18 @@ export function SupplierDetailSlideOver({
               </div>
             </>
           )}
+
+          {/* Certificates (GOTS, OEKO-TEX, audits …) */}
+          <hr className="border-nokturo-600" />
+          <Certificates owner={{ kind: 'supplier', id: supplier.id }} />
+
+          <hr className="border-nokturo-600" />
+          <EntityComments
+            target={{ type: 'supplier', id: supplier.id }}
+            title={t('comments.title')}
+            canComment={canCommentOn(role, 'supplier')}
+            notificationLink={`/business/suppliers?supplier=${supplier.id}`}
+          />
         </div>
 
       </div>
@@ -0,0 +1,22 @@
+import { useState, useEffect } from 'react';
+import { signCertificateUrls, type Certificate } from '@/lib/certificates';
+
+/** Signed URLs of the certificates' files by object path (the bucket is private) */
+export function useCertificateUrls(certificates: Pick<Certificate, 'file_path'>[]) {
+  const [urls, setUrls] = useState<Record<string, string>>({});
+  const paths = certificates.map((c) => c.file_path).filter((p): p is string => !!p);
+  const missingKey = paths.filter((p) => !urls[p]).join('|');
+
+  useEffect(() => {
+    if (!missingKey) return;
+    let cancelled = false;
+    signCertificateUrls(missingKey.split('|')).then((signed) => {
+      if (!cancelled) setUrls((prev) => ({ ...prev, ...signed }));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [missingKey]);
+
+  return urls;
+}
@@ -0,0 +1,217 @@
+import { useState, useEffect, useCallback, useId } from 'react';
+import { supabase } from '@/lib/supabase';
+import { getUserIdForDb, useAuthStore } from '@/stores/authStore';
+import {
+  fetchChatMessages,
+  fetchChatRooms,
+  fetchChatUnreadRooms,
+  signChatAttachmentUrls,
+  toggleChatReaction,
+  type ChatMessage,
+  type ChatReaction,
+  type ChatRoom,
+  type ChatUnreadRoom,
+} from '@/lib/chat';
+
+/** Rooms visible to the user; refreshed when rooms are created or archived and members invited */
+export function useChatRooms() {
+  const [rooms, setRooms] = useState<ChatRoom[]>([]);
+  const [loading, setLoading] = useState(true);
+  const authUserId = useAuthStore((s) => s.user?.id);
+  const instanceId = useId();
+
+  const refetch = useCallback(async () => {
+    setRooms(await fetchChatRooms());
+  }, []);
+
+  useEffect(() => {
+    setLoading(true);
+    refetch().finally(() => setLoading(false));
+    const channel = supabase
+      .channel(`chat-rooms-${instanceId}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'chat_rooms' }, refetch)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'chat_room_members' }, refetch)
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [authUserId, refetch, instanceId]);
+
+  return { rooms, loading, refetch };
+}
+
+/**
+ * Messages of a room (roots and replies) with realtime updates (messages and their reactions).
+ * The realtime payload has no joined data – profiles of new rows are fetched, existing ones kept.
+ */
+export function useChatMessages(roomId: string) {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const refetch = useCallback(async () => {
+    if (!roomId) return;
+    setMessages(await fetchChatMessages(roomId));
+  }, [roomId]);
+
+  useEffect(() => {
+    setMessages([]);
+    if (!roomId) return;
+    setLoading(true);
+    refetch().finally(() => setLoading(false));
+  }, [refetch]);
+
+  useEffect(() => {
+    if (!roomId) return;
+    const channel = supabase
+      .channel(`room-${roomId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'chat_messages', filter: `room_id=eq.${roomId}` },
+        async (payload) => {
+          if (payload.eventType === 'INSERT') {
+            const row = payload.new as ChatMessage;
+            const { data: profile } = await supabase
+              .from('profiles')
+              .select('full_name, first_name, last_name, avatar_url')
+              .eq('id', row.sender_id)
+              .single();
+            const enriched: ChatMessage = { ...row, profile: profile || { avatar_url: null }, reactions: [] };
+            setMessages((prev) => (prev.some((m) => m.id === enriched.id) ? prev : [...prev, enriched]));
+          } else if (payload.eventType === 'DELETE') {
+            const oldRow = payload.old as { id: string };
+            setMessages((prev) => prev.filter((m) => m.id !== oldRow.id && m.parent_id !== oldRow.id));
+          } else if (payload.eventType === 'UPDATE') {
+            const updated = payload.new as ChatMessage;
+            setMessages((prev) =>
+              prev.map((m) => (m.id === updated.id ? { ...m, ...updated, profile: m.profile, reactions: m.reactions } : m))
+            );
+          }
+        }
+      )
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'chat_message_reactions' }, (payload) => {
+        if (payload.eventType === 'INSERT') {
+          const r = payload.new as ChatReaction;
+          setMessages((prev) =>
+            prev.map((m) =>
+              m.id === r.message_id && !(m.reactions ?? []).some((x) => x.user_id === r.user_id && x.emoji === r.emoji)
+                ? { ...m, reactions: [...(m.reactions ?? []), r] }
+                : m
+            )
+          );
+        } else if (payload.eventType === 'DELETE') {
+          const r = payload.old as Partial<ChatReaction>;
+          if (!r.message_id) return;
+          setMessages((prev) =>
+            prev.map((m) =>
+              m.id === r.message_id
+                ? { ...m, reactions: (m.reactions ?? []).filter((x) => !(x.user_id === r.user_id && x.emoji === r.emoji)) }
+                : m
+            )
+          );
+        }
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [roomId]);
+
+  /** Adds a message the user just posted (realtime may have delivered it already) */
+  const addMessage = useCallback((message: ChatMessage) => {
+    setMessages((prev) => (prev.some((m) => m.id === message.id) ? prev : [...prev, message]));
+  }, []);
+
+  const toggleReaction = useCallback(
+    async (messageId: string, emoji: string) => {
+      const userId = getUserIdForDb();
+      const message = messages.find((m) => m.id === messageId);
+      if (!userId || !message) return;
+      const own = (r: ChatReaction) => r.user_id === userId && r.emoji === emoji;
+      const exists = (message.reactions ?? []).some(own);
+      setMessages((prev) =>
+        prev.map((m) =>
+          m.id === messageId
+            ? {
+                ...m,
+                reactions: exists
+                  ? (m.reactions ?? []).filter((r) => !own(r))
+                  : [...(m.reactions ?? []), { message_id: messageId, user_id: userId, emoji }],
+              }
+            : m
+        )
+      );
+      try {
+        await toggleChatReaction(message, userId, emoji);
+      } catch {
+        refetch();
+      }
+    },
+    [messages, refetch]
+  );
+
+  return { messages, setMessages, loading, refetch, addMessage, toggleReaction };
+}
+
+/** Signed URLs of the messages' attachments by object path (the bucket is private) */
+export function useChatAttachmentUrls(messages: ChatMessage[]) {
+  const [urls, setUrls] = useState<Record<string, string>>({});
+  const paths = messages.flatMap((m) => (m.attachments ?? []).map((a) => a.path)).filter(Boolean);
+  const missingKey = paths.filter((p) => !urls[p]).join('|');
+
+  useEffect(() => {
+    if (!missingKey) return;
+    let cancelled = false;
+    signChatAttachmentUrls(missingKey.split('|')).then((signed) => {
+      if (!cancelled) setUrls((prev) => ({ ...prev, ...signed }));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [missingKey]);
+
+  return urls;
+}
+
+/**
+ * Rooms with unread messages, kept fresh on new messages and when a room is marked read
+ * (also from another tab or page).
+ */
+export function useChatUnreadRooms(enabled = true) {
+  const [rooms, setRooms] = useState<ChatUnreadRoom[]>([]);
+  // Sidebar and chat page subscribe at the same time – channel names must differ
+  const instanceId = useId();
+  const authUserId = useAuthStore((s) => s.user?.id);
+
+  const refetch = useCallback(async () => {
+    setRooms(await fetchChatUnreadRooms());
+  }, []);
+
+  useEffect(() => {
+    const userId = getUserIdForDb();
+    if (!enabled || !userId) {
+      setRooms([]);
+      return;
+    }
+    refetch();
+    const channel = supabase
+      .channel(`chat-unread-${userId}-${instanceId}`)
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'chat_messages' }, (payload) => {
+        if ((payload.new as ChatMessage).sender_id !== userId) refetch();
+      })
+      .on('postgres_changes', { event: 'DELETE', schema: 'public', table: 'chat_messages' }, refetch)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'chat_room_reads', filter: `user_id=eq.${userId}` },
+        refetch
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [enabled, authUserId, refetch, instanceId]);
+
+  return rooms;
+}
@@ -0,0 +1,159 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { supabase } from '@/lib/supabase';
+import { getUserIdForDb, useAuthStore } from '@/stores/authStore';
+import {
+  commentInScope,
+  fetchComments,
+  toggleCommentReaction,
+  type Comment,
+  type CommentReaction,
+  type CommentScope,
+  type ImageAnchor,
+  type TextAnchor,
+} from '@/lib/comments';
+
+/**
+ * Comments of a scope with realtime updates (comments and their reactions).
+ * The realtime payload has no joined data – profiles of new rows are fetched, existing ones kept.
+ */
+export function useComments<A = TextAnchor | ImageAnchor | null>(scope: CommentScope) {
+  const [comments, setComments] = useState<Comment<A>[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  // Scope objects are usually built inline – key effects on their content
+  const scopeKey = JSON.stringify(scope);
+  const scopeRef = useRef(scope);
+  scopeRef.current = scope;
+
+  const refetch = useCallback(async () => {
+    const rows = await fetchComments<A>(scopeRef.current);
+    setComments(rows);
+  }, [scopeKey]);
+
+  useEffect(() => {
+    setLoading(true);
+    refetch().finally(() => setLoading(false));
+  }, [refetch]);
+
+  useEffect(() => {
+    const entityId = scopeRef.current.target.id;
+    const channel = supabase
+      .channel(`comments-${scopeKey}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'comments', filter: `entity_id=eq.${entityId}` },
+        async (payload) => {
+          if (payload.eventType === 'INSERT') {
+            const row = payload.new as Comment<A>;
+            if (!commentInScope(row as Comment, scopeRef.current)) return;
+            const { data: profile } = await supabase
+              .from('profiles')
+              .select('full_name, first_name, last_name, avatar_url')
+              .eq('id', row.author_id)
+              .single();
+            const enriched: Comment<A> = { ...row, profile: profile || { avatar_url: null }, reactions: [] };
+            setComments((prev) => (prev.some((c) => c.id === enriched.id) ? prev : [...prev, enriched]));
+          } else if (payload.eventType === 'DELETE') {
+            const oldRow = payload.old as { id: string };
+            setComments((prev) => prev.filter((c) => c.id !== oldRow.id && c.parent_id !== oldRow.id));
+          } else if (payload.eventType === 'UPDATE') {
+            const updated = payload.new as Comment<A>;
+            setComments((prev) =>
+              prev.map((c) => (c.id === updated.id ? { ...c, ...updated, profile: c.profile, reactions: c.reactions } : c))
+            );
+          }
+        }
+      )
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'comment_reactions' }, (payload) => {
+        if (payload.eventType === 'INSERT') {
+          const r = payload.new as CommentReaction;
+          setComments((prev) =>
+            prev.map((c) =>
+              c.id === r.comment_id && !(c.reactions ?? []).some((x) => x.user_id === r.user_id && x.emoji === r.emoji)
+                ? { ...c, reactions: [...(c.reactions ?? []), r] }
+                : c
+            )
+          );
+        } else if (payload.eventType === 'DELETE') {
+          const r = payload.old as Partial<CommentReaction>;
+          if (!r.comment_id) return;
+          setComments((prev) =>
+            prev.map((c) =>
+              c.id === r.comment_id
+                ? { ...c, reactions: (c.reactions ?? []).filter((x) => !(x.user_id === r.user_id && x.emoji === r.emoji)) }
+                : c
+            )
+          );
+        }
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [scopeKey]);
+
+  /** Adds a comment the user just posted (realtime may have delivered it already) */
+  const addComment = useCallback((comment: Comment<A>) => {
+    setComments((prev) => (prev.some((c) => c.id === comment.id) ? prev : [...prev, comment]));
+  }, []);
+
+  const toggleReaction = useCallback(
+    async (commentId: string, emoji: string) => {
+      const userId = getUserIdForDb();
+      const comment = comments.find((c) => c.id === commentId);
+      if (!userId || !comment) return;
+      const own = (r: CommentReaction) => r.user_id === userId && r.emoji === emoji;
+      const exists = (comment.reactions ?? []).some(own);
+      setComments((prev) =>
+        prev.map((c) =>
+          c.id === commentId
+            ? {
+                ...c,
+                reactions: exists
+                  ? (c.reactions ?? []).filter((r) => !own(r))
+                  : [...(c.reactions ?? []), { comment_id: commentId, user_id: userId, emoji }],
+              }
+            : c
+        )
+      );
+      try {
+        await toggleCommentReaction(comment as Comment, userId, emoji);
+      } catch {
+        refetch();
+      }
+    },
+    [comments, refetch]
+  );
+
+  return { comments, setComments, loading, refetch, addComment, toggleReaction };
+}
+
+export interface CommentProfileOption {
+  id: string;
+  first_name: string | null;
+  last_name: string | null;
+  full_name: string | null;
+  avatar_url?: string | null;
+}
+
+/** All profiles, e.g. to pick a thread assignee or name who resolved it */
+export function useCommentProfiles() {
+  const [profiles, setProfiles] = useState<CommentProfileOption[]>([]);
+
+  useEffect(() => {
+    supabase
+      .from('profiles')
+      .select('id, first_name, last_name, full_name, avatar_url')
+      .then(({ data }) => setProfiles((data || []) as CommentProfileOption[]));
+  }, []);
+
+  return profiles;
+}
+
+/** Profiles that can be @mentioned in comments (everyone except the current user) */
+export function useMentionableProfiles() {
+  const userId = useAuthStore((s) => s.user?.id);
+  const profiles = useCommentProfiles();
+  return useMemo(() => profiles.filter((p) => p.id !== userId), [profiles, userId]);
+}
@@ -0,0 +1,48 @@
+import { useState, useEffect, useMemo } from 'react';
+import { imagePins, type Comment, type ImageAnchor, type ImagePin } from '@/lib/comments';
+
+/**
+ * Pin annotations of the image shown in a lightbox. The comment feed reports its comments
+ * (onCommentsChange), the pin layer places new pins (onPlace) and both share the active pin thread.
+ * Placing, pending and active state reset when the image changes.
+ */
+export function useImagePins(entityId: string, image: Pick<ImageAnchor, 'gallery' | 'index'>) {
+  const [comments, setComments] = useState<Comment[]>([]);
+  const [placing, setPlacing] = useState(false);
+  const [pending, setPending] = useState<ImagePin | null>(null);
+  const [activePinId, setActivePinId] = useState<string | null>(null);
+
+  useEffect(() => {
+    setPlacing(false);
+    setPending(null);
+    setActivePinId(null);
+  }, [entityId, image.gallery, image.index]);
+
+  const pins = useMemo(() => imagePins(comments, image), [comments, image.gallery, image.index]);
+  const pinNumbers = useMemo(() => Object.fromEntries(pins.map((p) => [p.commentId, p.number])), [pins]);
+
+  return {
+    pins,
+    pinNumbers,
+    onCommentsChange: setComments,
+    placing,
+    setPlacing,
+    pending,
+    /** New pin drawn on the image – the next comment posted becomes its thread */
+    onPlace: (pin: ImagePin) => {
+      setPending(pin);
+      setPlacing(false);
+      setActivePinId(null);
+    },
+    cancelPending: () => setPending(null),
+    /** Anchor for the next root comment while a pin is pending */
+    postAnchor: pending ? ({ ...image, ...pending } as ImageAnchor) : null,
+    activePinId,
+    setActivePinId,
+    /** After posting: a new pin thread becomes the active one */
+    onPosted: (comment: Comment) => {
+      if (pending && !comment.parent_id) setActivePinId(comment.id);
+      setPending(null);
+    },
+  };
+}
@@ -0,0 +1,164 @@
+import { supabase } from './supabase';
+import type { StockItemRef } from './stockLedger';
+
+/**
+ * Accounting order line items.
+ * quantity × unit_price is the net amount, VAT is added per line. When an order has items,
+ * accounting_orders.order_value is kept at the gross total by a DB trigger.
+ */
+
+/** Czech VAT rates offered in the editor (any percentage can be stored) */
+export const VAT_RATES = [0, 12, 21] as const;
+
+export interface AccountingOrderItem {
+  id: string;
+  accounting_order_id: string;
+  material_id: string | null;
+  component_id: string | null;
+  description: string;
+  unit: string;
+  quantity: number;
+  unit_price: number;
+  vat_rate: number;
+  sort_order: number;
+}
+
+/** Form state for one line; `ref` is '' (free text), 'material:<id>' or 'component:<id>' */
+export interface OrderItemDraft {
+  key: string;
+  id: string | null;
+  ref: string;
+  description: string;
+  unit: string;
+  quantity: string;
+  unit_price: string;
+  vat_rate: string;
+}
+
+export interface OrderTotals {
+  net: number;
+  vat: number;
+  gross: number;
+}
+
+type LineAmounts = { quantity: number; unit_price: number; vat_rate: number };
+
+export function lineNet(item: LineAmounts): number {
+  return Number(item.quantity) * Number(item.unit_price);
+}
+
+export function lineVat(item: LineAmounts): number {
+  return lineNet(item) * (Number(item.vat_rate) / 100);
+}
+
+export function orderTotals(items: LineAmounts[]): OrderTotals {
+  const net = items.reduce((sum, i) => sum + lineNet(i), 0);
+  const vat = items.reduce((sum, i) => sum + lineVat(i), 0);
+  return { net, vat, gross: Math.round((net + vat) * 100) / 100 };
+}
+
+export function refOf(item: { material_id: string | null; component_id: string | null }): string {
+  if (item.material_id) return `material:${item.material_id}`;
+  if (item.component_id) return `component:${item.component_id}`;
+  return '';
+}
+
+export function parseRef(ref: string): StockItemRef | null {
+  const [kind, id] = ref.split(':');
+  if (!id) return null;
+  return kind === 'material' || kind === 'component' ? { kind, id } : null;
+}
+
+export function draftFromItem(item: AccountingOrderItem, keepId: boolean): OrderItemDraft {
+  return {
+    key: crypto.randomUUID(),
+    id: keepId ? item.id : null,
+    ref: refOf(item),
+    description: item.description,
+    unit: item.unit,
+    quantity: String(Number(item.quantity)),
+    unit_price: String(Number(item.unit_price)),
+    vat_rate: String(Number(item.vat_rate)),
+  };
+}
+
+export function parseDraft(d: OrderItemDraft): LineAmounts {
+  return {
+    quantity: parseFloat(d.quantity) || 0,
+    unit_price: parseFloat(d.unit_price) || 0,
+    vat_rate: parseFloat(d.vat_rate) || 0,
+  };
+}
+
+/**
+ * Persist the edited lines of an order in one transaction (save_accounting_order_items): lines
+ * no longer listed are deleted, the rest updated or inserted in order.
+ * Returns the Supabase error message or null.
+ */
+export async function saveOrderItems(orderId: string, drafts: OrderItemDraft[]): Promise<string | null> {
+  const items = drafts
+    .filter((d) => d.description.trim())
+    .map((d) => {
+      const ref = parseRef(d.ref);
+      return {
+        id: d.id,
+        material_id: ref?.kind === 'material' ? ref.id : null,
+        component_id: ref?.kind === 'component' ? ref.id : null,
+        description: d.description.trim(),
+        unit: d.unit || 'pcs',
+        ...parseDraft(d),
+      };
+    });
+  const { error } = await supabase.rpc('save_accounting_order_items', { p_order_id: orderId, p_items: items });
+  return error ? error.message : null;
+}
+
+export interface PurchasePrice {
+  id: string;
+  quantity: number;
+  unit_price: number;
+  vat_rate: number;
+  currency: string;
+  order_id: string;
+  order_number: string | null;
+  order_date: string | null;
+  supplier_name: string | null;
+}
+
+/** Historical (net) purchase prices of a material/component, newest first; canceled orders are skipped. */
+export async function fetchPurchasePrices(item: StockItemRef): Promise<PurchasePrice[]> {
+  const column = item.kind === 'material' ? 'material_id' : 'component_id';
+  const { data } = await supabase
+    .from('accounting_order_items')
+    .select('id, quantity, unit_price, vat_rate, order:accounting_orders!inner(id, order_number, order_date, order_currency, order_status, supplier:suppliers(name))')
+    .eq(column, item.id)
+    .neq('order.order_status', 'canceled');
+
+  const rows = (data || []) as unknown as {
+    id: string;
+    quantity: number;
+    unit_price: number;
+    vat_rate: number;
+    order: {
+      id: string;
+      order_number: string | null;
+      order_date: string | null;
+      order_currency: string;
+      supplier: { name: string } | null;
+    };
+  }[];
+
+  return rows
+    .map((r) => ({
+      id: r.id,
+      quantity: Number(r.quantity),
+      unit_price: Number(r.unit_price),
+      vat_rate: Number(r.vat_rate),
+      currency: r.order.order_currency || 'EUR',
+      order_id: r.order.id,
+      order_number: r.order.order_number,
+      order_date: r.order.order_date,
+      supplier_name: r.order.supplier?.name ?? null,
+    }))
+    .sort((a, b) => (b.order_date ?? '').localeCompare(a.order_date ?? ''));
+}
@@ -0,0 +1,266 @@
+import { supabase } from './supabase';
+import { getUserIdForDb } from '../stores/authStore';
+import { generateSkus, type GeneratedSku, type ProductVariant } from './productVariants';
+
+/**
+ * GS1 EAN-13 barcodes.
+ * Codes are allocated server-side (allocate_eans) from the workspace company prefix range,
+ * one per sellable unit (product × variant × size), and rendered as SVG so the same image
+ * works on label designs, in the tech pack PDF and as a download.
+ */
+
+export interface ProductBarcode {
+  id: string;
+  product_id: string;
+  variant_id: string | null;
+  size: string | null;
+  ean: string;
+  created_at?: string;
+}
+
+export const PRODUCT_BARCODES_SELECT = 'product_barcodes (id, product_id, variant_id, size, ean)';
+
+// ── Check digit ───────────────────────────────────────────────
+
+/** Check digit of a 12-digit body (weights 1, 3, 1, 3 … from the left) */
+export function ean13CheckDigit(body: string): number {
+  let sum = 0;
+  for (let i = 0; i < 12; i++) sum += Number(body[i]) * (i % 2 === 0 ? 1 : 3);
+  return (10 - (sum % 10)) % 10;
+}
+
+export function isValidEan13(code: string): boolean {
+  return /^\d{13}$/.test(code) && ean13CheckDigit(code) === Number(code[12]);
+}
+
+/** Number of item references a company prefix leaves (prefix + reference = 12 digits) */
+export function gs1Capacity(prefix: string): number {
+  return 10 ** Math.max(0, 12 - prefix.length);
+}
+
+/** EAN-13 for a company prefix and item reference */
+export function ean13FromReference(prefix: string, reference: number): string {
+  const body = prefix + String(reference).padStart(12 - prefix.length, '0');
+  return body + ean13CheckDigit(body);
+}
+
+// ── Rendering ─────────────────────────────────────────────────
+
+const L_CODES = ['0001101', '0011001', '0010011', '0111101', '0100011', '0110001', '0101111', '0111011', '0110111', '0001011'];
+const G_CODES = L_CODES.map((c) => [...c].reverse().map((b) => (b === '1' ? '0' : '1')).join(''));
+const R_CODES = L_CODES.map((c) => [...c].map((b) => (b === '1' ? '0' : '1')).join(''));
+/** Parity of the left half, selected by the first (implicit) digit */
+const PARITY = ['LLLLLL', 'LLGLGG', 'LLGGLG', 'LLGGGL', 'LGLLGG', 'LGGLLG', 'LGGGLL', 'LGLGLG', 'LGLGGL', 'LGGLGL'];
+
+/** The 95 modules of the symbol ('1' = bar) */
+export function ean13Modules(code: string): string {
+  const d = [...code].map(Number);
+  const parity = PARITY[d[0]];
+  let left = '';
+  for (let i = 1; i <= 6; i++) left += (parity[i - 1] === 'L' ? L_CODES : G_CODES)[d[i]];
+  let right = '';
+  for (let i = 7; i <= 12; i++) right += R_CODES[d[i]];
+  return `101${left}01010${right}101`;
+}
+
+/** Guard bar modules extend below the digits */
+const isGuard = (i: number) => i < 3 || (i >= 45 && i < 50) || i >= 92;
+
+const QUIET_LEFT = 11;
+const QUIET_RIGHT = 7;
+const BAR_HEIGHT = 60;
+const GUARD_HEIGHT = 65;
+const SVG_WIDTH = QUIET_LEFT + 95 + QUIET_RIGHT;
+const SVG_HEIGHT = 74;
+
+/** SVG (1 unit = 1 module) with the human-readable digits under the bars */
+export function ean13Svg(code: string): string {
+  if (!isValidEan13(code)) return '';
+  const modules = ean13Modules(code);
+  const bars: string[] = [];
+  for (let i = 0; i < modules.length; i++) {
+    if (modules[i] !== '1') continue;
+    let run = 1;
+    while (modules[i + run] === '1' && isGuard(i + run) === isGuard(i)) run++;
+    bars.push(`<rect x="${QUIET_LEFT + i}" y="0" width="${run}" height="${isGuard(i) ? GUARD_HEIGHT : BAR_HEIGHT}"/>`);
+    i += run - 1;
+  }
+  const digit = (x: number, value: string) =>
+    `<text x="${x}" y="${SVG_HEIGHT - 1}" text-anchor="middle">${value}</text>`;
+  const text = [
+    digit(QUIET_LEFT - 5, code[0]),
+    ...[...code.slice(1, 7)].map((c, i) => digit(QUIET_LEFT + 3 + i * 7 + 3.5, c)),
+    ...[...code.slice(7)].map((c, i) => digit(QUIET_LEFT + 50 + i * 7 + 3.5, c)),
+  ];
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${SVG_WIDTH} ${SVG_HEIGHT}" width="${SVG_WIDTH * 2}" height="${SVG_HEIGHT * 2}">` +
+    `<rect width="100%" height="100%" fill="#fff"/>` +
+    `<g fill="#000">${bars.join('')}</g>` +
+    `<g fill="#000" font-family="monospace" font-size="10">${text.join('')}</g>` +
+    `</svg>`
+  );
+}
+
+/** Image source for <img> */
+export function ean13DataUrl(code: string): string {
+  const svg = ean13Svg(code);
+  return svg ? `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}` : '';
+}
+
+/** Rasterised PNG (for tools that do not take SVG) – scale = pixels per module */
+export function ean13Png(code: string, scale = 4): Promise<Blob | null> {
+  return new Promise((resolve) => {
+    const src = ean13DataUrl(code);
+    if (!src) return resolve(null);
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = SVG_WIDTH * scale;
+      canvas.height = SVG_HEIGHT * scale;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return resolve(null);
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      canvas.toBlob((blob) => resolve(blob), 'image/png');
+    };
+    img.onerror = () => resolve(null);
+    img.src = src;
+  });
+}
+
+// ── Label designs ─────────────────────────────────────────────
+
+/** Barcode element of a label design, in mm from the top-left corner of the label */
+export interface LabelBarcodeArea {
+  x_mm: number;
+  y_mm: number;
+  width_mm: number;
+  height_mm: number;
+}
+
+/** Restricted-circulation code (GS1 prefix 200) shown on label designs until a unit is picked */
+export const SAMPLE_EAN = ean13FromReference('200', 1);
+
+/** EAN-13 at nominal size (37.29 × 25.93 mm), shrunk to fit and centred at the bottom of the label */
+export function defaultBarcodeArea(labelWidthMm: number, labelHeightMm: number): LabelBarcodeArea {
+  const scale = Math.min(1, (labelWidthMm * 0.8) / 37.29, (labelHeightMm * 0.6) / 25.93);
+  const width = Math.round(37.29 * scale * 10) / 10;
+  const height = Math.round(25.93 * scale * 10) / 10;
+  return {
+    x_mm: Math.round(((labelWidthMm - width) / 2) * 10) / 10,
+    y_mm: Math.round(Math.max(0, labelHeightMm - height - 2) * 10) / 10,
+    width_mm: width,
+    height_mm: height,
+  };
+}
+
+const loadImage = (src: string) =>
+  new Promise<HTMLImageElement | null>((resolve) => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.onload = () => resolve(img);
+    img.onerror = () => resolve(null);
+    img.src = src;
+  });
+
+/** Label artwork with the barcode drawn into its area, rasterised at `pxPerMm` */
+export async function labelArtworkPng(
+  label: { design_url: string | null; width_mm: number; height_mm: number; barcode_area: LabelBarcodeArea },
+  code: string,
+  pxPerMm = 12
+): Promise<Blob | null> {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(label.width_mm * pxPerMm);
+  canvas.height = Math.round(label.height_mm * pxPerMm);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  ctx.fillStyle = '#fff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  const [design, barcode] = await Promise.all([
+    label.design_url ? loadImage(label.design_url) : Promise.resolve(null),
+    loadImage(ean13DataUrl(code)),
+  ]);
+  if (design) ctx.drawImage(design, 0, 0, canvas.width, canvas.height);
+  if (barcode) {
+    const area = label.barcode_area;
+    ctx.drawImage(barcode, area.x_mm * pxPerMm, area.y_mm * pxPerMm, area.width_mm * pxPerMm, area.height_mm * pxPerMm);
+  }
+  return new Promise((resolve) => canvas.toBlob((blob) => resolve(blob), 'image/png'));
+}
+
+// ── Units and assignment ──────────────────────────────────────
+
+export interface BarcodeUnit extends GeneratedSku {
+  ean: string | null;
+}
+
+const unitKey = (variantId: string | null | undefined, size: string | null | undefined) => `${variantId ?? ''}|${size ?? ''}`;
+
+/** Every sellable unit of a product with its assigned EAN (if any) */
+export function barcodeUnits(
+  product: { sku: string | null; size_run?: string[] | null },
+  variants: ProductVariant[] | null | undefined,
+  barcodes: ProductBarcode[] | null | undefined
+): BarcodeUnit[] {
+  const byUnit = new Map((barcodes ?? []).map((b) => [unitKey(b.variant_id, b.size), b.ean]));
+  return generateSkus(product.sku, variants, product.size_run).map((u) => ({
+    ...u,
+    ean: byUnit.get(unitKey(u.variant?.id, u.size)) ?? null,
+  }));
+}
+
+/** Allocate and store EANs for the units that have none; returns the Supabase error message or null */
+export async function assignMissingBarcodes(productId: string, units: BarcodeUnit[]): Promise<string | null> {
+  const missing = units.filter((u) => !u.ean);
+  if (missing.length === 0) return null;
+  const { data: codes, error } = await supabase.rpc('allocate_eans', { p_count: missing.length });
+  if (error) return error.message;
+  const createdBy = getUserIdForDb();
+  const { error: insErr } = await supabase.from('product_barcodes').insert(
+    missing.map((u, i) => ({
+      product_id: productId,
+      variant_id: u.variant?.id ?? null,
+      size: u.size,
+      ean: (codes as string[])[i],
+      created_by: createdBy,
+    }))
+  );
+  return insErr?.message ?? null;
+}
+
+// ── Export ────────────────────────────────────────────────────
+
+const csvCell = (value: string | null | undefined) => {
+  const v = value ?? '';
+  return /[",\n;]/.test(v) ? `"${v.replace(/"/g, '""')}"` : v;
+};
+
+export interface BarcodeExportRow {
+  product: string;
+  variant: string | null;
+  size: string | null;
+  sku: string;
+  ean: string;
+}
+
+export function barcodesCsv(rows: BarcodeExportRow[], head: string[]): string {
+  return [head, ...rows.map((r) => [r.product, r.variant, r.size, r.sku, r.ean])]
+    .map((line) => line.map(csvCell).join(','))
+    .join('\n');
+}
+
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export function downloadBarcode(code: string, format: 'svg' | 'png'): void {
+  if (format === 'svg') {
+    downloadBlob(new Blob([ean13Svg(code)], { type: 'image/svg+xml' }), `${code}.svg`);
+    return;
+  }
+  void ean13Png(code).then((blob) => blob && downloadBlob(blob, `${code}.png`));
+}
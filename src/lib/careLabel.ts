@@ -0,0 +1,376 @@
+import type { Material } from '../components/MaterialSlideOver';
+import type { ProductWithMaterials } from '../components/ProductSlideOver';
+import { resolveVariantBom } from './productVariants';
+
+/**
+ * Care label content: the fibre composition required by Regulation (EU) No 1007/2011 and
+ * the ISO 3758 care symbols chosen per product.
+ *
+ * Fibre percentages are weighted by each material's consumption within its role – the
+ * shell (main fabric) and the lining are declared separately. Pocket linings are left out
+ * (Art. 11: linings below 30 % of the product need not be declared). Fibre names are the
+ * regulation's names in each label language; custom fibres print as entered.
+ */
+
+// ── Languages ─────────────────────────────────────────────────
+
+export const CARE_LABEL_LANGUAGES = ['en', 'cs', 'sk', 'de', 'fr', 'it', 'es', 'pl', 'nl'] as const;
+export type CareLabelLanguage = (typeof CARE_LABEL_LANGUAGES)[number];
+
+/** Language names as printed in the picker (endonyms) */
+export const CARE_LABEL_LANGUAGE_NAMES: Record<CareLabelLanguage, string> = {
+  en: 'English',
+  cs: 'Čeština',
+  sk: 'Slovenčina',
+  de: 'Deutsch',
+  fr: 'Français',
+  it: 'Italiano',
+  es: 'Español',
+  pl: 'Polski',
+  nl: 'Nederlands',
+};
+
+export const DEFAULT_CARE_LABEL_LANGUAGES: CareLabelLanguage[] = ['en', 'cs'];
+
+type Translations = Record<CareLabelLanguage, string>;
+
+/** Annex I fibre names for the fibres offered in the material library (COMPOSITION_FIBERS) */
+const FIBRE_NAMES: Record<string, Translations> = {
+  wool: { en: 'wool', cs: 'vlna', sk: 'vlna', de: 'Wolle', fr: 'laine', it: 'lana', es: 'lana', pl: 'wełna', nl: 'wol' },
+  cotton: { en: 'cotton', cs: 'bavlna', sk: 'bavlna', de: 'Baumwolle', fr: 'coton', it: 'cotone', es: 'algodón', pl: 'bawełna', nl: 'katoen' },
+  silk: { en: 'silk', cs: 'hedvábí', sk: 'hodváb', de: 'Seide', fr: 'soie', it: 'seta', es: 'seda', pl: 'jedwab', nl: 'zijde' },
+  linen: { en: 'linen', cs: 'len', sk: 'ľan', de: 'Leinen', fr: 'lin', it: 'lino', es: 'lino', pl: 'len', nl: 'linnen' },
+  polyester: { en: 'polyester', cs: 'polyester', sk: 'polyester', de: 'Polyester', fr: 'polyester', it: 'poliestere', es: 'poliéster', pl: 'poliester', nl: 'polyester' },
+  viscose: { en: 'viscose', cs: 'viskóza', sk: 'viskóza', de: 'Viskose', fr: 'viscose', it: 'viscosa', es: 'viscosa', pl: 'wiskoza', nl: 'viscose' },
+  elastane: { en: 'elastane', cs: 'elastan', sk: 'elastan', de: 'Elasthan', fr: 'élasthanne', it: 'elastan', es: 'elastano', pl: 'elastan', nl: 'elastaan' },
+  nylon: { en: 'polyamide', cs: 'polyamid', sk: 'polyamid', de: 'Polyamid', fr: 'polyamide', it: 'poliammide', es: 'poliamida', pl: 'poliamid', nl: 'polyamide' },
+  acrylic: { en: 'acrylic', cs: 'akryl', sk: 'akryl', de: 'Polyacryl', fr: 'acrylique', it: 'acrilica', es: 'acrílico', pl: 'akryl', nl: 'acryl' },
+  cashmere: { en: 'cashmere', cs: 'kašmír', sk: 'kašmír', de: 'Kaschmir', fr: 'cachemire', it: 'cashmere', es: 'cachemira', pl: 'kaszmir', nl: 'kasjmier' },
+  other: { en: 'other fibres', cs: 'ostatní vlákna', sk: 'ostatné vlákna', de: 'sonstige Fasern', fr: 'autres fibres', it: 'altre fibre', es: 'otras fibras', pl: 'inne włókna', nl: 'overige vezels' },
+};
+
+/** Library fibres without a legal name of their own */
+const FIBRE_ALIASES: Record<string, string> = { synthetic: 'other' };
+
+/** Not a textile fibre – declared with the Art. 12 wording instead of a percentage */
+const ANIMAL_NON_TEXTILE = new Set(['leather']);
+
+const ROLE_HEADINGS: Record<FibreRole, Translations> = {
+  main: { en: 'Shell', cs: 'Svrchní materiál', sk: 'Vrchný materiál', de: 'Oberstoff', fr: 'Dessus', it: 'Esterno', es: 'Exterior', pl: 'Wierzch', nl: 'Buitenstof' },
+  lining: { en: 'Lining', cs: 'Podšívka', sk: 'Podšívka', de: 'Futter', fr: 'Doublure', it: 'Fodera', es: 'Forro', pl: 'Podszewka', nl: 'Voering' },
+};
+
+const ANIMAL_NOTICE: Translations = {
+  en: 'Contains non-textile parts of animal origin',
+  cs: 'Obsahuje netextilní části živočišného původu',
+  sk: 'Obsahuje netextilné časti živočíšneho pôvodu',
+  de: 'Enthält nichttextile Teile tierischen Ursprungs',
+  fr: "Contient des parties non textiles d'origine animale",
+  it: 'Contiene parti non tessili di origine animale',
+  es: 'Contiene partes no textiles de origen animal',
+  pl: 'Zawiera niewłókiennicze części pochodzenia zwierzęcego',
+  nl: 'Bevat niet-textieldelen van dierlijke oorsprong',
+};
+
+// ── Fibre content ─────────────────────────────────────────────
+
+export const FIBRE_ROLES = ['main', 'lining'] as const;
+export type FibreRole = (typeof FIBRE_ROLES)[number];
+
+export interface FibreShare {
+  /** Library fibre key (wool, cotton …) or a custom fibre name */
+  fiber: string;
+  pct: number;
+}
+
+export interface FibreSection {
+  role: FibreRole;
+  fibres: FibreShare[];
+}
+
+export interface FibreContent {
+  sections: FibreSection[];
+  /** Leather or other non-textile animal parts present */
+  animalParts: boolean;
+  /** Materials of a declared role without a composition */
+  missingComposition: string[];
+}
+
+/** Structured composition of a material – composition_rows, or parsed from the legacy string */
+export function materialCompositionRows(material: Pick<Material, 'composition' | 'parameters'>): FibreShare[] {
+  const rows = (material.parameters?.composition_rows as { pct: number | string; fiber: string }[] | undefined) ?? [];
+  const structured = rows
+    .map((r) => ({ fiber: r.fiber?.trim() ?? '', pct: Number(r.pct) || 0 }))
+    .filter((r) => r.fiber && r.pct > 0);
+  if (structured.length > 0) return structured;
+  return (material.composition ?? '')
+    .split(',')
+    .map((s) => s.trim().match(/^(\d+(?:[.,]\d+)?)\s*%\s*(.+)$/))
+    .filter((m): m is RegExpMatchArray => m !== null)
+    .map((m) => ({ fiber: m[2].trim(), pct: parseFloat(m[1].replace(',', '.')) }))
+    .filter((r) => r.pct > 0);
+}
+
+/** Integer percentages summing to 100 (largest remainder), in decreasing order */
+function roundShares(weights: Map<string, number>): FibreShare[] {
+  const total = [...weights.values()].reduce((s, w) => s + w, 0);
+  if (total <= 0) return [];
+  const raw = [...weights.entries()].map(([fiber, w]) => ({ fiber, exact: (w / total) * 100 }));
+  const shares = raw.map((r) => ({ fiber: r.fiber, pct: Math.floor(r.exact), rest: r.exact - Math.floor(r.exact) }));
+  let missing = 100 - shares.reduce((s, r) => s + r.pct, 0);
+  for (const share of [...shares].sort((a, b) => b.rest - a.rest)) {
+    if (missing <= 0) break;
+    share.pct++;
+    missing--;
+  }
+  return shares
+    .filter((s) => s.pct > 0)
+    .sort((a, b) => b.pct - a.pct || a.fiber.localeCompare(b.fiber))
+    .map(({ fiber, pct }) => ({ fiber, pct }));
+}
+
+/** Fibre content of the product's base BOM, per role */
+export function computeFibreContent(product: ProductWithMaterials): FibreContent {
+  const materials = resolveVariantBom(product, null).product_materials ?? [];
+  let animalParts = false;
+  const missingComposition: string[] = [];
+
+  const sections = FIBRE_ROLES.map((role) => {
+    const weights = new Map<string, number>();
+    const names = new Map<string, string>();
+    for (const pm of materials.filter((m) => (m.role ?? 'main') === role)) {
+      if (!pm.material) continue;
+      const rows = materialCompositionRows(pm.material);
+      if (rows.length === 0) {
+        missingComposition.push(pm.material.name);
+        continue;
+      }
+      const materialTotal = rows.reduce((s, r) => s + r.pct, 0);
+      const consumption = Number(pm.consumption_amount) || 0;
+      for (const row of rows) {
+        const lower = row.fiber.toLowerCase();
+        if (ANIMAL_NON_TEXTILE.has(lower)) {
+          animalParts = true;
+          continue;
+        }
+        const key = FIBRE_ALIASES[lower] ?? lower;
+        if (!names.has(key)) names.set(key, FIBRE_NAMES[key] ? key : row.fiber);
+        weights.set(key, (weights.get(key) ?? 0) + (consumption * row.pct) / materialTotal);
+      }
+    }
+    const fibres = roundShares(weights).map((s) => ({ ...s, fiber: names.get(s.fiber) ?? s.fiber }));
+    return { role, fibres };
+  }).filter((s) => s.fibres.length > 0);
+
+  return { sections, animalParts, missingComposition };
+}
+
+export function fibreName(fiber: string, lang: CareLabelLanguage): string {
+  return FIBRE_NAMES[fiber]?.[lang] ?? fiber;
+}
+
+/** Label wording in one language, one line per role (the heading is omitted for a single shell) */
+export function fibreContentText(content: FibreContent, lang: CareLabelLanguage): string {
+  const withHeadings = content.sections.length > 1 || content.sections.some((s) => s.role !== 'main');
+  const lines = content.sections.map((section) => {
+    const list = section.fibres.map((f) => `${f.pct}% ${fibreName(f.fiber, lang)}`).join(', ');
+    return withHeadings ? `${ROLE_HEADINGS[section.role][lang]}: ${list}` : list;
+  });
+  if (content.animalParts) lines.push(ANIMAL_NOTICE[lang]);
+  return lines.join('\n');
+}
+
+// ── Care symbols (ISO 3758) ───────────────────────────────────
+
+export const CARE_SYMBOL_GROUPS = ['washing', 'bleaching', 'drying', 'ironing', 'professional'] as const;
+export type CareSymbolGroup = (typeof CARE_SYMBOL_GROUPS)[number];
+
+interface CareSymbolSpec {
+  shape: 'tub' | 'triangle' | 'square' | 'iron' | 'circle';
+  /** Temperature or professional-care letter */
+  text?: string;
+  /** Temperature dots (tumble drying, ironing) */
+  dots?: number;
+  /** Bars under the symbol: 1 = mild, 2 = very mild */
+  bars?: number;
+  inner?: 'hand' | 'oxygen' | 'tumble' | 'line' | 'drip' | 'flat';
+  cross?: boolean;
+}
+
+export const CARE_SYMBOLS: Record<CareSymbolGroup, Record<string, CareSymbolSpec>> = {
+  washing: {
+    wash_95: { shape: 'tub', text: '95' },
+    wash_70: { shape: 'tub', text: '70' },
+    wash_60: { shape: 'tub', text: '60' },
+    wash_60_mild: { shape: 'tub', text: '60', bars: 1 },
+    wash_50: { shape: 'tub', text: '50' },
+    wash_50_mild: { shape: 'tub', text: '50', bars: 1 },
+    wash_40: { shape: 'tub', text: '40' },
+    wash_40_mild: { shape: 'tub', text: '40', bars: 1 },
+    wash_40_very_mild: { shape: 'tub', text: '40', bars: 2 },
+    wash_30: { shape: 'tub', text: '30' },
+    wash_30_mild: { shape: 'tub', text: '30', bars: 1 },
+    wash_30_very_mild: { shape: 'tub', text: '30', bars: 2 },
+    hand_wash: { shape: 'tub', inner: 'hand' },
+    do_not_wash: { shape: 'tub', cross: true },
+  },
+  bleaching: {
+    bleach_any: { shape: 'triangle' },
+    bleach_oxygen: { shape: 'triangle', inner: 'oxygen' },
+    do_not_bleach: { shape: 'triangle', cross: true },
+  },
+  drying: {
+    tumble_normal: { shape: 'square', inner: 'tumble', dots: 2 },
+    tumble_low: { shape: 'square', inner: 'tumble', dots: 1 },
+    do_not_tumble: { shape: 'square', inner: 'tumble', cross: true },
+    line_dry: { shape: 'square', inner: 'line' },
+    drip_dry: { shape: 'square', inner: 'drip' },
+    flat_dry: { shape: 'square', inner: 'flat' },
+  },
+  ironing: {
+    iron_high: { shape: 'iron', dots: 3 },
+    iron_medium: { shape: 'iron', dots: 2 },
+    iron_low: { shape: 'iron', dots: 1 },
+    do_not_iron: { shape: 'iron', cross: true },
+  },
+  professional: {
+    dry_clean_p: { shape: 'circle', text: 'P' },
+    dry_clean_p_mild: { shape: 'circle', text: 'P', bars: 1 },
+    dry_clean_f: { shape: 'circle', text: 'F' },
+    dry_clean_f_mild: { shape: 'circle', text: 'F', bars: 1 },
+    wet_clean_w: { shape: 'circle', text: 'W' },
+    wet_clean_w_mild: { shape: 'circle', text: 'W', bars: 1 },
+    do_not_dry_clean: { shape: 'circle', cross: true },
+  },
+};
+
+/** Care symbols per group (ISO 3758 order) and label languages, stored in products.care_label */
+export interface CareLabelSettings {
+  symbols?: Partial<Record<CareSymbolGroup, string>>;
+  languages?: CareLabelLanguage[];
+}
+
+export function careLabelLanguages(settings: CareLabelSettings | null | undefined): CareLabelLanguage[] {
+  const langs = (settings?.languages ?? []).filter((l) => (CARE_LABEL_LANGUAGES as readonly string[]).includes(l));
+  return langs.length > 0 ? langs : DEFAULT_CARE_LABEL_LANGUAGES;
+}
+
+/** Selected symbol codes in the ISO 3758 sequence */
+export function selectedCareSymbols(settings: CareLabelSettings | null | undefined): string[] {
+  return CARE_SYMBOL_GROUPS.map((g) => settings?.symbols?.[g]).filter(
+    (code): code is string => !!code && CARE_SYMBOL_GROUPS.some((g) => code in CARE_SYMBOLS[g])
+  );
+}
+
+function symbolSpec(code: string): CareSymbolSpec | null {
+  for (const group of CARE_SYMBOL_GROUPS) {
+    if (code in CARE_SYMBOLS[group]) return CARE_SYMBOLS[group][code];
+  }
+  return null;
+}
+
+const dotsRow = (count: number, y: number, cx = 20) =>
+  Array.from({ length: count }, (_, i) => `<circle cx="${cx + (i - (count - 1) / 2) * 5}" cy="${y}" r="1.7" fill="currentColor"/>`).join('');
+
+/** Symbol shapes as SVG markup (40 × 44 units; the bottom band holds the mild bars) */
+function symbolBody(spec: CareSymbolSpec): string {
+  const parts: string[] = [];
+  const text = (value: string, y: number, size: number) =>
+    `<text x="20" y="${y}" text-anchor="middle" font-family="Helvetica, Arial, sans-serif" font-size="${size}" font-weight="600" fill="currentColor" stroke="none">${value}</text>`;
+  switch (spec.shape) {
+    case 'tub':
+      parts.push('<path d="M4 12 L8 32 H32 L36 12"/>', '<path d="M4 12 q4 -4 8 0 t8 0 t8 0 t8 0"/>');
+      if (spec.text) parts.push(text(spec.text, 28, 11));
+      if (spec.inner === 'hand') parts.push('<path d="M14 29 v-8 m3 8 v-10 m3 10 v-9 m3 9 v-7 m0 4 l3 -3"/>');
+      break;
+    case 'triangle':
+      parts.push('<path d="M20 5 L36 33 H4 Z"/>');
+      if (spec.inner === 'oxygen') parts.push('<path d="M15 33 L23 19 M21 33 L27 23"/>');
+      break;
+    case 'square':
+      parts.push('<path d="M6 5 H34 V33 H6 Z"/>');
+      if (spec.inner === 'tumble') parts.push('<circle cx="20" cy="19" r="10"/>');
+      if (spec.inner === 'line') parts.push('<path d="M6 5 Q20 17 34 5"/>');
+      if (spec.inner === 'drip') parts.push('<path d="M15 10 V28 M20 10 V28 M25 10 V28"/>');
+      if (spec.inner === 'flat') parts.push('<path d="M11 19 H29"/>');
+      if (spec.dots) parts.push(dotsRow(spec.dots, 19));
+      break;
+    case 'iron':
+      parts.push('<path d="M4 31 Q6 18 16 16 H32 V31 Z"/>', '<path d="M15 16 Q15 10 21 10 H32 V16"/>');
+      if (spec.dots) parts.push(dotsRow(spec.dots, 24, 22));
+      break;
+    case 'circle':
+      parts.push('<circle cx="20" cy="19" r="14"/>');
+      if (spec.text) parts.push(text(spec.text, 24, 14));
+      break;
+  }
+  if (spec.bars) parts.push(spec.bars >= 2 ? '<path d="M6 37 H34 M6 41 H34"/>' : '<path d="M6 38 H34"/>');
+  if (spec.cross) parts.push('<path d="M5 4 L35 34 M35 4 L5 34"/>');
+  return parts.join('');
+}
+
+export function careSymbolSvg(code: string, size = 40): string {
+  const spec = symbolSpec(code);
+  if (!spec) return '';
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${(size * 44) / 40}" viewBox="0 0 40 44" fill="none" stroke="currentColor" stroke-width="2.2" stroke-linejoin="round" stroke-linecap="round" color="#000">${symbolBody(spec)}</svg>`;
+}
+
+export function careSymbolDataUrl(code: string): string {
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(careSymbolSvg(code))}`;
+}
+
+const escXml = (s: string) => s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/**
+ * Print-ready care label artwork: the care symbols in a row above the fibre content in
+ * every label language. Sized in millimetres to the attached care label when known.
+ */
+export function careLabelSvg(
+  content: FibreContent,
+  settings: CareLabelSettings | null | undefined,
+  size: { width_mm: number | null; height_mm: number | null } = { width_mm: null, height_mm: null }
+): string {
+  const width = size.width_mm && size.width_mm > 0 ? size.width_mm : 30;
+  const symbols = selectedCareSymbols(settings);
+  const symbolSize = Math.min(6, (width - 4) / Math.max(symbols.length, 1) - 1);
+  const fontSize = 2.2;
+  const lineHeight = fontSize * 1.35;
+  const maxChars = Math.max(10, Math.floor((width - 4) / (fontSize * 0.5)));
+
+  // Greedy word wrap – the label has no text layout engine
+  const wrap = (line: string) => {
+    const out: string[] = [];
+    let current = '';
+    for (const word of line.split(' ')) {
+      if (current && (current + ' ' + word).length > maxChars) {
+        out.push(current);
+        current = word;
+      } else current = current ? `${current} ${word}` : word;
+    }
+    if (current) out.push(current);
+    return out;
+  };
+
+  let y = 3;
+  const parts: string[] = [];
+  symbols.forEach((code, i) => {
+    const spec = symbolSpec(code)!;
+    const x = 2 + i * (symbolSize + 1);
+    parts.push(
+      `<g transform="translate(${x} ${y}) scale(${symbolSize / 40})" fill="none" stroke="#000" stroke-width="2.2" stroke-linejoin="round" stroke-linecap="round" color="#000">${symbolBody(spec)}</g>`
+    );
+  });
+  if (symbols.length > 0) y += (symbolSize * 44) / 40 + 2;
+
+  for (const lang of careLabelLanguages(settings)) {
+    for (const line of fibreContentText(content, lang).split('\n').flatMap(wrap)) {
+      y += lineHeight;
+      parts.push(
+        `<text x="2" y="${y.toFixed(2)}" font-family="Helvetica, Arial, sans-serif" font-size="${fontSize}" fill="#000">${escXml(line)}</text>`
+      );
+    }
+    y += lineHeight * 0.5;
+  }
+  const height = Math.max(size.height_mm && size.height_mm > 0 ? size.height_mm : 0, y + 2);
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}mm" height="${height.toFixed(2)}mm" viewBox="0 0 ${width} ${height.toFixed(2)}"><rect width="100%" height="100%" fill="#fff"/>${parts.join('')}</svg>`;
+}
@@ -0,0 +1,183 @@
+import { supabase } from './supabase';
+import i18n from '../i18n';
+import { getUserIdForDb } from '../stores/authStore';
+import { todayIso, addDays } from './criticalPath';
+
+/**
+ * Certificates and test reports attached to a supplier or a material (certificates table,
+ * files in the "certificates" bucket). A certificate is valid until its expiry date;
+ * founders are reminded once it gets within EXPIRY_WARNING_DAYS and once more when it expires.
+ */
+
+export const CERTIFICATE_KINDS = [
+  'gots',
+  'oeko_tex',
+  'grs',
+  'rcs',
+  'bluesign',
+  'fsc',
+  'rws',
+  'reach',
+  'test_report',
+  'other',
+] as const;
+
+export type CertificateKind = (typeof CERTIFICATE_KINDS)[number];
+
+/** Days before expiry the certificate counts as expiring (and founders get a reminder) */
+export const EXPIRY_WARNING_DAYS = 30;
+
+const CERTIFICATE_URL_TTL = 60 * 60;
+
+export type CertificateOwnerRef =
+  | { kind: 'supplier'; id: string }
+  | { kind: 'material'; id: string };
+
+export interface Certificate {
+  id: string;
+  supplier_id: string | null;
+  material_id: string | null;
+  kind: CertificateKind;
+  name: string | null;
+  certificate_number: string | null;
+  issuer: string | null;
+  scope: string | null;
+  issued_at: string | null;
+  expires_at: string | null;
+  /** Object path in the private "certificates" bucket */
+  file_path: string | null;
+  file_name: string | null;
+  notes: string | null;
+  expiry_reminder: 'expiring' | 'expired' | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type CertificateStatus = 'valid' | 'expiring' | 'expired';
+
+export function certificateStatus(cert: Pick<Certificate, 'expires_at'>, today: string = todayIso()): CertificateStatus {
+  if (!cert.expires_at) return 'valid';
+  if (cert.expires_at < today) return 'expired';
+  return cert.expires_at <= addDays(today, EXPIRY_WARNING_DAYS) ? 'expiring' : 'valid';
+}
+
+/** Certificates that are still in force (expiring ones included) */
+export function validCertificates<T extends Pick<Certificate, 'expires_at'>>(certs: T[], today: string = todayIso()): T[] {
+  return certs.filter((c) => certificateStatus(c, today) !== 'expired');
+}
+
+/** Display name – the kind (GOTS, OEKO-TEX …) or the free-form name for 'other' */
+export function certificateLabel(cert: Pick<Certificate, 'kind' | 'name'>): string {
+  if (cert.kind === 'other' || cert.kind === 'test_report') {
+    return cert.name?.trim() || i18n.t(`certificates.kinds.${cert.kind}`);
+  }
+  return i18n.t(`certificates.kinds.${cert.kind}`);
+}
+
+const OWNER_COLUMN: Record<CertificateOwnerRef['kind'], 'supplier_id' | 'material_id'> = {
+  supplier: 'supplier_id',
+  material: 'material_id',
+};
+
+export async function fetchCertificates(owner: CertificateOwnerRef): Promise<Certificate[]> {
+  const { data } = await supabase
+    .from('certificates')
+    .select('*')
+    .eq(OWNER_COLUMN[owner.kind], owner.id)
+    .order('expires_at', { ascending: true, nullsFirst: false });
+  return (data as Certificate[]) || [];
+}
+
+/** Upload a certificate file; returns its object path */
+export async function uploadCertificateFile(owner: CertificateOwnerRef, file: File): Promise<string> {
+  const safeName = file.name.replace(/[^\w.-]+/g, '_');
+  const path = `${owner.kind}/${owner.id}/${Date.now()}_${safeName}`;
+  const arrayBuffer = await file.arrayBuffer();
+  const { error } = await supabase.storage
+    .from('certificates')
+    .upload(path, arrayBuffer, { contentType: file.type || 'application/pdf', cacheControl: '3600', upsert: false });
+  if (error) throw new Error(error.message);
+  return path;
+}
+
+export async function removeCertificateFile(path: string | null): Promise<void> {
+  if (path) await supabase.storage.from('certificates').remove([path]);
+}
+
+/** Signed URLs (valid for an hour) by object path */
+export async function signCertificateUrls(paths: string[]): Promise<Record<string, string>> {
+  if (paths.length === 0) return {};
+  const { data } = await supabase.storage.from('certificates').createSignedUrls(paths, CERTIFICATE_URL_TTL);
+  const urls: Record<string, string> = {};
+  for (const item of data ?? []) {
+    if (item.path && item.signedUrl) urls[item.path] = item.signedUrl;
+  }
+  return urls;
+}
+
+/**
+ * Remind founders of certificates that are about to expire or have expired.
+ * Each certificate gets one reminder per stage (expiry_reminder); run once per session.
+ */
+export async function checkCertificateExpiry(): Promise<void> {
+  const senderId = getUserIdForDb();
+  if (!senderId) return;
+
+  const today = todayIso();
+  const { data } = await supabase
+    .from('certificates')
+    .select('id, kind, name, expires_at, expiry_reminder, supplier_id, material_id, supplier:suppliers(name), material:materials(name)')
+    .not('expires_at', 'is', null)
+    .lte('expires_at', addDays(today, EXPIRY_WARNING_DAYS));
+  const certs = (data || []) as unknown as (Pick<
+    Certificate,
+    'id' | 'kind' | 'name' | 'expires_at' | 'expiry_reminder' | 'supplier_id' | 'material_id'
+  > & { supplier: { name: string } | null; material: { name: string } | null })[];
+
+  const due = certs
+    .map((c) => ({ cert: c, stage: certificateStatus(c, today) as Exclude<CertificateStatus, 'valid'> }))
+    .filter(({ cert, stage }) => cert.expiry_reminder !== stage && !(stage === 'expiring' && cert.expiry_reminder === 'expired'));
+  if (due.length === 0) return;
+
+  const { data: founders } = await supabase.from('profiles').select('id').eq('role', 'founder');
+  const recipientIds = (founders || []).map((f: { id: string }) => f.id);
+  if (recipientIds.length === 0) return;
+
+  const rows = due.flatMap(({ cert, stage }) =>
+    recipientIds.map((recipientId) => ({
+      recipient_id: recipientId,
+      sender_id: senderId,
+      type: 'project_update',
+      title: i18n.t(stage === 'expired' ? 'certificates.notificationExpired' : 'certificates.notificationExpiring', {
+        name: certificateLabel(cert),
+        owner: cert.material?.name ?? cert.supplier?.name ?? '—',
+      }),
+      message: i18n.t('certificates.notificationMessage', { date: cert.expires_at }),
+      link: cert.material_id
+        ? `/production/materials?material=${cert.material_id}`
+        : `/business/suppliers?supplier=${cert.supplier_id}`,
+      reference_type: 'certificate',
+      reference_id: cert.id,
+      metadata: { certificateReminder: stage },
+    }))
+  );
+
+  const { data: { session } } = await supabase.auth.getSession();
+  const token = session?.access_token;
+  const { data: res, error: invokeError } = await supabase.functions.invoke('create-notification', {
+    body: { notifications: rows },
+    headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+  });
+  const error = invokeError ?? res?.error;
+  if (error) {
+    console.error('[checkCertificateExpiry] notification insert failed:', error.message);
+    return;
+  }
+
+  // Mark the stage only once the founders were notified – a failed send is retried next session
+  for (const stage of ['expiring', 'expired'] as const) {
+    const ids = due.filter((d) => d.stage === stage).map((d) => d.cert.id);
+    if (ids.length > 0) await supabase.from('certificates').update({ expiry_reminder: stage }).in('id', ids);
+  }
+}
@@ -0,0 +1,326 @@
+import { supabase } from './supabase';
+import i18n from '../i18n';
+import { getUserIdForDb } from '../stores/authStore';
+import type { Role } from './rbac';
+
+/**
+ * Team chat (chat_rooms, chat_messages). Replies point at their thread root via parent_id;
+ * reactions live in chat_message_reactions, read receipts per user and room in chat_room_reads.
+ * Attachments are stored in the private "chat-attachments" bucket and served through signed URLs.
+ *
+ * Rooms are channels (created and archived by founders), direct messages between two profiles
+ * or the channel of a product / production order. Team roles see every open channel; clients and
+ * hosts only see rooms they were invited to (chat_room_members) – enforced by RLS.
+ */
+
+export type ChatRoomKind = 'channel' | 'direct' | 'entity';
+
+export type ChatEntityType = 'product' | 'production_order';
+
+/** Roles that see every open channel and can open entity channels (mirrors is_chat_team_member()) */
+export const CHAT_TEAM_ROLES: Role[] = ['founder', 'engineer', 'viewer'];
+
+export interface ChatRoomMember {
+  user_id: string;
+  profile?: {
+    full_name?: string | null;
+    first_name?: string | null;
+    last_name?: string | null;
+    avatar_url: string | null;
+  } | null;
+}
+
+export interface ChatRoom {
+  id: string;
+  name: string;
+  kind: ChatRoomKind;
+  is_private: boolean;
+  entity_type: ChatEntityType | null;
+  entity_id: string | null;
+  archived_at: string | null;
+  archived_by: string | null;
+  created_by: string | null;
+  created_at: string;
+  members?: ChatRoomMember[];
+}
+
+export interface ChatAttachment {
+  /** Object path in the private "chat-attachments" bucket (<room_id>/<file>) */
+  path: string;
+  name: string;
+  /** MIME type */
+  type: string;
+  size: number;
+}
+
+export interface ChatReaction {
+  message_id: string;
+  user_id: string;
+  emoji: string;
+}
+
+export interface ChatMessage {
+  id: string;
+  room_id: string;
+  sender_id: string;
+  parent_id: string | null;
+  content: string;
+  tagged_user_ids: string[];
+  attachments: ChatAttachment[];
+  edited_at: string | null;
+  created_at: string;
+  updated_at: string;
+  profile?: {
+    full_name?: string;
+    first_name?: string;
+    last_name?: string;
+    avatar_url: string | null;
+  };
+  reactions?: ChatReaction[];
+}
+
+/** Rooms every workspace has (seeded by migration), listed first */
+export const DEFAULT_ROOM_NAMES = ['Design', 'Production', 'General'] as const;
+
+export const CHAT_ATTACHMENT_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif', 'application/pdf'];
+
+/** Bucket limit (20 MB) */
+export const CHAT_ATTACHMENT_MAX_SIZE = 20 * 1024 * 1024;
+
+/** Lifetime of signed attachment URLs in seconds */
+const CHAT_ATTACHMENT_URL_TTL = 60 * 60;
+
+export const CHAT_ROOM_SELECT =
+  '*, members:chat_room_members(user_id, profile:profiles!chat_room_members_user_id_fkey(full_name, first_name, last_name, avatar_url))';
+
+export const CHAT_MESSAGE_SELECT =
+  '*, profile:profiles!chat_messages_sender_id_fkey(full_name, first_name, last_name, avatar_url), reactions:chat_message_reactions(message_id, user_id, emoji)';
+
+/** Translated name of the default rooms, other rooms keep their own name */
+export function chatRoomLabel(name: string): string {
+  const key = name.toLowerCase();
+  return i18n.exists(`chat.rooms.${key}`) ? i18n.t(`chat.rooms.${key}`) : name;
+}
+
+/** Room title: translated default rooms, the other member for direct messages */
+export function chatRoomTitle(room: Pick<ChatRoom, 'name' | 'kind' | 'members'>, userId: string | undefined): string {
+  if (room.kind !== 'direct') return chatRoomLabel(room.name);
+  const other = room.members?.find((m) => m.user_id !== userId)?.profile;
+  return [other?.first_name, other?.last_name].filter(Boolean).join(' ') || other?.full_name || i18n.t('chat.directMessage');
+}
+
+/** Where the entity of an entity channel lives */
+export function chatEntityPath(room: Pick<ChatRoom, 'entity_type' | 'entity_id'>): string | null {
+  if (room.entity_type === 'product') return `/production/products/${room.entity_id}`;
+  if (room.entity_type === 'production_order') return `/production/orders?order=${room.entity_id}`;
+  return null;
+}
+
+export function isImageAttachment(attachment: Pick<ChatAttachment, 'type'>): boolean {
+  return attachment.type.startsWith('image/');
+}
+
+/** Rooms visible to the user: default rooms first, then channels, entity channels and direct messages */
+export async function fetchChatRooms(): Promise<ChatRoom[]> {
+  const { data } = await supabase.from('chat_rooms').select(CHAT_ROOM_SELECT).order('created_at');
+  const kindOrder: Record<ChatRoomKind, number> = { channel: 0, entity: 1, direct: 2 };
+  const defaultIndex = (room: ChatRoom) => {
+    const i = room.kind === 'channel' ? DEFAULT_ROOM_NAMES.indexOf(room.name as (typeof DEFAULT_ROOM_NAMES)[number]) : -1;
+    return i === -1 ? DEFAULT_ROOM_NAMES.length : i;
+  };
+  return ((data || []) as ChatRoom[]).sort(
+    (a, b) => kindOrder[a.kind] - kindOrder[b.kind] || defaultIndex(a) - defaultIndex(b)
+  );
+}
+
+interface CreateChatRoomParams {
+  name: string;
+  isPrivate: boolean;
+  /** Invited profiles (clients and hosts, or everyone of a private channel) */
+  memberIds: string[];
+}
+
+/** Founders only */
+export async function createChatRoom({ name, isPrivate, memberIds }: CreateChatRoomParams): Promise<ChatRoom> {
+  const userId = getUserIdForDb();
+  const { data, error } = await supabase
+    .from('chat_rooms')
+    .insert({ name, kind: 'channel', is_private: isPrivate, created_by: userId })
+    .select()
+    .single();
+  if (error) throw new Error(error.message);
+  const room = data as ChatRoom;
+  // The creator of a private channel is a member too
+  const ids = isPrivate && userId ? [...new Set([userId, ...memberIds])] : memberIds;
+  await addChatRoomMembers(room.id, ids);
+  return room;
+}
+
+/** Founders only; archived rooms are read-only */
+export async function setChatRoomArchived(roomId: string, archived: boolean): Promise<void> {
+  const { error } = await supabase
+    .from('chat_rooms')
+    .update(
+      archived
+        ? { archived_at: new Date().toISOString(), archived_by: getUserIdForDb() }
+        : { archived_at: null, archived_by: null }
+    )
+    .eq('id', roomId);
+  if (error) throw new Error(error.message);
+}
+
+export async function addChatRoomMembers(roomId: string, userIds: string[]): Promise<void> {
+  if (userIds.length === 0) return;
+  const addedBy = getUserIdForDb();
+  const { error } = await supabase
+    .from('chat_room_members')
+    .upsert(
+      userIds.map((userId) => ({ room_id: roomId, user_id: userId, added_by: addedBy })),
+      { onConflict: 'room_id,user_id', ignoreDuplicates: true }
+    );
+  if (error) throw new Error(error.message);
+}
+
+export async function removeChatRoomMember(roomId: string, userId: string): Promise<void> {
+  const { error } = await supabase.from('chat_room_members').delete().eq('room_id', roomId).eq('user_id', userId);
+  if (error) throw new Error(error.message);
+}
+
+/** Direct message room with the profile, created on first use; returns its id */
+export async function startDirectMessage(userId: string): Promise<string> {
+  const { data, error } = await supabase.rpc('start_direct_message', { p_user_id: userId });
+  if (error) throw new Error(error.message);
+  return data as string;
+}
+
+/** Channel of a product or production order, created on first use; returns its id */
+export async function openEntityChatRoom(entityType: ChatEntityType, entityId: string): Promise<string> {
+  const { data, error } = await supabase.rpc('open_entity_chat_room', { p_entity_type: entityType, p_entity_id: entityId });
+  if (error) throw new Error(error.message);
+  return data as string;
+}
+
+export async function fetchChatMessages(roomId: string): Promise<ChatMessage[]> {
+  const { data } = await supabase
+    .from('chat_messages')
+    .select(CHAT_MESSAGE_SELECT)
+    .eq('room_id', roomId)
+    .order('created_at', { ascending: true });
+  return (data || []) as ChatMessage[];
+}
+
+interface PostChatMessageParams {
+  roomId: string;
+  senderId: string;
+  content: string;
+  parentId?: string | null;
+  taggedUserIds?: string[];
+  attachments?: ChatAttachment[];
+}
+
+export async function postChatMessage({
+  roomId,
+  senderId,
+  content,
+  parentId = null,
+  taggedUserIds = [],
+  attachments = [],
+}: PostChatMessageParams): Promise<ChatMessage> {
+  const { data, error } = await supabase
+    .from('chat_messages')
+    .insert({
+      room_id: roomId,
+      sender_id: senderId,
+      parent_id: parentId,
+      content,
+      tagged_user_ids: taggedUserIds,
+      attachments,
+    })
+    .select(CHAT_MESSAGE_SELECT)
+    .single();
+  if (error) throw new Error(error.message);
+  return data as ChatMessage;
+}
+
+/** Returns the edit timestamp */
+export async function editChatMessage(id: string, content: string): Promise<string> {
+  const editedAt = new Date().toISOString();
+  const { error } = await supabase.from('chat_messages').update({ content, edited_at: editedAt }).eq('id', id);
+  if (error) throw new Error(error.message);
+  return editedAt;
+}
+
+/** Deletes the message (with its thread) and the files attached to any of the deleted messages */
+export async function deleteChatMessage(id: string, attachments: ChatAttachment[] = []): Promise<void> {
+  const { error } = await supabase.from('chat_messages').delete().eq('id', id);
+  if (error) throw new Error(error.message);
+  await removeChatAttachmentFiles(attachments);
+}
+
+/** Upload a file for a message in the room; validates type and size */
+export async function uploadChatAttachment(roomId: string, file: File): Promise<ChatAttachment> {
+  if (!CHAT_ATTACHMENT_TYPES.includes(file.type)) throw new Error(i18n.t('chat.attachmentTypeError'));
+  if (file.size > CHAT_ATTACHMENT_MAX_SIZE) throw new Error(i18n.t('chat.attachmentSizeError'));
+  const safeName = file.name.replace(/[^\w.-]+/g, '_');
+  const path = `${roomId}/${Date.now()}_${safeName}`;
+  const arrayBuffer = await file.arrayBuffer();
+  const { error } = await supabase.storage
+    .from('chat-attachments')
+    .upload(path, arrayBuffer, { contentType: file.type, cacheControl: '3600', upsert: false });
+  if (error) throw new Error(error.message);
+  return {
+    path,
+    name: file.name,
+    type: file.type,
+    size: file.size,
+  };
+}
+
+export async function removeChatAttachmentFiles(attachments: Pick<ChatAttachment, 'path'>[]): Promise<void> {
+  const paths = attachments.map((a) => a.path).filter(Boolean);
+  if (paths.length > 0) await supabase.storage.from('chat-attachments').remove(paths);
+}
+
+/** Signed URLs (valid for an hour) by object path; files of rooms the user cannot access are left out */
+export async function signChatAttachmentUrls(paths: string[]): Promise<Record<string, string>> {
+  if (paths.length === 0) return {};
+  const { data } = await supabase.storage.from('chat-attachments').createSignedUrls(paths, CHAT_ATTACHMENT_URL_TTL);
+  const urls: Record<string, string> = {};
+  for (const item of data ?? []) {
+    if (item.path && item.signedUrl) urls[item.path] = item.signedUrl;
+  }
+  return urls;
+}
+
+/** Adds the reaction, or removes it when the user already reacted with that emoji */
+export async function toggleChatReaction(message: Pick<ChatMessage, 'id' | 'reactions'>, userId: string, emoji: string): Promise<void> {
+  const exists = (message.reactions ?? []).some((r) => r.user_id === userId && r.emoji === emoji);
+  const { error } = exists
+    ? await supabase.from('chat_message_reactions').delete().eq('message_id', message.id).eq('user_id', userId).eq('emoji', emoji)
+    : await supabase.from('chat_message_reactions').insert({ message_id: message.id, user_id: userId, emoji });
+  if (error) throw new Error(error.message);
+}
+
+export async function markChatRoomRead(roomId: string): Promise<void> {
+  const userId = getUserIdForDb();
+  if (!userId) return;
+  await supabase.from('chat_room_reads').upsert(
+    { user_id: userId, room_id: roomId, last_read_at: new Date().toISOString() },
+    { onConflict: 'user_id,room_id' }
+  );
+}
+
+export interface ChatUnreadRoom {
+  room_id: string;
+  /** Other member's name for direct messages */
+  room_name: string;
+  room_kind: ChatRoomKind;
+  unread: number;
+}
+
+/** Rooms with messages by others since the user last read them */
+export async function fetchChatUnreadRooms(): Promise<ChatUnreadRoom[]> {
+  if (!getUserIdForDb()) return [];
+  const { data } = await supabase.rpc('chat_unread_counts');
+  return ((data || []) as ChatUnreadRoom[]).map((r) => ({ ...r, unread: Number(r.unread) }));
+}
@@ -0,0 +1,150 @@
+import { useEffect, useState } from 'react';
+import { supabase } from './supabase';
+import { PRODUCT_STATUSES, type ProductStatus, type ProductWithMaterials } from '../components/ProductSlideOver';
+import { computeCostingRow, type CurrencyConverter } from './costing';
+import { convertCurrency } from './currency';
+import { resolveVariantBom } from './productVariants';
+
+/**
+ * Seasons / collections. Each collection carries its delivery drops, a budget and a
+ * target per product category (number of styles, retail target price). The line plan
+ * compares those targets with the products tagged to the collection and their costing.
+ */
+
+export interface CollectionDrop {
+  name: string;
+  /** ISO date (YYYY-MM-DD) */
+  date: string;
+}
+
+export interface CategoryTarget {
+  styles: number;
+  /** Retail target price in the collection's budget currency */
+  target_price: number | null;
+}
+
+export interface Collection {
+  id: string;
+  name: string;
+  code: string | null;
+  description: string | null;
+  drops: CollectionDrop[];
+  budget: number | null;
+  budget_currency: string;
+  category_targets: Record<string, CategoryTarget>;
+  archived: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** Code printed in SKUs – the collection code, or its name without spaces */
+export function collectionSeasonCode(collection: Pick<Collection, 'code' | 'name'> | null | undefined): string {
+  if (!collection) return '';
+  return (collection.code || collection.name).replace(/\s+/g, '');
+}
+
+/** First and last drop date, or null without dated drops */
+export function dropRange(drops: CollectionDrop[] | null | undefined): { from: string; to: string } | null {
+  const dates = (drops ?? []).map((d) => d.date).filter(Boolean).sort();
+  return dates.length > 0 ? { from: dates[0], to: dates[dates.length - 1] } : null;
+}
+
+/** Newest collections first (by the first drop, then by creation) */
+export function sortCollections<T extends Pick<Collection, 'drops' | 'created_at'>>(collections: T[]): T[] {
+  const key = (c: T) => dropRange(c.drops)?.from ?? c.created_at.slice(0, 10);
+  return [...collections].sort((a, b) => key(b).localeCompare(key(a)));
+}
+
+export async function fetchCollections(includeArchived = false): Promise<Collection[]> {
+  let query = supabase.from('collections').select('*');
+  if (!includeArchived) query = query.eq('archived', false);
+  const { data, error } = await query;
+  if (error || !data) return [];
+  return sortCollections(data as Collection[]);
+}
+
+/** Collections for pickers and filters (active ones unless `includeArchived`) */
+export function useCollections(includeArchived = false): Collection[] {
+  const [collections, setCollections] = useState<Collection[]>([]);
+  useEffect(() => {
+    let cancelled = false;
+    fetchCollections(includeArchived).then((list) => {
+      if (!cancelled) setCollections(list);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [includeArchived]);
+  return collections;
+}
+
+// ── Line plan ─────────────────────────────────────────────────
+
+export interface LinePlanStyle {
+  product: ProductWithMaterials;
+  /** Costed retail price in the base currency (size-weighted when a size run exists) */
+  costedPrice: number;
+}
+
+export interface LinePlanRow {
+  category: string;
+  plannedStyles: number;
+  actualStyles: number;
+  /** Target retail price converted into the base currency */
+  targetPrice: number | null;
+  /** Average costed retail price of the category's styles (base currency) */
+  avgCostedPrice: number | null;
+  statusCounts: Record<ProductStatus, number>;
+  styles: LinePlanStyle[];
+}
+
+const emptyStatusCounts = () =>
+  Object.fromEntries(PRODUCT_STATUSES.map((s) => [s, 0])) as Record<ProductStatus, number>;
+
+/**
+ * One row per category that has a target or a style – categories in `categoryOrder`
+ * first, then any other category found on the products.
+ */
+export function computeLinePlan(
+  collection: Collection,
+  products: ProductWithMaterials[],
+  categoryOrder: string[],
+  baseCurrency: string,
+  convert: CurrencyConverter = convertCurrency
+): LinePlanRow[] {
+  const targets = collection.category_targets ?? {};
+  const categories = [
+    ...categoryOrder,
+    ...Object.keys(targets).filter((c) => !categoryOrder.includes(c)),
+    ...products.map((p) => p.category ?? '').filter((c) => !categoryOrder.includes(c)),
+  ].filter((c, i, all) => all.indexOf(c) === i);
+
+  return categories
+    .map((category) => {
+      const styles = products
+        .filter((p) => (p.category ?? '') === category)
+        .map((product) => {
+          const row = computeCostingRow(resolveVariantBom(product, null), baseCurrency, convert);
+          return { product, costedPrice: row.weightedRetailPriceBase ?? row.retailPriceBase };
+        });
+      const target = targets[category];
+      const statusCounts = emptyStatusCounts();
+      for (const s of styles) {
+        const status = s.product.status as ProductStatus;
+        if (status in statusCounts) statusCounts[status]++;
+      }
+      const priced = styles.filter((s) => s.costedPrice > 0);
+      return {
+        category,
+        plannedStyles: target?.styles ?? 0,
+        actualStyles: styles.length,
+        targetPrice:
+          target?.target_price != null ? convert(target.target_price, collection.budget_currency, baseCurrency) : null,
+        avgCostedPrice: priced.length > 0 ? priced.reduce((sum, s) => sum + s.costedPrice, 0) / priced.length : null,
+        statusCounts,
+        styles,
+      };
+    })
+    .filter((r) => r.plannedStyles > 0 || r.actualStyles > 0);
+}
@@ -0,0 +1,414 @@
+import { supabase } from './supabase';
+import { getUserIdForDb, useAuthStore } from '../stores/authStore';
+import { hasPermission, type Module, type Role } from './rbac';
+
+/**
+ * Comments on any entity (comments table). A comment belongs to an entity (type + id) and may be
+ * anchored inside it – a text range of a description block or an image of a gallery. Replies point
+ * at their thread root via parent_id; reactions live in comment_reactions, read receipts per user
+ * and entity in comment_reads. Thread roots carry the review state (resolved, blocking, assignee).
+ */
+
+export const COMMENT_ENTITY_TYPES = [
+  'product',
+  'moodboard_item',
+  'task',
+  'material',
+  'supplier',
+  'label',
+  'magazine_article',
+] as const;
+
+export type CommentEntityType = (typeof COMMENT_ENTITY_TYPES)[number];
+
+export interface CommentTarget {
+  type: CommentEntityType;
+  id: string;
+}
+
+/** Selected text inside a rich-text block */
+export interface TextAnchor {
+  block_id: string;
+  selected_text: string;
+  start_offset: number | null;
+  end_offset: number | null;
+}
+
+/** Point (x/y) or region (x/y = top-left corner, w/h) on an image, in percent of its size */
+export interface ImagePin {
+  x: number;
+  y: number;
+  w?: number;
+  h?: number;
+}
+
+/**
+ * Image of a product gallery or of a moodboard item ('item', index 0 = main image).
+ * Comments with coordinates are pins – each pin is the root of its own thread.
+ */
+export interface ImageAnchor extends Partial<ImagePin> {
+  gallery: 'design' | 'moodboard' | 'labels' | 'item';
+  index: number;
+}
+
+export type CommentAnchorType = 'text' | 'image';
+
+export interface CommentProfile {
+  full_name?: string;
+  first_name?: string;
+  last_name?: string;
+  avatar_url: string | null;
+}
+
+export interface CommentReaction {
+  comment_id: string;
+  user_id: string;
+  emoji: string;
+}
+
+export interface Comment<A = TextAnchor | ImageAnchor | null> {
+  id: string;
+  entity_type: CommentEntityType;
+  entity_id: string;
+  anchor_type: CommentAnchorType | null;
+  anchor: A;
+  parent_id: string | null;
+  author_id: string;
+  content: string;
+  tagged_user_ids: string[];
+  edited_at: string | null;
+  /** Review state, thread roots only */
+  resolved_at: string | null;
+  resolved_by: string | null;
+  is_blocking: boolean;
+  assignee_id: string | null;
+  created_at: string;
+  updated_at: string;
+  profile?: CommentProfile;
+  reactions?: CommentReaction[];
+}
+
+/**
+ * Which comments of an entity a view shows.
+ *   anchorType undefined → all, null → only un-anchored comments
+ *   anchor               → JSON containment match (e.g. { gallery: 'design', index: 2 })
+ */
+export interface CommentScope {
+  target: CommentTarget;
+  anchorType?: CommentAnchorType | null;
+  anchor?: Partial<TextAnchor> | Partial<ImageAnchor>;
+}
+
+/** RBAC modules that grant commenting per entity type (any one is enough; tasks are open to everyone) */
+const COMMENT_MODULES: Record<CommentEntityType, Module[]> = {
+  product: ['production.products', 'production.sampling'],
+  moodboard_item: ['prototyping.moodboard'],
+  task: [],
+  material: ['production.materials'],
+  supplier: ['business.suppliers'],
+  label: ['production.labels'],
+  magazine_article: ['prototyping.magazine'],
+};
+
+export function canCommentOn(role: Role | undefined, entityType: CommentEntityType): boolean {
+  if (!role) return false;
+  const modules = COMMENT_MODULES[entityType];
+  return modules.length === 0 || modules.some((m) => hasPermission(role, m, 'comment'));
+}
+
+export const COMMENT_REACTION_EMOJIS = ['👍', '❤️', '😄', '🎉', '👀'] as const;
+
+export const COMMENT_SELECT =
+  '*, profile:profiles!comments_author_id_fkey(full_name, first_name, last_name, avatar_url), reactions:comment_reactions(comment_id, user_id, emoji)';
+
+interface NamedProfile {
+  first_name?: string | null;
+  last_name?: string | null;
+  full_name?: string | null;
+}
+
+export function profileDisplayName(profile: NamedProfile | null | undefined): string {
+  return [profile?.first_name, profile?.last_name].filter(Boolean).join(' ') || profile?.full_name || 'Unknown';
+}
+
+export function commentAuthorName(comment: Pick<Comment, 'profile'>): string {
+  return profileDisplayName(comment.profile);
+}
+
+/** Does a (realtime) row belong to the scope? */
+export function commentInScope(row: Pick<Comment, 'entity_type' | 'entity_id' | 'anchor_type' | 'anchor'>, scope: CommentScope): boolean {
+  if (row.entity_type !== scope.target.type || row.entity_id !== scope.target.id) return false;
+  if (scope.anchorType !== undefined && row.anchor_type !== scope.anchorType) return false;
+  if (scope.anchor) {
+    const anchor = (row.anchor ?? {}) as Record<string, unknown>;
+    return Object.entries(scope.anchor).every(([k, v]) => anchor[k] === v);
+  }
+  return true;
+}
+
+export async function fetchComments<A = TextAnchor | ImageAnchor | null>(scope: CommentScope): Promise<Comment<A>[]> {
+  let query = supabase
+    .from('comments')
+    .select(COMMENT_SELECT)
+    .eq('entity_type', scope.target.type)
+    .eq('entity_id', scope.target.id);
+  if (scope.anchorType === null) query = query.is('anchor_type', null);
+  else if (scope.anchorType) query = query.eq('anchor_type', scope.anchorType);
+  if (scope.anchor) query = query.contains('anchor', scope.anchor);
+  const { data } = await query.order('created_at', { ascending: true });
+  return (data || []) as Comment<A>[];
+}
+
+/**
+ * Author id for new comments. The dev bypass user has no profile row, so it posts as the
+ * first profile instead.
+ */
+export async function resolveCommentAuthorId(): Promise<string | null> {
+  const id = getUserIdForDb();
+  if (id || useAuthStore.getState().user?.id !== 'dev-user') return id;
+  const { data } = await supabase.from('profiles').select('id').limit(1).single();
+  return data?.id ?? null;
+}
+
+interface PostCommentParams {
+  scope: CommentScope;
+  authorId: string;
+  content: string;
+  parentId?: string | null;
+  taggedUserIds?: string[];
+  /** Defaults to the scope's anchor for anchored scopes */
+  anchor?: TextAnchor | ImageAnchor | null;
+  /** Type of an explicit anchor when the scope has none (e.g. a pin on a moodboard item image) */
+  anchorType?: CommentAnchorType;
+}
+
+export async function postComment<A = TextAnchor | ImageAnchor | null>({
+  scope,
+  authorId,
+  content,
+  parentId = null,
+  taggedUserIds = [],
+  anchor,
+  anchorType,
+}: PostCommentParams): Promise<Comment<A>> {
+  const anchorValue = anchor !== undefined ? anchor : scope.anchorType ? scope.anchor ?? null : null;
+  const { data, error } = await supabase
+    .from('comments')
+    .insert({
+      entity_type: scope.target.type,
+      entity_id: scope.target.id,
+      anchor_type: anchorValue ? anchorType ?? scope.anchorType ?? null : null,
+      anchor: anchorValue,
+      parent_id: parentId,
+      author_id: authorId,
+      content,
+      tagged_user_ids: taggedUserIds,
+    })
+    .select(COMMENT_SELECT)
+    .single();
+  if (error) throw new Error(error.message);
+  return data as Comment<A>;
+}
+
+/** Returns the edit timestamp */
+export async function editComment(id: string, content: string): Promise<string> {
+  const editedAt = new Date().toISOString();
+  const { error } = await supabase.from('comments').update({ content, edited_at: editedAt }).eq('id', id);
+  if (error) throw new Error(error.message);
+  return editedAt;
+}
+
+export async function deleteComment(id: string): Promise<void> {
+  const { error } = await supabase.from('comments').delete().eq('id', id);
+  if (error) throw new Error(error.message);
+}
+
+/** Remove every comment of an entity (e.g. before deleting it permanently) */
+export async function deleteEntityComments(target: CommentTarget): Promise<void> {
+  const { error } = await supabase.from('comments').delete().eq('entity_type', target.type).eq('entity_id', target.id);
+  if (error) throw new Error(error.message);
+}
+
+export interface NumberedPin extends ImagePin {
+  commentId: string;
+  /** 1-based, in order of creation per image */
+  number: number;
+  resolved: boolean;
+}
+
+export function isImagePin(anchor: unknown): anchor is ImageAnchor & ImagePin {
+  const a = anchor as Partial<ImageAnchor> | null;
+  return typeof a?.x === 'number' && typeof a?.y === 'number';
+}
+
+/** Pins of one image (thread roots with coordinates), numbered in order of creation */
+export function imagePins(
+  comments: Pick<Comment, 'id' | 'parent_id' | 'anchor_type' | 'anchor' | 'created_at' | 'resolved_at'>[],
+  image: Pick<ImageAnchor, 'gallery' | 'index'>
+): NumberedPin[] {
+  return comments
+    .filter(
+      (c) =>
+        !c.parent_id &&
+        c.anchor_type === 'image' &&
+        isImagePin(c.anchor) &&
+        c.anchor.gallery === image.gallery &&
+        c.anchor.index === image.index
+    )
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+    .map((c, i) => {
+      const { x, y, w, h } = c.anchor as ImageAnchor & ImagePin;
+      return { commentId: c.id, number: i + 1, x, y, w, h, resolved: !!c.resolved_at };
+    });
+}
+
+export interface PinNote extends NumberedPin {
+  content: string;
+}
+
+/** Open pins of a product gallery with their remark, per image index (e.g. for the tech pack PDF) */
+export async function fetchGalleryPinNotes(
+  productId: string,
+  gallery: ImageAnchor['gallery']
+): Promise<Record<number, PinNote[]>> {
+  const { data } = await supabase
+    .from('comments')
+    .select('id, parent_id, anchor_type, anchor, content, created_at, resolved_at')
+    .eq('entity_type', 'product')
+    .eq('entity_id', productId)
+    .eq('anchor_type', 'image')
+    .is('parent_id', null)
+    .contains('anchor', { gallery });
+  const rows = (data || []) as Pick<Comment, 'id' | 'parent_id' | 'anchor_type' | 'anchor' | 'content' | 'created_at' | 'resolved_at'>[];
+  const byIndex: Record<number, PinNote[]> = {};
+  for (const index of new Set(rows.filter((r) => isImagePin(r.anchor)).map((r) => (r.anchor as ImageAnchor).index))) {
+    const notes = imagePins(rows, { gallery, index })
+      .map((pin) => ({ ...pin, content: rows.find((r) => r.id === pin.commentId)?.content ?? '' }))
+      .filter((pin) => !pin.resolved);
+    if (notes.length > 0) byIndex[index] = notes;
+  }
+  return byIndex;
+}
+
+export type CommentReview = Pick<Comment, 'resolved_at' | 'resolved_by' | 'is_blocking' | 'assignee_id'>;
+
+export interface CommentReviewPatch {
+  resolved?: boolean;
+  is_blocking?: boolean;
+  assignee_id?: string | null;
+}
+
+/** Changes the review state of a thread root; the database stamps who resolved it and when */
+export async function updateCommentReview(id: string, patch: CommentReviewPatch): Promise<CommentReview> {
+  const update: Partial<CommentReview> = {};
+  if (patch.resolved !== undefined) {
+    update.resolved_at = patch.resolved ? new Date().toISOString() : null;
+    update.resolved_by = patch.resolved ? getUserIdForDb() : null;
+  }
+  if (patch.is_blocking !== undefined) update.is_blocking = patch.is_blocking;
+  if (patch.assignee_id !== undefined) update.assignee_id = patch.assignee_id;
+  const { data, error } = await supabase
+    .from('comments')
+    .update(update)
+    .eq('id', id)
+    .select('resolved_at, resolved_by, is_blocking, assignee_id')
+    .single();
+  if (error) throw new Error(error.message);
+  return data as CommentReview;
+}
+
+/** Root comments to show – resolved threads drop out when hideResolved is set */
+export function visibleThreads<C extends Pick<Comment, 'parent_id' | 'resolved_at'>>(comments: C[], hideResolved: boolean): C[] {
+  return comments.filter((c) => !c.parent_id && !(hideResolved && c.resolved_at));
+}
+
+/** Unresolved blocking threads of a product; they keep it from being marked ready for sampling */
+export async function fetchOpenBlockingCount(productId: string): Promise<number> {
+  const { count } = await supabase
+    .from('comments')
+    .select('id', { count: 'exact', head: true })
+    .eq('entity_type', 'product')
+    .eq('entity_id', productId)
+    .is('parent_id', null)
+    .is('resolved_at', null)
+    .eq('is_blocking', true);
+  return count ?? 0;
+}
+
+/** Unresolved review threads across all products, oldest first */
+export async function fetchOpenProductThreads(): Promise<Comment[]> {
+  const { data } = await supabase
+    .from('comments')
+    .select(COMMENT_SELECT)
+    .eq('entity_type', 'product')
+    .is('parent_id', null)
+    .is('resolved_at', null)
+    .order('created_at', { ascending: true });
+  return (data || []) as Comment[];
+}
+
+/** Adds the reaction, or removes it when the user already reacted with that emoji */
+export async function toggleCommentReaction(comment: Pick<Comment, 'id' | 'reactions'>, userId: string, emoji: string): Promise<void> {
+  const exists = (comment.reactions ?? []).some((r) => r.user_id === userId && r.emoji === emoji);
+  const { error } = exists
+    ? await supabase.from('comment_reactions').delete().eq('comment_id', comment.id).eq('user_id', userId).eq('emoji', emoji)
+    : await supabase.from('comment_reactions').insert({ comment_id: comment.id, user_id: userId, emoji });
+  if (error) throw new Error(error.message);
+}
+
+/** Reactions grouped by emoji, in first-reacted order */
+export function groupReactions(reactions: Pick<CommentReaction, 'user_id' | 'emoji'>[] = []): { emoji: string; userIds: string[] }[] {
+  const groups = new Map<string, string[]>();
+  for (const r of reactions) groups.set(r.emoji, [...(groups.get(r.emoji) ?? []), r.user_id]);
+  return [...groups.entries()].map(([emoji, userIds]) => ({ emoji, userIds }));
+}
+
+export async function markCommentsRead(target: CommentTarget): Promise<void> {
+  const userId = getUserIdForDb();
+  if (!userId) return;
+  await supabase.from('comment_reads').upsert(
+    { user_id: userId, entity_type: target.type, entity_id: target.id, last_read_at: new Date().toISOString() },
+    { onConflict: 'user_id,entity_type,entity_id' }
+  );
+}
+
+/** Comments by others posted after the user last read the entity, per entity id */
+export async function fetchUnreadCommentCounts(entityType: CommentEntityType, entityIds?: string[]): Promise<Record<string, number>> {
+  const userId = getUserIdForDb();
+  if (!userId) return {};
+  let query = supabase
+    .from('comments')
+    .select('entity_id, created_at')
+    .eq('entity_type', entityType)
+    .neq('author_id', userId);
+  if (entityIds) query = query.in('entity_id', entityIds);
+  const [{ data: comments }, { data: reads }] = await Promise.all([
+    query,
+    supabase.from('comment_reads').select('entity_id, last_read_at').eq('user_id', userId).eq('entity_type', entityType),
+  ]);
+  const readMap = new Map(
+    (reads || []).map((r: { entity_id: string; last_read_at: string }) => [r.entity_id, new Date(r.last_read_at)])
+  );
+  const counts: Record<string, number> = {};
+  for (const c of (comments || []) as { entity_id: string; created_at: string }[]) {
+    const readAt = readMap.get(c.entity_id);
+    if (!readAt || new Date(c.created_at) > readAt) counts[c.entity_id] = (counts[c.entity_id] || 0) + 1;
+  }
+  return counts;
+}
+
+/** Number of threads (root comments) per entity id */
+export async function fetchCommentCounts(entityType: CommentEntityType, entityIds: string[]): Promise<Record<string, number>> {
+  if (entityIds.length === 0) return {};
+  const { data } = await supabase
+    .from('comments')
+    .select('entity_id')
+    .eq('entity_type', entityType)
+    .in('entity_id', entityIds)
+    .is('parent_id', null);
+  const counts: Record<string, number> = {};
+  (data || []).forEach((r: { entity_id: string }) => {
+    counts[r.entity_id] = (counts[r.entity_id] || 0) + 1;
+  });
+  return counts;
+}
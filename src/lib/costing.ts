@@ -0,0 +1,159 @@
+import type { ProductWithMaterials } from '../components/ProductSlideOver';
+import { convertCurrency } from './currency';
+import { computeSizeCosts, weightedAverage } from './sizeRun';
+import { resolveVariantBom, sortVariants, variantSku, type ProductVariant } from './productVariants';
+
+/**
+ * Product costing: BOM cost + labor/overhead → COGS → retail price via the markup multiplier.
+ * Figures are kept in the BOM currency of the product and converted into the base currency.
+ */
+
+/** Converts between currencies – the live rates by default, scenario rates when simulating */
+export type CurrencyConverter = (amount: number, from: string, to: string) => number;
+
+// ── Per-size costing (only when the product has a size run), in the base currency ──
+export interface SizeCostingRow {
+  size: string;
+  materialCost: number;
+  totalCOGS: number;
+  retailPrice: number;
+}
+
+// ── Costing row derived from product + linked materials ──────
+export interface CostingRow {
+  id: string;
+  name: string;
+  sku: string | null;
+  category: string | null;
+  status: string;
+  materialCost: number;
+  laborCost: number;
+  overheadCost: number;
+  laborOverheadCurrency: string;
+  /** Labor + overhead converted into the row currency */
+  laborOverheadCost: number;
+  totalCOGS: number;
+  markupMultiplier: number;
+  retailPrice: number;
+  breakEvenPrice: number;
+  profitPerUnit: number;
+  currency: string;
+  materialCostBase: number;
+  totalCOGSBase: number;
+  retailPriceBase: number;
+  profitPerUnitBase: number;
+  sizeCosts: SizeCostingRow[];
+  /** Weighted by the planned size ratio, in the base currency; null without a size run */
+  weightedCOGSBase: number | null;
+  weightedRetailPriceBase: number | null;
+  /** Same weighted figures in the row currency */
+  weightedCOGS: number | null;
+  weightedRetailPrice: number | null;
+}
+
+export function computeCostingRow(
+  p: ProductWithMaterials,
+  baseCurrency: string,
+  convert: CurrencyConverter = convertCurrency
+): CostingRow {
+  // Sum material costs: consumption * price_per_unit for each linked material
+  let materialCost = 0;
+  let materialCostBase = 0;
+  let currency = 'EUR';
+
+  if (p.product_materials && p.product_materials.length > 0) {
+    for (const pm of p.product_materials) {
+      if (pm.material) {
+        const lineCost = pm.consumption_amount * (pm.material.price_per_unit || 0);
+        const curr = pm.material.currency || currency;
+        materialCost += lineCost;
+        materialCostBase += convert(lineCost, curr, baseCurrency);
+        currency = curr;
+      }
+    }
+  }
+  // Components (buttons, zippers…) count towards the BOM cost as well
+  for (const pc of p.product_components ?? []) {
+    if (pc.component) {
+      const lineCost = pc.quantity * (pc.component.price_per_unit || 0);
+      materialCost += lineCost;
+      materialCostBase += convert(lineCost, pc.component.currency || currency, baseCurrency);
+    }
+  }
+
+  const laborCost = p.labor_cost ?? 0;
+  const overheadCost = p.overhead_cost ?? 0;
+  // Labor and overhead carry their own currency (product-level costs)
+  const laborOverheadCurrency = p.labor_overhead_currency || 'CZK';
+  const laborOverheadCost = convert(laborCost + overheadCost, laborOverheadCurrency, currency);
+  const totalCOGS = materialCost + laborOverheadCost;
+  const laborOverheadCostBase = convert(laborCost + overheadCost, laborOverheadCurrency, baseCurrency);
+  const totalCOGSBase = materialCostBase + laborOverheadCostBase;
+  const markupMultiplier = p.markup_multiplier ?? 2.5;
+  const retailPrice = totalCOGS * markupMultiplier;
+  const retailPriceBase = totalCOGSBase * markupMultiplier;
+  const breakEvenPrice = totalCOGS;
+  const profitPerUnit = retailPrice - totalCOGS;
+  const profitPerUnitBase = retailPriceBase - totalCOGSBase;
+
+  const sizeRun = p.size_run ?? [];
+  const sizeCosts: SizeCostingRow[] = computeSizeCosts(p, baseCurrency, convert).map((sc) => {
+    const sizeCOGS = sc.materialCost + laborOverheadCostBase;
+    return {
+      size: sc.size,
+      materialCost: sc.materialCost,
+      totalCOGS: sizeCOGS,
+      retailPrice: sizeCOGS * markupMultiplier,
+    };
+  });
+  const weightedCOGSBase =
+    sizeCosts.length > 0
+      ? weightedAverage(Object.fromEntries(sizeCosts.map((sc) => [sc.size, sc.totalCOGS])), sizeRun, p.size_ratio)
+      : null;
+  const weightedCOGS = weightedCOGSBase != null ? convert(weightedCOGSBase, baseCurrency, currency) : null;
+
+  return {
+    id: p.id,
+    name: p.name,
+    sku: p.sku,
+    category: p.category,
+    status: p.status,
+    materialCost,
+    laborCost,
+    overheadCost,
+    laborOverheadCurrency,
+    laborOverheadCost,
+    totalCOGS,
+    markupMultiplier,
+    retailPrice,
+    breakEvenPrice,
+    profitPerUnit,
+    currency,
+    materialCostBase,
+    totalCOGSBase,
+    retailPriceBase,
+    profitPerUnitBase,
+    sizeCosts,
+    weightedCOGSBase,
+    weightedRetailPriceBase: weightedCOGSBase != null ? weightedCOGSBase * markupMultiplier : null,
+    weightedCOGS,
+    weightedRetailPrice: weightedCOGS != null ? weightedCOGS * markupMultiplier : null,
+  };
+}
+
+// ── Per-variant costing (variant overrides replace base BOM lines) ──
+export interface VariantCostingRow extends CostingRow {
+  variant: ProductVariant;
+}
+
+export function computeVariantCostingRows(
+  p: ProductWithMaterials,
+  baseCurrency: string,
+  convert: CurrencyConverter = convertCurrency
+): VariantCostingRow[] {
+  return sortVariants(p.product_variants).map((variant) => ({
+    ...computeCostingRow(resolveVariantBom(p, variant.id), baseCurrency, convert),
+    sku: variantSku(p.sku, variant) || null,
+    variant,
+  }));
+}
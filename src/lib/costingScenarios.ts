@@ -0,0 +1,164 @@
+import { supabase } from './supabase';
+import { getUserIdForDb } from '../stores/authStore';
+import type { ProductWithMaterials } from '../components/ProductSlideOver';
+import { rateOn } from './currency';
+import { computeCostingRow, type CostingRow, type CurrencyConverter } from './costing';
+
+/**
+ * Costing scenarios – "what if" overrides on top of the live costing.
+ * Per-product overrides win over global ones, which win over the product's own values.
+ * Comparison figures are in the base currency so products with different BOM currencies
+ * (and changed exchange rates) stay comparable.
+ */
+
+export interface CostOverride {
+  labor_cost?: number | null;
+  overhead_cost?: number | null;
+  markup_multiplier?: number | null;
+  /** Percentage change applied to all BOM prices (materials + components), e.g. 10 = +10 % */
+  material_price_pct?: number | null;
+}
+
+export interface ScenarioOverrides {
+  global: CostOverride;
+  /** product_id → override */
+  products: Record<string, CostOverride>;
+  /** material_id → price per unit in the material's currency */
+  material_prices: Record<string, number>;
+  /** currency → CZK per 1 unit (replaces the live rate) */
+  fx_rates: Record<string, number>;
+}
+
+/** Comparison figures in the base currency */
+export interface ScenarioFigures {
+  totalCOGS: number;
+  retailPrice: number;
+  profitPerUnit: number;
+  /** Profit / retail price in % */
+  margin: number;
+}
+
+export interface ScenarioComparisonRow {
+  product_id: string;
+  name: string;
+  sku: string | null;
+  current: ScenarioFigures;
+  scenario: ScenarioFigures;
+}
+
+export interface ScenarioSnapshot {
+  base_currency: string;
+  rows: ScenarioComparisonRow[];
+}
+
+export interface CostingScenario {
+  id: string;
+  name: string;
+  description: string | null;
+  overrides: ScenarioOverrides;
+  snapshot: ScenarioSnapshot | null;
+  snapshot_of: string | null;
+  snapshotted_at: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export const EMPTY_OVERRIDES: ScenarioOverrides = { global: {}, products: {}, material_prices: {}, fx_rates: {} };
+
+/** jsonb from the DB may miss keys (older rows, hand edits) */
+export function normalizeOverrides(raw: Partial<ScenarioOverrides> | null | undefined): ScenarioOverrides {
+  return {
+    global: raw?.global ?? {},
+    products: raw?.products ?? {},
+    material_prices: raw?.material_prices ?? {},
+    fx_rates: raw?.fx_rates ?? {},
+  };
+}
+
+/** Live rates, except for currencies the scenario fixes */
+export function scenarioConverter(fxRates: Record<string, number>): CurrencyConverter {
+  const rate = (c: string) => (c === 'CZK' ? 1 : fxRates[c] ?? rateOn(c));
+  return (amount, from, to) => (!from || from === to ? amount : (amount * rate(from)) / rate(to || 'CZK'));
+}
+
+const pick = (override: CostOverride | undefined, global: CostOverride, key: keyof CostOverride) =>
+  override?.[key] ?? global[key] ?? null;
+
+/** Product with the scenario's prices, labor, overhead and markup applied */
+export function applyOverrides(product: ProductWithMaterials, overrides: ScenarioOverrides): ProductWithMaterials {
+  const own = overrides.products[product.id];
+  const pct = pick(own, overrides.global, 'material_price_pct') ?? 0;
+  const factor = 1 + pct / 100;
+
+  return {
+    ...product,
+    labor_cost: pick(own, overrides.global, 'labor_cost') ?? product.labor_cost,
+    overhead_cost: pick(own, overrides.global, 'overhead_cost') ?? product.overhead_cost,
+    markup_multiplier: pick(own, overrides.global, 'markup_multiplier') ?? product.markup_multiplier,
+    product_materials: (product.product_materials ?? []).map((pm) =>
+      pm.material
+        ? {
+            ...pm,
+            material: {
+              ...pm.material,
+              price_per_unit: overrides.material_prices[pm.material.id] ?? (pm.material.price_per_unit || 0) * factor,
+            },
+          }
+        : pm
+    ),
+    product_components: (product.product_components ?? []).map((pc) =>
+      pc.component
+        ? { ...pc, component: { ...pc.component, price_per_unit: (pc.component.price_per_unit || 0) * factor } }
+        : pc
+    ),
+  };
+}
+
+export function figuresOf(row: CostingRow): ScenarioFigures {
+  return {
+    totalCOGS: row.totalCOGSBase,
+    retailPrice: row.retailPriceBase,
+    profitPerUnit: row.profitPerUnitBase,
+    margin: row.retailPriceBase > 0 ? (row.profitPerUnitBase / row.retailPriceBase) * 100 : 0,
+  };
+}
+
+/** Current vs scenario costing for every product */
+export function compareScenario(
+  products: ProductWithMaterials[],
+  overrides: ScenarioOverrides,
+  baseCurrency: string
+): ScenarioComparisonRow[] {
+  const convert = scenarioConverter(overrides.fx_rates);
+  return products.map((p) => ({
+    product_id: p.id,
+    name: p.name,
+    sku: p.sku,
+    current: figuresOf(computeCostingRow(p, baseCurrency)),
+    scenario: figuresOf(computeCostingRow(applyOverrides(p, overrides), baseCurrency, convert)),
+  }));
+}
+
+/**
+ * Freeze a scenario: stores a read-only copy with the comparison as computed right now.
+ * The live scenario stays editable. Returns the Supabase error message or null.
+ */
+export async function snapshotScenario(
+  scenario: CostingScenario,
+  rows: ScenarioComparisonRow[],
+  baseCurrency: string,
+  name: string
+): Promise<string | null> {
+  const snapshot: ScenarioSnapshot = { base_currency: baseCurrency, rows };
+  const { error } = await supabase.from('costing_scenarios').insert({
+    name,
+    description: scenario.description,
+    overrides: scenario.overrides,
+    snapshot,
+    snapshot_of: scenario.id,
+    snapshotted_at: new Date().toISOString(),
+    created_by: getUserIdForDb(),
+  });
+  return error ? error.message : null;
+}
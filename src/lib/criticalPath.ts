@@ -0,0 +1,162 @@
+import type { ProductWithMaterials } from '../components/ProductSlideOver';
+import type { SampleRound } from './sampleRounds';
+import type { ProductionOrderStatus } from './productionOrders';
+
+/**
+ * Critical path per product: design freeze → sampling → SMS approval → bulk order → delivery.
+ * Dates are scheduled back from the delivery date (the collection drop): bulk production
+ * needs the material suppliers' and the factory's lead times, the earlier milestones fixed
+ * spans. A manual date on a milestone re-anchors every milestone before it.
+ */
+
+export const MILESTONES = ['design_freeze', 'sampling', 'sms_approval', 'bulk_order', 'delivery'] as const;
+export type Milestone = (typeof MILESTONES)[number];
+
+/** Days from a milestone to the next one (bulk order → delivery comes from lead times) */
+export const MILESTONE_SPAN_DAYS: Record<Exclude<Milestone, 'bulk_order' | 'delivery'>, number> = {
+  design_freeze: 14,
+  sampling: 21,
+  sms_approval: 7,
+};
+
+/** Used when the factory / material suppliers have no lead_time_days */
+export const DEFAULT_FACTORY_LEAD_DAYS = 45;
+export const DEFAULT_MATERIAL_LEAD_DAYS = 30;
+
+export interface ProductMilestone {
+  id: string;
+  product_id: string;
+  milestone: Milestone;
+  due_date: string | null;
+  completed_at: string | null;
+  task_id: string | null;
+  notes: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface LeadTimes {
+  factoryDays: number | null;
+  materialDays: number | null;
+}
+
+export interface ScheduledMilestone {
+  milestone: Milestone;
+  /** ISO date, null when nothing anchors the schedule */
+  date: string | null;
+  /** False when the date was set manually */
+  derived: boolean;
+  done: boolean;
+  /** Completion date when known */
+  completedAt: string | null;
+  late: boolean;
+  row: ProductMilestone | null;
+}
+
+/** Completion detected from other records; a date when known */
+export type MilestoneCompletion = Partial<Record<Milestone, string | true>>;
+
+export function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+export function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86_400_000);
+}
+
+export function todayIso(): string {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+}
+
+/** Longest lead time among the suppliers of the product's materials and components */
+export function materialLeadDays(product: ProductWithMaterials, leadBySupplier: Map<string, number | null>): number | null {
+  const supplierIds = [
+    ...(product.product_materials ?? []).map((pm) => pm.material?.supplier_id),
+    ...(product.product_components ?? []).map((pc) => pc.component?.supplier_id),
+  ].filter((id): id is string => !!id);
+  const leads = supplierIds.map((id) => leadBySupplier.get(id)).filter((d): d is number => d != null);
+  return leads.length > 0 ? Math.max(...leads) : null;
+}
+
+/** Days from placing the bulk order to delivery */
+export function bulkLeadDays(leads: LeadTimes): number {
+  return (leads.materialDays ?? DEFAULT_MATERIAL_LEAD_DAYS) + (leads.factoryDays ?? DEFAULT_FACTORY_LEAD_DAYS);
+}
+
+/**
+ * Milestones a product has reached according to its sample rounds and production orders
+ * (design freeze once it left concept, sampling once a sample was sent, …).
+ */
+export function detectCompletion(
+  product: Pick<ProductWithMaterials, 'status'>,
+  rounds: Pick<SampleRound, 'stage' | 'sent_at' | 'received_at' | 'verdict'>[],
+  orders: { status: ProductionOrderStatus; start_date: string | null; target_date: string | null }[]
+): MilestoneCompletion {
+  const done: MilestoneCompletion = {};
+  if (product.status !== 'concept') done.design_freeze = true;
+  const sent = rounds.map((r) => r.sent_at).filter((d): d is string => !!d).sort();
+  if (sent.length > 0) done.sampling = sent[0];
+  const sms = rounds.find((r) => r.stage === 'sms' && r.verdict === 'approved');
+  if (sms) done.sms_approval = sms.received_at ?? true;
+  const placed = orders.filter((o) => o.status === 'confirmed' || o.status === 'in_production' || o.status === 'completed');
+  if (placed.length > 0) done.bulk_order = placed.map((o) => o.start_date).filter(Boolean).sort()[0] ?? true;
+  const delivered = orders.find((o) => o.status === 'completed');
+  if (delivered) done.delivery = delivered.target_date ?? true;
+  return done;
+}
+
+/**
+ * Schedule a product's milestones back from `deliveryDate`. Manual dates (`rows[].due_date`)
+ * win and anchor the milestones before them; completion comes from the rows, from
+ * `completion` (detected) and from finished linked tasks.
+ */
+export function scheduleMilestones(
+  deliveryDate: string | null,
+  leads: LeadTimes,
+  rows: ProductMilestone[],
+  completion: MilestoneCompletion = {},
+  completedTaskIds: Set<string> = new Set(),
+  today: string = todayIso()
+): ScheduledMilestone[] {
+  const rowBy = new Map(rows.map((r) => [r.milestone, r]));
+  const scheduled: ScheduledMilestone[] = [];
+  let next: string | null = null;
+
+  for (let i = MILESTONES.length - 1; i >= 0; i--) {
+    const milestone = MILESTONES[i];
+    const row = rowBy.get(milestone) ?? null;
+    let date: string | null;
+    if (row?.due_date) date = row.due_date;
+    else if (milestone === 'delivery') date = deliveryDate;
+    else if (!next) date = null;
+    else if (milestone === 'bulk_order') date = addDays(next, -bulkLeadDays(leads));
+    else date = addDays(next, -MILESTONE_SPAN_DAYS[milestone]);
+
+    const detected = completion[milestone];
+    const taskDone = !!row?.task_id && completedTaskIds.has(row.task_id);
+    const done = !!row?.completed_at || !!detected || taskDone;
+    const completedAt = row?.completed_at ?? (typeof detected === 'string' ? detected : null);
+
+    scheduled.unshift({
+      milestone,
+      date,
+      derived: !row?.due_date,
+      done,
+      completedAt,
+      late: !!date && (done ? !!completedAt && completedAt > date : date < today),
+      row,
+    });
+    next = date;
+  }
+  return scheduled;
+}
+
+/** Earliest and latest scheduled dates over all products (for the Gantt axis) */
+export function scheduleRange(schedules: ScheduledMilestone[][]): { from: string; to: string } | null {
+  const dates = schedules.flatMap((s) => s.flatMap((m) => [m.date, m.completedAt])).filter((d): d is string => !!d).sort();
+  return dates.length > 0 ? { from: dates[0], to: dates[dates.length - 1] } : null;
+}
@@ -1,23 +1,44 @@
 import { useState, useEffect } from 'react';
+import { supabase } from './supabase';
+import { useWorkspaceStore } from '../stores/workspaceStore';
 
 /**
- * Currency utilities – CZK/EUR/USD support with conversion to CZK.
- * Uses Frankfurter API when available, fallback to approximate rates.
+ * Currency utilities – conversion into the workspace base currency.
+ * Latest rates come from the Frankfurter API (fallback to approximate rates). Daily rates are
+ * persisted in `exchange_rates` (CZK per 1 unit – CZK is only the pivot), so amounts can be
+ * converted at the rate valid on a given date – e.g. an order at its order_date.
  */
 
-export const CURRENCIES = ['CZK', 'EUR', 'USD'] as const;
+export const CURRENCIES = ['CZK', 'EUR', 'USD', 'GBP', 'CHF', 'PLN'] as const;
 export type Currency = (typeof CURRENCIES)[number];
 
+/** Currencies quoted against CZK (everything except CZK itself) */
+const FOREIGN_CURRENCIES = CURRENCIES.filter((c) => c !== 'CZK');
+
 // Fallback rates (approximate) when API is unavailable
 const FALLBACK_RATES: Record<string, number> = {
   EUR: 25,
   USD: 23,
+  GBP: 29,
+  CHF: 26,
+  PLN: 5.8,
 };
 
 let cachedRates: Record<string, number> = { ...FALLBACK_RATES };
 let lastFetch = 0;
 const CACHE_MS = 60 * 60 * 1000; // 1 hour
 
+/** Stored daily rates per currency, sorted by date ascending */
+const rateHistory = new Map<string, { date: string; rate: number }[]>();
+/** Earliest date the history has been loaded from (null = not loaded yet) */
+let historyLoadedFrom: string | null = null;
+
+export interface ExchangeRateRow {
+  rate_date: string;
+  currency: string;
+  rate: number;
+}
+
 /** AbortSignal with timeout – polyfill for older Electron/Chromium */
 function timeoutSignal(ms: number): AbortSignal {
   if (typeof AbortSignal !== 'undefined' && 'timeout' in AbortSignal && typeof AbortSignal.timeout === 'function') {
@@ -28,66 +49,305 @@ function timeoutSignal(ms: number): AbortSignal {
   return ctrl.signal;
 }
 
+/** Frankfurter quotes per EUR; turn one day of quotes into CZK per 1 unit. */
+function czkRatesFromEurQuotes(quotes: Record<string, number>): Record<string, number> {
+  const czkPerEur = quotes.CZK;
+  if (!czkPerEur) return {};
+  const rates: Record<string, number> = { EUR: czkPerEur };
+  for (const c of FOREIGN_CURRENCIES) {
+    if (c !== 'EUR' && quotes[c]) rates[c] = czkPerEur / quotes[c];
+  }
+  return rates;
+}
+
+function mergeHistory(rows: ExchangeRateRow[]) {
+  const touched = new Set<string>();
+  for (const r of rows) {
+    const list = rateHistory.get(r.currency) ?? [];
+    const idx = list.findIndex((e) => e.date === r.rate_date);
+    if (idx >= 0) list[idx] = { date: r.rate_date, rate: Number(r.rate) };
+    else list.push({ date: r.rate_date, rate: Number(r.rate) });
+    rateHistory.set(r.currency, list);
+    touched.add(r.currency);
+  }
+  touched.forEach((c) => rateHistory.get(c)!.sort((a, b) => a.date.localeCompare(b.date)));
+}
+
+/** Upsert rates into exchange_rates and the in-memory history. Returns the Supabase error message or null. */
+export async function storeRates(rows: ExchangeRateRow[], source: 'frankfurter' | 'import'): Promise<string | null> {
+  if (rows.length === 0) return null;
+  mergeHistory(rows);
+  for (let i = 0; i < rows.length; i += 500) {
+    const { error } = await supabase
+      .from('exchange_rates')
+      .upsert(rows.slice(i, i + 500).map((r) => ({ ...r, source })), { onConflict: 'rate_date,currency' });
+    if (error) return error.message;
+  }
+  return null;
+}
+
 export async function fetchExchangeRates(): Promise<Record<string, number>> {
   try {
     const res = await fetch(
-      'https://api.frankfurter.dev/v1/latest?base=EUR&symbols=CZK',
+      `https://api.frankfurter.dev/v1/latest?base=EUR&symbols=${['CZK', ...FOREIGN_CURRENCIES.filter((c) => c !== 'EUR')].join(',')}`,
       { signal: timeoutSignal(5000) }
     );
     if (!res.ok) throw new Error('Fetch failed');
     const data = await res.json();
-    if (data.rates?.CZK) cachedRates.EUR = data.rates.CZK;
+    const rates = czkRatesFromEurQuotes(data.rates ?? {});
+    cachedRates = { ...cachedRates, ...rates };
+    if (data.date) {
+      await storeRates(
+        Object.entries(rates).map(([currency, rate]) => ({ rate_date: data.date, currency, rate })),
+        'frankfurter'
+      );
+    }
   } catch {
     // keep fallback
   }
 
+  lastFetch = Date.now();
+  return { ...cachedRates };
+}
+
+/** Backfill daily rates for a date range from Frankfurter (time series endpoint). */
+async function fetchRateSeries(from: string, to: string): Promise<void> {
   try {
     const res = await fetch(
-      'https://api.frankfurter.dev/v1/latest?base=USD&symbols=CZK',
-      { signal: timeoutSignal(5000) }
+      `https://api.frankfurter.dev/v1/${from}..${to}?base=EUR&symbols=${['CZK', ...FOREIGN_CURRENCIES.filter((c) => c !== 'EUR')].join(',')}`,
+      { signal: timeoutSignal(15000) }
     );
     if (!res.ok) throw new Error('Fetch failed');
     const data = await res.json();
-    if (data.rates?.CZK) cachedRates.USD = data.rates.CZK;
+    const rows: ExchangeRateRow[] = [];
+    for (const [date, quotes] of Object.entries((data.rates ?? {}) as Record<string, Record<string, number>>)) {
+      for (const [currency, rate] of Object.entries(czkRatesFromEurQuotes(quotes))) {
+        rows.push({ rate_date: date, currency, rate });
+      }
+    }
+    await storeRates(rows, 'frankfurter');
   } catch {
-    // keep fallback
+    // offline – stored / imported rates are used
   }
+}
 
-  lastFetch = Date.now();
-  return { ...cachedRates };
+function shiftDate(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000);
+
+/** Longer runs without a rate than weekends and holidays (e.g. Easter) mean days nobody stored */
+const MAX_RATE_GAP_DAYS = 5;
+
+/** Date ranges between `from` and `to` without stored rates; `dates` ascending */
+function missingRateRanges(dates: string[], from: string, to: string): [string, string][] {
+  if (dates.length === 0) return [[from, to]];
+  const ranges: [string, string][] = [];
+  if (daysBetween(from, dates[0]) > MAX_RATE_GAP_DAYS) ranges.push([from, shiftDate(dates[0], -1)]);
+  for (let i = 1; i < dates.length; i++) {
+    if (daysBetween(dates[i - 1], dates[i]) > MAX_RATE_GAP_DAYS) {
+      ranges.push([shiftDate(dates[i - 1], 1), shiftDate(dates[i], -1)]);
+    }
+  }
+  const last = dates[dates.length - 1];
+  if (daysBetween(last, to) > MAX_RATE_GAP_DAYS) ranges.push([shiftDate(last, 1), to]);
+  return ranges;
+}
+
+/**
+ * Load stored rates from `fromDate` on; when online, ranges the table does not cover (before the
+ * first stored day, or days nobody opened the app) are fetched from Frankfurter and persisted.
+ */
+export async function loadRateHistory(fromDate: string): Promise<void> {
+  // a week of slack so weekends/holidays at the start fall back to the previous business day
+  const from = shiftDate(fromDate, -7);
+  if (historyLoadedFrom && historyLoadedFrom <= from) return;
+
+  const rows: ExchangeRateRow[] = [];
+  const PAGE = 1000;
+  for (let offset = 0; ; offset += PAGE) {
+    const { data, error } = await supabase
+      .from('exchange_rates')
+      .select('rate_date, currency, rate')
+      .gte('rate_date', from)
+      .order('rate_date')
+      .range(offset, offset + PAGE - 1);
+    if (error || !data) break;
+    rows.push(...(data as ExchangeRateRow[]));
+    if (data.length < PAGE) break;
+  }
+  mergeHistory(rows);
+
+  const dates = [...new Set(rows.map((r) => r.rate_date))];
+  for (const [gapFrom, gapTo] of missingRateRanges(dates, from, new Date().toISOString().slice(0, 10))) {
+    await fetchRateSeries(gapFrom, gapTo);
+  }
+  historyLoadedFrom = from;
+}
+
+/**
+ * CZK per 1 unit valid on `date` (last known business day on or before it, the earliest stored
+ * rate before history starts); latest rate without a date. Without any stored history the latest
+ * rate is only an approximation – see isRateApproximate.
+ */
+export function rateOn(currency: string, date?: string | null): number {
+  const latest = cachedRates[currency] ?? FALLBACK_RATES[currency] ?? 1;
+  if (!date) return latest;
+  const list = rateHistory.get(currency);
+  if (!list || list.length === 0) return latest;
+  const day = date.slice(0, 10);
+  let lo = 0;
+  let hi = list.length - 1;
+  let found = -1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (list[mid].date <= day) {
+      found = mid;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return found >= 0 ? list[found].rate : list[0].rate;
+}
+
+/** True when a dated conversion of `currency` has no stored rate to use (offline, failed backfill) */
+export function isRateApproximate(currency: string, date?: string | null): boolean {
+  if (!date || !currency || currency === 'CZK') return false;
+  return !rateHistory.get(currency)?.length;
+}
+
+/** Latest stored rate per currency (for display) */
+export function latestStoredRates(): ExchangeRateRow[] {
+  return [...rateHistory.entries()]
+    .filter(([, list]) => list.length > 0)
+    .map(([currency, list]) => ({ currency, rate_date: list[list.length - 1].date, rate: list[list.length - 1].rate }));
+}
+
+function parseCsvDate(value: string): string | null {
+  const v = value.trim();
+  if (/^\d{4}-\d{2}-\d{2}$/.test(v)) return v;
+  const m = v.match(/^(\d{1,2})\.\s?(\d{1,2})\.\s?(\d{4})$/);
+  if (m) return `${m[3]}-${m[2].padStart(2, '0')}-${m[1].padStart(2, '0')}`;
+  return null;
+}
+
+/**
+ * Parse a rates CSV for offline backfill. Expected header: date,currency,rate[,amount]
+ * (rate = CZK per `amount` units, amount defaults to 1). Separators `,` `;` or tab;
+ * decimal comma is accepted with `;`/tab. Dates as YYYY-MM-DD or DD.MM.YYYY.
+ */
+export function parseRatesCsv(text: string): { rows: ExchangeRateRow[]; errors: number[] } {
+  const lines = text.split(/\r?\n/).filter((l) => l.trim());
+  if (lines.length === 0) return { rows: [], errors: [] };
+  const sep = lines[0].includes('\t') ? '\t' : lines[0].includes(';') ? ';' : ',';
+  const header = lines[0].split(sep).map((h) => h.trim().toLowerCase());
+  const col = {
+    date: header.findIndex((h) => h === 'date' || h === 'rate_date'),
+    currency: header.findIndex((h) => h === 'currency' || h === 'code'),
+    rate: header.findIndex((h) => h === 'rate'),
+    amount: header.findIndex((h) => h === 'amount'),
+  };
+  if (col.date < 0 || col.currency < 0 || col.rate < 0) return { rows: [], errors: [1] };
+
+  const num = (v: string | undefined) => parseFloat((v ?? '').trim().replace(/\s/g, '').replace(',', '.'));
+  const rows: ExchangeRateRow[] = [];
+  const errors: number[] = [];
+  lines.slice(1).forEach((line, idx) => {
+    const cells = line.split(sep);
+    const date = parseCsvDate(cells[col.date] ?? '');
+    const currency = (cells[col.currency] ?? '').trim().toUpperCase();
+    const amount = col.amount >= 0 ? num(cells[col.amount]) || 1 : 1;
+    const rate = num(cells[col.rate]) / amount;
+    if (!date || !/^[A-Z]{3}$/.test(currency) || currency === 'CZK' || !(rate > 0)) {
+      errors.push(idx + 2);
+      return;
+    }
+    rows.push({ rate_date: date, currency, rate });
+  });
+  return { rows, errors };
 }
 
 export function getRates(): Record<string, number> {
   return { ...cachedRates };
 }
 
-/** Convert amount to CZK. Returns amount unchanged if currency is CZK. */
-export function convertToCzk(amount: number, currency: string): number {
+/**
+ * Convert amount to CZK, at the rate valid on `date` when given (latest rate otherwise).
+ * Returns amount unchanged if currency is CZK.
+ */
+export function convertToCzk(amount: number, currency: string, date?: string | null): number {
   if (!currency || currency === 'CZK') return amount;
-  const rate = cachedRates[currency] ?? FALLBACK_RATES[currency] ?? 1;
-  return amount * rate;
+  return amount * rateOn(currency, date);
+}
+
+/** Convert between two supported currencies (via CZK, at the rates valid on `date` when given). */
+export function convertCurrency(amount: number, from: string, to: string, date?: string | null): number {
+  if (!from || from === to) return amount;
+  return convertToCzk(amount, from, date) / convertToCzk(1, to || 'CZK', date);
+}
+
+/** Workspace base currency – all summaries and totals are converted into it. */
+export function getBaseCurrency(): string {
+  return useWorkspaceStore.getState().baseCurrency;
+}
+
+/** Subscribe a component to base currency changes. */
+export function useBaseCurrency(): string {
+  return useWorkspaceStore((s) => s.baseCurrency);
+}
+
+/** Convert amount into the base currency (at the rate valid on `date` when given). */
+export function convertToBase(amount: number, currency: string, date?: string | null): number {
+  return convertCurrency(amount, currency || 'EUR', getBaseCurrency(), date);
+}
+
+/** Base-currency amount for summaries, e.g. "12 345,00 EUR" ("≈ 12 345,00 EUR" when approximate) */
+export function formatBaseAmount(amount: number, approximate = false): string {
+  return `${approximate ? '≈ ' : ''}${amount.toLocaleString('cs-CZ', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ${getBaseCurrency()}`;
 }
 
-/** Format price with optional CZK conversion. */
-export function formatPriceWithCzk(
+/** True when converting `currency` into the base currency on `date` falls back to the latest rate */
+export function isBaseConversionApproximate(currency: string, date?: string | null): boolean {
+  return isRateApproximate(currency || 'EUR', date) || isRateApproximate(getBaseCurrency(), date);
+}
+
+/** Amount converted into the base currency on `date`, marked approximate when no stored rate covers it */
+export function formatInBase(amount: number, currency: string, date?: string | null): string {
+  return formatBaseAmount(convertToBase(amount, currency, date), isBaseConversionApproximate(currency, date));
+}
+
+/** Format price with optional conversion into the base currency. */
+export function formatPriceWithBase(
   amount: number,
   currency: string,
   unit?: string,
-  showCzkWhenNotCzk = true
-): { primary: string; czk?: string } {
-  const primary = `${amount.toFixed(2)} ${currency}${unit ? `/${unit}` : ''}`;
-  const czk =
-    showCzkWhenNotCzk &&
-    currency !== 'CZK' &&
+  showBaseWhenDifferent = true
+): { primary: string; base?: string } {
+  const baseCurrency = getBaseCurrency();
+  const suffix = unit ? `/${unit}` : '';
+  const primary = `${amount.toFixed(2)} ${currency}${suffix}`;
+  const base =
+    showBaseWhenDifferent &&
+    currency !== baseCurrency &&
     (CURRENCIES as readonly string[]).includes(currency)
-      ? `${convertToCzk(amount, currency).toFixed(2)} CZK${unit ? `/${unit}` : ''}`
+      ? `${convertToBase(amount, currency).toFixed(2)} ${baseCurrency}${suffix}`
       : undefined;
-  return { primary, czk };
+  return { primary, base };
 }
 
-export function useExchangeRates() {
+/**
+ * Latest rates; pass `historyFrom` (earliest date that needs converting) to also load the
+ * stored daily rates from that date on. `historyVersion` changes whenever history was loaded.
+ */
+export function useExchangeRates(historyFrom?: string | null) {
   const [rates, setRates] = useState<Record<string, number>>(getRates);
   const [loading, setLoading] = useState(false);
+  const [historyVersion, setHistoryVersion] = useState(0);
 
   useEffect(() => {
     if (Date.now() - lastFetch < CACHE_MS) return;
@@ -97,5 +357,18 @@ export function useExchangeRates() {
       .finally(() => setLoading(false));
   }, []);
 
-  return { rates, loading, convertToCzk };
+  useEffect(() => {
+    if (!historyFrom) return;
+    let cancelled = false;
+    loadRateHistory(historyFrom).then(() => {
+      if (!cancelled) setHistoryVersion((v) => v + 1);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [historyFrom]);
+
+  const baseCurrency = useBaseCurrency();
+
+  return { rates, loading, convertToBase, baseCurrency, historyVersion };
 }
@@ -0,0 +1,75 @@
+import type { SizeValues } from './sizeRun';
+import type { SampleMeasurement } from './sampleRounds';
+
+/**
+ * Points of measure (POM): the measurement chart of a product's tech pack.
+ * Stored in products.tech_pack.points_of_measure; values are graded per size of the
+ * product's size run (in cm) with one ± tolerance per point. Sample rounds are
+ * measured against the chart for the size the sample was made in.
+ */
+
+export interface PointOfMeasure {
+  id: string;
+  /** Short code used on the how-to-measure sketch, e.g. "A" or "CW" */
+  code: string;
+  name: string;
+  how_to_measure?: string;
+  /** Spec value per size in cm */
+  values: SizeValues;
+  /** ± tolerance in cm */
+  tolerance: number | null;
+}
+
+/** Label shown in sample measurement tables – "A · Chest width" */
+export function pomLabel(pom: Pick<PointOfMeasure, 'code' | 'name'>): string {
+  return pom.code ? `${pom.code} · ${pom.name}` : pom.name;
+}
+
+export function pomSpecForSize(pom: PointOfMeasure, size: string | null | undefined): number | null {
+  if (!size) return null;
+  const v = pom.values?.[size];
+  return typeof v === 'number' && !isNaN(v) ? v : null;
+}
+
+/** Next free letter code (A, B, … Z, AA, AB …) */
+export function nextPomCode(poms: PointOfMeasure[]): string {
+  const used = new Set(poms.map((p) => p.code.toUpperCase()));
+  for (let i = 0; ; i++) {
+    let n = i;
+    let code = '';
+    do {
+      code = String.fromCharCode(65 + (n % 26)) + code;
+      n = Math.floor(n / 26) - 1;
+    } while (n >= 0);
+    if (!used.has(code)) return code;
+  }
+}
+
+/** Sample measurement table built from the chart for one size – measured values are left empty */
+export function measurementsFromPom(poms: PointOfMeasure[], size: string | null): SampleMeasurement[] {
+  return poms
+    .filter((p) => p.name.trim())
+    .map((p) => ({
+      pom_id: p.id,
+      point: pomLabel(p),
+      spec: pomSpecForSize(p, size),
+      measured: null,
+      tolerance: p.tolerance,
+    }));
+}
+
+/**
+ * Re-apply spec and tolerance from the chart to measurements that are linked to a POM
+ * (e.g. after the sample size changed or the chart was updated). Measured values are kept.
+ */
+export function syncMeasurementsWithPom(
+  measurements: SampleMeasurement[],
+  poms: PointOfMeasure[],
+  size: string | null
+): SampleMeasurement[] {
+  return measurements.map((m) => {
+    const pom = m.pom_id ? poms.find((p) => p.id === m.pom_id) : undefined;
+    if (!pom) return m;
+    return { ...m, point: pomLabel(pom), spec: pomSpecForSize(pom, size), tolerance: pom.tolerance };
+  });
+}
@@ -0,0 +1,114 @@
+import { supabase } from './supabase';
+import { convertCurrency, getBaseCurrency } from './currency';
+import type { CostingRow, CurrencyConverter } from './costing';
+
+/**
+ * Price ladder: cost → wholesale → recommended retail incl. VAT, per sales market.
+ * Wholesale = COGS × product wholesale markup, retail net = wholesale × market retail markup,
+ * retail gross = net + VAT, rounded up to the market's price ending. Fixed prices per
+ * product and market (product_prices) replace the computed value at their level.
+ */
+
+export interface SalesMarket {
+  id: string;
+  name: string;
+  currency: string;
+  vat_rate: number;
+  /** Retailer markup on the wholesale price (net of VAT) */
+  retail_markup: number;
+  /** 0 = no rounding */
+  rounding_step: number;
+  rounding_ending: number;
+  sort_order: number;
+}
+
+export interface ProductPrice {
+  id: string;
+  product_id: string;
+  market_id: string;
+  wholesale_price: number | null;
+  /** Incl. VAT */
+  retail_price: number | null;
+}
+
+export interface PriceLadderRow {
+  market: SalesMarket;
+  cost: number;
+  wholesale: number;
+  retailNet: number;
+  vat: number;
+  retailGross: number;
+  wholesaleFixed: boolean;
+  retailFixed: boolean;
+  /** Brand margin on wholesale in % */
+  wholesaleMargin: number;
+  /** Retailer margin on retail net in % */
+  retailerMargin: number;
+  /** Brand margin when selling direct at retail (net of VAT) in % */
+  directMargin: number;
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+const marginPct = (price: number, cost: number) => (price > 0 ? ((price - cost) / price) * 100 : 0);
+
+/** Round up to the next k × step + ending, e.g. step 100 / ending 90: 1 234 → 1 290 */
+export function roundPrice(value: number, step: number, ending: number): number {
+  if (!step || step <= 0) return round2(value);
+  const k = Math.ceil(round2((value - ending) / step));
+  return round2(Math.max(0, k) * step + ending);
+}
+
+export function computePriceLadder(
+  row: CostingRow,
+  wholesaleMarkup: number,
+  market: SalesMarket,
+  price?: Pick<ProductPrice, 'wholesale_price' | 'retail_price'> | null,
+  convert: CurrencyConverter = convertCurrency
+): PriceLadderRow {
+  // The row total mixes material currencies – only the base currency figure is consistent
+  const cost = convert(row.totalCOGSBase, getBaseCurrency(), market.currency);
+  const vatFactor = 1 + (Number(market.vat_rate) || 0) / 100;
+
+  const fixedWholesale = price?.wholesale_price;
+  const wholesale = fixedWholesale != null ? Number(fixedWholesale) : round2(cost * (wholesaleMarkup || 0));
+
+  const fixedRetail = price?.retail_price;
+  const retailGross = fixedRetail != null
+    ? Number(fixedRetail)
+    : roundPrice(wholesale * (Number(market.retail_markup) || 0) * vatFactor, Number(market.rounding_step), Number(market.rounding_ending));
+  const retailNet = retailGross / vatFactor;
+
+  return {
+    market,
+    cost,
+    wholesale,
+    retailNet,
+    vat: retailGross - retailNet,
+    retailGross,
+    wholesaleFixed: fixedWholesale != null,
+    retailFixed: fixedRetail != null,
+    wholesaleMargin: marginPct(wholesale, cost),
+    retailerMargin: marginPct(retailNet, wholesale),
+    directMargin: marginPct(retailNet, cost),
+  };
+}
+
+export async function fetchSalesMarkets(): Promise<SalesMarket[]> {
+  const { data } = await supabase.from('sales_markets').select('*').order('sort_order').order('name');
+  return (data as SalesMarket[]) || [];
+}
+
+/** Save fixed prices for a product; empty values clear the override. Returns the error message or null. */
+export async function saveProductPrices(
+  productId: string,
+  prices: { market_id: string; wholesale_price: number | null; retail_price: number | null }[]
+): Promise<string | null> {
+  if (prices.length === 0) return null;
+  const { error } = await supabase
+    .from('product_prices')
+    .upsert(
+      prices.map((p) => ({ ...p, product_id: productId })),
+      { onConflict: 'product_id,market_id' }
+    );
+  return error ? error.message : null;
+}
@@ -0,0 +1,118 @@
+import type { ProductWithMaterials } from '../components/ProductSlideOver';
+
+/**
+ * Product variants (colorways).
+ * A variant inherits the base BOM (links without variant_id) and overrides it slot by slot:
+ * its own materials replace the base materials of the same role, its components replace
+ * base components of the same type and its labels replace base labels of the same type.
+ * SKUs are generated per variant and size: <product SKU>-<variant suffix>-<size>.
+ */
+
+export interface ProductVariant {
+  id: string;
+  product_id: string;
+  name: string;
+  color_code: string | null;
+  swatch_url: string | null;
+  sku_suffix: string | null;
+  sort_order: number;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export const PRODUCT_VARIANTS_SELECT =
+  'product_variants (id, product_id, name, color_code, swatch_url, sku_suffix, sort_order)';
+
+export const SKU_SEPARATOR = '-';
+
+export function sortVariants<T extends Pick<ProductVariant, 'sort_order' | 'name'>>(variants: T[] | null | undefined): T[] {
+  return [...(variants ?? [])].sort((a, b) => a.sort_order - b.sort_order || a.name.localeCompare(b.name));
+}
+
+/** Normalised SKU part: trimmed, upper-case, inner whitespace → separator */
+export function skuPart(value: string | null | undefined): string {
+  return (value ?? '').trim().toUpperCase().replace(/\s+/g, SKU_SEPARATOR);
+}
+
+/** SKU of a variant (without size) – falls back to the product SKU when the variant has no suffix */
+export function variantSku(baseSku: string | null | undefined, variant: Pick<ProductVariant, 'sku_suffix'> | null): string {
+  return [skuPart(baseSku), skuPart(variant?.sku_suffix)].filter(Boolean).join(SKU_SEPARATOR);
+}
+
+/** SKU of one sellable unit – variant + size */
+export function unitSku(
+  baseSku: string | null | undefined,
+  variant: Pick<ProductVariant, 'sku_suffix'> | null,
+  size: string | null
+): string {
+  return [variantSku(baseSku, variant), skuPart(size)].filter(Boolean).join(SKU_SEPARATOR);
+}
+
+export interface GeneratedSku {
+  variant: ProductVariant | null;
+  size: string | null;
+  sku: string;
+}
+
+/**
+ * Every SKU of a product – one per variant × size. Products without variants get one line per
+ * size, products without a size run one line per variant.
+ */
+export function generateSkus(
+  baseSku: string | null | undefined,
+  variants: ProductVariant[] | null | undefined,
+  sizeRun: string[] | null | undefined
+): GeneratedSku[] {
+  const vs: (ProductVariant | null)[] = variants?.length ? sortVariants(variants) : [null];
+  const sizes: (string | null)[] = sizeRun?.length ? sizeRun : [null];
+  return vs.flatMap((variant) =>
+    sizes.map((size) => ({ variant, size, sku: unitSku(baseSku, variant, size) }))
+  );
+}
+
+/** SKUs that occur more than once (e.g. two variants with the same suffix) */
+export function duplicateSkus(skus: GeneratedSku[]): Set<string> {
+  const seen = new Set<string>();
+  const dupes = new Set<string>();
+  for (const { sku } of skus) {
+    if (!sku) continue;
+    if (seen.has(sku)) dupes.add(sku);
+    seen.add(sku);
+  }
+  return dupes;
+}
+
+/** Base rows, with every slot the variant defines replaced by the variant's own rows */
+function overrideRows<T extends { variant_id?: string | null }>(
+  rows: T[] | null | undefined,
+  variantId: string | null,
+  slot: (row: T) => string
+): T[] {
+  const base = (rows ?? []).filter((r) => !r.variant_id);
+  if (!variantId) return base;
+  const own = (rows ?? []).filter((r) => r.variant_id === variantId);
+  const overridden = new Set(own.map(slot));
+  return [...base.filter((r) => !overridden.has(slot(r))), ...own];
+}
+
+/**
+ * The product with the BOM a variant actually uses (variantId null → base BOM).
+ * Costing, size costs and requirements are computed on the resolved product.
+ */
+export function resolveVariantBom(product: ProductWithMaterials, variantId: string | null): ProductWithMaterials {
+  return {
+    ...product,
+    product_materials: overrideRows(product.product_materials, variantId, (pm) => pm.role ?? 'main'),
+    product_components: overrideRows(product.product_components, variantId, (pc) => pc.component?.type ?? pc.component_id),
+    product_labels: overrideRows(product.product_labels, variantId, (pl) => pl.label?.typ ?? pl.label_id),
+  };
+}
+
+/** Whether the variant overrides anything of the base BOM */
+export function hasOverrides(product: ProductWithMaterials, variantId: string): boolean {
+  return (
+    (product.product_materials ?? []).some((r) => r.variant_id === variantId) ||
+    (product.product_components ?? []).some((r) => r.variant_id === variantId) ||
+    (product.product_labels ?? []).some((r) => r.variant_id === variantId)
+  );
+}
@@ -0,0 +1,423 @@
+import { supabase } from './supabase';
+import { getUserIdForDb } from '../stores/authStore';
+import type { ProductWithMaterials } from '../components/ProductSlideOver';
+import type { RichTextBlock } from '../components/RichTextBlockEditor';
+import type { PointOfMeasure } from './pointsOfMeasure';
+import type { SizeValues } from './sizeRun';
+import { PRODUCT_VARIANTS_SELECT, sortVariants } from './productVariants';
+import { selectedCareSymbols, type CareLabelSettings } from './careLabel';
+
+/**
+ * Product version history.
+ * Each save stores a snapshot of the product (incl. tech_pack and description) and its
+ * material / label / component links. Saves by the same person within a short window are
+ * merged into one version so auto-save doesn't flood the timeline. A version can be issued
+ * to a factory as tech-pack revision A, B, … – issued versions are frozen in the database.
+ */
+
+/** Consecutive saves by the same user within this window update the latest version */
+const MERGE_WINDOW_MS = 15 * 60 * 1000;
+
+export const PRODUCT_FULL_SELECT = `*, product_materials (id, material_id, consumption_amount, notes, role, variant_id, consumption_by_size, material:materials (*)), product_components (id, component_id, quantity, notes, quantity_by_size, variant_id, component:components (*)), product_labels (id, label_id, placement, notes, variant_id, label:labels (*)), ${PRODUCT_VARIANTS_SELECT}`;
+
+/** Product columns captured in a snapshot (and written back on restore) */
+const SNAPSHOT_FIELDS = [
+  'name',
+  'sku',
+  'sku_number',
+  'collection_id',
+  'category',
+  'status',
+  'short_description',
+  'description',
+  'description_blocks',
+  'labor_cost',
+  'overhead_cost',
+  'labor_overhead_currency',
+  'markup_multiplier',
+  'wholesale_markup',
+  'size_run',
+  'size_ratio',
+  'tech_pack',
+  'hidden',
+  'ready_for_sampling',
+  'priority',
+  'care_label',
+] as const;
+
+export interface SnapshotMaterial {
+  material_id: string;
+  consumption_amount: number;
+  consumption_by_size: SizeValues | null;
+  role: string | null;
+  variant_id: string | null;
+  notes: string | null;
+  /** Frozen so an issued revision still prints the material as it was */
+  material: { id: string; name: string; composition: string | null; color: string | null; unit: string } | null;
+}
+
+export interface SnapshotLabel {
+  label_id: string;
+  placement: string[];
+  notes: string | null;
+  variant_id: string | null;
+  label: { id: string; name: string; typ: string; width_mm: number | null; height_mm: number | null } | null;
+}
+
+export interface SnapshotComponent {
+  component_id: string;
+  quantity: number;
+  quantity_by_size: SizeValues | null;
+  notes: string | null;
+  variant_id: string | null;
+  component: { id: string; name: string; type: string } | null;
+}
+
+export interface SnapshotVariant {
+  id: string;
+  name: string;
+  color_code: string | null;
+  swatch_url: string | null;
+  sku_suffix: string | null;
+  sort_order: number;
+}
+
+export interface ProductSnapshot {
+  product: Record<(typeof SNAPSHOT_FIELDS)[number], unknown>;
+  /** Missing in snapshots taken before variants existed */
+  variants?: SnapshotVariant[];
+  materials: SnapshotMaterial[];
+  labels: SnapshotLabel[];
+  components: SnapshotComponent[];
+}
+
+export interface ProductVersion {
+  id: string;
+  product_id: string;
+  version_number: number;
+  snapshot: ProductSnapshot;
+  revision: string | null;
+  issued_at: string | null;
+  issued_to: string | null;
+  issue_note: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  author?: { full_name: string | null; first_name: string | null; last_name: string | null } | null;
+  supplier?: { id: string; name: string } | null;
+}
+
+export const PRODUCT_VERSION_SELECT =
+  '*, author:profiles!product_versions_created_by_fkey(full_name, first_name, last_name), supplier:suppliers!product_versions_issued_to_fkey(id, name)';
+
+export function buildSnapshot(product: ProductWithMaterials): ProductSnapshot {
+  const source = product as unknown as Record<string, unknown>;
+  const fields = Object.fromEntries(SNAPSHOT_FIELDS.map((f) => [f, source[f] ?? null])) as ProductSnapshot['product'];
+  return {
+    product: fields,
+    variants: sortVariants(product.product_variants).map((v) => ({
+      id: v.id,
+      name: v.name,
+      color_code: v.color_code,
+      swatch_url: v.swatch_url,
+      sku_suffix: v.sku_suffix,
+      sort_order: v.sort_order,
+    })),
+    materials: (product.product_materials ?? []).map((pm) => ({
+      material_id: pm.material_id,
+      consumption_amount: pm.consumption_amount,
+      consumption_by_size: pm.consumption_by_size ?? null,
+      role: pm.role ?? null,
+      variant_id: pm.variant_id ?? null,
+      notes: pm.notes ?? null,
+      material: pm.material
+        ? {
+            id: pm.material.id,
+            name: pm.material.name,
+            composition: pm.material.composition,
+            color: pm.material.color,
+            unit: pm.material.unit,
+          }
+        : null,
+    })),
+    labels: (product.product_labels ?? []).map((pl) => ({
+      label_id: pl.label_id,
+      placement: pl.placement ?? [],
+      notes: pl.notes ?? null,
+      variant_id: pl.variant_id ?? null,
+      label: pl.label
+        ? { id: pl.label.id, name: pl.label.name, typ: pl.label.typ, width_mm: pl.label.width_mm, height_mm: pl.label.height_mm }
+        : null,
+    })),
+    components: (product.product_components ?? []).map((pc) => ({
+      component_id: pc.component_id,
+      quantity: pc.quantity,
+      quantity_by_size: pc.quantity_by_size ?? null,
+      notes: pc.notes ?? null,
+      variant_id: pc.variant_id ?? null,
+      component: pc.component ? { id: pc.component.id, name: pc.component.name, type: pc.component.type } : null,
+    })),
+  };
+}
+
+/** Product shape of a snapshot – e.g. to export an issued revision as a tech pack PDF */
+export function snapshotToProduct(version: ProductVersion, current: ProductWithMaterials): ProductWithMaterials {
+  const s = version.snapshot;
+  return {
+    ...current,
+    ...(s.product as Partial<ProductWithMaterials>),
+    product_materials: s.materials.map((m, i) => ({ id: `v${i}`, ...m, role: (m.role ?? 'main') as 'main' })),
+    product_labels: s.labels.map((l, i) => ({ id: `v${i}`, ...l })),
+    product_components: s.components.map((c, i) => ({ id: `v${i}`, ...c })),
+    product_variants: (s.variants ?? []).map((v) => ({ ...v, product_id: current.id })),
+  } as unknown as ProductWithMaterials;
+}
+
+/** Issued revisions are lettered A, B, … Z, AA, AB … */
+export function revisionLabel(index: number): string {
+  let n = index;
+  let label = '';
+  do {
+    label = String.fromCharCode(65 + (n % 26)) + label;
+    n = Math.floor(n / 26) - 1;
+  } while (n >= 0);
+  return label;
+}
+
+export function nextRevision(versions: Pick<ProductVersion, 'revision'>[]): string {
+  return revisionLabel(versions.filter((v) => v.revision).length);
+}
+
+/** Latest issued revision label, or null while nothing was issued */
+export function latestRevision(versions: ProductVersion[]): ProductVersion | null {
+  return (
+    versions
+      .filter((v) => v.issued_at)
+      .sort((a, b) => b.version_number - a.version_number)[0] ?? null
+  );
+}
+
+const stableJson = (value: unknown) => JSON.stringify(value ?? null);
+
+/**
+ * Record the current state of a product after a save. Skips when nothing changed and
+ * merges into the latest (unissued) version when the same user saved it moments ago.
+ */
+export async function recordProductVersion(productId: string): Promise<void> {
+  const [{ data: product }, { data: latestRows }] = await Promise.all([
+    supabase.from('products').select(PRODUCT_FULL_SELECT).eq('id', productId).single(),
+    supabase
+      .from('product_versions')
+      .select('*')
+      .eq('product_id', productId)
+      .order('version_number', { ascending: false })
+      .limit(1),
+  ]);
+  if (!product) return;
+  const snapshot = buildSnapshot(product as unknown as ProductWithMaterials);
+  const latest = (latestRows as ProductVersion[] | null)?.[0];
+  if (latest && stableJson(latest.snapshot) === stableJson(snapshot)) return;
+
+  const userId = getUserIdForDb();
+  const canMerge =
+    latest &&
+    !latest.issued_at &&
+    latest.created_by === userId &&
+    Date.now() - new Date(latest.updated_at).getTime() < MERGE_WINDOW_MS;
+
+  const { error } = canMerge
+    ? await supabase.from('product_versions').update({ snapshot }).eq('id', latest.id)
+    : await supabase.from('product_versions').insert({
+        product_id: productId,
+        version_number: (latest?.version_number ?? 0) + 1,
+        snapshot,
+        created_by: userId,
+      });
+  if (error) console.error('Product version error:', error);
+}
+
+/**
+ * Write a snapshot back to the product and its links in one transaction (restore_product_version);
+ * the restore itself becomes a new version
+ */
+export async function restoreProductVersion(version: ProductVersion): Promise<void> {
+  const { error } = await supabase.rpc('restore_product_version', { p_version_id: version.id });
+  if (error) throw new Error(error.message);
+}
+
+// ── Diffs ─────────────────────────────────────────────────────
+
+export interface VersionChange {
+  /** i18n key + params describing the changed field */
+  labelKey: string;
+  labelParams?: Record<string, string>;
+  kind: 'added' | 'removed' | 'changed';
+  before: string | null;
+  after: string | null;
+}
+
+const fmt = (v: unknown): string | null => {
+  if (v == null || v === '') return null;
+  if (Array.isArray(v)) return v.length ? v.join(', ') : null;
+  if (typeof v === 'object') {
+    const entries = Object.entries(v as Record<string, unknown>);
+    return entries.length ? entries.map(([k, x]) => `${k}: ${x}`).join(' · ') : null;
+  }
+  return String(v);
+};
+
+const blocksText = (p: ProductSnapshot['product']): string => {
+  let blocks = p.description_blocks as RichTextBlock[] | null;
+  if (!blocks?.length && typeof p.description === 'string') {
+    try {
+      const parsed = JSON.parse(p.description);
+      blocks = Array.isArray(parsed) ? parsed : null;
+    } catch {
+      return p.description;
+    }
+  }
+  return (blocks ?? [])
+    .map((b) => {
+      if (b.type === 'paragraph') return b.content;
+      if (b.type === 'heading' || b.type === 'quote' || b.type === 'tag') return b.text;
+      if (b.type === 'list') return b.items.join(' ');
+      return '';
+    })
+    .join(' ')
+    .replace(/<[^>]*>/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+const truncate = (s: string | null, max = 140) => (s && s.length > max ? `${s.slice(0, max)}…` : s);
+
+function change(labelKey: string, before: string | null, after: string | null, labelParams?: Record<string, string>): VersionChange | null {
+  if (before === after) return null;
+  return { labelKey, labelParams, kind: before == null ? 'added' : after == null ? 'removed' : 'changed', before, after };
+}
+
+/** Keyed list diff – added / removed / changed rows */
+function diffRows<T>(
+  before: T[],
+  after: T[],
+  key: (row: T) => string,
+  describe: (row: T) => string | null,
+  labelKey: string,
+  name: (row: T) => string
+): VersionChange[] {
+  const out: VersionChange[] = [];
+  const prev = new Map(before.map((r) => [key(r), r]));
+  const next = new Map(after.map((r) => [key(r), r]));
+  for (const [k, row] of next) {
+    const old = prev.get(k);
+    if (!old) out.push({ labelKey, labelParams: { name: name(row) }, kind: 'added', before: null, after: describe(row) });
+    else if (describe(old) !== describe(row))
+      out.push({ labelKey, labelParams: { name: name(row) }, kind: 'changed', before: describe(old), after: describe(row) });
+  }
+  for (const [k, row] of prev) {
+    if (!next.has(k)) out.push({ labelKey, labelParams: { name: name(row) }, kind: 'removed', before: describe(row), after: null });
+  }
+  return out;
+}
+
+/** Field-level differences between two snapshots (older → newer) */
+export function diffSnapshots(older: ProductSnapshot | null, newer: ProductSnapshot): VersionChange[] {
+  const a = older?.product ?? ({} as ProductSnapshot['product']);
+  const b = newer.product;
+  const tpA = (a.tech_pack ?? {}) as Record<string, unknown>;
+  const tpB = (b.tech_pack ?? {}) as Record<string, unknown>;
+  const changes: (VersionChange | null)[] = [
+    change('products.name', fmt(a.name), fmt(b.name)),
+    change('products.sku', fmt(a.sku), fmt(b.sku)),
+    change('products.category', fmt(a.category), fmt(b.category)),
+    change('products.status', fmt(a.status), fmt(b.status)),
+    change('products.readyForSampling', fmt(a.ready_for_sampling), fmt(b.ready_for_sampling)),
+    change('products.description', truncate(fmt(a.short_description)), truncate(fmt(b.short_description))),
+    change('products.history.fields.constructionNotes', truncate(blocksText(a) || null), truncate(blocksText(b) || null)),
+    change('products.threads', fmt(tpA.threads), fmt(tpB.threads)),
+    change('products.interlining', fmt(tpA.interlining), fmt(tpB.interlining)),
+    change('products.waistband', fmt(tpA.waistband), fmt(tpB.waistband)),
+    change('products.seamAllowance', fmt(tpA.seam_allowance), fmt(tpB.seam_allowance)),
+    change('products.previewPhoto', fmt(tpA.preview_photo_url), fmt(tpB.preview_photo_url)),
+    change(
+      'products.designGallery',
+      fmt((tpA.design_gallery as unknown[] | undefined)?.length),
+      fmt((tpB.design_gallery as unknown[] | undefined)?.length)
+    ),
+    change(
+      'products.moodboardGallery',
+      fmt((tpA.moodboard_gallery as unknown[] | undefined)?.length),
+      fmt((tpB.moodboard_gallery as unknown[] | undefined)?.length)
+    ),
+    change('products.sizeRun.title', fmt(a.size_run), fmt(b.size_run)),
+    change('products.sizeRun.ratio', fmt(a.size_ratio), fmt(b.size_ratio)),
+    change('products.history.fields.laborCost', fmt(a.labor_cost), fmt(b.labor_cost)),
+    change('products.history.fields.overheadCost', fmt(a.overhead_cost), fmt(b.overhead_cost)),
+    change('products.history.fields.markup', fmt(a.markup_multiplier), fmt(b.markup_multiplier)),
+    change(
+      'careLabel.careSymbols',
+      fmt(selectedCareSymbols(a.care_label as CareLabelSettings | null)),
+      fmt(selectedCareSymbols(b.care_label as CareLabelSettings | null))
+    ),
+    change(
+      'careLabel.languages',
+      fmt((a.care_label as CareLabelSettings | null)?.languages),
+      fmt((b.care_label as CareLabelSettings | null)?.languages)
+    ),
+  ];
+
+  const describePom = (p: PointOfMeasure) =>
+    [fmt(p.values), p.tolerance != null ? `± ${p.tolerance}` : null, p.how_to_measure].filter(Boolean).join(' · ') || '—';
+  const variantNames = new Map(
+    [...(older?.variants ?? []), ...(newer.variants ?? [])].map((v) => [v.id, v.name])
+  );
+  // Overrides are named after their variant, e.g. "Wool melton (Black)"
+  const scoped = (name: string, variantId: string | null) =>
+    variantId ? `${name} (${variantNames.get(variantId) ?? '?'})` : name;
+  const describeMaterial = (m: SnapshotMaterial) =>
+    [m.consumption_amount + (m.material?.unit ? ` ${m.material.unit}` : ''), fmt(m.consumption_by_size)].filter(Boolean).join(' · ');
+
+  return [
+    ...changes.filter((c): c is VersionChange => c != null),
+    ...diffRows(
+      older?.materials ?? [],
+      newer.materials,
+      (m) => `${m.material_id}|${m.role ?? 'main'}|${m.variant_id ?? ''}`,
+      describeMaterial,
+      'products.history.fields.material',
+      (m) => scoped(m.material?.name ?? m.material_id, m.variant_id ?? null)
+    ),
+    ...diffRows(
+      older?.labels ?? [],
+      newer.labels,
+      (l) => `${l.label_id}|${l.variant_id ?? ''}`,
+      (l) => l.placement.join(', ') || '—',
+      'products.history.fields.label',
+      (l) => scoped(l.label?.name ?? l.label_id, l.variant_id ?? null)
+    ),
+    ...diffRows(
+      older?.components ?? [],
+      newer.components,
+      (c) => `${c.component_id}|${c.variant_id ?? ''}`,
+      (c) => [String(c.quantity), fmt(c.quantity_by_size)].filter(Boolean).join(' · '),
+      'products.history.fields.component',
+      (c) => scoped(c.component?.name ?? c.component_id, c.variant_id ?? null)
+    ),
+    ...diffRows(
+      older?.variants ?? [],
+      newer.variants ?? [],
+      (v) => v.id,
+      (v) => [v.name, v.color_code, v.sku_suffix, v.swatch_url ? '▣' : null].filter(Boolean).join(' · '),
+      'products.history.fields.variant',
+      (v) => v.name
+    ),
+    ...diffRows(
+      (tpA.points_of_measure as PointOfMeasure[] | undefined) ?? [],
+      (tpB.points_of_measure as PointOfMeasure[] | undefined) ?? [],
+      (p) => p.id,
+      describePom,
+      'products.history.fields.pom',
+      (p) => [p.code, p.name].filter(Boolean).join(' · ')
+    ),
+  ];
+}
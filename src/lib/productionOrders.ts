@@ -0,0 +1,135 @@
+import type { ProductWithMaterials } from '../components/ProductSlideOver';
+import { consumptionForSize, type SizeValues } from './sizeRun';
+import { PRODUCT_VARIANTS_SELECT } from './productVariants';
+
+/**
+ * Production order requirement utilities.
+ * Expands a product's BOM (product_materials + product_components) over the
+ * planned quantity per size and compares the result with stock on hand.
+ */
+
+export const PRODUCTION_ORDER_STATUSES = [
+  'planned',
+  'confirmed',
+  'in_production',
+  'completed',
+  'canceled',
+] as const;
+
+export type ProductionOrderStatus = (typeof PRODUCTION_ORDER_STATUSES)[number];
+
+// Product + BOM (graded consumption + components) + variants, same shape as CostingPage.
+// Includes variant overrides – resolve with the run's variant (resolveVariantBom) before computing requirements.
+export const PRODUCT_BOM_SELECT = `
+  *,
+  product_materials (
+    id,
+    material_id,
+    consumption_amount,
+    notes,
+    role,
+    variant_id,
+    consumption_by_size,
+    material:materials (*)
+  ),
+  product_components (
+    id,
+    component_id,
+    quantity,
+    notes,
+    quantity_by_size,
+    variant_id,
+    component:components (*)
+  ),
+  ${PRODUCT_VARIANTS_SELECT}
+`;
+
+export interface BomRequirement {
+  kind: 'material' | 'component';
+  id: string;
+  name: string;
+  unit: string;
+  required: number;
+  stock: number;
+  /** required − stock, 0 when stock covers the run */
+  shortfall: number;
+  supplier_id: string | null;
+  price_per_unit: number;
+  currency: string;
+}
+
+/** Total units of a run – sum over the size run, or the flat quantity when the product has no sizes. */
+export function totalQuantity(
+  sizeRun: string[],
+  quantityBySize: SizeValues | null | undefined,
+  quantity: number
+): number {
+  if (sizeRun.length === 0) return quantity;
+  return sizeRun.reduce((sum, s) => sum + Math.max(0, quantityBySize?.[s] ?? 0), 0);
+}
+
+/**
+ * Material + component requirement for a run of the product.
+ * Graded consumption is used per size; lines are merged when the same material appears twice in the BOM.
+ */
+export function computeRequirements(
+  product: ProductWithMaterials,
+  quantityBySize: SizeValues | null | undefined,
+  quantity: number
+): BomRequirement[] {
+  const sizeRun = product.size_run ?? [];
+  const byKey = new Map<string, BomRequirement>();
+
+  const required = (base: number, bySize: SizeValues | null | undefined) =>
+    sizeRun.length === 0
+      ? base * quantity
+      : sizeRun.reduce(
+          (sum, s) => sum + consumptionForSize(base, bySize, s) * Math.max(0, quantityBySize?.[s] ?? 0),
+          0
+        );
+
+  for (const pm of product.product_materials ?? []) {
+    const mat = pm.material;
+    if (!mat) continue;
+    const key = `material:${mat.id}`;
+    const prev = byKey.get(key);
+    const amount = required(pm.consumption_amount, pm.consumption_by_size);
+    byKey.set(key, {
+      kind: 'material',
+      id: mat.id,
+      name: mat.name,
+      unit: mat.unit,
+      required: (prev?.required ?? 0) + amount,
+      stock: mat.stock_qty ?? 0,
+      shortfall: 0,
+      supplier_id: mat.supplier_id,
+      price_per_unit: mat.price_per_unit || 0,
+      currency: mat.currency || 'EUR',
+    });
+  }
+
+  for (const pc of product.product_components ?? []) {
+    const comp = pc.component;
+    if (!comp) continue;
+    const key = `component:${comp.id}`;
+    const prev = byKey.get(key);
+    const amount = required(pc.quantity, pc.quantity_by_size);
+    byKey.set(key, {
+      kind: 'component',
+      id: comp.id,
+      name: comp.name,
+      unit: 'pcs',
+      required: (prev?.required ?? 0) + amount,
+      stock: comp.stock_qty ?? 0,
+      shortfall: 0,
+      supplier_id: comp.supplier_id,
+      price_per_unit: comp.price_per_unit || 0,
+      currency: comp.currency || 'EUR',
+    });
+  }
+
+  return [...byKey.values()].map((r) => ({
+    ...r,
+    shortfall: Math.max(0, r.required - r.stock),
+  }));
+}
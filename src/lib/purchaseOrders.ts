@@ -0,0 +1,150 @@
+import { supabase } from './supabase';
+import type { ProductWithMaterials } from '../components/ProductSlideOver';
+import { computeRequirements, type BomRequirement } from './productionOrders';
+import { normalizeSizeRatio, type SizeValues } from './sizeRun';
+import { resolveVariantBom } from './productVariants';
+import { convertCurrency } from './currency';
+
+/**
+ * Purchase order utilities.
+ * A purchase plan (products × quantities) is expanded over the BOM, stock on hand is
+ * subtracted once for the whole plan, and the remaining shortfall is drafted as one
+ * purchase order per supplier. Approving a PO books it into accounting_orders.
+ */
+
+export const PURCHASE_ORDER_STATUSES = ['draft', 'approved', 'canceled'] as const;
+
+export type PurchaseOrderStatus = (typeof PURCHASE_ORDER_STATUSES)[number];
+
+export interface PurchasePlanLine {
+  product_id: string;
+  /** Colorway to make; null → base BOM */
+  variant_id?: string | null;
+  quantity: number;
+  /** Exact split per size (from a production order); otherwise quantity is split by the product's size ratio */
+  quantity_by_size?: SizeValues | null;
+  production_order_id?: string | null;
+}
+
+export interface SupplierShortfall {
+  supplier_id: string | null;
+  currency: string;
+  lines: BomRequirement[];
+}
+
+export interface PurchaseOrderItemDraft {
+  material_id: string | null;
+  component_id: string | null;
+  description: string;
+  unit: string;
+  quantity: number;
+  unit_price: number;
+}
+
+/** Display number, e.g. PO-0042 */
+export function formatPoNumber(n: number | null | undefined): string {
+  return n != null ? `PO-${String(n).padStart(4, '0')}` : 'PO';
+}
+
+function sizeSplit(product: ProductWithMaterials, quantity: number): SizeValues | null {
+  const sizeRun = product.size_run ?? [];
+  if (sizeRun.length === 0) return null;
+  const ratio = normalizeSizeRatio(sizeRun, product.size_ratio);
+  return Object.fromEntries(sizeRun.map((s) => [s, quantity * ratio[s]]));
+}
+
+/** Merge BOM requirements of all plan lines; stock is compared against the combined requirement. */
+export function aggregateRequirements(
+  plan: PurchasePlanLine[],
+  productById: Map<string, ProductWithMaterials>
+): BomRequirement[] {
+  const byKey = new Map<string, BomRequirement>();
+  for (const line of plan) {
+    const product = productById.get(line.product_id);
+    if (!product || line.quantity <= 0) continue;
+    const bySize = line.quantity_by_size && Object.keys(line.quantity_by_size).length > 0
+      ? line.quantity_by_size
+      : sizeSplit(product, line.quantity);
+    for (const req of computeRequirements(resolveVariantBom(product, line.variant_id ?? null), bySize, line.quantity)) {
+      const key = `${req.kind}:${req.id}`;
+      const prev = byKey.get(key);
+      byKey.set(key, { ...req, required: (prev?.required ?? 0) + req.required });
+    }
+  }
+  return [...byKey.values()].map((r) => ({ ...r, shortfall: Math.max(0, r.required - r.stock) }));
+}
+
+/** Group shortfall lines per supplier; PO currency is the currency most lines are priced in. */
+export function groupShortfallsBySupplier(requirements: BomRequirement[]): SupplierShortfall[] {
+  const bySupplier = new Map<string, BomRequirement[]>();
+  for (const r of requirements) {
+    if (r.shortfall <= 0) continue;
+    const key = r.supplier_id ?? '';
+    bySupplier.set(key, [...(bySupplier.get(key) ?? []), r]);
+  }
+  return [...bySupplier.entries()].map(([key, lines]) => {
+    const counts = new Map<string, number>();
+    lines.forEach((l) => counts.set(l.currency, (counts.get(l.currency) ?? 0) + 1));
+    const currency = [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? 'EUR';
+    return {
+      supplier_id: key || null,
+      currency,
+      lines: lines.sort((a, b) => a.name.localeCompare(b.name)),
+    };
+  });
+}
+
+/** Line items for a supplier group; prices are converted into the PO currency where needed. */
+export function itemsForGroup(group: SupplierShortfall): PurchaseOrderItemDraft[] {
+  return group.lines.map((l) => ({
+    material_id: l.kind === 'material' ? l.id : null,
+    component_id: l.kind === 'component' ? l.id : null,
+    description: l.name,
+    unit: l.unit,
+    quantity: Math.round(l.shortfall * 1000) / 1000,
+    unit_price: Math.round(convertCurrency(l.price_per_unit, l.currency, group.currency) * 10000) / 10000,
+  }));
+}
+
+export function itemsTotal(items: { quantity: number; unit_price: number }[]): number {
+  return items.reduce((sum, i) => sum + Number(i.quantity) * Number(i.unit_price), 0);
+}
+
+export interface DraftPurchaseOrdersResult {
+  /** Supabase error message, null when every draft was created */
+  error: string | null;
+  created: number;
+  /** Shortfall lines without a supplier – nothing was ordered for them */
+  skipped: BomRequirement[];
+}
+
+/**
+ * Create one draft PO per supplier, each with its lines in one transaction (create_draft_purchase_order);
+ * lines without a supplier are reported back as skipped.
+ */
+export async function createDraftPurchaseOrders(groups: SupplierShortfall[], notes: string | null): Promise<DraftPurchaseOrdersResult> {
+  const skipped = groups.filter((g) => !g.supplier_id).flatMap((g) => g.lines);
+  let created = 0;
+  for (const group of groups) {
+    if (!group.supplier_id) continue;
+    const { error } = await supabase.rpc('create_draft_purchase_order', {
+      p_supplier_id: group.supplier_id,
+      p_currency: group.currency,
+      p_notes: notes,
+      p_items: itemsForGroup(group),
+    });
+    if (error) return { error: error.message, created, skipped };
+    created++;
+  }
+  return { error: null, created, skipped };
+}
+
+/**
+ * Approve a saved draft: book it as an accounting order (status 'ordered') with the PO lines as
+ * order items and link it back, so the Accounting page stays the single ledger of spend.
+ * Runs in one transaction (approve_purchase_order); returns the Supabase error message or null.
+ */
+export async function approvePurchaseOrder(poId: string): Promise<string | null> {
+  const { error } = await supabase.rpc('approve_purchase_order', { p_po_id: poId });
+  return error ? error.message : null;
+}
@@ -23,9 +23,11 @@ export type Module =
   | 'production.labels'
   | 'production.products'
   | 'production.sampling'
+  | 'production.orders'
   | 'business.costing'
   | 'business.suppliers'
   | 'business.accounting'
+  | 'business.purchasing'
   | 'communication.chat'
   | 'communication.comments';
 
@@ -48,9 +50,11 @@ const permissionMatrix: Record<Role, Record<Module, Permission>> = {
     'production.labels':      { read: true, write: true, comment: true, delete: true },
     'production.products':     { read: true, write: true, comment: true, delete: true },
     'production.sampling':     { read: true, write: true, comment: true, delete: true },
+    'production.orders':       { read: true, write: true, comment: true, delete: true },
     'business.costing':       { read: true, write: true, comment: true, delete: true },
     'business.suppliers':      { read: true, write: true, comment: true, delete: true },
     'business.accounting':     { read: true, write: true, comment: true, delete: true },
+    'business.purchasing':     { read: true, write: true, comment: true, delete: true },
     'communication.chat':     { read: true, write: true, comment: true, delete: true },
     'communication.comments':  { read: true, write: true, comment: true, delete: true },
   },
@@ -67,9 +71,11 @@ const permissionMatrix: Record<Role, Record<Module, Permission>> = {
     'production.labels':      { read: true,  write: false, comment: true,  delete: false },
     'production.products':     { read: true,  write: false, comment: true,  delete: false },
     'production.sampling':     { read: true,  write: false, comment: true,  delete: false },
+    'production.orders':       { read: true,  write: false, comment: true,  delete: false },
     'business.costing':       { read: true,  write: false, comment: true,  delete: false },
     'business.suppliers':      { read: true,  write: false, comment: true,  delete: false },
     'business.accounting':     { read: true,  write: false, comment: true,  delete: false },
+    'business.purchasing':     { read: true,  write: false, comment: true,  delete: false },
     'communication.chat':     { read: true,  write: false, comment: true,  delete: false },
     'communication.comments': { read: true,  write: false, comment: true,  delete: false },
   },
@@ -86,9 +92,11 @@ const permissionMatrix: Record<Role, Record<Module, Permission>> = {
     'production.labels':      { read: true,  write: false, comment: false, delete: false },
     'production.products':     { read: true,  write: false, comment: false, delete: false },
     'production.sampling':     { read: true,  write: false, comment: false, delete: false },
+    'production.orders':       { read: true,  write: false, comment: false, delete: false },
     'business.costing':       { read: true,  write: false, comment: false, delete: false },
     'business.suppliers':      { read: true,  write: false, comment: false, delete: false },
     'business.accounting':     { read: false, write: false, comment: false, delete: false },
+    'business.purchasing':     { read: false, write: false, comment: false, delete: false },
     'communication.chat':     { read: true,  write: false, comment: false, delete: false },
     'communication.comments': { read: true,  write: false, comment: false, delete: false },
   },
@@ -105,10 +113,12 @@ const permissionMatrix: Record<Role, Record<Module, Permission>> = {
     'production.labels':      { read: false, write: false, comment: false, delete: false },
     'production.products':     { read: true,  write: false, comment: true,  delete: false },
     'production.sampling':     { read: true,  write: false, comment: true,  delete: false },
+    'production.orders':       { read: false, write: false, comment: false, delete: false },
     'business.costing':       { read: false, write: false, comment: false, delete: false },
     'business.suppliers':      { read: false, write: false, comment: false, delete: false },
     'business.accounting':     { read: false, write: false, comment: false, delete: false },
-    'communication.chat':     { read: false, write: false, comment: false, delete: false },
+    'business.purchasing':     { read: false, write: false, comment: false, delete: false },
+    'communication.chat':     { read: true,  write: false, comment: true,  delete: false },
     'communication.comments': { read: false, write: false, comment: false, delete: false },
   },
 
@@ -124,10 +134,12 @@ const permissionMatrix: Record<Role, Record<Module, Permission>> = {
     'production.labels':      { read: false, write: false, comment: false, delete: false },
     'production.products':     { read: false, write: false, comment: false, delete: false },
     'production.sampling':     { read: false, write: false, comment: false, delete: false },
+    'production.orders':       { read: false, write: false, comment: false, delete: false },
     'business.costing':       { read: false, write: false, comment: false, delete: false },
     'business.suppliers':      { read: false, write: false, comment: false, delete: false },
     'business.accounting':     { read: false, write: false, comment: false, delete: false },
-    'communication.chat':     { read: false, write: false, comment: false, delete: false },
+    'business.purchasing':     { read: false, write: false, comment: false, delete: false },
+    'communication.chat':     { read: true,  write: false, comment: true,  delete: false },
     'communication.comments': { read: false, write: false, comment: false, delete: false },
   },
 };
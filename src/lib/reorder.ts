@@ -0,0 +1,155 @@
+import { supabase } from './supabase';
+import i18n from '../i18n';
+import { getUserIdForDb } from '../stores/authStore';
+import type { StockItemRef } from './stockLedger';
+
+/**
+ * Low-stock thresholds (materials/components.reorder_point).
+ * An item is "low" once stock_qty drops to or below its reorder point; founders get one
+ * notification per dip (low_stock_notified_at is cleared again when stock recovers).
+ */
+
+/** Window used to derive the average daily consumption from the ledger */
+export const CONSUMPTION_WINDOW_DAYS = 90;
+
+export interface ReorderItem {
+  kind: StockItemRef['kind'];
+  id: string;
+  name: string;
+  unit: string;
+  stock_qty: number;
+  reorder_point: number | null;
+  reorder_qty: number | null;
+  price_per_unit: number;
+  currency: string;
+  supplier_id: string | null;
+  image_url: string | null;
+}
+
+interface ThresholdFields {
+  stock_qty: number;
+  reorder_point: number | null;
+}
+
+export function isLowStock(item: ThresholdFields): boolean {
+  return item.reorder_point != null && Number(item.stock_qty) <= Number(item.reorder_point);
+}
+
+/** Quantity to order: the preferred reorder qty, or enough to get back up to the reorder point */
+export function suggestedOrderQty(item: ThresholdFields & { reorder_qty: number | null }): number {
+  if (item.reorder_qty != null && Number(item.reorder_qty) > 0) return Number(item.reorder_qty);
+  return Math.max(0, Number(item.reorder_point ?? 0) - Number(item.stock_qty));
+}
+
+/** Average outgoing quantity per day from consumption movements (positive number) */
+export function dailyConsumption(
+  movements: { quantity: number; movement_type: string }[],
+  windowDays = CONSUMPTION_WINDOW_DAYS
+): number {
+  const used = movements
+    .filter((m) => m.movement_type === 'consumption_sample' || m.movement_type === 'consumption_production')
+    .reduce((sum, m) => sum + Math.abs(Number(m.quantity)), 0);
+  return windowDays > 0 ? used / windowDays : 0;
+}
+
+/** Days until stock runs out at the current usage rate (null = no usage recorded) */
+export function daysOfCover(stockQty: number, perDay: number): number | null {
+  if (perDay <= 0) return null;
+  return Math.max(0, stockQty) / perDay;
+}
+
+/**
+ * True when the item runs out before a delivery ordered today could arrive.
+ * Items already at zero always qualify; items without usage history or lead time never do.
+ */
+export function runsOutBeforeDelivery(stockQty: number, perDay: number, leadTimeDays: number | null): boolean {
+  if (stockQty <= 0) return true;
+  if (leadTimeDays == null) return false;
+  const cover = daysOfCover(stockQty, perDay);
+  return cover != null && cover < leadTimeDays;
+}
+
+const TABLE_BY_KIND: Record<StockItemRef['kind'], 'materials' | 'components'> = {
+  material: 'materials',
+  component: 'components',
+};
+
+/**
+ * Re-evaluate thresholds for the given items after their stock changed.
+ * Sends a notification to all founders (via the create-notification edge function)
+ * for items that just crossed their reorder point, and re-arms items that recovered.
+ */
+export async function checkLowStock(items: StockItemRef[]): Promise<void> {
+  const senderId = getUserIdForDb();
+  if (!senderId || items.length === 0) return;
+
+  const alerts: { kind: StockItemRef['kind']; id: string; name: string; stock_qty: number; unit: string }[] = [];
+
+  for (const kind of ['material', 'component'] as const) {
+    const ids = [...new Set(items.filter((i) => i.kind === kind).map((i) => i.id))];
+    if (ids.length === 0) continue;
+    const table = TABLE_BY_KIND[kind];
+    const { data } = await supabase
+      .from(table)
+      .select(kind === 'material' ? 'id, name, unit, stock_qty, reorder_point, low_stock_notified_at' : 'id, name, stock_qty, reorder_point, low_stock_notified_at')
+      .in('id', ids);
+    const rows = (data || []) as unknown as {
+      id: string;
+      name: string;
+      unit?: string;
+      stock_qty: number;
+      reorder_point: number | null;
+      low_stock_notified_at: string | null;
+    }[];
+
+    const recovered = rows.filter((r) => r.low_stock_notified_at && !isLowStock(r)).map((r) => r.id);
+    if (recovered.length > 0) {
+      await supabase.from(table).update({ low_stock_notified_at: null }).in('id', recovered);
+    }
+
+    const crossed = rows.filter((r) => !r.low_stock_notified_at && isLowStock(r));
+    if (crossed.length > 0) {
+      await supabase
+        .from(table)
+        .update({ low_stock_notified_at: new Date().toISOString() })
+        .in('id', crossed.map((r) => r.id));
+      alerts.push(
+        ...crossed.map((r) => ({ kind, id: r.id, name: r.name, stock_qty: Number(r.stock_qty), unit: r.unit ?? 'pcs' }))
+      );
+    }
+  }
+
+  if (alerts.length === 0) return;
+
+  const { data: founders } = await supabase.from('profiles').select('id').eq('role', 'founder');
+  const recipientIds = (founders || []).map((f: { id: string }) => f.id);
+  if (recipientIds.length === 0) return;
+
+  const rows = alerts.flatMap((a) =>
+    recipientIds.map((recipientId) => ({
+      recipient_id: recipientId,
+      sender_id: senderId,
+      type: 'project_update',
+      title: i18n.t('reorder.notificationTitle', { name: a.name }),
+      message: i18n.t('reorder.notificationMessage', {
+        qty: a.stock_qty.toLocaleString(undefined, { maximumFractionDigits: 3 }),
+        unit: a.unit,
+      }),
+      link: '/production/reorder',
+      reference_type: a.kind,
+      reference_id: a.id,
+      metadata: { lowStock: true },
+    }))
+  );
+
+  const { data: { session } } = await supabase.auth.getSession();
+  const token = session?.access_token;
+  const { data: res, error: invokeError } = await supabase.functions.invoke('create-notification', {
+    body: { notifications: rows },
+    headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+  });
+  const error = invokeError ?? res?.error;
+  if (error) {
+    console.error('[checkLowStock] notification insert failed:', error.message);
+  }
+}
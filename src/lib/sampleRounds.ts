@@ -0,0 +1,113 @@
+import { supabase } from './supabase';
+
+/**
+ * Sample rounds: each product goes through proto → fit → SMS → PPS → TOP samples,
+ * possibly several rounds per stage. The current round is the latest stage/round;
+ * its status follows the dates until a verdict is given.
+ */
+
+export const SAMPLE_STAGES = ['proto', 'fit', 'sms', 'pps', 'top'] as const;
+export const SAMPLE_VERDICTS = ['pending', 'approved', 'revise', 'rejected'] as const;
+
+export type SampleStage = (typeof SAMPLE_STAGES)[number];
+export type SampleVerdict = (typeof SAMPLE_VERDICTS)[number];
+/** Derived: planned → sent → received → verdict */
+export type SampleStatus = 'planned' | 'sent' | 'received' | Exclude<SampleVerdict, 'pending'>;
+
+export interface SampleMeasurement {
+  /** Points-of-measure row the spec comes from (see lib/pointsOfMeasure) */
+  pom_id?: string;
+  /** Point of measure, e.g. "Chest width" */
+  point: string;
+  /** Spec value in cm */
+  spec: number | null;
+  measured: number | null;
+  /** ± tolerance in cm */
+  tolerance: number | null;
+}
+
+export interface SamplePhoto {
+  url: string;
+  caption?: string;
+}
+
+export interface SampleRound {
+  id: string;
+  product_id: string;
+  stage: SampleStage;
+  round_number: number;
+  factory_id: string | null;
+  /** Size the sample was made in – picks the spec column of the POM chart */
+  sample_size: string | null;
+  sent_at: string | null;
+  received_at: string | null;
+  cost: number | null;
+  cost_currency: string;
+  fit_date: string | null;
+  fit_notes: string | null;
+  photos: SamplePhoto[];
+  measurements: SampleMeasurement[];
+  verdict: SampleVerdict;
+  verdict_notes: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  factory?: { id: string; name: string } | null;
+}
+
+export const SAMPLE_ROUND_SELECT = '*, factory:suppliers (id, name)';
+
+export const SAMPLE_STATUS_COLORS: Record<SampleStatus, string> = {
+  planned: 'bg-nokturo-500 text-white',
+  sent: 'bg-blue-600 text-white',
+  received: 'bg-orange text-orange-fg',
+  approved: 'bg-green text-green-fg',
+  revise: 'bg-violet-600 text-white',
+  rejected: 'bg-red text-red-fg',
+};
+
+export function sampleRoundStatus(round: Pick<SampleRound, 'verdict' | 'sent_at' | 'received_at'>): SampleStatus {
+  if (round.verdict !== 'pending') return round.verdict;
+  if (round.received_at) return 'received';
+  if (round.sent_at) return 'sent';
+  return 'planned';
+}
+
+/** Stage order first, then round number – the last one is the current round */
+export function sortRounds(rounds: SampleRound[]): SampleRound[] {
+  return [...rounds].sort(
+    (a, b) =>
+      SAMPLE_STAGES.indexOf(a.stage) - SAMPLE_STAGES.indexOf(b.stage) || a.round_number - b.round_number
+  );
+}
+
+export function currentRound(rounds: SampleRound[]): SampleRound | null {
+  const sorted = sortRounds(rounds);
+  return sorted[sorted.length - 1] ?? null;
+}
+
+/** Next round number within a stage */
+export function nextRoundNumber(rounds: SampleRound[], stage: SampleStage): number {
+  return Math.max(0, ...rounds.filter((r) => r.stage === stage).map((r) => r.round_number)) + 1;
+}
+
+/** Measured − spec; null when either value is missing */
+export function measurementDeviation(m: SampleMeasurement): number | null {
+  return m.spec != null && m.measured != null ? m.measured - m.spec : null;
+}
+
+export function isWithinTolerance(m: SampleMeasurement): boolean | null {
+  const dev = measurementDeviation(m);
+  if (dev == null) return null;
+  return Math.abs(dev) <= (m.tolerance ?? 0) + 1e-9;
+}
+
+export async function uploadSamplePhoto(file: File): Promise<string> {
+  const ext = file.name.split('.').pop() || 'jpg';
+  const fileName = `samples/${Date.now()}-${Math.random().toString(36).slice(2)}.${ext}`;
+  const { error } = await supabase.storage
+    .from('uploads')
+    .upload(fileName, await file.arrayBuffer(), { contentType: file.type || 'image/jpeg', cacheControl: '3600' });
+  if (error) throw new Error(error.message);
+  return supabase.storage.from('uploads').getPublicUrl(fileName).data.publicUrl;
+}
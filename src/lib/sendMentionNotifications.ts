@@ -14,7 +14,9 @@ type NotificationType =
   | 'gallery_tag'
   | 'text_tag'
   | 'product_tag'
-  | 'comment_reply';
+  | 'comment_tag'
+  | 'comment_reply'
+  | 'chat_mention';
 
 interface SendMentionNotificationsParams {
   taggedUserIds: string[];
@@ -35,7 +37,9 @@ const TYPE_MAP: Record<NotificationType, string> = {
   gallery_tag: 'mention',
   text_tag: 'mention',
   product_tag: 'mention',
+  comment_tag: 'mention',
   comment_reply: 'comment',
+  chat_mention: 'mention',
 };
 
 /**
@@ -88,7 +92,9 @@ export async function sendMentionNotifications({
     gallery_tag: 'notifications.galleryTagTitle',
     text_tag: 'notifications.textTagTitle',
     product_tag: 'notifications.productTagTitle',
+    comment_tag: 'notifications.commentTagTitle',
     comment_reply: 'notifications.commentReplyTitle',
+    chat_mention: 'notifications.chatMentionTitle',
   }[type];
 
   const title = i18n.t(titleKey, { name: authorName });
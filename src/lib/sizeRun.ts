@@ -0,0 +1,95 @@
+import type { ProductWithMaterials } from '../components/ProductSlideOver';
+import { convertCurrency, getBaseCurrency } from './currency';
+import type { CurrencyConverter } from './costing';
+
+/**
+ * Size run + grading utilities.
+ * A product carries an ordered size run and a planned size ratio; each BOM row
+ * (product_materials / product_components) may override its consumption per size.
+ */
+
+export type SizeValues = Record<string, number>;
+
+export const SIZE_RUN_PRESETS: Record<string, string[]> = {
+  numeric: ['34', '36', '38', '40', '42', '44'],
+  letter: ['XS', 'S', 'M', 'L', 'XL'],
+};
+
+/** Parse a free-form size run ("34, 36, 38" or "XS S M") into an ordered, de-duplicated list. */
+export function parseSizeRun(input: string): string[] {
+  const seen = new Set<string>();
+  return input
+    .split(/[,;\s]+/)
+    .map((s) => s.trim())
+    .filter((s) => {
+      if (!s || seen.has(s.toUpperCase())) return false;
+      seen.add(s.toUpperCase());
+      return true;
+    });
+}
+
+/** Consumption for one size – graded value when set, otherwise the base consumption. */
+export function consumptionForSize(
+  base: number,
+  bySize: SizeValues | null | undefined,
+  size: string
+): number {
+  const v = bySize?.[size];
+  return typeof v === 'number' && !isNaN(v) ? v : base;
+}
+
+/**
+ * Planned size ratio as weights summing to 1.
+ * Sizes without a ratio get 0; when no ratio is set at all, every size weighs the same.
+ */
+export function normalizeSizeRatio(sizeRun: string[], ratio: SizeValues | null | undefined): SizeValues {
+  const total = sizeRun.reduce((sum, s) => sum + Math.max(0, ratio?.[s] ?? 0), 0);
+  const out: SizeValues = {};
+  for (const s of sizeRun) {
+    out[s] = total > 0 ? Math.max(0, ratio?.[s] ?? 0) / total : 1 / sizeRun.length;
+  }
+  return out;
+}
+
+/** Weighted average of per-size values using the planned size ratio. */
+export function weightedAverage(
+  values: SizeValues,
+  sizeRun: string[],
+  ratio: SizeValues | null | undefined
+): number {
+  if (sizeRun.length === 0) return 0;
+  const weights = normalizeSizeRatio(sizeRun, ratio);
+  return sizeRun.reduce((sum, s) => sum + (values[s] ?? 0) * weights[s], 0);
+}
+
+export interface SizeCost {
+  size: string;
+  /** BOM cost (materials + components), each line converted into the target currency */
+  materialCost: number;
+}
+
+/**
+ * BOM cost for every size of the product's size run (empty when no size run is defined),
+ * in `currency` – the base currency by default.
+ */
+export function computeSizeCosts(
+  product: ProductWithMaterials,
+  currency: string = getBaseCurrency(),
+  convert: CurrencyConverter = convertCurrency
+): SizeCost[] {
+  const sizeRun = product.size_run ?? [];
+  return sizeRun.map((size) => {
+    let materialCost = 0;
+    for (const pm of product.product_materials ?? []) {
+      if (!pm.material) continue;
+      const line = consumptionForSize(pm.consumption_amount, pm.consumption_by_size, size) * (pm.material.price_per_unit || 0);
+      materialCost += convert(line, pm.material.currency || 'EUR', currency);
+    }
+    for (const pc of product.product_components ?? []) {
+      if (!pc.component) continue;
+      const line = consumptionForSize(pc.quantity, pc.quantity_by_size, size) * (pc.component.price_per_unit || 0);
+      materialCost += convert(line, pc.component.currency || 'EUR', currency);
+    }
+    return { size, materialCost };
+  });
+}
@@ -0,0 +1,79 @@
+import { supabase } from './supabase';
+import { SKU_SEPARATOR, skuPart } from './productVariants';
+
+/**
+ * Workspace SKU scheme.
+ * A product SKU is built from the enabled segments in the configured order
+ * (e.g. AW26-COA-0042); the variant colorway suffix and the size are appended per
+ * sellable unit by productVariants.unitSku (AW26-COA-0042-BLK-M).
+ */
+
+export const SKU_SEGMENTS = ['season', 'category', 'number'] as const;
+export type SkuSegment = (typeof SKU_SEGMENTS)[number];
+
+export interface SkuScheme {
+  /** Enabled segments in order */
+  segments: SkuSegment[];
+  /** Zero-padding of the running number */
+  numberDigits: number;
+}
+
+export const DEFAULT_SKU_SCHEME: SkuScheme = {
+  segments: ['season', 'category', 'number'],
+  numberDigits: 4,
+};
+
+/** Category code – the configured code, or the first three letters of the name */
+export function categorySkuCode(category: string | null | undefined, codes: Record<string, string | null>): string {
+  if (!category) return '';
+  return skuPart(codes[category] || category.replace(/[^\p{L}\p{N}]/gu, '').slice(0, 3));
+}
+
+export interface SkuInput {
+  season: string | null | undefined;
+  category: string | null | undefined;
+  number: number | null | undefined;
+}
+
+/** Product SKU (without colorway and size) built from the scheme; empty segments are skipped */
+export function buildProductSku(scheme: SkuScheme, input: SkuInput, categoryCodes: Record<string, string | null>): string {
+  const value = (segment: SkuSegment): string => {
+    switch (segment) {
+      case 'season':
+        return skuPart(input.season).replace(/[^A-Z0-9]/g, '');
+      case 'category':
+        return categorySkuCode(input.category, categoryCodes);
+      case 'number':
+        return input.number != null ? String(input.number).padStart(scheme.numberDigits, '0') : '';
+    }
+  };
+  return scheme.segments.map(value).filter(Boolean).join(SKU_SEPARATOR);
+}
+
+/** Next running number – one above the highest number in use */
+export async function fetchNextSkuNumber(): Promise<number> {
+  const { data } = await supabase
+    .from('products')
+    .select('sku_number')
+    .not('sku_number', 'is', null)
+    .order('sku_number', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  return ((data?.sku_number as number | undefined) ?? 0) + 1;
+}
+
+/**
+ * Colorway suffixes for variants that have none: the first three letters of the variant
+ * name, with a running digit when two variants would collide. Existing suffixes are kept.
+ */
+export function fillColorwaySuffixes<T extends { name: string; sku_suffix: string | null }>(variants: T[]): T[] {
+  const taken = new Set(variants.map((v) => skuPart(v.sku_suffix)).filter(Boolean));
+  return variants.map((v) => {
+    if (skuPart(v.sku_suffix)) return v;
+    const base = skuPart(v.name.replace(/[^\p{L}\p{N}]/gu, '').slice(0, 3)) || 'V';
+    let code = base;
+    for (let i = 2; taken.has(code); i++) code = `${base}${i}`;
+    taken.add(code);
+    return { ...v, sku_suffix: code };
+  });
+}
@@ -0,0 +1,113 @@
+import { supabase } from './supabase';
+import { getUserIdForDb } from '../stores/authStore';
+import { checkLowStock } from './reorder';
+
+/**
+ * Inventory ledger (stock_movements).
+ * Quantities are stored signed; materials/components.stock_qty is kept in sync
+ * with SUM(quantity) by a DB trigger, so it should never be written directly.
+ */
+
+export const MOVEMENT_TYPES = [
+  'receipt',
+  'consumption_sample',
+  'consumption_production',
+  'adjustment',
+  'return',
+] as const;
+
+export type MovementType = (typeof MOVEMENT_TYPES)[number];
+
+export interface StockMovement {
+  id: string;
+  material_id: string | null;
+  component_id: string | null;
+  movement_type: MovementType;
+  quantity: number;
+  reason: string | null;
+  accounting_order_id: string | null;
+  production_order_id: string | null;
+  product_id: string | null;
+  created_by: string | null;
+  created_at: string;
+  profile?: { full_name: string | null; first_name: string | null; last_name: string | null } | null;
+  accounting_order?: { order_number: string | null; order_date: string | null } | null;
+  product?: { name: string } | null;
+}
+
+export type StockItemRef =
+  | { kind: 'material'; id: string }
+  | { kind: 'component'; id: string };
+
+/** Outgoing movement types always reduce stock; adjustments keep the sign the user entered. */
+export function signedQuantity(type: MovementType, qty: number): number {
+  switch (type) {
+    case 'receipt':
+      return Math.abs(qty);
+    case 'consumption_sample':
+    case 'consumption_production':
+    case 'return':
+      return -Math.abs(qty);
+    default:
+      return qty;
+  }
+}
+
+export interface NewStockMovement {
+  item: StockItemRef;
+  type: MovementType;
+  /** Entered amount – sign is normalized by movement type */
+  quantity: number;
+  reason?: string | null;
+  accountingOrderId?: string | null;
+  productionOrderId?: string | null;
+  productId?: string | null;
+}
+
+/** Book one or more movements and re-check reorder points; returns the Supabase error message or null. */
+export async function recordStockMovements(movements: NewStockMovement[]): Promise<string | null> {
+  const rows = movements
+    .map((m) => ({
+      material_id: m.item.kind === 'material' ? m.item.id : null,
+      component_id: m.item.kind === 'component' ? m.item.id : null,
+      movement_type: m.type,
+      quantity: signedQuantity(m.type, m.quantity),
+      reason: m.reason?.trim() || null,
+      accounting_order_id: m.accountingOrderId ?? null,
+      production_order_id: m.productionOrderId ?? null,
+      product_id: m.productId ?? null,
+      created_by: getUserIdForDb(),
+    }))
+    .filter((r) => r.quantity !== 0);
+  if (rows.length === 0) return null;
+  const { error } = await supabase.from('stock_movements').insert(rows);
+  if (error) return error.message;
+  // Reorder alerts run in the background; a failed notification must not fail the booking
+  void checkLowStock(movements.map((m) => m.item));
+  return null;
+}
+
+/** Book a correction when the on-hand quantity is edited in a form (the ledger stays the source of truth). */
+export async function bookStockCorrection(
+  item: StockItemRef,
+  previousQty: number,
+  nextQty: number,
+  reason: string
+): Promise<string | null> {
+  const delta = nextQty - previousQty;
+  if (delta === 0) {
+    // Nothing to book, but the form may have changed the reorder point
+    void checkLowStock([item]);
+    return null;
+  }
+  return recordStockMovements([{ item, type: 'adjustment', quantity: delta, reason }]);
+}
+
+export const STOCK_MOVEMENT_SELECT =
+  '*, profile:profiles!stock_movements_created_by_fkey(full_name, first_name, last_name), accounting_order:accounting_orders(order_number, order_date), product:products(name)';
+
+export function movementAuthorName(m: StockMovement): string {
+  const p = m.profile;
+  if (!p) return '—';
+  return p.full_name || [p.first_name, p.last_name].filter(Boolean).join(' ') || '—';
+}
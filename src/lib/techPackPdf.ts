@@ -0,0 +1,566 @@
+import type { TFunction } from 'i18next';
+import type { ProductWithMaterials, ProductTechPack } from '../components/ProductSlideOver';
+import type { RichTextBlock } from '../components/RichTextBlockEditor';
+import { blocksToHtml } from '../utils/blocksToHtml';
+import { consumptionForSize } from './sizeRun';
+import { pomSpecForSize } from './pointsOfMeasure';
+import { sortVariants, variantSku } from './productVariants';
+import { barcodeUnits, ean13DataUrl } from './barcodes';
+import {
+  CARE_LABEL_LANGUAGE_NAMES,
+  careLabelLanguages,
+  careSymbolDataUrl,
+  computeFibreContent,
+  fibreContentText,
+  selectedCareSymbols,
+} from './careLabel';
+import type { PinNote } from './comments';
+
+/**
+ * Tech pack PDF – a fixed-layout A4 document sent to factories.
+ *
+ * Pagination happens here, not in the print engine: the document is rendered in a
+ * hidden A4 frame and flowing sections (tables, construction notes) are split into
+ * pages by their measured height – tables break between rows and repeat their header.
+ * Each page carries its own header and footer (revision, date, page x / y). The same
+ * pages are turned into a PDF by the Electron main process (webContents.printToPDF) or
+ * rasterised one by one in the browser build, so the layout does not depend on where
+ * it was generated.
+ */
+
+export interface TechPackPdfOptions {
+  t: TFunction;
+  locale: string;
+  /** Issued revision label (e.g. "B"); null while the tech pack is a working draft */
+  revision: string | null;
+  /** Date printed on the document – defaults to today */
+  date?: Date;
+  /** Open pin annotations of the design gallery per image index – drawn over the images, listed on the pages after the gallery */
+  designPins?: Record<number, PinNote[]>;
+}
+
+// Gallery pages are a fixed 2 × 2 grid
+const GALLERY_PER_PAGE = 4;
+
+const esc = (value: unknown): string =>
+  String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const chunk = <T>(items: T[], size: number): T[][] => {
+  const out: T[][] = [];
+  for (let i = 0; i < items.length; i += size) out.push(items.slice(i, i + size));
+  return out.length > 0 ? out : [[]];
+};
+
+/** Description blocks – rich blocks, JSON stored in `description`, or legacy plain text */
+function descriptionBlocks(product: ProductWithMaterials): RichTextBlock[] {
+  if (product.description_blocks?.length) return product.description_blocks;
+  if (!product.description) return [];
+  try {
+    const parsed = JSON.parse(product.description);
+    if (Array.isArray(parsed)) return parsed as RichTextBlock[];
+  } catch {
+    /* plain text */
+  }
+  return [{ id: 'p1', type: 'paragraph', size: 'normal', content: esc(product.description) }];
+}
+
+interface TableSpec {
+  /** Omitted when the page header already names the table */
+  title?: string;
+  head: string[];
+  /** Column alignment – 'r' for numeric columns */
+  align?: ('l' | 'r')[];
+  rows: string[][];
+}
+
+/** Table that the layout may split between rows – continuation parts repeat the title and header row */
+function tableHtml(spec: TableSpec, t: TFunction): string {
+  if (spec.rows.length === 0) return '';
+  const cell = (tag: 'th' | 'td', value: string, i: number) =>
+    `<${tag}${spec.align?.[i] === 'r' ? ' class="r"' : ''}>${value}</${tag}>`;
+  return `
+    <div class="flow-table" data-continued="${esc(t('products.techPack.pdf.continued'))}">
+      ${spec.title ? `<h3>${esc(spec.title)}</h3>` : ''}
+      <table>
+        <thead><tr>${spec.head.map((h, i) => cell('th', esc(h), i)).join('')}</tr></thead>
+        <tbody>${spec.rows.map((r) => `<tr>${r.map((v, i) => cell('td', v, i)).join('')}</tr>`).join('')}</tbody>
+      </table>
+    </div>`;
+}
+
+/** Content kept whole – moves to the next page when it does not fit */
+const flowItem = (html: string) => `<div class="flow-item">${html}</div>`;
+
+/** Section paginated by the layout; renders no page when empty */
+const flowSection = (title: string, items: string[]) =>
+  `<div class="flow" data-title="${esc(title)}">${items.join('')}</div>`;
+
+export function buildTechPackHtml(product: ProductWithMaterials, options: TechPackPdfOptions): string {
+  const { t, locale, revision, designPins = {} } = options;
+  const tp = (product.tech_pack || {}) as ProductTechPack;
+  const date = (options.date ?? new Date()).toLocaleDateString(locale, { day: 'numeric', month: 'short', year: 'numeric' });
+  const sizeRun = product.size_run ?? [];
+  const translated = (key: string, fallback: string) => (t(key) !== key ? t(key) : fallback);
+
+  // ── Cover ───────────────────────────────────────────────────
+  const specs: [string, string | undefined | null][] = [
+    [t('products.category'), product.category ? translated(`products.categories.${product.category}`, product.category) : null],
+    [t('products.status'), translated(`products.statuses.${product.status}`, product.status)],
+    [t('products.sizeRun.title'), sizeRun.join(', ')],
+    [t('products.techPack.pdf.revision'), revision ?? t('products.techPack.pdf.workingDraft')],
+    [t('products.techPack.pdf.date'), date],
+  ];
+  const cover = `
+    <div class="cover">
+      <div class="cover-text">
+        <p class="brand">NOKTURO</p>
+        <h1>${esc(product.name)}</h1>
+        ${product.sku ? `<p class="sku">SKU ${esc(product.sku)}</p>` : ''}
+        ${product.short_description ? `<p class="lead">${esc(product.short_description)}</p>` : ''}
+        <dl>${specs
+          .filter(([, v]) => v)
+          .map(([k, v]) => `<dt>${esc(k)}</dt><dd>${esc(v)}</dd>`)
+          .join('')}</dl>
+      </div>
+      ${tp.preview_photo_url ? `<div class="cover-image"><img src="${esc(tp.preview_photo_url)}" alt="" /></div>` : ''}
+    </div>`;
+
+  // ── Bill of materials (no prices – the document goes to factories) ──
+  const roleLabel = (role?: string | null) =>
+    role === 'main' || !role ? t('products.materials.main') : translated(`products.materials.${role}`, role);
+  const variants = sortVariants(product.product_variants);
+  const variantName = (variantId?: string | null) =>
+    variantId ? variants.find((v) => v.id === variantId)?.name ?? '—' : t('products.variants.base');
+  // Overrides carry their variant after the name
+  const scopedName = (name: string, variantId?: string | null) =>
+    `${esc(name)}${variantId ? ` <span class="muted">(${esc(variantName(variantId))})</span>` : ''}`;
+  const variantRows = variants.map((v) => [
+    `${v.color_code ? `<span class="swatch" style="background:${esc(v.color_code)}"></span>` : ''}${esc(v.name)}`,
+    esc(v.color_code ?? '—'),
+    esc(variantSku(product.sku, v) || '—'),
+  ]);
+  const barcodeRows = barcodeUnits(product, product.product_variants, product.product_barcodes)
+    .filter((u) => u.ean)
+    .map((u) => [
+      esc(u.sku || '—'),
+      esc(u.variant?.name ?? t('products.variants.base')),
+      esc(u.size ?? '—'),
+      `<img class="barcode" src="${ean13DataUrl(u.ean!)}" alt="${esc(u.ean)}" />`,
+    ]);
+  const materialRows = (product.product_materials ?? []).map((pm) => [
+    esc(roleLabel(pm.role)),
+    `${pm.material?.color ? `<span class="swatch" style="background:${esc(pm.material.color)}"></span>` : ''}${esc(pm.material?.name ?? '—')}`,
+    esc(pm.material?.composition ?? '—'),
+    esc(variantName(pm.variant_id)),
+    `${esc(pm.consumption_amount)} ${esc(pm.material?.unit ?? '')}`,
+    esc(pm.notes ?? ''),
+  ]);
+  const labelRows = (product.product_labels ?? []).map((pl) => [
+    scopedName(pl.label?.name ?? '—', pl.variant_id),
+    esc(pl.label?.typ ? translated(`labels.types.${pl.label.typ}`, pl.label.typ) : '—'),
+    esc(pl.label?.width_mm && pl.label?.height_mm ? `${pl.label.width_mm} × ${pl.label.height_mm} mm` : '—'),
+    esc((pl.placement ?? []).map((p) => translated(`labels.placements.${p}`, p)).join(', ') || '—'),
+    esc(pl.notes ?? ''),
+  ]);
+  const componentRows = (product.product_components ?? []).map((pc) => [
+    scopedName(pc.component?.name ?? '—', pc.variant_id),
+    esc(pc.component?.type ? translated(`components.types.${pc.component.type}`, pc.component.type) : '—'),
+    esc(pc.quantity),
+    esc(pc.notes ?? ''),
+  ]);
+  const gradedRows = sizeRun.length
+    ? [
+        ...(product.product_materials ?? []).map((pm) => [
+          `${scopedName(pm.material?.name ?? '—', pm.variant_id)} <span class="muted">${esc(pm.material?.unit ?? '')}</span>`,
+          ...sizeRun.map((s) => esc(consumptionForSize(pm.consumption_amount, pm.consumption_by_size, s))),
+        ]),
+        ...(product.product_components ?? []).map((pc) => [
+          scopedName(pc.component?.name ?? '—', pc.variant_id),
+          ...sizeRun.map((s) => esc(consumptionForSize(pc.quantity, pc.quantity_by_size, s))),
+        ]),
+      ]
+    : [];
+  const fibreContent = computeFibreContent(product);
+  const careSymbols = selectedCareSymbols(product.care_label);
+  const careLabelRows = [
+    ...(careSymbols.length > 0
+      ? [
+          [
+            esc(t('careLabel.careSymbols')),
+            careSymbols
+              .map((code) => `<img class="care-symbol" src="${careSymbolDataUrl(code)}" alt="${esc(t(`careLabel.symbols.${code}`))}" />`)
+              .join(''),
+          ],
+        ]
+      : []),
+    ...(fibreContent.sections.length > 0
+      ? careLabelLanguages(product.care_label).map((lang) => [
+          esc(CARE_LABEL_LANGUAGE_NAMES[lang]),
+          fibreContentText(fibreContent, lang).split('\n').map(esc).join('<br />'),
+        ])
+      : []),
+  ];
+  const bomTables: TableSpec[] = [
+    {
+      title: t('products.variants.title'),
+      head: [t('products.variants.variant'), t('products.variants.colorCode'), t('products.sku')],
+      rows: variantRows,
+    },
+    {
+      title: t('products.barcodes.title'),
+      head: [t('products.sku'), t('products.variants.variant'), t('products.barcodes.size'), 'EAN-13'],
+      rows: barcodeRows,
+    },
+    {
+      title: t('products.techPack.billOfMaterials'),
+      head: [
+        t('products.techPack.pdf.role'),
+        t('products.techPack.material'),
+        t('products.techPack.composition'),
+        t('products.variants.variant'),
+        t('products.techPack.consumption'),
+        t('products.techPack.pdf.notes'),
+      ],
+      align: ['l', 'l', 'l', 'l', 'r', 'l'],
+      rows: materialRows,
+    },
+    {
+      title: t('products.labels.title'),
+      head: [t('labels.name'), t('labels.typ'), t('products.techPack.pdf.size'), t('products.labels.placement'), t('products.techPack.pdf.notes')],
+      rows: labelRows,
+    },
+    {
+      title: t('careLabel.title'),
+      head: [t('careLabel.language'), t('careLabel.content')],
+      rows: careLabelRows,
+    },
+    {
+      title: t('products.techPack.pdf.components'),
+      head: [t('products.techPack.pdf.component'), t('products.techPack.pdf.type'), t('products.techPack.pdf.quantity'), t('products.techPack.pdf.notes')],
+      align: ['l', 'l', 'r', 'l'],
+      rows: componentRows,
+    },
+    {
+      title: t('products.techPack.sizeGrading'),
+      head: [t('products.techPack.material'), ...sizeRun],
+      align: ['l', ...sizeRun.map(() => 'r' as const)],
+      rows: gradedRows,
+    },
+  ];
+
+  // ── Construction details ────────────────────────────────────
+  const constructionSpecs: [string, string | undefined][] = [
+    [t('products.threads'), tp.threads],
+    [t('products.interlining'), tp.interlining],
+    [t('products.waistband'), product.category === 'trousers' ? tp.waistband : undefined],
+    [t('products.seamAllowance'), product.category === 'trousers' ? tp.seam_allowance : undefined],
+  ];
+  const specList = constructionSpecs.filter(([, v]) => v);
+  const blocks = descriptionBlocks(product).filter((b) => b.type !== 'tag' || b.visible !== false);
+  const constructionItems = [
+    ...(specList.length
+      ? [flowItem(`<dl class="specs">${specList.map(([k, v]) => `<dt>${esc(k)}</dt><dd>${esc(v)}</dd>`).join('')}</dl>`)]
+      : []),
+    ...blocks.map((block) => flowItem(blocksToHtml([block]))),
+  ];
+
+  // ── Gallery ─────────────────────────────────────────────────
+  const galleryImage = (url: string, pins: PinNote[]) =>
+    pins.length
+      ? `<div class="pinned"><img src="${esc(url)}" alt="" />${pins
+          .map(
+            (p) =>
+              `${p.w && p.h ? `<span class="pin-region" style="left:${p.x}%;top:${p.y}%;width:${p.w}%;height:${p.h}%"></span>` : ''}<span class="pin" style="left:${p.x}%;top:${p.y}%">${p.number}</span>`
+          )
+          .join('')}</div>`
+      : `<img src="${esc(url)}" alt="" />`;
+  const galleryImages = (tp.design_gallery ?? []).map((img, index) => ({
+    ...img,
+    label: t('products.techPack.pdf.figure', { number: index + 1 }),
+    pins: designPins[index] ?? [],
+  }));
+  const galleryPages = galleryImages.length
+    ? chunk(galleryImages, GALLERY_PER_PAGE).map(
+        (imgs) =>
+          `<div class="gallery">${imgs
+            .map(
+              (img) =>
+                `<figure><div class="frame">${galleryImage(img.url, img.pins)}</div>${
+                  img.caption || img.pins.length
+                    ? `<figcaption>${[img.pins.length ? `<strong>${esc(img.label)}</strong>` : '', esc(img.caption ?? '')]
+                        .filter(Boolean)
+                        .join(' · ')}</figcaption>`
+                    : ''
+                }</figure>`
+            )
+            .join('')}</div>`
+      )
+    : [];
+  // Pin legends flow after the gallery – a fixed grid cell has no room for long notes
+  const pinNoteItems = galleryImages
+    .filter((img) => img.pins.length)
+    .map((img) =>
+      tableHtml(
+        {
+          title: [img.label, img.caption].filter(Boolean).join(' · '),
+          head: ['#', t('products.techPack.pdf.notes')],
+          rows: img.pins.map((p) => [`<span class="pin-no">${p.number}</span>`, esc(p.content)]),
+        },
+        t
+      )
+    );
+
+  // ── Measurement chart ───────────────────────────────────────
+  const poms = (tp.points_of_measure ?? []).filter((p) => p.name.trim());
+  const pomItems = poms.length
+    ? [
+        tableHtml(
+          {
+            head: [t('products.pom.code'), t('products.pom.point'), ...sizeRun, `± ${t('products.pom.tolerance')}`],
+            align: ['l', 'l', ...sizeRun.map(() => 'r' as const), 'r'],
+            rows: poms.map((p) => [
+              `<strong>${esc(p.code)}</strong>`,
+              `${esc(p.name)}${p.how_to_measure ? `<div class="muted">${esc(p.how_to_measure)}</div>` : ''}`,
+              ...sizeRun.map((s) => esc(pomSpecForSize(p, s) ?? '—')),
+              esc(p.tolerance ?? '—'),
+            ]),
+          },
+          t
+        ),
+        flowItem(`<p class="muted">${esc(t('products.techPack.measurementChartHint'))}</p>`),
+      ]
+    : [];
+
+  // ── Assemble pages ──────────────────────────────────────────
+  const revisionText = revision
+    ? t('products.techPack.pdf.revisionLabel', { revision })
+    : t('products.techPack.pdf.workingDraft');
+  // Page numbers are filled in by layoutTechPack once the page count is known
+  const page = (title: string, body: string) => `
+      <section class="page">
+        <header>
+          <span><strong>NOKTURO</strong> · ${esc(product.name)}${product.sku ? ` · ${esc(product.sku)}` : ''}</span>
+          <span class="page-title">${esc(title)}</span>
+        </header>
+        <main>${body}</main>
+        <footer>
+          <span>${esc(revisionText)} · ${esc(date)}</span>
+          <span class="page-no"></span>
+        </footer>
+      </section>`;
+
+  const pages = [
+    page(t('products.techPack.pdf.cover'), cover),
+    flowSection(t('products.techPack.billOfMaterials'), bomTables.map((spec) => tableHtml(spec, t))),
+    flowSection(t('products.techPack.pdf.construction'), constructionItems),
+    ...galleryPages.map((body) => page(t('products.designGallery'), body)),
+    flowSection(t('products.techPack.pdf.pinNotes'), pinNoteItems),
+    flowSection(t('products.techPack.measurementChart'), pomItems),
+  ].join('');
+  const pageOf = t('products.techPack.pdf.pageOf', { page: '{page}', total: '{total}' });
+
+  return `<!DOCTYPE html>
+<html lang="${esc(locale.slice(0, 2))}">
+<head>
+<meta charset="utf-8" />
+<title>${esc(techPackFileName(product, revision).replace(/\.pdf$/, ''))}</title>
+<style>
+  @page { size: A4; margin: 0; }
+  * { box-sizing: border-box; }
+  html, body { margin: 0; padding: 0; background: #fff; }
+  body { font-family: 'Helvetica Neue', Helvetica, Arial, sans-serif; font-size: 9pt; line-height: 1.45; color: #1a1a1a; -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+  .page { width: 210mm; height: 297mm; padding: 12mm 14mm; display: flex; flex-direction: column; overflow: hidden; page-break-after: always; break-after: page; }
+  .page:last-child { page-break-after: auto; break-after: auto; }
+  header, footer { display: flex; justify-content: space-between; font-size: 7.5pt; color: #6b6b6b; flex-shrink: 0; }
+  header { border-bottom: 0.5pt solid #c8c8c8; padding-bottom: 2.5mm; margin-bottom: 6mm; text-transform: uppercase; letter-spacing: 0.06em; }
+  footer { border-top: 0.5pt solid #c8c8c8; padding-top: 2.5mm; margin-top: 4mm; }
+  main { flex: 1; min-height: 0; overflow: hidden; }
+  h1 { font-size: 26pt; font-weight: 300; margin: 0 0 2mm; }
+  h3 { font-size: 10pt; font-weight: 600; text-transform: uppercase; letter-spacing: 0.05em; margin: 0 0 2mm; }
+  .flow-table + .flow-table { margin-top: 6mm; }
+  .flow-table + .flow-item { margin-top: 3mm; }
+  table { width: 100%; border-collapse: collapse; font-size: 8pt; }
+  th { text-align: left; font-weight: 600; color: #6b6b6b; border-bottom: 0.75pt solid #1a1a1a; padding: 1.5mm 2mm; }
+  td { border-bottom: 0.5pt solid #e0e0e0; padding: 1.5mm 2mm; vertical-align: top; }
+  .r { text-align: right; font-variant-numeric: tabular-nums; }
+  .muted { color: #8a8a8a; font-weight: 400; }
+  .barcode { height: 12mm; display: block; }
+  .care-symbol { height: 8mm; margin-right: 1.5mm; vertical-align: middle; }
+  .swatch { display: inline-block; width: 2.5mm; height: 2.5mm; border-radius: 50%; border: 0.5pt solid #999; margin-right: 1.5mm; vertical-align: middle; }
+  .cover { display: flex; gap: 10mm; height: 100%; }
+  .cover-text { flex: 1; display: flex; flex-direction: column; justify-content: flex-end; }
+  .cover-image { width: 95mm; display: flex; align-items: center; }
+  .cover-image img { width: 100%; max-height: 240mm; object-fit: contain; }
+  .brand { letter-spacing: 0.3em; font-size: 9pt; margin: 0 0 auto; }
+  .sku { color: #6b6b6b; margin: 0 0 4mm; }
+  .lead { font-size: 12pt; margin: 0 0 8mm; }
+  dl { display: grid; grid-template-columns: 32mm 1fr; gap: 1.5mm 4mm; margin: 0; }
+  dt { color: #6b6b6b; }
+  dd { margin: 0; }
+  dl.specs { margin-bottom: 6mm; }
+  main h1, main h2 { font-size: 12pt; font-weight: 600; margin: 4mm 0 2mm; }
+  main p { margin: 0 0 2mm; }
+  main img { max-width: 100%; max-height: 80mm; object-fit: contain; }
+  .rte-gallery, .rte-image-grid { display: grid; grid-template-columns: repeat(3, 1fr); gap: 2mm; }
+  .rte-grid td, .rte-grid th { border: 0.5pt solid #e0e0e0; }
+  .rte-tag { display: none; }
+  .gallery { display: grid; grid-template-columns: 1fr 1fr; grid-template-rows: 1fr 1fr; gap: 6mm; height: 100%; }
+  .gallery figure { margin: 0; display: flex; flex-direction: column; min-height: 0; }
+  .gallery .frame { flex: 1; min-height: 0; display: flex; align-items: center; justify-content: center; background: #f5f5f5; }
+  .gallery img { max-width: 100%; max-height: 100%; object-fit: contain; }
+  .gallery figcaption { font-size: 8pt; color: #6b6b6b; padding-top: 1.5mm; }
+  .pinned { position: relative; display: inline-block; line-height: 0; max-width: 100%; }
+  .pinned img { display: block; max-width: 100%; max-height: 90mm; }
+  .pin { position: absolute; transform: translate(-50%, -50%); width: 5mm; height: 5mm; border-radius: 50%; background: #1a1a1a; color: #fff; border: 0.4mm solid #fff; font-size: 7pt; font-weight: 600; line-height: 4.2mm; text-align: center; }
+  .pin-region { position: absolute; border: 0.5mm solid #d92d20; }
+  .pin-no { display: inline-block; width: 3.6mm; height: 3.6mm; border-radius: 50%; background: #1a1a1a; color: #fff; font-size: 6pt; font-weight: 600; line-height: 3.6mm; text-align: center; }
+</style>
+</head>
+<body data-page-of="${esc(pageOf)}">${pages}<template id="page-template">${page('', '')}</template></body>
+</html>`;
+}
+
+export function techPackFileName(product: Pick<ProductWithMaterials, 'name' | 'sku'>, revision: string | null): string {
+  const base = (product.sku || product.name).replace(/[^\w\-]+/g, '_').replace(/^_+|_+$/g, '') || 'tech-pack';
+  return `${base}_tech-pack${revision ? `_rev-${revision}` : ''}.pdf`;
+}
+
+/** Wait until every image of a document has loaded (or failed) */
+function imagesLoaded(doc: Document): Promise<void> {
+  const pending = Array.from(doc.images).filter((img) => !img.complete);
+  return Promise.all(
+    pending.map((img) => new Promise<void>((resolve) => {
+      img.addEventListener('load', () => resolve(), { once: true });
+      img.addEventListener('error', () => resolve(), { once: true });
+    }))
+  ).then(() => undefined);
+}
+
+/** Split one flowing section into pages, inserted where the section stood */
+function paginateFlow(doc: Document, flow: HTMLElement): void {
+  const template = doc.getElementById('page-template') as HTMLTemplateElement;
+  const title = flow.dataset.title ?? '';
+  let main: HTMLElement | null = null;
+  const openPage = () => {
+    const page = template.content.firstElementChild!.cloneNode(true) as HTMLElement;
+    page.querySelector('.page-title')!.textContent = title;
+    flow.before(page);
+    main = page.querySelector('main')!;
+    return main;
+  };
+  const fits = (m: HTMLElement) => m.scrollHeight <= m.clientHeight + 1;
+
+  for (const item of Array.from(flow.children) as HTMLElement[]) {
+    let target = main ?? openPage();
+    if (!item.classList.contains('flow-table')) {
+      target.appendChild(item);
+      // Kept whole; an item taller than a page stays alone on it
+      if (!fits(target) && target.children.length > 1) openPage().appendChild(item);
+      continue;
+    }
+
+    const rows = Array.from(item.querySelectorAll('tbody > tr'));
+    const emptyPart = item.cloneNode(true) as HTMLElement;
+    emptyPart.querySelector('tbody')!.replaceChildren();
+    const heading = emptyPart.querySelector('h3');
+    if (heading) {
+      const muted = doc.createElement('span');
+      muted.className = 'muted';
+      muted.textContent = ` (${item.dataset.continued ?? ''})`;
+      heading.appendChild(muted);
+    }
+    let part = item;
+    let body = item.querySelector('tbody')!;
+    body.replaceChildren();
+    target.appendChild(part);
+    for (const row of rows) {
+      body.appendChild(row);
+      if (fits(target)) continue;
+      const firstRow = body.children.length === 1;
+      // A table never starts with its header alone at the bottom of a page
+      if (firstRow && target.children.length === 1) continue;
+      row.remove();
+      if (firstRow) part.remove();
+      target = openPage();
+      if (!firstRow) {
+        part = emptyPart.cloneNode(true) as HTMLElement;
+        body = part.querySelector('tbody')!;
+      }
+      target.appendChild(part);
+      body.appendChild(row);
+    }
+  }
+  flow.remove();
+}
+
+/**
+ * Render the document in a hidden A4-wide frame, paginate its flowing sections by measured
+ * height and number the pages. The caller removes the returned frame.
+ */
+async function layoutTechPack(html: string): Promise<HTMLIFrameElement> {
+  const iframe = document.createElement('iframe');
+  iframe.style.cssText = 'position:fixed;left:0;top:0;width:210mm;height:297mm;border:0;visibility:hidden;pointer-events:none;';
+  document.body.appendChild(iframe);
+  await new Promise<void>((resolve) => {
+    iframe.addEventListener('load', () => resolve(), { once: true });
+    iframe.srcdoc = html;
+  });
+  const doc = iframe.contentDocument;
+  if (!doc) {
+    iframe.remove();
+    throw new Error('PDF export failed');
+  }
+  await imagesLoaded(doc);
+  await doc.fonts.ready;
+
+  for (const flow of Array.from(doc.querySelectorAll<HTMLElement>('.flow'))) paginateFlow(doc, flow);
+  doc.getElementById('page-template')?.remove();
+
+  const pages = Array.from(doc.querySelectorAll('.page'));
+  const pageOf = doc.body.dataset.pageOf ?? '';
+  pages.forEach((page, i) => {
+    page.querySelector('.page-no')!.textContent = pageOf
+      .replace('{page}', String(i + 1))
+      .replace('{total}', String(pages.length));
+  });
+  return iframe;
+}
+
+/** Rasterise the laid-out pages into an A4 PDF (browser build – there is no print-to-PDF API) */
+async function pagesToPdf(doc: Document) {
+  const [{ jsPDF }, { default: html2canvas }] = await Promise.all([import('jspdf'), import('html2canvas')]);
+  const pdf = new jsPDF({ unit: 'mm', format: 'a4', compress: true });
+  const pages = Array.from(doc.querySelectorAll<HTMLElement>('.page'));
+  for (let i = 0; i < pages.length; i++) {
+    const canvas = await html2canvas(pages[i], { scale: 2, useCORS: true, backgroundColor: '#ffffff', logging: false });
+    if (i > 0) pdf.addPage();
+    pdf.addImage(canvas.toDataURL('image/jpeg', 0.92), 'JPEG', 0, 0, 210, 297);
+  }
+  return pdf;
+}
+
+/**
+ * Generate the tech pack PDF. Electron renders it in the main process and asks where to save it;
+ * the browser build renders the same pages into a PDF and downloads it.
+ * Resolves to false when the user cancelled the save dialog.
+ */
+export async function exportTechPackPdf(product: ProductWithMaterials, options: TechPackPdfOptions): Promise<boolean> {
+  const fileName = techPackFileName(product, options.revision);
+  const iframe = await layoutTechPack(buildTechPackHtml(product, options));
+  try {
+    const doc = iframe.contentDocument!;
+    if (window.electronAPI?.exportPdf) {
+      const result = await window.electronAPI.exportPdf(`<!DOCTYPE html>\n${doc.documentElement.outerHTML}`, fileName);
+      if (result.status === 'error') throw new Error(result.message || 'PDF export failed');
+      return result.status === 'ok';
+    }
+    (await pagesToPdf(doc)).save(fileName);
+    return true;
+  } finally {
+    iframe.remove();
+  }
+}
@@ -2,7 +2,7 @@ import { useState, useEffect, useCallback } from 'react';
 import { useTranslation } from 'react-i18next';
 import { supabase } from '../../lib/supabase';
 import { useAuthStore } from '../../stores/authStore';
-import { useExchangeRates, convertToCzk } from '../../lib/currency';
+import { useExchangeRates, convertToBase, formatBaseAmount, formatInBase, isBaseConversionApproximate } from '../../lib/currency';
 import { canDeleteAnything } from '../../lib/rbac';
 import { PageShell } from '../../components/PageShell';
 import { ToastContainer, type ToastData } from '../../components/Toast';
@@ -12,6 +12,7 @@ import {
 } from '../../components/AccountingSlideOver';
 import { AccountingDetailSlideOver } from '../../components/AccountingDetailSlideOver';
 import { AccountingOrderRow } from '../../components/AccountingOrderRow';
+import { ExchangeRatesSlideOver } from '../../components/ExchangeRatesSlideOver';
 import {
   SubscriptionSlideOver,
   type Subscription,
@@ -29,11 +30,16 @@ export default function AccountingPage() {
   const { t } = useTranslation();
   const user = useAuthStore((s) => s.user);
   const canDelete = canDeleteAnything(user?.role ?? 'client');
-  useExchangeRates();
 
   const [pageTab, setPageTab] = useState<PageTab>('orders');
 
   const [orders, setOrders] = useState<AccountingOrder[]>([]);
+  // Orders are converted at their order date – load stored rates back to the oldest one
+  const oldestOrderDate = orders.reduce<string | null>((min, o) => {
+    const d = (o.order_date ?? o.created_at).slice(0, 10);
+    return !min || d < min ? d : min;
+  }, null);
+  useExchangeRates(oldestOrderDate);
   const [loading, setLoading] = useState(true);
 
   const [categoryFilter, setCategoryFilter] = useState<string[]>([]);
@@ -60,6 +66,7 @@ export default function AccountingPage() {
   const [subStatusFilter, setSubStatusFilter] = useState<string[]>([]);
   const [subSortBy, setSubSortBy] = useState<'date' | 'amount' | 'nextBilling'>('date');
   const [subSortAsc, setSubSortAsc] = useState(false);
+  const [ratesOpen, setRatesOpen] = useState(false);
 
   const addToast = useCallback((message: string, type: 'success' | 'error' | 'info' = 'error') => {
     setToasts((prev) => [...prev, { id: crypto.randomUUID(), message, type }]);
@@ -71,7 +78,7 @@ export default function AccountingPage() {
     const dateAsc = sortBy === 'date' ? sortAsc : false;
     let query = supabase
       .from('accounting_orders')
-      .select('*, supplier:suppliers(name)')
+      .select('*, supplier:suppliers(name), accounting_order_items(*)')
       .order('created_at', { ascending: dateAsc });
 
     if (categoryFilter.length > 0) {
@@ -88,9 +95,9 @@ export default function AccountingPage() {
       if (sortBy === 'value') {
         const mult = sortAsc ? -1 : 1;
         list = [...list].sort((a, b) => {
-          const aCzk = (a.order_value ?? 0) ? convertToCzk(a.order_value!, a.order_currency || 'EUR') : 0;
-          const bCzk = (b.order_value ?? 0) ? convertToCzk(b.order_value!, b.order_currency || 'EUR') : 0;
-          return mult * (bCzk - aCzk);
+          const aBase = (a.order_value ?? 0) ? convertToBase(a.order_value!, a.order_currency || 'EUR', a.order_date ?? a.created_at) : 0;
+          const bBase = (b.order_value ?? 0) ? convertToBase(b.order_value!, b.order_currency || 'EUR', b.order_date ?? b.created_at) : 0;
+          return mult * (bBase - aBase);
         });
       }
       setOrders(list);
@@ -236,9 +243,9 @@ export default function AccountingPage() {
       if (subSortBy === 'amount') {
         const mult = subSortAsc ? -1 : 1;
         list = [...list].sort((a, b) => {
-          const aCzk = convertToCzk(a.amount ?? 0, a.currency || 'EUR');
-          const bCzk = convertToCzk(b.amount ?? 0, b.currency || 'EUR');
-          return mult * (bCzk - aCzk);
+          const aBase = convertToBase(a.amount ?? 0, a.currency || 'EUR', a.next_billing_date);
+          const bBase = convertToBase(b.amount ?? 0, b.currency || 'EUR', b.next_billing_date);
+          return mult * (bBase - aBase);
         });
       } else if (subSortBy === 'nextBilling') {
         list = [...list].sort((a, b) => {
@@ -297,30 +304,39 @@ export default function AccountingPage() {
 
   // Overview stats (from filtered orders)
   const ordersComing = orders.filter((o) => o.order_status === 'ordered').length;
-  const spentCzk = orders
-    .filter((o) => (o.order_status === 'delivered' || o.order_status === 'ordered') && o.order_value != null)
-    .reduce((sum, o) => sum + convertToCzk(o.order_value!, o.order_currency || 'EUR'), 0);
+  const spentOrders = orders.filter(
+    (o) => (o.order_status === 'delivered' || o.order_status === 'ordered') && o.order_value != null
+  );
+  // Totals are approximate when any order had no stored rate for its date
+  const spentApproximate = spentOrders.some((o) =>
+    isBaseConversionApproximate(o.order_currency || 'EUR', o.order_date ?? o.created_at)
+  );
+  const spentBase = spentOrders.reduce((sum, o) => sum + convertToBase(o.order_value!, o.order_currency || 'EUR', o.order_date ?? o.created_at), 0);
   const now = new Date();
   const thisMonth = now.getMonth();
   const thisYear = now.getFullYear();
-  const spentThisMonthCzk = orders
-    .filter((o) => {
-      if ((o.order_status !== 'delivered' && o.order_status !== 'ordered') || o.order_value == null) return false;
-      const d = new Date(o.created_at);
-      return d.getMonth() === thisMonth && d.getFullYear() === thisYear;
-    })
-    .reduce((sum, o) => sum + convertToCzk(o.order_value!, o.order_currency || 'EUR'), 0);
+  const spentThisMonthOrders = spentOrders.filter((o) => {
+    const d = new Date(o.created_at);
+    return d.getMonth() === thisMonth && d.getFullYear() === thisYear;
+  });
+  const spentThisMonthApproximate = spentThisMonthOrders.some((o) =>
+    isBaseConversionApproximate(o.order_currency || 'EUR', o.order_date ?? o.created_at)
+  );
+  const spentThisMonthBase = spentThisMonthOrders.reduce((sum, o) => sum + convertToBase(o.order_value!, o.order_currency || 'EUR', o.order_date ?? o.created_at), 0);
 
   // Subscription overview stats (active only)
   const activeSubs = subscriptions.filter((s) => s.status === 'active');
-  const subMonthlyPayCzk = activeSubs
+  const subsApproximate = activeSubs.some(
+    (s) => s.amount != null && isBaseConversionApproximate(s.currency || 'EUR', s.next_billing_date)
+  );
+  const subMonthlyPayBase = activeSubs
     .filter((s) => s.billing_cycle === 'monthly' && s.amount != null)
-    .reduce((sum, s) => sum + convertToCzk(s.amount!, s.currency || 'EUR'), 0);
-  const subYearlyPayCzk = activeSubs
+    .reduce((sum, s) => sum + convertToBase(s.amount!, s.currency || 'EUR', s.next_billing_date), 0);
+  const subYearlyPayBase = activeSubs
     .filter((s) => s.billing_cycle === 'yearly' && s.amount != null)
-    .reduce((sum, s) => sum + convertToCzk(s.amount!, s.currency || 'EUR'), 0);
-  const subTotalYearlyCzk = subMonthlyPayCzk * 12 + subYearlyPayCzk;
-  const subAvgYearlyCzk = activeSubs.length > 0 ? subTotalYearlyCzk / activeSubs.length : 0;
+    .reduce((sum, s) => sum + convertToBase(s.amount!, s.currency || 'EUR', s.next_billing_date), 0);
+  const subTotalYearlyBase = subMonthlyPayBase * 12 + subYearlyPayBase;
+  const subAvgYearlyBase = activeSubs.length > 0 ? subTotalYearlyBase / activeSubs.length : 0;
   const nextPaymentSub = activeSubs
     .filter((s) => s.next_billing_date)
     .sort((a, b) => new Date(a.next_billing_date!).getTime() - new Date(b.next_billing_date!).getTime())[0];
@@ -399,6 +415,14 @@ export default function AccountingPage() {
               </button>
             </div>
             <div className="flex items-center gap-2 shrink-0 sm:self-end sm:justify-self-end">
+              <button
+                type="button"
+                onClick={() => setRatesOpen(true)}
+                title={t('exchangeRates.title')}
+                className="flex items-center justify-center size-9 shrink-0 rounded-[6px] bg-nokturo-200/80 dark:bg-white/10 text-nokturo-500 dark:text-nokturo-400 hover:text-nokturo-900 dark:hover:text-nokturo-100 hover:bg-nokturo-300 dark:hover:bg-nokturo-700 transition-colors"
+              >
+                <MaterialIcon name="currency_exchange" size={16} className="shrink-0" />
+              </button>
               <button
                 onClick={openAdd}
                 className={`${PRIMARY_BUTTON_CLASS} hidden sm:inline-flex shrink-0`}
@@ -457,6 +481,14 @@ export default function AccountingPage() {
               </button>
             </div>
             <div className="flex items-center gap-2 shrink-0">
+              <button
+                type="button"
+                onClick={() => setRatesOpen(true)}
+                title={t('exchangeRates.title')}
+                className="flex items-center justify-center size-9 shrink-0 rounded-[6px] bg-nokturo-200/80 dark:bg-white/10 text-nokturo-500 dark:text-nokturo-400 hover:text-nokturo-900 dark:hover:text-nokturo-100 hover:bg-nokturo-300 dark:hover:bg-nokturo-700 transition-colors"
+              >
+                <MaterialIcon name="currency_exchange" size={16} className="shrink-0" />
+              </button>
               <button
                 onClick={() => { setEditingSub(null); setSubEditOpen(true); }}
                 className={`${PRIMARY_BUTTON_CLASS} hidden sm:inline-flex shrink-0`}
@@ -531,7 +563,7 @@ export default function AccountingPage() {
                     {t('accounting.overview.spent')}
                   </p>
                   <p className="text-xl font-medium text-green-fg">
-                    {spentCzk.toLocaleString('cs-CZ', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} CZK
+                    {formatBaseAmount(spentBase, spentApproximate)}
                   </p>
                 </div>
                 <div className="bg-nokturo-200 dark:bg-surface rounded-[6px] p-4">
@@ -539,7 +571,7 @@ export default function AccountingPage() {
                     {t('accounting.overview.spentThisMonth')}
                   </p>
                   <p className="text-xl font-medium text-nokturo-900 dark:text-white">
-                    {spentThisMonthCzk.toLocaleString('cs-CZ', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} CZK
+                    {formatBaseAmount(spentThisMonthBase, spentThisMonthApproximate)}
                   </p>
                 </div>
               </div>
@@ -573,7 +605,7 @@ export default function AccountingPage() {
                     {t(`accounting.orderStatuses.${order.order_status}`)}
                   </span>
                   <span className="text-sm font-medium text-nokturo-900 dark:text-nokturo-100 whitespace-nowrap">
-                    {convertToCzk(order.order_value ?? 0, order.order_currency || 'EUR').toLocaleString('cs-CZ', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} CZK
+                    {formatInBase(order.order_value ?? 0, order.order_currency || 'EUR', order.order_date ?? order.created_at)}
                   </span>
                 </div>
                 <p className="mt-2 text-sm font-medium text-nokturo-900 dark:text-nokturo-100">
@@ -697,7 +729,7 @@ export default function AccountingPage() {
                     {t('subscriptions.overview.monthlyPay')}
                   </p>
                   <p className="text-xl font-medium text-nokturo-900 dark:text-white">
-                    {subMonthlyPayCzk.toLocaleString('cs-CZ', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} CZK
+                    {formatBaseAmount(subMonthlyPayBase, subsApproximate)}
                   </p>
                 </div>
                 <div className="bg-nokturo-200 dark:bg-surface rounded-[6px] p-4">
@@ -705,7 +737,7 @@ export default function AccountingPage() {
                     {t('subscriptions.overview.yearlyPay')}
                   </p>
                   <p className="text-xl font-medium text-nokturo-900 dark:text-white">
-                    {subYearlyPayCzk.toLocaleString('cs-CZ', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} CZK
+                    {formatBaseAmount(subYearlyPayBase, subsApproximate)}
                   </p>
                 </div>
                 <div className="bg-nokturo-200 dark:bg-surface rounded-[6px] p-4">
@@ -713,10 +745,10 @@ export default function AccountingPage() {
                     {t('subscriptions.overview.totalYearly')}
                   </p>
                   <p className="text-xl font-medium text-green-fg">
-                    {subTotalYearlyCzk.toLocaleString('cs-CZ', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} CZK
+                    {formatBaseAmount(subTotalYearlyBase, subsApproximate)}
                   </p>
                   <p className="text-xs text-nokturo-400 mt-0.5">
-                    {t('subscriptions.overview.avgYearly')}: {subAvgYearlyCzk.toLocaleString('cs-CZ', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} CZK
+                    {t('subscriptions.overview.avgYearly')}: {formatBaseAmount(subAvgYearlyBase, subsApproximate)}
                   </p>
                 </div>
                 <div className="bg-nokturo-200 dark:bg-surface rounded-[6px] p-4">
@@ -729,7 +761,7 @@ export default function AccountingPage() {
                         {formatNextBilling(nextPaymentSub.next_billing_date)}
                       </p>
                       <p className="text-sm text-nokturo-400 truncate" title={nextPaymentSub.name}>
-                        {nextPaymentSub.name} — {convertToCzk(nextPaymentSub.amount ?? 0, nextPaymentSub.currency || 'EUR').toLocaleString('cs-CZ', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} CZK
+                        {nextPaymentSub.name} — {formatInBase(nextPaymentSub.amount ?? 0, nextPaymentSub.currency || 'EUR', nextPaymentSub.next_billing_date)}
                       </p>
                     </>
                   ) : (
@@ -767,7 +799,7 @@ export default function AccountingPage() {
                       {t(`subscriptions.statuses.${sub.status}`)}
                     </span>
                     <span className="text-sm font-medium text-nokturo-900 dark:text-nokturo-100 whitespace-nowrap">
-                      {convertToCzk(sub.amount ?? 0, sub.currency || 'EUR').toLocaleString('cs-CZ', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} CZK
+                      {formatInBase(sub.amount ?? 0, sub.currency || 'EUR', sub.next_billing_date)}
                     </span>
                   </div>
                   <p className="mt-2 text-sm font-medium text-nokturo-900 dark:text-nokturo-100 truncate">
@@ -838,7 +870,7 @@ export default function AccountingPage() {
                         {t(`subscriptions.${sub.billing_cycle}`)}
                       </td>
                       <td className="py-3 pr-6 text-sm font-medium text-nokturo-900 dark:text-nokturo-100 text-right whitespace-nowrap align-middle">
-                        {convertToCzk(sub.amount ?? 0, sub.currency || 'EUR').toLocaleString('cs-CZ', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} CZK
+                        {formatInBase(sub.amount ?? 0, sub.currency || 'EUR', sub.next_billing_date)}
                       </td>
                       <td className="py-3 pr-6 text-sm text-nokturo-700 dark:text-nokturo-300 whitespace-nowrap align-middle">
                         {formatNextBilling(sub.next_billing_date)}
@@ -873,6 +905,15 @@ export default function AccountingPage() {
         />
       </>)}
       </div>
+
+      <ExchangeRatesSlideOver
+        open={ratesOpen}
+        onClose={() => setRatesOpen(false)}
+        onImported={(count) => {
+          setRatesOpen(false);
+          addToast(t('exchangeRates.imported', { count }), 'success');
+        }}
+      />
       <div className="sm:hidden fixed bottom-0 left-0 right-0 z-40">
         <button
           type="button"
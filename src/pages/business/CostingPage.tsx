@@ -1,43 +1,72 @@
-import { useState, useEffect, useCallback } from 'react';
+import { Fragment, useState, useEffect, useCallback, useMemo } from 'react';
 import { useTranslation } from 'react-i18next';
 import { supabase } from '../../lib/supabase';
+import { useAuthStore } from '../../stores/authStore';
+import { canDeleteAnything, hasPermission } from '../../lib/rbac';
 import { PageShell } from '../../components/PageShell';
+import { ToastContainer, type ToastData } from '../../components/Toast';
+import { SimpleDropdown } from '../../components/SimpleDropdown';
+import { DeleteConfirmModal } from '../../components/DeleteConfirmModal';
 import type { ProductWithMaterials } from '../../components/ProductSlideOver';
-import { useExchangeRates, convertToCzk, CURRENCIES } from '../../lib/currency';
+import { CostingScenarioSlideOver } from '../../components/CostingScenarioSlideOver';
+import { CostingScenarioComparison } from '../../components/CostingScenarioComparison';
+import { PriceLadderSlideOver } from '../../components/PriceLadderSlideOver';
+import { SalesMarketsSlideOver } from '../../components/SalesMarketsSlideOver';
+import { useExchangeRates, CURRENCIES } from '../../lib/currency';
+import { computeCostingRow, computeVariantCostingRows, type CostingRow, type VariantCostingRow } from '../../lib/costing';
+import { PRODUCT_VARIANTS_SELECT, resolveVariantBom } from '../../lib/productVariants';
+import {
+  compareScenario,
+  normalizeOverrides,
+  snapshotScenario,
+  type CostingScenario,
+} from '../../lib/costingScenarios';
+import {
+  computePriceLadder,
+  fetchSalesMarkets,
+  type ProductPrice,
+  type SalesMarket,
+} from '../../lib/priceLadder';
+import { PRIMARY_BUTTON_CLASS } from '../../lib/inputStyles';
 import { MaterialIcon } from '../../components/icons/MaterialIcon';
 
-// ── Costing row derived from product + linked materials ──────
-interface CostingRow {
-  id: string;
-  name: string;
-  sku: string | null;
-  category: string | null;
-  status: string;
-  materialCost: number;
-  laborCost: number;
-  overheadCost: number;
-  totalCOGS: number;
-  markupMultiplier: number;
-  retailPrice: number;
-  breakEvenPrice: number;
-  profitPerUnit: number;
-  currency: string;
-  materialCostCzk: number;
-  totalCOGSCzk: number;
-  retailPriceCzk: number;
-  profitPerUnitCzk: number;
-}
-
 type SortField = 'name' | 'materialCost' | 'totalCOGS' | 'retailPrice' | 'profitPerUnit';
+type PageTab = 'costing' | 'ladder';
 
 export default function CostingPage() {
   const { t } = useTranslation();
-  useExchangeRates();
+  // `rates` only re-runs the memos below once the live rates arrive
+  const { baseCurrency, rates } = useExchangeRates();
+  const user = useAuthStore((s) => s.user);
+  const role = user?.role ?? 'client';
+  const canWrite = hasPermission(role, 'business.costing', 'write');
+  const canDelete = canDeleteAnything(role);
 
-  const [rows, setRows] = useState<CostingRow[]>([]);
+  const [products, setProducts] = useState<ProductWithMaterials[]>([]);
   const [loading, setLoading] = useState(true);
   const [sortField, setSortField] = useState<SortField>('name');
   const [sortAsc, setSortAsc] = useState(true);
+  const [expandedSizes, setExpandedSizes] = useState<Set<string>>(new Set());
+  const [pageTab, setPageTab] = useState<PageTab>('costing');
+
+  // ── Price ladder ───────────────────────────────────────────
+  const [markets, setMarkets] = useState<SalesMarket[]>([]);
+  const [prices, setPrices] = useState<ProductPrice[]>([]);
+  const [marketsOpen, setMarketsOpen] = useState(false);
+  const [ladderProductId, setLadderProductId] = useState<string | null>(null);
+
+  // ── Scenarios ──────────────────────────────────────────────
+  const [scenarios, setScenarios] = useState<CostingScenario[]>([]);
+  const [scenarioId, setScenarioId] = useState('');
+  const [editingScenario, setEditingScenario] = useState<CostingScenario | null>(null);
+  const [scenarioFormOpen, setScenarioFormOpen] = useState(false);
+  const [snapshotting, setSnapshotting] = useState(false);
+  const [deleteTarget, setDeleteTarget] = useState<string | null>(null);
+  const [toasts, setToasts] = useState<ToastData[]>([]);
+
+  const addToast = useCallback((message: string, type: 'success' | 'error' | 'info' = 'error') => {
+    setToasts((prev) => [...prev, { id: crypto.randomUUID(), message, type }]);
+  }, []);
 
   // ── Fetch products with linked materials ───────────────────
   const fetchCostingData = useCallback(async () => {
@@ -53,75 +82,106 @@ export default function CostingPage() {
           material_id,
           consumption_amount,
           notes,
+          role,
+          variant_id,
+          consumption_by_size,
           material:materials (*)
-        )
+        ),
+        product_components (
+          id,
+          component_id,
+          quantity,
+          notes,
+          quantity_by_size,
+          variant_id,
+          component:components (*)
+        ),
+        ${PRODUCT_VARIANTS_SELECT}
       `,
       )
       .order('created_at', { ascending: false });
 
     if (!error && data) {
-      const products = data as unknown as ProductWithMaterials[];
-
-      const costingRows: CostingRow[] = products.map((p) => {
-        // Sum material costs: consumption * price_per_unit for each linked material
-        let materialCost = 0;
-        let materialCostCzk = 0;
-        let currency = 'EUR';
-
-        if (p.product_materials && p.product_materials.length > 0) {
-          for (const pm of p.product_materials) {
-            if (pm.material) {
-              const lineCost = pm.consumption_amount * (pm.material.price_per_unit || 0);
-              const curr = pm.material.currency || currency;
-              materialCost += lineCost;
-              materialCostCzk += convertToCzk(lineCost, curr);
-              currency = curr;
-            }
-          }
-        }
-
-        const laborCost = p.labor_cost ?? 0;
-        const overheadCost = p.overhead_cost ?? 0;
-        const totalCOGS = materialCost + laborCost + overheadCost;
-        // Labor and overhead are typically in CZK (product-level costs)
-        const totalCOGSCzk = materialCostCzk + laborCost + overheadCost;
-        const markupMultiplier = p.markup_multiplier ?? 2.5;
-        const retailPrice = totalCOGS * markupMultiplier;
-        const retailPriceCzk = totalCOGSCzk * markupMultiplier;
-        const breakEvenPrice = totalCOGS;
-        const profitPerUnit = retailPrice - totalCOGS;
-        const profitPerUnitCzk = retailPriceCzk - totalCOGSCzk;
-
-        return {
-          id: p.id,
-          name: p.name,
-          sku: p.sku,
-          category: p.category,
-          status: p.status,
-          materialCost,
-          laborCost,
-          overheadCost,
-          totalCOGS,
-          markupMultiplier,
-          retailPrice,
-          breakEvenPrice,
-          profitPerUnit,
-          currency,
-          materialCostCzk,
-          totalCOGSCzk,
-          retailPriceCzk,
-          profitPerUnitCzk,
-        };
-      });
-
-      setRows(costingRows);
+      setProducts(data as unknown as ProductWithMaterials[]);
     }
     setLoading(false);
   }, []);
 
+  // Product rows cost the base BOM; each variant is costed with its overrides applied
+  const baseProducts = useMemo(() => products.map((p) => resolveVariantBom(p, null)), [products]);
+  const rows: CostingRow[] = useMemo(
+    () => baseProducts.map((p) => computeCostingRow(p, baseCurrency)),
+    [baseProducts, baseCurrency, rates]
+  );
+  const variantRows = useMemo(
+    () => new Map<string, VariantCostingRow[]>(products.map((p) => [p.id, computeVariantCostingRows(p, baseCurrency)])),
+    [products, baseCurrency, rates]
+  );
+
+  const fetchScenarios = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('costing_scenarios')
+      .select('*')
+      .order('created_at', { ascending: false });
+    if (error) {
+      addToast(error.message, 'error');
+      return;
+    }
+    setScenarios(
+      ((data as CostingScenario[]) || []).map((s) => ({ ...s, overrides: normalizeOverrides(s.overrides) }))
+    );
+  }, [addToast]);
+
+  const fetchLadderData = useCallback(async () => {
+    const [m, p] = await Promise.all([
+      fetchSalesMarkets(),
+      supabase.from('product_prices').select('*'),
+    ]);
+    setMarkets(m);
+    setPrices((p.data as ProductPrice[]) || []);
+  }, []);
+
+  const ladderPrices = useMemo(
+    () => prices.filter((p) => p.product_id === ladderProductId),
+    [prices, ladderProductId]
+  );
+
+  const selectedScenario = scenarios.find((s) => s.id === scenarioId) ?? null;
+
+  // Snapshots show the figures frozen at the time they were taken
+  const comparison = useMemo(() => {
+    if (!selectedScenario) return null;
+    if (selectedScenario.snapshot) {
+      return { rows: selectedScenario.snapshot.rows, currency: selectedScenario.snapshot.base_currency };
+    }
+    return { rows: compareScenario(baseProducts, selectedScenario.overrides, baseCurrency), currency: baseCurrency };
+  }, [selectedScenario, baseProducts, baseCurrency, rates]);
+
   useEffect(() => {
     fetchCostingData();
-  }, [fetchCostingData]);
+    fetchScenarios();
+    fetchLadderData();
+  }, [fetchCostingData, fetchScenarios, fetchLadderData]);
+
+  useEffect(() => {
+    const channel = supabase
+      .channel('costing-scenarios')
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'costing_scenarios' },
+        () => fetchScenarios(),
+      )
+      .subscribe();
+    const ladderChannel = supabase
+      .channel('costing-price-ladder')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'sales_markets' }, () => fetchLadderData())
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'product_prices' }, () => fetchLadderData())
+      .subscribe();
+    return () => {
+      supabase.removeChannel(channel);
+      supabase.removeChannel(ladderChannel);
+    };
+  }, [fetchScenarios, fetchLadderData]);
 
   // ── Real-time subscription for live updates ────────────────
   useEffect(() => {
@@ -152,13 +212,91 @@ export default function CostingPage() {
       )
       .subscribe();
 
+    const pcChannel = supabase
+      .channel('costing-product-components')
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'product_components' },
+        () => fetchCostingData(),
+      )
+      .subscribe();
+
+    const pvChannel = supabase
+      .channel('costing-product-variants')
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'product_variants' },
+        () => fetchCostingData(),
+      )
+      .subscribe();
+
     return () => {
       supabase.removeChannel(productsChannel);
       supabase.removeChannel(materialsChannel);
       supabase.removeChannel(pmChannel);
+      supabase.removeChannel(pcChannel);
+      supabase.removeChannel(pvChannel);
     };
   }, [fetchCostingData]);
 
+  // ── Scenario handlers ──────────────────────────────────────
+  const openScenarioForm = (scenario: CostingScenario | null) => {
+    setEditingScenario(scenario);
+    setScenarioFormOpen(true);
+  };
+
+  const handleScenarioSaved = (scenario: CostingScenario) => {
+    setScenarioFormOpen(false);
+    setScenarioId(scenario.id);
+    fetchScenarios();
+    addToast(t('costing.scenarios.saved'), 'success');
+  };
+
+  const handleSnapshot = async () => {
+    if (!selectedScenario || !comparison) return;
+    setSnapshotting(true);
+    const date = new Date().toLocaleDateString(user?.language === 'cs' ? 'cs-CZ' : 'en-US');
+    const err = await snapshotScenario(
+      selectedScenario,
+      comparison.rows,
+      baseCurrency,
+      `${selectedScenario.name} (${date})`
+    );
+    setSnapshotting(false);
+    if (err) {
+      addToast(err, 'error');
+      return;
+    }
+    fetchScenarios();
+    addToast(t('costing.scenarios.snapshotSaved'), 'success');
+  };
+
+  const handleDeleteScenario = async (id: string) => {
+    const { error } = await supabase.from('costing_scenarios').delete().eq('id', id);
+    if (error) addToast(error.message, 'error');
+    else {
+      setScenarios((prev) => prev.filter((s) => s.id !== id));
+      if (scenarioId === id) setScenarioId('');
+      setScenarioFormOpen(false);
+    }
+    setDeleteTarget(null);
+  };
+
+  const closeToast = useCallback((id: string) => {
+    setToasts((prev) => prev.filter((t) => t.id !== id));
+  }, []);
+
+  const formatDateTime = (d: string | null) =>
+    d ? new Date(d).toLocaleString(user?.language === 'cs' ? 'cs-CZ' : 'en-US') : '—';
+
+  const toggleSizes = (id: string) =>
+    setExpandedSizes((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
   // ── Sort handler ───────────────────────────────────────────
   const handleSort = (field: SortField) => {
     if (sortField === field) {
@@ -177,15 +315,15 @@ export default function CostingPage() {
     return ((a[sortField] as number) - (b[sortField] as number)) * dir;
   });
 
-  // ── Summary stats ──────────────────────────────────────────
+  // ── Summary stats (in the base currency) ───────────────────
   const totalProducts = rows.length;
   const avgCOGS =
     totalProducts > 0
-      ? rows.reduce((sum, r) => sum + r.totalCOGS, 0) / totalProducts
+      ? rows.reduce((sum, r) => sum + r.totalCOGSBase, 0) / totalProducts
       : 0;
   const avgProfit =
     totalProducts > 0
-      ? rows.reduce((sum, r) => sum + r.profitPerUnit, 0) / totalProducts
+      ? rows.reduce((sum, r) => sum + r.profitPerUnitBase, 0) / totalProducts
       : 0;
   const avgMargin =
     totalProducts > 0
@@ -199,8 +337,8 @@ export default function CostingPage() {
   // ── Helpers ────────────────────────────────────────────────
   const fmtCurrency = (val: number, currency: string = 'EUR') =>
     `${val.toFixed(2)} ${currency}`;
-  const showCzk = (row: CostingRow) =>
-    row.currency !== 'CZK' && CURRENCIES.includes(row.currency as (typeof CURRENCIES)[number]);
+  const showBase = (row: CostingRow) =>
+    row.currency !== baseCurrency && CURRENCIES.includes(row.currency as (typeof CURRENCIES)[number]);
 
   const SortIcon = ({ field }: { field: SortField }) => (
     <MaterialIcon
@@ -217,6 +355,76 @@ export default function CostingPage() {
       descriptionKey="pages.costingCalculator.description"
       actionsSlot={
         <div className="flex flex-col sm:flex-row gap-2 items-center justify-end">
+          {pageTab === 'ladder' ? (
+            canWrite && (
+              <button
+                type="button"
+                onClick={() => setMarketsOpen(true)}
+                className={`${PRIMARY_BUTTON_CLASS} shrink-0`}
+              >
+                <MaterialIcon name="storefront" size={16} className="shrink-0" />
+                {t('priceLadder.markets.title')}
+              </button>
+            )
+          ) : (
+          <>
+          <div className="w-full sm:w-56">
+            <SimpleDropdown
+              value={scenarioId}
+              onChange={setScenarioId}
+              compact
+              options={[
+                { value: '', label: t('costing.scenarios.currentCosting') },
+                ...scenarios.map((s) => ({
+                  value: s.id,
+                  label: s.snapshot ? `${s.name} · ${t('costing.scenarios.snapshot')}` : s.name,
+                })),
+              ]}
+            />
+          </div>
+          {selectedScenario && !selectedScenario.snapshot && canWrite && (
+            <>
+              <button
+                type="button"
+                onClick={() => openScenarioForm(selectedScenario)}
+                className="flex items-center justify-center size-9 shrink-0 rounded-[6px] bg-nokturo-200/80 dark:bg-white/10 text-nokturo-500 dark:text-nokturo-400 hover:text-nokturo-900 dark:hover:text-nokturo-100 hover:bg-nokturo-300 dark:hover:bg-nokturo-700 transition-colors"
+                title={t('costing.scenarios.edit')}
+              >
+                <MaterialIcon name="edit" size={16} className="shrink-0" />
+              </button>
+              <button
+                type="button"
+                onClick={handleSnapshot}
+                disabled={snapshotting}
+                className="flex items-center justify-center size-9 shrink-0 rounded-[6px] bg-nokturo-200/80 dark:bg-white/10 text-nokturo-500 dark:text-nokturo-400 hover:text-nokturo-900 dark:hover:text-nokturo-100 hover:bg-nokturo-300 dark:hover:bg-nokturo-700 transition-colors disabled:opacity-50"
+                title={t('costing.scenarios.takeSnapshot')}
+              >
+                <MaterialIcon
+                  name={snapshotting ? 'progress_activity' : 'photo_camera'}
+                  size={16}
+                  className={`shrink-0 ${snapshotting ? 'animate-spin' : ''}`}
+                />
+              </button>
+            </>
+          )}
+          {selectedScenario?.snapshot && canDelete && (
+            <button
+              type="button"
+              onClick={() => setDeleteTarget(selectedScenario.id)}
+              className="flex items-center justify-center size-9 shrink-0 rounded-[6px] bg-nokturo-200/80 dark:bg-white/10 text-nokturo-500 dark:text-nokturo-400 hover:text-nokturo-900 dark:hover:text-nokturo-100 hover:bg-nokturo-300 dark:hover:bg-nokturo-700 transition-colors"
+              title={t('common.delete')}
+            >
+              <MaterialIcon name="delete" size={16} className="shrink-0" />
+            </button>
+          )}
+          {canWrite && (
+            <button onClick={() => openScenarioForm(null)} className={`${PRIMARY_BUTTON_CLASS} shrink-0`}>
+              <MaterialIcon name="add" size={16} className="shrink-0" />
+              {t('costing.scenarios.new')}
+            </button>
+          )}
+          </>
+          )}
           <button
             onClick={fetchCostingData}
             disabled={loading}
@@ -232,8 +440,135 @@ export default function CostingPage() {
         </div>
       }
     >
+      <ToastContainer toasts={toasts} onClose={closeToast} />
+
+      {/* Page-level tabs: Costing | Price ladder */}
+      <div className="flex items-center gap-1 mb-6 border-b border-nokturo-200 dark:border-nokturo-700">
+        {(['costing', 'ladder'] as PageTab[]).map((key) => (
+          <button
+            key={key}
+            onClick={() => setPageTab(key)}
+            className={`inline-flex items-center gap-1.5 px-4 py-2.5 text-sm font-medium transition-colors relative ${
+              pageTab === key
+                ? 'text-nokturo-900 dark:text-nokturo-100'
+                : 'text-nokturo-500 dark:text-nokturo-400 hover:text-nokturo-700 dark:hover:text-nokturo-300'
+            }`}
+          >
+            <MaterialIcon name={key === 'costing' ? 'calculate' : 'sell'} size={18} className="shrink-0 opacity-60" />
+            {t(`costing.tabs.${key}`)}
+            {pageTab === key && (
+              <span className="absolute bottom-0 left-0 right-0 h-0.5 bg-nokturo-900 dark:bg-nokturo-100 rounded-full" />
+            )}
+          </button>
+        ))}
+      </div>
+
+      {pageTab === 'ladder' ? (
+        loading ? (
+          <div className="flex items-center justify-center py-20">
+            <MaterialIcon name="progress_activity" size={24} className="text-nokturo-500 animate-spin shrink-0" />
+          </div>
+        ) : markets.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-20 text-center">
+            <MaterialIcon name="storefront" size={48} className="text-nokturo-400 mb-4 shrink-0" />
+            <p className="text-nokturo-600 font-medium">{t('priceLadder.noMarkets')}</p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <div className="overflow-x-auto rounded-lg bg-white">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="bg-nokturo-50">
+                    <th className="text-left px-4 py-3 text-nokturo-600 font-medium">{t('costing.product')}</th>
+                    <th className="text-right px-4 py-3 text-nokturo-600 font-medium">{t('costing.totalCOGS')}</th>
+                    {markets.map((m) => (
+                      <th key={m.id} className="text-right px-4 py-3 text-nokturo-600 font-medium">
+                        {m.name}
+                        <span className="block text-xs font-normal text-nokturo-500">
+                          {m.currency} · {t('priceLadder.vatPct', { rate: m.vat_rate })}
+                        </span>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {[...rows].sort((a, b) => a.name.localeCompare(b.name)).map((row) => {
+                    const product = products.find((p) => p.id === row.id);
+                    return (
+                      <tr
+                        key={row.id}
+                        onClick={() => setLadderProductId(row.id)}
+                        className="hover:bg-nokturo-50 transition-colors cursor-pointer"
+                      >
+                        <td className="px-4 py-3">
+                          <p className="text-nokturo-900 font-medium">{row.name}</p>
+                          <p className="text-nokturo-500 text-xs">
+                            {row.sku || '—'} · {t('priceLadder.wholesaleMarkupShort', { value: product?.wholesale_markup ?? 2 })}
+                          </p>
+                        </td>
+                        <td className="text-right px-4 py-3 text-nokturo-700">{fmtCurrency(row.totalCOGS, row.currency)}</td>
+                        {markets.map((m) => {
+                          const ladder = computePriceLadder(
+                            row,
+                            product?.wholesale_markup ?? 2,
+                            m,
+                            prices.find((p) => p.product_id === row.id && p.market_id === m.id)
+                          );
+                          return (
+                            <td key={m.id} className="text-right px-4 py-3">
+                              <span className="block text-nokturo-900 font-medium">
+                                {fmtCurrency(ladder.retailGross, m.currency)}
+                                {ladder.retailFixed && (
+                                  <MaterialIcon name="lock" size={12} className="inline-block ml-1 text-nokturo-400" />
+                                )}
+                              </span>
+                              <span className="block text-xs text-nokturo-500">
+                                {t('priceLadder.wholesaleShort')} {ladder.wholesale.toFixed(2)}
+                                {ladder.wholesaleFixed && ' *'} · {ladder.wholesaleMargin.toFixed(1)}%
+                              </span>
+                              <span className="block text-xs text-nokturo-500">
+                                {t('priceLadder.directShort')} {ladder.directMargin.toFixed(1)}%
+                              </span>
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+            <p className="text-xs text-nokturo-500">{t('priceLadder.marginsHint')}</p>
+          </div>
+        )
+      ) : comparison && selectedScenario ? (
+        loading ? (
+          <div className="flex items-center justify-center py-20">
+            <MaterialIcon name="progress_activity" size={24} className="text-nokturo-500 animate-spin shrink-0" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {(selectedScenario.description || selectedScenario.snapshot) && (
+              <div className="text-sm text-nokturo-600 space-y-1">
+                {selectedScenario.description && <p>{selectedScenario.description}</p>}
+                {selectedScenario.snapshot && (
+                  <p className="flex items-center gap-1.5 text-xs text-nokturo-500">
+                    <MaterialIcon name="lock" size={14} className="shrink-0" />
+                    {t('costing.scenarios.snapshotNote', {
+                      date: formatDateTime(selectedScenario.snapshotted_at),
+                      currency: comparison.currency,
+                    })}
+                  </p>
+                )}
+              </div>
+            )}
+            <CostingScenarioComparison rows={comparison.rows} currency={comparison.currency} />
+          </div>
+        )
+      ) : (
+      <>
       {/* ── Summary cards (sticky at top) ───────────────────── */}
-      <div className="sticky top-0 z-10 -mx-4 sm:-mx-6 md:-mx-9 -mt-6 pt-6 px-4 sm:px-6 md:px-9 pb-6 bg-white/5">
+      <div className="sticky top-0 z-10 -mx-4 sm:-mx-6 md:-mx-9 px-4 sm:px-6 md:px-9 pb-6 bg-white/5">
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
         <div className="bg-white rounded-lg p-4">
           <p className="text-nokturo-500 text-xs uppercase tracking-wider mb-1">
@@ -246,7 +581,7 @@ export default function CostingPage() {
             {t('costing.avgCOGS')}
           </p>
           <p className="text-2xl font-medium text-nokturo-900">
-            {fmtCurrency(avgCOGS)}
+            {fmtCurrency(avgCOGS, baseCurrency)}
           </p>
         </div>
         <div className="bg-white rounded-lg p-4">
@@ -254,7 +589,7 @@ export default function CostingPage() {
             {t('costing.avgProfit')}
           </p>
           <p className="text-2xl font-medium text-green-fg">
-            {fmtCurrency(avgProfit)}
+            {fmtCurrency(avgProfit, baseCurrency)}
           </p>
         </div>
         <div className="bg-white rounded-lg p-4">
@@ -323,7 +658,27 @@ export default function CostingPage() {
                       <p className="text-nokturo-500">{t('costing.avgMargin')}</p>
                       <p className="text-nokturo-900 font-medium">{margin.toFixed(1)}%</p>
                     </div>
+                    {row.weightedCOGSBase != null && (
+                      <div className="bg-nokturo-100/70 p-2 col-span-2">
+                        <p className="text-nokturo-500">{t('costing.weightedAvg')} ({t('costing.totalCOGS')})</p>
+                        <p className="text-nokturo-900 font-medium">{fmtCurrency(row.weightedCOGSBase, baseCurrency)}</p>
+                        <p className="text-nokturo-500 mt-1">
+                          {row.sizeCosts.map((sc) => `${sc.size}: ${sc.totalCOGS.toFixed(2)}`).join(' · ')}
+                        </p>
+                      </div>
+                    )}
                   </div>
+                  {(variantRows.get(row.id) ?? []).map((vr) => (
+                    <div key={vr.variant.id} className="mt-2 flex items-center gap-2 text-xs">
+                      <VariantSwatch variant={vr.variant} />
+                      <span className="flex-1 min-w-0 truncate text-nokturo-700">
+                        {vr.variant.name}
+                        <span className="ml-1 text-nokturo-500">{vr.sku || ''}</span>
+                      </span>
+                      <span className="text-nokturo-900 font-medium">{fmtCurrency(vr.totalCOGS, vr.currency)}</span>
+                      <span className="text-nokturo-500">→ {fmtCurrency(vr.retailPrice, vr.currency)}</span>
+                    </div>
+                  ))}
                 </div>
               );
             })}
@@ -383,13 +738,29 @@ export default function CostingPage() {
                       : 0;
 
                   return (
+                    <Fragment key={row.id}>
                     <tr
-                      key={row.id}
                       className="hover:bg-nokturo-50 transition-colors"
                     >
                       <td className="px-4 py-3">
                         <div>
-                          <p className="text-nokturo-900 font-medium">{row.name}</p>
+                          <p className="text-nokturo-900 font-medium flex items-center gap-1">
+                            {row.sizeCosts.length > 0 && (
+                              <button
+                                type="button"
+                                onClick={() => toggleSizes(row.id)}
+                                className="text-nokturo-500 hover:text-nokturo-900"
+                                title={t('costing.costPerSize')}
+                              >
+                                <MaterialIcon
+                                  name={expandedSizes.has(row.id) ? 'expand_less' : 'expand_more'}
+                                  size={16}
+                                  className="shrink-0"
+                                />
+                              </button>
+                            )}
+                            {row.name}
+                          </p>
                           <p className="text-nokturo-500 text-xs">
                             {row.sku || '—'}
                             {row.category && (
@@ -402,33 +773,38 @@ export default function CostingPage() {
                       </td>
                       <td className="text-right px-4 py-3 text-nokturo-700">
                         {fmtCurrency(row.materialCost, row.currency)}
-                        {showCzk(row) && (
+                        {showBase(row) && (
                           <span className="block text-xs text-nokturo-500">
-                            ≈ {row.materialCostCzk.toFixed(2)} CZK
+                            ≈ {row.materialCostBase.toFixed(2)} {baseCurrency}
                           </span>
                         )}
                       </td>
                       <td className="text-right px-4 py-3 text-nokturo-700">
                         <span className="block">
-                          {fmtCurrency(row.laborCost, 'CZK')}
+                          {fmtCurrency(row.laborCost, row.laborOverheadCurrency)}
                         </span>
                         <span className="block text-xs text-nokturo-500">
-                          + {fmtCurrency(row.overheadCost, 'CZK')}
+                          + {fmtCurrency(row.overheadCost, row.laborOverheadCurrency)}
                         </span>
                       </td>
                       <td className="text-right px-4 py-3 text-nokturo-900 font-medium">
                         {fmtCurrency(row.totalCOGS, row.currency)}
-                        {showCzk(row) && (
+                        {showBase(row) && (
                           <span className="block text-xs text-nokturo-500">
-                            ≈ {row.totalCOGSCzk.toFixed(2)} CZK
+                            ≈ {row.totalCOGSBase.toFixed(2)} {baseCurrency}
+                          </span>
+                        )}
+                        {row.weightedCOGS != null && (
+                          <span className="block text-xs font-normal text-nokturo-500">
+                            {t('costing.weightedAvg')}: {fmtCurrency(row.weightedCOGS, row.currency)}
                           </span>
                         )}
                       </td>
                       <td className="text-right px-4 py-3 text-nokturo-700">
                         {fmtCurrency(row.breakEvenPrice, row.currency)}
-                        {showCzk(row) && (
+                        {showBase(row) && (
                           <span className="block text-xs text-nokturo-500">
-                            ≈ {row.totalCOGSCzk.toFixed(2)} CZK
+                            ≈ {row.totalCOGSBase.toFixed(2)} {baseCurrency}
                           </span>
                         )}
                       </td>
@@ -436,9 +812,9 @@ export default function CostingPage() {
                         <span className="text-nokturo-900 font-medium">
                           {fmtCurrency(row.retailPrice, row.currency)}
                         </span>
-                        {showCzk(row) && (
+                        {showBase(row) && (
                           <span className="block text-xs text-nokturo-500">
-                            ≈ {row.retailPriceCzk.toFixed(2)} CZK
+                            ≈ {row.retailPriceBase.toFixed(2)} {baseCurrency}
                           </span>
                         )}
                         <span className="block text-xs text-nokturo-500">
@@ -462,9 +838,9 @@ export default function CostingPage() {
                             {fmtCurrency(row.profitPerUnit, row.currency)}
                           </span>
                         </div>
-                        {showCzk(row) && (
+                        {showBase(row) && (
                           <span className="block text-xs text-nokturo-500">
-                            ≈ {row.profitPerUnitCzk.toFixed(2)} CZK
+                            ≈ {row.profitPerUnitBase.toFixed(2)} {baseCurrency}
                           </span>
                         )}
                         <span className="block text-xs text-nokturo-500">
@@ -472,6 +848,92 @@ export default function CostingPage() {
                         </span>
                       </td>
                     </tr>
+                    {(variantRows.get(row.id) ?? []).map((vr) => {
+                      const variantMargin = vr.retailPrice > 0 ? (vr.profitPerUnit / vr.retailPrice) * 100 : 0;
+                      return (
+                        <tr key={vr.variant.id} className="bg-nokturo-50/40 text-xs">
+                          <td className="pl-8 pr-4 py-2">
+                            <div className="flex items-center gap-2 min-w-0">
+                              <VariantSwatch variant={vr.variant} />
+                              <div className="min-w-0">
+                                <p className="text-nokturo-800 truncate">{vr.variant.name}</p>
+                                <p className="text-nokturo-500 truncate">{vr.sku || '—'}</p>
+                              </div>
+                            </div>
+                          </td>
+                          <td className="text-right px-4 py-2 text-nokturo-700">{fmtCurrency(vr.materialCost, vr.currency)}</td>
+                          <td className="text-right px-4 py-2 text-nokturo-500">—</td>
+                          <td className="text-right px-4 py-2 text-nokturo-900 font-medium">
+                            {fmtCurrency(vr.totalCOGS, vr.currency)}
+                            {vr.weightedCOGS != null && (
+                              <span className="block font-normal text-nokturo-500">
+                                {t('costing.weightedAvg')}: {fmtCurrency(vr.weightedCOGS, vr.currency)}
+                              </span>
+                            )}
+                          </td>
+                          <td className="text-right px-4 py-2 text-nokturo-700">{fmtCurrency(vr.breakEvenPrice, vr.currency)}</td>
+                          <td className="text-right px-4 py-2 text-nokturo-900">{fmtCurrency(vr.retailPrice, vr.currency)}</td>
+                          <td className="text-right px-4 py-2">
+                            <span className={vr.profitPerUnit >= 0 ? 'text-green-fg' : 'text-red-fg'}>
+                              {fmtCurrency(vr.profitPerUnit, vr.currency)}
+                            </span>
+                            <span className="block text-nokturo-500">{variantMargin.toFixed(1)}%</span>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                    {expandedSizes.has(row.id) && row.sizeCosts.length > 0 && (
+                      <tr className="bg-nokturo-50/60">
+                        <td colSpan={7} className="px-4 py-3">
+                          <div className="overflow-x-auto">
+                            <table className="text-xs">
+                              <thead>
+                                <tr className="text-nokturo-500">
+                                  <th className="text-left pr-4 py-1 font-medium">{t('costing.size')}</th>
+                                  {row.sizeCosts.map((sc) => (
+                                    <th key={sc.size} className="text-right px-3 py-1 font-medium">{sc.size}</th>
+                                  ))}
+                                  <th className="text-right pl-4 py-1 font-medium">{t('costing.weightedAvg')}</th>
+                                </tr>
+                              </thead>
+                              <tbody className="text-nokturo-700">
+                                <tr>
+                                  <td className="pr-4 py-1 text-nokturo-500">{t('costing.materialCost')}</td>
+                                  {row.sizeCosts.map((sc) => (
+                                    <td key={sc.size} className="text-right px-3 py-1">{sc.materialCost.toFixed(2)}</td>
+                                  ))}
+                                  <td className="text-right pl-4 py-1">
+                                    {row.weightedCOGSBase != null
+                                      ? (row.weightedCOGSBase - (row.totalCOGSBase - row.materialCostBase)).toFixed(2)
+                                      : '—'}
+                                  </td>
+                                </tr>
+                                <tr>
+                                  <td className="pr-4 py-1 text-nokturo-500">{t('costing.totalCOGS')}</td>
+                                  {row.sizeCosts.map((sc) => (
+                                    <td key={sc.size} className="text-right px-3 py-1 text-nokturo-900 font-medium">{sc.totalCOGS.toFixed(2)}</td>
+                                  ))}
+                                  <td className="text-right pl-4 py-1 text-nokturo-900 font-medium">
+                                    {row.weightedCOGSBase != null ? row.weightedCOGSBase.toFixed(2) : '—'}
+                                  </td>
+                                </tr>
+                                <tr>
+                                  <td className="pr-4 py-1 text-nokturo-500">{t('costing.retailPrice')}</td>
+                                  {row.sizeCosts.map((sc) => (
+                                    <td key={sc.size} className="text-right px-3 py-1">{sc.retailPrice.toFixed(2)}</td>
+                                  ))}
+                                  <td className="text-right pl-4 py-1">
+                                    {row.weightedRetailPriceBase != null ? row.weightedRetailPriceBase.toFixed(2) : '—'}
+                                  </td>
+                                </tr>
+                              </tbody>
+                            </table>
+                          </div>
+                          <p className="text-[11px] text-nokturo-500 mt-1">{baseCurrency}</p>
+                        </td>
+                      </tr>
+                    )}
+                    </Fragment>
                   );
                 })}
               </tbody>
@@ -479,6 +941,64 @@ export default function CostingPage() {
           </div>
         </div>
       )}
+      </>
+      )}
+
+      <CostingScenarioSlideOver
+        open={scenarioFormOpen}
+        scenario={editingScenario}
+        products={products}
+        canDelete={canDelete}
+        onClose={() => setScenarioFormOpen(false)}
+        onSaved={handleScenarioSaved}
+        onDelete={(id) => setDeleteTarget(id)}
+      />
+
+      <PriceLadderSlideOver
+        open={!!ladderProductId}
+        row={rows.find((r) => r.id === ladderProductId) ?? null}
+        wholesaleMarkup={products.find((p) => p.id === ladderProductId)?.wholesale_markup ?? 2}
+        markets={markets}
+        prices={ladderPrices}
+        canWrite={canWrite}
+        onClose={() => setLadderProductId(null)}
+        onSaved={() => {
+          setLadderProductId(null);
+          fetchCostingData();
+          fetchLadderData();
+          addToast(t('priceLadder.saved'), 'success');
+        }}
+      />
+
+      <SalesMarketsSlideOver
+        open={marketsOpen}
+        markets={markets}
+        canDelete={canDelete}
+        onClose={() => setMarketsOpen(false)}
+        onSaved={() => {
+          setMarketsOpen(false);
+          fetchLadderData();
+          addToast(t('priceLadder.markets.saved'), 'success');
+        }}
+      />
+
+      {deleteTarget && (
+        <DeleteConfirmModal
+          onCancel={() => setDeleteTarget(null)}
+          onConfirm={() => handleDeleteScenario(deleteTarget)}
+        />
+      )}
     </PageShell>
   );
 }
+
+function VariantSwatch({ variant }: { variant: VariantCostingRow['variant'] }) {
+  return (
+    <span
+      className="avatar-round w-3.5 h-3.5 shrink-0 overflow-hidden bg-nokturo-300"
+      style={{ backgroundColor: variant.swatch_url ? undefined : variant.color_code ?? undefined }}
+    >
+      {variant.swatch_url && <img src={variant.swatch_url} alt="" className="w-full h-full object-cover" />}
+    </span>
+  );
+}
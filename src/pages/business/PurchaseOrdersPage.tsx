@@ -0,0 +1,240 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useTranslation } from 'react-i18next';
+import { supabase } from '../../lib/supabase';
+import { useAuthStore } from '../../stores/authStore';
+import { canDeleteAnything, hasPermission } from '../../lib/rbac';
+import { PageShell } from '../../components/PageShell';
+import { ToastContainer, type ToastData } from '../../components/Toast';
+import {
+  PurchaseOrderSlideOver,
+  type PurchaseOrder,
+} from '../../components/PurchaseOrderSlideOver';
+import { PurchasePlannerSlideOver } from '../../components/PurchasePlannerSlideOver';
+import type { ProductWithMaterials } from '../../components/ProductSlideOver';
+import type { ProductionOrder } from '../../components/ProductionOrderSlideOver';
+import { FilterSelect } from '../../components/FilterSelect';
+import { MaterialIcon } from '../../components/icons/MaterialIcon';
+import { PRIMARY_BUTTON_CLASS } from '../../lib/inputStyles';
+import { DeleteConfirmModal } from '../../components/DeleteConfirmModal';
+import { PRODUCT_BOM_SELECT } from '../../lib/productionOrders';
+import { formatPoNumber, itemsTotal, PURCHASE_ORDER_STATUSES } from '../../lib/purchaseOrders';
+
+const statusColor = (status: string) => {
+  switch (status) {
+    case 'approved': return 'bg-green text-green-fg';
+    case 'canceled': return 'bg-red text-red-fg';
+    default: return 'bg-nokturo-500 text-white';
+  }
+};
+
+export default function PurchaseOrdersPage() {
+  const { t } = useTranslation();
+  const user = useAuthStore((s) => s.user);
+  const role = user?.role ?? 'client';
+  const canDelete = canDeleteAnything(role);
+  const canWrite = hasPermission(role, 'business.purchasing', 'write');
+
+  // ── State ──────────────────────────────────────────────────
+  const [orders, setOrders] = useState<PurchaseOrder[]>([]);
+  const [products, setProducts] = useState<ProductWithMaterials[]>([]);
+  const [productionOrders, setProductionOrders] = useState<ProductionOrder[]>([]);
+  const [suppliers, setSuppliers] = useState<{ id: string; name: string }[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState<string[]>([]);
+
+  const [plannerOpen, setPlannerOpen] = useState(false);
+  const [viewingOrder, setViewingOrder] = useState<PurchaseOrder | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<string | null>(null);
+  const [toasts, setToasts] = useState<ToastData[]>([]);
+
+  const addToast = useCallback((message: string, type: 'success' | 'error' | 'info' = 'error') => {
+    setToasts((prev) => [...prev, { id: crypto.randomUUID(), message, type }]);
+  }, []);
+
+  // ── Fetch ──────────────────────────────────────────────────
+  const fetchOrders = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('purchase_orders')
+      .select('*, supplier:suppliers (id, name, email), purchase_order_items (*)')
+      .order('created_at', { ascending: false });
+    if (error) {
+      addToast(error.message, 'error');
+      return;
+    }
+    setOrders((data as PurchaseOrder[]) || []);
+  }, [addToast]);
+
+  const fetchPlanningData = useCallback(async () => {
+    const [prodRes, poRes, supRes] = await Promise.all([
+      supabase.from('products').select(PRODUCT_BOM_SELECT).order('name'),
+      supabase.from('production_orders').select('*').in('status', ['planned', 'confirmed']).order('target_date'),
+      supabase.from('suppliers').select('id, name').order('name'),
+    ]);
+    setProducts((prodRes.data as ProductWithMaterials[]) || []);
+    setProductionOrders((poRes.data as ProductionOrder[]) || []);
+    setSuppliers((supRes.data as { id: string; name: string }[]) || []);
+  }, []);
+
+  useEffect(() => {
+    setLoading(true);
+    Promise.all([fetchOrders(), fetchPlanningData()]).finally(() => setLoading(false));
+  }, [fetchOrders, fetchPlanningData]);
+
+  useEffect(() => {
+    const channel = supabase
+      .channel('purchase-orders')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'purchase_orders' }, () => fetchOrders())
+      .subscribe();
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [fetchOrders]);
+
+  const filteredOrders = statusFilter.length > 0
+    ? orders.filter((o) => statusFilter.includes(o.status))
+    : orders;
+
+  // ── Handlers ───────────────────────────────────────────────
+  const handleCreated = (count: number, skipped: string[]) => {
+    setPlannerOpen(false);
+    fetchOrders();
+    addToast(t('purchaseOrders.draftsCreated', { count }), 'success');
+    if (skipped.length > 0) addToast(t('purchaseOrders.skippedNoSupplier', { names: skipped.join(', ') }), 'info');
+  };
+
+  const handleSaved = (message: string) => {
+    setViewingOrder(null);
+    fetchOrders();
+    addToast(message, 'success');
+  };
+
+  const handleDelete = async (id: string) => {
+    const { error } = await supabase.from('purchase_orders').delete().eq('id', id);
+    if (!error) setOrders((prev) => prev.filter((o) => o.id !== id));
+    else addToast(error.message, 'error');
+    setDeleteTarget(null);
+  };
+
+  const formatDate = (d: string | null) => {
+    if (!d) return '—';
+    return new Date(d).toLocaleDateString(user?.language === 'cs' ? 'cs-CZ' : 'en-US', {
+      day: 'numeric',
+      month: 'short',
+      year: 'numeric',
+    });
+  };
+
+  const closeToast = useCallback((id: string) => {
+    setToasts((prev) => prev.filter((t) => t.id !== id));
+  }, []);
+
+  // ── Render ─────────────────────────────────────────────────
+  return (
+    <PageShell
+      titleKey="pages.purchaseOrders.title"
+      descriptionKey="pages.purchaseOrders.description"
+      compactContent
+      noHorizontalPadding
+      actionsSlot={
+        <div className="flex w-full items-center justify-between sm:justify-end gap-2">
+          <FilterSelect
+            value={statusFilter}
+            onChange={setStatusFilter}
+            titleKey="purchaseOrders.filterTitle"
+            options={[
+              { value: 'all', label: t('purchaseOrders.allStatuses') },
+              ...PURCHASE_ORDER_STATUSES.map((s) => ({ value: s, label: t(`purchaseOrders.statuses.${s}`) })),
+            ]}
+          />
+          {canWrite && (
+            <button onClick={() => setPlannerOpen(true)} className={`${PRIMARY_BUTTON_CLASS} shrink-0`}>
+              <MaterialIcon name="add_shopping_cart" size={16} className="shrink-0" />
+              {t('purchaseOrders.planPurchase')}
+            </button>
+          )}
+        </div>
+      }
+    >
+      <ToastContainer toasts={toasts} onClose={closeToast} />
+      {loading ? (
+        <div className="flex items-center justify-center py-20">
+          <MaterialIcon name="progress_activity" size={24} className="text-nokturo-500 animate-spin shrink-0" />
+        </div>
+      ) : filteredOrders.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-20 text-center">
+          <MaterialIcon name="shopping_cart" size={48} className="text-nokturo-400 mb-4 shrink-0" />
+          <p className="text-nokturo-600 font-medium">{t('purchaseOrders.noOrders')}</p>
+          <p className="text-nokturo-500 text-sm mt-1">{t('purchaseOrders.addFirst')}</p>
+        </div>
+      ) : (
+        <div className="w-full min-w-0 overflow-x-auto">
+          <div className="min-w-[720px] grid grid-cols-[100px_1.2fr_80px_140px_auto_120px] gap-x-3">
+            {/* Header row */}
+            <div className="col-span-6">
+              <div className="grid grid-cols-[100px_1.2fr_80px_140px_auto_120px] gap-x-3 py-2 px-4 text-[11px] font-medium text-nokturo-500 uppercase tracking-widest">
+                <span>{t('purchaseOrders.number')}</span>
+                <span>{t('purchaseOrders.supplier')}</span>
+                <span className="text-right">{t('purchaseOrders.items')}</span>
+                <span className="text-right">{t('purchaseOrders.total')}</span>
+                <span>{t('purchaseOrders.status')}</span>
+                <span>{t('purchaseOrders.created')}</span>
+              </div>
+            </div>
+
+            {filteredOrders.map((order, idx) => {
+              const items = order.purchase_order_items ?? [];
+              return (
+                <button
+                  key={order.id}
+                  type="button"
+                  onClick={() => setViewingOrder(order)}
+                  className={`col-span-6 grid grid-cols-subgrid gap-x-3 py-2.5 px-4 text-sm text-nokturo-900 dark:text-nokturo-100 text-left hover:!bg-nokturo-100/60 dark:hover:!bg-nokturo-800/60 transition-colors ${
+                    idx % 2 === 1 ? 'bg-nokturo-900/5 dark:bg-white/5' : ''
+                  }`}
+                >
+                  <span className="font-medium tabular-nums">{formatPoNumber(order.po_number)}</span>
+                  <span className="truncate min-w-0">{order.supplier?.name ?? '—'}</span>
+                  <span className="text-right tabular-nums">{items.length}</span>
+                  <span className="text-right tabular-nums">
+                    {itemsTotal(items).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })} {order.currency}
+                  </span>
+                  <span>
+                    <span className={`inline-block text-xs px-2 py-0.5 font-medium whitespace-nowrap rounded-[4px] ${statusColor(order.status)}`}>
+                      {t(`purchaseOrders.statuses.${order.status}`)}
+                    </span>
+                  </span>
+                  <span className="text-nokturo-600 dark:text-nokturo-400">{formatDate(order.created_at)}</span>
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      <PurchasePlannerSlideOver
+        open={plannerOpen}
+        products={products}
+        productionOrders={productionOrders}
+        suppliers={suppliers}
+        onClose={() => setPlannerOpen(false)}
+        onCreated={handleCreated}
+      />
+
+      <PurchaseOrderSlideOver
+        open={!!viewingOrder}
+        order={viewingOrder}
+        canWrite={canWrite}
+        onClose={() => setViewingOrder(null)}
+        onSaved={handleSaved}
+        onDelete={canDelete ? (id) => setDeleteTarget(id) : undefined}
+      />
+
+      {deleteTarget && (
+        <DeleteConfirmModal
+          onCancel={() => setDeleteTarget(null)}
+          onConfirm={() => handleDelete(deleteTarget)}
+        />
+      )}
+    </PageShell>
+  );
+}
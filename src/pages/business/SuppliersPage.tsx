@@ -1,5 +1,6 @@
 import { useState, useEffect, useCallback } from 'react';
 import { useTranslation } from 'react-i18next';
+import { useSearchParams } from 'react-router-dom';
 import { supabase } from '../../lib/supabase';
 import { useAuthStore } from '../../stores/authStore';
 import { useSidebarStore } from '../../stores/sidebarStore';
@@ -52,6 +53,7 @@ export default function SuppliersPage() {
   // Detail slide-over (view)
   const [detailOpen, setDetailOpen] = useState(false);
   const [viewingSupplier, setViewingSupplier] = useState<Supplier | null>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
 
   // Edit slide-over
   const [editOpen, setEditOpen] = useState(false);
@@ -129,6 +131,20 @@ export default function SuppliersPage() {
     fetchSuppliers();
   }, [fetchSuppliers]);
 
+  // Open supplier from ?supplier= param (e.g. from a certificate expiry notification)
+  useEffect(() => {
+    const supplierId = searchParams.get('supplier');
+    if (!supplierId || loading) return;
+    const supplier = suppliers.find((s) => s.id === supplierId);
+    if (supplier) {
+      setViewingSupplier(supplier);
+      setDetailOpen(true);
+    }
+    const next = new URLSearchParams(searchParams);
+    next.delete('supplier');
+    setSearchParams(next, { replace: true });
+  }, [searchParams, setSearchParams, suppliers, loading]);
+
   // Global loading timeout: po 7s natvrdo ukončit loading, i když data nedorazila
   useEffect(() => {
     const t = setTimeout(() => setLoading(false), 7000);
@@ -1,195 +1,392 @@
-import { useState, useEffect, useRef, useCallback } from 'react';
+import { useState, useEffect, useRef, useCallback, Fragment } from 'react';
+import { createPortal } from 'react-dom';
 import { useTranslation } from 'react-i18next';
-import { supabase } from '../../lib/supabase';
+import { Link, useSearchParams } from 'react-router-dom';
 import { useAuthStore, getUserIdForDb } from '../../stores/authStore';
+import { useToastStore } from '../../stores/toastStore';
+import { canDeleteAnything, hasPermission } from '../../lib/rbac';
 import { PageShell } from '../../components/PageShell';
 import { MaterialIcon } from '../../components/icons/MaterialIcon';
 import { SendArrowIcon } from '../../components/icons/SendArrowIcon';
 import { DefaultAvatar } from '../../components/DefaultAvatar';
+import { DeleteConfirmModal } from '../../components/DeleteConfirmModal';
+import { CommentReactions } from '../../components/CommentReactions';
+import { useMentionSuggestions, MentionDropdown } from '../../components/MentionSuggestions';
+import type { MentionProfile } from '../../components/MentionSuggestions';
 import { renderContentWithMentions } from '../../lib/renderMentions';
+import { sendMentionNotifications } from '../../lib/sendMentionNotifications';
 import { INPUT_CLASS } from '../../lib/inputStyles';
-
-// ── Types ─────────────────────────────────────────────────────
-interface ChatRoom {
-  id: string;
-  name: string;
+import { useDropdownPosition } from '../../hooks/useDropdownPosition';
+import { useCommentProfiles, useMentionableProfiles } from '../../hooks/useComments';
+import { useChatAttachmentUrls, useChatMessages, useChatRooms, useChatUnreadRooms } from '../../hooks/useChat';
+import { ChatMembersDialog, DirectMessageDialog, NewChannelDialog } from '../../components/ChatRoomDialogs';
+import {
+  CHAT_ATTACHMENT_TYPES,
+  chatEntityPath,
+  chatRoomTitle,
+  deleteChatMessage,
+  editChatMessage,
+  isImageAttachment,
+  markChatRoomRead,
+  postChatMessage,
+  removeChatAttachmentFiles,
+  setChatRoomArchived,
+  startDirectMessage,
+  uploadChatAttachment,
+  type ChatAttachment,
+  type ChatMessage,
+  type ChatRoom,
+} from '../../lib/chat';
+
+// ── Helpers ───────────────────────────────────────────────────
+const formatTime = (dateStr: string) =>
+  new Date(dateStr).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const senderName = (msg: ChatMessage) =>
+  [msg.profile?.first_name, msg.profile?.last_name].filter(Boolean).join(' ') || msg.profile?.full_name || 'Unknown';
+
+const formatFileSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} kB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+// ── Composer ──────────────────────────────────────────────────
+interface ChatComposerProps {
+  placeholder: string;
+  profiles: MentionProfile[];
+  /** Uploads and posts; resolves false when sending failed (the draft is kept) */
+  onSend: (content: string, taggedUserIds: string[], files: File[]) => Promise<boolean>;
+  autoFocus?: boolean;
 }
 
-interface ChatMessage {
-  id: string;
-  room_id: string;
-  sender_id: string;
-  content: string;
-  created_at: string;
-  profile?: {
-    full_name?: string;
-    first_name?: string;
-    last_name?: string;
-    avatar_url: string | null;
+/** Message input with @mentions and image/PDF attachments */
+function ChatComposer({ placeholder, profiles, onSend, autoFocus = false }: ChatComposerProps) {
+  const { t } = useTranslation();
+  const [content, setContent] = useState('');
+  const [taggedUsers, setTaggedUsers] = useState<string[]>([]);
+  const [files, setFiles] = useState<File[]>([]);
+  const [sending, setSending] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const inputWrapRef = useRef<HTMLDivElement>(null);
+
+  const mention = useMentionSuggestions(content, profiles);
+
+  const handleMentionSelect = useCallback((profile: MentionProfile) => {
+    setContent(mention.applyMention(profile));
+    setTaggedUsers((prev) => (prev.includes(profile.id) ? prev : [...prev, profile.id]));
+    mention.closeDropdown();
+  }, [mention]);
+
+  const canSend = (!!content.trim() || files.length > 0) && !sending;
+
+  const handleSend = async () => {
+    if (!canSend) return;
+    setSending(true);
+    if (await onSend(content.trim(), taggedUsers, files)) {
+      setContent('');
+      setTaggedUsers([]);
+      setFiles([]);
+    }
+    setSending(false);
   };
+
+  return (
+    <div className="px-4 py-3 shrink-0">
+      {files.length > 0 && (
+        <div className="flex flex-wrap gap-1.5 mb-2">
+          {files.map((file, i) => (
+            <span
+              key={`${file.name}-${i}`}
+              className="inline-flex items-center gap-1 max-w-[220px] pl-2 pr-1 py-1 rounded-[6px] bg-nokturo-100 dark:bg-nokturo-700 text-xs text-nokturo-700 dark:text-nokturo-200"
+            >
+              <MaterialIcon name={file.type.startsWith('image/') ? 'image' : 'picture_as_pdf'} size={14} className="shrink-0" />
+              <span className="truncate">{file.name}</span>
+              <button
+                type="button"
+                onClick={() => setFiles((prev) => prev.filter((_, j) => j !== i))}
+                className="p-0.5 rounded hover:bg-nokturo-200 dark:hover:bg-nokturo-600"
+                aria-label={t('chat.removeAttachment')}
+              >
+                <MaterialIcon name="close" size={12} className="shrink-0" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+      <div className="flex items-end gap-2">
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          accept={CHAT_ATTACHMENT_TYPES.join(',')}
+          className="hidden"
+          onChange={(e) => {
+            const picked = Array.from(e.target.files ?? []);
+            setFiles((prev) => [...prev, ...picked]);
+            e.target.value = '';
+          }}
+        />
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={sending}
+          className="p-2 rounded-lg text-nokturo-500 hover:text-nokturo-800 dark:hover:text-nokturo-200 hover:bg-nokturo-100 dark:hover:bg-nokturo-700 transition-colors disabled:opacity-50 shrink-0"
+          title={t('chat.attach')}
+          aria-label={t('chat.attach')}
+        >
+          <MaterialIcon name="attach_file" size={18} className="shrink-0" />
+        </button>
+        <div ref={inputWrapRef} className="flex-1 relative">
+          {mention.active && (
+            <MentionDropdown
+              profiles={mention.filtered}
+              selectedIdx={mention.selectedIdx}
+              onSelect={handleMentionSelect}
+              anchorRef={inputWrapRef}
+            />
+          )}
+          <textarea
+            value={content}
+            onChange={(e) => setContent(e.target.value)}
+            onKeyDown={(e) => {
+              const result = mention.handleKeyDown(e);
+              if (result === 'select') {
+                const p = mention.getSelectedProfile();
+                if (p) handleMentionSelect(p);
+                return;
+              }
+              if (result) return;
+              if (e.key === 'Enter' && !e.shiftKey) {
+                e.preventDefault();
+                handleSend();
+              }
+            }}
+            placeholder={placeholder}
+            rows={1}
+            autoFocus={autoFocus}
+            className={`${INPUT_CLASS} w-full resize-none max-h-32 block`}
+            style={{ minHeight: '38px' }}
+          />
+        </div>
+        <button
+          onClick={handleSend}
+          disabled={!canSend}
+          className="p-2 bg-nokturo-900 text-white rounded-lg hover:bg-nokturo-900/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed shrink-0"
+        >
+          {sending ? (
+            <MaterialIcon name="progress_activity" size={16} className="animate-spin shrink-0" />
+          ) : (
+            <SendArrowIcon className="w-4 h-4" />
+          )}
+        </button>
+      </div>
+    </div>
+  );
 }
 
-// Fixed room names (mapped to DB)
-const ROOM_NAMES = ['Design', 'Production', 'General'] as const;
+// ── Attachments ───────────────────────────────────────────────
+function MessageAttachments({ attachments, urls }: { attachments: ChatAttachment[]; urls: Record<string, string> }) {
+  if (attachments.length === 0) return null;
+  const images = attachments.filter(isImageAttachment);
+  const documents = attachments.filter((a) => !isImageAttachment(a));
+
+  return (
+    <div className="mt-1.5 space-y-1.5">
+      {images.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {images.map((a) => (
+            <a key={a.path} href={urls[a.path]} target="_blank" rel="noopener noreferrer" className="block">
+              <img
+                src={urls[a.path]}
+                alt={a.name}
+                loading="lazy"
+                className="h-32 max-w-[240px] object-cover rounded-[6px] bg-nokturo-100 dark:bg-nokturo-700"
+              />
+            </a>
+          ))}
+        </div>
+      )}
+      {documents.map((a) => (
+        <a
+          key={a.path}
+          href={urls[a.path]}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="flex items-center gap-2 max-w-xs px-3 py-2 rounded-[6px] bg-nokturo-100 dark:bg-nokturo-700 hover:bg-nokturo-200 dark:hover:bg-nokturo-600 transition-colors"
+        >
+          <MaterialIcon name="picture_as_pdf" size={20} className="text-nokturo-500 shrink-0" />
+          <span className="flex-1 min-w-0">
+            <span className="block text-sm text-nokturo-800 dark:text-nokturo-200 truncate">{a.name}</span>
+            <span className="block text-[10px] text-nokturo-500">{formatFileSize(a.size)}</span>
+          </span>
+        </a>
+      ))}
+    </div>
+  );
+}
 
 // ── Component ─────────────────────────────────────────────────
 export default function ChatPage() {
   const { t } = useTranslation();
   const user = useAuthStore((s) => s.user);
+  const addToast = useToastStore((s) => s.addToast);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const canChat = user?.role ? hasPermission(user.role, 'communication.chat', 'comment') : false;
+  const canDelete = user?.role ? canDeleteAnything(user.role) : false;
 
   // ── State ───────────────────────────────────────────────────
-  const [rooms, setRooms] = useState<ChatRoom[]>([]);
   const [activeRoomId, setActiveRoomId] = useState<string>('');
-  const [messages, setMessages] = useState<ChatMessage[]>([]);
-  const [loadingRooms, setLoadingRooms] = useState(true);
-  const [loadingMessages, setLoadingMessages] = useState(false);
-  const [newMessage, setNewMessage] = useState('');
-  const [sending, setSending] = useState(false);
+  const [dialog, setDialog] = useState<'channel' | 'direct' | 'members' | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+  const [threadId, setThreadId] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editContent, setEditContent] = useState('');
+  const [editSaving, setEditSaving] = useState(false);
+  const [deleteTarget, setDeleteTarget] = useState<ChatMessage | null>(null);
+  const [menuOpenId, setMenuOpenId] = useState<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
-  const channelRef = useRef<ReturnType<typeof supabase.channel> | null>(null);
+  const threadEndRef = useRef<HTMLDivElement>(null);
+  const menuTriggerRef = useRef<HTMLButtonElement | null>(null);
+  const menuPosition = useDropdownPosition({
+    open: !!menuOpenId,
+    triggerRef: menuTriggerRef as React.RefObject<HTMLElement | null>,
+    alignRight: true,
+    minWidth: 100,
+    desiredHeight: 120,
+    offset: 4,
+  });
+
+  const { rooms, loading: loadingRooms, refetch: refetchRooms } = useChatRooms();
+  const { messages, setMessages, loading: loadingMessages, addMessage, toggleReaction } = useChatMessages(activeRoomId);
+  const attachmentUrls = useChatAttachmentUrls(messages);
+  const unreadRooms = useChatUnreadRooms();
+  const allProfiles = useCommentProfiles();
+  const profiles = useMentionableProfiles() as MentionProfile[];
+
+  const activeRoom = rooms.find((r) => r.id === activeRoomId);
+  const isFounder = user?.role === 'founder';
+  // Direct messages are always open to both sides; channels need the chat comment permission
+  const canPost = !!activeRoom && !activeRoom.archived_at && (activeRoom.kind === 'direct' || canChat);
+  // Only members can be mentioned in private channels and direct messages (others can't open them)
+  const roomProfiles =
+    activeRoom && (activeRoom.is_private || activeRoom.kind === 'direct')
+      ? profiles.filter((p) => activeRoom.members?.some((m) => m.user_id === p.id))
+      : profiles;
+
+  const roots = messages.filter((m) => !m.parent_id);
+  const thread = threadId ? messages.find((m) => m.id === threadId) : undefined;
+  const threadReplies = thread ? messages.filter((m) => m.parent_id === thread.id) : [];
+  const repliesOf = (id: string) => messages.filter((m) => m.parent_id === id);
+
+  // Default to the first open room once rooms are loaded (or when the active one disappears)
+  useEffect(() => {
+    if (loadingRooms || rooms.some((r) => r.id === activeRoomId)) return;
+    setActiveRoomId(rooms.find((r) => !r.archived_at)?.id ?? rooms[0]?.id ?? '');
+    setThreadId(null);
+  }, [rooms, loadingRooms]);
 
-  // ── Ensure rooms exist ──────────────────────────────────────
+  // ── Deep link: ?room=<id>&thread=<id> (notification links) ──
   useEffect(() => {
-    (async () => {
-      setLoadingRooms(true);
-      // Fetch existing rooms
-      const { data: existing } = await supabase
-        .from('chat_rooms')
-        .select('*')
-        .order('created_at');
-
-      let roomList = (existing || []) as ChatRoom[];
-
-      // Create missing fixed rooms
-      for (const name of ROOM_NAMES) {
-        if (!roomList.find((r) => r.name === name)) {
-          const { data: newRoom } = await supabase
-            .from('chat_rooms')
-            .insert({ name, created_by: getUserIdForDb() })
-            .select()
-            .single();
-          if (newRoom) roomList.push(newRoom as ChatRoom);
-        }
-      }
-
-      // Sort by ROOM_NAMES order
-      roomList = ROOM_NAMES.map(
-        (name) => roomList.find((r) => r.name === name)!,
-      ).filter(Boolean);
-
-      setRooms(roomList);
-      if (roomList.length > 0) setActiveRoomId(roomList[0].id);
-      setLoadingRooms(false);
-    })();
-  }, [user?.id]);
-
-  // ── Fetch messages for active room ──────────────────────────
-  const fetchMessages = useCallback(async () => {
-    if (!activeRoomId) return;
-    setLoadingMessages(true);
-
-    const { data } = await supabase
-      .from('chat_messages')
-      .select('*, profile:profiles!chat_messages_sender_id_fkey(full_name, first_name, last_name, avatar_url)')
-      .eq('room_id', activeRoomId)
-      .order('created_at', { ascending: true });
-
-    setMessages((data || []) as ChatMessage[]);
-    setLoadingMessages(false);
-  }, [activeRoomId]);
+    const roomParam = searchParams.get('room');
+    if (!roomParam || rooms.length === 0) return;
+    if (rooms.some((r) => r.id === roomParam)) {
+      setActiveRoomId(roomParam);
+      setThreadId(searchParams.get('thread'));
+    }
+    const next = new URLSearchParams(searchParams);
+    next.delete('room');
+    next.delete('thread');
+    setSearchParams(next, { replace: true });
+  }, [searchParams, rooms]);
+
+  const selectRoom = (roomId: string) => {
+    setActiveRoomId(roomId);
+    setThreadId(null);
+    setEditingId(null);
+  };
 
+  // Viewing a room (and every new message in it) counts as reading it
   useEffect(() => {
-    fetchMessages();
-  }, [fetchMessages]);
+    if (activeRoomId && !loadingMessages) markChatRoomRead(activeRoomId);
+  }, [activeRoomId, messages.length, loadingMessages]);
 
   // ── Scroll to bottom ────────────────────────────────────────
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages]);
+  }, [roots.length]);
 
-  // ── Supabase Realtime subscription ──────────────────────────
   useEffect(() => {
-    if (!activeRoomId) return;
-
-    // Unsubscribe from previous channel
-    if (channelRef.current) {
-      supabase.removeChannel(channelRef.current);
-    }
-
-    const channel = supabase
-      .channel(`room-${activeRoomId}`)
-      .on(
-        'postgres_changes',
-        {
-          event: 'INSERT',
-          schema: 'public',
-          table: 'chat_messages',
-          filter: `room_id=eq.${activeRoomId}`,
-        },
-        async (payload) => {
-          const newMsg = payload.new as ChatMessage;
-
-          // Fetch the profile for this message
-          const { data: profile } = await supabase
-            .from('profiles')
-            .select('full_name, first_name, last_name, avatar_url')
-            .eq('id', newMsg.sender_id)
-            .single();
-
-          const enrichedMsg: ChatMessage = {
-            ...newMsg,
-            profile: profile || { avatar_url: null },
-          };
-
-          setMessages((prev) => {
-            // Prevent duplicates
-            if (prev.some((m) => m.id === enrichedMsg.id)) return prev;
-            return [...prev, enrichedMsg];
-          });
-        },
-      )
-      .subscribe();
-
-    channelRef.current = channel;
-
-    return () => {
-      supabase.removeChannel(channel);
-    };
-  }, [activeRoomId]);
+    threadEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [threadId, threadReplies.length]);
 
   // ── Send message ────────────────────────────────────────────
-  const handleSend = async () => {
+  const handleSend = async (
+    content: string,
+    taggedUserIds: string[],
+    files: File[],
+    parentId: string | null,
+  ): Promise<boolean> => {
     const senderId = getUserIdForDb();
-    if (!newMessage.trim() || !activeRoomId || !user || !senderId) return;
-    setSending(true);
+    if (!activeRoomId || !user || !senderId) return false;
+
+    const attachments: ChatAttachment[] = [];
+    let inserted: ChatMessage;
+    try {
+      for (const file of files) attachments.push(await uploadChatAttachment(activeRoomId, file));
+      inserted = await postChatMessage({ roomId: activeRoomId, senderId, content, parentId, taggedUserIds, attachments });
+    } catch (e) {
+      await removeChatAttachmentFiles(attachments);
+      addToast((e as Error).message || t('chat.sendFailed'), 'error');
+      return false;
+    }
+    addMessage(inserted);
+
+    if (taggedUserIds.length > 0) {
+      await sendMentionNotifications({
+        taggedUserIds,
+        authorId: senderId,
+        authorName: [user.firstName, user.lastName].filter(Boolean).join(' ') || user.name,
+        content: content || attachments.map((a) => a.name).join(', '),
+        type: 'chat_mention',
+        link: `/communication/chat?room=${activeRoomId}${parentId ? `&thread=${parentId}` : ''}`,
+      });
+    }
+    return true;
+  };
 
-    const { error } = await supabase.from('chat_messages').insert({
-      room_id: activeRoomId,
-      sender_id: senderId,
-      content: newMessage.trim(),
-    });
+  // ── Edit / delete ───────────────────────────────────────────
+  const cancelEdit = () => {
+    setEditingId(null);
+    setEditContent('');
+  };
 
-    if (error) {
-      setSending(false);
-      return; // Consider adding toast for send failure
+  const handleSaveEdit = async (msg: ChatMessage) => {
+    const content = editContent.trim();
+    if (!content && msg.attachments.length === 0) return;
+    setEditSaving(true);
+    try {
+      const editedAt = await editChatMessage(msg.id, content);
+      setMessages((prev) => prev.map((m) => (m.id === msg.id ? { ...m, content, edited_at: editedAt } : m)));
+      cancelEdit();
+    } catch (e) {
+      addToast((e as Error).message, 'error');
     }
-    setNewMessage('');
-    setSending(false);
+    setEditSaving(false);
   };
 
-  const handleKeyDown = (e: React.KeyboardEvent) => {
-    if (e.key === 'Enter' && !e.shiftKey) {
-      e.preventDefault();
-      handleSend();
+  const handleDelete = async (msg: ChatMessage) => {
+    // Replies are deleted with their thread root – remove their files too
+    const files = [msg, ...repliesOf(msg.id)].flatMap((m) => m.attachments);
+    try {
+      await deleteChatMessage(msg.id, files);
+    } catch (e) {
+      addToast((e as Error).message, 'error');
+      return;
     }
+    setMessages((prev) => prev.filter((m) => m.id !== msg.id && m.parent_id !== msg.id));
+    if (threadId === msg.id) setThreadId(null);
+    setDeleteTarget(null);
   };
 
   // ── Date helpers ────────────────────────────────────────────
-  const formatTime = (dateStr: string) => {
-    const date = new Date(dateStr);
-    return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
-  };
-
   const formatDateSeparator = (dateStr: string) => {
     const date = new Date(dateStr);
     const today = new Date();
@@ -201,17 +398,244 @@ export default function ChatPage() {
     return date.toLocaleDateString();
   };
 
-  const shouldShowDateSeparator = (idx: number) => {
+  const shouldShowDateSeparator = (list: ChatMessage[], idx: number) => {
     if (idx === 0) return true;
-    const curr = new Date(messages[idx].created_at).toDateString();
-    const prev = new Date(messages[idx - 1].created_at).toDateString();
+    const curr = new Date(list[idx].created_at).toDateString();
+    const prev = new Date(list[idx - 1].created_at).toDateString();
     return curr !== prev;
   };
 
-  // ── Room label ──────────────────────────────────────────────
-  const roomLabel = (name: string) => {
-    const key = name.toLowerCase() as 'design' | 'production' | 'general';
-    return t(`chat.rooms.${key}`);
+  const unreadCount = (roomId: string) => unreadRooms.find((r) => r.room_id === roomId)?.unread ?? 0;
+
+  // ── Message ─────────────────────────────────────────────────
+  const renderMessage = (msg: ChatMessage, inThread: boolean) => {
+    const isOwn = msg.sender_id === user?.id;
+    const name = senderName(msg);
+    const isEditing = editingId === msg.id;
+    const replies = inThread ? [] : repliesOf(msg.id);
+    const menuKey = `${inThread ? 'thread' : 'main'}-${msg.id}`;
+
+    return (
+      <div className="flex items-start gap-3 py-1.5 hover:bg-nokturo-50/70 dark:hover:bg-nokturo-700/40 rounded px-2 -mx-2 transition-colors group">
+        {/* Avatar */}
+        {msg.profile?.avatar_url ? (
+          <img
+            src={msg.profile.avatar_url}
+            alt={name}
+            className="avatar-round w-8 h-8 object-cover shrink-0 mt-0.5"
+          />
+        ) : (
+          <div className="avatar-round w-8 h-8 overflow-hidden shrink-0 mt-0.5 flex items-center justify-center bg-surface">
+            <DefaultAvatar size={32} />
+          </div>
+        )}
+
+        {/* Content */}
+        <div className="flex-1 min-w-0">
+          <div className="flex items-baseline gap-2">
+            <span className="text-sm font-medium text-nokturo-900 dark:text-nokturo-100 truncate">
+              {name}
+            </span>
+            <span className="text-[10px] text-nokturo-500 shrink-0">
+              {formatTime(msg.created_at)}
+              {msg.edited_at && ` · ${t('chat.edited')}`}
+            </span>
+          </div>
+
+          {isEditing ? (
+            <div className="flex flex-col gap-2 mt-1">
+              <textarea
+                value={editContent}
+                onChange={(e) => setEditContent(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && !e.shiftKey) {
+                    e.preventDefault();
+                    handleSaveEdit(msg);
+                  }
+                  if (e.key === 'Escape') cancelEdit();
+                }}
+                rows={2}
+                className={`${INPUT_CLASS} resize-none`}
+                autoFocus
+              />
+              <div className="flex gap-2">
+                <button
+                  onClick={() => handleSaveEdit(msg)}
+                  disabled={(!editContent.trim() && msg.attachments.length === 0) || editSaving}
+                  className="flex items-center gap-1 text-xs text-nokturo-600 dark:text-nokturo-400 hover:text-nokturo-800 dark:hover:text-nokturo-200 disabled:opacity-50"
+                >
+                  <MaterialIcon name="check" size={12} className="shrink-0" />
+                  {t('common.save')}
+                </button>
+                <button
+                  onClick={cancelEdit}
+                  className="flex items-center gap-1 text-xs text-nokturo-500 dark:text-nokturo-400 hover:text-nokturo-700 dark:hover:text-nokturo-300"
+                >
+                  <MaterialIcon name="close" size={12} className="shrink-0" />
+                  {t('common.cancel')}
+                </button>
+              </div>
+            </div>
+          ) : (
+            msg.content && (
+              <p className="text-sm text-nokturo-600 dark:text-nokturo-300 leading-relaxed break-words whitespace-pre-wrap">
+                {renderContentWithMentions(
+                  msg.content,
+                  isOwn,
+                  [user?.firstName, user?.lastName].filter(Boolean).join(' ') || user?.name || ''
+                )}
+              </p>
+            )
+          )}
+
+          <MessageAttachments attachments={msg.attachments ?? []} urls={attachmentUrls} />
+
+          <CommentReactions
+            reactions={msg.reactions}
+            onToggle={(emoji) => toggleReaction(msg.id, emoji)}
+            readOnly={!canPost}
+          />
+
+          {replies.length > 0 && (
+            <button
+              type="button"
+              onClick={() => setThreadId(msg.id)}
+              className="inline-flex items-center gap-1 mt-1 text-xs text-nokturo-600 dark:text-nokturo-400 hover:text-nokturo-900 dark:hover:text-nokturo-100 hover:underline underline-offset-2"
+            >
+              <MaterialIcon name="forum" size={14} className="shrink-0" />
+              {t('chat.replyCount', { count: replies.length })}
+              <span className="text-nokturo-500">
+                · {t('chat.lastReply', { time: formatTime(replies[replies.length - 1].created_at) })}
+              </span>
+            </button>
+          )}
+        </div>
+
+        {/* Actions */}
+        {!isEditing && (
+          <div className={`flex items-center gap-0.5 shrink-0 transition-opacity ${menuOpenId === menuKey ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}`}>
+            {!inThread && canPost && (
+              <button
+                type="button"
+                onClick={() => setThreadId(msg.id)}
+                className="p-1 rounded text-nokturo-400 hover:text-nokturo-700 dark:hover:text-nokturo-200 hover:bg-nokturo-100 dark:hover:bg-nokturo-700"
+                title={t('chat.replyInThread')}
+                aria-label={t('chat.replyInThread')}
+              >
+                <MaterialIcon name="reply" size={16} className="shrink-0" />
+              </button>
+            )}
+            {(isOwn || canDelete) && (
+              <div className="relative">
+                <button
+                  type="button"
+                  onClick={(e) => {
+                    menuTriggerRef.current = e.currentTarget;
+                    setMenuOpenId(menuOpenId === menuKey ? null : menuKey);
+                  }}
+                  className="p-1 rounded text-nokturo-400 hover:text-nokturo-700 dark:hover:text-nokturo-200 hover:bg-nokturo-100 dark:hover:bg-nokturo-700"
+                >
+                  <MaterialIcon name="more_horiz" size={16} className="shrink-0" />
+                </button>
+                {menuOpenId === menuKey && menuPosition && createPortal(
+                  <>
+                    <div className="fixed inset-0 z-[10000]" onClick={() => setMenuOpenId(null)} />
+                    <div
+                      className="dropdown-menu fixed shadow-lg py-1 min-w-[100px] z-[10001] overflow-hidden"
+                      style={{
+                        ...(menuPosition.top !== undefined && { top: menuPosition.top }),
+                        ...(menuPosition.bottom !== undefined && { bottom: menuPosition.bottom }),
+                        left: menuPosition.left,
+                        maxHeight: menuPosition.maxHeight,
+                        maxWidth: menuPosition.maxWidth,
+                      }}
+                    >
+                      {isOwn && (
+                        <button
+                          type="button"
+                          onClick={() => { setEditingId(msg.id); setEditContent(msg.content); setMenuOpenId(null); }}
+                          className="w-full px-3 py-1.5 text-left text-xs text-nokturo-700 dark:text-nokturo-200 hover:bg-nokturo-50 dark:hover:bg-nokturo-600"
+                        >
+                          {t('common.edit')}
+                        </button>
+                      )}
+                      <button
+                        type="button"
+                        onClick={() => { setDeleteTarget(msg); setMenuOpenId(null); }}
+                        className="dropdown-menu-item-destructive w-full px-3 py-1.5 text-left text-xs text-nokturo-700 dark:text-nokturo-200 hover:bg-red hover:text-red-fg"
+                      >
+                        {t('common.delete')}
+                      </button>
+                    </div>
+                  </>,
+                  document.body
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  // ── Rooms ─────────────────────────────────────────────────
+  const openRooms = rooms.filter((r) => !r.archived_at);
+  const archivedRooms = rooms.filter((r) => r.archived_at);
+  const roomGroups = [
+    { key: 'channel', label: t('chat.channels'), rooms: openRooms.filter((r) => r.kind === 'channel') },
+    { key: 'entity', label: t('chat.entityChannels'), rooms: openRooms.filter((r) => r.kind === 'entity') },
+    { key: 'direct', label: t('chat.directMessages'), rooms: openRooms.filter((r) => r.kind === 'direct') },
+  ].filter((g) => g.rooms.length > 0);
+  const activeEntityPath = activeRoom ? chatEntityPath(activeRoom) : null;
+
+  const roomIcon = (room: ChatRoom) => {
+    if (room.kind === 'direct') return 'person';
+    if (room.kind === 'entity') return room.entity_type === 'product' ? 'inventory_2' : 'factory';
+    return room.is_private ? 'lock' : 'tag';
+  };
+
+  const renderRoomButton = (room: ChatRoom) => {
+    const unread = room.id === activeRoomId ? 0 : unreadCount(room.id);
+    return (
+      <button
+        key={room.id}
+        onClick={() => selectRoom(room.id)}
+        className={`flex items-center gap-2 px-3 sm:px-4 py-2 sm:py-2.5 text-sm transition-colors whitespace-nowrap rounded sm:rounded-none sm:w-full ${
+          activeRoomId === room.id
+            ? 'bg-nokturo-200 dark:bg-nokturo-700 text-nokturo-900 dark:text-nokturo-100'
+            : 'text-nokturo-600 dark:text-nokturo-400 hover:bg-nokturo-100 dark:hover:bg-nokturo-700 hover:text-nokturo-800 dark:hover:text-nokturo-200'
+        } ${unread > 0 ? 'font-medium' : ''} ${room.archived_at ? 'opacity-60' : ''}`}
+      >
+        <MaterialIcon name={roomIcon(room)} size={16} className="shrink-0 text-nokturo-500" />
+        <span className="flex-1 text-left truncate">{chatRoomTitle(room, user?.id)}</span>
+        {unread > 0 && (
+          <span className="min-w-[18px] h-[18px] px-1 rounded-full bg-nokturo-900 dark:bg-white text-white dark:text-nokturo-900 text-[10px] font-medium flex items-center justify-center shrink-0">
+            {unread > 99 ? '99+' : unread}
+          </span>
+        )}
+      </button>
+    );
+  };
+
+  const handleStartDirect = async (userId: string) => {
+    try {
+      const roomId = await startDirectMessage(userId);
+      await refetchRooms();
+      selectRoom(roomId);
+      setDialog(null);
+    } catch (e) {
+      addToast((e as Error).message, 'error');
+    }
+  };
+
+  const handleToggleArchived = async () => {
+    if (!activeRoom) return;
+    try {
+      await setChatRoomArchived(activeRoom.id, !activeRoom.archived_at);
+      await refetchRooms();
+    } catch (e) {
+      addToast((e as Error).message, 'error');
+    }
   };
 
   // ── Render ──────────────────────────────────────────────────
@@ -234,43 +658,123 @@ export default function ChatPage() {
       descriptionKey="pages.internalChat.description"
     >
       <div className="flex-1 min-h-0 flex flex-col sm:flex-row bg-white dark:bg-nokturo-800 rounded-lg overflow-hidden">
-        {/* ── Room tabs (horizontal on mobile, vertical sidebar on sm+) ── */}
-        <div className="sm:w-56 shrink-0 bg-nokturo-50 dark:bg-nokturo-800 flex sm:flex-col">
-          <div className="hidden sm:block px-4 py-3">
-            <h4 className="text-heading-5 font-extralight text-nokturo-500 uppercase tracking-wider">
+        {/* ── Room list (horizontal on mobile, vertical sidebar on sm+) ── */}
+        <div className="sm:w-56 shrink-0 bg-nokturo-50 dark:bg-nokturo-800 flex sm:flex-col min-h-0">
+          <div className="hidden sm:flex items-center justify-between gap-2 px-4 py-3">
+            <h4 className="text-heading-5 font-extralight text-nokturo-500 uppercase tracking-wider truncate">
               {t('nav.communication')}
             </h4>
-          </div>
-          <div className="flex sm:flex-col sm:flex-1 overflow-x-auto sm:overflow-y-auto py-1 sm:py-1 px-2 sm:px-0 gap-1 sm:gap-0">
-            {rooms.map((room) => (
+            <div className="flex items-center gap-0.5 shrink-0">
+              {isFounder && (
+                <button
+                  type="button"
+                  onClick={() => setDialog('channel')}
+                  className="p-1 rounded text-nokturo-500 hover:text-nokturo-800 dark:hover:text-nokturo-200 hover:bg-nokturo-100 dark:hover:bg-nokturo-700"
+                  title={t('chat.newChannel')}
+                  aria-label={t('chat.newChannel')}
+                >
+                  <MaterialIcon name="add" size={18} className="shrink-0" />
+                </button>
+              )}
               <button
-                key={room.id}
-                onClick={() => setActiveRoomId(room.id)}
-                className={`flex items-center gap-2 px-3 sm:px-4 py-2 sm:py-2.5 text-sm transition-colors whitespace-nowrap rounded sm:rounded-none sm:w-full ${
-                  activeRoomId === room.id
-                    ? 'bg-nokturo-200 dark:bg-nokturo-700 text-nokturo-900 dark:text-nokturo-100'
-                    : 'text-nokturo-600 dark:text-nokturo-400 hover:bg-nokturo-100 dark:hover:bg-nokturo-700 hover:text-nokturo-800 dark:hover:text-nokturo-200'
-                }`}
+                type="button"
+                onClick={() => setDialog('direct')}
+                className="p-1 rounded text-nokturo-500 hover:text-nokturo-800 dark:hover:text-nokturo-200 hover:bg-nokturo-100 dark:hover:bg-nokturo-700"
+                title={t('chat.newDirectMessage')}
+                aria-label={t('chat.newDirectMessage')}
               >
-                <MaterialIcon name="tag" size={16} className="shrink-0 text-nokturo-500" />
-                {roomLabel(room.name)}
+                <MaterialIcon name="edit_square" size={18} className="shrink-0" />
               </button>
+            </div>
+          </div>
+          <div className="flex sm:flex-col sm:flex-1 overflow-x-auto sm:overflow-y-auto py-1 sm:py-1 px-2 sm:px-0 gap-1 sm:gap-0">
+            {/* Mobile: new direct message */}
+            <button
+              type="button"
+              onClick={() => setDialog('direct')}
+              className="sm:hidden flex items-center px-3 py-2 rounded text-nokturo-500 hover:bg-nokturo-100 dark:hover:bg-nokturo-700 shrink-0"
+              aria-label={t('chat.newDirectMessage')}
+            >
+              <MaterialIcon name="edit_square" size={16} className="shrink-0" />
+            </button>
+            {roomGroups.map((group) => (
+              <Fragment key={group.key}>
+                <p className="hidden sm:block px-4 pt-3 pb-1 text-[10px] font-medium uppercase tracking-wider text-nokturo-500">
+                  {group.label}
+                </p>
+                {group.rooms.map(renderRoomButton)}
+              </Fragment>
             ))}
+            {archivedRooms.length > 0 && (
+              <>
+                <button
+                  type="button"
+                  onClick={() => setShowArchived((v) => !v)}
+                  className="hidden sm:flex items-center gap-1 px-4 pt-3 pb-1 text-[10px] font-medium uppercase tracking-wider text-nokturo-500 hover:text-nokturo-700 dark:hover:text-nokturo-300"
+                >
+                  <MaterialIcon name={showArchived ? 'expand_more' : 'chevron_right'} size={14} className="shrink-0" />
+                  {t('chat.archivedRooms', { count: archivedRooms.length })}
+                </button>
+                {(showArchived || activeRoom?.archived_at) &&
+                  archivedRooms
+                    .filter((r) => showArchived || r.id === activeRoomId)
+                    .map(renderRoomButton)}
+              </>
+            )}
           </div>
         </div>
 
-        {/* ── Main chat area ────────────────────────────────── */}
-        <div className="flex-1 flex flex-col min-w-0">
+        {/* ── Main chat area (replaced by the thread on mobile) ── */}
+        <div className={`flex-1 flex-col min-w-0 ${thread ? 'hidden lg:flex' : 'flex'}`}>
           {/* Room header */}
-          <div className="px-4 py-3 shrink-0">
-            <div className="flex items-center gap-2">
-              <MaterialIcon name="tag" size={16} className="text-nokturo-500 shrink-0" />
-              <h3 className="text-heading-5 font-extralight text-nokturo-900">
-                {rooms.find((r) => r.id === activeRoomId)
-                  ? roomLabel(rooms.find((r) => r.id === activeRoomId)!.name)
-                  : ''}
+          <div className="px-4 py-3 shrink-0 flex items-center justify-between gap-3">
+            <div className="flex items-center gap-2 min-w-0">
+              {activeRoom && <MaterialIcon name={roomIcon(activeRoom)} size={16} className="text-nokturo-500 shrink-0" />}
+              <h3 className="text-heading-5 font-extralight text-nokturo-900 truncate">
+                {activeRoom ? chatRoomTitle(activeRoom, user?.id) : ''}
               </h3>
+              {activeRoom?.archived_at && (
+                <span className="px-1.5 py-0.5 rounded-full bg-nokturo-200 dark:bg-nokturo-700 text-[10px] text-nokturo-600 dark:text-nokturo-300 shrink-0">
+                  {t('chat.archived')}
+                </span>
+              )}
             </div>
+            {activeRoom && (
+              <div className="flex items-center gap-0.5 shrink-0">
+                {activeEntityPath && (
+                  <Link
+                    to={activeEntityPath}
+                    className="inline-flex items-center gap-1 px-2 py-1 rounded text-xs text-nokturo-600 dark:text-nokturo-300 hover:bg-nokturo-100 dark:hover:bg-nokturo-700"
+                  >
+                    <MaterialIcon name="open_in_new" size={14} className="shrink-0" />
+                    {activeRoom.entity_type === 'product' ? t('chat.openProduct') : t('chat.openProductionOrder')}
+                  </Link>
+                )}
+                {(activeRoom.kind !== 'direct' || (activeRoom.members ?? []).length > 0) && (
+                  <button
+                    type="button"
+                    onClick={() => setDialog('members')}
+                    className="inline-flex items-center gap-1 p-1.5 rounded text-xs text-nokturo-500 hover:text-nokturo-800 dark:hover:text-nokturo-200 hover:bg-nokturo-100 dark:hover:bg-nokturo-700"
+                    title={t('chat.members')}
+                    aria-label={t('chat.members')}
+                  >
+                    <MaterialIcon name="group" size={16} className="shrink-0" />
+                    {(activeRoom.members ?? []).length > 0 && <span>{activeRoom.members!.length}</span>}
+                  </button>
+                )}
+                {isFounder && activeRoom.kind !== 'direct' && (
+                  <button
+                    type="button"
+                    onClick={handleToggleArchived}
+                    className="p-1.5 rounded text-nokturo-500 hover:text-nokturo-800 dark:hover:text-nokturo-200 hover:bg-nokturo-100 dark:hover:bg-nokturo-700"
+                    title={activeRoom.archived_at ? t('chat.unarchive') : t('chat.archive')}
+                    aria-label={activeRoom.archived_at ? t('chat.unarchive') : t('chat.archive')}
+                  >
+                    <MaterialIcon name={activeRoom.archived_at ? 'unarchive' : 'archive'} size={16} className="shrink-0" />
+                  </button>
+                )}
+              </div>
+            )}
           </div>
 
           {/* Messages area */}
@@ -279,103 +783,121 @@ export default function ChatPage() {
               <div className="flex items-center justify-center py-12">
                 <MaterialIcon name="progress_activity" size={20} className="text-nokturo-500 animate-spin shrink-0" />
               </div>
-            ) : messages.length === 0 ? (
+            ) : roots.length === 0 ? (
               <div className="flex flex-col items-center justify-center py-12 text-center">
                 <MaterialIcon name="forum" size={40} className="text-nokturo-600 mb-3 shrink-0" />
                 <p className="text-nokturo-500 text-sm">{t('chat.noMessages')}</p>
               </div>
             ) : (
-              messages.map((msg, idx) => {
-                const isOwn = msg.sender_id === user?.id;
-                const showDate = shouldShowDateSeparator(idx);
-                const name =
-                  [msg.profile?.first_name, msg.profile?.last_name]
-                    .filter(Boolean)
-                    .join(' ') ||
-                  msg.profile?.full_name ||
-                  'Unknown';
-
-                return (
-                  <div key={msg.id}>
-                    {/* Date separator */}
-                    {showDate && (
-                      <div className="flex items-center gap-3 my-4">
-                        <div className="flex-1 h-px bg-nokturo-200" />
-                        <span className="text-xs text-nokturo-500 shrink-0">
-                          {formatDateSeparator(msg.created_at)}
-                        </span>
-                        <div className="flex-1 h-px bg-nokturo-200" />
-                      </div>
-                    )}
-
-                    {/* Message */}
-                    <div className="flex items-start gap-3 py-1.5 hover:bg-nokturo-50/70 rounded px-2 -mx-2 transition-colors group">
-                      {/* Avatar */}
-                      {msg.profile?.avatar_url ? (
-                        <img
-                          src={msg.profile.avatar_url}
-                          alt={name}
-                          className="avatar-round w-8 h-8 object-cover shrink-0 mt-0.5"
-                        />
-                      ) : (
-                        <div className="avatar-round w-8 h-8 overflow-hidden shrink-0 mt-0.5 flex items-center justify-center bg-surface">
-                          <DefaultAvatar size={32} />
-                        </div>
-                      )}
-
-                      {/* Content */}
-                      <div className="flex-1 min-w-0">
-                        <div className="flex items-baseline gap-2">
-                          <span className="text-sm font-medium text-nokturo-900">
-                            {name}
-                          </span>
-                          <span className="text-[10px] text-nokturo-500">
-                            {formatTime(msg.created_at)}
-                          </span>
-                        </div>
-                        <p className="text-sm text-nokturo-600 leading-relaxed break-words">
-                          {renderContentWithMentions(
-                            msg.content,
-                            isOwn,
-                            [user?.firstName, user?.lastName].filter(Boolean).join(' ') || user?.name || ''
-                          )}
-                        </p>
-                      </div>
+              roots.map((msg, idx) => (
+                <div key={msg.id}>
+                  {/* Date separator */}
+                  {shouldShowDateSeparator(roots, idx) && (
+                    <div className="flex items-center gap-3 my-4">
+                      <div className="flex-1 h-px bg-nokturo-200 dark:bg-nokturo-700" />
+                      <span className="text-xs text-nokturo-500 shrink-0">
+                        {formatDateSeparator(msg.created_at)}
+                      </span>
+                      <div className="flex-1 h-px bg-nokturo-200 dark:bg-nokturo-700" />
                     </div>
-                  </div>
-                );
-              })
+                  )}
+                  {renderMessage(msg, false)}
+                </div>
+              ))
             )}
             <div ref={messagesEndRef} />
           </div>
 
           {/* Message input */}
-          <div className="px-4 py-3 shrink-0">
-            <div className="flex items-end gap-2">
-              <textarea
-                value={newMessage}
-                onChange={(e) => setNewMessage(e.target.value)}
-                onKeyDown={handleKeyDown}
-                placeholder={t('chat.messagePlaceholder')}
-                rows={1}
-                className={`${INPUT_CLASS} flex-1 resize-none max-h-32`}
-                style={{ minHeight: '38px' }}
-              />
+          {activeRoom?.archived_at ? (
+            <p className="px-4 py-3 shrink-0 flex items-center gap-2 text-sm text-nokturo-500">
+              <MaterialIcon name="archive" size={16} className="shrink-0" />
+              {t('chat.archivedNotice')}
+            </p>
+          ) : canPost && (
+            <ChatComposer
+              key={activeRoomId}
+              placeholder={t('chat.messagePlaceholder')}
+              profiles={roomProfiles}
+              onSend={(content, tagged, files) => handleSend(content, tagged, files, null)}
+            />
+          )}
+        </div>
+
+        {/* ── Thread ────────────────────────────────────────── */}
+        {thread && (
+          <div className="flex-1 lg:flex-none lg:w-96 flex flex-col min-w-0 bg-nokturo-50/60 dark:bg-nokturo-900/30">
+            <div className="px-4 py-3 shrink-0 flex items-center justify-between gap-2">
+              <div className="flex items-center gap-2 min-w-0">
+                <MaterialIcon name="forum" size={16} className="text-nokturo-500 shrink-0" />
+                <h3 className="text-heading-5 font-extralight text-nokturo-900 truncate">{t('chat.thread')}</h3>
+              </div>
               <button
-                onClick={handleSend}
-                disabled={!newMessage.trim() || sending}
-                className="p-2 bg-nokturo-900 text-white rounded-lg hover:bg-nokturo-900/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed shrink-0"
+                type="button"
+                onClick={() => setThreadId(null)}
+                className="p-1 rounded text-nokturo-500 hover:text-nokturo-800 dark:hover:text-nokturo-200 hover:bg-nokturo-100 dark:hover:bg-nokturo-700 shrink-0"
+                title={t('common.close')}
+                aria-label={t('common.close')}
               >
-                {sending ? (
-                  <MaterialIcon name="progress_activity" size={16} className="animate-spin shrink-0" />
-                ) : (
-                  <SendArrowIcon className="w-4 h-4" />
-                )}
+                <MaterialIcon name="close" size={18} className="shrink-0" />
               </button>
             </div>
+            <div className="flex-1 overflow-y-auto px-4 py-2 space-y-1">
+              {renderMessage(thread, true)}
+              <div className="flex items-center gap-3 my-2">
+                <span className="text-xs text-nokturo-500 shrink-0">
+                  {t('chat.replyCount', { count: threadReplies.length })}
+                </span>
+                <div className="flex-1 h-px bg-nokturo-200 dark:bg-nokturo-700" />
+              </div>
+              {threadReplies.map((reply) => (
+                <div key={reply.id}>{renderMessage(reply, true)}</div>
+              ))}
+              <div ref={threadEndRef} />
+            </div>
+            {canPost && (
+              <ChatComposer
+                key={thread.id}
+                placeholder={t('chat.replyPlaceholder')}
+                profiles={roomProfiles}
+                onSend={(content, tagged, files) => handleSend(content, tagged, files, thread.id)}
+                autoFocus
+              />
+            )}
           </div>
-        </div>
+        )}
       </div>
+
+      {deleteTarget && (
+        <DeleteConfirmModal
+          onCancel={() => setDeleteTarget(null)}
+          onConfirm={() => handleDelete(deleteTarget)}
+        />
+      )}
+
+      {dialog === 'channel' && (
+        <NewChannelDialog
+          profiles={profiles}
+          onClose={() => setDialog(null)}
+          onCreated={async (room) => {
+            setDialog(null);
+            await refetchRooms();
+            selectRoom(room.id);
+          }}
+        />
+      )}
+      {dialog === 'direct' && (
+        <DirectMessageDialog profiles={profiles} onClose={() => setDialog(null)} onPick={handleStartDirect} />
+      )}
+      {dialog === 'members' && activeRoom && (
+        <ChatMembersDialog
+          room={activeRoom}
+          profiles={allProfiles}
+          canManage={isFounder}
+          onClose={() => setDialog(null)}
+          onChange={refetchRooms}
+        />
+      )}
     </PageShell>
   );
 }
@@ -3,7 +3,10 @@ import { useTranslation } from 'react-i18next';
 import { useSearchParams } from 'react-router-dom';
 import { supabase } from '../../lib/supabase';
 import { PageShell } from '../../components/PageShell';
-import { ProductComments } from '../../components/ProductComments';
+import { EntityComments } from '../../components/EntityComments';
+import { OpenReviewThreads } from '../../components/OpenReviewThreads';
+import { canCommentOn } from '../../lib/comments';
+import { useAuthStore } from '../../stores/authStore';
 import { MaterialIcon } from '../../components/icons/MaterialIcon';
 
 // ── Types ─────────────────────────────────────────────────────
@@ -27,10 +30,12 @@ const STATUS_COLORS: Record<string, string> = {
 export default function CommentsPage() {
   const { t } = useTranslation();
   const [searchParams] = useSearchParams();
+  const role = useAuthStore((s) => s.user?.role);
 
   const [products, setProducts] = useState<ProductSummary[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedProductId, setSelectedProductId] = useState<string | null>(null);
+  const [mobileOpenThreads, setMobileOpenThreads] = useState(false);
 
   // Auto-select product from ?product= query param (e.g. from notification deep-link)
   const productFromUrl = searchParams.get('product');
@@ -64,8 +69,33 @@ export default function CommentsPage() {
     >
       <div className="flex-1 min-h-0 overflow-hidden bg-nokturo-900 rounded-lg">
         <div className="md:hidden h-full">
-          {!selectedProductId ? (
+          {mobileOpenThreads && !selectedProductId ? (
+            <div className="h-full flex flex-col">
+              <div className="shrink-0 px-4 py-3 bg-nokturo-800 flex items-center gap-2">
+                <button
+                  type="button"
+                  onClick={() => setMobileOpenThreads(false)}
+                  className="p-2 -ml-2 text-nokturo-300 hover:text-white hover:bg-white/10 transition-colors"
+                  aria-label={t('common.back')}
+                >
+                  <MaterialIcon name="arrow_back" size={18} className="shrink-0" />
+                </button>
+              </div>
+              <div className="flex-1 min-h-0 overflow-y-auto p-4">
+                <OpenReviewThreads products={products} onOpenProduct={setSelectedProductId} />
+              </div>
+            </div>
+          ) : !selectedProductId ? (
             <div className="h-full overflow-y-auto py-1">
+              <button
+                type="button"
+                onClick={() => setMobileOpenThreads(true)}
+                className="w-full flex items-center gap-3 px-4 py-3 text-left text-nokturo-300 hover:bg-nokturo-700/40 hover:text-nokturo-100 transition-colors"
+              >
+                <MaterialIcon name="rule" size={16} className="shrink-0 text-nokturo-500" />
+                <span className="flex-1 text-sm font-medium">{t('comments.openThreads')}</span>
+                <MaterialIcon name="chevron_right" size={16} className="shrink-0 text-nokturo-500" />
+              </button>
               {loading ? (
                 <div className="flex items-center justify-center py-8">
                   <MaterialIcon name="progress_activity" size={20} className="text-nokturo-400 animate-spin shrink-0" />
@@ -118,7 +148,14 @@ export default function CommentsPage() {
                 </div>
               </div>
               <div className="flex-1 min-h-0 overflow-y-auto p-4">
-                <ProductComments productId={selectedProductId} />
+                <EntityComments
+                  target={{ type: 'product', id: selectedProductId }}
+                  reviewable
+                  title={t('comments.productComments')}
+                  canComment={canCommentOn(role, 'product')}
+                  notificationLink={`/communication/comments?product=${selectedProductId}`}
+                  emptyHint={t('comments.beFirst')}
+                />
               </div>
             </div>
           ) : (
@@ -134,6 +171,18 @@ export default function CommentsPage() {
           <div className="w-72 shrink-0 bg-nokturo-800 flex flex-col">
             {/* Product list */}
             <div className="flex-1 overflow-y-auto py-1">
+              <button
+                type="button"
+                onClick={() => setSelectedProductId(null)}
+                className={`w-full flex items-center gap-3 px-4 py-2.5 text-left transition-colors ${
+                  !selectedProductId
+                    ? 'bg-nokturo-700 text-white'
+                    : 'text-nokturo-300 hover:bg-nokturo-700/40 hover:text-nokturo-100'
+                }`}
+              >
+                <MaterialIcon name="rule" size={16} className="shrink-0 text-nokturo-500" />
+                <span className="text-sm font-medium">{t('comments.openThreads')}</span>
+              </button>
               {loading ? (
                 <div className="flex items-center justify-center py-8">
                   <MaterialIcon name="progress_activity" size={20} className="text-nokturo-400 animate-spin shrink-0" />
@@ -189,15 +238,17 @@ export default function CommentsPage() {
                   )}
                 </div>
 
-                <ProductComments productId={selectedProductId} />
+                <EntityComments
+                  target={{ type: 'product', id: selectedProductId }}
+                  reviewable
+                  title={t('comments.productComments')}
+                  canComment={canCommentOn(role, 'product')}
+                  notificationLink={`/communication/comments?product=${selectedProductId}`}
+                  emptyHint={t('comments.beFirst')}
+                />
               </div>
             ) : (
-              <div className="flex flex-col items-center justify-center h-full text-center">
-                <MaterialIcon name="chat_bubble" size={48} className="text-nokturo-600 mb-4 shrink-0" />
-                <p className="text-nokturo-400 text-sm">
-                  {t('comments.selectProduct')}
-                </p>
-              </div>
+              <OpenReviewThreads products={products} onOpenProduct={setSelectedProductId} />
             )}
           </div>
         </div>
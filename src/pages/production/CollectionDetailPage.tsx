@@ -0,0 +1,427 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useNavigate, useParams, Link } from 'react-router-dom';
+import { supabase } from '../../lib/supabase';
+import { useAuthStore } from '../../stores/authStore';
+import { canDeleteAnything } from '../../lib/rbac';
+import { PageShell } from '../../components/PageShell';
+import { CollectionSlideOver } from '../../components/CollectionSlideOver';
+import { PRODUCT_STATUSES, type ProductWithMaterials } from '../../components/ProductSlideOver';
+import { MaterialIcon } from '../../components/icons/MaterialIcon';
+import { DeleteConfirmModal } from '../../components/DeleteConfirmModal';
+import { PRODUCT_FULL_SELECT } from '../../lib/productVersions';
+import { computeLinePlan, type Collection } from '../../lib/collections';
+import { convertCurrency, formatBaseAmount, useExchangeRates } from '../../lib/currency';
+
+const STATUS_COLORS: Record<string, string> = {
+  concept: 'bg-blue-600 text-white',
+  pattern: 'bg-violet-600 text-white',
+  prototype: 'bg-orange text-orange-fg',
+  production: 'bg-green text-green-fg',
+  archived: 'bg-nokturo-500 text-white',
+};
+
+interface TaggedItem {
+  id: string;
+  title: string | null;
+  image_url: string | null;
+}
+
+export default function CollectionDetailPage() {
+  const { id } = useParams<{ id: string }>();
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const user = useAuthStore((s) => s.user);
+  const canDelete = canDeleteAnything(user?.role ?? 'client');
+  const { baseCurrency } = useExchangeRates();
+
+  const [collection, setCollection] = useState<Collection | null>(null);
+  const [products, setProducts] = useState<ProductWithMaterials[]>([]);
+  const [categories, setCategories] = useState<string[]>([]);
+  const [moodboardItems, setMoodboardItems] = useState<TaggedItem[]>([]);
+  const [ideas, setIdeas] = useState<TaggedItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editOpen, setEditOpen] = useState(false);
+  const [deleteConfirm, setDeleteConfirm] = useState(false);
+
+  const fetchCollection = useCallback(async () => {
+    if (!id) return;
+    const { data } = await supabase.from('collections').select('*').eq('id', id).maybeSingle();
+    setCollection((data as Collection | null) ?? null);
+  }, [id]);
+
+  const fetchProducts = useCallback(async () => {
+    if (!id) return;
+    const { data } = await supabase.from('products').select(PRODUCT_FULL_SELECT).eq('collection_id', id).order('name');
+    setProducts((data as ProductWithMaterials[]) || []);
+  }, [id]);
+
+  useEffect(() => {
+    if (!id) return;
+    setLoading(true);
+    Promise.all([
+      fetchCollection(),
+      fetchProducts(),
+      supabase
+        .from('product_categories')
+        .select('name')
+        .order('sort_order')
+        .then(({ data }) => setCategories((data ?? []).map((c) => c.name as string))),
+      supabase
+        .from('moodboard_items')
+        .select('id, title, image_url')
+        .eq('collection_id', id)
+        .order('created_at', { ascending: false })
+        .then(({ data }) => setMoodboardItems((data as TaggedItem[]) || [])),
+      supabase
+        .from('ideas')
+        .select('id, title, image_url')
+        .eq('collection_id', id)
+        .order('created_at', { ascending: false })
+        .then(({ data }) => setIdeas((data as TaggedItem[]) || [])),
+    ]).finally(() => setLoading(false));
+  }, [id, fetchCollection, fetchProducts]);
+
+  useEffect(() => {
+    if (!id) return;
+    const channel = supabase
+      .channel(`collection-${id}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'collections', filter: `id=eq.${id}` }, () =>
+        fetchCollection()
+      )
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'products' }, () => fetchProducts())
+      .subscribe();
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [id, fetchCollection, fetchProducts]);
+
+  const linePlan = useMemo(
+    () => (collection ? computeLinePlan(collection, products, categories, baseCurrency, convertCurrency) : []),
+    [collection, products, categories, baseCurrency]
+  );
+
+  const handleDelete = async () => {
+    if (!collection) return;
+    const { error } = await supabase.from('collections').delete().eq('id', collection.id);
+    setDeleteConfirm(false);
+    if (!error) navigate('/production/collections');
+  };
+
+  const formatDate = (d: string) =>
+    new Date(d).toLocaleDateString(user?.language === 'cs' ? 'cs-CZ' : 'en-US', {
+      day: 'numeric',
+      month: 'short',
+      year: 'numeric',
+    });
+
+  if (loading) {
+    return (
+      <PageShell titleKey="pages.collections.title" descriptionKey="pages.collections.description">
+        <div className="flex items-center justify-center py-32">
+          <MaterialIcon name="progress_activity" size={32} className="animate-spin text-nokturo-500 shrink-0" />
+        </div>
+      </PageShell>
+    );
+  }
+
+  if (!collection) {
+    return (
+      <PageShell titleKey="pages.collections.title" descriptionKey="pages.collections.description">
+        <div className="flex flex-col items-center justify-center py-32 text-center">
+          <p className="text-nokturo-600 font-medium">{t('collections.noCollections')}</p>
+          <button
+            onClick={() => navigate('/production/collections')}
+            className="mt-4 text-sm text-nokturo-600 hover:text-nokturo-900"
+          >
+            {t('common.back')}
+          </button>
+        </div>
+      </PageShell>
+    );
+  }
+
+  const totals = linePlan.reduce(
+    (acc, row) => ({ planned: acc.planned + row.plannedStyles, actual: acc.actual + row.actualStyles }),
+    { planned: 0, actual: 0 }
+  );
+  const categoryLabel = (category: string) => {
+    if (!category) return '—';
+    const key = `products.categories.${category}`;
+    return t(key) !== key ? t(key) : category;
+  };
+  const sectionHeading = 'font-body text-heading-4 font-normal text-nokturo-900 dark:text-nokturo-100 mb-4';
+  const divider = <div className="mt-10 border-t border-nokturo-300 dark:border-nokturo-600 mb-6" aria-hidden />;
+
+  return (
+    <PageShell titleKey="pages.collections.title" descriptionKey="pages.collections.description">
+      <div className="max-w-[1124px] mx-auto">
+        {/* Back + Actions */}
+        <div className="flex items-center justify-between mb-8">
+          <button
+            onClick={() => navigate('/production/collections')}
+            className="flex items-center gap-2 text-sm text-nokturo-600 dark:text-nokturo-400 hover:text-nokturo-900 dark:hover:text-nokturo-100"
+          >
+            <MaterialIcon name="arrow_back" size={16} className="shrink-0" />
+            {t('common.back')}
+          </button>
+          <div className="flex items-center gap-4">
+            <Link
+              to={`/production/collections/${collection.id}/critical-path`}
+              className="flex items-center gap-1.5 text-sm text-nokturo-600 dark:text-nokturo-400 hover:text-nokturo-900 dark:hover:text-nokturo-100"
+            >
+              <MaterialIcon name="timeline" size={16} className="shrink-0" />
+              {t('criticalPath.title')}
+            </Link>
+            <button
+              onClick={() => setEditOpen(true)}
+              className="flex items-center gap-1.5 text-sm text-nokturo-600 dark:text-nokturo-400 hover:text-nokturo-900 dark:hover:text-nokturo-100"
+            >
+              <MaterialIcon name="edit" size={16} className="shrink-0" />
+              {t('common.edit')}
+            </button>
+          </div>
+        </div>
+
+        {/* Hero header */}
+        <header className="mb-12">
+          <h1 className="font-headline text-[32px] sm:text-[48px] leading-[1.2] font-normal text-nokturo-900 dark:text-nokturo-100">
+            {collection.name}
+          </h1>
+          <div className="flex flex-wrap items-center gap-2 mt-3">
+            {collection.code && (
+              <span className="text-xs font-mono px-2 py-1 rounded-[6px] bg-nokturo-200/60 dark:bg-nokturo-700/60 text-nokturo-700 dark:text-nokturo-300">
+                {collection.code}
+              </span>
+            )}
+            {collection.archived && (
+              <span className="text-xs px-2.5 py-1 rounded-[6px] font-medium bg-nokturo-400 text-white">
+                {t('collections.archived')}
+              </span>
+            )}
+          </div>
+          {collection.description && (
+            <p className="mt-4 text-sm text-nokturo-700 dark:text-nokturo-300 whitespace-pre-wrap">{collection.description}</p>
+          )}
+          <dl className="mt-6 grid grid-cols-2 sm:grid-cols-4 gap-4 text-sm">
+            <div>
+              <dt className="text-[11px] font-medium text-nokturo-500 uppercase tracking-widest">{t('collections.styles')}</dt>
+              <dd className="mt-1 tabular-nums text-nokturo-900 dark:text-nokturo-100">
+                {totals.planned > 0 ? `${totals.actual} / ${totals.planned}` : totals.actual}
+              </dd>
+            </div>
+            <div>
+              <dt className="text-[11px] font-medium text-nokturo-500 uppercase tracking-widest">{t('collections.budget')}</dt>
+              <dd className="mt-1 tabular-nums text-nokturo-900 dark:text-nokturo-100">
+                {collection.budget != null
+                  ? `${collection.budget.toLocaleString('cs-CZ')} ${collection.budget_currency}`
+                  : '—'}
+              </dd>
+            </div>
+            <div className="col-span-2">
+              <dt className="text-[11px] font-medium text-nokturo-500 uppercase tracking-widest">{t('collections.drops')}</dt>
+              <dd className="mt-1 flex flex-wrap gap-x-4 gap-y-1 text-nokturo-900 dark:text-nokturo-100">
+                {collection.drops.length === 0
+                  ? '—'
+                  : collection.drops.map((drop, i) => (
+                      <span key={i}>
+                        {drop.name || t('collections.dropPlaceholder', { number: i + 1 })}
+                        {drop.date && <span className="text-nokturo-500 ml-1.5">{formatDate(drop.date)}</span>}
+                      </span>
+                    ))}
+              </dd>
+            </div>
+          </dl>
+        </header>
+
+        {/* Line plan */}
+        <section className="mb-12">
+          {divider}
+          <h2 className={sectionHeading}>{t('collections.linePlan')}</h2>
+          {linePlan.length === 0 ? (
+            <p className="text-sm text-nokturo-500 dark:text-nokturo-400">{t('collections.linePlanEmpty')}</p>
+          ) : (
+            <div className="w-full min-w-0 overflow-x-auto">
+              <div className="min-w-[760px] grid grid-cols-[1fr_80px_80px_130px_130px_1.2fr] gap-x-3">
+                <div className="col-span-6">
+                  <div className="grid grid-cols-[1fr_80px_80px_130px_130px_1.2fr] gap-x-3 py-2 px-4 text-[11px] font-medium text-nokturo-500 uppercase tracking-widest">
+                    <span>{t('products.category')}</span>
+                    <span className="text-right">{t('collections.planned')}</span>
+                    <span className="text-right">{t('collections.actual')}</span>
+                    <span className="text-right">{t('collections.targetPrice')}</span>
+                    <span className="text-right">{t('collections.avgCostedPrice')}</span>
+                    <span>{t('collections.statusProgress')}</span>
+                  </div>
+                </div>
+                {linePlan.map((row, idx) => {
+                  const priceDelta =
+                    row.targetPrice != null && row.avgCostedPrice != null ? row.avgCostedPrice - row.targetPrice : null;
+                  return (
+                    <div
+                      key={row.category || '—'}
+                      className={`col-span-6 grid grid-cols-subgrid gap-x-3 py-2.5 px-4 text-sm text-nokturo-900 dark:text-nokturo-100 ${
+                        idx % 2 === 1 ? 'bg-nokturo-900/5 dark:bg-white/5' : ''
+                      }`}
+                    >
+                      <span className="font-medium truncate">{categoryLabel(row.category)}</span>
+                      <span className="text-right tabular-nums">{row.plannedStyles || '—'}</span>
+                      <span
+                        className={`text-right tabular-nums ${
+                          row.plannedStyles > 0 && row.actualStyles !== row.plannedStyles ? 'text-orange' : ''
+                        }`}
+                      >
+                        {row.actualStyles}
+                      </span>
+                      <span className="text-right tabular-nums">
+                        {row.targetPrice != null ? formatBaseAmount(row.targetPrice) : '—'}
+                      </span>
+                      <span className="text-right tabular-nums">
+                        {row.avgCostedPrice != null ? formatBaseAmount(row.avgCostedPrice) : '—'}
+                        {priceDelta != null && Math.abs(priceDelta) >= 0.01 && (
+                          <span className={`block text-xs ${priceDelta > 0 ? 'text-red' : 'text-green'}`}>
+                            {priceDelta > 0 ? '+' : '−'}
+                            {formatBaseAmount(Math.abs(priceDelta))}
+                          </span>
+                        )}
+                      </span>
+                      <span className="flex items-center min-w-0">
+                        {row.actualStyles > 0 ? (
+                          <span className="flex h-2 w-full overflow-hidden rounded-full bg-nokturo-200 dark:bg-nokturo-700">
+                            {PRODUCT_STATUSES.filter((s) => row.statusCounts[s] > 0).map((s) => (
+                              <span
+                                key={s}
+                                className={STATUS_COLORS[s]}
+                                style={{ width: `${(row.statusCounts[s] / row.actualStyles) * 100}%` }}
+                                title={`${t(`products.statuses.${s}`)}: ${row.statusCounts[s]}`}
+                              />
+                            ))}
+                          </span>
+                        ) : (
+                          <span className="text-nokturo-500">—</span>
+                        )}
+                      </span>
+                    </div>
+                  );
+                })}
+              </div>
+              <div className="flex flex-wrap gap-3 px-4 mt-3">
+                {PRODUCT_STATUSES.map((s) => (
+                  <span key={s} className="inline-flex items-center gap-1.5 text-xs text-nokturo-600 dark:text-nokturo-400">
+                    <span className={`inline-block w-2.5 h-2.5 rounded-full ${STATUS_COLORS[s]}`} />
+                    {t(`products.statuses.${s}`)}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+        </section>
+
+        {/* Styles per category */}
+        {linePlan.some((row) => row.styles.length > 0) && (
+          <section className="mb-12">
+            {divider}
+            <h2 className={sectionHeading}>{t('collections.stylesTitle')}</h2>
+            <div className="space-y-6">
+              {linePlan
+                .filter((row) => row.styles.length > 0)
+                .map((row) => (
+                  <div key={row.category || '—'}>
+                    <h3 className="text-[11px] font-medium text-nokturo-500 uppercase tracking-widest mb-2">
+                      {categoryLabel(row.category)}
+                    </h3>
+                    <div className="space-y-1">
+                      {row.styles.map(({ product, costedPrice }) => (
+                        <Link
+                          key={product.id}
+                          to={`/production/products/${product.id}`}
+                          className="flex items-center gap-3 px-3 py-2 rounded-lg text-sm text-nokturo-900 dark:text-nokturo-100 hover:bg-nokturo-100/60 dark:hover:bg-nokturo-800/60 transition-colors"
+                        >
+                          <span className="min-w-0 flex-1 truncate">
+                            {product.name}
+                            {product.sku && <span className="text-xs text-nokturo-500 ml-2">{product.sku}</span>}
+                          </span>
+                          <span
+                            className={`text-xs px-2 py-0.5 font-medium whitespace-nowrap rounded-[4px] ${
+                              STATUS_COLORS[product.status] ?? STATUS_COLORS.archived
+                            }`}
+                          >
+                            {t(`products.statuses.${product.status}`)}
+                          </span>
+                          <span className="w-32 text-right tabular-nums text-nokturo-700 dark:text-nokturo-300">
+                            {costedPrice > 0 ? formatBaseAmount(costedPrice) : '—'}
+                          </span>
+                        </Link>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+            </div>
+          </section>
+        )}
+
+        {/* Tagged moodboard items and ideas */}
+        {(moodboardItems.length > 0 || ideas.length > 0) && (
+          <section className="mb-12">
+            {divider}
+            {moodboardItems.length > 0 && (
+              <>
+                <h2 className={sectionHeading}>{t('collections.moodboard')}</h2>
+                <div className="grid grid-cols-3 sm:grid-cols-6 gap-2 mb-8">
+                  {moodboardItems.map((item) => (
+                    <Link key={item.id} to="/prototyping/moodboard" className="block aspect-square overflow-hidden rounded-lg">
+                      {item.image_url && (
+                        <img src={item.image_url} alt={item.title ?? ''} className="w-full h-full object-cover" loading="lazy" />
+                      )}
+                    </Link>
+                  ))}
+                </div>
+              </>
+            )}
+            {ideas.length > 0 && (
+              <>
+                <h2 className={sectionHeading}>{t('collections.ideas')}</h2>
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                  {ideas.map((idea) => (
+                    <Link
+                      key={idea.id}
+                      to="/prototyping/ideas"
+                      className="flex items-center gap-2 p-2 rounded-lg bg-nokturo-100/60 dark:bg-white/5 text-sm text-nokturo-900 dark:text-nokturo-100 hover:bg-nokturo-200/60 dark:hover:bg-white/10 transition-colors min-w-0"
+                    >
+                      {idea.image_url ? (
+                        <img src={idea.image_url} alt="" className="w-10 h-10 rounded object-cover shrink-0" loading="lazy" />
+                      ) : (
+                        <MaterialIcon name="lightbulb" size={20} className="text-nokturo-500 shrink-0" />
+                      )}
+                      <span className="truncate">{idea.title}</span>
+                    </Link>
+                  ))}
+                </div>
+              </>
+            )}
+          </section>
+        )}
+      </div>
+
+      <CollectionSlideOver
+        open={editOpen}
+        collection={collection}
+        categories={categories}
+        onClose={() => setEditOpen(false)}
+        onSaved={() => {
+          setEditOpen(false);
+          fetchCollection();
+        }}
+        onDelete={
+          canDelete
+            ? () => {
+                setEditOpen(false);
+                setDeleteConfirm(true);
+              }
+            : undefined
+        }
+      />
+
+      {deleteConfirm && <DeleteConfirmModal onCancel={() => setDeleteConfirm(false)} onConfirm={handleDelete} />}
+    </PageShell>
+  );
+}
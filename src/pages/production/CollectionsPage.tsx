@@ -0,0 +1,241 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useNavigate } from 'react-router-dom';
+import { supabase } from '../../lib/supabase';
+import { useAuthStore } from '../../stores/authStore';
+import { canDeleteAnything } from '../../lib/rbac';
+import { PageShell } from '../../components/PageShell';
+import { ToastContainer, type ToastData } from '../../components/Toast';
+import { CollectionSlideOver } from '../../components/CollectionSlideOver';
+import { MaterialIcon } from '../../components/icons/MaterialIcon';
+import { PRIMARY_BUTTON_CLASS } from '../../lib/inputStyles';
+import { DeleteConfirmModal } from '../../components/DeleteConfirmModal';
+import { dropRange, fetchCollections, type Collection } from '../../lib/collections';
+
+interface ProductRef {
+  id: string;
+  collection_id: string | null;
+}
+
+export default function CollectionsPage() {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const user = useAuthStore((s) => s.user);
+  const canDelete = canDeleteAnything(user?.role ?? 'client');
+
+  // ── State ──────────────────────────────────────────────────
+  const [collections, setCollections] = useState<Collection[]>([]);
+  const [products, setProducts] = useState<ProductRef[]>([]);
+  const [categories, setCategories] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showArchived, setShowArchived] = useState(false);
+
+  const [editOpen, setEditOpen] = useState(false);
+  const [deleteTarget, setDeleteTarget] = useState<string | null>(null);
+  const [toasts, setToasts] = useState<ToastData[]>([]);
+
+  const addToast = useCallback((message: string, type: 'success' | 'error' | 'info' = 'error') => {
+    setToasts((prev) => [...prev, { id: crypto.randomUUID(), message, type }]);
+  }, []);
+
+  // ── Fetch ──────────────────────────────────────────────────
+  const loadCollections = useCallback(async () => {
+    setCollections(await fetchCollections(true));
+  }, []);
+
+  const fetchProducts = useCallback(async () => {
+    const { data } = await supabase.from('products').select('id, collection_id').not('collection_id', 'is', null);
+    setProducts((data as ProductRef[]) || []);
+  }, []);
+
+  useEffect(() => {
+    setLoading(true);
+    Promise.all([
+      loadCollections(),
+      fetchProducts(),
+      supabase
+        .from('product_categories')
+        .select('name')
+        .order('sort_order')
+        .then(({ data }) => setCategories((data ?? []).map((c) => c.name as string))),
+    ]).finally(() => setLoading(false));
+  }, [loadCollections, fetchProducts]);
+
+  useEffect(() => {
+    const channel = supabase
+      .channel('collections')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'collections' }, () => loadCollections())
+      .subscribe();
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [loadCollections]);
+
+  const styleCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const p of products) {
+      if (p.collection_id) counts.set(p.collection_id, (counts.get(p.collection_id) ?? 0) + 1);
+    }
+    return counts;
+  }, [products]);
+
+  const visible = showArchived ? collections : collections.filter((c) => !c.archived);
+
+  // ── Handlers ───────────────────────────────────────────────
+  const handleSaved = (id: string) => {
+    setEditOpen(false);
+    addToast(t('collections.saved'), 'success');
+    navigate(`/production/collections/${id}`);
+  };
+
+  const handleDelete = async (id: string) => {
+    const { error } = await supabase.from('collections').delete().eq('id', id);
+    if (!error) setCollections((prev) => prev.filter((c) => c.id !== id));
+    else addToast(error.message, 'error');
+    setDeleteTarget(null);
+  };
+
+  const formatDate = (d: string) =>
+    new Date(d).toLocaleDateString(user?.language === 'cs' ? 'cs-CZ' : 'en-US', {
+      day: 'numeric',
+      month: 'short',
+      year: 'numeric',
+    });
+
+  const plannedStyles = (c: Collection) =>
+    Object.values(c.category_targets ?? {}).reduce((sum, target) => sum + (target.styles || 0), 0);
+
+  const closeToast = useCallback((id: string) => {
+    setToasts((prev) => prev.filter((t) => t.id !== id));
+  }, []);
+
+  // ── Render ─────────────────────────────────────────────────
+  return (
+    <PageShell
+      titleKey="pages.collections.title"
+      descriptionKey="pages.collections.description"
+      compactContent
+      noHorizontalPadding
+      actionsSlot={
+        <div className="flex w-full items-center justify-between sm:justify-end gap-4">
+          <label className="inline-flex items-center gap-2 text-sm text-nokturo-600 dark:text-nokturo-400 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={showArchived}
+              onChange={(e) => setShowArchived(e.target.checked)}
+              className="rounded"
+            />
+            {t('collections.showArchived')}
+          </label>
+          <button onClick={() => setEditOpen(true)} className={`${PRIMARY_BUTTON_CLASS} shrink-0`}>
+            <MaterialIcon name="add" size={16} className="shrink-0" />
+            {t('collections.add')}
+          </button>
+        </div>
+      }
+    >
+      <ToastContainer toasts={toasts} onClose={closeToast} />
+      {loading ? (
+        <div className="flex items-center justify-center py-20">
+          <MaterialIcon name="progress_activity" size={24} className="text-nokturo-500 animate-spin shrink-0" />
+        </div>
+      ) : visible.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-20 text-center">
+          <MaterialIcon name="collections_bookmark" size={48} className="text-nokturo-400 mb-4 shrink-0" />
+          <p className="text-nokturo-600 font-medium">{t('collections.noCollections')}</p>
+          <p className="text-nokturo-500 text-sm mt-1">{t('collections.addFirst')}</p>
+        </div>
+      ) : (
+        <div className="w-full min-w-0 overflow-x-auto">
+          <div className="min-w-[720px] grid grid-cols-[1.4fr_1.2fr_100px_140px_auto] gap-x-3">
+            {/* Header row */}
+            <div className="col-span-5">
+              <div className="grid grid-cols-[1.4fr_1.2fr_100px_140px_auto] gap-x-3 py-2 px-4 text-[11px] font-medium text-nokturo-500 uppercase tracking-widest">
+                <span>{t('collections.collection')}</span>
+                <span>{t('collections.drops')}</span>
+                <span className="text-right">{t('collections.styles')}</span>
+                <span className="text-right">{t('collections.budget')}</span>
+                <span />
+              </div>
+            </div>
+
+            {visible.map((collection, idx) => {
+              const range = dropRange(collection.drops);
+              const planned = plannedStyles(collection);
+              const actual = styleCounts.get(collection.id) ?? 0;
+              return (
+                <div
+                  key={collection.id}
+                  role="button"
+                  tabIndex={0}
+                  onClick={() => navigate(`/production/collections/${collection.id}`)}
+                  onKeyDown={(e) => e.key === 'Enter' && navigate(`/production/collections/${collection.id}`)}
+                  className={`col-span-5 grid grid-cols-subgrid gap-x-3 py-2.5 px-4 text-sm text-nokturo-900 dark:text-nokturo-100 text-left cursor-pointer hover:!bg-nokturo-100/60 dark:hover:!bg-nokturo-800/60 transition-colors ${
+                    idx % 2 === 1 ? 'bg-nokturo-900/5 dark:bg-white/5' : ''
+                  } ${collection.archived ? 'opacity-60' : ''}`}
+                >
+                  <span className="min-w-0">
+                    <span className="font-medium truncate block">{collection.name}</span>
+                    {collection.code && <span className="text-xs text-nokturo-500">{collection.code}</span>}
+                  </span>
+                  <span className="min-w-0 truncate text-nokturo-700 dark:text-nokturo-300">
+                    {range
+                      ? range.from === range.to
+                        ? formatDate(range.from)
+                        : `${formatDate(range.from)} – ${formatDate(range.to)}`
+                      : '—'}
+                    {collection.drops.length > 0 && (
+                      <span className="text-xs text-nokturo-500 ml-1.5">
+                        ({t('collections.dropCount', { count: collection.drops.length })})
+                      </span>
+                    )}
+                  </span>
+                  <span
+                    className={`text-right tabular-nums ${planned > 0 && actual < planned ? 'text-orange' : ''}`}
+                  >
+                    {planned > 0 ? `${actual} / ${planned}` : actual}
+                  </span>
+                  <span className="text-right tabular-nums">
+                    {collection.budget != null
+                      ? `${collection.budget.toLocaleString('cs-CZ')} ${collection.budget_currency}`
+                      : '—'}
+                  </span>
+                  <span className="flex items-center justify-end">
+                    {canDelete && (
+                      <button
+                        type="button"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setDeleteTarget(collection.id);
+                        }}
+                        className="p-1 text-nokturo-500 hover:text-red transition-colors"
+                        title={t('common.delete')}
+                      >
+                        <MaterialIcon name="delete" size={16} className="shrink-0" />
+                      </button>
+                    )}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      <CollectionSlideOver
+        open={editOpen}
+        collection={null}
+        categories={categories}
+        onClose={() => setEditOpen(false)}
+        onSaved={handleSaved}
+      />
+
+      {deleteTarget && (
+        <DeleteConfirmModal
+          onCancel={() => setDeleteTarget(null)}
+          onConfirm={() => handleDelete(deleteTarget)}
+        />
+      )}
+    </PageShell>
+  );
+}
@@ -1,5 +1,6 @@
 import { useState, useEffect, useCallback } from 'react';
 import { useTranslation } from 'react-i18next';
+import { Link } from 'react-router-dom';
 import { supabase } from '../../lib/supabase';
 import { useAuthStore } from '../../stores/authStore';
 import { canDeleteAnything } from '../../lib/rbac';
@@ -9,13 +10,14 @@ import {
   type Component,
 } from '../../components/ComponentSlideOver';
 import type { NotionSelectOption } from '../../components/NotionSelect';
-import { useExchangeRates, convertToCzk, CURRENCIES } from '../../lib/currency';
+import { useExchangeRates, formatPriceWithBase } from '../../lib/currency';
 import { FilterSelect } from '../../components/FilterSelect';
 import { MaterialIcon } from '../../components/icons/MaterialIcon';
 import { PRIMARY_BUTTON_CLASS } from '../../lib/inputStyles';
 import { DeleteIcon } from '../../components/icons/DeleteIcon';
 import { DeleteConfirmModal } from '../../components/DeleteConfirmModal';
 import { useIsMobile } from '../../hooks/useIsMobile';
+import { isLowStock } from '../../lib/reorder';
 
 const TAG_BADGE_CLASSES: Record<string, string> = {
   gray: 'bg-nokturo-500 text-white',
@@ -172,6 +174,8 @@ export default function ComponentsPage() {
   };
 
   // ── Render ─────────────────────────────────────────────────
+  const lowStockCount = components.filter(isLowStock).length;
+
   return (
     <PageShell
       titleKey="pages.componentsLibrary.title"
@@ -199,6 +203,16 @@ export default function ComponentsPage() {
               })),
             ]}
           />
+          {lowStockCount > 0 && (
+            <Link
+              to="/production/reorder"
+              className="inline-flex items-center gap-1.5 h-9 px-3 shrink-0 text-sm font-medium bg-red text-red-fg rounded-[6px] hover:opacity-90 transition-opacity"
+            >
+              <MaterialIcon name="production_quantity_limits" size={16} className="shrink-0" />
+              {t('reorder.toReorder')}
+              <span className="tabular-nums">{lowStockCount}</span>
+            </Link>
+          )}
           <button
             onClick={openAdd}
             className={`${PRIMARY_BUTTON_CLASS} hidden sm:inline-flex shrink-0`}
@@ -289,14 +303,15 @@ export default function ComponentsPage() {
                 )}
 
                 <div className="flex items-center justify-between mt-2 text-xs text-nokturo-600 dark:text-nokturo-400">
-                  <span>
+                  <span className={isLowStock(comp) ? 'inline-flex items-center gap-1 text-red font-medium' : ''}>
+                    {isLowStock(comp) && <MaterialIcon name="warning" size={12} className="shrink-0" />}
                     {comp.stock_qty} {t('components.pcs')}
                   </span>
                   <span className="text-right">
                     {comp.price_per_unit} {comp.currency}/{t('components.pcs')}
-                    {comp.currency !== 'CZK' && CURRENCIES.includes(comp.currency as (typeof CURRENCIES)[number]) && (
+                    {formatPriceWithBase(comp.price_per_unit, comp.currency).base && (
                       <span className="block text-nokturo-500">
-                        ≈ {convertToCzk(comp.price_per_unit, comp.currency).toFixed(2)} CZK
+                        ≈ {formatPriceWithBase(comp.price_per_unit, comp.currency).base}
                       </span>
                     )}
                   </span>
@@ -0,0 +1,452 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useNavigate, useParams, Link } from 'react-router-dom';
+import { supabase } from '../../lib/supabase';
+import { useAuthStore } from '../../stores/authStore';
+import { PageShell } from '../../components/PageShell';
+import { MilestoneSlideOver } from '../../components/MilestoneSlideOver';
+import type { ProductWithMaterials } from '../../components/ProductSlideOver';
+import { MaterialIcon } from '../../components/icons/MaterialIcon';
+import { PRODUCT_BOM_SELECT, type ProductionOrderStatus } from '../../lib/productionOrders';
+import type { SampleRound } from '../../lib/sampleRounds';
+import { dropRange, type Collection } from '../../lib/collections';
+import {
+  MILESTONES,
+  addDays,
+  daysBetween,
+  detectCompletion,
+  materialLeadDays,
+  scheduleMilestones,
+  scheduleRange,
+  todayIso,
+  type ProductMilestone,
+  type ScheduledMilestone,
+} from '../../lib/criticalPath';
+
+type RoundRow = Pick<SampleRound, 'product_id' | 'stage' | 'sent_at' | 'received_at' | 'verdict' | 'factory_id' | 'created_at'>;
+
+interface OrderRow {
+  product_id: string;
+  factory_id: string | null;
+  status: ProductionOrderStatus;
+  start_date: string | null;
+  target_date: string | null;
+  created_at: string;
+}
+
+interface ProductPath {
+  product: ProductWithMaterials;
+  factoryDays: number | null;
+  materialDays: number | null;
+  milestones: ScheduledMilestone[];
+}
+
+const MILESTONE_SHORT: Record<(typeof MILESTONES)[number], string> = {
+  design_freeze: 'DF',
+  sampling: 'S',
+  sms_approval: 'SMS',
+  bulk_order: 'BO',
+  delivery: 'D',
+};
+
+const markerClass = (m: ScheduledMilestone) =>
+  m.late && !m.done
+    ? 'bg-red text-red-fg'
+    : m.done
+      ? m.late
+        ? 'bg-orange text-orange-fg'
+        : 'bg-green text-green-fg'
+      : 'bg-nokturo-700 text-white dark:bg-nokturo-200 dark:text-nokturo-900';
+
+export default function CriticalPathPage() {
+  const { id } = useParams<{ id: string }>();
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const user = useAuthStore((s) => s.user);
+
+  const [collection, setCollection] = useState<Collection | null>(null);
+  const [products, setProducts] = useState<ProductWithMaterials[]>([]);
+  const [leadBySupplier, setLeadBySupplier] = useState<Map<string, number | null>>(new Map());
+  const [rounds, setRounds] = useState<RoundRow[]>([]);
+  const [orders, setOrders] = useState<OrderRow[]>([]);
+  const [rows, setRows] = useState<ProductMilestone[]>([]);
+  const [completedTaskIds, setCompletedTaskIds] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(true);
+  const [view, setView] = useState<'gantt' | 'calendar'>('gantt');
+  const [lateOnly, setLateOnly] = useState(false);
+  const [selected, setSelected] = useState<{ product: ProductWithMaterials; milestone: ScheduledMilestone } | null>(null);
+
+  const fetchMilestones = useCallback(async (productIds: string[]) => {
+    if (productIds.length === 0) {
+      setRows([]);
+      setCompletedTaskIds(new Set());
+      return;
+    }
+    const { data } = await supabase.from('product_milestones').select('*').in('product_id', productIds);
+    const list = (data as ProductMilestone[]) || [];
+    setRows(list);
+    const taskIds = list.map((r) => r.task_id).filter((v): v is string => !!v);
+    if (taskIds.length === 0) {
+      setCompletedTaskIds(new Set());
+      return;
+    }
+    const { data: tasks } = await supabase.from('tasks').select('id').in('id', taskIds).eq('status', 'completed');
+    setCompletedTaskIds(new Set((tasks ?? []).map((task) => task.id as string)));
+  }, []);
+
+  const fetchAll = useCallback(async () => {
+    if (!id) return;
+    const [{ data: collectionData }, { data: productData }, { data: supplierData }] = await Promise.all([
+      supabase.from('collections').select('*').eq('id', id).maybeSingle(),
+      supabase.from('products').select(PRODUCT_BOM_SELECT).eq('collection_id', id).order('name'),
+      supabase.from('suppliers').select('id, lead_time_days'),
+    ]);
+    const list = (productData as ProductWithMaterials[]) || [];
+    const productIds = list.map((p) => p.id);
+    setCollection((collectionData as Collection | null) ?? null);
+    setProducts(list);
+    setLeadBySupplier(
+      new Map((supplierData ?? []).map((s) => [s.id as string, (s.lead_time_days as number | null) ?? null]))
+    );
+    if (productIds.length === 0) {
+      setRounds([]);
+      setOrders([]);
+    } else {
+      const [{ data: roundData }, { data: orderData }] = await Promise.all([
+        supabase
+          .from('sample_rounds')
+          .select('product_id, stage, sent_at, received_at, verdict, factory_id, created_at')
+          .in('product_id', productIds),
+        supabase
+          .from('production_orders')
+          .select('product_id, factory_id, status, start_date, target_date, created_at')
+          .in('product_id', productIds)
+          .neq('status', 'canceled'),
+      ]);
+      setRounds((roundData as RoundRow[]) || []);
+      setOrders((orderData as OrderRow[]) || []);
+    }
+    await fetchMilestones(productIds);
+  }, [id, fetchMilestones]);
+
+  useEffect(() => {
+    setLoading(true);
+    fetchAll().finally(() => setLoading(false));
+  }, [fetchAll]);
+
+  useEffect(() => {
+    const channel = supabase
+      .channel(`critical-path-${id}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'product_milestones' }, () =>
+        fetchMilestones(products.map((p) => p.id))
+      )
+      .subscribe();
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [id, products, fetchMilestones]);
+
+  const today = todayIso();
+  const deliveryDate = dropRange(collection?.drops)?.from ?? null;
+
+  const paths: ProductPath[] = useMemo(
+    () =>
+      products.map((product) => {
+        const productRounds = rounds.filter((r) => r.product_id === product.id);
+        const productOrders = orders.filter((o) => o.product_id === product.id);
+        // Factory of the latest production order, else of the latest sample round
+        const latest = <T extends { factory_id: string | null; created_at: string }>(list: T[]) =>
+          [...list].filter((r) => r.factory_id).sort((a, b) => b.created_at.localeCompare(a.created_at))[0]?.factory_id ?? null;
+        const factoryId = latest(productOrders) ?? latest(productRounds);
+        const factoryDays = factoryId ? leadBySupplier.get(factoryId) ?? null : null;
+        const materialDays = materialLeadDays(product, leadBySupplier);
+        return {
+          product,
+          factoryDays,
+          materialDays,
+          milestones: scheduleMilestones(
+            deliveryDate,
+            { factoryDays, materialDays },
+            rows.filter((r) => r.product_id === product.id),
+            detectCompletion(product, productRounds, productOrders),
+            completedTaskIds,
+            today
+          ),
+        };
+      }),
+    [products, rounds, orders, leadBySupplier, rows, completedTaskIds, deliveryDate, today]
+  );
+
+  const visible = lateOnly ? paths.filter((p) => p.milestones.some((m) => m.late && !m.done)) : paths;
+  const lateCount = paths.filter((p) => p.milestones.some((m) => m.late && !m.done)).length;
+
+  const formatDate = (d: string) =>
+    new Date(d).toLocaleDateString(user?.language === 'cs' ? 'cs-CZ' : 'en-US', {
+      day: 'numeric',
+      month: 'short',
+      year: 'numeric',
+    });
+  const monthLabel = (d: string) =>
+    new Date(d).toLocaleDateString(user?.language === 'cs' ? 'cs-CZ' : 'en-US', { month: 'short', year: '2-digit' });
+
+  // ── Gantt axis ─────────────────────────────────────────────
+  const range = scheduleRange(visible.map((p) => p.milestones));
+  const axisFrom = range ? addDays(range.from < today ? range.from : today, -7) : today;
+  const axisTo = range ? addDays(range.to > today ? range.to : today, 7) : today;
+  const axisDays = Math.max(1, daysBetween(axisFrom, axisTo));
+  const pct = (date: string) => (daysBetween(axisFrom, date) / axisDays) * 100;
+  const months: string[] = [];
+  for (let d = `${axisFrom.slice(0, 7)}-01`; d <= axisTo; ) {
+    if (d >= axisFrom) months.push(d);
+    const [y, m] = d.split('-').map(Number);
+    d = m === 12 ? `${y + 1}-01-01` : `${y}-${String(m + 1).padStart(2, '0')}-01`;
+  }
+
+  // ── Calendar (by month) ────────────────────────────────────
+  const calendarEntries = visible
+    .flatMap((p) => p.milestones.filter((m) => m.date).map((m) => ({ product: p.product, milestone: m })))
+    .sort((a, b) => a.milestone.date!.localeCompare(b.milestone.date!));
+  const calendarMonths = calendarEntries.reduce<Record<string, typeof calendarEntries>>((acc, entry) => {
+    const key = entry.milestone.date!.slice(0, 7);
+    (acc[key] ??= []).push(entry);
+    return acc;
+  }, {});
+
+  const milestoneTitle = (m: ScheduledMilestone) =>
+    [
+      t(`criticalPath.milestones.${m.milestone}`),
+      m.date ? formatDate(m.date) : t('criticalPath.noDate'),
+      m.done ? t('criticalPath.done') : m.late ? t('criticalPath.late') : null,
+    ]
+      .filter(Boolean)
+      .join(' · ');
+
+  if (loading) {
+    return (
+      <PageShell titleKey="pages.criticalPath.title" descriptionKey="pages.criticalPath.description">
+        <div className="flex items-center justify-center py-32">
+          <MaterialIcon name="progress_activity" size={32} className="animate-spin text-nokturo-500 shrink-0" />
+        </div>
+      </PageShell>
+    );
+  }
+
+  if (!collection) {
+    return (
+      <PageShell titleKey="pages.criticalPath.title" descriptionKey="pages.criticalPath.description">
+        <div className="flex flex-col items-center justify-center py-32 text-center">
+          <p className="text-nokturo-600 font-medium">{t('collections.noCollections')}</p>
+          <button
+            onClick={() => navigate('/production/collections')}
+            className="mt-4 text-sm text-nokturo-600 hover:text-nokturo-900"
+          >
+            {t('common.back')}
+          </button>
+        </div>
+      </PageShell>
+    );
+  }
+
+  const tabClass = (active: boolean) =>
+    `text-xs px-3 py-1 rounded-[4px] font-medium transition-all ${
+      active
+        ? 'bg-nokturo-800 text-white dark:bg-white dark:text-nokturo-900'
+        : 'bg-nokturo-200 text-nokturo-500 dark:bg-nokturo-700 dark:text-nokturo-400 hover:bg-nokturo-300 dark:hover:bg-nokturo-600'
+    }`;
+
+  return (
+    <PageShell
+      titleKey="pages.criticalPath.title"
+      descriptionKey="pages.criticalPath.description"
+      actionsSlot={
+        <div className="flex w-full items-center justify-between sm:justify-end gap-4">
+          <label className="inline-flex items-center gap-2 text-sm text-nokturo-600 dark:text-nokturo-400 cursor-pointer">
+            <input type="checkbox" checked={lateOnly} onChange={(e) => setLateOnly(e.target.checked)} className="rounded" />
+            {t('criticalPath.lateOnly', { count: lateCount })}
+          </label>
+          <div className="flex items-center gap-2">
+            <button type="button" onClick={() => setView('gantt')} className={tabClass(view === 'gantt')}>
+              {t('criticalPath.gantt')}
+            </button>
+            <button type="button" onClick={() => setView('calendar')} className={tabClass(view === 'calendar')}>
+              {t('criticalPath.calendar')}
+            </button>
+          </div>
+        </div>
+      }
+    >
+      <div className="flex items-center justify-between gap-4 mb-6">
+        <button
+          onClick={() => navigate(`/production/collections/${collection.id}`)}
+          className="flex items-center gap-2 text-sm text-nokturo-600 dark:text-nokturo-400 hover:text-nokturo-900 dark:hover:text-nokturo-100"
+        >
+          <MaterialIcon name="arrow_back" size={16} className="shrink-0" />
+          {collection.name}
+        </button>
+        <span className="text-sm text-nokturo-500 dark:text-nokturo-400">
+          {deliveryDate ? t('criticalPath.deliveryFrom', { date: formatDate(deliveryDate) }) : t('criticalPath.noDrops')}
+        </span>
+      </div>
+
+      {visible.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-20 text-center">
+          <MaterialIcon name="timeline" size={48} className="text-nokturo-400 mb-4 shrink-0" />
+          <p className="text-nokturo-600 font-medium">
+            {lateOnly ? t('criticalPath.nothingLate') : t('criticalPath.noProducts')}
+          </p>
+        </div>
+      ) : view === 'gantt' ? (
+        <div className="w-full min-w-0 overflow-x-auto">
+          <div className="min-w-[900px]">
+            {/* Month axis */}
+            <div className="grid grid-cols-[220px_1fr] gap-x-3">
+              <span />
+              <div className="relative h-6 text-[11px] font-medium text-nokturo-500 uppercase tracking-widest">
+                {months.map((m) => (
+                  <span key={m} className="absolute top-0 pl-1 border-l border-nokturo-300 dark:border-nokturo-600" style={{ left: `${pct(m)}%` }}>
+                    {monthLabel(m)}
+                  </span>
+                ))}
+              </div>
+            </div>
+
+            {visible.map(({ product, factoryDays, materialDays, milestones }, idx) => {
+              const dated = milestones.filter((m) => m.date);
+              const start = dated[0]?.date;
+              const end = dated[dated.length - 1]?.date;
+              const productLate = milestones.some((m) => m.late && !m.done);
+              return (
+                <div
+                  key={product.id}
+                  className={`grid grid-cols-[220px_1fr] gap-x-3 items-center py-2.5 px-0 ${
+                    idx % 2 === 1 ? 'bg-nokturo-900/5 dark:bg-white/5' : ''
+                  }`}
+                >
+                  <div className="min-w-0 px-3">
+                    <Link
+                      to={`/production/products/${product.id}`}
+                      className={`block text-sm font-medium truncate hover:underline ${
+                        productLate ? 'text-red' : 'text-nokturo-900 dark:text-nokturo-100'
+                      }`}
+                    >
+                      {product.name}
+                    </Link>
+                    <span className="text-xs text-nokturo-500">
+                      {t('criticalPath.leadTimes', {
+                        factory: factoryDays ?? '—',
+                        materials: materialDays ?? '—',
+                      })}
+                    </span>
+                  </div>
+                  <div className="relative h-8">
+                    {months.map((m) => (
+                      <span
+                        key={m}
+                        className="absolute inset-y-0 border-l border-nokturo-200 dark:border-nokturo-700"
+                        style={{ left: `${pct(m)}%` }}
+                        aria-hidden
+                      />
+                    ))}
+                    <span className="absolute inset-y-0 border-l-2 border-red/60" style={{ left: `${pct(today)}%` }} aria-hidden />
+                    {start && end && (
+                      <span
+                        className={`absolute top-1/2 -translate-y-1/2 h-1.5 rounded-full ${productLate ? 'bg-red/40' : 'bg-nokturo-300 dark:bg-nokturo-600'}`}
+                        style={{ left: `${pct(start)}%`, width: `${Math.max(0.5, pct(end) - pct(start))}%` }}
+                      />
+                    )}
+                    {dated.map((m) => (
+                      <button
+                        key={m.milestone}
+                        type="button"
+                        onClick={() => setSelected({ product, milestone: m })}
+                        title={milestoneTitle(m)}
+                        className={`absolute top-1/2 -translate-x-1/2 -translate-y-1/2 px-1.5 py-0.5 text-[10px] font-medium leading-none rounded-[4px] whitespace-nowrap hover:ring-2 hover:ring-nokturo-500/40 ${markerClass(m)} ${
+                          m.derived ? '' : 'ring-1 ring-inset ring-white/60'
+                        }`}
+                        style={{ left: `${pct(m.date!)}%` }}
+                      >
+                        {MILESTONE_SHORT[m.milestone]}
+                      </button>
+                    ))}
+                    {dated.length === 0 && (
+                      <button
+                        type="button"
+                        onClick={() => setSelected({ product, milestone: milestones[milestones.length - 1] })}
+                        className="absolute inset-y-0 left-0 text-xs text-nokturo-500 hover:text-nokturo-900 dark:hover:text-nokturo-100"
+                      >
+                        {t('criticalPath.setDelivery')}
+                      </button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+
+            {/* Legend */}
+            <div className="flex flex-wrap gap-x-4 gap-y-2 px-3 mt-4 text-xs text-nokturo-600 dark:text-nokturo-400">
+              {MILESTONES.map((m) => (
+                <span key={m}>
+                  <span className="font-medium text-nokturo-900 dark:text-nokturo-100">{MILESTONE_SHORT[m]}</span>{' '}
+                  {t(`criticalPath.milestones.${m}`)}
+                </span>
+              ))}
+              <span className="inline-flex items-center gap-1.5">
+                <span className="inline-block w-2.5 h-2.5 rounded-full bg-green" />
+                {t('criticalPath.done')}
+              </span>
+              <span className="inline-flex items-center gap-1.5">
+                <span className="inline-block w-2.5 h-2.5 rounded-full bg-red" />
+                {t('criticalPath.late')}
+              </span>
+            </div>
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-8 max-w-[860px]">
+          {Object.entries(calendarMonths).map(([month, entries]) => (
+            <section key={month}>
+              <h2 className="text-[11px] font-medium text-nokturo-500 uppercase tracking-widest mb-2">
+                {monthLabel(`${month}-01`)}
+              </h2>
+              <div className="space-y-1">
+                {entries.map(({ product, milestone }) => (
+                  <button
+                    key={`${product.id}-${milestone.milestone}`}
+                    type="button"
+                    onClick={() => setSelected({ product, milestone })}
+                    className="w-full flex items-center gap-3 px-3 py-2 rounded-lg text-left text-sm text-nokturo-900 dark:text-nokturo-100 hover:bg-nokturo-100/60 dark:hover:bg-nokturo-800/60 transition-colors"
+                  >
+                    <span className={`w-24 shrink-0 tabular-nums ${milestone.late && !milestone.done ? 'text-red font-medium' : ''}`}>
+                      {formatDate(milestone.date!)}
+                    </span>
+                    <span className="min-w-0 flex-1 truncate">{product.name}</span>
+                    <span className="text-nokturo-600 dark:text-nokturo-400 shrink-0">
+                      {t(`criticalPath.milestones.${milestone.milestone}`)}
+                    </span>
+                    <span className={`text-xs px-2 py-0.5 font-medium whitespace-nowrap rounded-[4px] shrink-0 ${markerClass(milestone)}`}>
+                      {milestone.done ? t('criticalPath.done') : milestone.late ? t('criticalPath.late') : t('criticalPath.open')}
+                    </span>
+                    {milestone.row?.task_id && (
+                      <MaterialIcon name="task_alt" size={16} className="text-nokturo-500 shrink-0" />
+                    )}
+                  </button>
+                ))}
+              </div>
+            </section>
+          ))}
+        </div>
+      )}
+
+      <MilestoneSlideOver
+        open={!!selected}
+        product={selected?.product ?? null}
+        milestone={selected?.milestone ?? null}
+        onClose={() => setSelected(null)}
+        onSaved={() => {
+          setSelected(null);
+          fetchMilestones(products.map((p) => p.id));
+        }}
+      />
+    </PageShell>
+  );
+}
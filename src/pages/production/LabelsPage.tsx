@@ -1,5 +1,6 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { createPortal } from 'react-dom';
+import { useSearchParams } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import { supabase } from '../../lib/supabase';
 import { useAuthStore } from '../../stores/authStore';
@@ -11,7 +12,9 @@ import {
 } from '../../components/LabelSlideOver';
 import type { NotionSelectOption } from '../../components/NotionSelect';
 import { MaterialIcon } from '../../components/icons/MaterialIcon';
-import { PRIMARY_BUTTON_CLASS } from '../../lib/inputStyles';
+import { PRIMARY_BUTTON_CLASS, SECONDARY_BUTTON_CLASS } from '../../lib/inputStyles';
+import { BarcodesSlideOver } from '../../components/BarcodesSlideOver';
+import { LabelArtwork } from '../../components/LabelArtwork';
 import { DeleteConfirmModal } from '../../components/DeleteConfirmModal';
 import { useIsMobile } from '../../hooks/useIsMobile';
 import { useDropdownPosition } from '../../hooks/useDropdownPosition';
@@ -32,6 +35,7 @@ export default function LabelsPage() {
   const user = useAuthStore((s) => s.user);
   const canDelete = canDeleteAnything(user?.role ?? 'client');
   const isMobile = useIsMobile();
+  const [searchParams, setSearchParams] = useSearchParams();
 
   const [labels, setLabels] = useState<Label[]>([]);
   const [loading, setLoading] = useState(true);
@@ -39,6 +43,7 @@ export default function LabelsPage() {
 
   const [slideOverOpen, setSlideOverOpen] = useState(false);
   const [editingLabel, setEditingLabel] = useState<Label | null>(null);
+  const [barcodesOpen, setBarcodesOpen] = useState(false);
 
   const [deleteTarget, setDeleteTarget] = useState<string | null>(null);
   const [cardMenuOpen, setCardMenuOpen] = useState<string | null>(null);
@@ -78,6 +83,20 @@ export default function LabelsPage() {
     fetchLabels();
   }, [fetchLabels]);
 
+  // Open label from ?label= param (e.g. from a comment notification)
+  useEffect(() => {
+    const labelId = searchParams.get('label');
+    if (!labelId || loading) return;
+    const label = labels.find((l) => l.id === labelId);
+    if (label) {
+      setEditingLabel(label);
+      setSlideOverOpen(true);
+    }
+    const next = new URLSearchParams(searchParams);
+    next.delete('label');
+    setSearchParams(next, { replace: true });
+  }, [searchParams, setSearchParams, labels, loading]);
+
   // Global loading timeout: po 7s natvrdo ukončit loading, i když data nedorazila
   useEffect(() => {
     const t = setTimeout(() => setLoading(false), 7000);
@@ -182,6 +201,7 @@ export default function LabelsPage() {
         height_mm: lbl.height_mm,
         width_mm: lbl.width_mm,
         design_url: lbl.design_url,
+        barcode_area: lbl.barcode_area,
         material_id: lbl.material_id,
       })
       .select('*')
@@ -202,7 +222,14 @@ export default function LabelsPage() {
       titleKey="pages.labelsLibrary.title"
       descriptionKey="pages.labelsLibrary.description"
       actionsSlot={
-        <div className="flex justify-end">
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={() => setBarcodesOpen(true)}
+            className={`${SECONDARY_BUTTON_CLASS} hidden sm:inline-flex shrink-0`}
+          >
+            <MaterialIcon name="barcode" size={16} className="shrink-0" />
+            {t('products.barcodes.title')}
+          </button>
           <button
             onClick={openAdd}
             className={`${PRIMARY_BUTTON_CLASS} hidden sm:inline-flex shrink-0`}
@@ -238,7 +265,17 @@ export default function LabelsPage() {
               className="group relative bg-nokturo-50 dark:bg-nokturo-800 rounded-lg overflow-hidden transition-all cursor-pointer hover:ring-2 hover:ring-nokturo-300 dark:hover:ring-nokturo-600"
             >
               <div className="aspect-[16/9] bg-nokturo-100 relative overflow-hidden">
-                {lbl.design_url ? (
+                {lbl.barcode_area && lbl.width_mm && lbl.height_mm ? (
+                  <div className="w-full h-full flex items-center justify-center p-3">
+                    <LabelArtwork
+                      designUrl={lbl.design_url}
+                      widthMm={lbl.width_mm}
+                      heightMm={lbl.height_mm}
+                      barcodeArea={lbl.barcode_area}
+                      className={`shadow-sm ${lbl.width_mm / lbl.height_mm > 16 / 9 ? 'w-full' : 'h-full'}`}
+                    />
+                  </div>
+                ) : lbl.design_url ? (
                   <img
                     src={lbl.design_url}
                     alt={lbl.name}
@@ -352,6 +389,8 @@ export default function LabelsPage() {
         onDelete={(id) => { setDeleteTarget(id); setSlideOverOpen(false); setEditingLabel(null); }}
         onDuplicate={(lbl) => { handleDuplicate(lbl); setSlideOverOpen(false); setEditingLabel(null); }}
       />
+
+      <BarcodesSlideOver open={barcodesOpen} onClose={() => setBarcodesOpen(false)} />
     </PageShell>
   );
 }
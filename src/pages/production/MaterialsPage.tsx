@@ -1,5 +1,6 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { createPortal } from 'react-dom';
+import { Link, useSearchParams } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import { supabase } from '../../lib/supabase';
 import { useAuthStore } from '../../stores/authStore';
@@ -7,7 +8,7 @@ import { canDeleteAnything } from '../../lib/rbac';
 import { PageShell } from '../../components/PageShell';
 import { MaterialSlideOver, type Material } from '../../components/MaterialSlideOver';
 import { CompositionFilter } from '../../components/CompositionFilter';
-import { useExchangeRates, convertToCzk, CURRENCIES } from '../../lib/currency';
+import { useExchangeRates, convertToBase, CURRENCIES } from '../../lib/currency';
 import {
   getUniqueFibersFromMaterials,
   materialContainsAnyFiber,
@@ -22,13 +23,14 @@ import { DeleteConfirmModal } from '../../components/DeleteConfirmModal';
 import { DuplicateIcon } from '../../components/icons/DuplicateIcon';
 import { useIsMobile } from '../../hooks/useIsMobile';
 import { useDropdownPosition } from '../../hooks/useDropdownPosition';
+import { isLowStock } from '../../lib/reorder';
 
 export default function MaterialsPage() {
   const { t } = useTranslation();
   const user = useAuthStore((s) => s.user);
   const canDelete = canDeleteAnything(user?.role ?? 'client');
   const isMobile = useIsMobile();
-  useExchangeRates(); // Prefetch rates for CZK conversion
+  const { baseCurrency } = useExchangeRates(); // Prefetch rates for base currency conversion
 
   // ── State ──────────────────────────────────────────────────
   const [materials, setMaterials] = useState<Material[]>([]);
@@ -48,6 +50,7 @@ export default function MaterialsPage() {
 
   // Detail view (read-only)
   const [viewingMaterial, setViewingMaterial] = useState<Material | null>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
 
   // Delete dialog
   const [deleteTarget, setDeleteTarget] = useState<string | null>(null);
@@ -110,22 +113,34 @@ export default function MaterialsPage() {
       if (m.unit === 'm') return sum + m.stock_qty;
       return sum + m.stock_qty * YARD_TO_M;
     }, 0) ?? 0;
-  const avgPricePerMCzk =
+  const avgPricePerMBase =
     lengthMaterials.length > 0
       ? lengthMaterials.reduce((sum, m) => {
           const pricePerM = m.unit === 'm' ? m.price_per_unit : m.price_per_unit / YARD_TO_M;
-          return sum + convertToCzk(pricePerM, m.currency ?? 'EUR');
+          return sum + convertToBase(pricePerM, m.currency ?? 'EUR');
         }, 0) / lengthMaterials.length
       : 0;
-  const totalInventoryValueCzk = filteredMaterials.reduce((sum, m) => {
+  const lowStockCount = materials.filter(isLowStock).length;
+  const totalInventoryValueBase = filteredMaterials.reduce((sum, m) => {
     const lineValue = m.stock_qty * (m.price_per_unit ?? 0);
-    return sum + convertToCzk(lineValue, m.currency ?? 'EUR');
+    return sum + convertToBase(lineValue, m.currency ?? 'EUR');
   }, 0);
 
   useEffect(() => {
     fetchMaterials();
   }, [fetchMaterials]);
 
+  // Open material from ?material= param (e.g. from a certificate expiry notification)
+  useEffect(() => {
+    const materialId = searchParams.get('material');
+    if (!materialId || loading) return;
+    const material = materials.find((m) => m.id === materialId);
+    if (material) setViewingMaterial(material);
+    const next = new URLSearchParams(searchParams);
+    next.delete('material');
+    setSearchParams(next, { replace: true });
+  }, [searchParams, setSearchParams, materials, loading]);
+
   useEffect(() => {
     supabase
       .from('products')
@@ -192,11 +207,13 @@ export default function MaterialsPage() {
         }
       }
     }
-    const { id, created_at, updated_at, product_materials: _, ...rest } = mat;
+    const { id, created_at, updated_at, product_materials: _, ...rest } = mat as Material & { low_stock_notified_at?: string | null };
     const { error } = await supabase.from('materials').insert({
       ...rest,
       name: `${mat.name} (${t('materials.duplicateSuffix')})`,
       image_url: imageUrl,
+      stock_qty: 0, // stock is booked through the ledger, a duplicate starts empty
+      low_stock_notified_at: null,
     });
     if (!error) fetchMaterials();
   };
@@ -237,6 +254,16 @@ export default function MaterialsPage() {
             )}
           </div>
           <div className="flex items-center gap-2 shrink-0">
+            {lowStockCount > 0 && (
+              <Link
+                to="/production/reorder"
+                className="inline-flex items-center gap-1.5 h-9 px-3 shrink-0 text-sm font-medium bg-red text-red-fg rounded-[6px] hover:opacity-90 transition-opacity"
+              >
+                <MaterialIcon name="production_quantity_limits" size={16} className="shrink-0" />
+                <span className="hidden sm:inline">{t('reorder.toReorder')}</span>
+                <span className="tabular-nums">{lowStockCount}</span>
+              </Link>
+            )}
             <button
               type="button"
               onClick={() => setShowMobileStats((prev) => !prev)}
@@ -272,7 +299,7 @@ export default function MaterialsPage() {
             {t('materials.overview.avgPricePerM')}
           </p>
           <p className="text-xl font-medium text-nokturo-900 dark:text-white">
-            {avgPricePerMCzk.toFixed(2)} {t('materials.overview.perM')}
+            {avgPricePerMBase.toFixed(2)} {t('materials.overview.perM', { currency: baseCurrency })}
           </p>
         </div>
         <div className="bg-nokturo-200/80 dark:bg-white/5 rounded-[6px] p-4">
@@ -280,7 +307,7 @@ export default function MaterialsPage() {
             {t('materials.overview.totalStockValue')}
           </p>
           <p className="text-xl font-medium text-green-fg">
-            {totalInventoryValueCzk.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })} CZK
+            {totalInventoryValueBase.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })} {baseCurrency}
           </p>
         </div>
         <div className="bg-nokturo-200/80 dark:bg-white/5 rounded-[6px] p-4">
@@ -342,6 +369,13 @@ export default function MaterialsPage() {
                   </div>
                 )}
 
+                {isLowStock(mat) && (
+                  <span className="absolute top-2 left-2 z-10 inline-flex items-center gap-1 text-xs px-2 py-0.5 font-medium rounded-[4px] bg-red text-red-fg">
+                    <MaterialIcon name="warning" size={12} className="shrink-0" />
+                    {t('reorder.lowStock')}
+                  </span>
+                )}
+
                 {/* Three-dot menu (top-right) */}
                 <div className="absolute top-2 right-2 z-10">
                   <div className="relative">
@@ -448,6 +482,7 @@ export default function MaterialsPage() {
         onDuplicate={(mat) => { handleDuplicate(mat); setViewingMaterial(null); }}
         onDelete={(id) => { setDeleteTarget(id); setViewingMaterial(null); }}
         canDelete={canDelete}
+        onStockChanged={fetchMaterials}
       />
     </PageShell>
   );
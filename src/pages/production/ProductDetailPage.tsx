@@ -6,7 +6,13 @@ import { MODAL_HEADING_CLASS } from '../../lib/inputStyles';
 import { useExchangeRates } from '../../lib/currency';
 import { supabase } from '../../lib/supabase';
 import { useAuthStore, getUserIdForDb } from '../../stores/authStore';
-import { canDeleteAnything } from '../../lib/rbac';
+import { useToastStore } from '../../stores/toastStore';
+import { canDeleteAnything, hasPermission } from '../../lib/rbac';
+import { recordProductVersion } from '../../lib/productVersions';
+import { PRODUCT_VARIANTS_SELECT, generateSkus, sortVariants } from '../../lib/productVariants';
+import { PRODUCT_BARCODES_SELECT } from '../../lib/barcodes';
+import { ProductBarcodes } from '../../components/ProductBarcodes';
+import { ProductCareLabel } from '../../components/ProductCareLabel';
 import { PageShell } from '../../components/PageShell';
 import {
   ProductSlideOver,
@@ -17,7 +23,11 @@ import type { NotionSelectOption } from '../../components/NotionSelect';
 import { RichTextBlockViewer, extractTags } from '../../components/RichTextBlockViewer';
 import { TableOfContents } from '../../components/TableOfContents';
 import type { TocItem } from '../../components/TableOfContents';
-import { ProductGalleryComments } from '../../components/ProductGalleryComments';
+import { CommentFeed } from '../../components/CommentFeed';
+import { canCommentOn } from '../../lib/comments';
+import { getGalleryNotificationLink } from '../../lib/sendMentionNotifications';
+import { ProductTechPack } from '../../components/ProductTechPack';
+import { ProductHistorySlideOver } from '../../components/ProductHistorySlideOver';
 import { MaterialDetailSlideOver } from '../../components/MaterialDetailSlideOver';
 import type { Material } from '../../components/MaterialSlideOver';
 import type { RichTextBlock } from '../../components/RichTextBlockEditor';
@@ -27,6 +37,9 @@ import { DuplicateIcon } from '../../components/icons/DuplicateIcon';
 import { DeleteConfirmModal } from '../../components/DeleteConfirmModal';
 import { useIsMobile } from '../../hooks/useIsMobile';
 import { useDropdownPosition } from '../../hooks/useDropdownPosition';
+import { useImagePins } from '../../hooks/useImagePins';
+import { ImagePinLayer } from '../../components/ImagePinLayer';
+import { EntityChannelButton } from '../../components/EntityChannelButton';
 
 // ── Parse description (legacy or rich blocks) ────────────────────
 function parseDescriptionBlocks(
@@ -58,14 +71,18 @@ export default function ProductDetailPage() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const { t } = useTranslation();
+  const addToast = useToastStore((s) => s.addToast);
   const user = useAuthStore((s) => s.user);
   const canDelete = canDeleteAnything(user?.role ?? 'client');
+  const canWrite = hasPermission(user?.role ?? 'client', 'production.products', 'write');
   const isMobile = useIsMobile();
   useExchangeRates();
   const [product, setProduct] = useState<ProductWithMaterials | null>(null);
   const [loading, setLoading] = useState(true);
   const [categories, setCategories] = useState<NotionSelectOption[]>([]);
   const [editOpen, setEditOpen] = useState(false);
+  const [techPackOpen, setTechPackOpen] = useState(false);
+  const [historyOpen, setHistoryOpen] = useState(false);
   const [deleteConfirm, setDeleteConfirm] = useState(false);
   const [pageMenuOpen, setPageMenuOpen] = useState(false);
   const pageMenuTriggerRef = useRef<HTMLButtonElement>(null);
@@ -84,6 +101,10 @@ export default function ProductDetailPage() {
     productId: string;
     galleryType: 'design' | 'moodboard' | 'labels';
   } | null>(null);
+  const lightboxPins = useImagePins(lightbox?.productId ?? '', {
+    gallery: lightbox?.galleryType ?? 'design',
+    index: lightbox?.index ?? 0,
+  });
 
   useEffect(() => {
     if (!id) return;
@@ -100,16 +121,29 @@ export default function ProductDetailPage() {
           consumption_amount,
           notes,
           role,
-          variant,
+          variant_id,
+          consumption_by_size,
           material:materials (*)
         ),
+        product_components (
+          id,
+          component_id,
+          quantity,
+          notes,
+          quantity_by_size,
+          variant_id,
+          component:components (*)
+        ),
         product_labels (
           id,
           label_id,
           placement,
           notes,
+          variant_id,
           label:labels (*, material:materials (*))
-        )
+        ),
+        ${PRODUCT_VARIANTS_SELECT},
+        ${PRODUCT_BARCODES_SELECT}
       `
       )
       .eq('id', id)
@@ -196,7 +230,7 @@ export default function ProductDetailPage() {
         supabase
           .from('products')
           .select(
-            `*, product_materials (id, material_id, consumption_amount, notes, role, variant, material:materials (*)), product_labels (id, label_id, placement, notes, label:labels (*, material:materials (*)))`
+            `*, product_materials (id, material_id, consumption_amount, notes, role, variant_id, consumption_by_size, material:materials (*)), product_components (id, component_id, quantity, notes, quantity_by_size, variant_id, component:components (*)), product_labels (id, label_id, placement, notes, variant_id, label:labels (*, material:materials (*))), ${PRODUCT_VARIANTS_SELECT}, ${PRODUCT_BARCODES_SELECT}`
           )
           .eq('id', id)
           .single()
@@ -209,7 +243,7 @@ export default function ProductDetailPage() {
       supabase
         .from('products')
         .select(
-          `*, product_materials (id, material_id, consumption_amount, notes, role, variant, material:materials (*)), product_labels (id, label_id, placement, notes, label:labels (*))`
+          `*, product_materials (id, material_id, consumption_amount, notes, role, variant_id, consumption_by_size, material:materials (*)), product_components (id, component_id, quantity, notes, quantity_by_size, variant_id, component:components (*)), product_labels (id, label_id, placement, notes, variant_id, label:labels (*)), ${PRODUCT_VARIANTS_SELECT}, ${PRODUCT_BARCODES_SELECT}`
         )
         .eq('id', id)
         .single()
@@ -229,11 +263,13 @@ export default function ProductDetailPage() {
   const handleDuplicate = async () => {
     if (!product) return;
     setPageMenuOpen(false);
-    const { id: _id, created_at: _ca, updated_at: _ua, product_materials: pms, product_labels: pls, ...rest } = product;
+    // The copy starts over in the sampling workflow (the override stays with the original)
+    const { id: _id, created_at: _ca, updated_at: _ua, product_materials: pms, product_labels: pls, product_components: pcs, product_variants: pvs, product_barcodes: _pbs, ready_for_sampling: _rfs, sampling_override_at: _soa, sampling_override_by: _sob, ...rest } = product;
     const record = {
       ...rest,
       name: `${product.name} ${t('common.duplicateSuffix')}`,
       sku: null,
+      sku_number: null,
       created_by: getUserIdForDb(),
     };
     const { data: newProduct, error: insertError } = await supabase
@@ -241,8 +277,27 @@ export default function ProductDetailPage() {
       .insert(record)
       .select()
       .single();
-    if (insertError || !newProduct) return;
+    if (insertError || !newProduct) {
+      if (insertError) addToast(insertError.message, 'error');
+      return;
+    }
     const newId = (newProduct as { id: string }).id;
+    // Variants get fresh ids; the copied overrides point at the copies
+    const variantIds = new Map((pvs ?? []).map((v) => [v.id, crypto.randomUUID()]));
+    const copyVariantId = (variantId?: string | null) => (variantId ? variantIds.get(variantId) ?? null : null);
+    if (pvs?.length) {
+      await supabase.from('product_variants').insert(
+        pvs.map((v) => ({
+          id: variantIds.get(v.id),
+          product_id: newId,
+          name: v.name,
+          color_code: v.color_code,
+          swatch_url: v.swatch_url,
+          sku_suffix: v.sku_suffix,
+          sort_order: v.sort_order,
+        }))
+      );
+    }
     if (pms?.length) {
       await supabase.from('product_materials').insert(
         pms.map((pm) => ({
@@ -251,7 +306,20 @@ export default function ProductDetailPage() {
           consumption_amount: pm.consumption_amount,
           notes: pm.notes,
           role: pm.role ?? null,
-          variant: pm.variant ?? null,
+          variant_id: copyVariantId(pm.variant_id),
+          consumption_by_size: pm.consumption_by_size ?? {},
+        }))
+      );
+    }
+    if (pcs?.length) {
+      await supabase.from('product_components').insert(
+        pcs.map((pc) => ({
+          product_id: newId,
+          component_id: pc.component_id,
+          quantity: pc.quantity,
+          notes: pc.notes,
+          quantity_by_size: pc.quantity_by_size ?? {},
+          variant_id: copyVariantId(pc.variant_id),
         }))
       );
     }
@@ -262,9 +330,11 @@ export default function ProductDetailPage() {
           label_id: pl.label_id,
           placement: pl.placement ?? [],
           notes: pl.notes,
+          variant_id: copyVariantId(pl.variant_id),
         }))
       );
     }
+    await recordProductVersion(newId);
     navigate(`/production/products/${newId}`);
   };
 
@@ -303,14 +373,21 @@ export default function ProductDetailPage() {
   );
   const materials = product.product_materials ?? [];
   const labels = product.product_labels ?? [];
+  const variants = sortVariants(product.product_variants);
+  const variantName = (variantId?: string | null) => variants.find((v) => v.id === variantId)?.name ?? null;
   const descTags = extractTags(descriptionBlocks);
   const descTocItems = descTags.length > 0
     ? descTags
     : (descriptionBlocks.length > 0 ? [{ id: 'section-description', text: t('common.description'), level: 1 as const }] : []);
   const sectionTocItems: TocItem[] = [
     ...descTocItems,
+    ...(variants.length > 0 ? [{ id: 'section-variants', text: t('products.variants.title'), level: 1 as const }] : []),
+    ...(product.sku || (product.product_barcodes ?? []).length > 0
+      ? [{ id: 'section-barcodes', text: t('products.barcodes.title'), level: 1 as const }]
+      : []),
     ...(materials.length > 0 ? [{ id: 'section-materials', text: t('products.materials.title'), level: 1 as const }] : []),
     ...(labels.length > 0 ? [{ id: 'section-labels', text: t('products.labels.title'), level: 1 as const }] : []),
+    ...(materials.length > 0 ? [{ id: 'section-care-label', text: t('careLabel.title'), level: 1 as const }] : []),
     ...(designGallery.length > 0 ? [{ id: 'section-design-gallery', text: t('products.designGallery'), level: 1 as const }] : []),
     ...(moodboardGallery.length > 0 ? [{ id: 'section-moodboard-gallery', text: t('products.moodboardGallery'), level: 1 as const }] : []),
   ];
@@ -329,6 +406,7 @@ export default function ProductDetailPage() {
             <MaterialIcon name="arrow_back" size={16} className="shrink-0" />
             {t('common.back')}
           </button>
+          <EntityChannelButton entityType="product" entityId={product.id} className="ml-auto" />
           <div className="relative hidden sm:block">
             <button
               ref={pageMenuTriggerRef}
@@ -357,6 +435,20 @@ export default function ProductDetailPage() {
                     <MaterialIcon name="edit" size={14} className="shrink-0" />
                     {t('common.edit')}
                   </button>
+                  <button
+                    onClick={() => { setTechPackOpen(true); setPageMenuOpen(false); }}
+                    className="w-full px-3 py-2 text-left text-sm text-nokturo-700 dark:text-nokturo-200 hover:bg-nokturo-50 dark:hover:bg-nokturo-600 flex items-center gap-2"
+                  >
+                    <MaterialIcon name="description" size={14} className="shrink-0" />
+                    {t('products.viewTechPack')}
+                  </button>
+                  <button
+                    onClick={() => { setHistoryOpen(true); setPageMenuOpen(false); }}
+                    className="w-full px-3 py-2 text-left text-sm text-nokturo-700 dark:text-nokturo-200 hover:bg-nokturo-50 dark:hover:bg-nokturo-600 flex items-center gap-2"
+                  >
+                    <MaterialIcon name="history" size={14} className="shrink-0" />
+                    {t('products.history.title')}
+                  </button>
                   <button
                     onClick={handleDuplicate}
                     className="w-full px-3 py-2 text-left text-sm text-nokturo-700 dark:text-nokturo-200 hover:bg-nokturo-50 dark:hover:bg-nokturo-600 flex items-center gap-2"
@@ -438,7 +530,64 @@ export default function ProductDetailPage() {
           </section>
         )}
 
-        {/* Materials (grouped by version) */}
+        {/* Variants (colorways) with their SKUs per size */}
+        {variants.length > 0 && (
+          <section id="section-variants" className="mb-12 scroll-mt-6">
+            <div className="mt-10 border-t border-nokturo-300 dark:border-nokturo-600 mb-6" aria-hidden />
+            <h2 className="font-body text-heading-4 font-normal text-nokturo-900 dark:text-nokturo-100 mb-4">
+              {t('products.variants.title')}
+            </h2>
+            <div className="space-y-2">
+              {variants.map((v) => (
+                <div
+                  key={v.id}
+                  className="flex items-center gap-4 p-4 bg-nokturo-50 dark:bg-nokturo-800 min-w-0"
+                  style={{ borderRadius: '8px' }}
+                >
+                  <div
+                    className="w-12 h-12 shrink-0 rounded-lg overflow-hidden bg-nokturo-100"
+                    style={{ backgroundColor: v.swatch_url ? undefined : v.color_code ?? undefined }}
+                  >
+                    {v.swatch_url && <img src={v.swatch_url} alt="" className="w-full h-full object-cover" />}
+                  </div>
+                  <div className="min-w-0 flex-1">
+                    <p className="font-medium text-nokturo-900 dark:text-nokturo-100 truncate">{v.name}</p>
+                    {v.color_code && <p className="text-sm text-nokturo-600 dark:text-nokturo-400 mt-0.5">{v.color_code}</p>}
+                    <div className="flex flex-wrap gap-1 mt-1.5">
+                      {generateSkus(product.sku, [v], product.size_run)
+                        .filter((s) => s.sku)
+                        .map((s) => (
+                          <span
+                            key={s.sku}
+                            className="text-[11px] font-mono px-1.5 py-0.5 rounded bg-nokturo-200/60 dark:bg-nokturo-700/60 text-nokturo-700 dark:text-nokturo-300"
+                          >
+                            {s.sku}
+                          </span>
+                        ))}
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
+
+        {/* Sellable units with SKUs and EAN-13 barcodes */}
+        {(product.sku || (product.product_barcodes ?? []).length > 0) && (
+          <section id="section-barcodes" className="mb-12 scroll-mt-6">
+            <div className="mt-10 border-t border-nokturo-300 dark:border-nokturo-600 mb-6" aria-hidden />
+            <h2 className="font-body text-heading-4 font-normal text-nokturo-900 dark:text-nokturo-100 mb-4">
+              {t('products.barcodes.title')}
+            </h2>
+            <ProductBarcodes
+              product={product}
+              canWrite={canWrite}
+              onChange={(barcodes) => setProduct((prev) => (prev ? { ...prev, product_barcodes: barcodes } : prev))}
+            />
+          </section>
+        )}
+
+        {/* Materials (base, then overrides per variant) */}
         {materials.length > 0 && (
           <section id="section-materials" className="mb-12 scroll-mt-6">
             <div className="mt-10 border-t border-nokturo-300 dark:border-nokturo-600 mb-6" aria-hidden />
@@ -446,18 +595,14 @@ export default function ProductDetailPage() {
               {t('products.materials.title')}
             </h2>
             {(() => {
-              const byVersion = materials.reduce<Record<string, typeof materials>>((acc, pm) => {
-                const ver = pm.variant ?? '1';
-                if (!acc[ver]) acc[ver] = [];
-                acc[ver].push(pm);
+              const byVariant = materials.reduce<Record<string, typeof materials>>((acc, pm) => {
+                const key = pm.variant_id ?? '';
+                if (!acc[key]) acc[key] = [];
+                acc[key].push(pm);
                 return acc;
               }, {});
-              const versions = Object.keys(byVersion).sort((a, b) => {
-                const na = parseInt(a, 10);
-                const nb = parseInt(b, 10);
-                if (!isNaN(na) && !isNaN(nb)) return na - nb;
-                return a.localeCompare(b);
-              });
+              // Base materials first, then each variant's overrides
+              const variantKeys = ['', ...sortVariants(product.product_variants).map((v) => v.id)].filter((k) => byVariant[k]);
               const getComposition = (mat: (typeof materials)[0]['material']) => {
                 if (!mat) return null;
                 const rows = (mat as { parameters?: { composition_rows?: { pct: number; fiber: string }[] } }).parameters?.composition_rows;
@@ -471,13 +616,13 @@ export default function ProductDetailPage() {
               };
               return (
                 <div className="space-y-8">
-                  {versions.map((version) => (
-                    <div key={version} className="space-y-3">
+                  {variantKeys.map((variantKey) => (
+                    <div key={variantKey} className="space-y-3">
                       <h3 className="text-heading-5 font-medium text-nokturo-800 dark:text-nokturo-200">
-                        {version === '1' ? t('products.materials.primaryVersion') : `${t('products.materials.version')} ${version}`}
+                        {variantKey ? product.product_variants?.find((v) => v.id === variantKey)?.name : t('products.variants.baseMaterials')}
                       </h3>
                       <div className="space-y-2">
-                        {byVersion[version].map((pm, idx) => {
+                        {byVariant[variantKey].map((pm, idx) => {
                           const mat = pm.material;
                           const roleLabel = pm.role ? getRoleLabel(pm.role) : null;
                           const comp = getComposition(mat);
@@ -598,6 +743,7 @@ export default function ProductDetailPage() {
                         <p className="font-medium text-nokturo-900 dark:text-nokturo-100 truncate">{pl.label?.name ?? '—'}</p>
                         <p className="text-sm text-nokturo-600 dark:text-nokturo-400 mt-0.5">
                           {[
+                            variantName(pl.variant_id),
                             pl.label?.typ,
                             pl.label?.height_mm != null && pl.label?.width_mm != null
                               ? `${pl.label.height_mm} × ${pl.label.width_mm} mm`
@@ -632,6 +778,21 @@ export default function ProductDetailPage() {
           );
         })()}
 
+        {/* Care label: fibre content and care symbols */}
+        {materials.length > 0 && (
+          <section id="section-care-label" className="mb-12 scroll-mt-6">
+            <div className="mt-10 border-t border-nokturo-300 dark:border-nokturo-600 mb-6" aria-hidden />
+            <h2 className="font-body text-heading-4 font-normal text-nokturo-900 dark:text-nokturo-100 mb-4">
+              {t('careLabel.title')}
+            </h2>
+            <ProductCareLabel
+              product={product}
+              canWrite={canWrite}
+              onChange={(careLabel) => setProduct((prev) => (prev ? { ...prev, care_label: careLabel } : prev))}
+            />
+          </section>
+        )}
+
         {/* Design gallery */}
         {designGallery.length > 0 && (
           <section id="section-design-gallery" className="mb-12 scroll-mt-6">
@@ -790,11 +951,23 @@ export default function ProductDetailPage() {
                     );
                   }
                   return (
-                    <img
-                      src={url}
-                      alt={lightbox.gallery[lightbox.index]?.caption ?? ''}
-                      className={imgClass}
-                    />
+                    <div className="relative inline-block max-w-full leading-[0]">
+                      <img
+                        src={url}
+                        alt={lightbox.gallery[lightbox.index]?.caption ?? ''}
+                        className={imgClass}
+                      />
+                      <ImagePinLayer
+                        pins={lightboxPins.pins}
+                        activePinId={lightboxPins.activePinId}
+                        onSelectPin={lightboxPins.setActivePinId}
+                        canPin={canCommentOn(user?.role, 'product')}
+                        placing={lightboxPins.placing}
+                        onPlacingChange={lightboxPins.setPlacing}
+                        pending={lightboxPins.pending}
+                        onPlace={lightboxPins.onPlace}
+                      />
+                    </div>
                   );
                 })()}
               </div>
@@ -837,10 +1010,23 @@ export default function ProductDetailPage() {
                 </div>
               )}
               <div className="flex-1 overflow-y-auto min-h-0 flex flex-col px-4 pb-4">
-                <ProductGalleryComments
-                  productId={lightbox.productId}
-                  galleryType={lightbox.galleryType}
-                  imageIndex={lightbox.index}
+                <CommentFeed
+                  scope={{
+                    target: { type: 'product', id: lightbox.productId },
+                    anchorType: 'image',
+                    anchor: { gallery: lightbox.galleryType, index: lightbox.index },
+                  }}
+                  canComment={canCommentOn(user?.role, 'product')}
+                  mentionType="gallery_tag"
+                  reviewable
+                  notificationLink={getGalleryNotificationLink(lightbox.productId)}
+                  onCommentsChange={lightboxPins.onCommentsChange}
+                  pinNumbers={lightboxPins.pinNumbers}
+                  activeThreadId={lightboxPins.activePinId}
+                  onActiveThreadChange={lightboxPins.setActivePinId}
+                  postAnchor={lightboxPins.postAnchor}
+                  onCancelPostAnchor={lightboxPins.cancelPending}
+                  onPosted={lightboxPins.onPosted}
                   hasCaptionAbove={!!(lightbox.gallery[lightbox.index]?.caption || lightbox.gallery[lightbox.index]?.notes)}
                 />
               </div>
@@ -884,6 +1070,22 @@ export default function ProductDetailPage() {
         canDelete={canDelete}
       />
 
+      {/* Tech pack */}
+      <ProductTechPack
+        open={techPackOpen}
+        product={product}
+        onClose={() => setTechPackOpen(false)}
+      />
+
+      {/* Version history */}
+      <ProductHistorySlideOver
+        open={historyOpen}
+        product={product}
+        canWrite={canWrite}
+        onClose={() => setHistoryOpen(false)}
+        onRestored={() => handleSaved(product.id)}
+      />
+
       <MaterialDetailSlideOver
         open={!!viewingMaterial}
         material={viewingMaterial}
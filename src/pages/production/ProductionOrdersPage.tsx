@@ -0,0 +1,287 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useSearchParams } from 'react-router-dom';
+import { supabase } from '../../lib/supabase';
+import { useAuthStore } from '../../stores/authStore';
+import { canDeleteAnything } from '../../lib/rbac';
+import { PageShell } from '../../components/PageShell';
+import { ToastContainer, type ToastData } from '../../components/Toast';
+import {
+  ProductionOrderSlideOver,
+  type ProductionOrder,
+  type FactoryOption,
+} from '../../components/ProductionOrderSlideOver';
+import type { ProductWithMaterials } from '../../components/ProductSlideOver';
+import { FilterSelect } from '../../components/FilterSelect';
+import { MaterialIcon } from '../../components/icons/MaterialIcon';
+import { PRIMARY_BUTTON_CLASS } from '../../lib/inputStyles';
+import { DeleteConfirmModal } from '../../components/DeleteConfirmModal';
+import { computeRequirements, PRODUCTION_ORDER_STATUSES, PRODUCT_BOM_SELECT } from '../../lib/productionOrders';
+import { resolveVariantBom, variantSku } from '../../lib/productVariants';
+
+const statusColor = (status: string) => {
+  switch (status) {
+    case 'confirmed': return 'bg-blue-600 text-white';
+    case 'in_production': return 'bg-orange text-orange-fg';
+    case 'completed': return 'bg-green text-green-fg';
+    case 'canceled': return 'bg-red text-red-fg';
+    default: return 'bg-nokturo-500 text-white';
+  }
+};
+
+export default function ProductionOrdersPage() {
+  const { t } = useTranslation();
+  const user = useAuthStore((s) => s.user);
+  const canDelete = canDeleteAnything(user?.role ?? 'client');
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  // ── State ──────────────────────────────────────────────────
+  const [orders, setOrders] = useState<ProductionOrder[]>([]);
+  const [products, setProducts] = useState<ProductWithMaterials[]>([]);
+  const [factories, setFactories] = useState<FactoryOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState<string[]>([]);
+
+  const [editOpen, setEditOpen] = useState(false);
+  const [editingOrder, setEditingOrder] = useState<ProductionOrder | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<string | null>(null);
+  const [toasts, setToasts] = useState<ToastData[]>([]);
+
+  const addToast = useCallback((message: string, type: 'success' | 'error' | 'info' = 'error') => {
+    setToasts((prev) => [...prev, { id: crypto.randomUUID(), message, type }]);
+  }, []);
+
+  // ── Fetch ──────────────────────────────────────────────────
+  const fetchOrders = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('production_orders')
+      .select('*, factory:suppliers (id, name)')
+      .order('target_date', { ascending: true, nullsFirst: false });
+    if (error) {
+      addToast(error.message, 'error');
+      return;
+    }
+    setOrders((data as ProductionOrder[]) || []);
+  }, [addToast]);
+
+  const fetchProducts = useCallback(async () => {
+    const { data } = await supabase
+      .from('products')
+      .select(PRODUCT_BOM_SELECT)
+      .order('name');
+    setProducts((data as ProductWithMaterials[]) || []);
+  }, []);
+
+  const fetchFactories = useCallback(async () => {
+    const { data } = await supabase
+      .from('suppliers')
+      .select('id, name, lead_time_days')
+      .eq('category', 'factory')
+      .order('name');
+    setFactories((data as FactoryOption[]) || []);
+  }, []);
+
+  useEffect(() => {
+    setLoading(true);
+    Promise.all([fetchOrders(), fetchProducts(), fetchFactories()]).finally(() => setLoading(false));
+  }, [fetchOrders, fetchProducts, fetchFactories]);
+
+  // Realtime: stock and BOM changes affect shortfalls
+  useEffect(() => {
+    const channel = supabase
+      .channel('production-orders')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'production_orders' }, () => fetchOrders())
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'materials' }, () => fetchProducts())
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'components' }, () => fetchProducts())
+      .subscribe();
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [fetchOrders, fetchProducts]);
+
+  const productById = useMemo(() => new Map(products.map((p) => [p.id, p])), [products]);
+
+  const filteredOrders = statusFilter.length > 0
+    ? orders.filter((o) => statusFilter.includes(o.status))
+    : orders;
+
+  const shortfallsFor = (order: ProductionOrder) => {
+    const product = productById.get(order.product_id);
+    if (!product) return 0;
+    return computeRequirements(resolveVariantBom(product, order.variant_id), order.quantity_by_size, order.quantity)
+      .filter((r) => r.shortfall > 0).length;
+  };
+
+  // ── Handlers ───────────────────────────────────────────────
+  const openAdd = () => {
+    setEditingOrder(null);
+    setEditOpen(true);
+  };
+
+  const openEdit = (order: ProductionOrder) => {
+    setEditingOrder(order);
+    setEditOpen(true);
+  };
+
+  // Deep link: ?order=<id> (e.g. from the order's chat channel)
+  useEffect(() => {
+    const orderParam = searchParams.get('order');
+    if (!orderParam || loading) return;
+    const order = orders.find((o) => o.id === orderParam);
+    if (order) openEdit(order);
+    const next = new URLSearchParams(searchParams);
+    next.delete('order');
+    setSearchParams(next, { replace: true });
+  }, [searchParams, orders, loading]);
+
+  const handleSaved = () => {
+    setEditOpen(false);
+    setEditingOrder(null);
+    fetchOrders();
+    addToast(t('productionOrders.saved'), 'success');
+  };
+
+  const handleDelete = async (id: string) => {
+    const { error } = await supabase.from('production_orders').delete().eq('id', id);
+    if (!error) setOrders((prev) => prev.filter((o) => o.id !== id));
+    else addToast(error.message, 'error');
+    setDeleteTarget(null);
+  };
+
+  const formatDate = (d: string | null) => {
+    if (!d) return '—';
+    return new Date(d).toLocaleDateString(user?.language === 'cs' ? 'cs-CZ' : 'en-US', {
+      day: 'numeric',
+      month: 'short',
+      year: 'numeric',
+    });
+  };
+
+  const isLate = (order: ProductionOrder) =>
+    !!order.target_date &&
+    order.status !== 'completed' &&
+    order.status !== 'canceled' &&
+    new Date(order.target_date) < new Date(new Date().toDateString());
+
+  const closeToast = useCallback((id: string) => {
+    setToasts((prev) => prev.filter((t) => t.id !== id));
+  }, []);
+
+  // ── Render ─────────────────────────────────────────────────
+  return (
+    <PageShell
+      titleKey="pages.productionOrders.title"
+      descriptionKey="pages.productionOrders.description"
+      compactContent
+      noHorizontalPadding
+      actionsSlot={
+        <div className="flex w-full items-center justify-between sm:justify-end gap-2">
+          <FilterSelect
+            value={statusFilter}
+            onChange={setStatusFilter}
+            titleKey="productionOrders.filterTitle"
+            options={[
+              { value: 'all', label: t('productionOrders.allStatuses') },
+              ...PRODUCTION_ORDER_STATUSES.map((s) => ({ value: s, label: t(`productionOrders.statuses.${s}`) })),
+            ]}
+          />
+          <button onClick={openAdd} className={`${PRIMARY_BUTTON_CLASS} shrink-0`}>
+            <MaterialIcon name="add" size={16} className="shrink-0" />
+            {t('productionOrders.addOrder')}
+          </button>
+        </div>
+      }
+    >
+      <ToastContainer toasts={toasts} onClose={closeToast} />
+      {loading ? (
+        <div className="flex items-center justify-center py-20">
+          <MaterialIcon name="progress_activity" size={24} className="text-nokturo-500 animate-spin shrink-0" />
+        </div>
+      ) : filteredOrders.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-20 text-center">
+          <MaterialIcon name="factory" size={48} className="text-nokturo-400 mb-4 shrink-0" />
+          <p className="text-nokturo-600 font-medium">{t('productionOrders.noOrders')}</p>
+          <p className="text-nokturo-500 text-sm mt-1">{t('productionOrders.addFirst')}</p>
+        </div>
+      ) : (
+        <div className="w-full min-w-0 overflow-x-auto">
+          <div className="min-w-[720px] grid grid-cols-[1.2fr_1fr_80px_120px_auto_auto] gap-x-3">
+            {/* Header row */}
+            <div className="col-span-6">
+              <div className="grid grid-cols-[1.2fr_1fr_80px_120px_auto_auto] gap-x-3 py-2 px-4 text-[11px] font-medium text-nokturo-500 uppercase tracking-widest">
+                <span>{t('productionOrders.product')}</span>
+                <span>{t('productionOrders.factory')}</span>
+                <span className="text-right">{t('productionOrders.units')}</span>
+                <span>{t('productionOrders.targetDate')}</span>
+                <span>{t('productionOrders.status')}</span>
+                <span>{t('productionOrders.shortfall')}</span>
+              </div>
+            </div>
+
+            {filteredOrders.map((order, idx) => {
+              const product = productById.get(order.product_id);
+              const variant = product?.product_variants?.find((v) => v.id === order.variant_id);
+              const shortfalls = shortfallsFor(order);
+              return (
+                <button
+                  key={order.id}
+                  type="button"
+                  onClick={() => openEdit(order)}
+                  className={`col-span-6 grid grid-cols-subgrid gap-x-3 py-2.5 px-4 text-sm text-nokturo-900 dark:text-nokturo-100 text-left hover:!bg-nokturo-100/60 dark:hover:!bg-nokturo-800/60 transition-colors ${
+                    idx % 2 === 1 ? 'bg-nokturo-900/5 dark:bg-white/5' : ''
+                  }`}
+                >
+                  <span className="min-w-0">
+                    <span className="font-medium truncate block">{product?.name ?? '—'}</span>
+                    {product?.sku && (
+                      <span className="text-xs text-nokturo-500">{variant ? variantSku(product.sku, variant) : product.sku}</span>
+                    )}
+                    {variant && <span className="text-xs text-nokturo-500 ml-1.5">{variant.name}</span>}
+                  </span>
+                  <span className="truncate min-w-0">{order.factory?.name ?? '—'}</span>
+                  <span className="text-right tabular-nums">{order.quantity}</span>
+                  <span className={isLate(order) ? 'text-red font-medium' : ''}>{formatDate(order.target_date)}</span>
+                  <span>
+                    <span className={`inline-block text-xs px-2 py-0.5 font-medium whitespace-nowrap rounded-[4px] ${statusColor(order.status)}`}>
+                      {t(`productionOrders.statuses.${order.status}`)}
+                    </span>
+                  </span>
+                  <span>
+                    {shortfalls > 0 ? (
+                      <span className="inline-flex items-center gap-1 text-xs font-medium text-red whitespace-nowrap">
+                        <MaterialIcon name="warning" size={14} className="shrink-0" />
+                        {t('productionOrders.shortfallCount', { count: shortfalls })}
+                      </span>
+                    ) : (
+                      <span className="text-xs text-nokturo-500 whitespace-nowrap">{t('productionOrders.covered')}</span>
+                    )}
+                  </span>
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      <ProductionOrderSlideOver
+        open={editOpen}
+        order={editingOrder}
+        products={products}
+        factories={factories}
+        onClose={() => {
+          setEditOpen(false);
+          setEditingOrder(null);
+        }}
+        onSaved={handleSaved}
+        onDelete={canDelete ? (id) => setDeleteTarget(id) : undefined}
+      />
+
+      {deleteTarget && (
+        <DeleteConfirmModal
+          onCancel={() => setDeleteTarget(null)}
+          onConfirm={() => handleDelete(deleteTarget)}
+        />
+      )}
+    </PageShell>
+  );
+}
@@ -5,6 +5,7 @@ import { supabase } from '../../lib/supabase';
 import { useAuthStore } from '../../stores/authStore';
 import { canDeleteAnything } from '../../lib/rbac';
 import { PageShell } from '../../components/PageShell';
+import { PRODUCT_VARIANTS_SELECT } from '../../lib/productVariants';
 import {
   ProductSlideOver,
   type ProductWithMaterials,
@@ -52,7 +53,7 @@ export default function ProductsPage() {
           consumption_amount,
           notes,
           role,
-          variant,
+          variant_id,
           material:materials (*)
         ),
         product_labels (
@@ -60,8 +61,10 @@ export default function ProductsPage() {
           label_id,
           placement,
           notes,
+          variant_id,
           label:labels (*, material:materials (*))
-        )
+        ),
+        ${PRODUCT_VARIANTS_SELECT}
       `,
       )
       .order('priority', { ascending: false, nullsFirst: false })
@@ -0,0 +1,264 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { supabase } from '../../lib/supabase';
+import { PageShell } from '../../components/PageShell';
+import { MaterialIcon } from '../../components/icons/MaterialIcon';
+import type { Supplier } from '../../components/SupplierSlideOver';
+import {
+  CONSUMPTION_WINDOW_DAYS,
+  dailyConsumption,
+  daysOfCover,
+  isLowStock,
+  runsOutBeforeDelivery,
+  suggestedOrderQty,
+  type ReorderItem,
+} from '../../lib/reorder';
+
+type SupplierInfo = Pick<Supplier, 'id' | 'name' | 'lead_time_days' | 'email'>;
+
+interface ReorderRow extends ReorderItem {
+  perDay: number;
+  cover: number | null;
+  orderQty: number;
+  atRisk: boolean;
+}
+
+interface SupplierGroup {
+  supplier: SupplierInfo | null;
+  rows: ReorderRow[];
+  totals: Record<string, number>;
+}
+
+const fmtQty = (n: number) => n.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+export default function ReorderPage() {
+  const { t } = useTranslation();
+
+  // ── State ──────────────────────────────────────────────────
+  const [items, setItems] = useState<ReorderItem[]>([]);
+  const [suppliers, setSuppliers] = useState<SupplierInfo[]>([]);
+  const [usage, setUsage] = useState<Map<string, number>>(new Map());
+  const [loading, setLoading] = useState(true);
+  const [riskOnly, setRiskOnly] = useState(false);
+
+  // ── Fetch ──────────────────────────────────────────────────
+  const fetchData = useCallback(async () => {
+    const [matRes, compRes, supRes] = await Promise.all([
+      supabase
+        .from('materials')
+        .select('id, name, unit, stock_qty, reorder_point, reorder_qty, price_per_unit, currency, supplier_id, image_url')
+        .not('reorder_point', 'is', null),
+      supabase
+        .from('components')
+        .select('id, name, stock_qty, reorder_point, reorder_qty, price_per_unit, currency, supplier_id, image_url')
+        .not('reorder_point', 'is', null),
+      supabase.from('suppliers').select('id, name, lead_time_days, email').order('name'),
+    ]);
+
+    const low: ReorderItem[] = [
+      ...((matRes.data || []) as Omit<ReorderItem, 'kind'>[]).map((m) => ({ ...m, kind: 'material' as const })),
+      ...((compRes.data || []) as Omit<ReorderItem, 'kind' | 'unit'>[]).map((c) => ({ ...c, kind: 'component' as const, unit: 'pcs' })),
+    ].filter(isLowStock);
+
+    // Usage rate from the ledger over the last CONSUMPTION_WINDOW_DAYS
+    const since = new Date(Date.now() - CONSUMPTION_WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    const materialIds = low.filter((i) => i.kind === 'material').map((i) => i.id);
+    const componentIds = low.filter((i) => i.kind === 'component').map((i) => i.id);
+    const nextUsage = new Map<string, number>();
+    if (low.length > 0) {
+      const filters = [
+        materialIds.length > 0 ? `material_id.in.(${materialIds.join(',')})` : null,
+        componentIds.length > 0 ? `component_id.in.(${componentIds.join(',')})` : null,
+      ].filter(Boolean);
+      const { data: movements } = await supabase
+        .from('stock_movements')
+        .select('material_id, component_id, movement_type, quantity')
+        .in('movement_type', ['consumption_sample', 'consumption_production'])
+        .gte('created_at', since)
+        .or(filters.join(','));
+      const byItem = new Map<string, { quantity: number; movement_type: string }[]>();
+      for (const m of (movements || []) as { material_id: string | null; component_id: string | null; movement_type: string; quantity: number }[]) {
+        const key = m.material_id ?? m.component_id;
+        if (!key) continue;
+        byItem.set(key, [...(byItem.get(key) ?? []), m]);
+      }
+      byItem.forEach((list, key) => nextUsage.set(key, dailyConsumption(list)));
+    }
+
+    setItems(low);
+    setUsage(nextUsage);
+    setSuppliers((supRes.data as SupplierInfo[]) || []);
+  }, []);
+
+  useEffect(() => {
+    setLoading(true);
+    fetchData().finally(() => setLoading(false));
+  }, [fetchData]);
+
+  // Realtime: any stock or threshold change can move items on/off the list
+  useEffect(() => {
+    const channel = supabase
+      .channel('reorder')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'materials' }, () => fetchData())
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'components' }, () => fetchData())
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'suppliers' }, () => fetchData())
+      .subscribe();
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [fetchData]);
+
+  // ── Group by supplier ──────────────────────────────────────
+  const groups = useMemo<SupplierGroup[]>(() => {
+    const supplierById = new Map(suppliers.map((s) => [s.id, s]));
+    const byKey = new Map<string, SupplierGroup>();
+    for (const item of items) {
+      const supplier = item.supplier_id ? supplierById.get(item.supplier_id) ?? null : null;
+      const perDay = usage.get(item.id) ?? 0;
+      const row: ReorderRow = {
+        ...item,
+        perDay,
+        cover: daysOfCover(Number(item.stock_qty), perDay),
+        orderQty: suggestedOrderQty(item),
+        atRisk: runsOutBeforeDelivery(Number(item.stock_qty), perDay, supplier?.lead_time_days ?? null),
+      };
+      if (riskOnly && !row.atRisk) continue;
+      const key = supplier?.id ?? '';
+      const group = byKey.get(key) ?? { supplier, rows: [], totals: {} };
+      group.rows.push(row);
+      group.totals[row.currency] = (group.totals[row.currency] ?? 0) + row.orderQty * Number(row.price_per_unit ?? 0);
+      byKey.set(key, group);
+    }
+    const list = Array.from(byKey.values());
+    list.forEach((g) => g.rows.sort((a, b) => Number(b.atRisk) - Number(a.atRisk) || a.name.localeCompare(b.name)));
+    // Suppliers with at-risk items first, items without a supplier last
+    return list.sort((a, b) => {
+      if (!a.supplier) return 1;
+      if (!b.supplier) return -1;
+      const riskDiff = Number(b.rows.some((r) => r.atRisk)) - Number(a.rows.some((r) => r.atRisk));
+      return riskDiff || a.supplier.name.localeCompare(b.supplier.name);
+    });
+  }, [items, suppliers, usage, riskOnly]);
+
+  const atRiskCount = groups.reduce((sum, g) => sum + g.rows.filter((r) => r.atRisk).length, 0);
+
+  const unitLabel = (row: ReorderRow) =>
+    row.kind === 'component' ? t('components.pcs') : row.unit;
+
+  // ── Render ─────────────────────────────────────────────────
+  return (
+    <PageShell
+      titleKey="pages.reorder.title"
+      descriptionKey="pages.reorder.description"
+      actionsSlot={
+        <div className="flex w-full items-center justify-between sm:justify-end gap-2">
+          <label className="inline-flex items-center gap-2 text-sm text-nokturo-700 dark:text-nokturo-300 cursor-pointer select-none">
+            <input
+              type="checkbox"
+              checked={riskOnly}
+              onChange={(e) => setRiskOnly(e.target.checked)}
+              className="accent-nokturo-900 dark:accent-nokturo-100"
+            />
+            {t('reorder.riskOnly')}
+            {atRiskCount > 0 && (
+              <span className="text-xs px-1.5 py-0.5 rounded-[4px] font-medium bg-red text-red-fg tabular-nums">{atRiskCount}</span>
+            )}
+          </label>
+        </div>
+      }
+    >
+      {loading ? (
+        <div className="flex items-center justify-center py-20">
+          <MaterialIcon name="progress_activity" size={24} className="text-nokturo-500 animate-spin shrink-0" />
+        </div>
+      ) : groups.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-20 text-center">
+          <MaterialIcon name="inventory" size={48} className="text-nokturo-400 mb-4 shrink-0" />
+          <p className="text-nokturo-600 font-medium">{t('reorder.nothingToReorder')}</p>
+          <p className="text-nokturo-500 text-sm mt-1">{t('reorder.nothingToReorderHint')}</p>
+        </div>
+      ) : (
+        <div className="flex flex-col gap-6">
+          {groups.map((group) => (
+            <section key={group.supplier?.id ?? 'none'} className="bg-nokturo-50 dark:bg-nokturo-800 rounded-lg overflow-hidden">
+              {/* Supplier header */}
+              <div className="flex flex-wrap items-center justify-between gap-2 px-4 py-3 border-b border-nokturo-200 dark:border-nokturo-700">
+                <div className="min-w-0">
+                  <h3 className="text-heading-5 font-medium text-nokturo-900 dark:text-nokturo-100 truncate">
+                    {group.supplier?.name ?? t('reorder.noSupplier')}
+                  </h3>
+                  <p className="text-xs text-nokturo-500">
+                    {group.supplier?.lead_time_days != null
+                      ? t('reorder.leadTime', { days: group.supplier.lead_time_days })
+                      : t('reorder.leadTimeUnknown')}
+                    {group.supplier?.email && <> · {group.supplier.email}</>}
+                  </p>
+                </div>
+                <p className="text-sm text-nokturo-700 dark:text-nokturo-300 tabular-nums">
+                  {t('reorder.estimatedCost')}:{' '}
+                  {Object.entries(group.totals)
+                    .map(([cur, sum]) => `${sum.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ${cur}`)
+                    .join(' + ')}
+                </p>
+              </div>
+
+              {/* Items */}
+              <div className="w-full min-w-0 overflow-x-auto">
+                <table className="w-full min-w-[640px] text-sm">
+                  <thead>
+                    <tr className="text-[11px] font-medium text-nokturo-500 uppercase tracking-widest text-left">
+                      <th className="py-2 px-4 font-medium">{t('reorder.item')}</th>
+                      <th className="py-2 px-2 font-medium text-right">{t('reorder.onHand')}</th>
+                      <th className="py-2 px-2 font-medium text-right">{t('reorder.reorderPoint')}</th>
+                      <th className="py-2 px-2 font-medium text-right">{t('reorder.usagePerDay')}</th>
+                      <th className="py-2 px-2 font-medium text-right">{t('reorder.daysOfCover')}</th>
+                      <th className="py-2 px-4 font-medium text-right">{t('reorder.orderQty')}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {group.rows.map((row, idx) => (
+                      <tr
+                        key={`${row.kind}-${row.id}`}
+                        className={`text-nokturo-900 dark:text-nokturo-100 ${idx % 2 === 1 ? 'bg-nokturo-900/5 dark:bg-white/5' : ''}`}
+                      >
+                        <td className="py-2.5 px-4">
+                          <span className="flex items-center gap-2 min-w-0">
+                            <span className="font-medium truncate">{row.name}</span>
+                            <span className="text-xs text-nokturo-500 shrink-0">
+                              {row.kind === 'material' ? t('reorder.material') : t('reorder.component')}
+                            </span>
+                            {row.atRisk && (
+                              <span className="inline-flex items-center gap-1 text-xs px-2 py-0.5 font-medium whitespace-nowrap rounded-[4px] bg-red text-red-fg shrink-0">
+                                <MaterialIcon name="schedule" size={12} className="shrink-0" />
+                                {t('reorder.runsOutBeforeDelivery')}
+                              </span>
+                            )}
+                          </span>
+                        </td>
+                        <td className={`py-2.5 px-2 text-right tabular-nums ${Number(row.stock_qty) <= 0 ? 'text-red font-medium' : ''}`}>
+                          {fmtQty(Number(row.stock_qty))} {unitLabel(row)}
+                        </td>
+                        <td className="py-2.5 px-2 text-right tabular-nums text-nokturo-600 dark:text-nokturo-400">
+                          {fmtQty(Number(row.reorder_point))}
+                        </td>
+                        <td className="py-2.5 px-2 text-right tabular-nums text-nokturo-600 dark:text-nokturo-400">
+                          {row.perDay > 0 ? fmtQty(row.perDay) : '—'}
+                        </td>
+                        <td className={`py-2.5 px-2 text-right tabular-nums ${row.atRisk ? 'text-red font-medium' : ''}`}>
+                          {row.cover != null ? t('reorder.days', { count: Math.floor(row.cover) }) : '—'}
+                        </td>
+                        <td className="py-2.5 px-4 text-right tabular-nums font-medium">
+                          {fmtQty(row.orderQty)} {unitLabel(row)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </section>
+          ))}
+        </div>
+      )}
+    </PageShell>
+  );
+}
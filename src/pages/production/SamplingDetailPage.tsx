@@ -3,6 +3,7 @@ import { createPortal } from 'react-dom';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import { supabase } from '../../lib/supabase';
+import { useAuthStore } from '../../stores/authStore';
 import { PageShell } from '../../components/PageShell';
 import { CommentableRichTextViewer } from '../../components/CommentableRichTextViewer';
 import { MaterialDetailSlideOver } from '../../components/MaterialDetailSlideOver';
@@ -12,7 +13,13 @@ import type { TocItem } from '../../components/TableOfContents';
 import type { ProductWithMaterials, ProductTechPack as TechPackType } from '../../components/ProductSlideOver';
 import type { RichTextBlock } from '../../components/RichTextBlockEditor';
 import { MaterialIcon } from '../../components/icons/MaterialIcon';
-import { ProductGalleryComments } from '../../components/ProductGalleryComments';
+import { CommentFeed } from '../../components/CommentFeed';
+import { canCommentOn } from '../../lib/comments';
+import { getGalleryNotificationLink } from '../../lib/sendMentionNotifications';
+import { SampleRoundsSection } from '../../components/SampleRoundsSection';
+import { ImagePinLayer } from '../../components/ImagePinLayer';
+import { useImagePins } from '../../hooks/useImagePins';
+import { PRODUCT_VARIANTS_SELECT, sortVariants } from '../../lib/productVariants';
 
 /** Syncs TOC items when description is empty but sections (materials, labels, etc.) exist */
 function TocItemsSync({ items, onItems }: { items: TocItem[]; onItems: (items: TocItem[]) => void }) {
@@ -60,6 +67,7 @@ export default function SamplingDetailPage() {
   const { productId } = useParams<{ productId: string }>();
   const navigate = useNavigate();
   const { t } = useTranslation();
+  const user = useAuthStore((s) => s.user);
   const [product, setProduct] = useState<ProductWithMaterials | null>(null);
   const [loading, setLoading] = useState(true);
   const [viewingMaterial, setViewingMaterial] = useState<Material | null>(null);
@@ -69,6 +77,10 @@ export default function SamplingDetailPage() {
     productId: string;
     galleryType: 'design' | 'moodboard' | 'labels';
   } | null>(null);
+  const lightboxPins = useImagePins(lightbox?.productId ?? '', {
+    gallery: lightbox?.galleryType ?? 'design',
+    index: lightbox?.index ?? 0,
+  });
   const lightboxImgRef = useRef<HTMLDivElement>(null);
   const lightboxImgElementRef = useRef<HTMLImageElement>(null);
   const [loupe, setLoupe] = useState<{
@@ -95,7 +107,7 @@ export default function SamplingDetailPage() {
           consumption_amount,
           notes,
           role,
-          variant,
+          variant_id,
           material:materials (*)
         ),
         product_labels (
@@ -103,8 +115,10 @@ export default function SamplingDetailPage() {
           label_id,
           placement,
           notes,
+          variant_id,
           label:labels (*)
-        )`
+        ),
+        ${PRODUCT_VARIANTS_SELECT}`
       )
       .eq('id', productId)
       .eq('ready_for_sampling', true)
@@ -291,27 +305,23 @@ export default function SamplingDetailPage() {
                 {t('products.materials.title')}
               </h2>
               {(() => {
-                const byVersion = materials.reduce<Record<string, typeof materials>>((acc, pm) => {
-                  const ver = pm.variant ?? '1';
-                  if (!acc[ver]) acc[ver] = [];
-                  acc[ver].push(pm);
+                const byVariant = materials.reduce<Record<string, typeof materials>>((acc, pm) => {
+                  const key = pm.variant_id ?? '';
+                  if (!acc[key]) acc[key] = [];
+                  acc[key].push(pm);
                   return acc;
                 }, {});
-                const versions = Object.keys(byVersion).sort((a, b) => {
-                  const na = parseInt(a, 10);
-                  const nb = parseInt(b, 10);
-                  if (!isNaN(na) && !isNaN(nb)) return na - nb;
-                  return a.localeCompare(b);
-                });
+                // Base materials first, then each variant's overrides
+                const variantKeys = ['', ...sortVariants(product.product_variants).map((v) => v.id)].filter((k) => byVariant[k]);
                 return (
                   <div className="space-y-8">
-                    {versions.map((version) => (
-                      <div key={version} className="space-y-3">
+                    {variantKeys.map((variantKey) => (
+                      <div key={variantKey} className="space-y-3">
                         <h3 className="text-heading-5 font-medium text-nokturo-800 dark:text-nokturo-200">
-                          {version === '1' ? t('products.materials.primaryVersion') : `${t('products.materials.version')} ${version}`}
+                          {variantKey ? product.product_variants?.find((v) => v.id === variantKey)?.name : t('products.variants.baseMaterials')}
                         </h3>
                         <div className="space-y-2">
-                          {byVersion[version].map((pm, idx) => {
+                          {byVariant[variantKey].map((pm, idx) => {
                             const mat = pm.material;
                             const roleLabel = pm.role ? getRoleLabel(pm.role) : null;
                             const comp = getComposition(mat);
@@ -513,6 +523,7 @@ export default function SamplingDetailPage() {
           );
           const extraSections = (
             <>
+              <SampleRoundsSection productId={product.id} />
               {materialsSection}
               {labelsSection}
               {designGallerySection}
@@ -522,6 +533,7 @@ export default function SamplingDetailPage() {
           const hasCommentableContent = descriptionBlocks.length > 0 || !!product.short_description;
           const sectionTocItems: TocItem[] = [
             ...(hasCommentableContent ? [{ id: 'section-description', text: t('common.description'), level: 1 as const }] : []),
+            { id: 'section-sample-rounds', text: t('sampling.rounds.title'), level: 1 as const },
             ...(materials.length > 0 ? [{ id: 'section-materials', text: t('products.materials.title'), level: 1 as const }] : []),
             ...(labels.length > 0 ? [{ id: 'section-labels', text: t('products.labels.title'), level: 1 as const }] : []),
             ...(designGallery.length > 0 ? [{ id: 'section-design-gallery', text: t('products.designGallery'), level: 1 as const }] : []),
@@ -611,6 +623,11 @@ export default function SamplingDetailPage() {
                 onMouseMove={(e) => {
                   const containerEl = lightboxImgRef.current;
                   if (!containerEl) return;
+                  // no magnifier while drawing a pin
+                  if (lightboxPins.placing) {
+                    setLoupe(null);
+                    return;
+                  }
                   const rect = containerEl.getBoundingClientRect();
                   const relX = (e.clientX - rect.left) / rect.width;
                   const relY = (e.clientY - rect.top) / rect.height;
@@ -639,12 +656,24 @@ export default function SamplingDetailPage() {
                     );
                   }
                   return (
-                    <img
-                      ref={lightboxImgElementRef}
-                      src={url}
-                      alt={lightbox.gallery[lightbox.index]?.caption ?? ''}
-                      className="max-w-full max-h-[50vh] lg:max-h-[90vh] w-auto h-auto object-contain rounded-lg"
-                    />
+                    <div className="relative inline-block max-w-full leading-[0]">
+                      <img
+                        ref={lightboxImgElementRef}
+                        src={url}
+                        alt={lightbox.gallery[lightbox.index]?.caption ?? ''}
+                        className="max-w-full max-h-[50vh] lg:max-h-[90vh] w-auto h-auto object-contain rounded-lg"
+                      />
+                      <ImagePinLayer
+                        pins={lightboxPins.pins}
+                        activePinId={lightboxPins.activePinId}
+                        onSelectPin={lightboxPins.setActivePinId}
+                        canPin={canCommentOn(user?.role, 'product')}
+                        placing={lightboxPins.placing}
+                        onPlacingChange={lightboxPins.setPlacing}
+                        pending={lightboxPins.pending}
+                        onPlace={lightboxPins.onPlace}
+                      />
+                    </div>
                   );
                 })()}
                 {loupe && (() => {
@@ -708,10 +737,23 @@ export default function SamplingDetailPage() {
                 </div>
               )}
               <div className="flex-1 overflow-y-auto min-h-0 flex flex-col px-4 pb-4">
-                <ProductGalleryComments
-                  productId={lightbox.productId}
-                  galleryType={lightbox.galleryType}
-                  imageIndex={lightbox.index}
+                <CommentFeed
+                  scope={{
+                    target: { type: 'product', id: lightbox.productId },
+                    anchorType: 'image',
+                    anchor: { gallery: lightbox.galleryType, index: lightbox.index },
+                  }}
+                  canComment={canCommentOn(user?.role, 'product')}
+                  mentionType="gallery_tag"
+                  reviewable
+                  notificationLink={getGalleryNotificationLink(lightbox.productId)}
+                  onCommentsChange={lightboxPins.onCommentsChange}
+                  pinNumbers={lightboxPins.pinNumbers}
+                  activeThreadId={lightboxPins.activePinId}
+                  onActiveThreadChange={lightboxPins.setActivePinId}
+                  postAnchor={lightboxPins.postAnchor}
+                  onCancelPostAnchor={lightboxPins.cancelPending}
+                  onPosted={lightboxPins.onPosted}
                   hasCaptionAbove={!!(lightbox.gallery[lightbox.index]?.caption || lightbox.gallery[lightbox.index]?.notes)}
                 />
               </div>
@@ -1,14 +1,25 @@
 import { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import { supabase } from '../../lib/supabase';
+import { useAuthStore } from '../../stores/authStore';
 import { PageShell } from '../../components/PageShell';
-import { ProductCard } from '../../components/ProductCard';
 import type { ProductWithMaterials } from '../../components/ProductSlideOver';
 import { MaterialIcon } from '../../components/icons/MaterialIcon';
+import {
+  SAMPLE_ROUND_SELECT,
+  SAMPLE_STATUS_COLORS,
+  currentRound,
+  sampleRoundStatus,
+  type SampleRound,
+} from '../../lib/sampleRounds';
 
 export default function SamplingPage() {
   const { t } = useTranslation();
+  const navigate = useNavigate();
+  const user = useAuthStore((s) => s.user);
   const [products, setProducts] = useState<ProductWithMaterials[]>([]);
+  const [rounds, setRounds] = useState<SampleRound[]>([]);
   const [loading, setLoading] = useState(true);
 
   const fetchProducts = useCallback(async () => {
@@ -23,7 +34,7 @@ export default function SamplingPage() {
           consumption_amount,
           notes,
           role,
-          variant,
+          variant_id,
           material:materials (*)
         )`
       )
@@ -37,9 +48,15 @@ export default function SamplingPage() {
     setLoading(false);
   }, []);
 
+  const fetchRounds = useCallback(async () => {
+    const { data } = await supabase.from('sample_rounds').select(SAMPLE_ROUND_SELECT);
+    setRounds((data as unknown as SampleRound[]) || []);
+  }, []);
+
   useEffect(() => {
     fetchProducts();
-  }, [fetchProducts]);
+    fetchRounds();
+  }, [fetchProducts, fetchRounds]);
 
   // ── Real-time: produkt updatovaný na stránce Produkty se projeví i tady ──
   useEffect(() => {
@@ -61,11 +78,31 @@ export default function SamplingPage() {
       )
       .subscribe();
 
+    const roundsChannel = supabase
+      .channel('sampling-rounds')
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'sample_rounds' },
+        () => fetchRounds(),
+      )
+      .subscribe();
+
     return () => {
       supabase.removeChannel(productsChannel);
       supabase.removeChannel(pmChannel);
+      supabase.removeChannel(roundsChannel);
     };
-  }, [fetchProducts]);
+  }, [fetchProducts, fetchRounds]);
+
+  const formatDate = (d: string | null) => {
+    if (!d) return '—';
+    return new Date(d).toLocaleDateString(user?.language === 'cs' ? 'cs-CZ' : 'en-US', {
+      day: 'numeric',
+      month: 'short',
+    });
+  };
+
+  const cols = 'grid-cols-[48px_1.4fr_110px_110px_1fr_90px_90px_60px]';
 
   return (
     <PageShell
@@ -90,15 +127,75 @@ export default function SamplingPage() {
           </p>
         </div>
       ) : (
-        <div className="grid grid-cols-[repeat(auto-fill,minmax(220px,1fr))] gap-4">
-          {products.map((product) => (
-            <ProductCard
-              key={product.id}
-              product={product}
-              to={`/production/sampling/${product.id}`}
-              showReadyBadge
-            />
-          ))}
+        <div className="w-full min-w-0 overflow-x-auto">
+          <div className={`min-w-[860px] grid ${cols} gap-x-3`}>
+            {/* Header row */}
+            <div className="col-span-8">
+              <div className={`grid ${cols} gap-x-3 py-2 px-4 text-[11px] font-medium text-nokturo-500 uppercase tracking-widest`}>
+                <span />
+                <span>{t('sampling.product')}</span>
+                <span>{t('sampling.currentRound')}</span>
+                <span>{t('sampling.status')}</span>
+                <span>{t('sampling.rounds.factory')}</span>
+                <span>{t('sampling.rounds.sentAt')}</span>
+                <span>{t('sampling.rounds.receivedAt')}</span>
+                <span className="text-right">{t('sampling.roundCount')}</span>
+              </div>
+            </div>
+
+            {products.map((product, idx) => {
+              const productRounds = rounds.filter((r) => r.product_id === product.id);
+              const current = currentRound(productRounds);
+              const status = current ? sampleRoundStatus(current) : null;
+              const tp = product.tech_pack as { preview_photo_url?: string; design_gallery?: { url: string }[] } | undefined;
+              const preview = tp?.preview_photo_url ?? tp?.design_gallery?.[0]?.url;
+              return (
+                <button
+                  key={product.id}
+                  type="button"
+                  onClick={() => navigate(`/production/sampling/${product.id}`)}
+                  className={`col-span-8 grid grid-cols-subgrid gap-x-3 items-center py-2 px-4 text-sm text-nokturo-900 dark:text-nokturo-100 text-left hover:!bg-nokturo-100/60 dark:hover:!bg-nokturo-800/60 transition-colors ${
+                    idx % 2 === 1 ? 'bg-nokturo-900/5 dark:bg-white/5' : ''
+                  }`}
+                >
+                  <span className="size-12 rounded-[6px] overflow-hidden bg-nokturo-100 dark:bg-nokturo-700 flex items-center justify-center">
+                    {preview ? (
+                      <img src={preview} alt="" className="w-full h-full object-cover" />
+                    ) : (
+                      <MaterialIcon name="inventory_2" size={20} className="text-nokturo-400 shrink-0" />
+                    )}
+                  </span>
+                  <span className="min-w-0">
+                    <span className="flex items-center gap-2">
+                      <span className="font-medium truncate">{product.name}</span>
+                      {product.priority && (
+                        <span className="text-[10px] px-1.5 py-0.5 rounded-[4px] bg-red text-red-fg font-medium shrink-0">
+                          {t('products.priority')}
+                        </span>
+                      )}
+                    </span>
+                    <span className="block text-xs text-nokturo-500 truncate">{product.sku || '—'}</span>
+                  </span>
+                  <span className="truncate">
+                    {current ? `${t(`sampling.stages.${current.stage}`)} ${current.round_number}` : '—'}
+                  </span>
+                  <span>
+                    {status ? (
+                      <span className={`inline-block text-xs px-2 py-0.5 font-medium whitespace-nowrap rounded-[4px] ${SAMPLE_STATUS_COLORS[status]}`}>
+                        {t(`sampling.statuses.${status}`)}
+                      </span>
+                    ) : (
+                      <span className="text-xs text-nokturo-500">{t('sampling.noRounds')}</span>
+                    )}
+                  </span>
+                  <span className="truncate min-w-0 text-nokturo-600 dark:text-nokturo-400">{current?.factory?.name ?? '—'}</span>
+                  <span className="text-nokturo-600 dark:text-nokturo-400">{formatDate(current?.sent_at ?? null)}</span>
+                  <span className="text-nokturo-600 dark:text-nokturo-400">{formatDate(current?.received_at ?? null)}</span>
+                  <span className="text-right tabular-nums">{productRounds.length}</span>
+                </button>
+              );
+            })}
+          </div>
         </div>
       )}
     </PageShell>
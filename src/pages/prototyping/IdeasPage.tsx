@@ -11,11 +11,13 @@ import {
   type NotionSelectOption,
 } from '../../components/NotionSelect';
 import { MaterialIcon } from '../../components/icons/MaterialIcon';
+import { SimpleDropdown } from '../../components/SimpleDropdown';
 import { DeleteIcon } from '../../components/icons/DeleteIcon';
 import { DefaultAvatar } from '../../components/DefaultAvatar';
 import { UploadImageIcon } from '../../components/icons/UploadImageIcon';
 import { INPUT_CLASS } from '../../lib/inputStyles';
 import { DeleteConfirmModal } from '../../components/DeleteConfirmModal';
+import { useCollections } from '../../lib/collections';
 
 const inputClass = INPUT_CLASS;
 
@@ -32,6 +34,7 @@ interface Idea {
   image_url: string | null;
   type: 'text' | 'image' | 'mixed';
   categories?: string[] | null;
+  collection_id?: string | null;
   /** @deprecated use categories; kept for backward compat before migration */
   category?: string | null;
   created_by: string | null;
@@ -115,6 +118,9 @@ export default function IdeasPage() {
   // Categories (Notion-style)
   const [categories, setCategories] = useState<NotionSelectOption[]>([]);
   const [filterCategories, setFilterCategories] = useState<string[]>([]);
+  const [filterCollection, setFilterCollection] = useState('');
+  const collections = useCollections();
+  const collectionOptions = [{ value: '', label: '—' }, ...collections.map((c) => ({ value: c.id, label: c.name }))];
   const [mobileFiltersOpen, setMobileFiltersOpen] = useState(false);
   const [showMobileCta, setShowMobileCta] = useState(true);
 
@@ -124,6 +130,7 @@ export default function IdeasPage() {
   const [formTitle, setFormTitle] = useState('');
   const [formContent, setFormContent] = useState('');
   const [formCategories, setFormCategories] = useState<string[]>([]);
+  const [formCollection, setFormCollection] = useState('');
   const [formImage, setFormImage] = useState<File | null>(null);
   const [formImagePreview, setFormImagePreview] = useState('');
   const [saving, setSaving] = useState(false);
@@ -176,9 +183,11 @@ export default function IdeasPage() {
   const [dragDropIndex, setDragDropIndex] = useState<number | null>(null);
 
   // Filter
-  const isFiltering = filterCategories.length > 0;
+  const isFiltering = filterCategories.length > 0 || !!filterCollection;
   const filteredIdeas = isFiltering
     ? ideas.filter(idea => {
+        if (filterCollection && idea.collection_id !== filterCollection) return false;
+        if (filterCategories.length === 0) return true;
         const cats = idea.categories ?? (idea.category ? [idea.category] : []);
         return filterCategories.some(fc => cats.includes(fc));
       })
@@ -320,6 +329,7 @@ export default function IdeasPage() {
     setFormTitle('');
     setFormContent('');
     setFormCategories([]);
+    setFormCollection('');
     setFormImage(null);
     setFormImagePreview('');
     setError('');
@@ -333,6 +343,7 @@ export default function IdeasPage() {
     setFormTitle(idea.title);
     setFormContent(idea.content || '');
     setFormCategories(ideaCats.filter(c => validNames.has(c)));
+    setFormCollection(idea.collection_id ?? '');
     setFormImage(null);
     setFormImagePreview(idea.image_url || '');
     setError('');
@@ -433,6 +444,7 @@ export default function IdeasPage() {
       image_url: imageUrl,
       type: ideaType,
       categories: formCategories.length > 0 ? formCategories : [],
+      collection_id: formCollection || null,
       created_by: editingIdea ? editingIdea.created_by : getUserIdForDb(),
     };
     if (!editingIdea) {
@@ -602,7 +614,7 @@ export default function IdeasPage() {
                 <button
                   onClick={() => setFilterCategories([])}
                   className={`text-sm px-4 py-2 rounded-[6px] font-medium transition-all ${
-                    !isFiltering
+                    filterCategories.length === 0
                       ? 'bg-nokturo-800 text-white dark:bg-white dark:text-nokturo-900'
                       : 'bg-nokturo-200 text-nokturo-500 dark:bg-nokturo-700 dark:text-nokturo-400 hover:bg-nokturo-300 dark:hover:bg-nokturo-600'
                   }`}
@@ -637,7 +649,7 @@ export default function IdeasPage() {
                 <button
                   onClick={() => setFilterCategories([])}
                   className={`text-xs px-3 py-1 rounded-[4px] font-medium transition-all ${
-                    !isFiltering
+                    filterCategories.length === 0
                       ? 'bg-nokturo-800 text-white dark:bg-white dark:text-nokturo-900'
                       : 'bg-nokturo-200 text-nokturo-500 dark:bg-nokturo-700 dark:text-nokturo-400 hover:bg-nokturo-300 dark:hover:bg-nokturo-600'
                   }`}
@@ -667,13 +679,24 @@ export default function IdeasPage() {
             ) : (
               <div />
             )}
-            <button
-              onClick={openAdd}
-              className="flex items-center justify-center gap-2 h-9 bg-white text-nokturo-900 font-medium rounded-[6px] px-4 text-sm hover:bg-nokturo-50 dark:bg-white dark:text-nokturo-900 dark:hover:bg-nokturo-100 transition-colors shrink-0"
-            >
-              <MaterialIcon name="add" size={16} className="shrink-0" />
-              {t('ideas.quickCapture')}
-            </button>
+            <div className="flex items-center gap-2 shrink-0">
+              {collections.length > 0 && (
+                <SimpleDropdown
+                  value={filterCollection}
+                  onChange={setFilterCollection}
+                  options={[{ value: '', label: t('collections.allCollections') }, ...collectionOptions.slice(1)]}
+                  compact
+                  className="w-44"
+                />
+              )}
+              <button
+                onClick={openAdd}
+                className="flex items-center justify-center gap-2 h-9 bg-white text-nokturo-900 font-medium rounded-[6px] px-4 text-sm hover:bg-nokturo-50 dark:bg-white dark:text-nokturo-900 dark:hover:bg-nokturo-100 transition-colors shrink-0"
+              >
+                <MaterialIcon name="add" size={16} className="shrink-0" />
+                {t('ideas.quickCapture')}
+              </button>
+            </div>
           </div>
         </div>
       }
@@ -1015,6 +1038,14 @@ export default function IdeasPage() {
                 />
               </div>
 
+              {/* Collection */}
+              <div>
+                <label className="block text-sm text-nokturo-700 dark:text-nokturo-400 mb-1">
+                  {t('collections.collection')}
+                </label>
+                <SimpleDropdown value={formCollection} onChange={setFormCollection} options={collectionOptions} />
+              </div>
+
               {/* Image */}
               <div>
                 <label className="block text-sm text-nokturo-700 dark:text-nokturo-400 mb-1">
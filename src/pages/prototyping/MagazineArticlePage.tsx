@@ -7,6 +7,9 @@ import { RichTextBlockViewer } from '../../components/RichTextBlockViewer';
 import type { RichTextBlock } from '../../components/RichTextBlockEditor';
 import { MaterialIcon } from '../../components/icons/MaterialIcon';
 import { EditIcon } from '../../components/icons/EditIcon';
+import { EntityComments } from '../../components/EntityComments';
+import { useAuthStore } from '../../stores/authStore';
+import { canCommentOn } from '../../lib/comments';
 
 interface MagazineArticle {
   id: string;
@@ -20,6 +23,7 @@ export default function MagazineArticlePage() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const { t } = useTranslation();
+  const role = useAuthStore((s) => s.user?.role);
 
   const [article, setArticle] = useState<MagazineArticle | null>(null);
   const [loading, setLoading] = useState(true);
@@ -117,6 +121,15 @@ export default function MagazineArticlePage() {
         {article.content.length > 0 && (
           <RichTextBlockViewer blocks={article.content} showToc={false} />
         )}
+
+        <div className="mt-12 mb-16 pt-8 border-t border-nokturo-200 dark:border-nokturo-600">
+          <EntityComments
+            target={{ type: 'magazine_article', id: article.id }}
+            title={t('comments.title')}
+            canComment={canCommentOn(role, 'magazine_article')}
+            notificationLink={`/prototyping/magazine/${article.id}`}
+          />
+        </div>
       </div>
     </PageShell>
   );
@@ -9,7 +9,8 @@ import { useAuthStore, getUserIdForDb } from '../../stores/authStore';
 import { useSidebarStore } from '../../stores/sidebarStore';
 import { canDeleteAnything } from '../../lib/rbac';
 import { PageShell } from '../../components/PageShell';
-import { MoodboardComments } from '../../components/MoodboardComments';
+import { CommentFeed } from '../../components/CommentFeed';
+import { canCommentOn, fetchUnreadCommentCounts, markCommentsRead, postComment } from '../../lib/comments';
 import { ToastContainer, type ToastData } from '../../components/Toast';
 import { useToastStore } from '../../stores/toastStore';
 import {
@@ -17,6 +18,7 @@ import {
   type NotionSelectOption,
 } from '../../components/NotionSelect';
 import { MaterialIcon } from '../../components/icons/MaterialIcon';
+import { SimpleDropdown } from '../../components/SimpleDropdown';
 import { DeleteIcon } from '../../components/icons/DeleteIcon';
 import { UploadImageIcon } from '../../components/icons/UploadImageIcon';
 import { useMentionSuggestions, MentionDropdown } from '../../components/MentionSuggestions';
@@ -25,6 +27,9 @@ import { INPUT_CLASS, MODAL_HEADING_CLASS, TEXTAREA_CLASS, PRIMARY_BUTTON_CLASS
 import { DeleteConfirmModal } from '../../components/DeleteConfirmModal';
 import { distributeToColumns } from '../../utils/masonryColumns';
 import { useDropdownPosition } from '../../hooks/useDropdownPosition';
+import { useImagePins } from '../../hooks/useImagePins';
+import { ImagePinLayer } from '../../components/ImagePinLayer';
+import { useCollections } from '../../lib/collections';
 
 const inputClass = INPUT_CLASS;
 
@@ -53,6 +58,7 @@ interface MoodboardItem {
   image_url: string;
   categories: string[];
   notes: string | null;
+  collection_id: string | null;
   created_by: string | null;
   created_at: string;
   sub_images: MoodboardSubImage[];
@@ -83,6 +89,9 @@ export default function MoodboardPage() {
 
   // Filter (multiselect: show items that have ANY of selected categories)
   const [categoryFilter, setCategoryFilter] = useState<string[]>([]);
+  const [collectionFilter, setCollectionFilter] = useState('');
+  const collections = useCollections();
+  const collectionOptions = [{ value: '', label: '—' }, ...collections.map((c) => ({ value: c.id, label: c.name }))];
 
   // Upload modal
   const [showUpload, setShowUpload] = useState(false);
@@ -90,6 +99,7 @@ export default function MoodboardPage() {
   const [uploadTitle, setUploadTitle] = useState('');
   const [uploadCategories, setUploadCategories] = useState<string[]>([]);
   const [uploadNotes, setUploadNotes] = useState('');
+  const [uploadCollection, setUploadCollection] = useState('');
   const [uploadComment, setUploadComment] = useState('');
   const [uploadTaggedUsers, setUploadTaggedUsers] = useState<string[]>([]);
   const [uploadProfiles, setUploadProfiles] = useState<MentionProfile[]>([]);
@@ -103,6 +113,10 @@ export default function MoodboardPage() {
   // Lightbox
   const [lightboxIndex, setLightboxIndex] = useState<number | null>(null);
   const [lightboxSubIndex, setLightboxSubIndex] = useState(0);
+  const lightboxPins = useImagePins(lightboxIndex !== null ? items[lightboxIndex]?.id ?? '' : '', {
+    gallery: 'item',
+    index: lightboxSubIndex,
+  });
   const [lightboxMenuOpen, setLightboxMenuOpen] = useState(false);
 
   // Card menu
@@ -146,6 +160,7 @@ export default function MoodboardPage() {
   const [editTitle, setEditTitle] = useState('');
   const [editNotes, setEditNotes] = useState('');
   const [editCategories, setEditCategories] = useState<string[]>([]);
+  const [editCollection, setEditCollection] = useState('');
   const [editError, setEditError] = useState('');
   const [editSaving, setEditSaving] = useState(false);
 
@@ -229,6 +244,9 @@ export default function MoodboardPage() {
     if (categoryFilter.length > 0) {
       query = query.overlaps('categories', categoryFilter);
     }
+    if (collectionFilter) {
+      query = query.eq('collection_id', collectionFilter);
+    }
 
     let { data, error } = await query;
 
@@ -241,6 +259,9 @@ export default function MoodboardPage() {
       if (categoryFilter.length > 0) {
         fallbackQuery = fallbackQuery.overlaps('categories', categoryFilter);
       }
+      if (collectionFilter) {
+        fallbackQuery = fallbackQuery.eq('collection_id', collectionFilter);
+      }
       const fallback = await fallbackQuery;
       data = fallback.data;
       error = fallback.error;
@@ -258,7 +279,7 @@ export default function MoodboardPage() {
       );
     }
     setLoading(false);
-  }, [categoryFilter]);
+  }, [categoryFilter, collectionFilter]);
 
   useEffect(() => {
     fetchItems();
@@ -269,28 +290,7 @@ export default function MoodboardPage() {
     const userId = getUserIdForDb();
     if (!userId) return;
     try {
-      const { data: comments } = await supabase
-        .from('moodboard_comments')
-        .select('moodboard_item_id, created_at')
-        .neq('author_id', userId);
-      const { data: reads } = await supabase
-        .from('moodboard_comment_reads')
-        .select('moodboard_item_id, last_read_at')
-        .eq('user_id', userId);
-      if (!comments) return;
-      const readMap = new Map(
-        (reads || []).map((r: { moodboard_item_id: string; last_read_at: string }) => [
-          r.moodboard_item_id,
-          new Date(r.last_read_at),
-        ])
-      );
-      const counts: Record<string, number> = {};
-      for (const c of comments as { moodboard_item_id: string; created_at: string }[]) {
-        const readAt = readMap.get(c.moodboard_item_id);
-        if (!readAt || new Date(c.created_at) > readAt) {
-          counts[c.moodboard_item_id] = (counts[c.moodboard_item_id] || 0) + 1;
-        }
-      }
+      const counts = await fetchUnreadCommentCounts('moodboard_item');
       // Exclude items the user just marked as read (prevents race condition)
       for (const id of recentlyReadRef.current) {
         delete counts[id];
@@ -298,7 +298,7 @@ export default function MoodboardPage() {
       setUnreadCounts(counts);
       setSortUnreadIds(new Set(Object.keys(counts).filter((id) => counts[id] > 0)));
     } catch {
-      // Silently fail if moodboard_comment_reads table doesn't exist yet
+      // Unread badges are best-effort
     }
   }, []);
 
@@ -319,12 +319,9 @@ export default function MoodboardPage() {
       return next;
     });
     try {
-      await supabase.from('moodboard_comment_reads').upsert(
-        { user_id: userId, moodboard_item_id: itemId, last_read_at: new Date().toISOString() },
-        { onConflict: 'user_id,moodboard_item_id' }
-      );
+      await markCommentsRead({ type: 'moodboard_item', id: itemId });
     } catch {
-      // Silently fail if table doesn't exist yet
+      // Unread badges are best-effort
     }
   }, []);
 
@@ -432,6 +429,7 @@ export default function MoodboardPage() {
       setEditTitle(editTarget.title || '');
       setEditNotes(editTarget.notes || '');
       setEditCategories(editTarget.categories || []);
+      setEditCollection(editTarget.collection_id ?? '');
       setEditError('');
     }
   }, [editTarget]);
@@ -527,6 +525,7 @@ export default function MoodboardPage() {
     setUploadTitle('');
     setUploadCategories([]);
     setUploadNotes('');
+    setUploadCollection('');
     setUploadComment('');
     setUploadTaggedUsers([]);
     setUploadError('');
@@ -684,6 +683,7 @@ export default function MoodboardPage() {
           image_url: uploadedUrls[0],
           categories: uploadCategories.length > 0 ? uploadCategories : [],
           notes: uploadNotes || null,
+          collection_id: uploadCollection || null,
           created_by: getUserIdForDb(),
         })
         .select('id')
@@ -708,16 +708,14 @@ export default function MoodboardPage() {
       if (insertedItem && (uploadComment.trim() || uploadTaggedUsers.length > 0)) {
         const authorId = getUserIdForDb();
         const content = uploadComment.trim() || t('moodboard.taggedYou');
-        const { data: comment } = await supabase
-          .from('moodboard_comments')
-          .insert({
-            moodboard_item_id: insertedItem.id,
-            author_id: authorId,
-            content,
-            tagged_user_ids: uploadTaggedUsers,
-          })
-          .select('id')
-          .single();
+        const comment = authorId
+          ? await postComment({
+              scope: { target: { type: 'moodboard_item', id: insertedItem.id } },
+              authorId,
+              content,
+              taggedUserIds: uploadTaggedUsers,
+            })
+          : null;
 
         if (comment && uploadTaggedUsers.length > 0 && authorId && user) {
           if (import.meta.env.DEV) {
@@ -784,6 +782,7 @@ export default function MoodboardPage() {
         title: editTitle || null,
         notes: editNotes || null,
         categories: editCategories,
+        collection_id: editCollection || null,
       })
       .eq('id', editTarget.id);
     setEditSaving(false);
@@ -796,7 +795,13 @@ export default function MoodboardPage() {
     setItems((prev) =>
       prev.map((i) =>
         i.id === editTarget.id
-          ? { ...i, title: editTitle || null, notes: editNotes || null, categories: editCategories }
+          ? {
+              ...i,
+              title: editTitle || null,
+              notes: editNotes || null,
+              categories: editCategories,
+              collection_id: editCollection || null,
+            }
           : i
       )
     );
@@ -999,6 +1004,15 @@ export default function MoodboardPage() {
               ) : null}
             </div>
             <div className="flex items-center gap-2 shrink-0">
+              {collections.length > 0 && (
+                <SimpleDropdown
+                  value={collectionFilter}
+                  onChange={setCollectionFilter}
+                  options={[{ value: '', label: t('collections.allCollections') }, ...collectionOptions.slice(1)]}
+                  compact
+                  className="w-44"
+                />
+              )}
               <button
                 onClick={() => setGalleryColumns((prev) => (prev === 3 ? 4 : prev === 4 ? 5 : prev === 5 ? 6 : 3))}
                 className="flex items-center justify-center size-9 shrink-0 bg-nokturo-100 dark:bg-nokturo-800 text-nokturo-900 dark:text-nokturo-100 font-medium rounded-[6px] hover:bg-nokturo-200 dark:hover:bg-nokturo-700 transition-colors"
@@ -1033,9 +1047,9 @@ export default function MoodboardPage() {
         <div className="flex flex-col items-center justify-center py-20 text-center px-4 sm:px-6">
           <MaterialIcon name="image" size={48} className="text-nokturo-600 mb-4 shrink-0" />
           <p className="text-nokturo-600 font-medium">
-            {categoryFilter.length > 0 ? t('moodboard.noFilterResults') : t('moodboard.noItems')}
+            {categoryFilter.length > 0 || collectionFilter ? t('moodboard.noFilterResults') : t('moodboard.noItems')}
           </p>
-          {categoryFilter.length === 0 && (
+          {categoryFilter.length === 0 && !collectionFilter && (
             <p className="text-nokturo-500 text-sm mt-1">{t('moodboard.addFirst')}</p>
           )}
         </div>
@@ -1348,6 +1362,17 @@ export default function MoodboardPage() {
                 />
               </div>
 
+              <div>
+                <label className="block text-sm text-nokturo-700 dark:text-nokturo-300 mb-1">
+                  {t('collections.collection')}
+                </label>
+                <SimpleDropdown
+                  value={uploadCollection}
+                  onChange={setUploadCollection}
+                  options={collectionOptions}
+                />
+              </div>
+
               <div>
                 <label className="block text-sm text-nokturo-700 dark:text-nokturo-300 mb-1">
                   {t('moodboard.commentAndTag')}
@@ -1482,6 +1507,17 @@ export default function MoodboardPage() {
                   inlineChips
                 />
               </div>
+
+              <div>
+                <label className="block text-sm text-nokturo-700 dark:text-nokturo-300 mb-1">
+                  {t('collections.collection')}
+                </label>
+                <SimpleDropdown
+                  value={editCollection}
+                  onChange={setEditCollection}
+                  options={collectionOptions}
+                />
+              </div>
             </div>
 
             {editError && (
@@ -1573,11 +1609,23 @@ export default function MoodboardPage() {
                   loading="eager"
                 />
               ) : (
-                <img
-                  src={lbImageUrl}
-                  alt={lbItem.title || 'Moodboard'}
-                  className="max-w-full max-h-[50vh] lg:max-h-[85vh] w-auto h-auto object-contain"
-                />
+                <div className="relative inline-block max-w-full leading-[0]">
+                  <img
+                    src={lbImageUrl}
+                    alt={lbItem.title || 'Moodboard'}
+                    className="max-w-full max-h-[50vh] lg:max-h-[85vh] w-auto h-auto object-contain"
+                  />
+                  <ImagePinLayer
+                    pins={lightboxPins.pins}
+                    activePinId={lightboxPins.activePinId}
+                    onSelectPin={lightboxPins.setActivePinId}
+                    canPin={canCommentOn(user?.role, 'moodboard_item')}
+                    placing={lightboxPins.placing}
+                    onPlacingChange={lightboxPins.setPlacing}
+                    pending={lightboxPins.pending}
+                    onPlace={lightboxPins.onPlace}
+                  />
+                </div>
               )}
             </div>
 
@@ -1708,9 +1756,19 @@ export default function MoodboardPage() {
             )}
 
             <div className="flex-1 overflow-y-auto min-h-0 flex flex-col">
-              <MoodboardComments
-                moodboardItemId={lbItem.id}
-                hasHeaderAbove={!!(lbItem.title || lbItem.notes || (lbItem.categories && lbItem.categories.length > 0))}
+              <CommentFeed
+                scope={{ target: { type: 'moodboard_item', id: lbItem.id } }}
+                canComment={canCommentOn(user?.role, 'moodboard_item')}
+                mentionType="moodboard_tag"
+                notificationLink={`/prototyping/moodboard?item=${lbItem.id}`}
+                variant="panel"
+                onCommentsChange={lightboxPins.onCommentsChange}
+                pinNumbers={lightboxPins.pinNumbers}
+                activeThreadId={lightboxPins.activePinId}
+                onActiveThreadChange={lightboxPins.setActivePinId}
+                postAnchor={lightboxPins.postAnchor}
+                onCancelPostAnchor={lightboxPins.cancelPending}
+                onPosted={lightboxPins.onPosted}
               />
             </div>
           </div>
@@ -18,11 +18,16 @@ import { DefaultAvatar } from '../../components/DefaultAvatar';
 import { resizeAvatarImage } from '../../lib/resizeImage';
 import { INPUT_CLASS } from '../../lib/inputStyles';
 import { AppUpdateSection } from '../../components/AppUpdateSection';
+import { SimpleDropdown } from '../../components/SimpleDropdown';
+import { useWorkspaceStore } from '../../stores/workspaceStore';
+import { CURRENCIES } from '../../lib/currency';
 
 export default function AccountPage() {
   const { t, i18n } = useTranslation();
   const user = useAuthStore((s) => s.user);
   const setUser = useAuthStore((s) => s.setUser);
+  const baseCurrency = useWorkspaceStore((s) => s.baseCurrency);
+  const setBaseCurrency = useWorkspaceStore((s) => s.setBaseCurrency);
 
   const [firstName, setFirstName] = useState('');
   const [lastName, setLastName] = useState('');
@@ -86,6 +91,12 @@ export default function AccountPage() {
     setTimeout(() => setToast(null), 3000);
   };
 
+  const handleBaseCurrencyChange = async (currency: string) => {
+    if (currency === baseCurrency) return;
+    const err = await setBaseCurrency(currency);
+    showToast(err ? 'error' : 'success', err ?? t('settings.account.baseCurrencySaved'));
+  };
+
   const handleSave = async () => {
     if (!userId) {
       showToast('error', t('settings.account.signInRequired'));
@@ -425,6 +436,34 @@ export default function AccountPage() {
           </div>
         </section>
 
+        {/* Base currency (founder only, workspace-wide) */}
+        {user?.role === 'founder' && (
+          <section className="py-3">
+            <div className="flex items-center justify-between gap-4">
+              <div className="flex items-center gap-3">
+                <div className="w-10 h-10 rounded-[6px] bg-nokturo-200 dark:bg-nokturo-700 flex items-center justify-center">
+                  <MaterialIcon name="currency_exchange" size={20} className="text-nokturo-600 dark:text-nokturo-300 shrink-0" />
+                </div>
+                <div>
+                  <h3 className="text-heading-5 font-medium text-nokturo-900 dark:text-nokturo-100">
+                    {t('settings.account.baseCurrency')}
+                  </h3>
+                  <p className="text-nokturo-600 dark:text-nokturo-400 text-sm">
+                    {t('settings.account.baseCurrencyDescription')}
+                  </p>
+                </div>
+              </div>
+              <SimpleDropdown
+                value={baseCurrency}
+                onChange={handleBaseCurrencyChange}
+                options={CURRENCIES.map((c) => ({ value: c, label: c }))}
+                compact
+                className="w-[177px]"
+              />
+            </div>
+          </section>
+        )}
+
         {/* Security shortcut */}
         <NavLink to="/settings/security" className="block py-1">
           <div className="flex items-center gap-3 py-3 -mx-2 px-2 rounded-[8px] hover:bg-nokturo-50 dark:hover:bg-nokturo-800/50 transition-colors group">
@@ -463,6 +502,26 @@ export default function AccountPage() {
           </NavLink>
         )}
 
+        {/* SKU scheme & barcodes (founder only) */}
+        {user?.role === 'founder' && (
+          <NavLink to="/settings/sku" className="block py-1">
+            <div className="flex items-center gap-3 py-3 -mx-2 px-2 rounded-[8px] hover:bg-nokturo-50 dark:hover:bg-nokturo-800/50 transition-colors group">
+              <div className="w-10 h-10 rounded-[6px] bg-nokturo-200 dark:bg-nokturo-700 flex items-center justify-center shrink-0">
+                <MaterialIcon name="barcode" size={20} className="text-nokturo-600 dark:text-nokturo-300 shrink-0" />
+              </div>
+              <div className="flex-1 min-w-0">
+                <h3 className="text-heading-5 font-medium text-nokturo-900 dark:text-nokturo-100">
+                  {t('settings.sku.title')}
+                </h3>
+                <p className="text-nokturo-600 dark:text-nokturo-400 text-sm">
+                  {t('settings.sku.description')}
+                </p>
+              </div>
+              <MaterialIcon name="chevron_right" size={20} className="text-nokturo-400 dark:text-nokturo-500 group-hover:text-nokturo-500 dark:group-hover:text-nokturo-400 shrink-0 transition-colors" />
+            </div>
+          </NavLink>
+        )}
+
         {/* Style guide (founder only) */}
         {user?.role === 'founder' && (
           <div className="py-1">
@@ -0,0 +1,302 @@
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Link } from 'react-router-dom';
+import { supabase } from '../../lib/supabase';
+import { PageShell } from '../../components/PageShell';
+import { MaterialIcon } from '../../components/icons/MaterialIcon';
+import { INPUT_CLASS } from '../../lib/inputStyles';
+import { useWorkspaceStore } from '../../stores/workspaceStore';
+import { SKU_SEGMENTS, buildProductSku, categorySkuCode, type SkuScheme, type SkuSegment } from '../../lib/sku';
+import { unitSku } from '../../lib/productVariants';
+import { ean13DataUrl, ean13FromReference, gs1Capacity } from '../../lib/barcodes';
+
+interface CategoryRow {
+  id: string;
+  name: string;
+  sku_code: string | null;
+}
+
+const EXAMPLE_SEASON = 'AW26';
+const EXAMPLE_NUMBER = 42;
+
+const toInt = (value: string): number | null => (value.trim() === '' ? null : Math.floor(Number(value)));
+
+export default function SkuSettingsPage() {
+  const { t } = useTranslation();
+  const skuScheme = useWorkspaceStore((s) => s.skuScheme);
+  const gs1 = useWorkspaceStore((s) => s.gs1);
+  const setSkuSettings = useWorkspaceStore((s) => s.setSkuSettings);
+
+  const [scheme, setScheme] = useState<SkuScheme>(skuScheme);
+  const [prefix, setPrefix] = useState(gs1.companyPrefix ?? '');
+  const [rangeStart, setRangeStart] = useState(gs1.rangeStart?.toString() ?? '');
+  const [rangeEnd, setRangeEnd] = useState(gs1.rangeEnd?.toString() ?? '');
+  const [categories, setCategories] = useState<CategoryRow[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  useEffect(() => {
+    setScheme(skuScheme);
+    setPrefix(gs1.companyPrefix ?? '');
+    setRangeStart(gs1.rangeStart?.toString() ?? '');
+    setRangeEnd(gs1.rangeEnd?.toString() ?? '');
+  }, [skuScheme, gs1]);
+
+  useEffect(() => {
+    supabase
+      .from('product_categories')
+      .select('id, name, sku_code')
+      .order('sort_order')
+      .then(({ data }) => setCategories((data ?? []) as CategoryRow[]));
+  }, []);
+
+  const categoryCodes = Object.fromEntries(categories.map((c) => [c.name, c.sku_code]));
+  const exampleCategory = categories[0]?.name ?? 'coats';
+  const exampleSku = unitSku(
+    buildProductSku(scheme, { season: EXAMPLE_SEASON, category: exampleCategory, number: EXAMPLE_NUMBER }, categoryCodes),
+    { sku_suffix: 'BLK' },
+    'M'
+  );
+
+  // Orders enabled segments first, in their configured order
+  const orderedSegments: SkuSegment[] = [...scheme.segments, ...SKU_SEGMENTS.filter((s) => !scheme.segments.includes(s))];
+  const toggleSegment = (segment: SkuSegment) =>
+    setScheme((prev) => ({
+      ...prev,
+      segments: prev.segments.includes(segment) ? prev.segments.filter((s) => s !== segment) : [...prev.segments, segment],
+    }));
+  const moveSegment = (segment: SkuSegment, delta: -1 | 1) =>
+    setScheme((prev) => {
+      const i = prev.segments.indexOf(segment);
+      const j = i + delta;
+      if (i < 0 || j < 0 || j >= prev.segments.length) return prev;
+      const segments = [...prev.segments];
+      [segments[i], segments[j]] = [segments[j], segments[i]];
+      return { ...prev, segments };
+    });
+
+  const saveCategoryCode = async (category: CategoryRow, code: string) => {
+    const next = code.trim().toUpperCase() || null;
+    if (next === category.sku_code) return;
+    const { error: updErr } = await supabase.from('product_categories').update({ sku_code: next }).eq('id', category.id);
+    if (updErr) {
+      setError(updErr.message);
+      return;
+    }
+    setCategories((prev) => prev.map((c) => (c.id === category.id ? { ...c, sku_code: next } : c)));
+  };
+
+  const start = toInt(rangeStart);
+  const end = toInt(rangeEnd);
+  const prefixValid = /^\d{6,11}$/.test(prefix);
+  const capacity = prefixValid ? gs1Capacity(prefix) : 0;
+  const exampleEan = prefixValid && start != null && start < capacity ? ean13FromReference(prefix, start) : null;
+
+  const handleSave = async () => {
+    setError('');
+    setSuccess('');
+    if (scheme.segments.length === 0) {
+      setError(t('settings.sku.noSegments'));
+      return;
+    }
+    if (prefix) {
+      if (!prefixValid) {
+        setError(t('settings.sku.invalidPrefix'));
+        return;
+      }
+      if (start == null || end == null || start < 0 || end < start || end >= capacity) {
+        setError(t('settings.sku.invalidRange', { max: capacity - 1 }));
+        return;
+      }
+    }
+    setSaving(true);
+    const err = await setSkuSettings(scheme, {
+      companyPrefix: prefix || null,
+      rangeStart: prefix ? start : null,
+      rangeEnd: prefix ? end : null,
+    });
+    setSaving(false);
+    if (err) setError(err);
+    else setSuccess(t('settings.sku.saved'));
+  };
+
+  const labelClass = 'block text-sm text-nokturo-700 dark:text-nokturo-400 mb-1.5';
+
+  return (
+    <PageShell titleKey="settings.sku.title" descriptionKey="settings.sku.description">
+      <div className="max-w-lg">
+        <Link
+          to="/settings/account"
+          className="inline-flex items-center gap-2 text-sm text-nokturo-600 dark:text-nokturo-400 hover:text-nokturo-900 dark:hover:text-nokturo-100 mb-6 transition-colors"
+        >
+          <MaterialIcon name="arrow_back" size={16} className="shrink-0" />
+          {t('settings.security.backToSettings')}
+        </Link>
+
+        {/* SKU scheme */}
+        <section className="pt-6 space-y-4">
+          <div>
+            <h3 className="text-heading-5 font-extralight text-nokturo-900 dark:text-nokturo-100">
+              {t('settings.sku.scheme')}
+            </h3>
+            <p className="text-nokturo-600 dark:text-nokturo-400 text-sm">{t('settings.sku.schemeHint')}</p>
+          </div>
+
+          <div className="space-y-1.5">
+            {orderedSegments.map((segment) => {
+              const enabled = scheme.segments.includes(segment);
+              const index = scheme.segments.indexOf(segment);
+              return (
+                <div key={segment} className="flex items-center gap-3 rounded-lg p-3 bg-nokturo-100/60 dark:bg-white/5">
+                  <input
+                    type="checkbox"
+                    checked={enabled}
+                    onChange={() => toggleSegment(segment)}
+                    className="shrink-0"
+                    id={`sku-segment-${segment}`}
+                  />
+                  <label htmlFor={`sku-segment-${segment}`} className="flex-1 text-sm text-nokturo-900 dark:text-nokturo-100">
+                    {t(`settings.sku.segments.${segment}`)}
+                  </label>
+                  {enabled && (
+                    <div className="flex items-center gap-1">
+                      <button
+                        type="button"
+                        onClick={() => moveSegment(segment, -1)}
+                        disabled={index === 0}
+                        className="p-1 text-nokturo-500 hover:text-nokturo-900 dark:hover:text-nokturo-100 disabled:opacity-30 transition-colors"
+                        aria-label={t('settings.sku.moveUp')}
+                      >
+                        <MaterialIcon name="arrow_upward" size={16} className="shrink-0" />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => moveSegment(segment, 1)}
+                        disabled={index === scheme.segments.length - 1}
+                        className="p-1 text-nokturo-500 hover:text-nokturo-900 dark:hover:text-nokturo-100 disabled:opacity-30 transition-colors"
+                        aria-label={t('settings.sku.moveDown')}
+                      >
+                        <MaterialIcon name="arrow_downward" size={16} className="shrink-0" />
+                      </button>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          <div>
+            <label className={labelClass}>{t('settings.sku.numberDigits')}</label>
+            <input
+              type="number"
+              min={2}
+              max={8}
+              value={scheme.numberDigits}
+              onChange={(e) =>
+                setScheme((prev) => ({ ...prev, numberDigits: Math.min(8, Math.max(2, Number(e.target.value) || 2)) }))
+              }
+              className={INPUT_CLASS}
+            />
+          </div>
+
+          <p className="text-sm text-nokturo-600 dark:text-nokturo-400">
+            {t('settings.sku.example')}{' '}
+            <span className="text-[11px] font-mono px-1.5 py-0.5 rounded bg-nokturo-200/60 dark:bg-nokturo-700/60 text-nokturo-700 dark:text-nokturo-300">
+              {exampleSku}
+            </span>
+          </p>
+
+          {categories.length > 0 && (
+            <div>
+              <label className={labelClass}>{t('settings.sku.categoryCodes')}</label>
+              <div className="space-y-1.5">
+                {categories.map((c) => (
+                  <div key={c.id} className="flex items-center gap-3">
+                    <span className="flex-1 text-sm text-nokturo-900 dark:text-nokturo-100 truncate">
+                      {t(`products.categories.${c.name}`) !== `products.categories.${c.name}` ? t(`products.categories.${c.name}`) : c.name}
+                    </span>
+                    <input
+                      type="text"
+                      defaultValue={c.sku_code ?? ''}
+                      placeholder={categorySkuCode(c.name, {})}
+                      onBlur={(e) => saveCategoryCode(c, e.target.value)}
+                      maxLength={6}
+                      className={`${INPUT_CLASS} !w-28 font-mono uppercase`}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </section>
+
+        {/* GS1 / EAN-13 */}
+        <section className="pt-10 space-y-4">
+          <div>
+            <h3 className="text-heading-5 font-extralight text-nokturo-900 dark:text-nokturo-100">
+              {t('settings.sku.barcodes')}
+            </h3>
+            <p className="text-nokturo-600 dark:text-nokturo-400 text-sm">{t('settings.sku.barcodesHint')}</p>
+          </div>
+
+          <div>
+            <label className={labelClass}>{t('settings.sku.companyPrefix')}</label>
+            <input
+              type="text"
+              inputMode="numeric"
+              value={prefix}
+              onChange={(e) => setPrefix(e.target.value.replace(/\D/g, '').slice(0, 11))}
+              placeholder="8591234"
+              className={`${INPUT_CLASS} font-mono`}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelClass}>{t('settings.sku.rangeStart')}</label>
+              <input type="number" min={0} value={rangeStart} onChange={(e) => setRangeStart(e.target.value)} className={INPUT_CLASS} />
+            </div>
+            <div>
+              <label className={labelClass}>{t('settings.sku.rangeEnd')}</label>
+              <input type="number" min={0} value={rangeEnd} onChange={(e) => setRangeEnd(e.target.value)} className={INPUT_CLASS} />
+            </div>
+          </div>
+
+          {prefixValid && (
+            <p className="text-xs text-nokturo-500 dark:text-nokturo-400">
+              {t('settings.sku.capacity', { max: capacity - 1 })}
+              {gs1.nextItemRef != null && gs1.companyPrefix === prefix && ` · ${t('settings.sku.nextReference', { value: gs1.nextItemRef })}`}
+            </p>
+          )}
+
+          {exampleEan && (
+            <div className="rounded-lg p-3 bg-white inline-block">
+              <img src={ean13DataUrl(exampleEan)} alt={exampleEan} className="h-20" />
+            </div>
+          )}
+        </section>
+
+        {error && (
+          <div className="mt-6 text-red dark:text-red-fg text-sm bg-red/10 dark:bg-red/20 rounded-lg px-4 py-2.5">{error}</div>
+        )}
+        {success && (
+          <div className="mt-6 text-green dark:text-green-fg text-sm bg-green/10 dark:bg-green/20 rounded-lg px-4 py-2.5 flex items-center gap-2">
+            <MaterialIcon name="check_circle" size={16} className="shrink-0" />
+            {success}
+          </div>
+        )}
+
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={saving}
+          className="mt-6 bg-nokturo-900 dark:bg-white dark:text-nokturo-900 text-white font-medium rounded-lg px-5 py-2.5 text-sm hover:bg-nokturo-800 dark:hover:bg-nokturo-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+        >
+          {saving && <MaterialIcon name="progress_activity" size={16} className="animate-spin shrink-0" />}
+          {t('common.save')}
+        </button>
+      </div>
+    </PageShell>
+  );
+}
@@ -5,13 +5,14 @@ import { useTranslation } from 'react-i18next';
 import { PageShell } from '../../components/PageShell';
 import { TaskSlideOver, type Task, type TaskProfile } from '../../components/TaskSlideOver';
 import { TaskDetailSlideOver } from '../../components/TaskDetailSlideOver';
-import { TaskComments } from '../../components/TaskComments';
+import { CommentFeed } from '../../components/CommentFeed';
 import { ToastContainer, type ToastData } from '../../components/Toast';
 import { supabase } from '../../lib/supabase';
 import { useAuthStore, getUserIdForDb } from '../../stores/authStore';
 import { createNotification } from '../../components/NotificationCenter';
 import { MaterialIcon } from '../../components/icons/MaterialIcon';
 import { useDropdownPosition } from '../../hooks/useDropdownPosition';
+import { deleteEntityComments, fetchCommentCounts as fetchEntityCommentCounts } from '../../lib/comments';
 
 type Tab = 'active' | 'completed' | 'deleted';
 
@@ -215,17 +216,7 @@ export default function TasksPage() {
   }, []);
 
   const fetchCommentCounts = useCallback(async (taskIds: string[]) => {
-    if (taskIds.length === 0) { setCommentCounts({}); return; }
-    const { data } = await supabase
-      .from('task_comments')
-      .select('task_id')
-      .in('task_id', taskIds)
-      .is('parent_id', null);
-    const counts: Record<string, number> = {};
-    (data || []).forEach((r: { task_id: string }) => {
-      counts[r.task_id] = (counts[r.task_id] || 0) + 1;
-    });
-    setCommentCounts(counts);
+    setCommentCounts(await fetchEntityCommentCounts('task', taskIds));
   }, []);
 
   const fetchTasks = useCallback(async () => {
@@ -353,6 +344,19 @@ export default function TasksPage() {
 
   const displayed = tab === 'active' ? activeTasks : tab === 'completed' ? completedTasks : deletedTasks;
 
+  // The task creator hears about every comment on their task
+  const notifyTaskCreator = async (task: Task, content: string, authorId: string) => {
+    if (!task.created_by || task.created_by === authorId || !user) return;
+    const commenterName = [user.firstName, user.lastName].filter(Boolean).join(' ') || user.name;
+    await createNotification(
+      task.created_by,
+      'task_comment',
+      task.title ? `${commenterName}: ${task.title}` : commenterName,
+      content.slice(0, 200),
+      task.id,
+    );
+  };
+
   const markCompleted = async (taskId: string) => {
     const task = tasks.find((tk) => tk.id === taskId);
     await supabase
@@ -437,9 +441,10 @@ export default function TasksPage() {
   };
 
   const permanentDeleteTask = async (taskId: string) => {
-    const { error: commentsErr } = await supabase.from('task_comments').delete().eq('task_id', taskId);
-    if (commentsErr) {
-      addToast(commentsErr.message, 'error');
+    try {
+      await deleteEntityComments({ type: 'task', id: taskId });
+    } catch (e) {
+      addToast((e as Error).message, 'error');
       return;
     }
     const { error: assigneesErr } = await supabase.from('task_assignees').delete().eq('task_id', taskId);
@@ -583,10 +588,15 @@ export default function TasksPage() {
             />
           </div>
           <div className={`min-h-0 overflow-hidden flex flex-col rounded-[12px] bg-nokturo-900 ${detailMobileTab === 'detail' ? 'hidden md:flex' : ''}`}>
-            <TaskComments
-              taskId={viewingTask.id}
-              taskCreatorId={viewingTask.created_by}
-              taskTitle={viewingTask.title}
+            <CommentFeed
+              scope={{ target: { type: 'task', id: viewingTask.id } }}
+              canComment
+              mentionType="text_tag"
+              notificationLink={`/tasks?task=${viewingTask.id}`}
+              onPosted={(comment, authorId) => notifyTaskCreator(viewingTask, comment.content, authorId)}
+              variant="panel"
+              emptyText={t('comments.noComments')}
+              emptyHint={t('tasks.commentsBeFirst')}
             />
           </div>
         </div>
@@ -637,9 +647,10 @@ export default function TasksPage() {
               onClick={async () => {
                 if (!window.confirm(t('tasks.deleteAllConfirm'))) return;
                 for (const task of deletedTasks) {
-                  const { error: cErr } = await supabase.from('task_comments').delete().eq('task_id', task.id);
-                  if (cErr) {
-                    addToast(cErr.message, 'error');
+                  try {
+                    await deleteEntityComments({ type: 'task', id: task.id });
+                  } catch (e) {
+                    addToast((e as Error).message, 'error');
                     fetchTasks();
                     return;
                   }
@@ -14,6 +14,7 @@ import AuthCallback from './pages/auth/AuthCallback';
 import AccountPage from './pages/settings/AccountPage';
 import SecurityPage from './pages/settings/SecurityPage';
 import UsersPage from './pages/settings/UsersPage';
+import SkuSettingsPage from './pages/settings/SkuSettingsPage';
 import StyleGuidePage from './pages/settings/StyleGuideV2Page';
 
 // Brand
@@ -36,11 +37,17 @@ import ProductsPage from './pages/production/ProductsPage';
 import ProductDetailPage from './pages/production/ProductDetailPage';
 import SamplingPage from './pages/production/SamplingPage';
 import SamplingDetailPage from './pages/production/SamplingDetailPage';
+import ProductionOrdersPage from './pages/production/ProductionOrdersPage';
+import ReorderPage from './pages/production/ReorderPage';
+import CollectionsPage from './pages/production/CollectionsPage';
+import CollectionDetailPage from './pages/production/CollectionDetailPage';
+import CriticalPathPage from './pages/production/CriticalPathPage';
 
 // Business
 import CostingPage from './pages/business/CostingPage';
 import SuppliersPage from './pages/business/SuppliersPage';
 import AccountingPage from './pages/business/AccountingPage';
+import PurchaseOrdersPage from './pages/business/PurchaseOrdersPage';
 
 // Communication
 import ChatPage from './pages/communication/ChatPage';
@@ -84,16 +91,22 @@ const routes = [
           // Production
           { path: 'production/materials', element: <MaterialsPage /> },
           { path: 'production/components', element: <ComponentsPage /> },
+          { path: 'production/reorder', element: <ReorderPage /> },
           { path: 'production/labels', element: <LabelsPage /> },
           { path: 'production/products', element: <ProductsPage /> },
           { path: 'production/products/:id', element: <ProductDetailPage /> },
           { path: 'production/sampling', element: <SamplingPage /> },
           { path: 'production/sampling/:productId', element: <SamplingDetailPage /> },
+          { path: 'production/orders', element: <ProductionOrdersPage /> },
+          { path: 'production/collections', element: <CollectionsPage /> },
+          { path: 'production/collections/:id', element: <CollectionDetailPage /> },
+          { path: 'production/collections/:id/critical-path', element: <CriticalPathPage /> },
 
           // Business
           { path: 'business/costing', element: <CostingPage /> },
           { path: 'business/suppliers', element: <SuppliersPage /> },
           { path: 'business/accounting', element: <AccountingPage /> },
+          { path: 'business/purchase-orders', element: <PurchaseOrdersPage /> },
 
           // Communication
           { path: 'communication/chat', element: <ChatPage /> },
@@ -106,6 +119,7 @@ const routes = [
           { path: 'settings/account', element: <AccountPage /> },
           { path: 'settings/security', element: <SecurityPage /> },
           { path: 'settings/users', element: <ProtectedRoute allowedRoles={['founder']}><UsersPage /></ProtectedRoute> },
+          { path: 'settings/sku', element: <ProtectedRoute allowedRoles={['founder']}><SkuSettingsPage /></ProtectedRoute> },
           { path: 'settings/style-guide', element: <ProtectedRoute allowedRoles={['founder']}><StyleGuidePage /></ProtectedRoute> },
         ],
       },
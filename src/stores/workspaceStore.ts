@@ -0,0 +1,131 @@
+import { create } from 'zustand';
+import { supabase } from '../lib/supabase';
+import { safeGetStorage } from '../lib/storage';
+import { getUserIdForDb } from './authStore';
+import { DEFAULT_SKU_SCHEME, SKU_SEGMENTS, type SkuScheme, type SkuSegment } from '../lib/sku';
+
+/**
+ * Workspace-wide settings (single `workspace_settings` row).
+ * The last known value is cached locally so summaries render in the right currency offline.
+ */
+
+const BASE_CURRENCY_KEY = 'nokturo-base-currency';
+
+function loadBaseCurrency(): string {
+  try {
+    return safeGetStorage('local').getItem(BASE_CURRENCY_KEY) || 'CZK';
+  } catch {
+    return 'CZK';
+  }
+}
+
+function cacheBaseCurrency(currency: string) {
+  try {
+    safeGetStorage('local').setItem(BASE_CURRENCY_KEY, currency);
+  } catch {
+    /* ignore */
+  }
+}
+
+/** GS1 company prefix and the item reference range EAN-13 codes are allocated from */
+export interface Gs1Settings {
+  companyPrefix: string | null;
+  rangeStart: number | null;
+  rangeEnd: number | null;
+  /** Next item reference allocate_eans will try */
+  nextItemRef: number | null;
+}
+
+const EMPTY_GS1: Gs1Settings = { companyPrefix: null, rangeStart: null, rangeEnd: null, nextItemRef: null };
+
+interface WorkspaceSettingsRow {
+  base_currency: string;
+  sku_segments?: string[] | null;
+  sku_number_digits?: number | null;
+  gs1_company_prefix?: string | null;
+  gs1_range_start?: number | null;
+  gs1_range_end?: number | null;
+  gs1_next_item_ref?: number | null;
+}
+
+function skuSchemeFromRow(row: WorkspaceSettingsRow): SkuScheme {
+  return {
+    segments: (row.sku_segments ?? DEFAULT_SKU_SCHEME.segments).filter((s): s is SkuSegment =>
+      (SKU_SEGMENTS as readonly string[]).includes(s)
+    ),
+    numberDigits: row.sku_number_digits ?? DEFAULT_SKU_SCHEME.numberDigits,
+  };
+}
+
+function gs1FromRow(row: WorkspaceSettingsRow): Gs1Settings {
+  return {
+    companyPrefix: row.gs1_company_prefix ?? null,
+    rangeStart: row.gs1_range_start ?? null,
+    rangeEnd: row.gs1_range_end ?? null,
+    nextItemRef: row.gs1_next_item_ref ?? null,
+  };
+}
+
+interface WorkspaceState {
+  /** Currency summaries and totals are converted into */
+  baseCurrency: string;
+  skuScheme: SkuScheme;
+  gs1: Gs1Settings;
+  fetchSettings: () => Promise<void>;
+  /** Founders only (RLS); returns the Supabase error message or null */
+  setBaseCurrency: (currency: string) => Promise<string | null>;
+  /** Founders only (RLS); returns the Supabase error message or null */
+  setSkuSettings: (scheme: SkuScheme, gs1: Omit<Gs1Settings, 'nextItemRef'>) => Promise<string | null>;
+}
+
+export const useWorkspaceStore = create<WorkspaceState>((set) => ({
+  baseCurrency: loadBaseCurrency(),
+  skuScheme: DEFAULT_SKU_SCHEME,
+  gs1: EMPTY_GS1,
+  fetchSettings: async () => {
+    const { data, error } = await supabase.from('workspace_settings').select('*').maybeSingle();
+    if (error || !data) return;
+    const row = data as WorkspaceSettingsRow;
+    cacheBaseCurrency(row.base_currency);
+    set({
+      baseCurrency: row.base_currency,
+      skuScheme: skuSchemeFromRow(row),
+      gs1: gs1FromRow(row),
+    });
+  },
+  setBaseCurrency: async (currency) => {
+    // select + single: an update blocked by RLS matches no row and surfaces as an error
+    const { error } = await supabase
+      .from('workspace_settings')
+      .update({ base_currency: currency, updated_by: getUserIdForDb() })
+      .eq('id', true)
+      .select('base_currency')
+      .single();
+    if (error) return error.message;
+    cacheBaseCurrency(currency);
+    set({ baseCurrency: currency });
+    return null;
+  },
+  setSkuSettings: async (scheme, gs1) => {
+    const { data, error } = await supabase
+      .from('workspace_settings')
+      .update({
+        sku_segments: scheme.segments,
+        sku_number_digits: scheme.numberDigits,
+        gs1_company_prefix: gs1.companyPrefix,
+        gs1_range_start: gs1.rangeStart,
+        gs1_range_end: gs1.rangeEnd,
+        updated_by: getUserIdForDb(),
+      })
+      .eq('id', true)
+      .select('*')
+      .single();
+    if (error) return error.message;
+    const row = data as WorkspaceSettingsRow;
+    set({
+      skuScheme: skuSchemeFromRow(row),
+      gs1: gs1FromRow(row),
+    });
+    return null;
+  },
+}));
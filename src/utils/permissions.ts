@@ -22,7 +22,7 @@ export const ROUTE_PERMISSIONS: Record<string, Role[]> = {
   '/business/costing': ['founder', 'engineer', 'viewer'],
   '/business/suppliers': ['founder', 'engineer', 'viewer'],
   '/business/accounting': ['founder', 'engineer'],
-  '/communication/chat': ['founder', 'engineer', 'viewer'],
+  '/communication/chat': ['founder', 'engineer', 'viewer', 'client', 'host'],
   '/communication/comments': ['founder', 'engineer', 'viewer'],
   '/settings/account': ['founder', 'engineer', 'viewer', 'client', 'host'],
   '/settings/security': ['founder', 'engineer', 'viewer', 'client', 'host'],
@@ -21,5 +21,6 @@ interface Window {
     installUpdate: () => Promise<void>;
     getAppVersion: () => Promise<string>;
     onUpdateStatus: (callback: (status: string, info?: Record<string, unknown>) => void) => () => void;
+    exportPdf?: (html: string, fileName: string) => Promise<{ status: 'ok' | 'canceled' | 'error'; path?: string; message?: string }>;
   };
 }
@@ -0,0 +1,14 @@
+-- Size run + grading table
+-- products.size_run: ordered list of sizes (e.g. {34,36,38,40,42,44} or {XS,S,M,L,XL})
+-- products.size_ratio: planned units per size, used for the weighted average cost ({"S": 2, "M": 3})
+-- *_by_size: per-size consumption overriding consumption_amount / quantity ({"34": 2.1, "44": 2.6})
+ALTER TABLE public.products
+  ADD COLUMN IF NOT EXISTS size_run TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS size_ratio JSONB NOT NULL DEFAULT '{}';
+
+ALTER TABLE public.product_materials
+  ADD COLUMN IF NOT EXISTS consumption_by_size JSONB NOT NULL DEFAULT '{}';
+
+ALTER TABLE public.product_components
+  ADD COLUMN IF NOT EXISTS quantity_by_size JSONB NOT NULL DEFAULT '{}';
+
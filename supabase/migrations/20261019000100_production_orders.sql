@@ -0,0 +1,43 @@
+-- Production orders: a planned production run of one product at a factory
+-- quantity_by_size: units per size of the product's size run ({"S": 20, "M": 40})
+-- quantity: total units (sum of quantity_by_size, or entered directly when the product has no size run)
+CREATE TABLE IF NOT EXISTS public.production_orders (
+  id                UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  product_id        UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  factory_id        UUID REFERENCES public.suppliers(id) ON DELETE SET NULL,
+  status            TEXT NOT NULL DEFAULT 'planned'
+                    CHECK (status IN ('planned', 'confirmed', 'in_production', 'completed', 'canceled')),
+  quantity          INTEGER NOT NULL DEFAULT 0,
+  quantity_by_size  JSONB NOT NULL DEFAULT '{}',
+  start_date        DATE,
+  target_date       DATE,
+  notes             TEXT,
+  created_by        UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at        TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at        TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_production_orders_product ON public.production_orders(product_id);
+CREATE INDEX IF NOT EXISTS idx_production_orders_factory ON public.production_orders(factory_id);
+
+ALTER TABLE public.production_orders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read production_orders"
+  ON public.production_orders FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Users can insert production_orders"
+  ON public.production_orders FOR INSERT
+  WITH CHECK (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Users can update production_orders"
+  ON public.production_orders FOR UPDATE
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Founders can delete production_orders"
+  ON public.production_orders FOR DELETE
+  USING (public.can_delete_rls());
+
+CREATE TRIGGER trg_production_orders_updated_at
+  BEFORE UPDATE ON public.production_orders
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
@@ -0,0 +1,79 @@
+-- Inventory ledger for materials and components
+-- Every stock change is a movement with a signed quantity (receipts +, consumption/returns −, adjustments ±).
+-- materials.stock_qty / components.stock_qty become a cache of SUM(quantity), maintained by trigger.
+-- The cache gets the ledger's precision, so it always equals the sum of the movements.
+ALTER TABLE public.materials ALTER COLUMN stock_qty TYPE NUMERIC(12, 3);
+ALTER TABLE public.components ALTER COLUMN stock_qty TYPE NUMERIC(12, 3);
+
+CREATE TABLE IF NOT EXISTS public.stock_movements (
+  id                   UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  material_id          UUID REFERENCES public.materials(id) ON DELETE CASCADE,
+  component_id         UUID REFERENCES public.components(id) ON DELETE CASCADE,
+  movement_type        TEXT NOT NULL
+                       CHECK (movement_type IN ('receipt', 'consumption_sample', 'consumption_production', 'adjustment', 'return')),
+  quantity             NUMERIC(12, 3) NOT NULL,
+  reason               TEXT,
+  accounting_order_id  UUID REFERENCES public.accounting_orders(id) ON DELETE SET NULL,
+  production_order_id  UUID REFERENCES public.production_orders(id) ON DELETE SET NULL,
+  product_id           UUID REFERENCES public.products(id) ON DELETE SET NULL,
+  created_by           UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at           TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT stock_movements_one_item CHECK ((material_id IS NULL) <> (component_id IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_movements_material ON public.stock_movements(material_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_stock_movements_component ON public.stock_movements(component_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_stock_movements_accounting_order ON public.stock_movements(accounting_order_id);
+
+ALTER TABLE public.stock_movements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read stock_movements"
+  ON public.stock_movements FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Users can insert stock_movements"
+  ON public.stock_movements FOR INSERT
+  WITH CHECK (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Founders can delete stock_movements"
+  ON public.stock_movements FOR DELETE
+  USING (public.can_delete_rls());
+
+-- Recompute the cached on-hand quantity from the ledger
+CREATE OR REPLACE FUNCTION public.sync_stock_qty()
+RETURNS TRIGGER AS $$
+DECLARE
+  r RECORD;
+BEGIN
+  r := COALESCE(NEW, OLD);
+  IF r.material_id IS NOT NULL THEN
+    UPDATE public.materials
+      SET stock_qty = COALESCE((SELECT SUM(quantity) FROM public.stock_movements WHERE material_id = r.material_id), 0)
+      WHERE id = r.material_id;
+  END IF;
+  IF r.component_id IS NOT NULL THEN
+    UPDATE public.components
+      SET stock_qty = COALESCE((SELECT SUM(quantity) FROM public.stock_movements WHERE component_id = r.component_id), 0)
+      WHERE id = r.component_id;
+  END IF;
+  RETURN r;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trg_stock_movements_sync ON public.stock_movements;
+CREATE TRIGGER trg_stock_movements_sync
+  AFTER INSERT OR DELETE ON public.stock_movements
+  FOR EACH ROW EXECUTE FUNCTION public.sync_stock_qty();
+
+-- Opening balances so the ledger matches current stock
+INSERT INTO public.stock_movements (material_id, movement_type, quantity, reason)
+  SELECT id, 'adjustment', stock_qty, 'Opening balance'
+  FROM public.materials
+  WHERE stock_qty <> 0;
+
+INSERT INTO public.stock_movements (component_id, movement_type, quantity, reason)
+  SELECT id, 'adjustment', stock_qty, 'Opening balance'
+  FROM public.components
+  WHERE stock_qty <> 0;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.stock_movements;
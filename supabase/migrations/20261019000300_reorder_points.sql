@@ -0,0 +1,16 @@
+-- Low-stock thresholds for materials and components
+-- reorder_point: alert when stock_qty drops to or below this level (NULL = not tracked)
+-- reorder_qty: preferred quantity to order from the supplier
+-- low_stock_notified_at: set when founders were alerted, cleared once stock recovers (one alert per dip)
+ALTER TABLE public.materials
+  ADD COLUMN IF NOT EXISTS reorder_point NUMERIC(12, 3),
+  ADD COLUMN IF NOT EXISTS reorder_qty NUMERIC(12, 3),
+  ADD COLUMN IF NOT EXISTS low_stock_notified_at TIMESTAMPTZ;
+
+ALTER TABLE public.components
+  ADD COLUMN IF NOT EXISTS reorder_point NUMERIC(12, 3),
+  ADD COLUMN IF NOT EXISTS reorder_qty NUMERIC(12, 3),
+  ADD COLUMN IF NOT EXISTS low_stock_notified_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_materials_reorder ON public.materials(supplier_id) WHERE reorder_point IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_components_reorder ON public.components(supplier_id) WHERE reorder_point IS NOT NULL;
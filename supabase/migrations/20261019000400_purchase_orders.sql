@@ -0,0 +1,74 @@
+-- Purchase orders drafted from BOM shortfalls (one PO per supplier)
+-- Lifecycle: draft → approved (creates an accounting_orders row with status 'ordered') | canceled
+CREATE TABLE IF NOT EXISTS public.purchase_orders (
+  id                   UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  po_number            INTEGER GENERATED ALWAYS AS IDENTITY,
+  supplier_id          UUID REFERENCES public.suppliers(id) ON DELETE SET NULL,
+  status               TEXT NOT NULL DEFAULT 'draft'
+                       CHECK (status IN ('draft', 'approved', 'canceled')),
+  currency             TEXT NOT NULL DEFAULT 'EUR',
+  notes                TEXT,
+  accounting_order_id  UUID REFERENCES public.accounting_orders(id) ON DELETE SET NULL,
+  approved_at          TIMESTAMPTZ,
+  created_by           UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at           TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at           TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.purchase_order_items (
+  id                 UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  purchase_order_id  UUID NOT NULL REFERENCES public.purchase_orders(id) ON DELETE CASCADE,
+  material_id        UUID REFERENCES public.materials(id) ON DELETE SET NULL,
+  component_id       UUID REFERENCES public.components(id) ON DELETE SET NULL,
+  description        TEXT NOT NULL,
+  unit               TEXT NOT NULL DEFAULT 'pcs',
+  quantity           NUMERIC(12, 3) NOT NULL DEFAULT 0,
+  unit_price         NUMERIC(12, 4) NOT NULL DEFAULT 0,
+  sort_order         INTEGER NOT NULL DEFAULT 0,
+  created_at         TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_supplier ON public.purchase_orders(supplier_id);
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_status ON public.purchase_orders(status);
+CREATE INDEX IF NOT EXISTS idx_purchase_order_items_po ON public.purchase_order_items(purchase_order_id, sort_order);
+
+ALTER TABLE public.purchase_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.purchase_order_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read purchase_orders"
+  ON public.purchase_orders FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Users can insert purchase_orders"
+  ON public.purchase_orders FOR INSERT
+  WITH CHECK (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Users can update purchase_orders"
+  ON public.purchase_orders FOR UPDATE
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Founders can delete purchase_orders"
+  ON public.purchase_orders FOR DELETE
+  USING (public.can_delete_rls());
+
+CREATE POLICY "Users can read purchase_order_items"
+  ON public.purchase_order_items FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Users can insert purchase_order_items"
+  ON public.purchase_order_items FOR INSERT
+  WITH CHECK (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Users can update purchase_order_items"
+  ON public.purchase_order_items FOR UPDATE
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Users can delete purchase_order_items"
+  ON public.purchase_order_items FOR DELETE
+  USING (auth.uid() IS NOT NULL);
+
+CREATE TRIGGER trg_purchase_orders_updated_at
+  BEFORE UPDATE ON public.purchase_orders
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.purchase_orders;
@@ -0,0 +1,65 @@
+-- Line items on accounting orders (material, component or free text)
+-- quantity × unit_price is the net amount; vat_rate is a percentage.
+-- When an order has items, accounting_orders.order_value is kept at the gross total by trigger;
+-- orders without items keep their manually entered value.
+CREATE TABLE IF NOT EXISTS public.accounting_order_items (
+  id                   UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  accounting_order_id  UUID NOT NULL REFERENCES public.accounting_orders(id) ON DELETE CASCADE,
+  material_id          UUID REFERENCES public.materials(id) ON DELETE SET NULL,
+  component_id         UUID REFERENCES public.components(id) ON DELETE SET NULL,
+  description          TEXT NOT NULL,
+  unit                 TEXT NOT NULL DEFAULT 'pcs',
+  quantity             NUMERIC(12, 3) NOT NULL DEFAULT 1,
+  unit_price           NUMERIC(12, 4) NOT NULL DEFAULT 0,
+  vat_rate             NUMERIC(5, 2) NOT NULL DEFAULT 0 CHECK (vat_rate >= 0),
+  sort_order           INTEGER NOT NULL DEFAULT 0,
+  created_at           TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT accounting_order_items_one_ref CHECK (material_id IS NULL OR component_id IS NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_accounting_order_items_order ON public.accounting_order_items(accounting_order_id, sort_order);
+CREATE INDEX IF NOT EXISTS idx_accounting_order_items_material ON public.accounting_order_items(material_id) WHERE material_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_accounting_order_items_component ON public.accounting_order_items(component_id) WHERE component_id IS NOT NULL;
+
+ALTER TABLE public.accounting_order_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read accounting_order_items"
+  ON public.accounting_order_items FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Users can insert accounting_order_items"
+  ON public.accounting_order_items FOR INSERT
+  WITH CHECK (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Users can update accounting_order_items"
+  ON public.accounting_order_items FOR UPDATE
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Users can delete accounting_order_items"
+  ON public.accounting_order_items FOR DELETE
+  USING (auth.uid() IS NOT NULL);
+
+-- Recompute the order's gross value from its items
+CREATE OR REPLACE FUNCTION public.sync_accounting_order_value()
+RETURNS TRIGGER AS $$
+DECLARE
+  r RECORD;
+BEGIN
+  r := COALESCE(NEW, OLD);
+  IF EXISTS (SELECT 1 FROM public.accounting_order_items WHERE accounting_order_id = r.accounting_order_id) THEN
+    UPDATE public.accounting_orders
+      SET order_value = (
+        SELECT ROUND(SUM(quantity * unit_price * (1 + vat_rate / 100)), 2)
+        FROM public.accounting_order_items
+        WHERE accounting_order_id = r.accounting_order_id
+      )
+      WHERE id = r.accounting_order_id;
+  END IF;
+  RETURN r;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trg_accounting_order_items_sync ON public.accounting_order_items;
+CREATE TRIGGER trg_accounting_order_items_sync
+  AFTER INSERT OR UPDATE OR DELETE ON public.accounting_order_items
+  FOR EACH ROW EXECUTE FUNCTION public.sync_accounting_order_value();
@@ -0,0 +1,38 @@
+-- Historical exchange rates: CZK per 1 unit of `currency`, one row per day.
+-- Filled from Frankfurter when the app is online, or from a CSV import for backfilling.
+CREATE TABLE IF NOT EXISTS public.exchange_rates (
+  rate_date   DATE NOT NULL,
+  currency    TEXT NOT NULL CHECK (currency ~ '^[A-Z]{3}$' AND currency <> 'CZK'),
+  rate        NUMERIC(14, 6) NOT NULL CHECK (rate > 0),
+  source      TEXT NOT NULL DEFAULT 'frankfurter' CHECK (source IN ('frankfurter', 'import')),
+  created_at  TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (rate_date, currency)
+);
+
+CREATE INDEX IF NOT EXISTS idx_exchange_rates_currency_date ON public.exchange_rates(currency, rate_date DESC);
+
+ALTER TABLE public.exchange_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read exchange_rates"
+  ON public.exchange_rates FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Users can insert exchange_rates"
+  ON public.exchange_rates FOR INSERT
+  WITH CHECK (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Users can update exchange_rates"
+  ON public.exchange_rates FOR UPDATE
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Founders can delete exchange_rates"
+  ON public.exchange_rates FOR DELETE
+  USING (public.can_delete_rls());
+
+-- Accounting orders: allow the additional currencies (GBP, CHF, PLN)
+ALTER TABLE public.accounting_orders
+  DROP CONSTRAINT IF EXISTS accounting_orders_order_currency_check;
+
+ALTER TABLE public.accounting_orders
+  ADD CONSTRAINT accounting_orders_order_currency_check
+  CHECK (order_currency IN ('CZK', 'EUR', 'USD', 'GBP', 'CHF', 'PLN'));
@@ -0,0 +1,29 @@
+-- Workspace-level settings (single row). base_currency is the currency all summaries
+-- (costing totals, accounting overviews, inventory value) are converted into.
+CREATE TABLE IF NOT EXISTS public.workspace_settings (
+  id             BOOLEAN PRIMARY KEY DEFAULT TRUE CHECK (id),
+  base_currency  TEXT NOT NULL DEFAULT 'CZK'
+    CHECK (base_currency IN ('CZK', 'EUR', 'USD', 'GBP', 'CHF', 'PLN')),
+  updated_by     UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  updated_at     TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.workspace_settings (id) VALUES (TRUE) ON CONFLICT (id) DO NOTHING;
+
+CREATE TRIGGER trg_workspace_settings_updated_at
+  BEFORE UPDATE ON public.workspace_settings
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+ALTER TABLE public.workspace_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read workspace_settings"
+  ON public.workspace_settings FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Founders can update workspace_settings"
+  ON public.workspace_settings FOR UPDATE
+  USING (public.is_founder());
+
+-- Labor and overhead were implicitly CZK; make the currency explicit per product
+ALTER TABLE public.products
+  ADD COLUMN IF NOT EXISTS labor_overhead_currency TEXT NOT NULL DEFAULT 'CZK';
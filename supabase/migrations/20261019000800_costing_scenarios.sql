@@ -0,0 +1,44 @@
+-- Costing scenarios ("what if"): overrides of material prices, exchange rates, labor,
+-- overhead and markup – globally or per product. A snapshot freezes the computed
+-- comparison (current vs scenario) so the costing behind a price decision is kept.
+CREATE TABLE IF NOT EXISTS public.costing_scenarios (
+  id              UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name            TEXT NOT NULL,
+  description     TEXT,
+  -- { global, products, material_prices, fx_rates } – see src/lib/costingScenarios.ts
+  overrides       JSONB NOT NULL DEFAULT '{}'::jsonb,
+  -- frozen comparison rows; NULL for live scenarios
+  snapshot        JSONB,
+  snapshot_of     UUID REFERENCES public.costing_scenarios(id) ON DELETE SET NULL,
+  snapshotted_at  TIMESTAMPTZ,
+  created_by      UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at      TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at      TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_costing_scenarios_created ON public.costing_scenarios(created_at DESC);
+
+CREATE TRIGGER trg_costing_scenarios_updated_at
+  BEFORE UPDATE ON public.costing_scenarios
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+ALTER TABLE public.costing_scenarios ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read costing_scenarios"
+  ON public.costing_scenarios FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Users can insert costing_scenarios"
+  ON public.costing_scenarios FOR INSERT
+  WITH CHECK (auth.uid() IS NOT NULL);
+
+-- snapshots are frozen
+CREATE POLICY "Users can update costing_scenarios"
+  ON public.costing_scenarios FOR UPDATE
+  USING (auth.uid() IS NOT NULL AND snapshot IS NULL);
+
+CREATE POLICY "Founders can delete costing_scenarios"
+  ON public.costing_scenarios FOR DELETE
+  USING (public.can_delete_rls());
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.costing_scenarios;
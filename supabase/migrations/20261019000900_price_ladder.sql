@@ -0,0 +1,91 @@
+-- Price ladder: cost → wholesale → recommended retail incl. VAT, per sales market.
+-- Wholesale = COGS × products.wholesale_markup (converted into the market currency),
+-- retail net = wholesale × sales_markets.retail_markup, retail gross = net × (1 + VAT),
+-- then rounded up to the market's price ending (e.g. step 100, ending 90 → 1 290).
+ALTER TABLE public.products
+  ADD COLUMN IF NOT EXISTS wholesale_markup NUMERIC(6,2) NOT NULL DEFAULT 2.0;
+
+CREATE TABLE IF NOT EXISTS public.sales_markets (
+  id               UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name             TEXT NOT NULL,
+  currency         TEXT NOT NULL DEFAULT 'CZK'
+    CHECK (currency IN ('CZK', 'EUR', 'USD', 'GBP', 'CHF', 'PLN')),
+  vat_rate         NUMERIC(5,2) NOT NULL DEFAULT 21 CHECK (vat_rate >= 0),
+  -- retailer markup on the wholesale price (net of VAT)
+  retail_markup    NUMERIC(6,2) NOT NULL DEFAULT 2.5 CHECK (retail_markup > 0),
+  -- 0 = no rounding; otherwise retail gross is rounded up to k × step + ending
+  rounding_step    NUMERIC(10,2) NOT NULL DEFAULT 0 CHECK (rounding_step >= 0),
+  rounding_ending  NUMERIC(10,2) NOT NULL DEFAULT 0 CHECK (rounding_ending >= 0),
+  sort_order       INTEGER NOT NULL DEFAULT 0,
+  created_at       TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at       TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TRIGGER trg_sales_markets_updated_at
+  BEFORE UPDATE ON public.sales_markets
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+ALTER TABLE public.sales_markets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read sales_markets"
+  ON public.sales_markets FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Users can insert sales_markets"
+  ON public.sales_markets FOR INSERT
+  WITH CHECK (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Users can update sales_markets"
+  ON public.sales_markets FOR UPDATE
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Founders can delete sales_markets"
+  ON public.sales_markets FOR DELETE
+  USING (public.can_delete_rls());
+
+INSERT INTO public.sales_markets (name, currency, vat_rate, retail_markup, rounding_step, rounding_ending, sort_order)
+SELECT * FROM (VALUES
+  ('Czech Republic', 'CZK', 21, 2.5, 100, 90, 0),
+  ('Eurozone', 'EUR', 21, 2.5, 10, 9, 1)
+) AS v(name, currency, vat_rate, retail_markup, rounding_step, rounding_ending, sort_order)
+WHERE NOT EXISTS (SELECT 1 FROM public.sales_markets);
+
+-- Fixed prices per product and market; NULL = use the computed ladder value
+CREATE TABLE IF NOT EXISTS public.product_prices (
+  id               UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  product_id       UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  market_id        UUID NOT NULL REFERENCES public.sales_markets(id) ON DELETE CASCADE,
+  wholesale_price  NUMERIC(12,2) CHECK (wholesale_price >= 0),
+  -- incl. VAT, used as is (no rounding)
+  retail_price     NUMERIC(12,2) CHECK (retail_price >= 0),
+  created_at       TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at       TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (product_id, market_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_prices_product ON public.product_prices(product_id);
+
+CREATE TRIGGER trg_product_prices_updated_at
+  BEFORE UPDATE ON public.product_prices
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+ALTER TABLE public.product_prices ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read product_prices"
+  ON public.product_prices FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Users can insert product_prices"
+  ON public.product_prices FOR INSERT
+  WITH CHECK (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Users can update product_prices"
+  ON public.product_prices FOR UPDATE
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Founders can delete product_prices"
+  ON public.product_prices FOR DELETE
+  USING (public.can_delete_rls());
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.sales_markets;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.product_prices;
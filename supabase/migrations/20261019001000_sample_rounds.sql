@@ -0,0 +1,54 @@
+-- Sample rounds per product (proto 1, proto 2, fit, SMS, PPS, TOP …). Each round tracks
+-- the factory, when the tech pack went out and the sample came back, the sample cost,
+-- the fit session, photos, measured-vs-spec values and the verdict.
+CREATE TABLE IF NOT EXISTS public.sample_rounds (
+  id                 UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  product_id         UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  stage              TEXT NOT NULL DEFAULT 'proto'
+    CHECK (stage IN ('proto', 'fit', 'sms', 'pps', 'top')),
+  round_number       INTEGER NOT NULL DEFAULT 1 CHECK (round_number > 0),
+  factory_id         UUID REFERENCES public.suppliers(id) ON DELETE SET NULL,
+  sent_at            DATE,
+  received_at        DATE,
+  cost               NUMERIC(12,2),
+  cost_currency      TEXT NOT NULL DEFAULT 'EUR',
+  fit_date           DATE,
+  fit_notes          TEXT,
+  -- [{ url, caption? }]
+  photos             JSONB NOT NULL DEFAULT '[]'::jsonb,
+  -- [{ point, spec, measured, tolerance }] in cm
+  measurements       JSONB NOT NULL DEFAULT '[]'::jsonb,
+  verdict            TEXT NOT NULL DEFAULT 'pending'
+    CHECK (verdict IN ('pending', 'approved', 'revise', 'rejected')),
+  verdict_notes      TEXT,
+  created_by         UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at         TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at         TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (product_id, stage, round_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_sample_rounds_product ON public.sample_rounds(product_id);
+
+CREATE TRIGGER trg_sample_rounds_updated_at
+  BEFORE UPDATE ON public.sample_rounds
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+ALTER TABLE public.sample_rounds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read sample_rounds"
+  ON public.sample_rounds FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Users can insert sample_rounds"
+  ON public.sample_rounds FOR INSERT
+  WITH CHECK (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Users can update sample_rounds"
+  ON public.sample_rounds FOR UPDATE
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Founders can delete sample_rounds"
+  ON public.sample_rounds FOR DELETE
+  USING (public.can_delete_rls());
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.sample_rounds;
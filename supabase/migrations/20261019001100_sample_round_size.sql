@@ -0,0 +1,4 @@
+-- Size a sample was made in. Sample measurements are checked against the product's
+-- points-of-measure chart (products.tech_pack.points_of_measure) for this size.
+ALTER TABLE public.sample_rounds
+  ADD COLUMN IF NOT EXISTS sample_size TEXT;
@@ -0,0 +1,65 @@
+-- Version history of products. Every save records a snapshot of the product row
+-- (incl. tech_pack and description) plus its material / label / component links.
+-- A version can be issued to a factory as a numbered tech-pack revision (Rev A, Rev B …);
+-- issued versions are frozen.
+CREATE TABLE IF NOT EXISTS public.product_versions (
+  id               UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  product_id       UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  version_number   INTEGER NOT NULL CHECK (version_number > 0),
+  snapshot         JSONB NOT NULL,
+  revision         TEXT,
+  issued_at        TIMESTAMPTZ,
+  issued_to        UUID REFERENCES public.suppliers(id) ON DELETE SET NULL,
+  issue_note       TEXT,
+  created_by       UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at       TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at       TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (product_id, version_number),
+  CHECK ((revision IS NULL) = (issued_at IS NULL))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_product_versions_revision
+  ON public.product_versions(product_id, revision)
+  WHERE revision IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_product_versions_product
+  ON public.product_versions(product_id, version_number DESC);
+
+CREATE TRIGGER trg_product_versions_updated_at
+  BEFORE UPDATE ON public.product_versions
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+-- Issued revisions are frozen: no snapshot changes, no re-issuing
+CREATE OR REPLACE FUNCTION public.product_versions_freeze_issued()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.issued_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Issued revision % cannot be changed', OLD.revision;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trg_product_versions_freeze_issued
+  BEFORE UPDATE ON public.product_versions
+  FOR EACH ROW EXECUTE FUNCTION public.product_versions_freeze_issued();
+
+ALTER TABLE public.product_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read product_versions"
+  ON public.product_versions FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Users can insert product_versions"
+  ON public.product_versions FOR INSERT
+  WITH CHECK (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Users can update product_versions"
+  ON public.product_versions FOR UPDATE
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Founders can delete product_versions"
+  ON public.product_versions FOR DELETE
+  USING (public.can_delete_rls());
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.product_versions;
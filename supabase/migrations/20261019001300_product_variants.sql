@@ -0,0 +1,81 @@
+-- Product variants (colorways). Each variant has a name, color code, swatch image and
+-- a SKU suffix. Material / component / label links with a variant_id override the base
+-- links (variant_id IS NULL) of the same slot for that variant:
+--   materials → same role, components → same component type, labels → same label type.
+CREATE TABLE IF NOT EXISTS public.product_variants (
+  id           UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  product_id   UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  name         TEXT NOT NULL,
+  color_code   TEXT,
+  swatch_url   TEXT,
+  sku_suffix   TEXT,
+  sort_order   INTEGER NOT NULL DEFAULT 0,
+  created_at   TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at   TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_product_variants_sku_suffix
+  ON public.product_variants(product_id, upper(sku_suffix))
+  WHERE sku_suffix IS NOT NULL AND sku_suffix <> '';
+
+CREATE INDEX IF NOT EXISTS idx_product_variants_product
+  ON public.product_variants(product_id, sort_order);
+
+CREATE TRIGGER trg_product_variants_updated_at
+  BEFORE UPDATE ON public.product_variants
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+ALTER TABLE public.product_variants ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read product_variants"
+  ON public.product_variants FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Users can insert product_variants"
+  ON public.product_variants FOR INSERT
+  WITH CHECK (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Users can update product_variants"
+  ON public.product_variants FOR UPDATE
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Founders can delete product_variants"
+  ON public.product_variants FOR DELETE
+  USING (public.can_delete_rls());
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.product_variants;
+
+-- Variant overrides on the BOM junctions (NULL = base, used by every variant)
+ALTER TABLE public.product_materials
+  ADD COLUMN IF NOT EXISTS variant_id UUID REFERENCES public.product_variants(id) ON DELETE CASCADE;
+ALTER TABLE public.product_components
+  ADD COLUMN IF NOT EXISTS variant_id UUID REFERENCES public.product_variants(id) ON DELETE CASCADE;
+ALTER TABLE public.product_labels
+  ADD COLUMN IF NOT EXISTS variant_id UUID REFERENCES public.product_variants(id) ON DELETE CASCADE;
+
+-- Material "versions" (variant '2', '3' …) become variants overriding the base materials
+INSERT INTO public.product_variants (product_id, name, sort_order)
+SELECT DISTINCT pm.product_id, 'Version ' || pm.variant, COALESCE(NULLIF(regexp_replace(pm.variant, '\D', '', 'g'), '')::INTEGER, 0)
+FROM public.product_materials pm
+WHERE pm.variant IS NOT NULL AND pm.variant <> '1';
+
+UPDATE public.product_materials pm
+SET variant_id = pv.id
+FROM public.product_variants pv
+WHERE pv.product_id = pm.product_id
+  AND pm.variant IS NOT NULL AND pm.variant <> '1'
+  AND pv.name = 'Version ' || pm.variant;
+
+DROP INDEX IF EXISTS public.product_materials_product_material_role_variant_key;
+ALTER TABLE public.product_materials DROP COLUMN IF EXISTS variant;
+
+CREATE UNIQUE INDEX IF NOT EXISTS product_materials_product_material_role_variant_key
+  ON public.product_materials (product_id, material_id, role, COALESCE(variant_id, '00000000-0000-0000-0000-000000000000'::UUID));
+
+ALTER TABLE public.product_components DROP CONSTRAINT IF EXISTS product_components_product_id_component_id_key;
+CREATE UNIQUE INDEX IF NOT EXISTS product_components_product_component_variant_key
+  ON public.product_components (product_id, component_id, COALESCE(variant_id, '00000000-0000-0000-0000-000000000000'::UUID));
+
+ALTER TABLE public.product_labels DROP CONSTRAINT IF EXISTS product_labels_product_id_label_id_key;
+CREATE UNIQUE INDEX IF NOT EXISTS product_labels_product_label_variant_key
+  ON public.product_labels (product_id, label_id, COALESCE(variant_id, '00000000-0000-0000-0000-000000000000'::UUID));
@@ -0,0 +1,118 @@
+-- SKU scheme and GS1 EAN-13 barcodes.
+-- Product SKUs are generated from the workspace scheme: an ordered list of segments
+-- (season code, category code, running number) joined by '-'. Variant colorway suffix
+-- and size are appended per sellable unit (see product_variants).
+-- EAN-13 codes are allocated from the company prefix range: prefix + item reference
+-- (zero-padded to 12 digits) + check digit. Allocation is monotonic, so numbers of
+-- deleted units are not reused.
+ALTER TABLE public.workspace_settings
+  ADD COLUMN IF NOT EXISTS sku_segments TEXT[] NOT NULL DEFAULT ARRAY['season', 'category', 'number']
+    CHECK (sku_segments <@ ARRAY['season', 'category', 'number']),
+  ADD COLUMN IF NOT EXISTS sku_number_digits INTEGER NOT NULL DEFAULT 4
+    CHECK (sku_number_digits BETWEEN 2 AND 8),
+  ADD COLUMN IF NOT EXISTS gs1_company_prefix TEXT
+    CHECK (gs1_company_prefix ~ '^\d{6,11}$'),
+  ADD COLUMN IF NOT EXISTS gs1_range_start BIGINT CHECK (gs1_range_start >= 0),
+  ADD COLUMN IF NOT EXISTS gs1_range_end BIGINT CHECK (gs1_range_end >= 0),
+  ADD COLUMN IF NOT EXISTS gs1_next_item_ref BIGINT;
+
+-- Category code used by the SKU scheme (NULL → first three letters of the name)
+ALTER TABLE public.product_categories
+  ADD COLUMN IF NOT EXISTS sku_code TEXT;
+
+-- Running number of the product within the SKU scheme
+ALTER TABLE public.products
+  ADD COLUMN IF NOT EXISTS sku_number INTEGER;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_products_sku_number
+  ON public.products(sku_number)
+  WHERE sku_number IS NOT NULL;
+
+-- ── EAN-13 helpers ────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.gs1_check_digit(body TEXT)
+RETURNS TEXT AS $$
+  -- Weights 1, 3, 1, 3 … from the left for a 12-digit body
+  SELECT ((10 - (SUM(substr(body, i, 1)::INTEGER * CASE WHEN i % 2 = 0 THEN 3 ELSE 1 END) % 10)) % 10)::TEXT
+  FROM generate_series(1, 12) AS i;
+$$ LANGUAGE sql IMMUTABLE STRICT;
+
+CREATE OR REPLACE FUNCTION public.is_valid_ean13(code TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT code ~ '^\d{13}$' AND right(code, 1) = public.gs1_check_digit(left(code, 12));
+$$ LANGUAGE sql IMMUTABLE STRICT;
+
+-- ── Barcodes per sellable unit (product × variant × size) ─────
+CREATE TABLE IF NOT EXISTS public.product_barcodes (
+  id           UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  product_id   UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  variant_id   UUID REFERENCES public.product_variants(id) ON DELETE CASCADE,
+  size         TEXT,
+  ean          TEXT NOT NULL UNIQUE CHECK (public.is_valid_ean13(ean)),
+  created_by   UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at   TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS product_barcodes_unit_key
+  ON public.product_barcodes (
+    product_id,
+    COALESCE(variant_id, '00000000-0000-0000-0000-000000000000'::UUID),
+    COALESCE(size, '')
+  );
+
+ALTER TABLE public.product_barcodes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read product_barcodes"
+  ON public.product_barcodes FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Users can insert product_barcodes"
+  ON public.product_barcodes FOR INSERT
+  WITH CHECK (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Founders can delete product_barcodes"
+  ON public.product_barcodes FOR DELETE
+  USING (public.can_delete_rls());
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.product_barcodes;
+
+-- Reserve the next p_count free EAN-13 codes of the company range. Runs as definer so
+-- any signed-in user can advance the counter on the founder-only settings row; the row
+-- lock serialises concurrent allocations.
+CREATE OR REPLACE FUNCTION public.allocate_eans(p_count INTEGER)
+RETURNS TEXT[] AS $$
+DECLARE
+  s       public.workspace_settings%ROWTYPE;
+  ref     BIGINT;
+  body    TEXT;
+  code    TEXT;
+  codes   TEXT[] := ARRAY[]::TEXT[];
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO s FROM public.workspace_settings WHERE id FOR UPDATE;
+  IF s.gs1_company_prefix IS NULL OR s.gs1_range_start IS NULL OR s.gs1_range_end IS NULL THEN
+    RAISE EXCEPTION 'GS1 company prefix and range are not configured';
+  END IF;
+  IF s.gs1_range_end >= power(10, 12 - length(s.gs1_company_prefix)) THEN
+    RAISE EXCEPTION 'GS1 range does not fit the company prefix';
+  END IF;
+
+  ref := GREATEST(COALESCE(s.gs1_next_item_ref, s.gs1_range_start), s.gs1_range_start);
+  WHILE COALESCE(array_length(codes, 1), 0) < p_count LOOP
+    IF ref > s.gs1_range_end THEN
+      RAISE EXCEPTION 'GS1 range exhausted';
+    END IF;
+    body := s.gs1_company_prefix || lpad(ref::TEXT, 12 - length(s.gs1_company_prefix), '0');
+    code := body || public.gs1_check_digit(body);
+    IF NOT EXISTS (SELECT 1 FROM public.product_barcodes WHERE ean = code) THEN
+      codes := codes || code;
+    END IF;
+    ref := ref + 1;
+  END LOOP;
+
+  UPDATE public.workspace_settings SET gs1_next_item_ref = ref WHERE id;
+  RETURN codes;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
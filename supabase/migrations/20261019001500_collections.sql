@@ -0,0 +1,98 @@
+-- Seasons / collections as records with a line plan.
+--   drops            – delivery drops: [{ "name": "Drop 1", "date": "2026-09-01" }]
+--   category_targets – per product_categories name: { "coats": { "styles": 6, "target_price": 12900 } }
+--                      target prices are retail prices in budget_currency
+-- Products, moodboard items and ideas can be tagged to a collection.
+CREATE TABLE IF NOT EXISTS public.collections (
+  id                UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name              TEXT NOT NULL,
+  -- Season code used by the SKU scheme (e.g. AW26)
+  code              TEXT,
+  description       TEXT,
+  drops             JSONB NOT NULL DEFAULT '[]',
+  budget            NUMERIC(12,2),
+  budget_currency   TEXT NOT NULL DEFAULT 'CZK',
+  category_targets  JSONB NOT NULL DEFAULT '{}',
+  archived          BOOLEAN NOT NULL DEFAULT FALSE,
+  created_by        UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at        TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at        TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_collections_code
+  ON public.collections(upper(code))
+  WHERE code IS NOT NULL AND code <> '';
+
+CREATE TRIGGER trg_collections_updated_at
+  BEFORE UPDATE ON public.collections
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+ALTER TABLE public.collections ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read collections"
+  ON public.collections FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Users can insert collections"
+  ON public.collections FOR INSERT
+  WITH CHECK (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Users can update collections"
+  ON public.collections FOR UPDATE
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Founders can delete collections"
+  ON public.collections FOR DELETE
+  USING (public.can_delete_rls());
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.collections;
+
+ALTER TABLE public.products
+  ADD COLUMN IF NOT EXISTS collection_id UUID REFERENCES public.collections(id) ON DELETE SET NULL;
+ALTER TABLE public.moodboard_items
+  ADD COLUMN IF NOT EXISTS collection_id UUID REFERENCES public.collections(id) ON DELETE SET NULL;
+ALTER TABLE public.ideas
+  ADD COLUMN IF NOT EXISTS collection_id UUID REFERENCES public.collections(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_products_collection ON public.products(collection_id);
+CREATE INDEX IF NOT EXISTS idx_moodboard_items_collection ON public.moodboard_items(collection_id);
+CREATE INDEX IF NOT EXISTS idx_ideas_collection ON public.ideas(collection_id);
+
+-- The free-text season becomes a collection (its code is the season without spaces);
+-- seasons only found in version snapshots get one too, so restored versions keep it
+INSERT INTO public.collections (name, code)
+SELECT DISTINCT ON (upper(regexp_replace(trim(season), '\s+', '', 'g')))
+  trim(season), upper(regexp_replace(trim(season), '\s+', '', 'g'))
+FROM (
+  SELECT season FROM public.products
+  UNION ALL
+  SELECT snapshot->'product'->>'season' FROM public.product_versions
+) s
+WHERE season IS NOT NULL AND trim(season) <> '';
+
+UPDATE public.products p
+SET collection_id = c.id
+FROM public.collections c
+WHERE p.season IS NOT NULL
+  AND upper(regexp_replace(trim(p.season), '\s+', '', 'g')) = c.code;
+
+-- Snapshots name the collection instead of the dropped column (issued revisions included,
+-- the freeze guards changes by users, not this one-off rewrite)
+ALTER TABLE public.product_versions DISABLE TRIGGER trg_product_versions_freeze_issued;
+ALTER TABLE public.product_versions DISABLE TRIGGER trg_product_versions_updated_at;
+
+UPDATE public.product_versions v
+SET snapshot = jsonb_set(
+  v.snapshot,
+  '{product}',
+  (v.snapshot->'product' - 'season') || jsonb_build_object('collection_id', (
+    SELECT c.id FROM public.collections c
+    WHERE c.code = upper(regexp_replace(trim(v.snapshot->'product'->>'season'), '\s+', '', 'g'))
+  ))
+)
+WHERE v.snapshot->'product' ? 'season';
+
+ALTER TABLE public.product_versions ENABLE TRIGGER trg_product_versions_freeze_issued;
+ALTER TABLE public.product_versions ENABLE TRIGGER trg_product_versions_updated_at;
+
+ALTER TABLE public.products DROP COLUMN IF EXISTS season;
@@ -0,0 +1,48 @@
+-- Critical-path milestones per product (design freeze → sampling → SMS approval → bulk order → delivery).
+-- Milestone dates are derived in the app by scheduling back from the collection drop with the
+-- factory and material supplier lead times; a row only exists once a milestone is overridden,
+-- completed or has a task attached.
+--   due_date      – manual date (NULL = derived)
+--   completed_at  – manually marked done
+--   task_id       – task spawned from the milestone (tasks / task_assignees)
+CREATE TABLE IF NOT EXISTS public.product_milestones (
+  id            UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  product_id    UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  milestone     TEXT NOT NULL
+    CHECK (milestone IN ('design_freeze', 'sampling', 'sms_approval', 'bulk_order', 'delivery')),
+  due_date      DATE,
+  completed_at  DATE,
+  task_id       UUID REFERENCES public.tasks(id) ON DELETE SET NULL,
+  notes         TEXT,
+  created_by    UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at    TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at    TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (product_id, milestone)
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_milestones_product ON public.product_milestones(product_id);
+CREATE INDEX IF NOT EXISTS idx_product_milestones_task ON public.product_milestones(task_id) WHERE task_id IS NOT NULL;
+
+CREATE TRIGGER trg_product_milestones_updated_at
+  BEFORE UPDATE ON public.product_milestones
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+ALTER TABLE public.product_milestones ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read product_milestones"
+  ON public.product_milestones FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Users can insert product_milestones"
+  ON public.product_milestones FOR INSERT
+  WITH CHECK (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Users can update product_milestones"
+  ON public.product_milestones FOR UPDATE
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Founders can delete product_milestones"
+  ON public.product_milestones FOR DELETE
+  USING (public.can_delete_rls());
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.product_milestones;
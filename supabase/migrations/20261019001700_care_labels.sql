@@ -0,0 +1,6 @@
+-- Care label settings per product: ISO 3758 care symbols (one per group) and the languages the
+-- fibre content is printed in. The fibre content itself is generated in the app from the
+-- materials' composition_rows weighted by consumption.
+--   { "symbols": { "washing": "wash_30", "bleaching": "do_not_bleach", ... },
+--     "languages": ["en", "cs"] }
+ALTER TABLE public.products ADD COLUMN IF NOT EXISTS care_label JSONB;
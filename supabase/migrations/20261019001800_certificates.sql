@@ -0,0 +1,78 @@
+-- Certificates and test reports (GOTS, OEKO-TEX, REACH …) attached to a supplier or a material.
+--   kind             – certificate family, 'other' with a free-form name
+--   scope            – what the certificate covers (products, processes, sites)
+--   expires_at       – NULL = does not expire
+--   expiry_reminder  – last reminder sent to founders ('expiring' | 'expired'); cleared when
+--                      the expiry date changes so a renewed certificate is watched again
+CREATE TABLE IF NOT EXISTS public.certificates (
+  id                  UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  supplier_id         UUID REFERENCES public.suppliers(id) ON DELETE CASCADE,
+  material_id         UUID REFERENCES public.materials(id) ON DELETE CASCADE,
+  kind                TEXT NOT NULL DEFAULT 'other'
+    CHECK (kind IN ('gots', 'oeko_tex', 'grs', 'rcs', 'bluesign', 'fsc', 'rws', 'reach', 'test_report', 'other')),
+  name                TEXT,
+  certificate_number  TEXT,
+  issuer              TEXT,
+  scope               TEXT,
+  issued_at           DATE,
+  expires_at          DATE,
+  file_url            TEXT,
+  file_name           TEXT,
+  notes               TEXT,
+  expiry_reminder     TEXT CHECK (expiry_reminder IN ('expiring', 'expired')),
+  created_by          UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at          TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at          TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (num_nonnulls(supplier_id, material_id) = 1)
+);
+
+CREATE INDEX IF NOT EXISTS idx_certificates_supplier ON public.certificates(supplier_id) WHERE supplier_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_certificates_material ON public.certificates(material_id) WHERE material_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_certificates_expires ON public.certificates(expires_at) WHERE expires_at IS NOT NULL;
+
+CREATE TRIGGER trg_certificates_updated_at
+  BEFORE UPDATE ON public.certificates
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+ALTER TABLE public.certificates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read certificates"
+  ON public.certificates FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Users can insert certificates"
+  ON public.certificates FOR INSERT
+  WITH CHECK (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Users can update certificates"
+  ON public.certificates FOR UPDATE
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Founders can delete certificates"
+  ON public.certificates FOR DELETE
+  USING (public.can_delete_rls());
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.certificates;
+
+-- Certificate files (PDF scans, images)
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'certificates',
+  'certificates',
+  true,
+  20971520,
+  ARRAY['application/pdf', 'image/jpeg', 'image/png', 'image/webp']::text[]
+)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Allow authenticated uploads to certificates bucket"
+ON storage.objects FOR INSERT TO authenticated
+WITH CHECK (bucket_id = 'certificates');
+
+CREATE POLICY "Allow public read for certificates bucket"
+ON storage.objects FOR SELECT TO public
+USING (bucket_id = 'certificates');
+
+CREATE POLICY "Allow authenticated delete from certificates"
+ON storage.objects FOR DELETE TO authenticated
+USING (bucket_id = 'certificates');
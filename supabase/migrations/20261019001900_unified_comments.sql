@@ -0,0 +1,180 @@
+-- One comment subsystem for every commentable entity. Replaces product_comments,
+-- product_text_comments, product_gallery_comments, moodboard_comments, task_comments
+-- and moodboard_comment_reads.
+--   entity_type / entity_id – what the comment belongs to (no FK; cleaned up by trigger below)
+--   anchor_type / anchor    – optional position inside the entity:
+--       'text'  → { block_id, selected_text, start_offset, end_offset }
+--       'image' → { gallery, index, x?, y? }  (gallery = design | moodboard | labels, x/y in %)
+--   parent_id               – thread root for replies
+--   edited_at               – set when the author edits the content
+CREATE TABLE IF NOT EXISTS public.comments (
+  id               UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  entity_type      TEXT NOT NULL
+    CHECK (entity_type IN ('product', 'moodboard_item', 'task', 'material', 'supplier', 'label', 'magazine_article')),
+  entity_id        UUID NOT NULL,
+  anchor_type      TEXT CHECK (anchor_type IN ('text', 'image')),
+  anchor           JSONB,
+  parent_id        UUID REFERENCES public.comments(id) ON DELETE CASCADE,
+  author_id        UUID NOT NULL REFERENCES public.profiles(id),
+  content          TEXT NOT NULL,
+  tagged_user_ids  UUID[] NOT NULL DEFAULT '{}',
+  edited_at        TIMESTAMPTZ,
+  created_at       TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at       TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK ((anchor_type IS NULL) = (anchor IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_comments_entity ON public.comments(entity_type, entity_id);
+CREATE INDEX IF NOT EXISTS idx_comments_parent ON public.comments(parent_id) WHERE parent_id IS NOT NULL;
+
+CREATE TRIGGER trg_comments_updated_at
+  BEFORE UPDATE ON public.comments
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+ALTER TABLE public.comments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read comments"
+  ON public.comments FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Users can insert comments"
+  ON public.comments FOR INSERT
+  WITH CHECK (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Users can update own comments"
+  ON public.comments FOR UPDATE
+  USING (auth.uid() = author_id);
+
+CREATE POLICY "Authors and founders can delete comments"
+  ON public.comments FOR DELETE
+  USING (auth.uid() = author_id OR public.can_delete_rls());
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.comments;
+
+-- Emoji reactions, one row per user and emoji
+CREATE TABLE IF NOT EXISTS public.comment_reactions (
+  comment_id  UUID NOT NULL REFERENCES public.comments(id) ON DELETE CASCADE,
+  user_id     UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  emoji       TEXT NOT NULL,
+  created_at  TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (comment_id, user_id, emoji)
+);
+
+ALTER TABLE public.comment_reactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read comment reactions"
+  ON public.comment_reactions FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Users can add own comment reactions"
+  ON public.comment_reactions FOR INSERT
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can remove own comment reactions"
+  ON public.comment_reactions FOR DELETE
+  USING (user_id = auth.uid());
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.comment_reactions;
+
+-- Read receipts: when a user last read the comments of an entity
+CREATE TABLE IF NOT EXISTS public.comment_reads (
+  user_id       UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  entity_type   TEXT NOT NULL,
+  entity_id     UUID NOT NULL,
+  last_read_at  TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, entity_type, entity_id)
+);
+
+ALTER TABLE public.comment_reads ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own comment reads"
+  ON public.comment_reads FOR SELECT
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can insert own comment reads"
+  ON public.comment_reads FOR INSERT
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update own comment reads"
+  ON public.comment_reads FOR UPDATE
+  USING (user_id = auth.uid());
+
+-- Comments have no FK to their entity – remove them (and read receipts) with the entity
+CREATE OR REPLACE FUNCTION public.delete_entity_comments()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.comments WHERE entity_type = TG_ARGV[0] AND entity_id = OLD.id;
+  DELETE FROM public.comment_reads WHERE entity_type = TG_ARGV[0] AND entity_id = OLD.id;
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER trg_products_delete_comments
+  AFTER DELETE ON public.products
+  FOR EACH ROW EXECUTE FUNCTION public.delete_entity_comments('product');
+
+CREATE TRIGGER trg_moodboard_items_delete_comments
+  AFTER DELETE ON public.moodboard_items
+  FOR EACH ROW EXECUTE FUNCTION public.delete_entity_comments('moodboard_item');
+
+CREATE TRIGGER trg_tasks_delete_comments
+  AFTER DELETE ON public.tasks
+  FOR EACH ROW EXECUTE FUNCTION public.delete_entity_comments('task');
+
+CREATE TRIGGER trg_materials_delete_comments
+  AFTER DELETE ON public.materials
+  FOR EACH ROW EXECUTE FUNCTION public.delete_entity_comments('material');
+
+CREATE TRIGGER trg_suppliers_delete_comments
+  AFTER DELETE ON public.suppliers
+  FOR EACH ROW EXECUTE FUNCTION public.delete_entity_comments('supplier');
+
+CREATE TRIGGER trg_labels_delete_comments
+  AFTER DELETE ON public.labels
+  FOR EACH ROW EXECUTE FUNCTION public.delete_entity_comments('label');
+
+CREATE TRIGGER trg_magazine_articles_delete_comments
+  AFTER DELETE ON public.magazine_articles
+  FOR EACH ROW EXECUTE FUNCTION public.delete_entity_comments('magazine_article');
+
+-- ── Move existing comments (ids kept, so notification links and threads survive) ──
+INSERT INTO public.comments (id, entity_type, entity_id, parent_id, author_id, content, created_at, updated_at)
+SELECT id, 'product', product_id, parent_id, author_id, content, created_at, updated_at
+FROM public.product_comments;
+
+INSERT INTO public.comments (id, entity_type, entity_id, anchor_type, anchor, parent_id, author_id, content, created_at, updated_at)
+SELECT
+  id, 'product', product_id, 'text',
+  jsonb_build_object('block_id', block_id, 'selected_text', selected_text, 'start_offset', start_offset, 'end_offset', end_offset),
+  parent_id, author_id, content, created_at, updated_at
+FROM public.product_text_comments;
+
+INSERT INTO public.comments (id, entity_type, entity_id, anchor_type, anchor, author_id, content, tagged_user_ids, created_at, updated_at)
+SELECT
+  id, 'product', product_id, 'image',
+  jsonb_build_object('gallery', gallery_type, 'index', image_index),
+  author_id, content, COALESCE(tagged_user_ids, '{}'), created_at, created_at
+FROM public.product_gallery_comments;
+
+INSERT INTO public.comments (id, entity_type, entity_id, author_id, content, tagged_user_ids, created_at, updated_at)
+SELECT id, 'moodboard_item', moodboard_item_id, author_id, content, COALESCE(tagged_user_ids, '{}'), created_at, created_at
+FROM public.moodboard_comments;
+
+INSERT INTO public.comments (id, entity_type, entity_id, parent_id, author_id, content, created_at, updated_at)
+SELECT id, 'task', task_id, parent_id, author_id, content, created_at, updated_at
+FROM public.task_comments;
+
+INSERT INTO public.comment_reads (user_id, entity_type, entity_id, last_read_at)
+SELECT user_id, 'moodboard_item', moodboard_item_id, last_read_at
+FROM public.moodboard_comment_reads;
+
+DROP TABLE IF EXISTS public.moodboard_comment_reads CASCADE;
+DROP TABLE IF EXISTS public.product_comments CASCADE;
+DROP TABLE IF EXISTS public.product_text_comments CASCADE;
+DROP TABLE IF EXISTS public.product_gallery_comments CASCADE;
+DROP TABLE IF EXISTS public.moodboard_comments CASCADE;
+DROP TABLE IF EXISTS public.task_comments CASCADE;
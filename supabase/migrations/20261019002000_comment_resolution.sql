@@ -0,0 +1,104 @@
+-- Review workflow for comment threads. State lives on the thread root:
+--   resolved_at / resolved_by – set when someone marks the remark as handled, cleared on reopen
+--   is_blocking               – open blocking threads keep a product from ready_for_sampling
+--   assignee_id               – who is expected to handle the remark
+ALTER TABLE public.comments
+  ADD COLUMN IF NOT EXISTS resolved_at  TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS resolved_by  UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS is_blocking  BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS assignee_id  UUID REFERENCES public.profiles(id) ON DELETE SET NULL;
+
+ALTER TABLE public.comments
+  ADD CONSTRAINT comments_review_on_root
+  CHECK (parent_id IS NULL OR (resolved_at IS NULL AND NOT is_blocking AND assignee_id IS NULL));
+
+CREATE INDEX IF NOT EXISTS idx_comments_open_threads
+  ON public.comments(entity_type, entity_id)
+  WHERE parent_id IS NULL AND resolved_at IS NULL;
+
+-- Anyone may change the review state of a thread; everything else stays with the author.
+-- resolved_by / resolved_at are stamped here so clients cannot resolve in someone else's name.
+CREATE OR REPLACE FUNCTION public.comments_guard_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS DISTINCT FROM OLD.author_id AND (
+    NEW.content IS DISTINCT FROM OLD.content
+    OR NEW.entity_type IS DISTINCT FROM OLD.entity_type
+    OR NEW.entity_id IS DISTINCT FROM OLD.entity_id
+    OR NEW.anchor_type IS DISTINCT FROM OLD.anchor_type
+    OR NEW.anchor IS DISTINCT FROM OLD.anchor
+    OR NEW.parent_id IS DISTINCT FROM OLD.parent_id
+    OR NEW.author_id IS DISTINCT FROM OLD.author_id
+    OR NEW.tagged_user_ids IS DISTINCT FROM OLD.tagged_user_ids
+    OR NEW.edited_at IS DISTINCT FROM OLD.edited_at
+  ) THEN
+    RAISE EXCEPTION 'Only the author can edit a comment';
+  END IF;
+
+  IF NEW.resolved_at IS NULL THEN
+    NEW.resolved_by := NULL;
+  ELSIF OLD.resolved_at IS NULL THEN
+    NEW.resolved_at := now();
+    NEW.resolved_by := COALESCE(auth.uid(), NEW.resolved_by);
+  ELSE
+    NEW.resolved_at := OLD.resolved_at;
+    NEW.resolved_by := OLD.resolved_by;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trg_comments_guard_update
+  BEFORE UPDATE ON public.comments
+  FOR EACH ROW EXECUTE FUNCTION public.comments_guard_update();
+
+DROP POLICY IF EXISTS "Users can update own comments" ON public.comments;
+CREATE POLICY "Users can update comments"
+  ON public.comments FOR UPDATE
+  USING (auth.uid() IS NOT NULL);
+
+-- Founder override for marking a product ready for sampling despite open blocking comments.
+-- Cleared whenever the product leaves ready_for_sampling.
+ALTER TABLE public.products
+  ADD COLUMN IF NOT EXISTS sampling_override_at  TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS sampling_override_by  UUID REFERENCES public.profiles(id) ON DELETE SET NULL;
+
+CREATE OR REPLACE FUNCTION public.products_guard_ready_for_sampling()
+RETURNS TRIGGER AS $$
+DECLARE
+  open_blocking INT;
+BEGIN
+  IF NOT NEW.ready_for_sampling THEN
+    NEW.sampling_override_at := NULL;
+    NEW.sampling_override_by := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.sampling_override_at IS NOT NULL
+     AND (TG_OP = 'INSERT' OR OLD.sampling_override_at IS NULL) THEN
+    IF NOT public.can_delete_rls() THEN
+      RAISE EXCEPTION 'Only founders can override blocking comments';
+    END IF;
+    NEW.sampling_override_at := now();
+    NEW.sampling_override_by := COALESCE(auth.uid(), NEW.sampling_override_by);
+  END IF;
+
+  IF (TG_OP = 'INSERT' OR NOT OLD.ready_for_sampling) AND NEW.sampling_override_at IS NULL THEN
+    SELECT count(*) INTO open_blocking
+    FROM public.comments
+    WHERE entity_type = 'product'
+      AND entity_id = NEW.id
+      AND parent_id IS NULL
+      AND is_blocking
+      AND resolved_at IS NULL;
+    IF open_blocking > 0 THEN
+      RAISE EXCEPTION 'Product has % open blocking comment(s)', open_blocking;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trg_products_guard_ready_for_sampling
+  BEFORE INSERT OR UPDATE OF ready_for_sampling, sampling_override_at ON public.products
+  FOR EACH ROW EXECUTE FUNCTION public.products_guard_ready_for_sampling();
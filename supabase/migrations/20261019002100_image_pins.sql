@@ -0,0 +1,16 @@
+-- Image pins: image-anchored comments may carry a point (x, y) or a region (x, y = top-left, w, h),
+-- all in percent of the image. Pins are thread roots; moodboard item images use gallery 'item'
+-- (index 0 = main image, then the sub-images).
+ALTER TABLE public.comments
+  ADD CONSTRAINT comments_image_pin_bounds
+  CHECK (
+    anchor_type IS DISTINCT FROM 'image'
+    OR NOT (anchor ? 'x')
+    OR (
+      parent_id IS NULL
+      AND (anchor->>'x')::NUMERIC BETWEEN 0 AND 100
+      AND (anchor->>'y')::NUMERIC BETWEEN 0 AND 100
+      AND (NOT (anchor ? 'w') OR (anchor->>'x')::NUMERIC + (anchor->>'w')::NUMERIC <= 100.5)
+      AND (NOT (anchor ? 'h') OR (anchor->>'y')::NUMERIC + (anchor->>'h')::NUMERIC <= 100.5)
+    )
+  );
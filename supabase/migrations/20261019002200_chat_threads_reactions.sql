@@ -0,0 +1,153 @@
+-- Chat: reply threads, edits, @mentions and attachments on messages, emoji reactions,
+-- per-room read receipts (unread counts) and an attachments bucket.
+--   parent_id    – thread root for replies (roots only, same room)
+--   attachments  – [{ url, name, type, size }] files in the chat-attachments bucket
+--   edited_at    – set when the sender edits the content
+ALTER TABLE public.chat_messages
+  ADD COLUMN IF NOT EXISTS parent_id       UUID REFERENCES public.chat_messages(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS tagged_user_ids UUID[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS attachments     JSONB NOT NULL DEFAULT '[]',
+  ADD COLUMN IF NOT EXISTS edited_at       TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS updated_at      TIMESTAMPTZ NOT NULL DEFAULT now();
+
+ALTER TABLE public.chat_messages
+  ADD CONSTRAINT chat_messages_not_empty
+  CHECK (btrim(content) <> '' OR jsonb_array_length(attachments) > 0);
+
+CREATE INDEX IF NOT EXISTS idx_chat_messages_room ON public.chat_messages(room_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_chat_messages_parent ON public.chat_messages(parent_id) WHERE parent_id IS NOT NULL;
+
+CREATE TRIGGER trg_chat_messages_updated_at
+  BEFORE UPDATE ON public.chat_messages
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+-- Threads are one level deep and stay in the room of their root
+CREATE OR REPLACE FUNCTION public.chat_messages_guard_thread()
+RETURNS TRIGGER AS $$
+DECLARE
+  parent public.chat_messages%ROWTYPE;
+BEGIN
+  IF NEW.parent_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+  SELECT * INTO parent FROM public.chat_messages WHERE id = NEW.parent_id;
+  IF parent.parent_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Replies must belong to a thread root';
+  END IF;
+  IF parent.room_id <> NEW.room_id THEN
+    RAISE EXCEPTION 'Replies must be in the room of their thread';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trg_chat_messages_guard_thread
+  BEFORE INSERT OR UPDATE OF parent_id, room_id ON public.chat_messages
+  FOR EACH ROW EXECUTE FUNCTION public.chat_messages_guard_thread();
+
+DROP POLICY IF EXISTS "Users can update own chat_messages" ON public.chat_messages;
+DROP POLICY IF EXISTS "Senders and founders can delete chat_messages" ON public.chat_messages;
+
+CREATE POLICY "Users can update own chat_messages"
+  ON public.chat_messages FOR UPDATE
+  USING (auth.uid() = sender_id);
+
+CREATE POLICY "Senders and founders can delete chat_messages"
+  ON public.chat_messages FOR DELETE
+  USING (auth.uid() = sender_id OR public.can_delete_rls());
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'chat_messages'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.chat_messages;
+  END IF;
+END $$;
+
+-- Emoji reactions, one row per user and emoji
+CREATE TABLE IF NOT EXISTS public.chat_message_reactions (
+  message_id  UUID NOT NULL REFERENCES public.chat_messages(id) ON DELETE CASCADE,
+  user_id     UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  emoji       TEXT NOT NULL,
+  created_at  TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (message_id, user_id, emoji)
+);
+
+ALTER TABLE public.chat_message_reactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read chat reactions"
+  ON public.chat_message_reactions FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Users can add own chat reactions"
+  ON public.chat_message_reactions FOR INSERT
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can remove own chat reactions"
+  ON public.chat_message_reactions FOR DELETE
+  USING (user_id = auth.uid());
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.chat_message_reactions;
+
+-- Read receipts: when a user last read a room
+CREATE TABLE IF NOT EXISTS public.chat_room_reads (
+  user_id       UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  room_id       UUID NOT NULL REFERENCES public.chat_rooms(id) ON DELETE CASCADE,
+  last_read_at  TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, room_id)
+);
+
+ALTER TABLE public.chat_room_reads ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own chat room reads"
+  ON public.chat_room_reads FOR SELECT
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can insert own chat room reads"
+  ON public.chat_room_reads FOR INSERT
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update own chat room reads"
+  ON public.chat_room_reads FOR UPDATE
+  USING (user_id = auth.uid());
+
+-- The sidebar refreshes its unread counts when the chat page marks a room read
+ALTER PUBLICATION supabase_realtime ADD TABLE public.chat_room_reads;
+
+-- Messages by others since the caller last read each room; only rooms with unread messages.
+-- Runs as invoker, so room visibility follows the chat RLS policies.
+CREATE OR REPLACE FUNCTION public.chat_unread_counts()
+RETURNS TABLE (room_id UUID, room_name TEXT, unread BIGINT) AS $$
+  SELECT r.id, r.name, count(m.id)
+  FROM public.chat_rooms r
+  JOIN public.chat_messages m ON m.room_id = r.id
+  LEFT JOIN public.chat_room_reads rr ON rr.room_id = r.id AND rr.user_id = auth.uid()
+  WHERE m.sender_id <> auth.uid()
+    AND (rr.last_read_at IS NULL OR m.created_at > rr.last_read_at)
+  GROUP BY r.id, r.name;
+$$ LANGUAGE sql STABLE;
+
+-- Attachments bucket (images and PDFs)
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'chat-attachments',
+  'chat-attachments',
+  true,
+  20971520,
+  ARRAY['application/pdf', 'image/jpeg', 'image/png', 'image/webp', 'image/gif']::text[]
+)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Allow authenticated uploads to chat-attachments bucket"
+ON storage.objects FOR INSERT TO authenticated
+WITH CHECK (bucket_id = 'chat-attachments');
+
+CREATE POLICY "Allow public read for chat-attachments bucket"
+ON storage.objects FOR SELECT TO public
+USING (bucket_id = 'chat-attachments');
+
+CREATE POLICY "Allow authenticated delete from chat-attachments"
+ON storage.objects FOR DELETE TO authenticated
+USING (bucket_id = 'chat-attachments');
@@ -0,0 +1,336 @@
+-- Chat rooms beyond the three defaults:
+--   kind 'channel' – created (and archived) by founders; private channels are members-only
+--   kind 'direct'  – direct message between two profiles (start_direct_message)
+--   kind 'entity'  – one channel per product / production order (open_entity_chat_room)
+-- Team roles (founder, engineer, viewer) see every non-private channel and entity channel;
+-- clients and hosts only see rooms they were invited to (chat_room_members). Direct messages
+-- are visible to their two members only.
+ALTER TABLE public.chat_rooms
+  ADD COLUMN IF NOT EXISTS kind         TEXT NOT NULL DEFAULT 'channel'
+    CHECK (kind IN ('channel', 'direct', 'entity')),
+  ADD COLUMN IF NOT EXISTS is_private   BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS entity_type  TEXT CHECK (entity_type IN ('product', 'production_order')),
+  ADD COLUMN IF NOT EXISTS entity_id    UUID,
+  ADD COLUMN IF NOT EXISTS archived_at  TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS archived_by  UUID REFERENCES public.profiles(id) ON DELETE SET NULL;
+
+ALTER TABLE public.chat_rooms
+  ADD CONSTRAINT chat_rooms_entity_ref
+  CHECK ((kind = 'entity') = (entity_type IS NOT NULL AND entity_id IS NOT NULL));
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_chat_rooms_entity
+  ON public.chat_rooms(entity_type, entity_id) WHERE kind = 'entity';
+
+-- The default rooms used to be created by the first client that opened the chat
+INSERT INTO public.chat_rooms (name)
+SELECT v.name
+FROM (VALUES ('Design'), ('Production'), ('General')) AS v(name)
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.chat_rooms r WHERE r.kind = 'channel' AND r.name = v.name
+);
+
+-- Invitations (private channels, clients and hosts) and the two sides of a direct message
+CREATE TABLE IF NOT EXISTS public.chat_room_members (
+  room_id     UUID NOT NULL REFERENCES public.chat_rooms(id) ON DELETE CASCADE,
+  user_id     UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  added_by    UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at  TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (room_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_chat_room_members_user ON public.chat_room_members(user_id);
+
+-- Helpers run as definer so policies on chat_rooms and chat_room_members do not recurse
+CREATE OR REPLACE FUNCTION public.is_chat_team_member()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT (SELECT role FROM public.profiles WHERE id = auth.uid()) IN ('founder', 'engineer', 'viewer');
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_chat_room_member(p_room_id UUID)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.chat_room_members m WHERE m.room_id = p_room_id AND m.user_id = auth.uid()
+  );
+$$;
+
+-- For rows of other tables (messages, members, files); the chat_rooms policy checks its own row,
+-- since a STABLE function cannot see a room inserted by the calling statement
+CREATE OR REPLACE FUNCTION public.can_access_chat_room(p_room_id UUID)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.chat_rooms r
+    WHERE r.id = p_room_id
+      AND (
+        public.is_chat_room_member(r.id)
+        OR (r.kind <> 'direct' AND public.is_chat_team_member() AND (NOT r.is_private OR public.is_founder()))
+      )
+  );
+$$;
+
+-- ── chat_rooms ────────────────────────────────────────────────
+DROP POLICY IF EXISTS "Users can read chat_rooms" ON public.chat_rooms;
+DROP POLICY IF EXISTS "Users can insert chat_rooms" ON public.chat_rooms;
+
+CREATE POLICY "Members and team can read chat_rooms"
+  ON public.chat_rooms FOR SELECT
+  USING (
+    public.is_chat_room_member(id)
+    OR (kind <> 'direct' AND public.is_chat_team_member() AND (NOT is_private OR public.is_founder()))
+  );
+
+CREATE POLICY "Founders can create chat channels"
+  ON public.chat_rooms FOR INSERT
+  WITH CHECK (public.is_founder() AND kind = 'channel');
+
+CREATE POLICY "Founders can update chat rooms"
+  ON public.chat_rooms FOR UPDATE
+  USING (public.is_founder() AND kind <> 'direct');
+
+-- ── chat_room_members ─────────────────────────────────────────
+ALTER TABLE public.chat_room_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read members of their chat rooms"
+  ON public.chat_room_members FOR SELECT
+  USING (public.can_access_chat_room(room_id));
+
+CREATE POLICY "Founders can invite chat members"
+  ON public.chat_room_members FOR INSERT
+  WITH CHECK (
+    public.is_founder()
+    AND EXISTS (SELECT 1 FROM public.chat_rooms r WHERE r.id = room_id AND r.kind <> 'direct')
+  );
+
+CREATE POLICY "Founders can remove chat members, users can leave"
+  ON public.chat_room_members FOR DELETE
+  USING (
+    (user_id = auth.uid() OR public.is_founder())
+    AND EXISTS (SELECT 1 FROM public.chat_rooms r WHERE r.id = room_id AND r.kind <> 'direct')
+  );
+
+-- ── chat_messages ─────────────────────────────────────────────
+DROP POLICY IF EXISTS "Users can read chat_messages" ON public.chat_messages;
+DROP POLICY IF EXISTS "Users can insert chat_messages" ON public.chat_messages;
+DROP POLICY IF EXISTS "Users can update own chat_messages" ON public.chat_messages;
+
+CREATE POLICY "Room members can read chat_messages"
+  ON public.chat_messages FOR SELECT
+  USING (public.can_access_chat_room(room_id));
+
+-- Archived rooms are read-only
+CREATE POLICY "Room members can post chat_messages"
+  ON public.chat_messages FOR INSERT
+  WITH CHECK (
+    sender_id = auth.uid()
+    AND public.can_access_chat_room(room_id)
+    AND NOT EXISTS (SELECT 1 FROM public.chat_rooms r WHERE r.id = room_id AND r.archived_at IS NOT NULL)
+  );
+
+CREATE POLICY "Users can update own chat_messages"
+  ON public.chat_messages FOR UPDATE
+  USING (auth.uid() = sender_id AND public.can_access_chat_room(room_id));
+
+DROP POLICY IF EXISTS "Senders and founders can delete chat_messages" ON public.chat_messages;
+
+CREATE POLICY "Senders and founders can delete chat_messages"
+  ON public.chat_messages FOR DELETE
+  USING ((auth.uid() = sender_id OR public.can_delete_rls()) AND public.can_access_chat_room(room_id));
+
+-- ── chat_message_reactions (messages are filtered by their own policy) ──
+DROP POLICY IF EXISTS "Users can read chat reactions" ON public.chat_message_reactions;
+DROP POLICY IF EXISTS "Users can add own chat reactions" ON public.chat_message_reactions;
+
+CREATE POLICY "Users can read chat reactions"
+  ON public.chat_message_reactions FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.chat_messages m WHERE m.id = message_id));
+
+CREATE POLICY "Users can add own chat reactions"
+  ON public.chat_message_reactions FOR INSERT
+  WITH CHECK (user_id = auth.uid() AND EXISTS (SELECT 1 FROM public.chat_messages m WHERE m.id = message_id));
+
+-- ── Direct messages ───────────────────────────────────────────
+-- Returns the direct message room of the caller and p_user_id, creating it on first use
+CREATE OR REPLACE FUNCTION public.start_direct_message(p_user_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_room_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  IF p_user_id = auth.uid() THEN
+    RAISE EXCEPTION 'Cannot start a direct message with yourself';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM public.profiles WHERE id = p_user_id) THEN
+    RAISE EXCEPTION 'Profile not found';
+  END IF;
+
+  SELECT r.id INTO v_room_id
+  FROM public.chat_rooms r
+  WHERE r.kind = 'direct'
+    AND EXISTS (SELECT 1 FROM public.chat_room_members m WHERE m.room_id = r.id AND m.user_id = auth.uid())
+    AND EXISTS (SELECT 1 FROM public.chat_room_members m WHERE m.room_id = r.id AND m.user_id = p_user_id)
+  LIMIT 1;
+
+  IF v_room_id IS NULL THEN
+    INSERT INTO public.chat_rooms (name, kind, is_private, created_by)
+    VALUES ('direct', 'direct', true, auth.uid())
+    RETURNING id INTO v_room_id;
+    INSERT INTO public.chat_room_members (room_id, user_id, added_by)
+    VALUES (v_room_id, auth.uid(), auth.uid()), (v_room_id, p_user_id, auth.uid());
+  END IF;
+
+  RETURN v_room_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ── Entity channels ───────────────────────────────────────────
+-- Returns the channel of a product or production order, creating it on first use (team roles only)
+CREATE OR REPLACE FUNCTION public.open_entity_chat_room(p_entity_type TEXT, p_entity_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_room_id UUID;
+  v_name    TEXT;
+BEGIN
+  IF NOT public.is_chat_team_member() THEN
+    RAISE EXCEPTION 'Only team members can open entity channels';
+  END IF;
+
+  SELECT id INTO v_room_id
+  FROM public.chat_rooms
+  WHERE kind = 'entity' AND entity_type = p_entity_type AND entity_id = p_entity_id;
+  IF v_room_id IS NOT NULL THEN
+    RETURN v_room_id;
+  END IF;
+
+  IF p_entity_type = 'product' THEN
+    SELECT name || COALESCE(' (' || sku || ')', '') INTO v_name FROM public.products WHERE id = p_entity_id;
+  ELSIF p_entity_type = 'production_order' THEN
+    SELECT p.name || ' · ' || COALESCE(to_char(o.target_date, 'YYYY-MM-DD'), left(o.id::TEXT, 8))
+    INTO v_name
+    FROM public.production_orders o
+    JOIN public.products p ON p.id = o.product_id
+    WHERE o.id = p_entity_id;
+  ELSE
+    RAISE EXCEPTION 'Unknown entity type %', p_entity_type;
+  END IF;
+  IF v_name IS NULL THEN
+    RAISE EXCEPTION 'Entity not found';
+  END IF;
+
+  INSERT INTO public.chat_rooms (name, kind, entity_type, entity_id, created_by)
+  VALUES (v_name, 'entity', p_entity_type, p_entity_id, auth.uid())
+  ON CONFLICT (entity_type, entity_id) WHERE kind = 'entity' DO NOTHING
+  RETURNING id INTO v_room_id;
+
+  IF v_room_id IS NULL THEN
+    SELECT id INTO v_room_id
+    FROM public.chat_rooms
+    WHERE kind = 'entity' AND entity_type = p_entity_type AND entity_id = p_entity_id;
+  END IF;
+
+  RETURN v_room_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Entity channels have no FK to their entity – remove them with the entity
+CREATE OR REPLACE FUNCTION public.delete_entity_chat_room()
+RETURNS TRIGGER AS $$
+BEGIN
+  DELETE FROM public.chat_rooms WHERE kind = 'entity' AND entity_type = TG_ARGV[0] AND entity_id = OLD.id;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER trg_products_delete_chat_room
+  AFTER DELETE ON public.products
+  FOR EACH ROW EXECUTE FUNCTION public.delete_entity_chat_room('product');
+
+CREATE TRIGGER trg_production_orders_delete_chat_room
+  AFTER DELETE ON public.production_orders
+  FOR EACH ROW EXECUTE FUNCTION public.delete_entity_chat_room('production_order');
+
+-- ── Unread counts ─────────────────────────────────────────────
+-- Adds the room kind and names direct messages after the other member; archived rooms are skipped
+DROP FUNCTION IF EXISTS public.chat_unread_counts();
+
+CREATE OR REPLACE FUNCTION public.chat_unread_counts()
+RETURNS TABLE (room_id UUID, room_name TEXT, room_kind TEXT, unread BIGINT) AS $$
+  SELECT
+    r.id,
+    CASE WHEN r.kind = 'direct' THEN COALESCE((
+      SELECT COALESCE(NULLIF(btrim(concat_ws(' ', p.first_name, p.last_name)), ''), p.full_name)
+      FROM public.chat_room_members dm
+      JOIN public.profiles p ON p.id = dm.user_id
+      WHERE dm.room_id = r.id AND dm.user_id <> auth.uid()
+      LIMIT 1
+    ), r.name) ELSE r.name END,
+    r.kind,
+    count(m.id)
+  FROM public.chat_rooms r
+  JOIN public.chat_messages m ON m.room_id = r.id
+  LEFT JOIN public.chat_room_reads rr ON rr.room_id = r.id AND rr.user_id = auth.uid()
+  WHERE r.archived_at IS NULL
+    AND m.sender_id <> auth.uid()
+    AND (rr.last_read_at IS NULL OR m.created_at > rr.last_read_at)
+  GROUP BY r.id, r.name, r.kind;
+$$ LANGUAGE sql STABLE;
+
+-- Room lists refresh when rooms are created, archived or members invited
+DO $$
+DECLARE
+  t TEXT;
+BEGIN
+  FOREACH t IN ARRAY ARRAY['chat_rooms', 'chat_room_members'] LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = t
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', t);
+    END IF;
+  END LOOP;
+END $$;
+
+-- ── Attachments ───────────────────────────────────────────────
+-- Files live under <room_id>/ and follow the room's membership; the bucket is private and files
+-- are served through signed URLs, so messages store the object path instead of a public URL
+UPDATE storage.buckets SET public = false WHERE id = 'chat-attachments';
+
+UPDATE public.chat_messages
+SET attachments = (
+  SELECT COALESCE(jsonb_agg(
+    (a - 'url') || jsonb_build_object('path', COALESCE(a->>'path', split_part(a->>'url', '/chat-attachments/', 2)))
+  ), '[]'::jsonb)
+  FROM jsonb_array_elements(attachments) a
+)
+WHERE jsonb_array_length(attachments) > 0;
+
+DROP POLICY IF EXISTS "Allow authenticated uploads to chat-attachments bucket" ON storage.objects;
+DROP POLICY IF EXISTS "Allow public read for chat-attachments bucket" ON storage.objects;
+DROP POLICY IF EXISTS "Allow authenticated delete from chat-attachments" ON storage.objects;
+
+CREATE POLICY "Room members can upload chat attachments"
+ON storage.objects FOR INSERT TO authenticated
+WITH CHECK (bucket_id = 'chat-attachments' AND public.can_access_chat_room(split_part(name, '/', 1)::uuid));
+
+CREATE POLICY "Room members can read chat attachments"
+ON storage.objects FOR SELECT TO authenticated
+USING (bucket_id = 'chat-attachments' AND public.can_access_chat_room(split_part(name, '/', 1)::uuid));
+
+CREATE POLICY "Room members can delete chat attachments"
+ON storage.objects FOR DELETE TO authenticated
+USING (bucket_id = 'chat-attachments' AND public.can_access_chat_room(split_part(name, '/', 1)::uuid));
@@ -0,0 +1,92 @@
+-- Restore a product version in one transaction: product columns, variants and the
+-- material / label / component links. A link whose material, label or component was deleted
+-- since the snapshot aborts the whole restore instead of leaving the product without its BOM.
+-- Columns missing from older snapshots keep their current value; keys of dropped columns are ignored.
+CREATE OR REPLACE FUNCTION public.restore_product_version(p_version_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_product_id UUID;
+  v_snapshot   JSONB;
+  v_fields     JSONB;
+  v_version_id UUID;
+BEGIN
+  IF NOT public.is_founder() THEN
+    RAISE EXCEPTION 'Only founders can restore product versions';
+  END IF;
+
+  SELECT product_id, snapshot INTO v_product_id, v_snapshot
+  FROM public.product_versions
+  WHERE id = p_version_id;
+  IF v_product_id IS NULL THEN
+    RAISE EXCEPTION 'Product version not found';
+  END IF;
+  v_fields := v_snapshot->'product';
+
+  UPDATE public.products p SET
+    name                    = CASE WHEN v_fields ? 'name' THEN r.name ELSE p.name END,
+    sku                     = CASE WHEN v_fields ? 'sku' THEN r.sku ELSE p.sku END,
+    sku_number              = CASE WHEN v_fields ? 'sku_number' THEN r.sku_number ELSE p.sku_number END,
+    collection_id           = CASE WHEN v_fields ? 'collection_id' THEN r.collection_id ELSE p.collection_id END,
+    category                = CASE WHEN v_fields ? 'category' THEN r.category ELSE p.category END,
+    status                  = CASE WHEN v_fields ? 'status' THEN r.status ELSE p.status END,
+    short_description       = CASE WHEN v_fields ? 'short_description' THEN r.short_description ELSE p.short_description END,
+    description             = CASE WHEN v_fields ? 'description' THEN r.description ELSE p.description END,
+    labor_cost              = CASE WHEN v_fields ? 'labor_cost' THEN r.labor_cost ELSE p.labor_cost END,
+    overhead_cost           = CASE WHEN v_fields ? 'overhead_cost' THEN r.overhead_cost ELSE p.overhead_cost END,
+    labor_overhead_currency = CASE WHEN v_fields ? 'labor_overhead_currency' THEN r.labor_overhead_currency ELSE p.labor_overhead_currency END,
+    markup_multiplier       = CASE WHEN v_fields ? 'markup_multiplier' THEN r.markup_multiplier ELSE p.markup_multiplier END,
+    wholesale_markup        = CASE WHEN v_fields ? 'wholesale_markup' THEN r.wholesale_markup ELSE p.wholesale_markup END,
+    size_run                = CASE WHEN v_fields ? 'size_run' THEN r.size_run ELSE p.size_run END,
+    size_ratio              = CASE WHEN v_fields ? 'size_ratio' THEN r.size_ratio ELSE p.size_ratio END,
+    tech_pack               = CASE WHEN v_fields ? 'tech_pack' THEN r.tech_pack ELSE p.tech_pack END,
+    hidden                  = CASE WHEN v_fields ? 'hidden' THEN r.hidden ELSE p.hidden END,
+    ready_for_sampling      = CASE WHEN v_fields ? 'ready_for_sampling' THEN r.ready_for_sampling ELSE p.ready_for_sampling END,
+    priority                = CASE WHEN v_fields ? 'priority' THEN r.priority ELSE p.priority END,
+    care_label              = CASE WHEN v_fields ? 'care_label' THEN r.care_label ELSE p.care_label END
+  FROM jsonb_populate_record(NULL::public.products, v_fields) r
+  WHERE p.id = v_product_id;
+
+  -- Variants keep their ids, so the restored links below point at them again
+  IF v_snapshot ? 'variants' THEN
+    DELETE FROM public.product_variants
+    WHERE product_id = v_product_id
+      AND id NOT IN (SELECT (v->>'id')::UUID FROM jsonb_array_elements(v_snapshot->'variants') v);
+
+    INSERT INTO public.product_variants (id, product_id, name, color_code, swatch_url, sku_suffix, sort_order)
+    SELECT r.id, v_product_id, r.name, r.color_code, r.swatch_url, r.sku_suffix, COALESCE(r.sort_order, 0)
+    FROM jsonb_populate_recordset(NULL::public.product_variants, v_snapshot->'variants') r
+    ON CONFLICT (id) DO UPDATE SET
+      name       = EXCLUDED.name,
+      color_code = EXCLUDED.color_code,
+      swatch_url = EXCLUDED.swatch_url,
+      sku_suffix = EXCLUDED.sku_suffix,
+      sort_order = EXCLUDED.sort_order;
+  END IF;
+
+  -- Legacy snapshots still carry the old "variant" version string – unknown keys are ignored
+  DELETE FROM public.product_materials WHERE product_id = v_product_id;
+  INSERT INTO public.product_materials
+    (product_id, material_id, consumption_amount, consumption_by_size, role, variant_id, notes)
+  SELECT v_product_id, r.material_id, r.consumption_amount, COALESCE(r.consumption_by_size, '{}'), COALESCE(r.role, 'main'), r.variant_id, r.notes
+  FROM jsonb_populate_recordset(NULL::public.product_materials, COALESCE(v_snapshot->'materials', '[]'::jsonb)) r;
+
+  DELETE FROM public.product_labels WHERE product_id = v_product_id;
+  INSERT INTO public.product_labels (product_id, label_id, placement, notes, variant_id)
+  SELECT v_product_id, r.label_id, r.placement, r.notes, r.variant_id
+  FROM jsonb_populate_recordset(NULL::public.product_labels, COALESCE(v_snapshot->'labels', '[]'::jsonb)) r;
+
+  DELETE FROM public.product_components WHERE product_id = v_product_id;
+  INSERT INTO public.product_components (product_id, component_id, quantity, quantity_by_size, notes, variant_id)
+  SELECT v_product_id, r.component_id, r.quantity, COALESCE(r.quantity_by_size, '{}'), r.notes, r.variant_id
+  FROM jsonb_populate_recordset(NULL::public.product_components, COALESCE(v_snapshot->'components', '[]'::jsonb)) r;
+
+  -- Always a new version so the restore shows up on the timeline
+  INSERT INTO public.product_versions (product_id, version_number, snapshot, created_by)
+  SELECT v_product_id, COALESCE(max(version_number), 0) + 1, v_snapshot, auth.uid()
+  FROM public.product_versions
+  WHERE product_id = v_product_id
+  RETURNING id INTO v_version_id;
+
+  RETURN v_version_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
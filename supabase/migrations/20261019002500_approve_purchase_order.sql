@@ -0,0 +1,46 @@
+-- Approve a draft purchase order in one transaction: book it as an accounting order
+-- (status 'ordered') with the saved PO lines as order items and link it back.
+-- Approving an order that is already approved returns its accounting order instead of booking it twice.
+CREATE OR REPLACE FUNCTION public.approve_purchase_order(p_po_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_po         public.purchase_orders%ROWTYPE;
+  v_order_id   UUID;
+BEGIN
+  SELECT * INTO v_po FROM public.purchase_orders WHERE id = p_po_id FOR UPDATE;
+  IF v_po.id IS NULL THEN
+    RAISE EXCEPTION 'Purchase order not found';
+  END IF;
+  IF v_po.status = 'approved' AND v_po.accounting_order_id IS NOT NULL THEN
+    RETURN v_po.accounting_order_id;
+  END IF;
+  IF v_po.status <> 'draft' THEN
+    RAISE EXCEPTION 'Only draft purchase orders can be approved';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM public.purchase_order_items WHERE purchase_order_id = p_po_id) THEN
+    RAISE EXCEPTION 'Purchase order has no items';
+  END IF;
+
+  INSERT INTO public.accounting_orders
+    (order_status, category, supplier_id, order_number, order_value, order_currency, order_date, note, created_by)
+  SELECT
+    'ordered', 'Material', v_po.supplier_id, 'PO-' || lpad(v_po.po_number::TEXT, 4, '0'),
+    ROUND(SUM(i.quantity * i.unit_price), 2), v_po.currency, CURRENT_DATE, v_po.notes, auth.uid()
+  FROM public.purchase_order_items i
+  WHERE i.purchase_order_id = p_po_id
+  RETURNING id INTO v_order_id;
+
+  -- PO prices are net; VAT is filled in from the supplier invoice later
+  INSERT INTO public.accounting_order_items
+    (accounting_order_id, material_id, component_id, description, unit, quantity, unit_price, vat_rate, sort_order)
+  SELECT v_order_id, i.material_id, i.component_id, i.description, i.unit, i.quantity, i.unit_price, 0, i.sort_order
+  FROM public.purchase_order_items i
+  WHERE i.purchase_order_id = p_po_id;
+
+  UPDATE public.purchase_orders
+  SET status = 'approved', accounting_order_id = v_order_id, approved_at = now()
+  WHERE id = p_po_id;
+
+  RETURN v_order_id;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
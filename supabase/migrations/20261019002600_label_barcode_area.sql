@@ -0,0 +1,5 @@
+-- Barcode element on a label design: where the EAN-13 of the sellable unit is printed,
+-- in mm from the top-left corner of the label ({ "x_mm", "y_mm", "width_mm", "height_mm" }).
+-- NULL → the design has no barcode.
+ALTER TABLE public.labels
+  ADD COLUMN IF NOT EXISTS barcode_area JSONB;
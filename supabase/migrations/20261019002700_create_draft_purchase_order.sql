@@ -0,0 +1,26 @@
+-- Create a draft purchase order with its lines in one transaction, so a failed line insert
+-- never leaves an empty draft behind. p_items: [{ material_id, component_id, description, unit, quantity, unit_price }]
+CREATE OR REPLACE FUNCTION public.create_draft_purchase_order(
+  p_supplier_id UUID,
+  p_currency    TEXT,
+  p_notes       TEXT,
+  p_items       JSONB
+)
+RETURNS UUID AS $$
+DECLARE
+  v_po_id UUID;
+BEGIN
+  INSERT INTO public.purchase_orders (supplier_id, status, currency, notes, created_by)
+  VALUES (p_supplier_id, 'draft', p_currency, p_notes, auth.uid())
+  RETURNING id INTO v_po_id;
+
+  INSERT INTO public.purchase_order_items
+    (purchase_order_id, material_id, component_id, description, unit, quantity, unit_price, sort_order)
+  SELECT v_po_id, r.material_id, r.component_id, r.description, COALESCE(r.unit, 'pcs'),
+         COALESCE(r.quantity, 0), COALESCE(r.unit_price, 0), (i.ord - 1)::INTEGER
+  FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb)) WITH ORDINALITY AS i(item, ord)
+  CROSS JOIN LATERAL jsonb_populate_record(NULL::public.purchase_order_items, i.item) r;
+
+  RETURN v_po_id;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
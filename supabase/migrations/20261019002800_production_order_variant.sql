@@ -0,0 +1,6 @@
+-- Production runs of one colorway: the requirement is computed on the variant's BOM.
+-- NULL → the base BOM (products without variants, or runs planned before variants existed).
+ALTER TABLE public.production_orders
+  ADD COLUMN IF NOT EXISTS variant_id UUID REFERENCES public.product_variants(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_production_orders_variant ON public.production_orders(variant_id);
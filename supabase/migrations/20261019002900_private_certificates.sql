@@ -0,0 +1,15 @@
+-- Certificate files are supplier documents: the bucket is private and files are served through
+-- signed URLs, so certificates store the object path instead of a public URL
+UPDATE storage.buckets SET public = false WHERE id = 'certificates';
+
+ALTER TABLE public.certificates RENAME COLUMN file_url TO file_path;
+
+UPDATE public.certificates
+SET file_path = split_part(file_path, '/certificates/', 2)
+WHERE file_path LIKE '%/certificates/%';
+
+DROP POLICY IF EXISTS "Allow public read for certificates bucket" ON storage.objects;
+
+CREATE POLICY "Allow authenticated read for certificates bucket"
+ON storage.objects FOR SELECT TO authenticated
+USING (bucket_id = 'certificates');
@@ -0,0 +1,61 @@
+-- Removing the last item of an order resets its value – the gross total of the removed items
+-- no longer applies; the order falls back to a manually entered value.
+CREATE OR REPLACE FUNCTION public.sync_accounting_order_value()
+RETURNS TRIGGER AS $$
+DECLARE
+  r RECORD;
+BEGIN
+  r := COALESCE(NEW, OLD);
+  IF EXISTS (SELECT 1 FROM public.accounting_order_items WHERE accounting_order_id = r.accounting_order_id) THEN
+    UPDATE public.accounting_orders
+      SET order_value = (
+        SELECT ROUND(SUM(quantity * unit_price * (1 + vat_rate / 100)), 2)
+        FROM public.accounting_order_items
+        WHERE accounting_order_id = r.accounting_order_id
+      )
+      WHERE id = r.accounting_order_id;
+  ELSIF TG_OP = 'DELETE' THEN
+    UPDATE public.accounting_orders SET order_value = NULL WHERE id = r.accounting_order_id;
+  END IF;
+  RETURN r;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Replace the items of an order in one transaction: items missing from p_items are deleted,
+-- items with an id are updated, the rest inserted; sort_order follows the array order.
+-- p_items: [{ id, material_id, component_id, description, unit, quantity, unit_price, vat_rate }]
+CREATE OR REPLACE FUNCTION public.save_accounting_order_items(
+  p_order_id UUID,
+  p_items    JSONB
+)
+RETURNS VOID AS $$
+BEGIN
+  DELETE FROM public.accounting_order_items t
+  WHERE t.accounting_order_id = p_order_id
+    AND NOT EXISTS (
+      SELECT 1 FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb)) i
+      WHERE (i->>'id')::UUID = t.id
+    );
+
+  UPDATE public.accounting_order_items t
+  SET material_id  = r.material_id,
+      component_id = r.component_id,
+      description  = r.description,
+      unit         = COALESCE(r.unit, 'pcs'),
+      quantity     = COALESCE(r.quantity, 0),
+      unit_price   = COALESCE(r.unit_price, 0),
+      vat_rate     = COALESCE(r.vat_rate, 0),
+      sort_order   = (i.ord - 1)::INTEGER
+  FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb)) WITH ORDINALITY AS i(item, ord)
+  CROSS JOIN LATERAL jsonb_populate_record(NULL::public.accounting_order_items, i.item) r
+  WHERE t.id = r.id AND t.accounting_order_id = p_order_id;
+
+  INSERT INTO public.accounting_order_items
+    (accounting_order_id, material_id, component_id, description, unit, quantity, unit_price, vat_rate, sort_order)
+  SELECT p_order_id, r.material_id, r.component_id, r.description, COALESCE(r.unit, 'pcs'),
+         COALESCE(r.quantity, 0), COALESCE(r.unit_price, 0), COALESCE(r.vat_rate, 0), (i.ord - 1)::INTEGER
+  FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb)) WITH ORDINALITY AS i(item, ord)
+  CROSS JOIN LATERAL jsonb_populate_record(NULL::public.accounting_order_items, i.item) r
+  WHERE r.id IS NULL;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;